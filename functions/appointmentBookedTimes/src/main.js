@@ -0,0 +1,70 @@
+// File: functions/appointmentBookedTimes/src/main.js
+
+import { Client, Databases, Query } from 'node-appwrite';
+
+/*
+  Lists the times already booked at the practice, so patients are only offered slots nobody else holds.
+  Patients can only read their own appointments, so this reads them with the function's API key and returns
+  just the timing fields: no user IDs, types or notes.
+  Input: HTTP GET/POST from a signed-in user (Appwrite sets the x-appwrite-user-id header).
+  Output: JSON { "bookings": [{ $id, date, time, startsAt, endsAt, timeZone, status, isCompleted, recurrence, ... }] }
+  Covers appointments from yesterday on plus every recurring series (the app expands them), excluding the caller's own.
+*/
+
+const PAGE_SIZE = 100; // Appwrite max limit per listDocuments call
+const MAX_BOOKINGS = 2000; // Per query; far more than the practice can hold in the app's booking window
+const TIMING_FIELDS = ['$id', 'date', 'time', 'startsAt', 'endsAt', 'timeZone', 'status', 'isCompleted', 'recurrence', 'recurrenceExceptions', 'seriesId', 'originalDate'];
+
+const toBooking = (app) => Object.fromEntries(TIMING_FIELDS.filter((key) => app[key] !== undefined && app[key] !== null).map((key) => [key, app[key]]));
+
+const listAll = async (databases, databaseId, collectionId, queries) => {
+  const documents = [];
+  let cursor = null;
+  while (documents.length < MAX_BOOKINGS) {
+    const page = await databases.listDocuments(databaseId, collectionId, [
+      ...queries, Query.orderAsc('$id'), Query.limit(PAGE_SIZE), ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+    documents.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+  return documents;
+};
+
+export default async ({ req, res, log, error: contextError }) => {
+  // --- 1. Initialize Appwrite Client (Server SDK) ---
+  const { APPWRITE_FUNCTION_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID, APPWRITE_FUNCTION_API_KEY, DATABASE_ID, APPOINTMENTS_COLLECTION_ID } = process.env;
+  if (!APPWRITE_FUNCTION_ENDPOINT || !APPWRITE_FUNCTION_PROJECT_ID || !APPWRITE_FUNCTION_API_KEY || !DATABASE_ID || !APPOINTMENTS_COLLECTION_ID) {
+    contextError('Missing required environment variables for the booked times function.');
+    return res.json({ error: 'Function configuration error.' }, 500);
+  }
+
+  // --- 2. Only signed-in users (the header is set by Appwrite, not the caller) ---
+  const callerId = req.headers['x-appwrite-user-id'];
+  if (!callerId) {
+    return res.json({ error: 'Sign in to see available times.' }, 401);
+  }
+
+  const client = new Client()
+    .setEndpoint(APPWRITE_FUNCTION_ENDPOINT)
+    .setProject(APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(APPWRITE_FUNCTION_API_KEY);
+  const databases = new Databases(client);
+
+  // --- 3. Upcoming one-off appointments and every recurring series ---
+  try {
+    // Days are stored at midnight UTC; starting a day early keeps late-evening bookings west of UTC
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const notCaller = Query.notEqual('userId', String(callerId));
+    const [upcoming, series] = await Promise.all([
+      listAll(databases, DATABASE_ID, APPOINTMENTS_COLLECTION_ID, [notCaller, Query.greaterThanEqual('date', since)]),
+      listAll(databases, DATABASE_ID, APPOINTMENTS_COLLECTION_ID, [notCaller, Query.isNotNull('recurrence'), Query.lessThan('date', since)]),
+    ]);
+    const bookings = [...upcoming, ...series].map(toBooking);
+    log(`Returned ${bookings.length} booking(s) to user ${callerId}.`);
+    return res.json({ bookings });
+  } catch (err) {
+    contextError(`Error listing booked times: ${err.message || err}`);
+    return res.json({ error: 'Could not load booked times.' }, 500);
+  }
+};
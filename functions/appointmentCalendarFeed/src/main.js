@@ -0,0 +1,257 @@
+// File: functions/appointmentCalendarFeed/src/main.js
+
+import { Client, Databases, Query } from 'node-appwrite';
+
+/*
+  Serves a user's appointments as an iCalendar (.ics) feed that calendar apps subscribe to.
+  Input (HTTP GET): ?token=<profile.calendarFeedToken>&tz=<IANA zone for appointments saved without a timeZone>
+  Output: text/calendar with a VEVENT per appointment (series as RRULE/EXDATE, edited occurrences as RECURRENCE-ID).
+  This mirrors the export half of src/lib/icalendar.ts; functions are deployed on their own and can't
+  import app code, so keep the two in step.
+*/
+
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+const DURATION_MINUTES = 30;
+const PAGE_SIZE = 100; // Appwrite max limit per listDocuments call
+const MAX_APPOINTMENTS = 2000; // Newest first; anything older is left out of the feed
+const CATEGORY_LABELS = {
+  doctor: 'Doctor Visit',
+  lab_test: 'Lab Test',
+  yoga_class: 'Yoga Class',
+  childbirth_class: 'Childbirth Class',
+  fitness_class: 'Fitness Class',
+};
+// Appointment status -> VEVENT STATUS (appointments without a status are confirmed)
+const EVENT_STATUS = {
+  requested: 'TENTATIVE',
+  rescheduled: 'TENTATIVE',
+  cancelled_by_patient: 'CANCELLED',
+  cancelled_by_provider: 'CANCELLED',
+};
+
+// --- Time zone helpers (Intl) ---
+
+const isKnownTimeZone = (timeZone) => {
+  try { new Intl.DateTimeFormat('en-US', { timeZone }); return true; } catch { return false; }
+};
+
+const getOffsetMinutes = (instant, timeZone) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant).map((part) => [part.type, part.value]));
+  const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second);
+  return Math.round((wall - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+const getTransitions = (timeZone, year) => {
+  const transitions = [];
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getOffsetMinutes(new Date(previous), timeZone);
+  for (let day = 1; day <= 366; day++) {
+    const next = Date.UTC(year, 0, 1 + day);
+    const nextOffset = getOffsetMinutes(new Date(next), timeZone);
+    if (nextOffset !== previousOffset) {
+      let low = previous;
+      let high = next;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getOffsetMinutes(new Date(mid), timeZone) === previousOffset) low = mid; else high = mid;
+      }
+      transitions.push({ at: high, from: previousOffset, to: nextOffset });
+    }
+    previous = next;
+    previousOffset = nextOffset;
+  }
+  return transitions;
+};
+
+// --- iCalendar writing ---
+
+const escapeText = (value) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldLine = (line) => {
+  if (Buffer.byteLength(line) <= 75) return line;
+  const chunks = [];
+  let chunk = '';
+  for (const char of line) {
+    if (Buffer.byteLength(chunk + char) > (chunks.length === 0 ? 75 : 74)) { chunks.push(chunk); chunk = ''; }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (ms) => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const formatOffset = (minutes) => {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+/** An instant as floating "yyyyMMddTHHmmss" wall time in `timeZone`. */
+const toZonedStamp = (ms, timeZone) => formatUtc(ms + getOffsetMinutes(new Date(ms), timeZone) * 60000).replace('Z', '');
+
+/** The same wall time as `stamp` on `day` ("yyyy-MM-dd" or ISO datetime), e.g. for EXDATE / RECURRENCE-ID. */
+const onDay = (day, stamp) => {
+  const [year, month, dayOfMonth] = String(day).split('T')[0].split('-');
+  return year && month && dayOfMonth ? `${year}${month}${dayOfMonth}${stamp.slice(8)}` : null;
+};
+
+/** "yyyy-MM-dd" (or ISO datetime) + "10:30 AM" / "14:30" -> floating "yyyyMMddTHHmmss", shifted by `addMinutes`. */
+const toLocalStamp = (date, time, addMinutes = 0) => {
+  const [year, month, day] = String(date).split('T')[0].split('-').map(Number);
+  const match = String(time || '').match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!year || !month || !day || !match) return null;
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  return formatUtc(Date.UTC(year, month - 1, day, hours, parseInt(match[2], 10) + addMinutes)).replace('Z', '');
+};
+
+const createTimeZone = (timeZone, years) => {
+  const first = Math.min(...years);
+  const initial = getOffsetMinutes(new Date(Date.UTC(first, 0, 1)), timeZone);
+  const transitions = [];
+  for (let year = first; year <= Math.max(...years); year++) transitions.push(...getTransitions(timeZone, year));
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const observance = (kind, start, from, to) =>
+    lines.push(`BEGIN:${kind}`, `DTSTART:${start}`, `TZOFFSETFROM:${formatOffset(from)}`, `TZOFFSETTO:${formatOffset(to)}`, `END:${kind}`);
+  observance(transitions.length > 0 && transitions[0].to < initial ? 'DAYLIGHT' : 'STANDARD', `${first}0101T000000`, initial, initial);
+  for (const t of transitions) observance(t.to > t.from ? 'DAYLIGHT' : 'STANDARD', formatUtc(t.at + t.from * 60000).replace('Z', ''), t.from, t.to);
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/**
+ * Where an appointment sits on the clock: its own zone with start / end from startsAt / endsAt (UTC). Appointments
+ * saved before those existed use their date / time read in `fallbackZone` and the default length.
+ */
+const getEventTimes = (app, fallbackZone) => {
+  const zone = app.timeZone && isKnownTimeZone(app.timeZone) ? app.timeZone : fallbackZone;
+  const startMs = app.startsAt ? new Date(app.startsAt).getTime() : NaN;
+  if (!isNaN(startMs)) {
+    const endMs = app.endsAt ? new Date(app.endsAt).getTime() : NaN;
+    return { zone, start: toZonedStamp(startMs, zone), end: toZonedStamp(endMs > startMs ? endMs : startMs + DURATION_MINUTES * 60000, zone) };
+  }
+  const start = toLocalStamp(app.date, app.time);
+  return start ? { zone, start, end: toLocalStamp(app.date, app.time, DURATION_MINUTES) } : null;
+};
+
+const createCalendar = (appointments, fallbackZone) => {
+  const stamp = formatUtc(Date.now());
+  const masters = new Map(appointments.filter((app) => app.recurrence).map((app) => [app.$id, app]));
+  const overridden = new Set(appointments.filter((app) => masters.has(app.seriesId)).map((app) => `${app.seriesId}|${app.originalDate}`));
+  const times = new Map(appointments.map((app) => [app.$id, getEventTimes(app, fallbackZone)]));
+  const yearsByZone = new Map();
+  const events = [];
+
+  for (const app of appointments) {
+    const time = times.get(app.$id);
+    if (!time) continue;
+    const tz = `TZID=${time.zone}`;
+    const master = masters.get(app.seriesId);
+    const masterTime = master ? times.get(master.$id) : null;
+    const category = CATEGORY_LABELS[app.appointmentType || 'doctor'] || String(app.appointmentType).replace(/_/g, ' ');
+    const years = yearsByZone.get(time.zone) ?? new Set();
+    years.add(parseInt(time.start.slice(0, 4), 10));
+    yearsByZone.set(time.zone, years);
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${master ? master.$id : app.$id}@momcare`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;${tz}:${time.start}`,
+      `DTEND;${tz}:${time.end}`,
+      `SUMMARY:${escapeText(category)}`,
+      `CATEGORIES:${escapeText(category)}`,
+      `STATUS:${EVENT_STATUS[app.status] || 'CONFIRMED'}`,
+    ];
+    if (app.notes?.trim()) lines.push(`DESCRIPTION:${escapeText(app.notes.trim())}`);
+    if (masters.has(app.$id)) {
+      // UNTIL must be a UTC date-time when DTSTART has a time: the end of the last day in the user's zone
+      const rule = app.recurrence.replace(/^RRULE:/i, '').replace(/UNTIL=(\d{4})(\d{2})(\d{2})(?!T)/, (_, y, m, d) => {
+        const endOfDay = Date.UTC(+y, +m - 1, +d, 23, 59, 59);
+        return `UNTIL=${formatUtc(endOfDay - getOffsetMinutes(new Date(endOfDay), time.zone) * 60000)}`;
+      });
+      lines.push(`RRULE:${rule}`);
+      for (const day of app.recurrenceExceptions || []) {
+        const excluded = onDay(day, time.start);
+        if (excluded && !overridden.has(`${app.$id}|${day}`)) lines.push(`EXDATE;${tz}:${excluded}`);
+      }
+    }
+    // Occurrences are identified on the series' clock, in the series' zone
+    const recurrenceId = master && masterTime && app.originalDate ? onDay(app.originalDate, masterTime.start) : null;
+    if (recurrenceId) lines.push(`RECURRENCE-ID;TZID=${masterTime.zone}:${recurrenceId}`);
+    if (app.$updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(app.$updatedAt).getTime())}`);
+    lines.push('END:VEVENT');
+    events.push(lines);
+  }
+
+  // One VTIMEZONE per zone in use, covering its appointments' years plus the next (for recurring series)
+  const timeZones = [...yearsByZone].flatMap(([zone, years]) => {
+    const known = [...years].filter((year) => year > 1900);
+    return known.length > 0 ? createTimeZone(zone, [...known, Math.max(...known) + 1]) : [];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MomCare AI//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:MomCare Appointments',
+    `X-WR-TIMEZONE:${fallbackZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...timeZones,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+export default async ({ req, res, log, error: contextError }) => {
+  // --- 1. Initialize Appwrite Client (Server SDK) ---
+  const { APPWRITE_FUNCTION_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID, APPWRITE_FUNCTION_API_KEY, DATABASE_ID, PROFILES_COLLECTION_ID, APPOINTMENTS_COLLECTION_ID } = process.env;
+  if (!APPWRITE_FUNCTION_ENDPOINT || !APPWRITE_FUNCTION_PROJECT_ID || !APPWRITE_FUNCTION_API_KEY || !DATABASE_ID || !PROFILES_COLLECTION_ID || !APPOINTMENTS_COLLECTION_ID) {
+    contextError('Missing required environment variables for the calendar feed.');
+    return res.text('Calendar feed is not configured.', 500);
+  }
+
+  // --- 2. Validate the feed token ---
+  const token = String(req.query?.token || '');
+  const requestedZone = String(req.query?.tz || 'UTC');
+  const timeZone = isKnownTimeZone(requestedZone) ? requestedZone : 'UTC';
+  if (!TOKEN_PATTERN.test(token)) return res.text('Not found.', 404);
+
+  const client = new Client()
+    .setEndpoint(APPWRITE_FUNCTION_ENDPOINT)
+    .setProject(APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(APPWRITE_FUNCTION_API_KEY);
+  const databases = new Databases(client);
+
+  // --- 3. Load the user's appointments and return the feed ---
+  try {
+    const profiles = await databases.listDocuments(DATABASE_ID, PROFILES_COLLECTION_ID, [Query.equal('calendarFeedToken', token), Query.limit(1)]);
+    const profile = profiles.documents[0];
+    if (!profile) return res.text('Not found.', 404); // Unknown or revoked token
+
+    // Newest first, paged with a cursor, so long histories keep their upcoming appointments
+    const appointments = [];
+    let cursor = null;
+    while (appointments.length < MAX_APPOINTMENTS) {
+      const queries = [Query.equal('userId', profile.userId), Query.orderDesc('date'), Query.limit(PAGE_SIZE)];
+      if (cursor) queries.push(Query.cursorAfter(cursor));
+      const page = await databases.listDocuments(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, queries);
+      appointments.push(...page.documents);
+      if (page.documents.length < PAGE_SIZE) break;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+    // Each appointment is placed in the zone it was booked in; ones saved without a zone fall back to ?tz
+    log(`Serving calendar feed with ${appointments.length} appointment(s).`);
+    return res.send(createCalendar(appointments.slice(0, MAX_APPOINTMENTS), timeZone), 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="momcare-appointments.ics"',
+      'Cache-Control': 'private, max-age=900',
+    });
+  } catch (err) {
+    contextError(`Error building calendar feed: ${err.message || err}`);
+    return res.text('Calendar feed is temporarily unavailable.', 500);
+  }
+};
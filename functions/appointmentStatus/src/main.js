@@ -0,0 +1,396 @@
+// File: functions/appointmentStatus/src/main.js
+
+import { Client, Databases, ID, Permission, Query, Role, Users } from 'node-appwrite';
+
+/*
+  The only writer of appointment documents. Patients and doctors can read appointments but not write them, so
+  booking, editing, deleting, confirming, cancelling and recording outcomes all come through here: the caller's
+  role comes from their 'doctor' label, status changes are checked against the same transitions as
+  src/lib/appointmentStatus.ts, and the status history entry is written too.
+  Input (HTTP POST, JSON, from a signed-in user; Appwrite sets the x-appwrite-user-id header):
+    { "action"?: "status" (default), "appointmentId": "<stored document>", "status": "<new status>",
+      "scope"?: "this" | "following" | "all", "occurrenceDate"?: "yyyy-MM-dd" (occurrence of a recurring series),
+      "note"?: "<e.g. cancellation reason>" }
+    { "action": "create", "appointment": { "date", "time", "timeZone", "durationMinutes"?, "appointmentType"?,
+      "notes"?, "recurrence"?, "recurrenceExceptions"?, "seriesId"?, "originalDate"? } }  (always "requested")
+    { "action": "edit", "appointmentId", "scope"?, "occurrenceDate"?, "changes": { "date"?, "time"?, "notes"?,
+      "appointmentType"?, "durationMinutes"?, "recurrence"? }, "status"?: "rescheduled", "note"? }
+    { "action": "delete", "appointmentId", "scope"?, "occurrenceDate"? }
+  Creating, editing and deleting are for the appointment's own patient.
+  Output: JSON { appointment } with the document written to ({} for deletes).
+*/
+
+const DURATION_MINUTES = 30; // Default length, as in src/lib/appointmentTime.ts
+const MAX_OCCURRENCES = 500; // As in src/lib/appointmentRecurrence.ts
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCOPES = ['this', 'following', 'all'];
+const ACTIONS = ['status', 'create', 'edit', 'delete'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- Statuses (keep in step with src/lib/appointmentStatus.ts) ---
+
+const STATUSES = ['requested', 'confirmed', 'rescheduled', 'cancelled_by_patient', 'cancelled_by_provider', 'no_show', 'completed'];
+const ACTIVE_STATUSES = ['requested', 'confirmed', 'rescheduled'];
+const OUTCOMES = ['completed', 'no_show']; // Only once the appointment has started
+const TRANSITIONS = {
+  patient: {
+    requested: ['cancelled_by_patient'],
+    confirmed: ['cancelled_by_patient'],
+    rescheduled: ['cancelled_by_patient'],
+  },
+  provider: {
+    requested: ['confirmed', 'cancelled_by_provider'],
+    confirmed: ['cancelled_by_provider', ...OUTCOMES],
+    rescheduled: ['confirmed', 'cancelled_by_provider', ...OUTCOMES],
+  },
+};
+
+const getStatus = (app) => (STATUSES.includes(app.status) ? app.status : app.isCompleted ? 'completed' : 'confirmed');
+
+/** Problem with a change, or null when `role` may make it. Moving ('rescheduled') is open to both sides while active. */
+const validateTransition = (from, to, role, started) => {
+  if (to === 'rescheduled') return ACTIVE_STATUSES.includes(from) ? null : `A ${from.replace(/_/g, ' ')} appointment can't be moved.`;
+  if (!(TRANSITIONS[role][from] ?? []).includes(to)) return `${role === 'patient' ? 'Patients' : 'Doctors'} can't change a ${from.replace(/_/g, ' ')} appointment to ${to.replace(/_/g, ' ')}.`;
+  if (OUTCOMES.includes(to) && !started) return `An appointment can only be marked ${to.replace(/_/g, ' ')} once it has started.`;
+  return null;
+};
+
+// --- Days & times ---
+
+const getDay = (app) => String(app.date || '').split('T')[0];
+const parseDay = (day) => { const [year, month, date] = day.split('-').map(Number); return Date.UTC(year, month - 1, date); };
+const formatDay = (ms) => new Date(ms).toISOString().split('T')[0];
+/** `day` moved by as many days as lie between `fromDay` and `toDay` (as shiftDay in src/lib/appointmentRecurrence.ts) */
+const shiftDay = (day, fromDay, toDay) => formatDay(parseDay(day) + parseDay(toDay) - parseDay(fromDay));
+
+const isKnownTimeZone = (timeZone) => {
+  if (!timeZone) return false;
+  try { new Intl.DateTimeFormat('en-US', { timeZone }); return true; } catch { return false; }
+};
+
+const getOffsetMinutes = (instant, timeZone) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant).map((part) => [part.type, part.value]));
+  const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second);
+  return Math.round((wall - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+/** "yyyy-MM-dd" + "10:30 AM" / "14:30" read in `timeZone` -> the instant, or null if unreadable. */
+const toInstant = (day, time, timeZone) => {
+  const match = String(time || '').match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!DAY_PATTERN.test(day) || !match) return null;
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  const wall = parseDay(day) + (hours * 60 + parseInt(match[2], 10)) * 60000;
+  const first = wall - getOffsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - getOffsetMinutes(new Date(first), timeZone) * 60000);
+};
+
+const getDurationMinutes = (app) => {
+  const minutes = app.startsAt && app.endsAt ? Math.round((new Date(app.endsAt).getTime() - new Date(app.startsAt).getTime()) / 60000) : 0;
+  return minutes > 0 ? minutes : DURATION_MINUTES;
+};
+
+/** startsAt / endsAt / timeZone for `day` at `time` (as resolveAppointmentTimes in src/lib/appointmentTime.ts); null if unreadable. */
+const resolveTimes = (day, time, timeZone, durationMinutes) => {
+  const zone = isKnownTimeZone(timeZone) ? timeZone : 'UTC';
+  const start = toInstant(day, time, zone);
+  if (!start) return null;
+  return { startsAt: start.toISOString(), endsAt: new Date(start.getTime() + durationMinutes * 60000).toISOString(), timeZone: zone };
+};
+
+/** startsAt / endsAt for a series' occurrence on `day`: same clock time, zone and length as the series. */
+const getOccurrenceTimes = (master, day) => {
+  const times = resolveTimes(day, master.time, master.timeZone, getDurationMinutes(master));
+  return times ? { startsAt: times.startsAt, endsAt: times.endsAt } : {};
+};
+
+// --- Recurrence (keep in step with src/lib/appointmentRecurrence.ts) ---
+
+const FREQUENCIES = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const parseRule = (value) => {
+  if (!value?.trim()) return null;
+  const parts = new Map(value.trim().replace(/^RRULE:/i, '').split(';').map((part) => {
+    const [key, val = ''] = part.split('=');
+    return [key.trim().toUpperCase(), val.trim().toUpperCase()];
+  }));
+  const frequency = FREQUENCIES[parts.get('FREQ') ?? ''];
+  if (!frequency) return null;
+  const rule = { frequency, interval: Math.max(1, parseInt(parts.get('INTERVAL') ?? '1', 10) || 1) };
+  const count = parseInt(parts.get('COUNT') ?? '', 10);
+  if (count > 0) rule.count = count;
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+  if (frequency === 'weekly' && parts.get('BYDAY')) {
+    const days = parts.get('BYDAY').split(',').map((day) => WEEKDAYS.indexOf(day.slice(-2))).filter((day) => day >= 0);
+    if (days.length > 0) rule.byWeekday = [...new Set(days)].sort();
+  }
+  return rule;
+};
+
+const formatRule = (rule) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.map((day) => WEEKDAYS[day]).join(',')}`);
+  return parts.join(';');
+};
+
+/** Occurrences a rule generates from `firstDay` through `lastDay`, skipped days included (what COUNT counts). */
+const countOccurrences = (rule, firstDay, lastDay) => {
+  const start = parseDay(firstDay);
+  const last = Math.min(parseDay(lastDay), rule.until ? parseDay(rule.until) : Infinity);
+  let generated = 0;
+  const accept = (ms) => {
+    if (ms < start) return true;
+    if (ms > last || (rule.count && generated >= rule.count) || generated >= MAX_OCCURRENCES) return false;
+    generated++;
+    return true;
+  };
+  const first = new Date(start);
+  if (rule.frequency === 'daily') {
+    for (let i = 0; accept(start + i * rule.interval * DAY_MS); i++);
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday?.length ? rule.byWeekday : [first.getUTCDay()];
+    const firstWeek = start - first.getUTCDay() * DAY_MS;
+    outer: for (let week = 0; ; week += rule.interval) {
+      for (const weekday of weekdays) {
+        if (!accept(firstWeek + (week * 7 + weekday) * DAY_MS)) break outer;
+      }
+    }
+  } else {
+    const dayOfMonth = first.getUTCDate();
+    for (let i = 0; ; i++) {
+      const month = first.getUTCMonth() + i * rule.interval;
+      if (dayOfMonth > new Date(Date.UTC(first.getUTCFullYear(), month + 1, 0)).getUTCDate()) {
+        if (i > MAX_OCCURRENCES) break;
+        continue;
+      }
+      if (!accept(Date.UTC(first.getUTCFullYear(), month, dayOfMonth))) break;
+    }
+  }
+  return generated;
+};
+
+/** The series' rule up to the day before `atDay` and from `atDay` on (COUNT split between the two). */
+const splitRule = (rule, firstDay, atDay) => {
+  const dayBefore = formatDay(parseDay(atDay) - DAY_MS);
+  const generatedBefore = rule.count ? countOccurrences(rule, firstDay, dayBefore) : 0;
+  const before = rule.count ? { ...rule, count: Math.max(1, generatedBefore), until: undefined } : { ...rule, until: dayBefore };
+  const after = rule.count ? { ...rule, count: Math.max(1, rule.count - generatedBefore) } : { ...rule };
+  return { before, after };
+};
+
+// --- Input ---
+
+const dayOf = (value) => (value === undefined || value === null ? undefined : String(value).split('T')[0]);
+const text = (value, max) => (typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : undefined);
+const withoutUndefined = (data) => Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+/** Problem with the fields of a booking (`creating`) or an edit, or null. */
+const validateFields = (fields, creating) => {
+  if ((creating || fields.date !== undefined) && !DAY_PATTERN.test(dayOf(fields.date) ?? '')) return 'date must be yyyy-MM-dd.';
+  if ((creating || fields.time !== undefined) && (typeof fields.time !== 'string' || !toInstant('2000-01-01', fields.time, 'UTC'))) return 'time must be like "10:00 AM" or "14:30".';
+  if (creating && !isKnownTimeZone(fields.timeZone)) return 'timeZone must be an IANA time zone, e.g. "Asia/Kolkata".';
+  if (fields.durationMinutes !== undefined && !(Number.isInteger(fields.durationMinutes) && fields.durationMinutes > 0 && fields.durationMinutes <= 24 * 60)) {
+    return 'durationMinutes must be a whole number of minutes, up to a day.';
+  }
+  if (fields.recurrence && !parseRule(fields.recurrence)) return 'recurrence must be a rule like "FREQ=WEEKLY;COUNT=4".';
+  if (fields.recurrenceExceptions !== undefined && !(Array.isArray(fields.recurrenceExceptions) && fields.recurrenceExceptions.every((day) => DAY_PATTERN.test(day)))) {
+    return 'recurrenceExceptions must be a list of yyyy-MM-dd days.';
+  }
+  if (fields.originalDate !== undefined && !DAY_PATTERN.test(dayOf(fields.originalDate) ?? '')) return 'originalDate must be yyyy-MM-dd.';
+  return null;
+};
+
+// --- Handler ---
+
+export default async ({ req, res, log, error: contextError }) => {
+  // --- 1. Initialize Appwrite Client (Server SDK) ---
+  const { APPWRITE_FUNCTION_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID, APPWRITE_FUNCTION_API_KEY, DATABASE_ID, APPOINTMENTS_COLLECTION_ID, APPOINTMENT_STATUS_EVENTS_COLLECTION_ID } = process.env;
+  if (!APPWRITE_FUNCTION_ENDPOINT || !APPWRITE_FUNCTION_PROJECT_ID || !APPWRITE_FUNCTION_API_KEY || !DATABASE_ID || !APPOINTMENTS_COLLECTION_ID || !APPOINTMENT_STATUS_EVENTS_COLLECTION_ID) {
+    contextError('Missing required environment variables for the appointment status function.');
+    return res.json({ error: 'Function configuration error.' }, 500);
+  }
+
+  // --- 2. Validate input ---
+  const callerId = req.headers['x-appwrite-user-id'];
+  if (!callerId) return res.json({ error: 'Sign in to change appointments.' }, 401);
+  let body = req.bodyJson;
+  if (!body) {
+    try { body = JSON.parse(req.bodyText || req.body || '{}'); } catch { body = {}; }
+  }
+  const { action = 'status', appointmentId, status, scope = 'this', occurrenceDate, note } = body || {};
+  const fields = action === 'create' ? body.appointment : action === 'edit' ? body.changes : {};
+  if (!ACTIONS.includes(action) || !SCOPES.includes(scope) || (occurrenceDate && !DAY_PATTERN.test(occurrenceDate))
+    || (action !== 'create' && !appointmentId) || !fields || typeof fields !== 'object'
+    || (action === 'status' && !STATUSES.includes(status)) || (action === 'edit' && status !== undefined && status !== 'rescheduled')) {
+    return res.json({ error: 'Pass an action with its appointmentId, status, changes or appointment (see the function README).' }, 400);
+  }
+  const fieldsProblem = action === 'create' || action === 'edit' ? validateFields(fields, action === 'create') : null;
+  if (fieldsProblem) return res.json({ error: fieldsProblem }, 400);
+
+  const client = new Client()
+    .setEndpoint(APPWRITE_FUNCTION_ENDPOINT)
+    .setProject(APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(APPWRITE_FUNCTION_API_KEY);
+  const databases = new Databases(client);
+  const users = new Users(client);
+  const getAppointment = (id) => databases.getDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, id);
+  // Patients and doctors only read appointments; every write comes through here (which also drops the update
+  // access older documents gave either of them)
+  const permissionsFor = (userId) => [Permission.read(Role.user(userId)), Permission.read(Role.label('doctor'))];
+
+  try {
+    // --- 3. Who is asking ---
+    const caller = await users.get(String(callerId));
+    const role = (caller.labels ?? []).includes('doctor') ? 'provider' : 'patient';
+    const changedAt = new Date().toISOString();
+    const logEvent = (written, day, newStatus, previousStatus) => databases.createDocument(DATABASE_ID, APPOINTMENT_STATUS_EVENTS_COLLECTION_ID, ID.unique(), {
+      appointmentId: written.$id, userId: written.userId, appointmentDate: day, status: newStatus, previousStatus,
+      actorId: caller.$id, actorName: caller.name?.trim() || undefined, actorRole: role, changedAt, note: text(note, 1000),
+    }, [Permission.read(Role.user(written.userId)), Permission.read(Role.label('doctor'))]);
+    // The change itself has been saved by then; a missing history entry shouldn't fail it
+    const logEventSafely = async (...args) => {
+      try { await logEvent(...args); } catch (err) { contextError(`Could not log status change for appointment ${args[0].$id}: ${err.message || err}`); }
+    };
+
+    // --- 4. A new booking: always requested, owned by the caller ---
+    if (action === 'create') {
+      if (fields.seriesId) {
+        const series = await getAppointment(String(fields.seriesId)).catch(() => null);
+        if (!series || series.userId !== caller.$id || !parseRule(series.recurrence)) return res.json({ error: 'seriesId must be one of your recurring appointments.' }, 400);
+      }
+      const day = dayOf(fields.date);
+      const recurrence = parseRule(fields.recurrence) ? fields.recurrence.trim() : undefined;
+      const data = withoutUndefined({
+        userId: caller.$id, date: day, time: fields.time.trim(), ...resolveTimes(day, fields.time, fields.timeZone, fields.durationMinutes ?? DURATION_MINUTES),
+        isCompleted: false, status: 'requested', statusChangedAt: changedAt, statusChangedBy: caller.$id,
+        appointmentType: text(fields.appointmentType, 100) || 'General', notes: text(fields.notes, 2000),
+        recurrence, recurrenceExceptions: recurrence ? fields.recurrenceExceptions ?? [] : undefined,
+        seriesId: fields.seriesId || undefined, originalDate: fields.seriesId ? dayOf(fields.originalDate) : undefined,
+      });
+      const appointment = await databases.createDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, ID.unique(), data, permissionsFor(caller.$id));
+      await logEventSafely(appointment, day, 'requested', undefined);
+      log(`${caller.$id} booked appointment ${appointment.$id} for ${day}.`);
+      return res.json({ appointment });
+    }
+
+    // --- 5. The appointment, and the occurrence meant for a recurring one ---
+    let appointment;
+    try { appointment = await getAppointment(String(appointmentId)); } catch (err) {
+      if (err.code === 404) return res.json({ error: 'Appointment not found.' }, 404);
+      throw err;
+    }
+    const isOwner = appointment.userId === caller.$id;
+    if (action === 'status' && role === 'patient' && !isOwner) return res.json({ error: 'Patients can only change their own appointments.' }, 403);
+    if (action !== 'status' && !isOwner) return res.json({ error: 'Only the patient can edit or delete their appointment.' }, 403);
+
+    // Occurrences of a series are stored on the series (master) or as an override pointing back to it
+    const ownRule = parseRule(appointment.recurrence);
+    const master = ownRule ? appointment : appointment.seriesId ? await getAppointment(appointment.seriesId).catch(() => null) : null;
+    const rule = master && parseRule(master.recurrence);
+    const day = ownRule ? occurrenceDate || getDay(appointment) : appointment.originalDate || getDay(appointment);
+    const occurrence = rule && ownRule ? { ...master, date: day, ...getOccurrenceTimes(master, day) } : appointment;
+    const masterDay = rule && getDay(master);
+
+    const permissions = permissionsFor(appointment.userId);
+    const update = (id, data) => databases.updateDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, id, withoutUndefined(data), permissions);
+    const remove = (id) => databases.deleteDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, id);
+    // A new document cut out of the series: the series' details and status unless `data` changes them
+    const carveOut = (data, durationMinutes = getDurationMinutes(master)) => {
+      const doc = withoutUndefined({
+        userId: master.userId, time: master.time, appointmentType: master.appointmentType, notes: master.notes, isCompleted: master.isCompleted ?? false,
+        status: master.status, statusChangedAt: master.statusChangedAt, statusChangedBy: master.statusChangedBy, ...data,
+      });
+      return databases.createDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, ID.unique(), { ...doc, ...resolveTimes(doc.date, doc.time, master.timeZone, durationMinutes) }, permissions);
+    };
+    const getOverrides = async () => (await databases.listDocuments(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, [Query.equal('seriesId', master.$id), Query.limit(100)])).documents;
+    const excludeDay = () => update(master.$id, { recurrenceExceptions: [...new Set([...(master.recurrenceExceptions ?? []), day])] });
+    const endSeriesBefore = () => {
+      const split = splitRule(rule, masterDay, day);
+      return update(master.$id, { recurrence: formatRule(split.before), recurrenceExceptions: (master.recurrenceExceptions ?? []).filter((d) => d < day) }).then(() => split);
+    };
+
+    // --- 6. Delete, following the app's edit scopes for recurring appointments ---
+    if (action === 'delete') {
+      if (!rule || (scope === 'this' && !ownRule)) {
+        await remove(appointment.$id);
+      } else if (scope === 'this') {
+        await excludeDay();
+      } else {
+        const overrides = await getOverrides();
+        if (scope === 'all' || day <= masterDay) {
+          for (const override of overrides) await remove(override.$id);
+          await remove(master.$id);
+        } else {
+          await endSeriesBefore();
+          for (const override of overrides) {
+            if ((override.originalDate ?? '') >= day) await remove(override.$id);
+          }
+        }
+      }
+      log(`${caller.$id} deleted appointment ${appointment.$id} (${scope}).`);
+      return res.json({});
+    }
+
+    // --- 7. Check the status change ---
+    const newStatus = action === 'status' ? status : body.status;
+    const previousStatus = getStatus(occurrence);
+    if (newStatus) {
+      const start = occurrence.startsAt ? new Date(occurrence.startsAt) : toInstant(getDay(occurrence), occurrence.time, 'UTC');
+      const problem = validateTransition(previousStatus, newStatus, role, !!start && start.getTime() <= Date.now());
+      if (problem) return res.json({ error: problem }, 400);
+    }
+    // `isCompleted` is kept in step with the status for the completion index and older readers
+    const statusData = newStatus ? { status: newStatus, statusChangedAt: changedAt, statusChangedBy: caller.$id, isCompleted: newStatus === 'completed' } : {};
+
+    // --- 8. Apply it, following the app's edit scopes for recurring appointments ---
+    const changes = action === 'edit' ? fields : {};
+    const details = {
+      time: changes.time?.trim(), notes: typeof changes.notes === 'string' ? changes.notes.trim().slice(0, 2000) : undefined,
+      appointmentType: text(changes.appointmentType, 100), ...statusData,
+    };
+    const newDay = dayOf(changes.date) ?? getDay(occurrence);
+    // A new day, time or length moves startsAt / endsAt (in the document's zone, keeping its length unless given)
+    const edit = (current, data) => {
+      const moved = data.date !== undefined || data.time !== undefined || changes.durationMinutes !== undefined;
+      const times = moved && resolveTimes(data.date ?? getDay(current), data.time ?? current.time, current.timeZone, changes.durationMinutes ?? getDurationMinutes(current));
+      return update(current.$id, { ...data, ...times });
+    };
+    let written;
+    if (!rule || (scope === 'this' && !ownRule)) {
+      written = await edit(appointment, { ...details, date: action === 'edit' ? newDay : undefined });
+    } else if (scope === 'this') {
+      await excludeDay();
+      written = await carveOut({ ...withoutUndefined(details), date: newDay, seriesId: master.$id, originalDate: day }, changes.durationMinutes);
+    } else if (scope === 'all' || day <= masterDay) {
+      written = await edit(master, { ...details, date: action === 'edit' ? shiftDay(masterDay, day, newDay) : undefined, recurrence: changes.recurrence });
+    } else {
+      // This and following: end the series the day before and continue as a new one
+      const { after } = await endSeriesBefore();
+      const exceptions = master.recurrenceExceptions ?? [];
+      written = await carveOut({
+        ...withoutUndefined(details), date: newDay, recurrence: changes.recurrence || formatRule(after),
+        recurrenceExceptions: exceptions.filter((d) => d >= day).map((d) => shiftDay(d, day, newDay)),
+      }, changes.durationMinutes);
+      for (const override of await getOverrides()) {
+        if ((override.originalDate ?? '') >= day) await update(override.$id, { seriesId: written.$id, originalDate: shiftDay(override.originalDate, day, newDay) });
+      }
+    }
+
+    // --- 9. History ---
+    if (newStatus) await logEventSafely(written, newDay, newStatus, previousStatus);
+    log(`${role} ${caller.$id} ${action === 'edit' ? 'edited' : 'changed'} appointment ${appointment.$id} (${scope})${newStatus ? ` from ${previousStatus} to ${newStatus}` : ''}.`);
+    return res.json({ appointment: written });
+  } catch (err) {
+    contextError(`Error writing appointment: ${err.message || err}`);
+    return res.json({ error: 'Could not save the appointment.' }, 500);
+  }
+};
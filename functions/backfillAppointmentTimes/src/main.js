@@ -0,0 +1,113 @@
+// File: functions/backfillAppointmentTimes/src/main.js
+
+import { Client, Databases, Query } from 'node-appwrite';
+
+/*
+  One-off migration for appointments saved before startsAt / endsAt / timeZone existed.
+  Input (HTTP POST, JSON): { "timeZone": "<IANA zone the old date / time were entered in>", "userId"?: "<only this user>", "dryRun"?: true }
+  Output: JSON { scanned, updated, skipped, failed } (plus the planned changes when dryRun).
+  The zone must be given explicitly: the old fields don't record where they were entered, and guessing from whichever
+  device loads them first stamps wrong times on travellers. Appointments that already store a timeZone keep it.
+  Until this has run, the app and the calendar feed read legacy appointments from date / time.
+*/
+
+const PAGE_SIZE = 100; // Appwrite max limit per listDocuments call
+const DURATION_MINUTES = 30; // Default length, as in src/lib/appointmentTime.ts
+
+const isKnownTimeZone = (timeZone) => {
+  if (!timeZone) return false;
+  try { new Intl.DateTimeFormat('en-US', { timeZone }); return true; } catch { return false; }
+};
+
+const getOffsetMinutes = (instant, timeZone) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant).map((part) => [part.type, part.value]));
+  const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second);
+  return Math.round((wall - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+/** "yyyy-MM-dd" (or ISO datetime) + "10:30 AM" / "14:30" read in `timeZone` -> the instant, or null if unreadable. */
+const toInstant = (date, time, timeZone) => {
+  const [year, month, day] = String(date || '').split('T')[0].split('-').map(Number);
+  const match = String(time || '').match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!year || !month || !day || !match) return null;
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  const wall = Date.UTC(year, month - 1, day, hours, parseInt(match[2], 10));
+  // The offset at the wall time itself can differ from the one at the instant near DST changes; check once more
+  const first = wall - getOffsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - getOffsetMinutes(new Date(first), timeZone) * 60000);
+};
+
+const needsTimes = (app) => !app.startsAt || !app.endsAt || !app.timeZone;
+
+export default async ({ req, res, log, error: contextError }) => {
+  // --- 1. Initialize Appwrite Client (Server SDK) ---
+  const { APPWRITE_FUNCTION_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID, APPWRITE_FUNCTION_API_KEY, DATABASE_ID, APPOINTMENTS_COLLECTION_ID } = process.env;
+  if (!APPWRITE_FUNCTION_ENDPOINT || !APPWRITE_FUNCTION_PROJECT_ID || !APPWRITE_FUNCTION_API_KEY || !DATABASE_ID || !APPOINTMENTS_COLLECTION_ID) {
+    contextError('Missing required environment variables for the appointment times migration.');
+    return res.json({ error: 'Function configuration error.' }, 500);
+  }
+
+  // --- 2. Validate input ---
+  let body = req.bodyJson;
+  if (!body) {
+    try { body = JSON.parse(req.bodyText || req.body || '{}'); } catch { body = {}; }
+  }
+  const { timeZone, userId, dryRun = false } = body || {};
+  if (!isKnownTimeZone(timeZone)) {
+    return res.json({ error: 'Pass the IANA time zone the old appointment times were entered in, e.g. { "timeZone": "Europe/London" }.' }, 400);
+  }
+
+  const client = new Client()
+    .setEndpoint(APPWRITE_FUNCTION_ENDPOINT)
+    .setProject(APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(APPWRITE_FUNCTION_API_KEY);
+  const databases = new Databases(client);
+
+  // --- 3. Page through appointments, updating one at a time ---
+  const summary = { scanned: 0, updated: 0, skipped: 0, failed: 0 };
+  const planned = [];
+  try {
+    let cursor = null;
+    for (;;) {
+      const queries = [Query.orderAsc('$id'), Query.limit(PAGE_SIZE)];
+      if (userId) queries.push(Query.equal('userId', String(userId)));
+      if (cursor) queries.push(Query.cursorAfter(cursor));
+      const page = await databases.listDocuments(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, queries);
+
+      for (const app of page.documents) {
+        summary.scanned++;
+        if (!needsTimes(app)) continue;
+        const zone = isKnownTimeZone(app.timeZone) ? app.timeZone : timeZone;
+        const start = toInstant(app.date, app.time, zone);
+        if (!start) { summary.skipped++; continue; } // Unreadable legacy time; readers keep using date / time
+        const times = {
+          startsAt: start.toISOString(),
+          endsAt: new Date(start.getTime() + DURATION_MINUTES * 60000).toISOString(),
+          timeZone: zone,
+        };
+        if (dryRun) { planned.push({ $id: app.$id, date: app.date, time: app.time, ...times }); summary.updated++; continue; }
+        try {
+          await databases.updateDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, app.$id, times);
+          summary.updated++;
+        } catch (err) {
+          summary.failed++;
+          contextError(`Could not update appointment ${app.$id}: ${err.message || err}`);
+        }
+      }
+
+      if (page.documents.length < PAGE_SIZE) break;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+  } catch (err) {
+    contextError(`Error migrating appointment times: ${err.message || err}`);
+    return res.json({ error: 'Migration stopped early; it is safe to run again.', ...summary }, 500);
+  }
+
+  log(`${dryRun ? 'Dry run: would update' : 'Updated'} ${summary.updated} of ${summary.scanned} appointment(s); ${summary.skipped} unreadable, ${summary.failed} failed.`);
+  return res.json(dryRun ? { ...summary, dryRun: true, planned } : summary);
+};
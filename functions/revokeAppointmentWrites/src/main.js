@@ -0,0 +1,75 @@
+// File: functions/revokeAppointmentWrites/src/main.js
+
+import { Client, Databases, Permission, Query, Role } from 'node-appwrite';
+
+/*
+  One-off migration for appointments saved while the app wrote them directly. Those documents still let their
+  patient (and, on older ones, doctors) update and delete them, which would let a patient set their own status.
+  Afterwards they grant read access only, like the ones the appointmentStatus function writes.
+  Input (HTTP POST, JSON): { "userId"?: "<only this user>", "dryRun"?: true }
+  Output: JSON { scanned, updated, failed } (plus the IDs that would change when dryRun).
+*/
+
+const PAGE_SIZE = 100; // Appwrite max limit per listDocuments call
+
+// As permissionsFor in functions/appointmentStatus/src/main.js
+const permissionsFor = (userId) => [Permission.read(Role.user(userId)), Permission.read(Role.label('doctor'))];
+
+const isWritable = (app) => (app.$permissions ?? []).some((permission) => !permission.startsWith('read('));
+
+export default async ({ req, res, log, error: contextError }) => {
+  // --- 1. Initialize Appwrite Client (Server SDK) ---
+  const { APPWRITE_FUNCTION_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID, APPWRITE_FUNCTION_API_KEY, DATABASE_ID, APPOINTMENTS_COLLECTION_ID } = process.env;
+  if (!APPWRITE_FUNCTION_ENDPOINT || !APPWRITE_FUNCTION_PROJECT_ID || !APPWRITE_FUNCTION_API_KEY || !DATABASE_ID || !APPOINTMENTS_COLLECTION_ID) {
+    contextError('Missing required environment variables for the appointment permissions migration.');
+    return res.json({ error: 'Function configuration error.' }, 500);
+  }
+
+  // --- 2. Read input ---
+  let body = req.bodyJson;
+  if (!body) {
+    try { body = JSON.parse(req.bodyText || req.body || '{}'); } catch { body = {}; }
+  }
+  const { userId, dryRun = false } = body || {};
+
+  const client = new Client()
+    .setEndpoint(APPWRITE_FUNCTION_ENDPOINT)
+    .setProject(APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(APPWRITE_FUNCTION_API_KEY);
+  const databases = new Databases(client);
+
+  // --- 3. Page through appointments, updating one at a time ---
+  const summary = { scanned: 0, updated: 0, failed: 0 };
+  const planned = [];
+  try {
+    let cursor = null;
+    for (;;) {
+      const queries = [Query.orderAsc('$id'), Query.limit(PAGE_SIZE)];
+      if (userId) queries.push(Query.equal('userId', String(userId)));
+      if (cursor) queries.push(Query.cursorAfter(cursor));
+      const page = await databases.listDocuments(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, queries);
+
+      for (const app of page.documents) {
+        summary.scanned++;
+        if (!isWritable(app)) continue;
+        if (dryRun) { planned.push(app.$id); summary.updated++; continue; }
+        try {
+          await databases.updateDocument(DATABASE_ID, APPOINTMENTS_COLLECTION_ID, app.$id, {}, permissionsFor(app.userId));
+          summary.updated++;
+        } catch (err) {
+          summary.failed++;
+          contextError(`Could not update appointment ${app.$id}: ${err.message || err}`);
+        }
+      }
+
+      if (page.documents.length < PAGE_SIZE) break;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+  } catch (err) {
+    contextError(`Error revoking appointment write access: ${err.message || err}`);
+    return res.json({ error: 'Migration stopped early; it is safe to run again.', ...summary }, 500);
+  }
+
+  log(`${dryRun ? 'Dry run: would update' : 'Updated'} ${summary.updated} of ${summary.scanned} appointment(s); ${summary.failed} failed.`);
+  return res.json(dryRun ? { ...summary, dryRun: true, planned } : summary);
+};
@@ -9,6 +9,9 @@ import type { ForumPost, VoteCounts } from './lib/appwrite.ts'; // Add .ts exten
 import { connectFluvio, consumeTopic, disconnectFluvio } from './lib/fluvioService';
 import type { RecordProcessor, FluvioRecord } from './lib/fluvioService'; // Import types
 
+// AI proxy: authenticated HTTP endpoint in front of the model provider
+import { isAiProxyRequest, handleAiProxyRequest } from './lib/aiProxy';
+
 // Load environment variables from .env file
 dotenv.config();
 
@@ -136,6 +139,9 @@ console.log(`[Server] Starting WebSocket server on port ${WEBSOCKET_PORT}...`);
 serve({
     port: WEBSOCKET_PORT,
     fetch(req, server) {
+        if (isAiProxyRequest(req)) {
+            return handleAiProxyRequest(req);
+        }
         if (server.upgrade(req)) {
             return; // Bun handles the upgrade
         }
@@ -159,6 +165,7 @@ serve({
 });
 
 console.log(`[Server] WebSocket server listening on ws://localhost:${WEBSOCKET_PORT}`);
+console.log(`[Server] AI proxy available at http://localhost:${WEBSOCKET_PORT}/ai/chat/completions`);
 
 // Start Fluvio consumers after the server starts listening
 startFluvioConsumers();
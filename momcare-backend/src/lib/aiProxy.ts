@@ -0,0 +1,261 @@
+// src/lib/aiProxy.ts
+// Authenticated AI endpoint, so the model provider's API key stays on the server. The frontend's 'proxy' LLM
+// provider (src/lib/llm/proxyProvider.ts) posts OpenAI-style chat requests here with the user's Appwrite JWT;
+// this module checks the JWT, applies per-user limits, picks the model for the feature and forwards the request
+// to an OpenAI-compatible API (Groq by default). Responses, including streams, are passed through unchanged.
+import { createRateLimiter } from './rateLimiter';
+
+// --- Configuration ---
+
+interface AiProxyConfig {
+    appwriteEndpoint?: string;
+    appwriteProjectId?: string;
+    providerBaseUrl: string;
+    providerApiKey?: string;
+    rateLimitPerMinute: number;
+    dailyRequestQuota: number;
+    maxTokens: number;
+    maxBodyBytes: number;
+    allowedOrigin: string;
+}
+
+let config: AiProxyConfig | null = null;
+
+// Read on first use rather than at import, so settings loaded by dotenv in index.ts are seen
+const getConfig = (): AiProxyConfig => {
+    if (!config) {
+        config = {
+            appwriteEndpoint: process.env.VITE_PUBLIC_APPWRITE_ENDPOINT,
+            appwriteProjectId: process.env.VITE_PUBLIC_APPWRITE_PROJECT_ID,
+            providerBaseUrl: (process.env.AI_PROVIDER_BASE_URL || 'https://api.groq.com/openai/v1').replace(/\/+$/, ''),
+            providerApiKey: process.env.AI_PROVIDER_API_KEY || process.env.GROQ_API_KEY,
+            rateLimitPerMinute: parseInt(process.env.AI_RATE_LIMIT_PER_MINUTE || '20', 10),
+            dailyRequestQuota: parseInt(process.env.AI_DAILY_REQUEST_QUOTA || '300', 10),
+            maxTokens: parseInt(process.env.AI_MAX_TOKENS || '4096', 10),
+            // Chat images are sent inline as base64 (up to 20MB each on the frontend)
+            maxBodyBytes: parseInt(process.env.AI_maxBodyBytes || String(30 * 1024 * 1024), 10),
+            // The frontend's origin (the Vite dev server unless configured); other sites can't call the proxy from a browser
+            allowedOrigin: process.env.AI_ALLOWED_ORIGIN || 'http://localhost:8080',
+        };
+    }
+    return config;
+};
+
+/** Features the frontend may ask for, with the model each uses unless AI_<FEATURE>_MODEL overrides it. */
+const DEFAULT_FEATURE_MODELS: Record<string, string> = {
+    chat: "meta-llama/llama-4-maverick-17b-128e-instruct",
+    moderation: "llama3-70b-8192",
+    meals: "llama3-70b-8192",
+    exercises: "llama3-70b-8192",
+    products: "llama3-70b-8192",
+    productsGeneral: "llama3-8b-8192",
+    formatting: "llama3-70b-8192",
+};
+
+// Verified JWTs are remembered briefly so every request doesn't cost a round trip to Appwrite
+const JWT_CACHE_MS = 60 * 1000;
+
+// Response formats the proxy passes on; anything else is dropped
+const RESPONSE_FORMAT_TYPES = ['text', 'json_object'];
+
+// --- State ---
+let rateLimiter: ReturnType<typeof createRateLimiter> | null = null;
+const getRateLimiter = () => {
+    if (!rateLimiter) rateLimiter = createRateLimiter({ perMinute: getConfig().rateLimitPerMinute, perDay: getConfig().dailyRequestQuota });
+    return rateLimiter;
+};
+const verifiedJwts = new Map<string, { userId: string; expiresAt: number }>();
+
+// --- Helpers ---
+
+const corsHeaders = (): Record<string, string> => ({
+    'Access-Control-Allow-Origin': getConfig().allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Max-Age': '600',
+});
+
+/** Error in the OpenAI shape (`{ error: { message } }`) so OpenAI-style clients can show it. */
+const errorResponse = (status: number, message: string, extraHeaders: Record<string, string> = {}): Response =>
+    new Response(JSON.stringify({ error: { message, type: 'proxy_error' } }), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders(), ...extraHeaders },
+    });
+
+/**
+ * Reads the request body, giving up as soon as it passes `maxBytes`. Content-Length alone can't be trusted:
+ * it may be missing (chunked uploads) or smaller than what is actually sent. Returns null when too large.
+ */
+const readBodyWithLimit = async (req: Request, maxBytes: number): Promise<string | null> => {
+    if (!req.body) return '';
+    const reader = req.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return new TextDecoder().decode(bytes);
+};
+
+const featureModel = (feature: string): string => {
+    const envName = `AI_${feature.replace(/([A-Z])/g, '_$1').toUpperCase()}_MODEL`; // productsGeneral -> AI_PRODUCTS_GENERAL_MODEL
+    return process.env[envName] || DEFAULT_FEATURE_MODELS[feature];
+};
+
+/**
+ * Resolves an Appwrite JWT to its user ID by calling `GET /account` as that user.
+ * Returns null for a missing, expired or revoked token.
+ */
+const verifyAppwriteJwt = async (jwt: string): Promise<string | null> => {
+    const now = Date.now();
+    const cached = verifiedJwts.get(jwt);
+    if (cached && cached.expiresAt > now) return cached.userId;
+    verifiedJwts.delete(jwt);
+
+    const { appwriteEndpoint, appwriteProjectId } = getConfig();
+    const response = await fetch(`${appwriteEndpoint}/account`, {
+        headers: { 'X-Appwrite-Project': appwriteProjectId as string, 'X-Appwrite-JWT': jwt },
+    });
+    if (!response.ok) {
+        if (response.status === 401) return null;
+        throw new Error(`Appwrite account lookup failed (${response.status}).`);
+    }
+    const user = await response.json() as { $id?: string; status?: boolean };
+    if (!user.$id || user.status === false) return null;
+
+    verifiedJwts.set(jwt, { userId: user.$id, expiresAt: now + JWT_CACHE_MS });
+    return user.$id;
+};
+
+const pruneJwtCache = () => {
+    const now = Date.now();
+    verifiedJwts.forEach((entry, jwt) => { if (entry.expiresAt <= now) verifiedJwts.delete(jwt); });
+};
+
+// --- Request Handling ---
+
+/** True for requests this module handles (anything under /ai/). */
+export const isAiProxyRequest = (req: Request): boolean => new URL(req.url).pathname.startsWith('/ai/');
+
+/**
+ * Handles `POST /ai/chat/completions`. The body is an OpenAI chat completion request plus a `feature`
+ * (chat, moderation, meals, exercises, products, productsGeneral, formatting). Only `messages`, `temperature`,
+ * `max_tokens` (capped at AI_MAX_TOKENS), `response_format` and `stream` are forwarded; the model is the feature's.
+ */
+export const handleAiProxyRequest = async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') return new Response(null, { status: 204, headers: corsHeaders() });
+
+    const { pathname } = new URL(req.url);
+    if (pathname !== '/ai/chat/completions') return errorResponse(404, 'Not found.');
+    if (req.method !== 'POST') return errorResponse(405, 'Method not allowed.', { Allow: 'POST, OPTIONS' });
+
+    const { appwriteEndpoint, appwriteProjectId, providerBaseUrl, providerApiKey, maxTokens, maxBodyBytes } = getConfig();
+    if (!appwriteEndpoint || !appwriteProjectId) {
+        console.error('[AI Proxy] Appwrite endpoint/project not configured; cannot verify users.');
+        return errorResponse(503, 'AI service is not configured.');
+    }
+    if (!providerApiKey) {
+        console.error('[AI Proxy] AI_PROVIDER_API_KEY (or GROQ_API_KEY) is not set.');
+        return errorResponse(503, 'AI service is not configured.');
+    }
+
+    // 1. Authenticate
+    const authorization = req.headers.get('Authorization') ?? '';
+    const jwt = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+    if (!jwt) return errorResponse(401, 'Sign in to use AI features.');
+    let userId: string | null;
+    try {
+        userId = await verifyAppwriteJwt(jwt);
+    } catch (error) {
+        console.error('[AI Proxy] Could not verify session:', error);
+        return errorResponse(502, 'Could not verify your session. Please try again.');
+    }
+    if (!userId) return errorResponse(401, 'Your session has expired. Please sign in again.');
+
+    // 2. Validate the request
+    const contentLength = parseInt(req.headers.get('Content-Length') || '0', 10);
+    if (contentLength > maxBodyBytes) return errorResponse(413, 'Request is too large.');
+    let rawBody: string | null;
+    try {
+        rawBody = await readBodyWithLimit(req, maxBodyBytes);
+    } catch {
+        return errorResponse(400, 'Could not read the request body.');
+    }
+    if (rawBody === null) return errorResponse(413, 'Request is too large.');
+    let body: Record<string, unknown>;
+    try {
+        body = JSON.parse(rawBody) as Record<string, unknown>;
+    } catch {
+        return errorResponse(400, 'Request body must be JSON.');
+    }
+    if (!body || typeof body !== 'object') return errorResponse(400, 'Request body must be a JSON object.');
+    const feature = typeof body.feature === 'string' ? body.feature : '';
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_FEATURE_MODELS, feature)) return errorResponse(400, `Unknown AI feature "${feature}".`);
+    if (!Array.isArray(body.messages) || body.messages.length === 0) return errorResponse(400, 'messages must be a non-empty array.');
+
+    // 3. Rate limit (after validation, so malformed requests don't use up the quota)
+    const limit = getRateLimiter().consume(userId);
+    if (!limit.allowed) {
+        const message = limit.reason === 'daily_quota'
+            ? "You've reached today's limit for AI requests. It resets at midnight UTC."
+            : 'Too many AI requests. Please wait a moment and try again.';
+        return errorResponse(429, message, { 'Retry-After': String(limit.retryAfterSeconds ?? 60) });
+    }
+
+    // 4. Forward to the provider
+    const requestedMaxTokens = typeof body.max_tokens === 'number' && body.max_tokens > 0 ? body.max_tokens : maxTokens;
+    const upstreamBody: Record<string, unknown> = {
+        model: featureModel(feature),
+        messages: body.messages,
+        max_tokens: Math.min(requestedMaxTokens, maxTokens),
+        user: userId,
+    };
+    if (typeof body.temperature === 'number') upstreamBody.temperature = body.temperature;
+    const responseFormat = (body.response_format as { type?: unknown } | undefined)?.type;
+    if (typeof responseFormat === 'string' && RESPONSE_FORMAT_TYPES.includes(responseFormat)) upstreamBody.response_format = { type: responseFormat };
+    if (body.stream === true) upstreamBody.stream = true;
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(`${providerBaseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${providerApiKey}` },
+            body: JSON.stringify(upstreamBody),
+        });
+    } catch (error) {
+        console.error(`[AI Proxy] Provider unreachable (${feature}):`, error);
+        return errorResponse(502, 'AI provider is unreachable. Please try again later.');
+    }
+    if (upstream.status === 401 || upstream.status === 403) {
+        // The server's key was rejected; don't pass that on as if the user's session were the problem
+        console.error(`[AI Proxy] Provider rejected the API key (${upstream.status}).`);
+        return errorResponse(502, 'AI service is misconfigured. Please try again later.');
+    }
+    if (!upstream.ok) console.warn(`[AI Proxy] Provider returned ${upstream.status} for ${feature} (user ${userId}).`);
+
+    return new Response(upstream.body, {
+        status: upstream.status,
+        headers: {
+            'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+            'Cache-Control': 'no-cache',
+            'X-RateLimit-Remaining-Day': String(limit.remainingToday),
+            ...corsHeaders(),
+        },
+    });
+};
+
+// Periodically forget idle users and expired JWTs
+setInterval(() => { rateLimiter?.prune(); pruneJwtCache(); }, 10 * 60 * 1000).unref?.();
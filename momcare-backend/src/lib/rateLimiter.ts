@@ -0,0 +1,74 @@
+// src/lib/rateLimiter.ts
+
+/** Outcome of a rate limit check; when not allowed, `retryAfterSeconds` says when to try again. */
+export interface RateLimitResult {
+    allowed: boolean;
+    reason?: 'rate_limit' | 'daily_quota';
+    retryAfterSeconds?: number;
+    /** Requests left today after this one */
+    remainingToday: number;
+}
+
+export interface RateLimiterOptions {
+    /** Requests one user may make in any 60-second window */
+    perMinute: number;
+    /** Requests one user may make per UTC day */
+    perDay: number;
+}
+
+interface UserUsage {
+    /** Timestamps (ms) of requests in the last minute */
+    recent: number[];
+    /** UTC day (YYYY-MM-DD) that `today` counts */
+    day: string;
+    today: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const utcDay = (now: number): string => new Date(now).toISOString().slice(0, 10);
+
+/**
+ * In-memory per-user limits: a sliding one-minute window and a daily quota that resets at UTC midnight.
+ * Counts are lost on restart and not shared between instances, which is fine for the single backend process.
+ */
+export const createRateLimiter = (options: RateLimiterOptions) => {
+    const usage = new Map<string, UserUsage>();
+
+    /** Records a request for the user if it is within both limits. */
+    const consume = (userId: string, now: number = Date.now()): RateLimitResult => {
+        const day = utcDay(now);
+        let entry = usage.get(userId);
+        if (!entry || entry.day !== day) {
+            entry = { recent: entry?.recent ?? [], day, today: 0 };
+            usage.set(userId, entry);
+        }
+        entry.recent = entry.recent.filter(timestamp => now - timestamp < MINUTE_MS);
+
+        if (entry.today >= options.perDay) {
+            const midnight = Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * MINUTE_MS;
+            return { allowed: false, reason: 'daily_quota', retryAfterSeconds: Math.ceil((midnight - now) / 1000), remainingToday: 0 };
+        }
+        if (entry.recent.length >= options.perMinute) {
+            const retryAfterMs = MINUTE_MS - (now - entry.recent[0]);
+            return { allowed: false, reason: 'rate_limit', retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)), remainingToday: options.perDay - entry.today };
+        }
+
+        entry.recent.push(now);
+        entry.today += 1;
+        return { allowed: true, remainingToday: options.perDay - entry.today };
+    };
+
+    /** Drops users with no requests in the last minute and none counted today (keeps the map small). */
+    const prune = (now: number = Date.now()): void => {
+        const day = utcDay(now);
+        usage.forEach((entry, userId) => {
+            const idle = entry.recent.every(timestamp => now - timestamp >= MINUTE_MS);
+            if (idle && entry.day !== day) usage.delete(userId);
+        });
+    };
+
+    return { consume, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
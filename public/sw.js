@@ -0,0 +1,124 @@
+// public/sw.js
+// MomCare notification service worker. The app sends a plan of upcoming dose and appointment
+// notifications (see src/lib/notifications.ts); this worker keeps it in IndexedDB, shows each one
+// when it falls due and hands "Taken" / "Snooze" actions back to a tab, which saves them.
+
+const DB_NAME = 'momcare-notifications';
+const STORE = 'state';
+const PLAN_KEY = 'plan';
+const SHOWN_KEY = 'shown';
+const SYNC_TAG = 'momcare-notifications';
+const STALE_MINUTES = 15;
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// --- Storage ---
+
+const openDb = () => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const readValue = async (key, fallback) => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+        request.onsuccess = () => resolve(request.result ?? fallback);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const writeValue = async (key, value) => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).put(value, key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- Showing ---
+
+/** Shows every planned notification that is due and not yet shown; tags shown are kept for two days. */
+const showDueNotifications = async () => {
+    const now = Date.now();
+    const plan = await readValue(PLAN_KEY, []);
+    const shown = await readValue(SHOWN_KEY, {});
+    for (const [tag, shownAt] of Object.entries(shown)) {
+        if (now - shownAt > 2 * 24 * 60 * 60 * 1000) delete shown[tag];
+    }
+    for (const item of plan) {
+        const showAt = Date.parse(item.showAt);
+        if (shown[item.tag] || showAt > now || now - showAt > STALE_MINUTES * 60 * 1000) continue;
+        await self.registration.showNotification(item.title, {
+            body: item.body,
+            tag: item.tag,
+            icon: '/favicon.ico',
+            badge: '/favicon.ico',
+            data: { url: item.url, dose: item.dose },
+            actions: item.dose ? [{ action: 'taken', title: 'Taken' }, { action: 'snooze', title: 'Snooze' }] : [],
+            requireInteraction: !!item.dose,
+        });
+        shown[item.tag] = now;
+    }
+    await writeValue(SHOWN_KEY, shown);
+};
+
+// While the worker stays alive (e.g. the app is open in a tab) check every minute as well
+let checkTimer = null;
+const scheduleChecks = () => {
+    if (checkTimer) return;
+    checkTimer = setInterval(() => { showDueNotifications().catch(() => undefined); }, CHECK_INTERVAL_MS);
+};
+
+// --- Lifecycle ---
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message || typeof message.type !== 'string') return;
+    if (message.type === 'momcare:plan') {
+        event.waitUntil(writeValue(PLAN_KEY, Array.isArray(message.notifications) ? message.notifications : []).then(showDueNotifications));
+        scheduleChecks();
+    } else if (message.type === 'momcare:check') {
+        event.waitUntil(showDueNotifications());
+    } else if (message.type === 'momcare:clear') {
+        event.waitUntil(writeValue(PLAN_KEY, []).then(() => self.registration.getNotifications()).then(list => list.forEach(n => n.close())));
+    }
+});
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === SYNC_TAG) event.waitUntil(showDueNotifications());
+});
+
+// --- Actions ---
+
+self.addEventListener('notificationclick', (event) => {
+    const { url = '/dashboard', dose } = event.notification.data || {};
+    const action = event.action === 'taken' || event.action === 'snooze' ? event.action : null;
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const client = windows.find(c => new URL(c.url).origin === self.location.origin);
+        if (action && dose) {
+            // An open tab saves the dose through the app's data layer (including the offline outbox)
+            if (client) {
+                client.postMessage({ type: 'momcare:notification-action', action, dose });
+                return;
+            }
+            const params = new URLSearchParams({ notificationAction: action, reminderId: dose.reminderId, scheduledAt: dose.scheduledAt, medicationName: dose.medicationName || '' });
+            await self.clients.openWindow(`/dashboard?${params.toString()}`);
+            return;
+        }
+        if (client) {
+            await client.focus();
+            if ('navigate' in client && new URL(client.url).pathname !== url) await client.navigate(url);
+            return;
+        }
+        await self.clients.openWindow(url);
+    })());
+});
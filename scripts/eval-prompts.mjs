@@ -0,0 +1,26 @@
+// scripts/eval-prompts.mjs
+// Runs the prompt evaluation harness (src/lib/evals/cli.ts): `npm run eval:prompts -- --help`.
+// The harness imports the app's TypeScript modules, so it is loaded through Vite, which applies the same
+// VITE_* environment (.env files included) and import aliases as the app.
+import { createServer } from 'vite';
+
+// Prompts don't read any data; skip the Appwrite configuration check
+process.env.VITE_PUBLIC_DATA_BACKEND ??= 'memory';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let exitCode = 1;
+try {
+    const { runEvalCli } = await server.ssrLoadModule('/src/lib/evals/cli.ts');
+    exitCode = await runEvalCli(process.argv.slice(2));
+} catch (error) {
+    console.error(error);
+} finally {
+    await server.close();
+}
+process.exit(exitCode);
@@ -10,6 +10,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 // Auth and Store (Keep these static imports)
 import { useAuthStore } from "@/store/authStore";
 import { PublicRoute, PrivateRoute } from '@/components/auth/AuthRoute.tsx';
+import NotificationScheduler from '@/components/notifications/NotificationScheduler';
 
 // --- Lazy Load Page Components ---
 // This tells Vite/React to load the code for these pages only when they are needed.
@@ -40,6 +41,7 @@ const ContactPage = lazy(() => import("./pages/ContactPage"));
 const SymPage = lazy(() => import("./pages/SymptomCheckerPage"));
 const MonadPage = lazy(() => import("./pages/MonadPage"));
 const PatientDetailPage = lazy(() => import("./pages/doctor/PatientDetailPage"));
+const ContractionTimerPage = lazy(() => import("./pages/ContractionTimerPage"));
 
 // You might want a more sophisticated loading component
 const LoadingFallback = () => (
@@ -72,6 +74,7 @@ const App = () => {
         {/* Keep Toasters outside Suspense if they need to be always available */}
         <Toaster />
         <Sonner />
+        <NotificationScheduler />
         <BrowserRouter>
           {/* Suspense Wrapper: Displays fallback while lazy components load */}
           <Suspense fallback={<LoadingFallback />}>
@@ -98,6 +101,7 @@ const App = () => {
               <Route path="/games" element={<PrivateRoute><GamesPage /></PrivateRoute>} />
               <Route path="/doctor" element={<PrivateRoute><DoctorPage /></PrivateRoute>} />
               <Route path="/chat" element={<PrivateRoute><ChatPage /></PrivateRoute>} />
+              <Route path="/contractions" element={<PrivateRoute><ContractionTimerPage /></PrivateRoute>} />
               <Route path="/schecker" element={<PrivateRoute><SymPage /></PrivateRoute>} />
               <Route path="/resources" element={<PrivateRoute><ResourcesPage /></PrivateRoute>} />
               <Route path="/milestones" element={<PrivateRoute><MonadPage /></PrivateRoute>} />
@@ -1,9 +1,16 @@
 // src/components/ui/AppointmentItem.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card'; // Keep Card for consistent structure
 import { Button } from '@/components/ui/button';
-import { Appointment } from '@/lib/appwrite'; // Assuming Appointment type is exported
+import { Appointment, MedicalDocument, VisitSummary } from '@/lib/appwrite'; // Assuming Appointment type is exported
 import { format, parseISO } from 'date-fns'; // Use parseISO for robust date handling
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/appointmentRecurrence';
+import { getAppointmentDurationMinutes } from '@/lib/appointmentTime';
+import { describeDuration } from '@/lib/appointmentAvailability';
+import { getAllowedStatusTransitions, isAppointmentActive } from '@/lib/appointmentStatus';
+import { PreferredUnits } from '@/lib/units';
+import AppointmentStatusBadge from './AppointmentStatusBadge';
+import VisitSummaryDetails from './VisitSummaryDetails';
 import {
     Calendar,
     Clock,
@@ -14,12 +21,24 @@ import {
     GraduationCap, // Icon for classes
     FlaskConical, // Icon for lab tests
     HelpCircle, // Default icon
+    Repeat, // Recurring series
+    CalendarPlus, // Add to calendar (.ics)
+    XCircle, // Cancel
+    History, // Status history
+    ClipboardList, // Visit summary
+    ChevronDown,
 } from 'lucide-react';
 
 interface AppointmentItemProps {
   appointment: Appointment;
   onEdit: (appointment: Appointment) => void;
   onDelete: (appointmentId: string) => void;
+  onExport?: (appointment: Appointment) => void; // Optional "Add to calendar" action
+  onCancel?: (appointment: Appointment) => void; // Cancel but keep it listed (shown while the patient may cancel)
+  onShowHistory?: (appointment: Appointment) => void; // Status change history
+  visitSummary?: VisitSummary | null; // Doctor's write-up of a completed visit
+  summaryDocuments?: MedicalDocument[]; // The user's documents, to open ones attached to the summary
+  units?: PreferredUnits;
   isDeleting?: boolean;
   type?: 'doctor' | 'class' | 'lab_test' | string; // <<< --- ADDED TYPE PROP
 }
@@ -72,6 +91,12 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
   appointment,
   onEdit,
   onDelete,
+  onExport,
+  onCancel,
+  onShowHistory,
+  visitSummary,
+  summaryDocuments,
+  units,
   isDeleting = false,
   type, // <<< --- Destructure the type prop
 }) => {
@@ -85,10 +110,17 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
     : defaultTitle;
 
   const formattedDateTime = formatApptDateTime(appointment.date, appointment.time);
+  // Occurrences carry their series' rule; edited occurrences only point back to the series
+  const recurrenceRule = parseRecurrenceRule(appointment.recurrence);
+  const recurrenceLabel = recurrenceRule ? describeRecurrenceRule(recurrenceRule) : appointment.seriesId ? 'Edited occurrence of a series' : null;
+  // Cancelled or finished appointments can't be moved or cancelled again
+  const isActive = isAppointmentActive(appointment);
+  const canCancel = getAllowedStatusTransitions(appointment, 'patient').some(transition => transition.to === 'cancelled_by_patient');
+  const [showSummary, setShowSummary] = useState(false);
 
   return (
     // Using Card provides consistent padding and border, but you could use a simple <li> if preferred
-    <Card className="mb-3 border border-gray-200 hover:shadow-sm transition-shadow duration-150 bg-white">
+    <Card className={`mb-3 border border-gray-200 hover:shadow-sm transition-shadow duration-150 bg-white ${isActive ? '' : 'opacity-70'}`}>
       <CardContent className="p-4 flex items-center justify-between gap-x-4">
         {/* Left side: Icon and Details */}
         <div className="flex min-w-0 items-start gap-x-3 flex-grow">
@@ -100,30 +132,95 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
           <div className="min-w-0 flex-auto">
             <p className={`text-sm font-semibold leading-6 ${type === 'class' ? 'text-momcare-secondary-dark' : 'text-momcare-dark'}`}>
               {displayTitle}
+              <AppointmentStatusBadge appointment={appointment} className="ml-2 align-middle" />
             </p>
             <p className="mt-1 flex text-xs leading-5 text-gray-500 items-center">
               <Calendar className="h-3.5 w-3.5 mr-1.5 flex-shrink-0 text-gray-400" />
               {formattedDateTime}
+              <span className="ml-1.5 text-gray-400">({describeDuration(getAppointmentDurationMinutes(appointment))})</span>
             </p>
+            {recurrenceLabel && (
+              <p className="mt-0.5 flex text-xs leading-5 text-gray-500 items-center">
+                <Repeat className="h-3.5 w-3.5 mr-1.5 flex-shrink-0 text-gray-400" />
+                {recurrenceLabel}
+              </p>
+            )}
             {appointment.notes && (
               <p className="mt-1.5 text-xs leading-5 text-gray-600 line-clamp-2 bg-gray-50 p-1.5 rounded border border-gray-100">
                 <span className="font-medium text-gray-700">Notes:</span> {appointment.notes}
               </p>
             )}
+            {visitSummary && (
+              <div className="mt-1.5">
+                <button
+                  type="button"
+                  onClick={() => setShowSummary(prev => !prev)}
+                  className="flex items-center text-xs font-medium text-momcare-primary hover:underline"
+                  aria-expanded={showSummary}
+                >
+                  <ClipboardList className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+                  Visit summary
+                  <ChevronDown className={`h-3.5 w-3.5 ml-0.5 transition-transform ${showSummary ? 'rotate-180' : ''}`} />
+                </button>
+                {showSummary && (
+                  <div className="mt-1.5 bg-gray-50 p-2 rounded border border-gray-100">
+                    <VisitSummaryDetails summary={visitSummary} documents={summaryDocuments} units={units} />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
         {/* Right side: Action Buttons */}
         <div className="flex flex-none items-center gap-x-1.5 sm:gap-x-2 ml-2 sm:ml-4">
-          <Button
-            variant="ghost"
-            size="icon" // Use 'icon' size for compact buttons
-            onClick={() => onEdit(appointment)}
-            aria-label="Edit appointment"
-            className="text-gray-500 hover:text-blue-600 hover:bg-blue-50 h-8 w-8" // Adjust size and hover
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
+          {onExport && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onExport(appointment)}
+              aria-label="Add appointment to calendar"
+              title="Add to calendar"
+              className="text-gray-500 hover:text-momcare-primary hover:bg-momcare-primary/10 h-8 w-8"
+            >
+              <CalendarPlus className="h-4 w-4" />
+            </Button>
+          )}
+          {onShowHistory && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onShowHistory(appointment)}
+              aria-label="Show status history"
+              title="Status history"
+              className="text-gray-500 hover:text-momcare-primary hover:bg-momcare-primary/10 h-8 w-8"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          )}
+          {isActive && (
+            <Button
+              variant="ghost"
+              size="icon" // Use 'icon' size for compact buttons
+              onClick={() => onEdit(appointment)}
+              aria-label="Edit appointment"
+              className="text-gray-500 hover:text-blue-600 hover:bg-blue-50 h-8 w-8" // Adjust size and hover
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {onCancel && canCancel && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onCancel(appointment)}
+              aria-label="Cancel appointment"
+              title="Cancel"
+              className="text-gray-500 hover:text-orange-600 hover:bg-orange-50 h-8 w-8"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -0,0 +1,21 @@
+// src/components/appointments/AppointmentStatusBadge.tsx
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Appointment } from '@/lib/appwrite';
+import { appointmentStatusBadgeClasses, appointmentStatusLabels, getAppointmentStatus } from '@/lib/appointmentStatus';
+
+interface AppointmentStatusBadgeProps {
+  appointment: Pick<Appointment, 'status' | 'isCompleted'>;
+  className?: string;
+}
+
+const AppointmentStatusBadge: React.FC<AppointmentStatusBadgeProps> = ({ appointment, className = '' }) => {
+  const status = getAppointmentStatus(appointment);
+  return (
+    <Badge variant="outline" className={`text-xs px-1.5 py-0 font-medium ${appointmentStatusBadgeClasses[status]} ${className}`}>
+      {appointmentStatusLabels[status]}
+    </Badge>
+  );
+};
+
+export default AppointmentStatusBadge;
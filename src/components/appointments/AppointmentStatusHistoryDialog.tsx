@@ -0,0 +1,74 @@
+// src/components/appointments/AppointmentStatusHistoryDialog.tsx
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Appointment, AppointmentStatusEvent, getAppointmentStatusHistory } from '@/lib/appwrite';
+import { appointmentStatusBadgeClasses, appointmentStatusLabels } from '@/lib/appointmentStatus';
+import AppointmentStatusBadge from './AppointmentStatusBadge';
+
+interface AppointmentStatusHistoryDialogProps {
+  appointment: Appointment | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const describeActor = (event: AppointmentStatusEvent) =>
+  event.actorName || (event.actorRole === 'provider' ? 'Clinic' : 'Patient');
+
+/** Every status change of an appointment (and of the series it belongs to), newest first. */
+const AppointmentStatusHistoryDialog: React.FC<AppointmentStatusHistoryDialogProps> = ({ appointment, isOpen, onClose }) => {
+  const [events, setEvents] = useState<AppointmentStatusEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !appointment) return;
+    let cancelled = false;
+    setEvents(null);
+    getAppointmentStatusHistory(appointment).then(history => { if (!cancelled) setEvents(history); });
+    return () => { cancelled = true; };
+  }, [isOpen, appointment]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><History className="h-5 w-5 text-momcare-primary" />Status History</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            {appointment && <>{format(parseISO(appointment.date), 'EEE, MMM d, yyyy')} at {appointment.time} <AppointmentStatusBadge appointment={appointment} /></>}
+          </DialogDescription>
+        </DialogHeader>
+
+        {events === null ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-momcare-primary" /></div>
+        ) : events.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No status changes recorded yet.</p>
+        ) : (
+          <ScrollArea className="max-h-80 pr-3">
+            <ol className="space-y-3 border-l border-gray-200 pl-4">
+              {events.map(event => (
+                <li key={event.$id} className="relative">
+                  <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-momcare-primary" aria-hidden="true" />
+                  <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                    <Badge variant="outline" className={`text-xs px-1.5 py-0 ${appointmentStatusBadgeClasses[event.status] ?? ''}`}>
+                      {appointmentStatusLabels[event.status] ?? event.status}
+                    </Badge>
+                    <span className="text-gray-700">by {describeActor(event)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {format(parseISO(event.changedAt), 'MMM d, yyyy h:mm a')}
+                    {event.previousStatus && ` · was ${appointmentStatusLabels[event.previousStatus]?.toLowerCase() ?? event.previousStatus}`}
+                  </p>
+                  {event.note && <p className="mt-1 text-xs text-gray-600 italic">"{event.note}"</p>}
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppointmentStatusHistoryDialog;
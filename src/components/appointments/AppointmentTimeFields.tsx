@@ -0,0 +1,78 @@
+// src/components/appointments/AppointmentTimeFields.tsx
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, Hourglass } from 'lucide-react';
+import { APPOINTMENT_DURATION_OPTIONS, AvailableSlot, describeDuration } from '@/lib/appointmentAvailability';
+
+interface AppointmentTimeFieldsProps {
+  /** Free slots for the picked day; null while no day is picked */
+  slots: AvailableSlot[] | null;
+  time: string | undefined;
+  onTimeChange: (time: string) => void;
+  durationMinutes: number;
+  onDurationChange: (minutes: number) => void;
+  /** Shown first even if it isn't free any more, e.g. the time an appointment being edited already has */
+  currentTime?: string;
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+/** Length and start time of an appointment; only free slots are offered. */
+const AppointmentTimeFields: React.FC<AppointmentTimeFieldsProps> = ({
+  slots, time, onTimeChange, durationMinutes, onDurationChange, currentTime, idPrefix, disabled,
+}) => {
+  const times = slots?.map(slot => slot.time) ?? [];
+  if (currentTime && !times.includes(currentTime)) times.unshift(currentTime);
+  const durations = APPOINTMENT_DURATION_OPTIONS.includes(durationMinutes)
+    ? APPOINTMENT_DURATION_OPTIONS
+    : [...APPOINTMENT_DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b);
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-duration`} className="text-sm font-medium text-gray-700">Length *</Label>
+        <Select value={String(durationMinutes)} onValueChange={(value) => onDurationChange(Number(value))} disabled={disabled}>
+          <SelectTrigger id={`${idPrefix}-duration`} className="w-full" aria-label="Select appointment length">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {durations.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                <div className="flex items-center text-sm">
+                  <Hourglass className="mr-2 h-4 w-4 opacity-70" /> {describeDuration(minutes)}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-time`} className="text-sm font-medium text-gray-700">Select Time *</Label>
+        <Select value={time} onValueChange={onTimeChange} disabled={disabled || times.length === 0}>
+          <SelectTrigger id={`${idPrefix}-time`} className="w-full" aria-label="Select appointment time">
+            <SelectValue placeholder={slots === null ? "Pick a date first" : times.length === 0 ? "No free slots" : "Select a time slot"} />
+          </SelectTrigger>
+          <SelectContent>
+            {times.map((slot) => (
+              <SelectItem key={slot} value={slot}>
+                <div className="flex items-center text-sm">
+                  <Clock className="mr-2 h-4 w-4 opacity-70" /> {slot}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {slots !== null && slots.length === 0 && (
+        <p className="col-span-2 text-xs text-amber-700">
+          No free {describeDuration(durationMinutes)} slots on this day. Try another day or a shorter length.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentTimeFields;
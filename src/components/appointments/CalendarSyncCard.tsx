@@ -0,0 +1,160 @@
+// src/components/appointments/CalendarSyncCard.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarSync, Copy, Download, Link2, Loader2, RefreshCw, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  UserProfile,
+  getUserProfile,
+  getUserAppointmentRecords,
+  isCalendarFeedAvailable,
+  getCalendarFeedUrl,
+  rotateCalendarFeedToken,
+  disableCalendarFeed,
+} from '@/lib/appwrite';
+import { ICALENDAR_MIME_TYPE, createAppointmentsCalendar, getAppointmentICalendarFileName } from '@/lib/icalendar';
+import { getDeviceTimeZone } from '@/lib/appointmentTime';
+import { downloadTextFile } from '@/lib/healthDataTransfer';
+import ImportAppointmentsModal from './ImportAppointmentsModal';
+
+interface CalendarSyncCardProps {
+  userId: string;
+  onAppointmentsImported: () => void;
+}
+
+/** Download, import and subscribe: keeps MomCare appointments in step with the user's phone calendar. */
+const CalendarSyncCard: React.FC<CalendarSyncCardProps> = ({ userId, onAppointmentsImported }) => {
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const timeZone = useMemo(() => getDeviceTimeZone(), []);
+  const feedAvailable = isCalendarFeedAvailable();
+  const feedUrl = getCalendarFeedUrl(profile?.calendarFeedToken, timeZone);
+
+  useEffect(() => {
+    if (!userId || !feedAvailable) return;
+    let cancelled = false;
+    getUserProfile(userId).then(p => { if (!cancelled) setProfile(p); });
+    return () => { cancelled = true; };
+  }, [userId, feedAvailable]);
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const appointments = await getUserAppointmentRecords(userId);
+      if (appointments.length === 0) {
+        toast({ title: "Nothing to Export", description: "Book an appointment first." });
+        return;
+      }
+      downloadTextFile(createAppointmentsCalendar(appointments), getAppointmentICalendarFileName(), ICALENDAR_MIME_TYPE);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Could not export appointments.";
+      toast({ title: "Export Failed", description: msg, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const updateFeed = async (action: 'create' | 'disable') => {
+    if (!profile) {
+      toast({ title: "Profile Needed", description: "Complete your profile to subscribe from a calendar app.", variant: "destructive" });
+      return;
+    }
+    setIsUpdatingFeed(true);
+    try {
+      setProfile(action === 'create' ? await rotateCalendarFeedToken(profile.$id) : await disableCalendarFeed(profile.$id));
+      toast({
+        title: action === 'create' ? "Calendar Link Ready" : "Calendar Link Turned Off",
+        description: action === 'create'
+          ? "Add it to your calendar app as a subscription. Any earlier link no longer works."
+          : "Calendars subscribed to the old link will stop updating.",
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Could not update the calendar link.";
+      toast({ title: "Update Failed", description: msg, variant: "destructive" });
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link Copied", description: "Paste it into your calendar app's \"add calendar from URL\" option." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-200 rounded-lg">
+      <CardHeader className="p-4 border-b border-gray-100">
+        <CardTitle className="flex items-center text-base font-medium text-momcare-dark">
+          <CalendarSync className="mr-2 h-4 w-4 text-momcare-primary" />
+          Calendar Sync
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Download className="mr-1.5 h-4 w-4" />}
+            Download .ics
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-1.5 h-4 w-4" />
+            Import .ics
+          </Button>
+        </div>
+
+        {feedAvailable && (
+          <div className="space-y-2 border-t border-gray-100 pt-3">
+            <p className="text-xs text-gray-600">
+              Subscribe from Google, Apple or Outlook calendar to see new and changed appointments automatically.
+            </p>
+            {feedUrl ? (
+              <>
+                <div className="flex gap-2">
+                  <Input readOnly value={feedUrl} className="h-8 text-xs" aria-label="Calendar subscription link" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" className="h-8 w-8 flex-shrink-0" onClick={handleCopy} aria-label="Copy calendar link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button asChild size="sm" className="bg-momcare-primary hover:bg-momcare-dark">
+                    <a href={getCalendarFeedUrl(profile?.calendarFeedToken, timeZone, 'webcal')}><Link2 className="mr-1.5 h-4 w-4" />Open in calendar app</a>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => updateFeed('create')} disabled={isUpdatingFeed}>
+                    <RefreshCw className="mr-1.5 h-4 w-4" />New link
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" onClick={() => updateFeed('disable')} disabled={isUpdatingFeed}>
+                    Turn off
+                  </Button>
+                </div>
+                <p className="text-xs text-amber-700">Anyone with this link can see your appointment times and notes.</p>
+              </>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => updateFeed('create')} disabled={isUpdatingFeed}>
+                {isUpdatingFeed ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Link2 className="mr-1.5 h-4 w-4" />}
+                Create subscription link
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <ImportAppointmentsModal
+        userId={userId}
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onAppointmentsImported={onAppointmentsImported}
+      />
+    </Card>
+  );
+};
+
+export default CalendarSyncCard;
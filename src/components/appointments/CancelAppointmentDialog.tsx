@@ -0,0 +1,82 @@
+// src/components/appointments/CancelAppointmentDialog.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { Appointment } from '@/lib/appwrite';
+import { RecurrenceEditScope, isRecurringAppointment } from '@/lib/appointmentRecurrence';
+import RecurrenceScopeChoice from './RecurrenceScopeChoice';
+
+interface CancelAppointmentDialogProps {
+  appointment: Appointment | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string, scope: RecurrenceEditScope) => void;
+  isCancelling?: boolean;
+  /** Patients see "your appointment"; the clinic sees "this appointment" and that the patient will see the reason */
+  audience?: 'patient' | 'provider';
+}
+
+/** Asks for an optional reason before cancelling; the appointment stays listed as cancelled. */
+const CancelAppointmentDialog: React.FC<CancelAppointmentDialogProps> = ({
+  appointment, isOpen, onClose, onConfirm, isCancelling, audience = 'patient',
+}) => {
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const isRecurring = !!appointment && isRecurringAppointment(appointment);
+
+  useEffect(() => {
+    if (isOpen) { setReason(''); setScope('this'); }
+  }, [isOpen]);
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => { if (!open && !isCancelling) onClose(); }}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel Appointment?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {audience === 'patient'
+              ? "The clinic will see that you cancelled. To book a different time, edit the appointment instead."
+              : "The patient will see that the clinic cancelled, with the reason below."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {isRecurring && (
+          <RecurrenceScopeChoice value={scope} onChange={setScope} idPrefix={`cancel-scope-${audience}`} disabled={isCancelling} />
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor={`cancel-reason-${audience}`} className="text-sm font-medium">Reason (optional)</Label>
+          <Textarea
+            id={`cancel-reason-${audience}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            className="min-h-[70px] text-sm"
+            disabled={isCancelling}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isCancelling}>Keep Appointment</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => { e.preventDefault(); onConfirm(reason, scope); }}
+            disabled={isCancelling}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {isCancelling ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Cancelling...</> : 'Cancel Appointment'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelAppointmentDialog;
@@ -1,7 +1,7 @@
 // src/components/EditAppointmentModal.tsx
 // Or src/components/ui/EditAppointmentModal.tsx - adjust path as needed
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -20,17 +20,35 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
-import { Appointment, updateAppointment } from '@/lib/appwrite';
-import { format } from 'date-fns'; // Removed parseISO as it's not needed
-import { Calendar as CalendarIcon, Clock, Loader2 } from 'lucide-react';
+import { Appointment, changeAppointmentStatus, getBookedAppointmentTimes, getProviderAvailability, getUserAppointments, updateAppointmentOccurrence } from '@/lib/appwrite';
+import { useAuthStore } from '@/store/authStore';
+import { format, parseISO } from 'date-fns';
+import { Calendar as CalendarIcon, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import {
+  RecurrenceEditScope,
+  RecurrenceRule,
+  formatRecurrenceRule,
+  getAppointmentDay,
+  isRecurringAppointment,
+  parseRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/appointmentRecurrence';
+import { getAppointmentDurationMinutes } from '@/lib/appointmentTime';
+import {
+  DEFAULT_PROVIDER_SCHEDULE,
+  ProviderSchedule,
+  findBookingConflicts,
+  getAvailableSlots,
+  getScheduleTimeZone,
+  getWorkingHoursOn,
+  resolveProviderSchedule,
+  withBookedTimes,
+} from '@/lib/appointmentAvailability';
+import RecurrenceFields from './RecurrenceFields';
+import RecurrenceScopeChoice from './RecurrenceScopeChoice';
+import AppointmentTimeFields from './AppointmentTimeFields';
 
 interface EditAppointmentModalProps {
   appointment: Appointment | null;
@@ -39,13 +57,6 @@ interface EditAppointmentModalProps {
   onAppointmentUpdated: () => void; // Callback to refresh the list
 }
 
-// Ensure this list is consistent across your app
-const timeSlots = [
-    '09:00 AM', '09:30 AM', '10:00 AM', '10:30 AM', '11:00 AM', '11:30 AM',
-    '12:00 PM', '12:30 PM', '01:00 PM', '01:30 PM', '02:00 PM', '02:30 PM',
-    '03:00 PM', '03:30 PM', '04:00 PM', '04:30 PM'
-];
-
 const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
   appointment,
   isOpen,
@@ -56,16 +67,58 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
   const [date, setDate] = useState<Date | undefined>(undefined);
   const [time, setTime] = useState<string | undefined>(undefined);
   const [notes, setNotes] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(getAppointmentDurationMinutes(appointment));
+  // The user's other appointments, other patients' bookings and the practice hours, for offering only free slots
+  const [otherAppointments, setOtherAppointments] = useState<Appointment[]>([]);
+  const [bookedTimes, setBookedTimes] = useState<Appointment[]>([]);
+  const [schedule, setSchedule] = useState<ProviderSchedule>(DEFAULT_PROVIDER_SCHEDULE);
   const [isLoading, setIsLoading] = useState(false);
+  // Recurring series: which occurrences the edit applies to, and the (possibly changed) repeat rule
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const [rule, setRule] = useState<RecurrenceRule | null>(null);
+  const [ruleChanged, setRuleChanged] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuthStore();
+  const { online } = useOfflineSync();
+
+  const isRecurring = !!appointment && isRecurringAppointment(appointment);
+  // Overrides don't carry the rule; the series' rule can only be changed from one of its own occurrences
+  const canEditRule = isRecurring && scope !== 'this' && !!parseRecurrenceRule(appointment?.recurrence);
+  // The appointment itself (and its series, when editing more than this occurrence) doesn't block its own new time
+  const seriesId = appointment?.occurrenceOf || appointment?.$id;
+  const ignoreIds = useMemo(
+    () => appointment ? (isRecurring && scope !== 'this' ? [appointment.$id, seriesId] : [appointment.$id]) : [],
+    [appointment, isRecurring, scope, seriesId],
+  );
+  const formattedDay = date ? format(date, 'yyyy-MM-dd') : null;
+  const isUnchangedDay = !!appointment && formattedDay === getAppointmentDay(appointment);
+  const availableSlots = useMemo(
+    () => formattedDay ? getAvailableSlots(schedule, formattedDay, { durationMinutes, appointments: withBookedTimes(otherAppointments, bookedTimes), ignoreIds }) : null,
+    [formattedDay, schedule, durationMinutes, otherAppointments, bookedTimes, ignoreIds],
+  );
+
+  useEffect(() => {
+    if (!isOpen || !appointment?.userId) return;
+    let cancelled = false;
+    getUserAppointments(appointment.userId).then(apps => { if (!cancelled) setOtherAppointments(apps); }).catch(() => {});
+    getProviderAvailability().then(doc => { if (!cancelled && doc) setSchedule(resolveProviderSchedule(doc.schedule)); });
+    getBookedAppointmentTimes().then(booked => { if (!cancelled) setBookedTimes(booked); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [isOpen, appointment]);
+
+  // Drop a picked time that isn't free on the new day or for the new length
+  useEffect(() => {
+    if (!time || !availableSlots || (isUnchangedDay && time === appointment?.time)) return;
+    if (!availableSlots.some(slot => slot.time === time)) setTime(undefined);
+  }, [availableSlots, time, isUnchangedDay, appointment]);
 
   // Effect to populate form when appointment data changes
   useEffect(() => {
     // console.log("EditAppointmentModal: useEffect triggered. Appointment:", appointment);
     if (appointment) {
       try {
-         // *** FIX: Parse the ISO date string directly ***
-         const appointmentDate = new Date(appointment.date);
+         // The stored day is at midnight UTC; read just the day so it doesn't move in zones west of UTC
+         const appointmentDate = parseISO(getAppointmentDay(appointment));
 
          // Check if the date is valid after parsing
          if (isNaN(appointmentDate.getTime())) {
@@ -84,6 +137,10 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
       // Set time and notes
       setTime(appointment.time);
       setNotes(appointment.notes || '');
+      setDurationMinutes(getAppointmentDurationMinutes(appointment));
+      setScope('this');
+      setRule(parseRecurrenceRule(appointment.recurrence));
+      setRuleChanged(false);
       // console.log("EditAppointmentModal: Set time:", appointment.time, "Set notes:", appointment.notes || '');
 
     } else {
@@ -92,6 +149,8 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
       setDate(undefined);
       setTime(undefined);
       setNotes('');
+      setRule(null);
+      setRuleChanged(false);
     }
   }, [appointment]); // Dependency array ensures this runs when 'appointment' prop changes
 
@@ -109,25 +168,76 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
       });
       return;
     }
+    // Format date back to 'yyyy-MM-dd' for Appwrite consistency if needed
+    // Appwrite might accept the full ISO string too, but formatting ensures consistency
+    const formattedDate = format(date, 'yyyy-MM-dd');
+    const sendRule = canEditRule && ruleChanged;
+    if (sendRule && !rule) {
+      toast({
+        title: "Can't Remove Repeat Here",
+        description: "To stop a series, delete this and following appointments instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const ruleError = sendRule ? validateRecurrenceRule(rule, formattedDate) : null;
+    if (ruleError) {
+      toast({ title: "Invalid Repeat", description: ruleError, variant: "destructive" });
+      return;
+    }
 
     setIsLoading(true);
     try {
-      // Format date back to 'yyyy-MM-dd' for Appwrite consistency if needed
-      // Appwrite might accept the full ISO string too, but formatting ensures consistency
-      const formattedDate = format(date, 'yyyy-MM-dd');
-
       // console.log(`EditAppointmentModal: Updating appointment ${appointment.$id} with:`, { date: formattedDate, time, notes });
+      // Re-read other patients' bookings in case the new slot was taken since the dialog opened (not possible offline)
+      let booked = bookedTimes;
+      if (online) {
+        booked = await getBookedAppointmentTimes();
+        setBookedTimes(booked);
+      }
+      // Series edits move every following occurrence, so check them all
+      const conflicts = findBookingConflicts({
+        date: formattedDate,
+        time,
+        timeZone: appointment.timeZone || getScheduleTimeZone(schedule),
+        durationMinutes,
+        recurrence: isRecurring && scope !== 'this' ? (sendRule ? rule : parseRecurrenceRule(appointment.recurrence)) : null,
+      }, withBookedTimes(otherAppointments, booked), { ignoreIds });
+      if (conflicts.length > 0) {
+        const first = conflicts[0];
+        toast({
+          title: "Time Not Available",
+          description: first.appointment.userId
+            ? `This overlaps another appointment on ${format(parseISO(first.day), 'PPP')} at ${first.appointment.time}.`
+            : `${format(parseISO(first.day), 'PPP')} at ${time} has already been booked. Please pick another time.`,
+          variant: "destructive",
+        });
+        return;
+      }
 
-      await updateAppointment(appointment.$id, {
+      // One-off appointments are updated directly; recurring ones according to the chosen scope
+      const changes = {
         date: formattedDate, // Send formatted date
         time,
         notes,
+        durationMinutes,
+        recurrence: sendRule ? formatRecurrenceRule(rule) : undefined,
         // Ensure isCompleted is not accidentally reset if it's not part of the update form
-      });
+      };
+      // A new time goes back to the clinic for confirmation and is logged in the status history
+      const isMoved = formattedDate !== getAppointmentDay(appointment) || time !== appointment.time
+        || durationMinutes !== getAppointmentDurationMinutes(appointment);
+      if (isMoved && user) {
+        await changeAppointmentStatus(appointment, 'rescheduled', { $id: user.$id, name: user.name, role: 'patient' }, { scope, changes });
+      } else {
+        await updateAppointmentOccurrence(appointment, changes, scope);
+      }
 
       toast({
         title: "Appointment Updated",
-        description: "Your changes have been saved successfully.",
+        description: isRecurring && scope !== 'this'
+          ? `Your changes have been applied to ${scope === 'all' ? 'the whole series' : 'this and following appointments'}.`
+          : isMoved ? "The clinic will confirm the new time." : "Your changes have been saved successfully.",
         variant: "default", // Use default variant for success
       });
       onAppointmentUpdated(); // Trigger refresh in the parent component
@@ -136,7 +246,7 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
       // console.error('EditAppointmentModal Error: Failed to update appointment:', error);
       toast({
         title: "Update Failed",
-        description: "Could not save changes. Please try again.",
+        description: error instanceof Error ? error.message : "Could not save changes. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -151,7 +261,7 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
   return (
     // Control modal visibility using 'open' prop and handle closing via 'onOpenChange'
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="sm:max-w-md"> {/* Adjusted max width slightly */}
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto"> {/* Adjusted max width slightly */}
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold text-gray-800">Edit Appointment</DialogTitle>
           <DialogDescription className="text-sm text-gray-500 pt-1">
@@ -161,6 +271,14 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
 
         {/* Form Content */}
         <div className="grid gap-5 py-5"> {/* Increased gap */}
+          {/* Scope (recurring series only) */}
+          {isRecurring && (
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Apply changes to</Label>
+              <RecurrenceScopeChoice value={scope} onChange={setScope} idPrefix="edit-scope" disabled={isLoading} />
+            </div>
+          )}
+
           {/* Date Picker */}
           <div className="space-y-1.5">
             <Label htmlFor="edit-date-button" className="text-sm font-medium">Select Date *</Label>
@@ -180,33 +298,25 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
                   mode="single"
                   selected={date}
                   onSelect={setDate}
-                  // Disable dates strictly before today (allows selecting today)
-                  disabled={(d) => d < new Date(new Date().setHours(0, 0, 0, 0))}
+                  // Disable dates strictly before today (allows selecting today) and days the practice is closed
+                  disabled={(d) => d < new Date(new Date().setHours(0, 0, 0, 0)) || getWorkingHoursOn(schedule, format(d, 'yyyy-MM-dd')).length === 0}
                   initialFocus // Focus calendar when opened
                 />
               </PopoverContent>
             </Popover>
           </div>
 
-          {/* Time Selector */}
-          <div className="space-y-1.5">
-            <Label htmlFor="edit-time-select" className="text-sm font-medium">Select Time *</Label>
-            <Select value={time} onValueChange={setTime}>
-              <SelectTrigger id="edit-time-select" className="w-full">
-                <SelectValue placeholder="Select a time slot" />
-              </SelectTrigger>
-              <SelectContent>
-                {timeSlots.map((slot) => (
-                  <SelectItem key={slot} value={slot}>
-                    <div className="flex items-center text-sm">
-                      <Clock className="mr-2 h-4 w-4 opacity-70" />
-                      {slot}
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {/* Length & Time */}
+          <AppointmentTimeFields
+            slots={availableSlots}
+            time={time}
+            onTimeChange={setTime}
+            durationMinutes={durationMinutes}
+            onDurationChange={setDurationMinutes}
+            currentTime={isUnchangedDay ? appointment.time : undefined}
+            idPrefix="edit"
+            disabled={isLoading}
+          />
 
           {/* Notes */}
           <div className="space-y-1.5">
@@ -219,6 +329,17 @@ const EditAppointmentModal: React.FC<EditAppointmentModalProps> = ({
               className="min-h-[100px] text-sm"
             />
           </div>
+
+          {/* Repeat rule (whole series or this and following) */}
+          {canEditRule && (
+            <RecurrenceFields
+              value={rule}
+              onChange={(next) => { setRule(next); setRuleChanged(true); }}
+              startDate={date}
+              idPrefix="edit-recurrence"
+              disabled={isLoading}
+            />
+          )}
         </div>
 
         {/* Modal Footer */}
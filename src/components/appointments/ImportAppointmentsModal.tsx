@@ -0,0 +1,205 @@
+// src/components/appointments/ImportAppointmentsModal.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarPlus, Loader2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { createAppointment, getUserAppointments } from '@/lib/appwrite';
+import { ICalendarImport, ImportedAppointment, getAppointmentTypeCategory, parseAppointmentsICalendar } from '@/lib/icalendar';
+import { getDeviceTimeZone } from '@/lib/appointmentTime';
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/appointmentRecurrence';
+
+interface ImportAppointmentsModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onAppointmentsImported: () => void; // Ask the parent to refetch the list
+}
+
+/** Same day, time and type as an appointment already booked. */
+const toDuplicateKey = (date: string, time: string, appointmentType: string | undefined) =>
+  `${date.split('T')[0]}|${time.trim().toUpperCase()}|${appointmentType || 'doctor'}`;
+
+/** Imports appointments from a calendar invite or export (.ics): pick file, preview, then save. */
+const ImportAppointmentsModal: React.FC<ImportAppointmentsModalProps> = ({ userId, isOpen, onClose, onAppointmentsImported }) => {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ICalendarImport | null>(null);
+  const [existingKeys, setExistingKeys] = useState<Set<string> | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const timeZone = useMemo(() => getDeviceTimeZone(), []);
+
+  // Start from a clean slate each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileName(''); setParsed(null); setExistingKeys(null); setProgress(0); setIsImporting(false);
+  }, [isOpen]);
+
+  // Existing appointments, for duplicate detection
+  useEffect(() => {
+    if (!isOpen || !userId || !parsed) return;
+    let cancelled = false;
+    getUserAppointments(userId)
+      .then(apps => { if (!cancelled) setExistingKeys(new Set(apps.map(app => toDuplicateKey(app.date, app.time, app.appointmentType)))); })
+      .catch(() => { if (!cancelled) setExistingKeys(new Set()); });
+    return () => { cancelled = true; };
+  }, [isOpen, userId, parsed]);
+
+  const isDuplicate = (item: ImportedAppointment) =>
+    !!existingKeys?.has(toDuplicateKey(item.data.date, item.data.time, item.data.appointmentType));
+  const items = parsed?.appointments ?? [];
+  const itemsToImport = items.filter(item => !skipDuplicates || !isDuplicate(item));
+  const duplicateCount = items.filter(isDuplicate).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const result = parseAppointmentsICalendar(await file.text(), { timeZone });
+      if (result.appointments.length === 0) throw new Error("The file has no events to import.");
+      setFileName(file.name); setParsed(result); setExistingKeys(null);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Could not read the file.";
+      toast({ title: "Import Failed", description: msg, variant: "destructive" });
+      setFileName(''); setParsed(null);
+    }
+    e.target.value = ''; // Allow picking the same file again
+  };
+
+  const handleImport = async () => {
+    if (itemsToImport.length === 0) return;
+    setIsImporting(true); setProgress(0);
+    let saved = 0; let failed = 0;
+    // Series first, so edited occurrences can point at the series they were imported with
+    const seriesIds = new Map<string, string>();
+    const ordered = [...itemsToImport.filter(item => !item.recurrenceOf), ...itemsToImport.filter(item => item.recurrenceOf)];
+    for (const item of ordered) {
+      try {
+        const seriesId = item.recurrenceOf ? seriesIds.get(item.recurrenceOf) : undefined;
+        const data = item.recurrenceOf && !seriesId
+          ? { ...item.data, originalDate: undefined } // Its series wasn't imported; keep it as a one-off
+          : { ...item.data, seriesId };
+        const created = await createAppointment(userId, data);
+        if (item.data.recurrence) seriesIds.set(item.uid, created.$id);
+        saved++;
+      } catch {
+        failed++;
+      }
+      setProgress(saved + failed);
+    }
+    setIsImporting(false);
+    if (saved > 0) onAppointmentsImported();
+    toast({
+      title: failed === 0 ? "Import Complete" : "Import Finished With Errors",
+      description: `${saved} appointment${saved === 1 ? '' : 's'} imported${failed ? `, ${failed} failed` : ''}.`,
+      variant: failed > 0 && saved === 0 ? "destructive" : "default",
+    });
+    if (failed === 0) onClose();
+  };
+
+  const statusBadge = (item: ImportedAppointment) => {
+    if (isDuplicate(item)) return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Duplicate</Badge>;
+    if (item.warnings.length > 0) return <Badge variant="secondary" className="bg-sky-100 text-sky-800" title={item.warnings.join(' ')}>Check</Badge>;
+    return <Badge variant="secondary" className="bg-green-100 text-green-800">Ready</Badge>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isImporting) onClose(); }}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><CalendarPlus className="h-5 w-5 text-momcare-primary" />Import Appointments</DialogTitle>
+          <DialogDescription>
+            Add appointments from a clinic invite or a calendar export (.ics). Times are converted to your time zone ({timeZone}). Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="import-ics-file">Calendar file</Label>
+            <Input id="import-ics-file" type="file" accept=".ics,.ical,.ifb,text/calendar" onChange={handleFileChange} disabled={isImporting} />
+            {fileName && parsed && (
+              <p className="text-xs text-muted-foreground">
+                {fileName}: {items.length} event{items.length === 1 ? '' : 's'}{parsed.skipped > 0 && `, ${parsed.skipped} cancelled or unreadable (skipped)`}
+              </p>
+            )}
+          </div>
+
+          {items.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="secondary" className="bg-green-100 text-green-800">{items.length - duplicateCount} new</Badge>
+                <Badge variant="secondary" className="bg-amber-100 text-amber-800">{duplicateCount} duplicate{duplicateCount === 1 ? '' : 's'}</Badge>
+                {existingKeys === null && <span className="flex items-center text-muted-foreground"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Checking for duplicates...</span>}
+              </div>
+              <ScrollArea className="h-56 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item, index) => {
+                      const rule = parseRecurrenceRule(item.data.recurrence);
+                      return (
+                        <TableRow key={`${item.uid}-${index}`}>
+                          <TableCell className="text-xs whitespace-nowrap">{format(parseISO(item.data.date), 'EEE, MMM d, yyyy')} · {item.data.time}</TableCell>
+                          <TableCell className="text-xs">{getAppointmentTypeCategory(item.data.appointmentType)}</TableCell>
+                          <TableCell className="text-xs text-gray-600">
+                            <p className="line-clamp-2">{item.summary}</p>
+                            {rule && <p className="text-gray-500">Repeats: {describeRecurrenceRule(rule)}</p>}
+                            {item.recurrenceOf && <p className="text-gray-500">Changed occurrence of a series</p>}
+                            {item.warnings.map(warning => <p key={warning} className="text-amber-700">{warning}</p>)}
+                          </TableCell>
+                          <TableCell>{statusBadge(item)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="import-ics-skip-duplicates" checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} disabled={isImporting} />
+                <Label htmlFor="import-ics-skip-duplicates" className="text-sm font-normal">Skip appointments already booked at the same time</Label>
+              </div>
+              {isImporting && <Progress value={(progress / itemsToImport.length) * 100} className="h-2" />}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={isImporting}>Cancel</Button>
+          </DialogClose>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={isImporting || itemsToImport.length === 0 || existingKeys === null}
+            className="bg-momcare-primary hover:bg-momcare-dark"
+          >
+            {isImporting
+              ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Importing {progress}/{itemsToImport.length}...</>
+              : <><Upload className="mr-2 h-4 w-4" /> Import {itemsToImport.length} Appointment{itemsToImport.length === 1 ? '' : 's'}</>}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportAppointmentsModal;
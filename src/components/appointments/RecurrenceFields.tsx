@@ -0,0 +1,141 @@
+// src/components/appointments/RecurrenceFields.tsx
+import React from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule, recurrenceFrequencyLabels, describeRecurrenceRule } from '@/lib/appointmentRecurrence';
+
+interface RecurrenceFieldsProps {
+  /** null = does not repeat */
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** First occurrence; gives the default weekday and the earliest end date */
+  startDate?: Date;
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+
+const weekdayInitials = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const unitLabels: Record<RecurrenceFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+/** "Repeats" controls for an appointment: frequency, interval, weekdays and how the series ends. */
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, startDate, idPrefix, disabled }) => {
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') { onChange(null); return; }
+    const next: RecurrenceRule = { interval: 1, ...value, frequency: frequency as RecurrenceFrequency };
+    if (next.frequency === 'weekly' && !next.byWeekday?.length) next.byWeekday = [startDate?.getDay() ?? new Date().getDay()];
+    if (next.frequency !== 'weekly') delete next.byWeekday;
+    if (!value) next.count = 6; // A sensible default: six visits / classes
+    onChange(next);
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (!value) return;
+    const { count: _count, until: _until, ...rest } = value;
+    if (mode === 'count') onChange({ ...rest, count: 6 });
+    else if (mode === 'until') onChange({ ...rest, until: format(startDate ?? new Date(), 'yyyy-MM-dd') });
+    else onChange(rest);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.byWeekday ?? [];
+    const byWeekday = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    if (byWeekday.length > 0) onChange({ ...value, byWeekday });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-repeat`} className="text-sm font-medium text-gray-700">Repeats</Label>
+        <Select value={value?.frequency ?? 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger id={`${idPrefix}-repeat`} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            {(Object.keys(recurrenceFrequencyLabels) as RecurrenceFrequency[]).map(frequency => (
+              <SelectItem key={frequency} value={frequency}>{recurrenceFrequencyLabels[frequency]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <div className="space-y-3 rounded-md border border-gray-200 bg-gray-50/60 p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor={`${idPrefix}-interval`} className="text-sm font-normal text-gray-700">Every</Label>
+            <Input
+              id={`${idPrefix}-interval`} type="number" min={1} max={99} className="h-8 w-16"
+              value={value.interval} disabled={disabled}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+            <span className="text-gray-600">{unitLabels[value.frequency]}{value.interval === 1 ? '' : 's'}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Days of the week">
+              {weekdayInitials.map((initial, day) => {
+                const selected = value.byWeekday?.includes(day) ?? false;
+                return (
+                  <Button
+                    key={day} type="button" size="sm" variant={selected ? 'default' : 'outline'} disabled={disabled}
+                    className={`h-8 w-8 p-0 text-xs ${selected ? 'bg-momcare-primary hover:bg-momcare-dark' : ''}`}
+                    onClick={() => toggleWeekday(day)} aria-pressed={selected} aria-label={weekdayNames[day]}
+                  >
+                    {initial}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Label htmlFor={`${idPrefix}-ends`} className="text-sm font-normal text-gray-700">Ends</Label>
+            <Select value={endMode} onValueChange={handleEndModeChange} disabled={disabled}>
+              <SelectTrigger id={`${idPrefix}-ends`} className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="never">Never</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number" min={1} max={500} className="h-8 w-16" aria-label="Number of occurrences" disabled={disabled}
+                  value={value.count} onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                />
+                <span className="text-gray-600">times</span>
+              </>
+            )}
+            {endMode === 'until' && (
+              <Input
+                type="date" className="h-8 w-40" aria-label="Last day" disabled={disabled}
+                min={startDate ? format(startDate, 'yyyy-MM-dd') : undefined}
+                value={value.until ?? ''} onChange={(e) => e.target.value && onChange({ ...value, until: e.target.value })}
+              />
+            )}
+          </div>
+
+          <p className="flex items-center text-xs text-gray-500">
+            <Repeat className="mr-1.5 h-3.5 w-3.5" />{describeRecurrenceRule(value)}
+            {endMode === 'never' && ' (shown up to 6 months ahead)'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
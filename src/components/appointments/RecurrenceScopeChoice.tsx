@@ -0,0 +1,34 @@
+// src/components/appointments/RecurrenceScopeChoice.tsx
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { RecurrenceEditScope, recurrenceEditScopeLabels } from '@/lib/appointmentRecurrence';
+
+interface RecurrenceScopeChoiceProps {
+  value: RecurrenceEditScope;
+  onChange: (scope: RecurrenceEditScope) => void;
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+/** "This / this and following / all" choice shown when editing or deleting part of a recurring series. */
+const RecurrenceScopeChoice: React.FC<RecurrenceScopeChoiceProps> = ({ value, onChange, idPrefix, disabled }) => (
+  <RadioGroup
+    value={value}
+    onValueChange={(scope) => onChange(scope as RecurrenceEditScope)}
+    disabled={disabled}
+    className="gap-2 rounded-md border border-gray-200 bg-gray-50/60 p-3"
+    aria-label="Apply to"
+  >
+    {(Object.keys(recurrenceEditScopeLabels) as RecurrenceEditScope[]).map(scope => (
+      <div key={scope} className="flex items-center space-x-2">
+        <RadioGroupItem value={scope} id={`${idPrefix}-${scope}`} />
+        <Label htmlFor={`${idPrefix}-${scope}`} className="text-sm font-normal text-gray-700 cursor-pointer">
+          {recurrenceEditScopeLabels[scope]}
+        </Label>
+      </div>
+    ))}
+  </RadioGroup>
+);
+
+export default RecurrenceScopeChoice;
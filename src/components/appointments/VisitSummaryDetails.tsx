@@ -0,0 +1,67 @@
+// src/components/appointments/VisitSummaryDetails.tsx
+import React from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Activity, FileText, ListTodo, Stethoscope } from 'lucide-react';
+import { VisitSummary, MedicalDocument, getFilePreview, medicalBucketId } from '@/lib/appwrite';
+import { formatVisitVitals, parseVisitVitals } from '@/lib/visitSummary';
+import { PreferredUnits } from '@/lib/units';
+
+interface VisitSummaryDetailsProps {
+  summary: VisitSummary;
+  /** The patient's documents, to name and open the attached ones */
+  documents?: MedicalDocument[];
+  /** Units for the weight (default kg) */
+  units?: PreferredUnits;
+}
+
+/** The vitals, findings, next steps and attached documents of a visit summary. */
+const VisitSummaryDetails: React.FC<VisitSummaryDetailsProps> = ({ summary, documents = [], units }) => {
+  const vitals = formatVisitVitals(parseVisitVitals(summary.vitals), units);
+  const attached = (summary.documentIds ?? []).map(id => documents.find(doc => doc.$id === id));
+  const missingCount = attached.filter(doc => !doc).length;
+
+  const openDocument = (doc: MedicalDocument) => {
+    const url = medicalBucketId ? getFilePreview(doc.fileId, medicalBucketId) : null;
+    if (url) window.open(url.href, '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <div className="space-y-2 text-xs leading-5 text-gray-700">
+      {vitals.length > 0 && (
+        <div className="flex items-start gap-1.5">
+          <Activity className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+          <span>{vitals.join(' · ')}</span>
+        </div>
+      )}
+      {summary.findings && (
+        <div className="flex items-start gap-1.5">
+          <Stethoscope className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+          <p className="whitespace-pre-line"><span className="font-medium text-gray-800">Findings:</span> {summary.findings}</p>
+        </div>
+      )}
+      {summary.nextSteps && (
+        <div className="flex items-start gap-1.5">
+          <ListTodo className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+          <p className="whitespace-pre-line"><span className="font-medium text-gray-800">Next steps:</span> {summary.nextSteps}</p>
+        </div>
+      )}
+      {attached.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <FileText className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+          {attached.filter(Boolean).map(doc => (
+            <Button key={doc.$id} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => openDocument(doc)} title={doc.fileName}>
+              <span className="max-w-[10rem] truncate">{doc.fileName}</span>
+            </Button>
+          ))}
+          {missingCount > 0 && <span className="text-gray-400">{missingCount} document{missingCount === 1 ? '' : 's'} no longer available</span>}
+        </div>
+      )}
+      <p className="text-gray-400">
+        Written by {summary.authorName || 'a doctor'} {formatDistanceToNow(parseISO(summary.$updatedAt), { addSuffix: true })}
+      </p>
+    </div>
+  );
+};
+
+export default VisitSummaryDetails;
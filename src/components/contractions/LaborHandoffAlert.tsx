@@ -0,0 +1,64 @@
+// src/components/contractions/LaborHandoffAlert.tsx
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Siren, Phone, Share2, Hospital } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ActiveContractionSession, formatContractionSummary, getLaborRule } from '@/lib/contractionTimer';
+
+interface LaborHandoffAlertProps {
+    session: ActiveContractionSession;
+    /** Hide the "Find a hospital" link when already on the emergency page */
+    showHospitalLink?: boolean;
+}
+
+/**
+ * Prominent prompt shown once the timed contractions match the session's labor rule (e.g. 5-1-1),
+ * with one-tap actions to call emergency services, share the timing summary, or find a hospital.
+ */
+const LaborHandoffAlert: React.FC<LaborHandoffAlertProps> = ({ session, showHospitalLink = true }) => {
+    const { toast } = useToast();
+    const rule = getLaborRule(session.ruleId);
+
+    const handleShare = async () => {
+        const text = formatContractionSummary(session);
+        try {
+            if (navigator.share) {
+                await navigator.share({ title: 'Contraction update', text });
+            } else {
+                await navigator.clipboard.writeText(text);
+                toast({ title: "Copied", description: "Contraction summary copied. Paste it into a message to share it." });
+            }
+        } catch (error) {
+            // Closing the share sheet rejects with AbortError; nothing to report then
+            if (error instanceof Error && error.name === 'AbortError') return;
+            toast({ title: "Share Failed", description: "Could not share the contraction summary.", variant: "destructive" });
+        }
+    };
+
+    return (
+        <Alert variant="destructive" className="border-2 border-red-600 bg-red-50 p-5 rounded-lg shadow-lg">
+            <Siren className="h-6 w-6 text-red-600" />
+            <AlertTitle className="text-red-800 font-bold text-lg">Your contractions match the {rule.id} pattern</AlertTitle>
+            <AlertDescription className="text-red-700 mt-1 space-y-3">
+                <p>This is often the point to go to the hospital or call your provider. Go now if your waters have broken, you're bleeding, or your baby is moving less.</p>
+                <div className="flex flex-wrap gap-2">
+                    <Button asChild variant="destructive" size="sm">
+                        <a href="tel:102" aria-label="Call Emergency Services 102"><Phone className="mr-1.5 h-4 w-4" />Call 102</a>
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" className="border-red-300 text-red-700 hover:bg-red-100" onClick={handleShare}>
+                        <Share2 className="mr-1.5 h-4 w-4" />Share timing
+                    </Button>
+                    {showHospitalLink && (
+                        <Button asChild variant="outline" size="sm" className="border-red-300 text-red-700 hover:bg-red-100">
+                            <Link to="/emergency"><Hospital className="mr-1.5 h-4 w-4" />Find a hospital</Link>
+                        </Button>
+                    )}
+                </div>
+            </AlertDescription>
+        </Alert>
+    );
+};
+
+export default LaborHandoffAlert;
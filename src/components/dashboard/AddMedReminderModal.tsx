@@ -1,5 +1,5 @@
 // src/components/dashboard/AddMedReminderModal.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
     Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose
 } from "@/components/ui/dialog";
@@ -7,36 +7,74 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Plus, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { createMedicationReminder, CreateMedicationReminderData } from '@/lib/appwrite'; // Fixed: Import the type
+import { format } from 'date-fns';
+import { CreateMedicationReminderData, MedicationReminder } from '@/lib/appwrite'; // Fixed: Import the type
+import {
+    MedicationSchedule, MedicationScheduleType, medicationScheduleTypeLabels, weekdayLabels,
+    validateMedicationSchedule, describeMedicationSchedule, serializeMedicationSchedule,
+} from '@/lib/medicationSchedule';
+import { DrugSafetyContext, checkMedication, needsAttention } from '@/lib/drugSafety';
+import DrugSafetyNotice from './DrugSafetyNotice';
 
 interface AddMedReminderModalProps {
     isOpen: boolean;
     onClose: () => void;
     onSubmit: (data: CreateMedicationReminderData) => Promise<void>; // Fixed: Use the imported type directly
+    activeReminders?: MedicationReminder[]; // Checked for interactions with the new medication
+    safetyContext?: DrugSafetyContext; // Pregnancy or breastfeeding notes (defaults to pregnancy)
     // initialData?: MedicationReminder; // Add later for editing
 }
 
-const AddMedReminderModal: React.FC<AddMedReminderModalProps> = ({ isOpen, onClose, onSubmit }) => {
+const AddMedReminderModal: React.FC<AddMedReminderModalProps> = ({ isOpen, onClose, onSubmit, activeReminders = [], safetyContext = { stage: 'unknown' } }) => {
     const [medicationName, setMedicationName] = useState('');
     const [dosage, setDosage] = useState('');
-    const [frequency, setFrequency] = useState('');
+    const [scheduleType, setScheduleType] = useState<MedicationScheduleType>('daily');
     const [times, setTimes] = useState<string[]>(['']); // Start with one time input
+    const [everyHours, setEveryHours] = useState('8');
+    const [weekdays, setWeekdays] = useState<number[]>([]);
+    const [maxDosesPerDay, setMaxDosesPerDay] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
     const [notes, setNotes] = useState('');
+    const [quantityOnHand, setQuantityOnHand] = useState('');
+    const [dosePerIntake, setDosePerIntake] = useState('1');
+    const [refillThreshold, setRefillThreshold] = useState('');
     const [isSaving, setIsSaving] = useState(false);
+    const [safetyAcknowledged, setSafetyAcknowledged] = useState(false);
     const { toast } = useToast();
 
+    const safetyFindings = useMemo(
+        () => checkMedication(medicationName, activeReminders, safetyContext),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [medicationName, activeReminders, safetyContext.stage]
+    );
+    const safetyCautions = needsAttention(safetyFindings);
+
+    // A different medication means different notes to read
+    useEffect(() => { setSafetyAcknowledged(false); }, [safetyCautions.length, medicationName]);
+
     // Reset form when modal opens/closes
     useEffect(() => {
         if (isOpen) {
             setMedicationName('');
             setDosage('');
-            setFrequency('');
+            setScheduleType('daily');
             setTimes(['']);
+            setEveryHours('8');
+            setWeekdays([]);
+            setMaxDosesPerDay('');
+            setStartDate(format(new Date(), 'yyyy-MM-dd'));
+            setEndDate('');
             setNotes('');
+            setQuantityOnHand('');
+            setDosePerIntake('1');
+            setRefillThreshold('');
             setIsSaving(false);
+            setSafetyAcknowledged(false);
         }
     }, [isOpen]);
 
@@ -64,22 +102,57 @@ const AddMedReminderModal: React.FC<AddMedReminderModalProps> = ({ isOpen, onClo
         }
     };
 
+    const toggleWeekday = (day: number) => {
+        setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!medicationName || !dosage || !frequency) {
-            toast({ title: "Missing Required Fields", description: "Please fill in Medication Name, Dosage, and Frequency.", variant: "destructive" });
+        if (!medicationName || !dosage) {
+            toast({ title: "Missing Required Fields", description: "Please fill in Medication Name and Dosage.", variant: "destructive" });
             return;
         }
 
-        // Filter out empty time strings
+        // Filter out empty time strings; interval schedules only use the first dose time
         const validTimes = times.filter(time => time.trim() !== '');
+        const schedule: MedicationSchedule = {
+            type: scheduleType,
+            times: scheduleType === 'as_needed' ? [] : scheduleType === 'interval' ? validTimes.slice(0, 1) : validTimes,
+            everyHours: scheduleType === 'interval' ? parseInt(everyHours, 10) : undefined,
+            weekdays: scheduleType === 'weekdays' ? weekdays : undefined,
+            maxDosesPerDay: scheduleType === 'as_needed' && maxDosesPerDay ? Number(maxDosesPerDay) : undefined,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+        };
+        const scheduleError = validateMedicationSchedule(schedule);
+        if (scheduleError) {
+            toast({ title: "Invalid Schedule", description: scheduleError, variant: "destructive" });
+            return;
+        }
+
+        // Supply tracking is optional and only applies once a quantity on hand is entered
+        const supplyNumbers = [quantityOnHand, dosePerIntake, refillThreshold].map(v => v.trim() === '' ? undefined : Number(v));
+        if (supplyNumbers.some(n => n !== undefined && (!isFinite(n) || n < 0)) || supplyNumbers[1] === 0) {
+            toast({ title: "Invalid Supply", description: "Quantities must be positive numbers.", variant: "destructive" });
+            return;
+        }
+        const [stock, perIntake, threshold] = supplyNumbers;
+
+        if (safetyCautions.length > 0 && !safetyAcknowledged) {
+            toast({ title: "Please Review the Safety Notes", description: "Tick the box under the notes to confirm you've read them, then save again." });
+            return;
+        }
 
         const reminderData: CreateMedicationReminderData = {
             medicationName,
             dosage,
-            frequency,
-            times: validTimes.length > 0 ? validTimes : undefined, // Only include times if there are valid ones
+            frequency: describeMedicationSchedule(schedule).slice(0, 100), // Kept for older clients and exports
+            times: schedule.times.length > 0 ? schedule.times : undefined, // Only include times if there are valid ones
             notes: notes || undefined,
+            schedule: serializeMedicationSchedule(schedule),
+            quantityOnHand: stock,
+            dosePerIntake: stock !== undefined ? perIntake : undefined,
+            refillThreshold: stock !== undefined ? threshold : undefined,
         };
 
         setIsSaving(true);
@@ -96,7 +169,7 @@ const AddMedReminderModal: React.FC<AddMedReminderModalProps> = ({ isOpen, onClo
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
-            <DialogContent className="sm:max-w-[480px]">
+            <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle>Add Medication Reminder</DialogTitle>
                     <DialogDescription>
@@ -110,51 +183,112 @@ const AddMedReminderModal: React.FC<AddMedReminderModalProps> = ({ isOpen, onClo
                             <Label htmlFor="medName" className="text-right">Name*</Label>
                             <Input id="medName" value={medicationName} onChange={(e) => setMedicationName(e.target.value)} className="col-span-3" placeholder="e.g., Prenatal Vitamin" required />
                         </div>
+                        {/* Drug-safety notes for the name entered so far */}
+                        {safetyFindings.length > 0 && (
+                            <div className="space-y-2">
+                                <DrugSafetyNotice findings={safetyFindings} />
+                                {safetyCautions.length > 0 && (
+                                    <div className="flex items-start space-x-2">
+                                        <Checkbox id="safetyAcknowledged" checked={safetyAcknowledged} onCheckedChange={(checked) => setSafetyAcknowledged(checked === true)} className="mt-0.5" />
+                                        <Label htmlFor="safetyAcknowledged" className="text-xs font-normal leading-snug">I've read these notes and will check with my doctor or pharmacist.</Label>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                         {/* Dosage */}
                         <div className="grid grid-cols-4 items-center gap-4">
                             <Label htmlFor="dosage" className="text-right">Dosage*</Label>
                             <Input id="dosage" value={dosage} onChange={(e) => setDosage(e.target.value)} className="col-span-3" placeholder="e.g., 1 tablet, 10mg" required />
                         </div>
-                        {/* Frequency */}
+                        {/* Schedule */}
                         <div className="grid grid-cols-4 items-center gap-4">
-                            <Label htmlFor="frequency" className="text-right">Frequency*</Label>
-                            <Select value={frequency} onValueChange={setFrequency} required>
-                                <SelectTrigger id="frequency" className="col-span-3">
-                                    <SelectValue placeholder="Select frequency" />
+                            <Label htmlFor="scheduleType" className="text-right">Schedule*</Label>
+                            <Select value={scheduleType} onValueChange={(v) => setScheduleType(v as MedicationScheduleType)}>
+                                <SelectTrigger id="scheduleType" className="col-span-3">
+                                    <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="Daily">Daily</SelectItem>
-                                    <SelectItem value="Twice Daily">Twice Daily</SelectItem>
-                                    <SelectItem value="Three Times Daily">Three Times Daily</SelectItem>
-                                    <SelectItem value="Every Other Day">Every Other Day</SelectItem>
-                                    <SelectItem value="Weekly">Weekly</SelectItem>
-                                    <SelectItem value="As Needed">As Needed</SelectItem>
-                                    <SelectItem value="Other">Other (Specify in Notes)</SelectItem>
+                                    {(Object.keys(medicationScheduleTypeLabels) as MedicationScheduleType[]).map(type => (
+                                        <SelectItem key={type} value={type}>{medicationScheduleTypeLabels[type]}</SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
-                        {/* Times */}
-                        <div className="grid grid-cols-4 items-start gap-4">
-                            <Label className="text-right pt-2">Times</Label>
-                            <div className="col-span-3 space-y-2">
-                                {times.map((time, index) => (
-                                    <div key={index} className="flex items-center gap-2">
-                                        <Input
-                                            type="time" // Use time input for better UX
-                                            value={time}
-                                            onChange={(e) => handleTimeChange(index, e.target.value)}
-                                            className="flex-grow"
-                                            placeholder="HH:MM"
-                                            pattern="([01]?[0-9]|2[0-3]):[0-5][0-9]" // Basic pattern
-                                        />
-                                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-red-500 hover:bg-red-100" onClick={() => removeTimeInput(index)} aria-label="Remove time">
-                                            <X className="h-4 w-4" />
+                        {scheduleType === 'interval' && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="everyHours" className="text-right">Every</Label>
+                                <div className="col-span-3 flex items-center gap-2">
+                                    <Input id="everyHours" type="number" min={1} max={168} value={everyHours} onChange={(e) => setEveryHours(e.target.value)} className="w-24" />
+                                    <span className="text-sm text-gray-500">hours</span>
+                                </div>
+                            </div>
+                        )}
+                        {scheduleType === 'weekdays' && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label className="text-right">Days*</Label>
+                                <div className="col-span-3 flex flex-wrap gap-1">
+                                    {weekdayLabels.map((label, day) => (
+                                        <Button key={label} type="button" size="sm" variant={weekdays.includes(day) ? 'default' : 'outline'} className={`h-8 px-2 text-xs ${weekdays.includes(day) ? 'bg-momcare-primary hover:bg-momcare-dark' : ''}`} onClick={() => toggleWeekday(day)} aria-pressed={weekdays.includes(day)}>
+                                            {label}
                                         </Button>
-                                    </div>
-                                ))}
-                                <Button type="button" variant="outline" size="sm" onClick={addTimeInput} className="text-xs">
-                                    <Plus className="h-3 w-3 mr-1" /> Add Time
-                                </Button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {scheduleType === 'as_needed' ? (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="maxDoses" className="text-right">Max/day</Label>
+                                <Input id="maxDoses" type="number" min={1} value={maxDosesPerDay} onChange={(e) => setMaxDosesPerDay(e.target.value)} className="col-span-3" placeholder="Optional daily limit" />
+                            </div>
+                        ) : (
+                            /* Times */
+                            <div className="grid grid-cols-4 items-start gap-4">
+                                <Label className="text-right pt-2">{scheduleType === 'interval' ? 'First dose*' : 'Times*'}</Label>
+                                <div className="col-span-3 space-y-2">
+                                    {(scheduleType === 'interval' ? times.slice(0, 1) : times).map((time, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <Input
+                                                type="time" // Use time input for better UX
+                                                value={time}
+                                                onChange={(e) => handleTimeChange(index, e.target.value)}
+                                                className="flex-grow"
+                                                placeholder="HH:MM"
+                                                pattern="([01]?[0-9]|2[0-3]):[0-5][0-9]" // Basic pattern
+                                            />
+                                            {scheduleType !== 'interval' && (
+                                                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-red-500 hover:bg-red-100" onClick={() => removeTimeInput(index)} aria-label="Remove time">
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {scheduleType !== 'interval' && (
+                                        <Button type="button" variant="outline" size="sm" onClick={addTimeInput} className="text-xs">
+                                            <Plus className="h-3 w-3 mr-1" /> Add Time
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {/* Course dates */}
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="startDate" className="text-right">From</Label>
+                            <div className="col-span-3 flex items-center gap-2">
+                                <Input id="startDate" type="date" value={startDate} max={endDate || undefined} onChange={(e) => setStartDate(e.target.value)} />
+                                <span className="text-sm text-gray-500">to</span>
+                                <Input id="endDate" type="date" value={endDate} min={startDate || undefined} onChange={(e) => setEndDate(e.target.value)} aria-label="End date (optional)" />
+                            </div>
+                        </div>
+                        {/* Supply (optional refill tracking) */}
+                        <div className="grid grid-cols-4 items-start gap-4">
+                            <Label htmlFor="quantityOnHand" className="text-right pt-2">Supply</Label>
+                            <div className="col-span-3 space-y-1">
+                                <div className="grid grid-cols-3 gap-2">
+                                    <Input id="quantityOnHand" type="number" min={0} step="any" value={quantityOnHand} onChange={(e) => setQuantityOnHand(e.target.value)} placeholder="On hand" aria-label="Quantity on hand" />
+                                    <Input id="dosePerIntake" type="number" min={0} step="any" value={dosePerIntake} onChange={(e) => setDosePerIntake(e.target.value)} placeholder="Per dose" aria-label="Units per dose" disabled={!quantityOnHand} />
+                                    <Input id="refillThreshold" type="number" min={0} step="any" value={refillThreshold} onChange={(e) => setRefillThreshold(e.target.value)} placeholder="Refill at" aria-label="Refill when this many are left" disabled={!quantityOnHand} />
+                                </div>
+                                <p className="text-xs text-gray-500">Optional: tablets (or ml) on hand, used per dose, and when to remind you to refill.</p>
                             </div>
                         </div>
                         {/* Notes */}
@@ -0,0 +1,40 @@
+// src/components/dashboard/DrugSafetyNotice.tsx
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Info, ShieldAlert } from 'lucide-react';
+import { DrugSafetyFinding, DrugSafetySeverity, DRUG_SAFETY_DISCLAIMER, DRUG_SAFETY_REFERENCE_VERSION } from '@/lib/drugSafety';
+
+interface DrugSafetyNoticeProps {
+    findings: DrugSafetyFinding[];
+}
+
+const severityStyles: Record<DrugSafetySeverity, string> = {
+    info: 'bg-sky-50 border-sky-200 text-sky-900 dark:bg-sky-900/20 dark:border-sky-800 dark:text-sky-200',
+    caution: 'bg-amber-50 border-amber-300 text-amber-900 dark:bg-amber-900/20 dark:border-amber-700 dark:text-amber-200',
+    warning: 'bg-orange-50 border-orange-300 text-orange-900 dark:bg-orange-900/20 dark:border-orange-700 dark:text-orange-200',
+};
+
+/** Caution banners from the drug-safety reference (see lib/drugSafety.ts). Informational, never diagnostic. */
+const DrugSafetyNotice: React.FC<DrugSafetyNoticeProps> = ({ findings }) => {
+    if (findings.length === 0) return null;
+    return (
+        <div className="space-y-2">
+            {findings.map(finding => {
+                const Icon = finding.severity === 'warning' ? ShieldAlert : finding.severity === 'caution' ? AlertTriangle : Info;
+                return (
+                    <Alert key={finding.id} className={`border ${severityStyles[finding.severity]}`}>
+                        <Icon className="h-4 w-4" />
+                        <AlertTitle className="text-sm font-semibold">{finding.title}</AlertTitle>
+                        <AlertDescription className="text-xs space-y-1">
+                            <p>{finding.message}</p>
+                            {finding.severity !== 'info' && <p className="font-medium">Ask your doctor or pharmacist before making any changes.</p>}
+                        </AlertDescription>
+                    </Alert>
+                );
+            })}
+            <p className="text-xs text-gray-500 dark:text-gray-400">{DRUG_SAFETY_DISCLAIMER} Reference version {DRUG_SAFETY_REFERENCE_VERSION}.</p>
+        </div>
+    );
+};
+
+export default DrugSafetyNotice;
@@ -0,0 +1,159 @@
+// src/components/dashboard/EditReadingModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    updateBloodPressureReading, updateBloodSugarReading, updateWeightReading, offlineSync,
+} from '@/lib/appwrite';
+import type { BloodPressureReading, BloodSugarReading, WeightReading } from '@/lib/appwrite';
+import { toDateTimeInputValue, parseReadingTimeInput } from '@/lib/readingTime';
+import { PreferredUnits, DEFAULT_UNITS, glucoseForDisplay, glucoseForStorage } from '@/lib/units';
+
+/** Manual readings that can be corrected after saving (kick counts are timed sessions and are not editable). */
+export type EditableReading =
+    | { type: 'bp'; reading: BloodPressureReading }
+    | { type: 'sugar'; reading: BloodSugarReading }
+    | { type: 'weight'; reading: WeightReading };
+
+interface EditReadingModalProps {
+    editing: EditableReading | null;
+    onClose: () => void;
+    onReadingUpdated: () => void; // Ask the parent to refetch the readings
+    units?: PreferredUnits; // Blood sugar is edited in the user's glucose unit
+}
+
+const titles: Record<EditableReading['type'], string> = { bp: 'Blood Pressure', sugar: 'Blood Sugar', weight: 'Weight' };
+
+const EditReadingModal: React.FC<EditReadingModalProps> = ({ editing, onClose, onReadingUpdated, units = DEFAULT_UNITS }) => {
+    const { toast } = useToast();
+    const [recordedAt, setRecordedAt] = useState('');
+    const [systolic, setSystolic] = useState('');
+    const [diastolic, setDiastolic] = useState('');
+    const [level, setLevel] = useState('');
+    const [measurementType, setMeasurementType] = useState<BloodSugarReading['measurementType']>('fasting');
+    const [weight, setWeight] = useState('');
+    const [unit, setUnit] = useState<WeightReading['unit']>('kg');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Populate the form from the reading being edited
+    useEffect(() => {
+        if (!editing) return;
+        const { reading } = editing;
+        setRecordedAt(toDateTimeInputValue(reading.recordedAt || reading.$createdAt));
+        if (editing.type === 'bp') { setSystolic(String(editing.reading.systolic ?? '')); setDiastolic(String(editing.reading.diastolic ?? '')); }
+        if (editing.type === 'sugar') { setLevel(String(glucoseForDisplay(editing.reading.level ?? 0, units.glucose))); setMeasurementType(editing.reading.measurementType || 'fasting'); }
+        if (editing.type === 'weight') { setWeight(String(editing.reading.weight ?? '')); setUnit(editing.reading.unit || 'kg'); }
+        setIsSaving(false);
+    }, [editing, units.glucose]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        const time = parseReadingTimeInput(recordedAt);
+        if (time.error || !time.recordedAt) {
+            toast({ title: "Invalid Time", description: time.error || "Please enter when the reading was taken.", variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (editing.type === 'bp') {
+                const sysNum = parseInt(systolic, 10); const diaNum = parseInt(diastolic, 10);
+                if (isNaN(sysNum) || isNaN(diaNum) || sysNum <= 0 || diaNum <= 0) throw new Error("Please enter valid positive numbers for BP.");
+                await updateBloodPressureReading(editing.reading.$id, { systolic: sysNum, diastolic: diaNum, recordedAt: time.recordedAt });
+            } else if (editing.type === 'sugar') {
+                const levelNum = parseFloat(level);
+                if (isNaN(levelNum) || levelNum <= 0) throw new Error("Please enter a valid positive number for blood sugar.");
+                // Keep the stored mg/dL value unless it was changed, so a round trip through mmol/L doesn't drift
+                const unchanged = levelNum === glucoseForDisplay(editing.reading.level, units.glucose);
+                await updateBloodSugarReading(editing.reading.$id, { level: unchanged ? editing.reading.level : glucoseForStorage(levelNum, units.glucose), measurementType, recordedAt: time.recordedAt });
+            } else {
+                const weightNum = parseFloat(weight);
+                if (isNaN(weightNum) || weightNum <= 0) throw new Error("Please enter a valid positive number for weight.");
+                await updateWeightReading(editing.reading.$id, { weight: weightNum, unit, recordedAt: time.recordedAt });
+            }
+            toast({
+                title: "Reading Updated",
+                description: offlineSync.getStatus().online ? "Your changes have been saved." : "Saved on this device. It will sync when you're back online.",
+            });
+            onReadingUpdated();
+            onClose();
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not update the reading.";
+            toast({ title: "Update Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!editing} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+            <DialogContent className="sm:max-w-[420px]">
+                <DialogHeader>
+                    <DialogTitle>Edit {editing ? titles[editing.type] : ''} Reading</DialogTitle>
+                    <DialogDescription>Correct the value or the time the reading was taken.</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4 py-2">
+                    {editing?.type === 'bp' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1.5"><Label htmlFor="edit-systolic">Systolic (mmHg)</Label><Input id="edit-systolic" type="number" value={systolic} onChange={e => setSystolic(e.target.value)} disabled={isSaving} required /></div>
+                            <div className="space-y-1.5"><Label htmlFor="edit-diastolic">Diastolic (mmHg)</Label><Input id="edit-diastolic" type="number" value={diastolic} onChange={e => setDiastolic(e.target.value)} disabled={isSaving} required /></div>
+                        </div>
+                    )}
+                    {editing?.type === 'sugar' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1.5"><Label htmlFor="edit-level">Level ({units.glucose})</Label><Input id="edit-level" type="number" step="any" value={level} onChange={e => setLevel(e.target.value)} disabled={isSaving} required /></div>
+                            <div className="space-y-1.5">
+                                <Label>Type</Label>
+                                <Select value={measurementType} onValueChange={(v) => setMeasurementType(v as BloodSugarReading['measurementType'])} disabled={isSaving}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="fasting">Fasting</SelectItem>
+                                        <SelectItem value="post_meal">Post-Meal</SelectItem>
+                                        <SelectItem value="random">Random</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    )}
+                    {editing?.type === 'weight' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1.5"><Label htmlFor="edit-weight">Weight</Label><Input id="edit-weight" type="number" step="0.1" value={weight} onChange={e => setWeight(e.target.value)} disabled={isSaving} required /></div>
+                            <div className="space-y-1.5">
+                                <Label>Unit</Label>
+                                <Select value={unit} onValueChange={(v) => setUnit(v as WeightReading['unit'])} disabled={isSaving}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="kg">kg</SelectItem>
+                                        <SelectItem value="lbs">lbs</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    )}
+                    <div className="space-y-1.5">
+                        <Label htmlFor="edit-recordedAt">Taken at</Label>
+                        <Input id="edit-recordedAt" type="datetime-local" value={recordedAt} max={toDateTimeInputValue()} onChange={e => setRecordedAt(e.target.value)} disabled={isSaving} required />
+                    </div>
+                    <DialogFooter>
+                        <DialogClose asChild>
+                            <Button type="button" variant="outline" disabled={isSaving}>Cancel</Button>
+                        </DialogClose>
+                        <Button type="submit" disabled={isSaving}>
+                            {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : <><Save className="mr-2 h-4 w-4" /> Save Changes</>}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default EditReadingModal;
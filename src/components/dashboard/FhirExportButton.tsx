@@ -0,0 +1,57 @@
+// src/components/dashboard/FhirExportButton.tsx
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { FileJson, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    getUserProfile, getUserAppointments, getMedicationReminders, getUserMedicalDocuments, getFilePreview, medicalBucketId,
+    getAllBloodPressureReadings, getAllBloodSugarReadings, getAllWeightReadings,
+} from '@/lib/appwrite';
+import { buildFhirBundle } from '@/lib/fhirExport';
+import { downloadTextFile } from '@/lib/healthDataTransfer';
+
+interface FhirExportButtonProps {
+    userId: string;
+    /** Prefix for the downloaded file name */
+    fileNamePrefix?: string;
+}
+
+/** Downloads the full pregnancy record (profile, readings, appointments, medications, documents) as a FHIR R4 Bundle. */
+const FhirExportButton: React.FC<FhirExportButtonProps> = ({ userId, fileNamePrefix = 'momcare-record' }) => {
+    const { toast } = useToast();
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const [profile, bloodPressure, bloodSugar, weight, appointments, medications, documents] = await Promise.all([
+                getUserProfile(userId),
+                getAllBloodPressureReadings(userId), getAllBloodSugarReadings(userId), getAllWeightReadings(userId),
+                getUserAppointments(userId),
+                getMedicationReminders(userId, false), // Include stopped medications
+                getUserMedicalDocuments(userId),
+            ]);
+            const bundle = buildFhirBundle({
+                userId, profile, bloodPressure, bloodSugar, weight, appointments, medications, documents,
+                getDocumentUrl: (doc) => medicalBucketId ? getFilePreview(doc.fileId, medicalBucketId)?.href : undefined,
+            });
+            const fileName = `${fileNamePrefix}_fhir_${format(new Date(), 'yyyy-MM-dd')}.json`;
+            downloadTextFile(JSON.stringify(bundle, null, 2), fileName, 'application/fhir+json');
+            toast({ title: "FHIR Export Ready", description: `${bundle.entry.length} resources saved to ${fileName}.` });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not build the FHIR export.";
+            toast({ title: "Export Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || !userId} title="Full record as a FHIR R4 Bundle for import into an EHR">
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileJson className="mr-2 h-4 w-4" />}FHIR record
+        </Button>
+    );
+};
+
+export default FhirExportButton;
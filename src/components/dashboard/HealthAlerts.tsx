@@ -0,0 +1,47 @@
+// src/components/dashboard/HealthAlerts.tsx
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Siren, Info } from 'lucide-react';
+import { HealthAlert, AlertLevel, alertLevelColors } from '@/lib/clinicalThresholds';
+
+interface HealthAlertsProps {
+    alerts: HealthAlert[];
+    /** Shown under the alerts when the thresholds were adjusted by the user's doctor */
+    adjustedBy?: string | null;
+}
+
+const levelStyles: Record<Exclude<AlertLevel, 'ok'>, string> = {
+    caution: 'bg-amber-50 border-amber-300 text-amber-900 dark:bg-amber-900/20 dark:border-amber-700 dark:text-amber-200',
+    warning: 'bg-orange-50 border-orange-300 text-orange-900 dark:bg-orange-900/20 dark:border-orange-700 dark:text-orange-200',
+    urgent: 'bg-red-50 border-red-400 text-red-900 dark:bg-red-900/20 dark:border-red-700 dark:text-red-200',
+};
+
+/** Dashboard alerts for recent readings outside the clinical thresholds (see lib/clinicalThresholds.ts). */
+const HealthAlerts: React.FC<HealthAlertsProps> = ({ alerts, adjustedBy }) => {
+    if (alerts.length === 0) return null;
+    return (
+        <div className="space-y-2">
+            {alerts.map(alert => {
+                const Icon = alert.level === 'urgent' ? Siren : alert.level === 'warning' ? AlertTriangle : Info;
+                return (
+                    <Alert key={alert.id} className={`border ${levelStyles[alert.level as Exclude<AlertLevel, 'ok'>] ?? ''}`}>
+                        <Icon className="h-4 w-4" style={{ color: alertLevelColors[alert.level] }} />
+                        <AlertTitle className="text-sm font-semibold">
+                            {alert.title} - {alert.label}
+                            {alert.recordedAt && <span className="ml-2 text-xs font-normal opacity-75">{format(new Date(alert.recordedAt), 'MMM d, HH:mm')}</span>}
+                        </AlertTitle>
+                        <AlertDescription className="text-xs space-y-1">
+                            <p>{alert.message}</p>
+                            {alert.level === 'urgent' && <Link to="/emergency" className="underline font-medium">See emergency guidance</Link>}
+                        </AlertDescription>
+                    </Alert>
+                );
+            })}
+            {adjustedBy && <p className="text-xs text-gray-500 dark:text-gray-400">Thresholds adjusted for you by {adjustedBy}.</p>}
+        </div>
+    );
+};
+
+export default HealthAlerts;
@@ -0,0 +1,120 @@
+// src/components/dashboard/HealthDataTransferCard.tsx
+import React, { useState } from 'react';
+import { endOfDay, format, startOfDay, subMonths } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowDownUp, Download, Upload, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    getAllBloodPressureReadings, getAllBloodSugarReadings, getAllWeightReadings, ReadingDateRange,
+} from '@/lib/appwrite';
+import {
+    buildHealthReadingsExport, healthReadingsExportToCsv, healthReadingsExportToJson, getExportFileName, downloadTextFile,
+} from '@/lib/healthDataTransfer';
+import ImportReadingsModal from './ImportReadingsModal';
+import FhirExportButton from './FhirExportButton';
+import type { PreferredUnits } from '@/lib/units';
+
+interface HealthDataTransferCardProps {
+    userId: string;
+    /** Doctors can export a patient's readings but not import into their record */
+    allowImport?: boolean;
+    /** Prefix for downloaded file names, e.g. the patient's name */
+    fileNamePrefix?: string;
+    onReadingsImported?: () => void;
+    units?: PreferredUnits; // For the import preview; exports always use storage units
+}
+
+/** Export BP, blood sugar and weight readings for a date range as CSV/JSON (or the full FHIR record), and open the CSV importer. */
+const HealthDataTransferCard: React.FC<HealthDataTransferCardProps> = ({ userId, allowImport = true, fileNamePrefix, onReadingsImported, units }) => {
+    const { toast } = useToast();
+    const [fromDate, setFromDate] = useState(() => format(subMonths(new Date(), 3), 'yyyy-MM-dd'));
+    const [toDate, setToDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+    const [isExporting, setIsExporting] = useState<'csv' | 'json' | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const handleExport = async (kind: 'csv' | 'json') => {
+        // Dates are local calendar days; blank means open-ended
+        const range: ReadingDateRange = {
+            from: fromDate ? startOfDay(new Date(`${fromDate}T00:00`)).toISOString() : undefined,
+            to: toDate ? endOfDay(new Date(`${toDate}T00:00`)).toISOString() : undefined,
+        };
+        if (range.from && range.to && range.from > range.to) {
+            toast({ title: "Invalid Range", description: "The start date must be before the end date.", variant: "destructive" });
+            return;
+        }
+        setIsExporting(kind);
+        try {
+            const [bloodPressure, bloodSugar, weight] = await Promise.all([
+                getAllBloodPressureReadings(userId, range), getAllBloodSugarReadings(userId, range), getAllWeightReadings(userId, range),
+            ]);
+            const total = bloodPressure.length + bloodSugar.length + weight.length;
+            if (total === 0) {
+                toast({ title: "Nothing to Export", description: "No readings were logged in this date range." });
+                return;
+            }
+            const data = buildHealthReadingsExport({ bloodPressure, bloodSugar, weight }, range);
+            const fileName = getExportFileName(range, kind, fileNamePrefix);
+            if (kind === 'csv') downloadTextFile(healthReadingsExportToCsv(data), fileName, 'text/csv');
+            else downloadTextFile(healthReadingsExportToJson(data), fileName, 'application/json');
+            toast({ title: "Export Ready", description: `${total} reading${total === 1 ? '' : 's'} saved to ${fileName}.` });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not export readings.";
+            toast({ title: "Export Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsExporting(null);
+        }
+    };
+
+    return (
+        <Card className="border-momcare-primary/20">
+            <CardHeader>
+                <CardTitle className="flex items-center text-momcare-primary"><ArrowDownUp className="mr-2 h-5 w-5" />{allowImport ? 'Import & Export Health Data' : 'Export Health Data'}</CardTitle>
+                <CardDescription>
+                    Download blood pressure, blood sugar and weight readings as CSV (for spreadsheets) or JSON, or the full record as a FHIR R4 bundle.
+                    {allowImport && ' You can also import readings tracked elsewhere.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1.5">
+                        <Label htmlFor="export-from">From</Label>
+                        <Input id="export-from" type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} disabled={!!isExporting} />
+                    </div>
+                    <div className="space-y-1.5">
+                        <Label htmlFor="export-to">To</Label>
+                        <Input id="export-to" type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} disabled={!!isExporting} />
+                    </div>
+                </div>
+                <p className="text-xs text-muted-foreground">Clear a date to export everything before or after the other one. The FHIR record (for EHR systems) always covers the full history.</p>
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!!isExporting || !userId}>
+                        {isExporting === 'csv' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}CSV
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={!!isExporting || !userId}>
+                        {isExporting === 'json' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}JSON
+                    </Button>
+                    <FhirExportButton userId={userId} fileNamePrefix={fileNamePrefix} />
+                    {allowImport && (
+                        <Button size="sm" className="bg-momcare-primary hover:bg-momcare-dark ml-auto" onClick={() => setIsImportOpen(true)} disabled={!userId}>
+                            <Upload className="mr-2 h-4 w-4" />Import from file
+                        </Button>
+                    )}
+                </div>
+            </CardContent>
+            {allowImport && (
+                <ImportReadingsModal
+                    userId={userId}
+                    isOpen={isImportOpen}
+                    onClose={() => setIsImportOpen(false)}
+                    onReadingsImported={() => onReadingsImported?.()}
+                    units={units}
+                />
+            )}
+        </Card>
+    );
+};
+
+export default HealthDataTransferCard;
@@ -0,0 +1,274 @@
+// src/components/dashboard/ImportReadingsModal.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Upload, FileSpreadsheet } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    createBloodPressureReading, createBloodSugarReading, createWeightReading,
+    getAllBloodPressureReadings, getAllBloodSugarReadings, getAllWeightReadings,
+    CreateBPData, CreateSugarData, CreateWeightData,
+} from '@/lib/appwrite';
+import {
+    TransferReadingType, transferReadingTypeLabels, ColumnMapping, DateOrder, ImportPreviewRow,
+    importFieldDefinitions, parseImportFile, guessReadingType, guessColumnMapping, getMissingRequiredFields, buildImportPreview,
+} from '@/lib/healthDataTransfer';
+import { PreferredUnits, DEFAULT_UNITS, formatGlucose, formatWeight } from '@/lib/units';
+
+interface ImportReadingsModalProps {
+    userId: string;
+    isOpen: boolean;
+    onClose: () => void;
+    onReadingsImported: () => void; // Ask the parent to refetch the readings
+    units?: PreferredUnits; // Preview units; glucose without a stated unit is read in this unit
+}
+
+/** Rows shown in the preview table; the summary counts always cover the whole file. */
+const PREVIEW_ROW_LIMIT = 100;
+const NO_COLUMN = 'none';
+
+const fetchExistingReadings: Record<TransferReadingType, (userId: string) => Promise<{ recordedAt: string }[]>> = {
+    bp: getAllBloodPressureReadings,
+    sugar: getAllBloodSugarReadings,
+    weight: getAllWeightReadings,
+};
+
+const saveImportedReading = (userId: string, type: TransferReadingType, row: ImportPreviewRow): Promise<unknown> => {
+    if (type === 'bp') return createBloodPressureReading(userId, row.data as CreateBPData);
+    if (type === 'sugar') return createBloodSugarReading(userId, row.data as CreateSugarData);
+    return createWeightReading(userId, row.data as CreateWeightData);
+};
+
+/** Imports readings from a CSV (or MomCare JSON export): pick file, map columns, preview, then save. */
+const ImportReadingsModal: React.FC<ImportReadingsModalProps> = ({ userId, isOpen, onClose, onReadingsImported, units = DEFAULT_UNITS }) => {
+    const { toast } = useToast();
+    const [fileName, setFileName] = useState('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [readingType, setReadingType] = useState<TransferReadingType>('bp');
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [dateOrder, setDateOrder] = useState<DateOrder>('mdy');
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
+    const [existingRecordedAt, setExistingRecordedAt] = useState<string[] | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [progress, setProgress] = useState(0);
+
+    const headers = useMemo(() => rows[0] ?? [], [rows]);
+    const dataRows = useMemo(() => rows.slice(1), [rows]);
+
+    // Start from a clean slate each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setFileName(''); setRows([]); setMapping({}); setExistingRecordedAt(null); setProgress(0); setIsImporting(false);
+    }, [isOpen]);
+
+    // Existing readings of the chosen type, for duplicate detection
+    useEffect(() => {
+        if (!isOpen || !userId || rows.length === 0) return;
+        let cancelled = false;
+        setExistingRecordedAt(null);
+        fetchExistingReadings[readingType](userId)
+            .then(readings => { if (!cancelled) setExistingRecordedAt(readings.map(r => r.recordedAt)); })
+            .catch(() => { if (!cancelled) setExistingRecordedAt([]); });
+        return () => { cancelled = true; };
+    }, [isOpen, userId, readingType, rows.length]);
+
+    const preview = useMemo<ImportPreviewRow[]>(() => {
+        if (dataRows.length === 0 || getMissingRequiredFields(readingType, mapping).length > 0) return [];
+        return buildImportPreview(readingType, headers, dataRows, mapping, { dateOrder, existingRecordedAt: existingRecordedAt ?? [], defaultGlucoseUnit: units.glucose });
+    }, [readingType, headers, dataRows, mapping, dateOrder, existingRecordedAt, units.glucose]);
+
+    const counts = useMemo(() => ({
+        valid: preview.filter(r => r.data && !r.duplicate).length,
+        duplicates: preview.filter(r => r.data && r.duplicate).length,
+        errors: preview.filter(r => r.error).length,
+        skipped: preview.filter(r => r.skipped).length,
+    }), [preview]);
+    const rowsToImport = preview.filter(r => r.data && (!skipDuplicates || !r.duplicate));
+    const missingFields = getMissingRequiredFields(readingType, mapping);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const parsed = parseImportFile(file.name, await file.text());
+            if (parsed.length < 2) throw new Error("The file has no readings below the header row.");
+            const type = guessReadingType(parsed[0]);
+            setFileName(file.name); setRows(parsed); setReadingType(type); setMapping(guessColumnMapping(type, parsed[0]));
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not read the file.";
+            toast({ title: "Import Failed", description: msg, variant: "destructive" });
+            setFileName(''); setRows([]);
+        }
+        e.target.value = ''; // Allow picking the same file again after fixing it
+    };
+
+    const handleTypeChange = (type: TransferReadingType) => {
+        setReadingType(type);
+        setMapping(guessColumnMapping(type, headers));
+    };
+
+    const handleImport = async () => {
+        if (rowsToImport.length === 0) return;
+        setIsImporting(true); setProgress(0);
+        let saved = 0; let failed = 0;
+        // One at a time so a large file doesn't flood the API (or the offline queue)
+        for (const row of rowsToImport) {
+            try { await saveImportedReading(userId, readingType, row); saved++; }
+            catch { failed++; }
+            setProgress(saved + failed);
+        }
+        setIsImporting(false);
+        if (saved > 0) onReadingsImported();
+        toast({
+            title: failed === 0 ? "Import Complete" : "Import Finished With Errors",
+            description: `${saved} ${transferReadingTypeLabels[readingType]} reading${saved === 1 ? '' : 's'} imported${failed ? `, ${failed} failed` : ''}.`,
+            variant: failed > 0 && saved === 0 ? "destructive" : "default",
+        });
+        if (failed === 0) onClose();
+    };
+
+    const statusBadge = (row: ImportPreviewRow) => {
+        if (row.skipped) return <Badge variant="outline" className="text-gray-500">Other type</Badge>;
+        if (row.error) return <Badge variant="destructive" title={row.error}>{row.error}</Badge>;
+        if (row.duplicate) return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Duplicate</Badge>;
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">Ready</Badge>;
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isImporting) onClose(); }}>
+            <DialogContent className="sm:max-w-[760px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2"><FileSpreadsheet className="h-5 w-5 text-momcare-primary" />Import Health Readings</DialogTitle>
+                    <DialogDescription>Bring in readings from a spreadsheet or glucose-meter export (CSV), or a MomCare JSON export. Nothing is saved until you confirm.</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-1.5">
+                        <Label htmlFor="import-file">File</Label>
+                        <Input id="import-file" type="file" accept=".csv,.txt,.json,text/csv,application/json" onChange={handleFileChange} disabled={isImporting} />
+                        {fileName && <p className="text-xs text-muted-foreground">{fileName}: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}, {headers.length} column{headers.length === 1 ? '' : 's'}</p>}
+                    </div>
+
+                    {rows.length > 0 && (
+                        <>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <Label>Reading type</Label>
+                                    <Select value={readingType} onValueChange={(v) => handleTypeChange(v as TransferReadingType)} disabled={isImporting}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            {(Object.keys(transferReadingTypeLabels) as TransferReadingType[]).map(type => (
+                                                <SelectItem key={type} value={type}>{transferReadingTypeLabels[type]}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-1.5">
+                                    <Label>Dates like 03/04/2024 mean</Label>
+                                    <Select value={dateOrder} onValueChange={(v) => setDateOrder(v as DateOrder)} disabled={isImporting}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="mdy">March 4 (month first)</SelectItem>
+                                            <SelectItem value="dmy">3 April (day first)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <h4 className="text-sm font-medium mb-2">Columns</h4>
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                                    {importFieldDefinitions[readingType].map(def => (
+                                        <div key={def.field} className="space-y-1">
+                                            <Label className="text-xs">{def.field === 'sugarUnit' ? `Unit (default ${units.glucose})` : def.label}{def.required && <span className="text-red-500"> *</span>}</Label>
+                                            <Select
+                                                value={mapping[def.field] === undefined ? NO_COLUMN : String(mapping[def.field])}
+                                                onValueChange={(v) => setMapping(prev => ({ ...prev, [def.field]: v === NO_COLUMN ? undefined : Number(v) }))}
+                                                disabled={isImporting}
+                                            >
+                                                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                                                    {headers.map((header, index) => <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>)}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    ))}
+                                </div>
+                                {missingFields.length > 0 && <p className="text-xs text-red-600 mt-2">Choose a column for: {missingFields.map(f => f.label).join(', ')}.</p>}
+                            </div>
+
+                            {preview.length > 0 && (
+                                <div className="space-y-2">
+                                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                                        <Badge variant="secondary" className="bg-green-100 text-green-800">{counts.valid} ready</Badge>
+                                        <Badge variant="secondary" className="bg-amber-100 text-amber-800">{counts.duplicates} duplicate{counts.duplicates === 1 ? '' : 's'}</Badge>
+                                        <Badge variant="secondary" className="bg-red-100 text-red-800">{counts.errors} with errors</Badge>
+                                        {counts.skipped > 0 && <Badge variant="outline">{counts.skipped} other type</Badge>}
+                                        {existingRecordedAt === null && <span className="flex items-center text-muted-foreground"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Checking for duplicates...</span>}
+                                    </div>
+                                    <ScrollArea className="h-56 border rounded-md">
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead className="w-12">Row</TableHead>
+                                                    <TableHead>Taken at</TableHead>
+                                                    <TableHead>Value</TableHead>
+                                                    <TableHead>Status</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {preview.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                                                    <TableRow key={row.rowNumber} className={row.error ? 'bg-red-50/50' : row.skipped ? 'opacity-60' : ''}>
+                                                        <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                                                        <TableCell className="text-xs">{row.recordedAt ? new Date(row.recordedAt).toLocaleString() : '-'}</TableCell>
+                                                        <TableCell className="text-xs">
+                                                            {row.data && 'systolic' in row.data && `${row.data.systolic}/${row.data.diastolic} mmHg`}
+                                                            {row.data && 'level' in row.data && `${formatGlucose(row.data.level, units.glucose)} (${row.data.measurementType.replace('_', '-')})`}
+                                                            {row.data && 'weight' in row.data && formatWeight(row.data.weight, row.data.unit, units.weight)}
+                                                            {!row.data && '-'}
+                                                        </TableCell>
+                                                        <TableCell>{statusBadge(row)}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </ScrollArea>
+                                    {preview.length > PREVIEW_ROW_LIMIT && <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROW_LIMIT} of {preview.length} rows.</p>}
+                                    <div className="flex items-center space-x-2">
+                                        <Checkbox id="import-skip-duplicates" checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} disabled={isImporting} />
+                                        <Label htmlFor="import-skip-duplicates" className="text-sm font-normal">Skip readings already logged at the same time</Label>
+                                    </div>
+                                    {isImporting && <Progress value={(progress / rowsToImport.length) * 100} className="h-2" />}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="outline" disabled={isImporting}>Cancel</Button>
+                    </DialogClose>
+                    <Button type="button" onClick={handleImport} disabled={isImporting || rowsToImport.length === 0 || existingRecordedAt === null}>
+                        {isImporting
+                            ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Importing {progress}/{rowsToImport.length}...</>
+                            : <><Upload className="mr-2 h-4 w-4" /> Import {rowsToImport.length} Reading{rowsToImport.length === 1 ? '' : 's'}</>}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default ImportReadingsModal;
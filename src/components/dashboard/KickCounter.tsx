@@ -0,0 +1,169 @@
+// src/components/dashboard/KickCounter.tsx
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Footprints, Play, Square, X, Loader2, AlertTriangle, Timer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createKickCountReading, offlineSync } from '@/lib/appwrite';
+import type { KickCountReading } from '@/lib/appwrite';
+import {
+    KICK_TARGET, KICK_SESSION_LIMIT_SECONDS,
+    assessKickSession, assessLatestKickSession, getKickBaseline, formatKickDuration,
+    KickSessionAssessment,
+} from '@/lib/kickCounter';
+
+interface KickCounterProps {
+    userId: string | undefined;
+    history: KickCountReading[];
+    onSessionSaved: () => void; // Ask the parent to refetch the history
+}
+
+// Elapsed time as mm:ss (or h:mm:ss) for the running timer
+const formatElapsed = (totalSeconds: number): string => {
+    const h = Math.floor(totalSeconds / 3600);
+    const m = Math.floor((totalSeconds % 3600) / 60);
+    const s = totalSeconds % 60;
+    const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+/**
+ * Tap-to-count fetal movement session ("count to 10").
+ * Times how long it takes to feel KICK_TARGET movements, saves the session as a kick-count reading,
+ * and warns when it took notably longer than the user's own baseline.
+ */
+const KickCounter: React.FC<KickCounterProps> = ({ userId, history, onSessionSaved }) => {
+    const { toast } = useToast();
+    const [startedAt, setStartedAt] = useState<Date | null>(null);
+    const [kicks, setKicks] = useState(0);
+    const [lastKickAt, setLastKickAt] = useState<Date | null>(null);
+    const [now, setNow] = useState(() => new Date());
+    const [isSaving, setIsSaving] = useState(false);
+    // Assessment of the session saved on this screen; falls back to the latest saved session otherwise
+    const [sessionAssessment, setSessionAssessment] = useState<KickSessionAssessment | null>(null);
+
+    const baselineSeconds = useMemo(() => getKickBaseline(history), [history]);
+    const latestAssessment = useMemo(() => assessLatestKickSession(history), [history]);
+    const assessment = sessionAssessment ?? latestAssessment;
+
+    // Tick once a second while a session is running
+    useEffect(() => {
+        if (!startedAt) return;
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, [startedAt]);
+
+    const elapsedSeconds = startedAt ? Math.max(0, Math.floor((now.getTime() - startedAt.getTime()) / 1000)) : 0;
+    const overLimit = !!startedAt && kicks < KICK_TARGET && elapsedSeconds >= KICK_SESSION_LIMIT_SECONDS;
+
+    const resetSession = () => { setStartedAt(null); setKicks(0); setLastKickAt(null); };
+
+    const finishSession = useCallback(async (kickCount: number, endedAt: Date) => {
+        if (!startedAt || !userId || isSaving) return;
+        // Completed sessions are timed to the last movement; stopped sessions to when counting stopped
+        const durationSeconds = Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+        setIsSaving(true);
+        try {
+            await createKickCountReading(userId, { kickCount, durationSeconds, startedAt: startedAt.toISOString() });
+            const result = assessKickSession({ kickCount, durationSeconds }, baselineSeconds);
+            setSessionAssessment(result);
+            toast({
+                title: "Session Saved",
+                description: `${kickCount} movement${kickCount === 1 ? '' : 's'} in ${formatKickDuration(durationSeconds)}.${offlineSync.getStatus().online ? '' : " It will sync when you're back online."}`,
+            });
+            resetSession();
+            onSessionSaved();
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save the kick count session.";
+            toast({ title: "Save Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    }, [startedAt, userId, isSaving, baselineSeconds, toast, onSessionSaved]);
+
+    const handleStart = () => {
+        const start = new Date();
+        setSessionAssessment(null);
+        setStartedAt(start); setNow(start); setKicks(0); setLastKickAt(null);
+    };
+
+    const handleKick = () => {
+        if (!startedAt || isSaving) return;
+        const at = new Date();
+        const next = kicks + 1;
+        setKicks(next); setLastKickAt(at);
+        if (next >= KICK_TARGET) finishSession(next, at);
+    };
+
+    const handleStop = () => {
+        if (kicks === 0) { resetSession(); return; } // Nothing counted, nothing to save
+        finishSession(kicks, kicks >= KICK_TARGET && lastKickAt ? lastKickAt : new Date());
+    };
+
+    return (
+        <Card className="border border-purple-200 shadow-sm bg-white dark:bg-gray-800 dark:border-gray-700">
+            <CardHeader className="p-4 bg-purple-50/50 border-b border-purple-200 dark:bg-gray-700/30 dark:border-gray-600">
+                <CardTitle className="flex items-center text-purple-700 dark:text-purple-300 text-lg font-semibold">
+                    <Footprints className="mr-2 h-5 w-5" />Kick Counter
+                </CardTitle>
+                <CardDescription className="text-xs">
+                    Count your baby's movements at a time they're usually active. Most providers suggest daily counts from around 28 weeks.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 space-y-4">
+                {startedAt ? (
+                    <div className="space-y-3">
+                        <div className="flex justify-between items-baseline text-sm">
+                            <span className="font-semibold text-gray-800 dark:text-gray-200">{kicks} / {KICK_TARGET} movements</span>
+                            <span className="flex items-center text-gray-600 dark:text-gray-400 tabular-nums"><Timer className="mr-1 h-4 w-4" />{formatElapsed(elapsedSeconds)}</span>
+                        </div>
+                        <Progress value={(kicks / KICK_TARGET) * 100} className="h-2 [&>*]:bg-purple-500" aria-label={`${kicks} of ${KICK_TARGET} movements`} />
+                        <Button type="button" onClick={handleKick} disabled={isSaving} className="w-full h-20 text-lg bg-purple-600 hover:bg-purple-700 text-white">
+                            {isSaving ? <Loader2 className="h-6 w-6 animate-spin" /> : <><Footprints className="mr-2 h-6 w-6" />Tap for each movement</>}
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleStop} disabled={isSaving}>
+                                <Square className="mr-1.5 h-3.5 w-3.5" />Stop &amp; save
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={resetSession} disabled={isSaving} aria-label="Discard session">
+                                <X className="mr-1.5 h-3.5 w-3.5" />Discard
+                            </Button>
+                        </div>
+                        {overLimit && (
+                            <p className="text-xs text-red-600 dark:text-red-400">
+                                It has been over {formatKickDuration(KICK_SESSION_LIMIT_SECONDS)} without {KICK_TARGET} movements. Please stop and save, then contact your doctor or maternity unit.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        <Button type="button" onClick={handleStart} disabled={!userId} className="w-full bg-purple-600 hover:bg-purple-700 text-white">
+                            <Play className="mr-2 h-4 w-4" />Start counting
+                        </Button>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            {baselineSeconds !== null
+                                ? `Your usual time to ${KICK_TARGET} movements: ${formatKickDuration(baselineSeconds)}`
+                                : `Your usual time to ${KICK_TARGET} movements will appear after a few sessions.`}
+                        </p>
+                    </div>
+                )}
+
+                {assessment?.message && !startedAt && (
+                    <Alert variant="destructive" className="bg-red-50 dark:bg-red-900/20">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle className="text-sm">Baby's movements have changed</AlertTitle>
+                        <AlertDescription className="text-xs space-y-1">
+                            <p>{assessment.message}</p>
+                            <Link to="/emergency" className="underline font-medium">See emergency guidance</Link>
+                        </AlertDescription>
+                    </Alert>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default KickCounter;
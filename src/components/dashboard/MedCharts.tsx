@@ -2,36 +2,55 @@
 import React, { useState, useCallback } from 'react'; // Added useState, useCallback
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 // Removed Progress import as it's not used here
-import { Loader2, Trash2 } from 'lucide-react'; // Added Trash2
+import { Loader2, Trash2, CloudOff, Pencil } from 'lucide-react'; // Added Trash2
 import { format } from 'date-fns';
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
 import {
-    HeartPulse, Droplet, Scale, BarChart3, List,
+    HeartPulse, Droplet, Scale, BarChart3, List, Footprints,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast'; // Added useToast
 
 // Assuming these types are defined in '@/lib/appwrite' or a shared types file
-import type { BloodPressureReading, BloodSugarReading, WeightReading } from '@/lib/appwrite';
+import type { BloodPressureReading, BloodSugarReading, WeightReading, KickCountReading, UserProfile } from '@/lib/appwrite';
+import { groupKickSessionsByDay, formatKickDuration, KICK_TARGET } from '@/lib/kickCounter';
+import EditReadingModal, { EditableReading } from './EditReadingModal';
+import {
+    AlertLevel, ReadingClassification, ClinicalThresholds, DEFAULT_CLINICAL_THRESHOLDS, alertLevelColors,
+    classifyBloodPressure, classifyBloodSugar, assessWeeklyWeightGain,
+} from '@/lib/clinicalThresholds';
+import {
+    PreferredUnits, DEFAULT_UNITS, getPreferredUnits, formatBloodSugarReading, formatWeightReading,
+    normalizeBloodSugarReadings, normalizeWeightReadings,
+} from '@/lib/units';
 
 // --- ASSUMPTION: Import delete functions from appwrite ---
 import {
     deleteBloodPressureReading,
     deleteBloodSugarReading,
     deleteWeightReading,
+    deleteKickCountReading,
     // Make sure these exist and are exported from '@/lib/appwrite'
+    offlineSync,
+    canEditHealthReading,
 } from '@/lib/appwrite';
 
+type ReadingType = 'bp' | 'sugar' | 'weight' | 'kicks';
+const readingTypeLabels: Record<ReadingType, string> = { bp: 'BP', sugar: 'SUGAR', weight: 'WEIGHT', kicks: 'kick count' };
+
 // --- Helper component for displaying health readings in a list ---
 interface ReadingListItemProps {
     reading: any; // Use specific types if possible
-    type: 'bp' | 'sugar' | 'weight';
-    onDelete: (id: string, type: 'bp' | 'sugar' | 'weight') => void; // Callback for delete
+    type: ReadingType;
+    onDelete: (id: string, type: ReadingType) => void; // Callback for delete
+    onEdit?: (reading: EditableReading['reading'], type: ReadingType) => void; // Callback for edit (omitted for non-editable types)
+    classification?: ReadingClassification; // Threshold result, flagged when not 'ok'
+    units?: PreferredUnits; // Display units for sugar and weight
     isDeleting: boolean; // To show loading/disable button
 }
 
-const ReadingListItem: React.FC<ReadingListItemProps> = ({ reading, type, onDelete, isDeleting }) => {
+const ReadingListItem: React.FC<ReadingListItemProps> = ({ reading, type, onDelete, onEdit, classification, units = DEFAULT_UNITS, isDeleting }) => {
     // Use recordedAt if available, otherwise fallback to $createdAt
     const dateToFormat = reading.recordedAt ? new Date(reading.recordedAt) : new Date(reading.$createdAt);
     let formattedDate = "Invalid Date";
@@ -39,6 +58,11 @@ const ReadingListItem: React.FC<ReadingListItemProps> = ({ reading, type, onDele
         formattedDate = format(dateToFormat, 'MMM d, HH:mm'); // Shortened format for list
     }
 
+    // Saved on this device but not yet replayed to the server (see offlineSync in '@/lib/appwrite')
+    const isPendingSync = reading?.$id ? offlineSync.isPending(reading.$id) : false;
+    // Readings saved before editing was added can only be deleted and logged again
+    const isEditable = canEditHealthReading(reading);
+
     let value = '';
     let unit = '';
 
@@ -47,11 +71,13 @@ const ReadingListItem: React.FC<ReadingListItemProps> = ({ reading, type, onDele
             value = `${reading.systolic}/${reading.diastolic}`;
             unit = 'mmHg';
         } else if (type === 'sugar' && reading.level !== undefined) {
-            value = `${reading.level}`;
-            unit = `mg/dL ${reading.measurementType ? `(${reading.measurementType})` : ''}`.trim();
+            value = formatBloodSugarReading(reading, units); // Stored in mg/dL
+            unit = reading.measurementType ? `(${reading.measurementType})` : '';
         } else if (type === 'weight' && reading.weight !== undefined) {
-            value = `${reading.weight}`;
-            unit = reading.unit || ''; // Show unit if available
+            value = formatWeightReading(reading, units); // Converted from the unit it was entered in
+        } else if (type === 'kicks' && reading.kickCount !== undefined) {
+            value = `${reading.kickCount}`;
+            unit = `movement${reading.kickCount === 1 ? '' : 's'} in ${formatKickDuration(reading.durationSeconds ?? 0)}${reading.kickCount < KICK_TARGET ? ' (stopped early)' : ''}`;
         } else {
             value = 'N/A'; // Indicate missing data clearly
         }
@@ -71,9 +97,28 @@ const ReadingListItem: React.FC<ReadingListItemProps> = ({ reading, type, onDele
     return (
         <div className="flex justify-between items-center py-1.5 border-b last:border-b-0 text-xs group"> {/* Added group */}
             <div className="flex-grow mr-2"> {/* Wrap text */}
-                <span className="text-gray-500 block">{formattedDate}</span> {/* Make date block */}
+                <span className="text-gray-500 flex items-center gap-1">
+                    {formattedDate}
+                    {isPendingSync && <span title="Saved on this device, waiting to sync"><CloudOff className="h-3 w-3 text-amber-500" aria-label="Waiting to sync" /></span>}
+                </span> {/* Make date block */}
                 <span className="font-medium text-gray-700">{value} {unit}</span>
+                {classification && classification.level !== 'ok' && (
+                    <span className="ml-1.5 font-semibold" style={{ color: alertLevelColors[classification.level] }} title={classification.message ?? undefined}>
+                        {classification.label}
+                    </span>
+                )}
             </div>
+            {onEdit && (
+                <button
+                    onClick={() => onEdit(reading, type)}
+                    disabled={isDeleting || !isEditable}
+                    className="p-1 text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={`Edit ${type} reading from ${formattedDate}`}
+                    title={isEditable ? "Edit this reading" : "This reading was saved before editing was available. Delete it and log it again to correct it."}
+                >
+                    <Pencil className="h-3.5 w-3.5" />
+                </button>
+            )}
             <button
                 onClick={handleDeleteClick}
                 disabled={isDeleting}
@@ -101,9 +146,10 @@ interface HealthChartProps {
     name: string | string[];
     color: string | string[];
     height?: number; // Allow custom height
+    getPointLevel?: (point: { $id?: string }) => AlertLevel; // Colors points outside the clinical thresholds
 }
 
-const HealthChart: React.FC<HealthChartProps> = ({ data, dataKey, unit, name, color, height = 200 }) => {
+const HealthChart: React.FC<HealthChartProps> = ({ data, dataKey, unit, name, color, height = 200, getPointLevel }) => {
     // Ensure data is sorted chronologically and formatted for the chart
     const formattedData = data
         .map(d => {
@@ -118,6 +164,14 @@ const HealthChart: React.FC<HealthChartProps> = ({ data, dataKey, unit, name, co
         return <p className="text-xs text-gray-400 text-center py-8">No chart data available.</p>;
     }
 
+    // Flagged points are drawn larger in the alert color; the rest use the series color
+    const renderDot = (seriesColor: string) => (props: { cx?: number; cy?: number; index?: number; payload?: { $id?: string } }) => {
+        if (props.cx == null || props.cy == null) return <g key={`dot-${props.index}`} />;
+        const level = getPointLevel && props.payload ? getPointLevel(props.payload) : 'ok';
+        const flagged = level !== 'ok';
+        return <circle key={`dot-${props.index}`} cx={props.cx} cy={props.cy} r={flagged ? 3.5 : 2} fill={flagged ? alertLevelColors[level] : seriesColor} stroke={flagged ? '#ffffff' : 'none'} strokeWidth={flagged ? 1 : 0} />;
+    };
+
     // Determine Y-axis domain dynamically to prevent squeezing
     const allValues = formattedData.flatMap(item =>
         Array.isArray(dataKey) ? dataKey.map(key => item[key]) : [item[dataKey]]
@@ -172,7 +226,7 @@ const HealthChart: React.FC<HealthChartProps> = ({ data, dataKey, unit, name, co
                             name={Array.isArray(name) ? name[index] : name}
                             stroke={Array.isArray(color) ? color[index] : color}
                             strokeWidth={1.5} // Slightly thinner line
-                            dot={{ r: 2, fill: Array.isArray(color) ? color[index] : color, strokeWidth: 0 }}
+                            dot={renderDot(Array.isArray(color) ? color[index] : color)}
                             activeDot={{ r: 4, strokeWidth: 1, stroke: '#ffffff' }}
                             connectNulls={false} // Don't connect lines across missing data points
                         />
@@ -184,7 +238,7 @@ const HealthChart: React.FC<HealthChartProps> = ({ data, dataKey, unit, name, co
                         name={Array.isArray(name) ? name[0] : name}
                         stroke={Array.isArray(color) ? color[0] : color}
                         strokeWidth={1.5}
-                        dot={{ r: 2, fill: Array.isArray(color) ? color[0] : color, strokeWidth: 0 }}
+                        dot={renderDot(Array.isArray(color) ? color[0] : color)}
                         activeDot={{ r: 4, strokeWidth: 1, stroke: '#ffffff' }}
                         connectNulls={false}
                     />
@@ -200,6 +254,9 @@ interface MedChartsProps {
     bpReadings: BloodPressureReading[];
     sugarReadings: BloodSugarReading[];
     weightReadings: WeightReading[];
+    kickReadings?: KickCountReading[];
+    profile?: UserProfile | null; // Needed for the BMI-based weight gain range
+    thresholds?: ClinicalThresholds; // Defaults, or the patient's doctor-adjusted thresholds
     isLoading: boolean;
     onDataRefreshNeeded: () => void; // Callback to signal parent to refresh data
 }
@@ -208,14 +265,23 @@ const MedCharts: React.FC<MedChartsProps> = ({
     bpReadings,
     sugarReadings,
     weightReadings,
+    kickReadings = [],
+    profile = null,
+    thresholds = DEFAULT_CLINICAL_THRESHOLDS,
     isLoading,
     onDataRefreshNeeded // Receive the callback
 }) => {
     const { toast } = useToast();
     const [deletingReadingId, setDeletingReadingId] = useState<string | null>(null);
+    const [editingReading, setEditingReading] = useState<EditableReading | null>(null);
+
+    // --- Edit Handler (BP, sugar and weight only) ---
+    const handleEditReading = useCallback((reading: EditableReading['reading'], type: ReadingType) => {
+        if (type === 'bp' || type === 'sugar' || type === 'weight') setEditingReading({ type, reading } as EditableReading);
+    }, []);
 
     // --- Deletion Handler ---
-    const handleDeleteReading = useCallback(async (id: string, type: 'bp' | 'sugar' | 'weight') => {
+    const handleDeleteReading = useCallback(async (id: string, type: ReadingType) => {
         if (deletingReadingId) return; // Prevent concurrent deletions
         setDeletingReadingId(id);
 
@@ -231,6 +297,9 @@ const MedCharts: React.FC<MedChartsProps> = ({
                 case 'weight':
                     deletePromise = deleteWeightReading(id);
                     break;
+                case 'kicks':
+                    deletePromise = deleteKickCountReading(id);
+                    break;
                 default:
                     // Should not happen with type safety, but good practice
                     throw new Error("Invalid reading type for deletion");
@@ -240,7 +309,9 @@ const MedCharts: React.FC<MedChartsProps> = ({
 
             toast({
                 title: "Reading Deleted",
-                description: `Successfully removed the ${type.toUpperCase()} reading.`,
+                description: offlineSync.getStatus().online
+                    ? `Successfully removed the ${readingTypeLabels[type]} reading.`
+                    : `Removed the ${readingTypeLabels[type]} reading on this device. It will sync when you're back online.`,
                 variant: "default",
             });
 
@@ -252,7 +323,7 @@ const MedCharts: React.FC<MedChartsProps> = ({
             // console.error(`Error deleting ${type} reading with ID ${id}:`, error);
             toast({
                 title: "Deletion Failed",
-                description: error.message || `Could not delete the ${type} reading.`,
+                description: error.message || `Could not delete the ${readingTypeLabels[type]} reading.`,
                 variant: "destructive",
             });
         } finally {
@@ -275,9 +346,30 @@ const MedCharts: React.FC<MedChartsProps> = ({
     const sortedBp = [...bpReadings].sort(sortDesc);
     const sortedSugar = [...sugarReadings].sort(sortDesc);
     const sortedWeight = [...weightReadings].sort(sortDesc);
+    const sortedKicks = [...kickReadings].sort(sortDesc);
+    const kickDays = groupKickSessionsByDay(kickReadings).filter(d => d.minutesToTarget !== null);
+
+    // --- Display Units ---
+    // Charts plot one unit per metric: weights are converted from whatever unit each was entered in
+    const units = getPreferredUnits(profile);
+    const sugarChartData = normalizeBloodSugarReadings(sugarReadings, units.glucose);
+    const weightChartData = normalizeWeightReadings(weightReadings, units.weight);
+
+    // --- Clinical Threshold Classification ---
+    const bpLevel = (point: { $id?: string }) => classifyBloodPressure(point as BloodPressureReading, thresholds).level;
+    // Chart points carry converted levels, so classify the stored (mg/dL) reading instead
+    const sugarClassifications = new Map(sugarReadings.map(r => [r.$id, classifyBloodSugar(r, thresholds, units.glucose)] as const));
+    const sugarLevel = (point: { $id?: string }) => sugarClassifications.get(point.$id)?.level ?? 'ok';
+    // Weight is judged on the trend up to each reading rather than the value itself
+    const weightClassifications = new Map(weightReadings.map(r => {
+        const at = new Date(r.recordedAt || r.$createdAt);
+        const upTo = weightReadings.filter(other => new Date(other.recordedAt || other.$createdAt).getTime() <= at.getTime());
+        return [r.$id, assessWeeklyWeightGain(upTo, profile, thresholds, at)] as const;
+    }));
+    const weightLevel = (point: { $id?: string }) => weightClassifications.get(point.$id)?.level ?? 'ok';
 
     return (
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 md:gap-6">
             {/* Blood Pressure Card */}
             <Card className="border border-red-200 shadow-sm bg-white overflow-hidden flex flex-col">
                 <CardHeader className="p-3 bg-red-50/50 border-b border-red-200">
@@ -295,6 +387,7 @@ const MedCharts: React.FC<MedChartsProps> = ({
                                 unit="mmHg"
                                 name={["Systolic", "Diastolic"]}
                                 color={["#ef4444", "#f97316"]} // Red and Orange
+                                getPointLevel={bpLevel}
                             />
                         ) : (
                              <p className="text-xs text-gray-400 text-center py-8">No chart data available.</p>
@@ -310,6 +403,8 @@ const MedCharts: React.FC<MedChartsProps> = ({
                                         reading={r}
                                         type="bp"
                                         onDelete={handleDeleteReading} // Pass handler
+                                        onEdit={handleEditReading}
+                                        classification={classifyBloodPressure(r, thresholds)}
                                         isDeleting={deletingReadingId === r.$id} // Pass loading state
                                     />
                                 ))
@@ -331,14 +426,15 @@ const MedCharts: React.FC<MedChartsProps> = ({
                 </CardHeader>
                 <CardContent className="p-4 flex-grow flex flex-col space-y-4">
                      <div className="flex-grow">
-                        <h4 className="text-xs font-medium mb-1 text-gray-500 flex items-center"><BarChart3 className="mr-1 h-3 w-3" />Trend (mg/dL)</h4>
+                        <h4 className="text-xs font-medium mb-1 text-gray-500 flex items-center"><BarChart3 className="mr-1 h-3 w-3" />Trend ({units.glucose})</h4>
                         {sugarReadings.length > 0 ? (
                             <HealthChart
-                                data={sugarReadings}
+                                data={sugarChartData}
                                 dataKey="level"
-                                unit="mg/dL"
+                                unit={units.glucose}
                                 name="Sugar Level"
                                 color="#3b82f6" // Blue
+                                getPointLevel={sugarLevel}
                             />
                          ) : (
                              <p className="text-xs text-gray-400 text-center py-8">No chart data available.</p>
@@ -354,6 +450,9 @@ const MedCharts: React.FC<MedChartsProps> = ({
                                         reading={r}
                                         type="sugar"
                                         onDelete={handleDeleteReading} // Pass handler
+                                        onEdit={handleEditReading}
+                                        classification={sugarClassifications.get(r.$id)}
+                                        units={units}
                                         isDeleting={deletingReadingId === r.$id} // Pass loading state
                                     />
                                 ))
@@ -375,14 +474,15 @@ const MedCharts: React.FC<MedChartsProps> = ({
                 </CardHeader>
                 <CardContent className="p-4 flex-grow flex flex-col space-y-4">
                      <div className="flex-grow">
-                        <h4 className="text-xs font-medium mb-1 text-gray-500 flex items-center"><BarChart3 className="mr-1 h-3 w-3" />Trend ({weightReadings[0]?.unit || 'N/A'})</h4>
+                        <h4 className="text-xs font-medium mb-1 text-gray-500 flex items-center"><BarChart3 className="mr-1 h-3 w-3" />Trend ({units.weight})</h4>
                         {weightReadings.length > 0 ? (
                             <HealthChart
-                                data={weightReadings} // Ideally filter/convert to one unit first
+                                data={weightChartData}
                                 dataKey="weight"
-                                unit={weightReadings[0]?.unit} // Show unit of first entry (could be mixed)
+                                unit={units.weight}
                                 name="Weight"
                                 color="#16a34a" // Green
+                                getPointLevel={weightLevel}
                             />
                          ) : (
                              <p className="text-xs text-gray-400 text-center py-8">No chart data available.</p>
@@ -398,6 +498,9 @@ const MedCharts: React.FC<MedChartsProps> = ({
                                         reading={r}
                                         type="weight"
                                         onDelete={handleDeleteReading} // Pass handler
+                                        onEdit={handleEditReading}
+                                        classification={weightClassifications.get(r.$id) ?? undefined}
+                                        units={units}
                                         isDeleting={deletingReadingId === r.$id} // Pass loading state
                                     />
                                 ))
@@ -409,6 +512,53 @@ const MedCharts: React.FC<MedChartsProps> = ({
                     </div>
                 </CardContent>
             </Card>
+
+            {/* Fetal Movements Card */}
+            <Card className="border border-purple-200 shadow-sm bg-white overflow-hidden flex flex-col">
+                <CardHeader className="p-3 bg-purple-50/50 border-b border-purple-200">
+                    <CardTitle className="flex items-center text-purple-600 text-base font-semibold">
+                        <Footprints className="mr-2 h-5 w-5" />Fetal Movements
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="p-4 flex-grow flex flex-col space-y-4">
+                     <div className="flex-grow">
+                        <h4 className="text-xs font-medium mb-1 text-gray-500 flex items-center"><BarChart3 className="mr-1 h-3 w-3" />Daily avg. time to {KICK_TARGET} (min)</h4>
+                        {kickDays.length > 0 ? (
+                            <HealthChart
+                                data={kickDays} // One point per day (completed sessions only)
+                                dataKey="minutesToTarget"
+                                unit="min"
+                                name={`Minutes to ${KICK_TARGET}`}
+                                color="#9333ea" // Purple
+                            />
+                         ) : (
+                             <p className="text-xs text-gray-400 text-center py-8">No chart data available.</p>
+                        )}
+                    </div>
+                    <div className="border-t pt-3">
+                        <h4 className="text-xs font-medium mb-2 text-gray-500 flex items-center"><List className="mr-1 h-3 w-3" />Recent Sessions</h4>
+                        <div className="max-h-32 overflow-y-auto pr-1 space-y-0.5">
+                            {sortedKicks.length > 0 ? (
+                                sortedKicks.slice(0, 5).map(r => (
+                                    <ReadingListItem
+                                        key={r.$id}
+                                        reading={r}
+                                        type="kicks"
+                                        onDelete={handleDeleteReading} // Pass handler
+                                        isDeleting={deletingReadingId === r.$id} // Pass loading state
+                                    />
+                                ))
+                            ) : (
+                                <p className="text-xs text-gray-400 italic text-center py-2">No sessions recorded.</p>
+                            )}
+                            {sortedKicks.length > 5 && <p className="text-xs text-center text-gray-400 pt-1">...</p>}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Edit dialog (rendered in a portal, so it doesn't take a grid cell) */}
+            <EditReadingModal editing={editingReading} onClose={() => setEditingReading(null)} onReadingUpdated={onDataRefreshNeeded} units={units} />
         </div>
     );
 };
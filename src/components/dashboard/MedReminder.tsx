@@ -1,23 +1,148 @@
 // src/components/dashboard/MedReminder.tsx
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { format, isSameDay, parseISO, startOfDay } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, Pill, Clock, Trash2, PlusCircle, Inbox } from 'lucide-react'; // Import icons
-import type { MedicationReminder } from '@/lib/appwrite'; // Import the type
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Pill, Clock, Trash2, PlusCircle, Inbox, Check, SkipForward, AlarmClock, Package, PackagePlus } from 'lucide-react'; // Import icons
+import type { MedicationReminder, MedicationDoseEvent } from '@/lib/appwrite'; // Import the type
+import {
+    DoseSlot, DoseStatus, doseStatusLabels, parseMedicationSchedule, describeMedicationSchedule, getTodaysDoseSlots,
+    calculateAdherence, adherenceColorClass, ADHERENCE_WINDOWS_DAYS,
+} from '@/lib/medicationSchedule';
+import { SupplyStatus, getSupplyForecast, getRefillWarnings, describeSupply } from '@/lib/medicationSupply';
+import { DrugSafetyContext, checkMedicationList, needsAttention } from '@/lib/drugSafety';
+import DrugSafetyNotice from './DrugSafetyNotice';
 
 interface MedReminderProps {
     reminders: MedicationReminder[];
+    doseEvents: MedicationDoseEvent[]; // Dose log covering at least the longest adherence window
     isLoading: boolean;
     onAddReminder: () => void; // Function to open the add modal
     onDeleteReminder: (id: string) => void; // Function to initiate deletion
     deletingReminderId: string | null; // ID of the reminder currently being deleted
+    onLogDose: (reminder: MedicationReminder, scheduledAt: Date, status: MedicationDoseEvent['status']) => Promise<void>;
+    loggingDoseKey: string | null; // `${reminderId}:${doseKey}` of the dose being saved
+    onUpdateStock?: (reminder: MedicationReminder, quantityOnHand: number) => Promise<void>; // Sets the supply after a refill
+    safetyContext?: DrugSafetyContext; // Pregnancy or breastfeeding notes for the drug-safety banners
 }
 
+const doseStatusClasses: Record<DoseStatus, string> = {
+    taken: 'bg-green-100 text-green-800',
+    skipped: 'bg-gray-100 text-gray-600',
+    snoozed: 'bg-blue-100 text-blue-800',
+    upcoming: 'bg-white text-gray-600 border border-gray-200',
+    due: 'bg-amber-100 text-amber-800',
+    missed: 'bg-red-100 text-red-700',
+};
+
+const supplyStatusClasses: Record<SupplyStatus, string> = {
+    ok: 'text-gray-500',
+    low: 'text-amber-700',
+    out: 'text-red-700',
+};
+
+/** Remaining supply with an inline "Restock" editor (or "Track supply" for reminders without a quantity yet). */
+const SupplyRow: React.FC<{
+    reminder: MedicationReminder;
+    doseEvents: MedicationDoseEvent[];
+    onUpdateStock?: MedReminderProps['onUpdateStock'];
+}> = ({ reminder, doseEvents, onUpdateStock }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [quantity, setQuantity] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const forecast = getSupplyForecast(reminder, doseEvents);
+    if (!forecast && !onUpdateStock) return null;
+
+    const handleSave = async () => {
+        const value = Number(quantity);
+        if (!onUpdateStock || quantity.trim() === '' || !isFinite(value) || value < 0) return;
+        setIsSaving(true);
+        try {
+            await onUpdateStock(reminder, value);
+            setIsEditing(false);
+        } catch {
+            // Error toast is handled by the parent
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={`mt-2 flex items-center gap-2 text-xs ${supplyStatusClasses[forecast?.status ?? 'ok']}`}>
+            <Package className="h-3.5 w-3.5 flex-shrink-0" />
+            {isEditing ? (
+                <>
+                    <Input type="number" min={0} step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} className="h-6 w-20 px-1.5 text-xs" placeholder="On hand" aria-label="Quantity on hand" autoFocus />
+                    <Button variant="ghost" size="sm" className="h-6 px-1.5" onClick={handleSave} disabled={isSaving}>{isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Save'}</Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-1.5 text-gray-500" onClick={() => setIsEditing(false)} disabled={isSaving}>Cancel</Button>
+                </>
+            ) : !forecast ? (
+                <Button variant="link" size="sm" className="h-6 px-0 text-gray-500" onClick={() => { setQuantity(''); setIsEditing(true); }}>Track supply</Button>
+            ) : (
+                <>
+                    <span className={forecast.status !== 'ok' ? 'font-medium' : ''}>{describeSupply(forecast)}</span>
+                    {forecast.status !== 'ok' && <Badge variant="secondary" className="px-1.5 py-0 text-[10px] font-medium bg-amber-100 text-amber-800">Refill soon</Badge>}
+                    {onUpdateStock && (
+                        <Button variant="link" size="sm" className="h-6 px-1 text-gray-500" onClick={() => { setQuantity(String(forecast.quantityOnHand)); setIsEditing(true); }}>
+                            <PackagePlus className="h-3 w-3 mr-0.5" />Restock
+                        </Button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const DoseRow: React.FC<{
+    slot: DoseSlot;
+    isSaving: boolean;
+    onLog: (status: MedicationDoseEvent['status']) => void;
+}> = ({ slot, isSaving, onLog }) => {
+    const isOpen = slot.status !== 'taken' && slot.status !== 'skipped';
+    return (
+        <div className="flex items-center justify-between gap-2 text-xs">
+            <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-700 w-10">{format(slot.scheduledAt, 'HH:mm')}</span>
+                <Badge variant="secondary" className={`px-1.5 py-0 text-[10px] font-medium ${doseStatusClasses[slot.status]}`}>
+                    {doseStatusLabels[slot.status]}
+                    {slot.status === 'snoozed' && slot.event?.snoozedUntil && ` until ${format(parseISO(slot.event.snoozedUntil), 'HH:mm')}`}
+                </Badge>
+            </div>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin text-gray-400" /> : isOpen ? (
+                <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" className="h-6 px-1.5 text-green-700 hover:bg-green-50" onClick={() => onLog('taken')}><Check className="h-3.5 w-3.5 mr-0.5" />Taken</Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-1.5 text-gray-600 hover:bg-gray-100" onClick={() => onLog('skipped')}><SkipForward className="h-3.5 w-3.5 mr-0.5" />Skip</Button>
+                    {slot.status === 'due' && (
+                        <Button variant="ghost" size="sm" className="h-6 px-1.5 text-blue-700 hover:bg-blue-50" onClick={() => onLog('snoozed')}><AlarmClock className="h-3.5 w-3.5 mr-0.5" />Snooze</Button>
+                    )}
+                </div>
+            ) : (
+                <Button variant="link" size="sm" className="h-6 px-1 text-gray-400" onClick={() => onLog(slot.status === 'taken' ? 'skipped' : 'taken')}>Undo</Button>
+            )}
+        </div>
+    );
+};
+
 const ReminderItem: React.FC<{
     reminder: MedicationReminder;
+    doseEvents: MedicationDoseEvent[];
     onDelete: (id: string) => void;
     isDeleting: boolean;
-}> = ({ reminder, onDelete, isDeleting }) => {
+    onLogDose: MedReminderProps['onLogDose'];
+    loggingDoseKey: string | null;
+    onUpdateStock?: MedReminderProps['onUpdateStock'];
+}> = ({ reminder, doseEvents, onDelete, isDeleting, onLogDose, loggingDoseKey, onUpdateStock }) => {
+    const now = new Date();
+    const schedule = parseMedicationSchedule(reminder);
+    const todaysDoses = getTodaysDoseSlots(reminder, doseEvents, now);
+    const adherence = ADHERENCE_WINDOWS_DAYS.map(days => ({ days, summary: calculateAdherence(reminder, doseEvents, days, now) }));
+    const asNeededToday = schedule.type === 'as_needed'
+        ? doseEvents.filter(e => e.reminderId === reminder.$id && e.status === 'taken' && isSameDay(parseISO(e.scheduledAt), now)).length
+        : 0;
+    const courseNotStarted = !!schedule.startDate && parseISO(schedule.startDate) > startOfDay(now);
 
     const handleDelete = () => {
         if (!isDeleting) {
@@ -26,7 +151,7 @@ const ReminderItem: React.FC<{
     };
 
     return (
-        <li className="flex items-center justify-between py-3 border-b last:border-b-0">
+        <li className="flex items-start justify-between py-3 border-b last:border-b-0">
             <div className="flex items-start space-x-3">
                 <Pill className="h-5 w-5 text-momcare-primary mt-0.5 flex-shrink-0" />
                 <div className="flex-grow">
@@ -34,14 +159,44 @@ const ReminderItem: React.FC<{
                         {reminder.medicationName} - <span className="font-normal text-gray-600">{reminder.dosage}</span>
                     </p>
                     <p className="text-xs text-gray-500 mt-0.5">
-                        {reminder.frequency}
-                        {reminder.times && reminder.times.length > 0 && (
-                            <span className="ml-1"> at {reminder.times.join(', ')}</span>
-                        )}
+                        {describeMedicationSchedule(schedule)}
+                        {courseNotStarted && <span className="ml-1">(starts {format(parseISO(schedule.startDate), 'MMM d')})</span>}
                     </p>
                     {reminder.notes && (
                         <p className="text-xs text-gray-500 mt-1 italic">Note: {reminder.notes}</p>
                     )}
+                    {todaysDoses.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                            {todaysDoses.map(slot => (
+                                <DoseRow
+                                    key={slot.key}
+                                    slot={slot}
+                                    isSaving={loggingDoseKey === `${reminder.$id}:${slot.key}`}
+                                    onLog={(status) => onLogDose(reminder, slot.scheduledAt, status)}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    {schedule.type === 'as_needed' && (
+                        <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={loggingDoseKey?.startsWith(`${reminder.$id}:`) || (!!schedule.maxDosesPerDay && asNeededToday >= schedule.maxDosesPerDay)} onClick={() => onLogDose(reminder, new Date(), 'taken')}>
+                                <Check className="h-3 w-3 mr-1" />Log dose
+                            </Button>
+                            <span>{asNeededToday} taken today{schedule.maxDosesPerDay ? ` of ${schedule.maxDosesPerDay} max` : ''}</span>
+                        </div>
+                    )}
+                    {schedule.type !== 'as_needed' && (
+                        <p className="text-xs text-gray-500 mt-2">
+                            Adherence:{' '}
+                            {adherence.map(({ days, summary }, i) => (
+                                <span key={days}>
+                                    {i > 0 && ' · '}
+                                    <span className={`font-semibold ${adherenceColorClass(summary.percent)}`}>{summary.percent === null ? '–' : `${summary.percent}%`}</span> {days}d
+                                </span>
+                            ))}
+                        </p>
+                    )}
+                    <SupplyRow reminder={reminder} doseEvents={doseEvents} onUpdateStock={onUpdateStock} />
                 </div>
             </div>
             <Button
@@ -61,11 +216,24 @@ const ReminderItem: React.FC<{
 
 const MedReminder: React.FC<MedReminderProps> = ({
     reminders,
+    doseEvents,
     isLoading,
     onAddReminder,
     onDeleteReminder,
-    deletingReminderId
+    deletingReminderId,
+    onLogDose,
+    loggingDoseKey,
+    onUpdateStock,
+    safetyContext = { stage: 'unknown' }
 }) => {
+    const refillWarnings = useMemo(() => getRefillWarnings(reminders, doseEvents), [reminders, doseEvents]);
+    // Only cautions and interactions are surfaced here; reassuring notes stay in the add dialog
+    const safetyCautions = useMemo(
+        () => needsAttention(checkMedicationList(reminders, safetyContext)),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [reminders, safetyContext.stage]
+    );
+
     return (
         <Card className="border border-momcare-accent/30 shadow-sm bg-white">
             <CardHeader className="bg-momcare-accent/5 border-b border-momcare-accent/10">
@@ -78,7 +246,7 @@ const MedReminder: React.FC<MedReminderProps> = ({
                     </Button>
                 </div>
                 <CardDescription className="text-sm text-gray-500 mt-1">
-                    Your current medication schedule.
+                    Today's doses and how consistently you've taken them.
                 </CardDescription>
             </CardHeader>
             <CardContent className="p-0"> {/* Remove padding, handled by list/item */}
@@ -88,16 +256,42 @@ const MedReminder: React.FC<MedReminderProps> = ({
                         <span className="text-gray-500">Loading reminders...</span>
                     </div>
                 ) : reminders.length > 0 ? (
+                    <>
+                    {refillWarnings.length > 0 && (
+                        <div className="px-4 pt-3">
+                            <Alert className="border bg-amber-50 border-amber-300 text-amber-900 dark:bg-amber-900/20 dark:border-amber-700 dark:text-amber-200">
+                                <Package className="h-4 w-4" />
+                                <AlertTitle className="text-sm font-semibold">Refill soon</AlertTitle>
+                                <AlertDescription className="text-xs">
+                                    <ul className="space-y-0.5">
+                                        {refillWarnings.map(({ reminder, forecast }) => (
+                                            <li key={reminder.$id}><span className="font-medium">{reminder.medicationName}</span>: {describeSupply(forecast)}</li>
+                                        ))}
+                                    </ul>
+                                </AlertDescription>
+                            </Alert>
+                        </div>
+                    )}
+                    {safetyCautions.length > 0 && (
+                        <div className="px-4 pt-3">
+                            <DrugSafetyNotice findings={safetyCautions} />
+                        </div>
+                    )}
                     <ul role="list" className="divide-y divide-gray-200 px-4">
                         {reminders.map((reminder) => (
                             <ReminderItem
                                 key={reminder.$id}
                                 reminder={reminder}
+                                doseEvents={doseEvents}
                                 onDelete={onDeleteReminder}
                                 isDeleting={deletingReminderId === reminder.$id}
+                                onLogDose={onLogDose}
+                                loggingDoseKey={loggingDoseKey}
+                                onUpdateStock={onUpdateStock}
                             />
                         ))}
                     </ul>
+                    </>
                 ) : (
                     <div className="text-center py-10 px-6">
                         <Inbox className="mx-auto h-10 w-10 text-gray-400 mb-3" />
@@ -0,0 +1,180 @@
+// src/components/doctor/ClinicalThresholdsCard.tsx
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SlidersHorizontal, Save, RotateCcw, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import {
+    getClinicalThresholdOverride, saveClinicalThresholdOverride, deleteClinicalThresholdOverride,
+    ClinicalThresholdOverride,
+} from '@/lib/appwrite';
+import { ClinicalThresholdOverrides, DEFAULT_CLINICAL_THRESHOLDS, parseClinicalThresholdOverrides } from '@/lib/clinicalThresholds';
+
+interface ClinicalThresholdsCardProps {
+    patientId: string;
+}
+
+/** Editable fields. Blank means "use the default" (shown as the placeholder). */
+interface ThresholdField {
+    key: string;
+    label: string;
+    unit: string;
+    defaultValue: number;
+    get: (o: ClinicalThresholdOverrides) => number | undefined;
+    set: (o: ClinicalThresholdOverrides, value: number) => void;
+}
+
+const d = DEFAULT_CLINICAL_THRESHOLDS;
+const fieldGroups: { title: string; fields: ThresholdField[] }[] = [
+    {
+        title: 'Blood Pressure',
+        fields: [
+            { key: 'hypSys', label: 'High systolic', unit: 'mmHg', defaultValue: d.bloodPressure.hypertensiveSystolic, get: o => o.bloodPressure?.hypertensiveSystolic, set: (o, v) => { o.bloodPressure = { ...o.bloodPressure, hypertensiveSystolic: v }; } },
+            { key: 'hypDia', label: 'High diastolic', unit: 'mmHg', defaultValue: d.bloodPressure.hypertensiveDiastolic, get: o => o.bloodPressure?.hypertensiveDiastolic, set: (o, v) => { o.bloodPressure = { ...o.bloodPressure, hypertensiveDiastolic: v }; } },
+            { key: 'sevSys', label: 'Severe systolic', unit: 'mmHg', defaultValue: d.bloodPressure.severeSystolic, get: o => o.bloodPressure?.severeSystolic, set: (o, v) => { o.bloodPressure = { ...o.bloodPressure, severeSystolic: v }; } },
+            { key: 'sevDia', label: 'Severe diastolic', unit: 'mmHg', defaultValue: d.bloodPressure.severeDiastolic, get: o => o.bloodPressure?.severeDiastolic, set: (o, v) => { o.bloodPressure = { ...o.bloodPressure, severeDiastolic: v }; } },
+        ],
+    },
+    {
+        title: 'Blood Sugar',
+        fields: [
+            { key: 'fasting', label: 'Fasting target', unit: 'mg/dL', defaultValue: d.bloodSugar.targets.fasting, get: o => o.bloodSugar?.targets?.fasting, set: (o, v) => { o.bloodSugar = { ...o.bloodSugar, targets: { ...o.bloodSugar?.targets, fasting: v } }; } },
+            { key: 'postMeal', label: 'After-meal target', unit: 'mg/dL', defaultValue: d.bloodSugar.targets.post_meal, get: o => o.bloodSugar?.targets?.post_meal, set: (o, v) => { o.bloodSugar = { ...o.bloodSugar, targets: { ...o.bloodSugar?.targets, post_meal: v } }; } },
+            { key: 'low', label: 'Low below', unit: 'mg/dL', defaultValue: d.bloodSugar.low, get: o => o.bloodSugar?.low, set: (o, v) => { o.bloodSugar = { ...o.bloodSugar, low: v }; } },
+        ],
+    },
+    {
+        title: 'Weight Gain (2nd/3rd trimester)',
+        fields: [
+            { key: 'minWk', label: 'Min per week', unit: 'kg', defaultValue: d.weightGain.bands.normal.minKgPerWeek, get: o => o.weightGain?.band?.minKgPerWeek, set: (o, v) => { o.weightGain = { ...o.weightGain, band: { ...o.weightGain?.band, minKgPerWeek: v } }; } },
+            { key: 'maxWk', label: 'Max per week', unit: 'kg', defaultValue: d.weightGain.bands.normal.maxKgPerWeek, get: o => o.weightGain?.band?.maxKgPerWeek, set: (o, v) => { o.weightGain = { ...o.weightGain, band: { ...o.weightGain?.band, maxKgPerWeek: v } }; } },
+            { key: 'rapid', label: 'Rapid gain from', unit: 'kg/wk', defaultValue: d.weightGain.rapidGainKgPerWeek, get: o => o.weightGain?.rapidGainKgPerWeek, set: (o, v) => { o.weightGain = { ...o.weightGain, rapidGainKgPerWeek: v }; } },
+        ],
+    },
+];
+const allFields = fieldGroups.flatMap(g => g.fields);
+
+/** Lets a doctor adjust the alert thresholds used for one patient's readings. */
+const ClinicalThresholdsCard: React.FC<ClinicalThresholdsCardProps> = ({ patientId }) => {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const { user: doctorUser } = useAuthStore();
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { data: override, isLoading } = useQuery<ClinicalThresholdOverride | null, Error>({
+        queryKey: ['patientClinicalThresholds', patientId],
+        queryFn: () => getClinicalThresholdOverride(patientId),
+        enabled: !!patientId,
+    });
+
+    // Populate the form from the saved overrides
+    useEffect(() => {
+        const saved = parseClinicalThresholdOverrides(override?.overrides) ?? {};
+        setValues(Object.fromEntries(allFields.map(f => [f.key, f.get(saved)?.toString() ?? ''])));
+        setNotes(override?.notes ?? '');
+    }, [override]);
+
+    const handleSave = async () => {
+        if (!doctorUser) return;
+        const overrides: ClinicalThresholdOverrides = {};
+        for (const field of allFields) {
+            const raw = values[field.key]?.trim();
+            if (!raw) continue;
+            const value = parseFloat(raw);
+            if (isNaN(value) || value <= 0) {
+                toast({ title: "Invalid Input", description: `${field.label} must be a positive number.`, variant: "destructive" });
+                return;
+            }
+            field.set(overrides, value);
+        }
+        const band = overrides.weightGain?.band;
+        if (band?.minKgPerWeek !== undefined && band?.maxKgPerWeek !== undefined && band.minKgPerWeek > band.maxKgPerWeek) {
+            toast({ title: "Invalid Input", description: "Minimum weekly gain can't be above the maximum.", variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await saveClinicalThresholdOverride(patientId, { $id: doctorUser.$id, name: doctorUser.name }, JSON.stringify(overrides), notes);
+            toast({ title: "Thresholds Saved", description: "The patient's alerts now use these thresholds." });
+            queryClient.invalidateQueries({ queryKey: ['patientClinicalThresholds', patientId] });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save thresholds.";
+            toast({ title: "Save Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!override) return;
+        setIsSaving(true);
+        try {
+            await deleteClinicalThresholdOverride(override.$id);
+            toast({ title: "Thresholds Reset", description: "Default thresholds apply again." });
+            queryClient.invalidateQueries({ queryKey: ['patientClinicalThresholds', patientId] });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not reset thresholds.";
+            toast({ title: "Reset Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="shadow border dark:border-gray-700">
+            <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center gap-2"><SlidersHorizontal className="h-5 w-5 text-momcare-primary" />Alert Thresholds</CardTitle>
+                <CardDescription>
+                    Leave a field blank to use the default shown.
+                    {override && <> Last changed by {override.updatedByName || 'a doctor'} {formatDistanceToNow(parseISO(override.$updatedAt), { addSuffix: true })}.</>}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {isLoading ? <Skeleton className="h-40 w-full" /> : (
+                    <>
+                        {fieldGroups.map(group => (
+                            <div key={group.title}>
+                                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{group.title}</h4>
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                    {group.fields.map(field => (
+                                        <div key={field.key} className="space-y-1">
+                                            <Label htmlFor={`threshold-${field.key}`} className="text-xs">{field.label} ({field.unit})</Label>
+                                            <Input
+                                                id={`threshold-${field.key}`} type="number" step="any" min="0"
+                                                value={values[field.key] ?? ''} placeholder={String(field.defaultValue)}
+                                                onChange={e => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                                disabled={isSaving}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <div className="space-y-1">
+                            <Label htmlFor="threshold-notes" className="text-xs">Notes (visible to other doctors)</Label>
+                            <Textarea id="threshold-notes" rows={2} value={notes} onChange={e => setNotes(e.target.value)} placeholder="e.g., chronic hypertension, on labetalol" disabled={isSaving} />
+                        </div>
+                    </>
+                )}
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={handleReset} disabled={!override || isSaving}><RotateCcw className="mr-1.5 h-4 w-4" />Reset to defaults</Button>
+                <Button size="sm" onClick={handleSave} disabled={isLoading || isSaving || !doctorUser}>
+                    {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}Save thresholds
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+};
+
+export default ClinicalThresholdsCard;
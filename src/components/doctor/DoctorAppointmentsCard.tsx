@@ -1,22 +1,42 @@
 // src/components/doctor/DoctorAppointmentsCard.tsx
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { format, parseISO, isPast } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { CalendarCheck, Loader2, AlertTriangle, RefreshCw, UserCircle, Clock, Info } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { CalendarCheck, Loader2, AlertTriangle, RefreshCw, UserCircle, Clock, Info, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
 import {
+    changeAppointmentStatus,
     getAllUpcomingAppointments,
+    getAppointmentsAwaitingOutcome,
+    getProviderAvailability,
     getUserProfilesByIds,
     Appointment,
+    ProviderAvailability,
     UserProfile,
 } from '@/lib/appwrite';
+import { getAppointmentDurationMinutes, getAppointmentStart } from '@/lib/appointmentTime';
+import { describeDuration, getProviderLoad, resolveProviderSchedule } from '@/lib/appointmentAvailability';
+import { AppointmentStatus, getAllowedStatusTransitions } from '@/lib/appointmentStatus';
+import { RecurrenceEditScope } from '@/lib/appointmentRecurrence';
+import AppointmentStatusBadge from '@/components/appointments/AppointmentStatusBadge';
+import AppointmentStatusHistoryDialog from '@/components/appointments/AppointmentStatusHistoryDialog';
+import CancelAppointmentDialog from '@/components/appointments/CancelAppointmentDialog';
 
 const DoctorAppointmentsCard: React.FC = () => {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const { user: doctorUser } = useAuthStore();
+    const [changingId, setChangingId] = useState<string | null>(null);
+    const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
+    const [historyTarget, setHistoryTarget] = useState<Appointment | null>(null);
 
     // 1. Fetch all upcoming appointments
     const {
@@ -30,12 +50,28 @@ const DoctorAppointmentsCard: React.FC = () => {
         queryFn: () => getAllUpcomingAppointments(50), // Fetch up to 50 appointments
     });
 
+    // Appointments that have started without an outcome (completed / no-show) recorded yet
+    const { data: awaitingOutcome } = useQuery<Appointment[], Error>({
+        queryKey: ['appointmentsAwaitingOutcome'],
+        queryFn: () => getAppointmentsAwaitingOutcome(),
+    });
+
+    // Practice hours, to show how full each of the next days is
+    const { data: availability } = useQuery<ProviderAvailability | null, Error>({
+        queryKey: ['providerAvailability'],
+        queryFn: () => getProviderAvailability(),
+    });
+    const load = useMemo(
+        () => appointmentsData ? getProviderLoad(appointmentsData, resolveProviderSchedule(availability?.schedule)) : [],
+        [appointmentsData, availability],
+    );
+
     // 2. Extract unique user IDs from fetched appointments
     const patientUserIds = useMemo(() => {
         if (!appointmentsData) return [];
-        const ids = appointmentsData.map(app => app.userId);
+        const ids = [...appointmentsData, ...(awaitingOutcome ?? [])].map(app => app.userId);
         return [...new Set(ids)]; // Deduplicate
-    }, [appointmentsData]);
+    }, [appointmentsData, awaitingOutcome]);
 
     // 3. Fetch profiles for the users who have appointments
     const {
@@ -55,11 +91,128 @@ const DoctorAppointmentsCard: React.FC = () => {
     const isError = isErrorAppointments || (patientUserIds.length > 0 && isErrorProfiles);
     const errorMessage = appointmentsError?.message || profilesError?.message || "An error occurred.";
 
+    const handleStatusChange = async (appointment: Appointment, status: AppointmentStatus, options: { note?: string; scope?: RecurrenceEditScope } = {}) => {
+        if (!doctorUser) return;
+        setChangingId(appointment.$id);
+        try {
+            await changeAppointmentStatus(appointment, status, { $id: doctorUser.$id, name: doctorUser.name, role: 'provider' }, options);
+            toast({ title: "Appointment Updated", description: status === 'cancelled_by_provider' ? "The patient will see that the clinic cancelled." : "Status saved." });
+            setCancelTarget(null);
+            queryClient.invalidateQueries({ queryKey: ['allUpcomingAppointments'] });
+            queryClient.invalidateQueries({ queryKey: ['appointmentsAwaitingOutcome'] });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not update the appointment.";
+            toast({ title: "Update Failed", description: msg, variant: "destructive" });
+        } finally {
+            setChangingId(null);
+        }
+    };
+
     const handleRefresh = () => {
         refetchAppointments();
+        queryClient.invalidateQueries({ queryKey: ['appointmentsAwaitingOutcome'] });
         // Profiles will refetch automatically if user IDs change or query becomes enabled
     };
 
+    const renderLoad = () => {
+        if (load.length === 0) return null;
+        return (
+            <div className="mb-4 space-y-1.5">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Next 7 days</h4>
+                {load.map(day => {
+                    const percent = day.capacityMinutes > 0 ? Math.min(100, Math.round((day.bookedMinutes / day.capacityMinutes) * 100)) : 0;
+                    return (
+                        <div key={day.day} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                            <span className="w-20 flex-shrink-0">{format(parseISO(day.day), 'eee, MMM d')}</span>
+                            {day.capacityMinutes > 0 ? (
+                                <>
+                                    <Progress value={percent} className={`h-2 flex-grow ${percent >= 90 ? '[&>div]:bg-red-500' : percent >= 70 ? '[&>div]:bg-amber-500' : ''}`} aria-label={`${day.day} ${percent}% booked`} />
+                                    <span className="w-28 flex-shrink-0 text-right">{day.appointmentCount} · {describeDuration(day.bookedMinutes)} / {describeDuration(day.capacityMinutes)}</span>
+                                </>
+                            ) : (
+                                <span className="flex-grow text-gray-400">Closed{day.appointmentCount > 0 && ` · ${day.appointmentCount} booked`}</span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const renderAppointment = (appointment: Appointment) => {
+        const patientProfile = patientProfilesMap?.get(appointment.userId);
+        // Shown in the doctor's own zone; falls back to the booked day when the time can't be read
+        const appointmentDate = getAppointmentStart(appointment) ?? parseISO(appointment.date);
+        const isAppointmentPast = isPast(appointmentDate);
+        const isChanging = changingId === appointment.$id;
+
+        return (
+            <li key={appointment.$id} className={`flex items-start space-x-3 p-3 border dark:border-gray-700 rounded-md bg-white dark:bg-gray-800/50 ${isAppointmentPast ? 'opacity-80' : ''}`}>
+                {patientProfile?.profilePhotoUrl ? (
+                    <img src={patientProfile.profilePhotoUrl} alt={patientProfile.name || 'Patient'} className="h-10 w-10 rounded-full object-cover flex-shrink-0 mt-1" />
+                 ) : (
+                    <UserCircle className="h-10 w-10 text-gray-400 dark:text-gray-500 flex-shrink-0 mt-1" />
+                 )}
+                <div className="flex-grow overflow-hidden">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                        {patientProfile?.name || `User ID: ${appointment.userId.substring(0, 6)}...`}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
+                        <CalendarCheck className="h-3 w-3 flex-shrink-0" />
+                        {format(appointmentDate, 'eee, MMM d, yyyy')}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
+                        <Clock className="h-3 w-3 flex-shrink-0" />
+                        {format(appointmentDate, 'h:mm a')} · {describeDuration(getAppointmentDurationMinutes(appointment))}
+                        {isAppointmentPast && <Badge variant="outline" className="ml-2 text-xs px-1 py-0">Past</Badge>}
+                    </p>
+                    <div className="mt-1 flex flex-wrap items-center gap-1">
+                        <AppointmentStatusBadge appointment={appointment} />
+                        {appointment.appointmentType && (
+                            <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
+                                {appointment.appointmentType}
+                            </Badge>
+                        )}
+                    </div>
+                    <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                        {getAllowedStatusTransitions(appointment, 'provider').map(transition => (
+                            <Button
+                                key={transition.to}
+                                variant={transition.to === 'cancelled_by_provider' ? 'ghost' : 'outline'}
+                                size="sm"
+                                className={`h-6 px-2 text-xs ${transition.to === 'cancelled_by_provider' ? 'text-red-600 hover:text-red-700' : ''}`}
+                                disabled={isChanging || !doctorUser}
+                                onClick={() => transition.to === 'cancelled_by_provider' ? setCancelTarget(appointment) : handleStatusChange(appointment, transition.to)}
+                            >
+                                {transition.action}
+                            </Button>
+                        ))}
+                        {isChanging && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-500" />}
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setHistoryTarget(appointment)} aria-label="Show status history" title="Status history">
+                            <History className="h-3.5 w-3.5" />
+                        </Button>
+                        {/* Link to patient detail */}
+                        <Button variant="link" size="sm" asChild className="p-0 h-auto text-xs text-momcare-primary dark:text-momcare-accent">
+                             <Link to={`/doctor/patient/${appointment.userId}`}>View Patient</Link>
+                        </Button>
+                    </div>
+                </div>
+            </li>
+        );
+    };
+
+    const renderAwaitingOutcome = () => {
+        if (!awaitingOutcome || awaitingOutcome.length === 0) return null;
+        return (
+            <div className="mb-4">
+                <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Awaiting outcome ({awaitingOutcome.length})</h4>
+                <ul className="space-y-3 max-h-64 overflow-y-auto pr-2">
+                    {awaitingOutcome.map(renderAppointment)}
+                </ul>
+            </div>
+        );
+    };
+
     const renderContent = () => {
         if (isLoading) {
             return (
@@ -94,49 +247,12 @@ const DoctorAppointmentsCard: React.FC = () => {
 
         // Sort appointments just in case API didn't sort perfectly
         const sortedAppointments = [...appointmentsData].sort((a, b) =>
-            parseISO(a.date).getTime() - parseISO(b.date).getTime()
+            (getAppointmentStart(a)?.getTime() ?? 0) - (getAppointmentStart(b)?.getTime() ?? 0)
         );
 
         return (
             <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
-                {sortedAppointments.map((appointment) => {
-                    const patientProfile = patientProfilesMap?.get(appointment.userId);
-                    const appointmentDate = parseISO(appointment.date);
-                    const isAppointmentPast = isPast(appointmentDate);
-
-                    return (
-                        <li key={appointment.$id} className={`flex items-start space-x-3 p-3 border dark:border-gray-700 rounded-md bg-white dark:bg-gray-800/50 ${isAppointmentPast ? 'opacity-60' : ''}`}>
-                            {patientProfile?.profilePhotoUrl ? (
-                                <img src={patientProfile.profilePhotoUrl} alt={patientProfile.name || 'Patient'} className="h-10 w-10 rounded-full object-cover flex-shrink-0 mt-1" />
-                             ) : (
-                                <UserCircle className="h-10 w-10 text-gray-400 dark:text-gray-500 flex-shrink-0 mt-1" />
-                             )}
-                            <div className="flex-grow overflow-hidden">
-                                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-                                    {patientProfile?.name || `User ID: ${appointment.userId.substring(0, 6)}...`}
-                                </p>
-                                <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
-                                    <CalendarCheck className="h-3 w-3 flex-shrink-0" />
-                                    {format(appointmentDate, 'eee, MMM d, yyyy')}
-                                </p>
-                                <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
-                                    <Clock className="h-3 w-3 flex-shrink-0" />
-                                    {format(appointmentDate, 'h:mm a')} {/* Display time */}
-                                    {isAppointmentPast && <Badge variant="outline" className="ml-2 text-xs px-1 py-0">Past</Badge>}
-                                </p>
-                                {appointment.appointmentType && (
-                                    <Badge variant="secondary" className="mt-1 text-xs px-1.5 py-0.5">
-                                        {appointment.appointmentType}
-                                    </Badge>
-                                )}
-                                {/* Link to patient detail */}
-                                <Button variant="link" size="sm" asChild className="p-0 h-auto text-xs mt-1 text-momcare-primary dark:text-momcare-accent">
-                                     <Link to={`/doctor/patient/${appointment.userId}`}>View Patient</Link>
-                                </Button>
-                            </div>
-                        </li>
-                    );
-                })}
+                {sortedAppointments.map(renderAppointment)}
             </ul>
         );
     };
@@ -149,7 +265,7 @@ const DoctorAppointmentsCard: React.FC = () => {
                         <CalendarCheck className="h-5 w-5 text-momcare-secondary" />
                         Upcoming Appointments
                     </CardTitle>
-                    <CardDescription>Overview of scheduled patient visits.</CardDescription>
+                    <CardDescription>Confirm requests and record how visits went.</CardDescription>
                 </div>
                  <Button variant="ghost" size="icon" onClick={handleRefresh} disabled={isLoading} aria-label="Refresh appointments">
                      <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
@@ -163,8 +279,24 @@ const DoctorAppointmentsCard: React.FC = () => {
                         Showing all upcoming appointments system-wide. Future versions may filter by assigned doctor.
                     </AlertDescription>
                 </Alert>
+                {!isLoading && !isError && renderLoad()}
+                {!isLoading && !isError && renderAwaitingOutcome()}
                 {renderContent()}
             </CardContent>
+
+            <CancelAppointmentDialog
+                appointment={cancelTarget}
+                isOpen={!!cancelTarget}
+                onClose={() => setCancelTarget(null)}
+                onConfirm={(note, scope) => cancelTarget && handleStatusChange(cancelTarget, 'cancelled_by_provider', { note, scope })}
+                isCancelling={!!cancelTarget && changingId === cancelTarget.$id}
+                audience="provider"
+            />
+            <AppointmentStatusHistoryDialog
+                appointment={historyTarget}
+                isOpen={!!historyTarget}
+                onClose={() => setHistoryTarget(null)}
+            />
         </Card>
     );
 };
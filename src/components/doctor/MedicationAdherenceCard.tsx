@@ -0,0 +1,88 @@
+// src/components/doctor/MedicationAdherenceCard.tsx
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow, parseISO, subDays } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Pill } from 'lucide-react';
+import {
+    getMedicationReminders, getMedicationDoseEvents, MedicationReminder, MedicationDoseEvent,
+} from '@/lib/appwrite';
+import {
+    ADHERENCE_WINDOWS_DAYS, parseMedicationSchedule, describeMedicationSchedule, calculateAdherence, adherenceColorClass,
+} from '@/lib/medicationSchedule';
+
+interface MedicationAdherenceCardProps {
+    patientId: string;
+}
+
+/** Per-medication adherence for a patient, from the doses they've marked taken or skipped. */
+const MedicationAdherenceCard: React.FC<MedicationAdherenceCardProps> = ({ patientId }) => {
+    const longestWindow = Math.max(...ADHERENCE_WINDOWS_DAYS);
+
+    const { data, isLoading, isError, error } = useQuery<{ reminders: MedicationReminder[]; events: MedicationDoseEvent[] }, Error>({
+        queryKey: ['patientMedicationAdherence', patientId],
+        queryFn: async () => {
+            const [reminders, events] = await Promise.all([
+                getMedicationReminders(patientId),
+                getMedicationDoseEvents(patientId, { from: subDays(new Date(), longestWindow + 1).toISOString() }),
+            ]);
+            return { reminders, events };
+        },
+        enabled: !!patientId,
+    });
+
+    const rows = useMemo(() => {
+        const now = new Date();
+        return (data?.reminders ?? []).map(reminder => {
+            const lastTaken = data.events.find(e => e.reminderId === reminder.$id && e.status === 'taken');
+            return {
+                reminder,
+                schedule: parseMedicationSchedule(reminder),
+                windows: ADHERENCE_WINDOWS_DAYS.map(days => ({ days, summary: calculateAdherence(reminder, data.events, days, now) })),
+                lastTakenAt: lastTaken?.scheduledAt,
+            };
+        });
+    }, [data]);
+
+    return (
+        <Card className="shadow border dark:border-gray-700">
+            <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center gap-2"><Pill className="h-5 w-5 text-momcare-accent" />Medication Adherence</CardTitle>
+                <CardDescription>Share of scheduled doses marked taken. Skipped and unlogged doses count as not taken.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? <Skeleton className="h-24 w-full" /> :
+                 isError ? <p className="text-sm text-red-600 dark:text-red-400">Could not load medications. {error?.message}</p> :
+                 rows.length === 0 ? <p className="text-sm text-gray-500 dark:text-gray-400">No active medications.</p> :
+                 <ul className="divide-y dark:divide-gray-700">
+                     {rows.map(({ reminder, schedule, windows, lastTakenAt }) => (
+                         <li key={reminder.$id} className="py-3 first:pt-0 last:pb-0">
+                             <div className="flex items-start justify-between gap-3">
+                                 <div className="min-w-0">
+                                     <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{reminder.medicationName} <span className="font-normal text-gray-500">{reminder.dosage}</span></p>
+                                     <p className="text-xs text-gray-500 dark:text-gray-400">{describeMedicationSchedule(schedule)}</p>
+                                     <p className="text-xs text-gray-400 mt-0.5">{lastTakenAt ? `Last taken ${formatDistanceToNow(parseISO(lastTakenAt), { addSuffix: true })}` : 'No doses logged recently'}</p>
+                                 </div>
+                                 <div className="flex gap-3 flex-shrink-0 text-right">
+                                     {schedule.type === 'as_needed' ? (
+                                         <Badge variant="outline" className="text-xs">{windows[windows.length - 1].summary.asNeededTaken} taken in {longestWindow}d</Badge>
+                                     ) : windows.map(({ days, summary }) => (
+                                         <div key={days} title={`${summary.taken} taken, ${summary.skipped} skipped, ${summary.missed} missed`}>
+                                             <p className={`text-sm font-semibold ${adherenceColorClass(summary.percent)}`}>{summary.percent === null ? '–' : `${summary.percent}%`}</p>
+                                             <p className="text-[10px] uppercase text-gray-400">{days} days</p>
+                                         </div>
+                                     ))}
+                                 </div>
+                             </div>
+                         </li>
+                     ))}
+                 </ul>
+                }
+            </CardContent>
+        </Card>
+    );
+};
+
+export default MedicationAdherenceCard;
@@ -7,6 +7,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { UserSearch, Search, Loader2, AlertTriangle, UserCircle, Mail, CalendarDays, Activity, Inbox } from 'lucide-react';
 import { searchUserProfiles, getRecentUserProfiles, UserProfile } from '@/lib/appwrite';
+import { getPregnancyTimeline, formatGestationalAge } from '@/lib/pregnancyTimeline';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -129,7 +130,7 @@ const PatientSearchCard: React.FC = () => {
                                 </p>
                                 <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
                                     {typeof profile.age === 'number' && <span><UserCircle className="h-3 w-3 inline mr-0.5"/>Age: {profile.age}</span>}
-                                    {typeof profile.weeksPregnant === 'number' && <span><CalendarDays className="h-3 w-3 inline mr-0.5"/>Weeks: {profile.weeksPregnant}</span>}
+                                    {getPregnancyTimeline(profile).stage !== 'unknown' && <span><CalendarDays className="h-3 w-3 inline mr-0.5"/>{formatGestationalAge(getPregnancyTimeline(profile))}</span>}
                                     {profile.$updatedAt && <span title={new Date(profile.$updatedAt).toLocaleString()}><Activity className="h-3 w-3 inline mr-0.5"/>Active: {formatRelativeDate(profile.$updatedAt)}</span>}
                                 </div>
                             </div>
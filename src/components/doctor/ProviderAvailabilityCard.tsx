@@ -0,0 +1,176 @@
+// src/components/doctor/ProviderAvailabilityCard.tsx
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Save, Loader2, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { getProviderAvailability, saveProviderAvailability, ProviderAvailability } from '@/lib/appwrite';
+import {
+    ProviderSchedule, SLOT_LENGTH_OPTIONS, describeDuration, getScheduleTimeZone, resolveProviderSchedule, validateProviderSchedule,
+} from '@/lib/appointmentAvailability';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** One row of the editor: a weekday is either closed or open between two times. */
+interface DayHours {
+    open: boolean;
+    start: string;
+    end: string;
+}
+
+/** Days with several opening periods are shown (and saved) as one period from the first opening to the last closing. */
+const toDayHours = (schedule: ProviderSchedule): DayHours[] =>
+    schedule.workingHours.map(periods => periods.length === 0
+        ? { open: false, start: '09:00', end: '17:00' }
+        : { open: true, start: periods[0].start, end: periods[periods.length - 1].end });
+
+/** Lets a doctor set when the practice takes bookings: opening hours, slot length and closed days. */
+const ProviderAvailabilityCard: React.FC = () => {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const { user: doctorUser } = useAuthStore();
+    const [days, setDays] = useState<DayHours[]>([]);
+    const [slotMinutes, setSlotMinutes] = useState(30);
+    const [timeZone, setTimeZone] = useState('');
+    const [blockedDates, setBlockedDates] = useState<string[]>([]);
+    const [newBlockedDate, setNewBlockedDate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { data: availability, isLoading } = useQuery<ProviderAvailability | null, Error>({
+        queryKey: ['providerAvailability'],
+        queryFn: () => getProviderAvailability(),
+    });
+
+    // Populate the form from the saved schedule (or the default one)
+    useEffect(() => {
+        const schedule = resolveProviderSchedule(availability?.schedule);
+        setDays(toDayHours(schedule));
+        setSlotMinutes(schedule.slotMinutes);
+        setTimeZone(getScheduleTimeZone(schedule));
+        setBlockedDates(schedule.blockedDates);
+    }, [availability]);
+
+    const updateDay = (index: number, changes: Partial<DayHours>) =>
+        setDays(prev => prev.map((day, i) => (i === index ? { ...day, ...changes } : day)));
+
+    const handleAddBlockedDate = () => {
+        if (!newBlockedDate || blockedDates.includes(newBlockedDate)) return;
+        setBlockedDates(prev => [...prev, newBlockedDate].sort());
+        setNewBlockedDate('');
+    };
+
+    const handleSave = async () => {
+        if (!doctorUser) return;
+        const schedule: ProviderSchedule = {
+            timeZone: timeZone.trim() || undefined,
+            slotMinutes,
+            workingHours: days.map(day => (day.open ? [{ start: day.start, end: day.end }] : [])),
+            blockedDates,
+        };
+        const problem = validateProviderSchedule(schedule);
+        if (problem) {
+            toast({ title: "Invalid Schedule", description: problem, variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await saveProviderAvailability(schedule, { $id: doctorUser.$id, name: doctorUser.name });
+            toast({ title: "Availability Saved", description: "Patients now see slots from these hours." });
+            queryClient.invalidateQueries({ queryKey: ['providerAvailability'] });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save availability.";
+            toast({ title: "Save Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="shadow border dark:border-gray-700">
+            <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center gap-2"><CalendarClock className="h-5 w-5 text-momcare-primary" />Booking Hours</CardTitle>
+                <CardDescription>
+                    Patients can only book free slots within these hours.
+                    {availability && <> Last changed by {availability.updatedByName || 'a doctor'} {formatDistanceToNow(parseISO(availability.$updatedAt), { addSuffix: true })}.</>}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {isLoading ? <Skeleton className="h-48 w-full" /> : (
+                    <>
+                        <div className="space-y-2">
+                            {days.map((day, index) => (
+                                <div key={WEEKDAYS[index]} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`availability-open-${index}`} checked={day.open}
+                                        onCheckedChange={checked => updateDay(index, { open: checked === true })} disabled={isSaving}
+                                    />
+                                    <Label htmlFor={`availability-open-${index}`} className="w-24 text-xs">{WEEKDAYS[index]}</Label>
+                                    {day.open ? (
+                                        <>
+                                            <Input type="time" className="h-8 text-xs" value={day.start} onChange={e => updateDay(index, { start: e.target.value })} disabled={isSaving} aria-label={`${WEEKDAYS[index]} opens`} />
+                                            <span className="text-xs text-gray-500">to</span>
+                                            <Input type="time" className="h-8 text-xs" value={day.end} onChange={e => updateDay(index, { end: e.target.value })} disabled={isSaving} aria-label={`${WEEKDAYS[index]} closes`} />
+                                        </>
+                                    ) : <span className="text-xs text-gray-500">Closed</span>}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="availability-slot" className="text-xs">Slots start every</Label>
+                                <Select value={String(slotMinutes)} onValueChange={value => setSlotMinutes(Number(value))} disabled={isSaving}>
+                                    <SelectTrigger id="availability-slot" className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {SLOT_LENGTH_OPTIONS.map(minutes => <SelectItem key={minutes} value={String(minutes)}>{describeDuration(minutes)}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="availability-zone" className="text-xs">Time zone</Label>
+                                <Input id="availability-zone" className="h-8 text-xs" value={timeZone} onChange={e => setTimeZone(e.target.value)} placeholder="e.g., Asia/Kolkata" disabled={isSaving} />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="availability-blocked" className="text-xs">Closed dates (holidays, leave)</Label>
+                            <div className="flex gap-2">
+                                <Input id="availability-blocked" type="date" className="h-8 text-xs" value={newBlockedDate} onChange={e => setNewBlockedDate(e.target.value)} disabled={isSaving} />
+                                <Button variant="outline" size="sm" className="h-8" onClick={handleAddBlockedDate} disabled={!newBlockedDate || isSaving}><Plus className="mr-1 h-4 w-4" />Add</Button>
+                            </div>
+                            {blockedDates.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5">
+                                    {blockedDates.map(day => (
+                                        <Badge key={day} variant="secondary" className="gap-1 text-xs">
+                                            {format(parseISO(day), 'MMM d, yyyy')}
+                                            <button type="button" onClick={() => setBlockedDates(prev => prev.filter(d => d !== day))} disabled={isSaving} aria-label={`Reopen ${day}`}>
+                                                <X className="h-3 w-3" />
+                                            </button>
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+            <CardFooter className="flex justify-end">
+                <Button size="sm" onClick={handleSave} disabled={isLoading || isSaving || !doctorUser}>
+                    {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}Save hours
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+};
+
+export default ProviderAvailabilityCard;
@@ -0,0 +1,164 @@
+// src/components/doctor/VisitSummaryDialog.tsx
+import React, { useState, useEffect } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ClipboardList, Save, Trash2, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { Appointment, MedicalDocument, VisitSummary, saveVisitSummary, deleteVisitSummary } from '@/lib/appwrite';
+import { getAppointmentStart } from '@/lib/appointmentTime';
+import { VISIT_SUMMARY_TEXT_MAX_LENGTH, VISIT_VITAL_FIELDS, VisitSummaryInput, VisitVitals, parseVisitVitals, validateVisitSummaryInput } from '@/lib/visitSummary';
+
+interface VisitSummaryDialogProps {
+    appointment: Appointment | null;
+    /** The saved summary of the appointment, if any */
+    summary?: VisitSummary | null;
+    /** The patient's documents, offered as attachments */
+    documents?: MedicalDocument[];
+    isOpen: boolean;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+/** Lets a doctor write (or change) what happened at a completed appointment. */
+const VisitSummaryDialog: React.FC<VisitSummaryDialogProps> = ({ appointment, summary, documents = [], isOpen, onClose, onSaved }) => {
+    const { toast } = useToast();
+    const { user: doctorUser } = useAuthStore();
+    const [vitals, setVitals] = useState<Record<string, string>>({});
+    const [findings, setFindings] = useState('');
+    const [nextSteps, setNextSteps] = useState('');
+    const [documentIds, setDocumentIds] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Populate the form from the saved summary each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        const saved = parseVisitVitals(summary?.vitals);
+        setVitals(Object.fromEntries(VISIT_VITAL_FIELDS.map(f => [f.key, saved[f.key]?.toString() ?? ''])));
+        setFindings(summary?.findings ?? '');
+        setNextSteps(summary?.nextSteps ?? '');
+        setDocumentIds(summary?.documentIds ?? []);
+    }, [isOpen, summary]);
+
+    const toggleDocument = (id: string, checked: boolean) =>
+        setDocumentIds(prev => (checked ? [...prev, id] : prev.filter(d => d !== id)));
+
+    const handleSave = async () => {
+        if (!appointment || !doctorUser) return;
+        const parsedVitals: VisitVitals = {};
+        for (const field of VISIT_VITAL_FIELDS) {
+            const raw = vitals[field.key]?.trim();
+            if (!raw) continue;
+            const value = parseFloat(raw);
+            if (isNaN(value)) {
+                toast({ title: "Invalid Input", description: `${field.label} must be a number.`, variant: "destructive" });
+                return;
+            }
+            parsedVitals[field.key] = value;
+        }
+        const input: VisitSummaryInput = { vitals: parsedVitals, findings, nextSteps, documentIds };
+        const problem = validateVisitSummaryInput(input);
+        if (problem) {
+            toast({ title: "Invalid Summary", description: problem, variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await saveVisitSummary(appointment, { $id: doctorUser.$id, name: doctorUser.name }, input);
+            toast({ title: "Summary Saved", description: "The patient can now see it on the appointment." });
+            onSaved();
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save the summary.";
+            toast({ title: "Save Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!summary) return;
+        setIsSaving(true);
+        try {
+            await deleteVisitSummary(summary.$id);
+            toast({ title: "Summary Deleted" });
+            onSaved();
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not delete the summary.";
+            toast({ title: "Delete Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const start = appointment ? getAppointmentStart(appointment) ?? parseISO(appointment.date) : null;
+    const sortedDocuments = [...documents].sort((a, b) => parseISO(b.$createdAt).getTime() - parseISO(a.$createdAt).getTime());
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2"><ClipboardList className="h-5 w-5 text-momcare-primary" />Visit Summary</DialogTitle>
+                    <DialogDescription>
+                        {start && <>{format(start, 'EEE, MMM d, yyyy - h:mm a')} · {appointment?.appointmentType?.replace(/_/g, ' ') || 'General'}. </>}
+                        {summary ? <>Last changed by {summary.authorName || 'a doctor'} {formatDistanceToNow(parseISO(summary.$updatedAt), { addSuffix: true })}.</> : 'The patient sees this on their appointment.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Vitals</h4>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                            {VISIT_VITAL_FIELDS.map(field => (
+                                <div key={field.key} className="space-y-1">
+                                    <Label htmlFor={`visit-${field.key}`} className="text-xs">{field.label} ({field.unit})</Label>
+                                    <Input
+                                        id={`visit-${field.key}`} type="number" step="any" min={field.min} max={field.max}
+                                        value={vitals[field.key] ?? ''} onChange={e => setVitals(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                        className="h-8 text-xs" disabled={isSaving}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="visit-findings" className="text-xs">Findings</Label>
+                        <Textarea id="visit-findings" rows={3} maxLength={VISIT_SUMMARY_TEXT_MAX_LENGTH} value={findings} onChange={e => setFindings(e.target.value)} placeholder="e.g., Growth on track, mild ankle oedema" disabled={isSaving} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="visit-next-steps" className="text-xs">Next steps</Label>
+                        <Textarea id="visit-next-steps" rows={3} maxLength={VISIT_SUMMARY_TEXT_MAX_LENGTH} value={nextSteps} onChange={e => setNextSteps(e.target.value)} placeholder="e.g., Glucose tolerance test at 26 weeks, follow-up in 4 weeks" disabled={isSaving} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Attached documents</Label>
+                        {sortedDocuments.length === 0 ? <p className="text-xs text-gray-500 dark:text-gray-400">The patient hasn't uploaded any documents.</p> : (
+                            <ScrollArea className="max-h-32 rounded-md border dark:border-gray-700 p-2">
+                                {sortedDocuments.map(doc => (
+                                    <div key={doc.$id} className="flex items-center gap-2 py-0.5">
+                                        <Checkbox id={`visit-doc-${doc.$id}`} checked={documentIds.includes(doc.$id)} onCheckedChange={checked => toggleDocument(doc.$id, checked === true)} disabled={isSaving} />
+                                        <Label htmlFor={`visit-doc-${doc.$id}`} className="truncate text-xs font-normal" title={doc.fileName}>{doc.fileName}</Label>
+                                    </div>
+                                ))}
+                            </ScrollArea>
+                        )}
+                    </div>
+                </div>
+
+                <DialogFooter className="gap-2 sm:justify-between">
+                    {summary ? <Button variant="outline" size="sm" onClick={handleDelete} disabled={isSaving} className="text-red-600 hover:text-red-700"><Trash2 className="mr-1.5 h-4 w-4" />Delete</Button> : <span />}
+                    <Button size="sm" onClick={handleSave} disabled={isSaving || !doctorUser}>
+                        {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}Save summary
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default VisitSummaryDialog;
@@ -2,6 +2,7 @@
 import React, { useEffect } from 'react';
 import Navbar from './Navbar';
 import Footer from './Footer';
+import OfflineSyncBanner from './OfflineSyncBanner';
 import { useAuthStore } from '@/store/authStore';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Toaster } from '@/components/ui/toaster';
@@ -64,6 +65,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({
   return (
     <div className="flex flex-col min-h-screen">
       <Navbar />
+      <OfflineSyncBanner />
       <main className="flex-grow">
         {children}
       </main>
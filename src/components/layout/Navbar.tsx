@@ -57,6 +57,7 @@ const navItems: NavItem[] = [
   { path: '/profile', label: 'Profile', requiresAuth: true, isMobileOnly: true }, // Show Profile in mobile nav too
   { path: '/medicaldocs', label: 'Documents', requiresAuth: true, isMobileOnly: true }, // Show Docs in mobile nav too
   { path: '/schecker', label: 'Symptom Checker', requiresAuth: true, isMobileOnly: true },
+  { path: '/contractions', label: 'Contraction Timer', requiresAuth: true, isMobileOnly: true },
   { path: '/games', label: 'Games', requiresAuth: true, isMobileOnly: true }, // Show Games in mobile nav too
   { path: '/milestones', label: 'NFT Milestones', requiresAuth: true, isMobileOnly: true },
 
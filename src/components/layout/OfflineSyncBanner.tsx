@@ -0,0 +1,42 @@
+// src/components/layout/OfflineSyncBanner.tsx
+import React from 'react';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+
+/**
+ * Thin status strip shown while offline or while locally saved changes are waiting to sync.
+ * Renders nothing when everything is up to date.
+ */
+const OfflineSyncBanner: React.FC = () => {
+  const { online, syncing, pending, rejected } = useOfflineSync();
+
+  if (online && pending === 0 && rejected === 0) return null;
+
+  const changes = `${pending} change${pending === 1 ? '' : 's'}`;
+  let icon = <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />;
+  let message = syncing ? `Syncing ${changes}...` : `${changes} waiting to sync.`;
+  let tone = 'bg-blue-50 text-blue-800 border-blue-200';
+
+  if (!online) {
+    icon = <CloudOff className="h-4 w-4" />;
+    message = pending > 0
+      ? `You're offline. ${changes} saved on this device will sync when you reconnect.`
+      : "You're offline. Showing data saved on this device.";
+    tone = 'bg-amber-50 text-amber-800 border-amber-200';
+  } else if (pending === 0 && rejected > 0) {
+    icon = <AlertTriangle className="h-4 w-4" />;
+    message = `${rejected} offline change${rejected === 1 ? ' was' : 's were'} rejected by the server and not saved.`;
+    tone = 'bg-red-50 text-red-800 border-red-200';
+  }
+
+  return (
+    <div className={`border-b ${tone}`} role="status" aria-live="polite">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2 text-sm">
+        {icon}
+        <span>{message}</span>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineSyncBanner;
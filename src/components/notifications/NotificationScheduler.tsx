@@ -0,0 +1,125 @@
+// src/components/notifications/NotificationScheduler.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { useAuthStore } from '@/store/authStore';
+import { useToast } from '@/hooks/use-toast';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import {
+    getUserProfile, getMedicationReminders, getMedicationDoseEvents, getUserAppointments, logMedicationDose, adjustMedicationStock,
+    UserProfile, MedicationReminder, MedicationDoseEvent, Appointment,
+} from '@/lib/appwrite';
+import { DEFAULT_SNOOZE_MINUTES } from '@/lib/medicationSchedule';
+import { getDoseStockChange } from '@/lib/medicationSupply';
+import {
+    NotificationActionMessage, planNotifications, parseNotificationPreferences, isNotificationSupported, getNotificationPermission,
+    registerNotificationServiceWorker, postToServiceWorker, consumeNotificationActionFromUrl,
+} from '@/lib/notifications';
+
+/** Re-plan this often so dose statuses and the 24h horizon stay current. */
+const REPLAN_INTERVAL_MS = 15 * 60 * 1000;
+/** Ask the service worker to show anything that has fallen due while the app is open. */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+interface NotificationSourceData {
+    profile: UserProfile | null;
+    reminders: MedicationReminder[];
+    doseEvents: MedicationDoseEvent[];
+    appointments: Appointment[];
+}
+
+const loadNotificationSource = async (userId: string): Promise<NotificationSourceData> => {
+    const [profile, reminders, doseEvents, appointments] = await Promise.all([
+        getUserProfile(userId),
+        getMedicationReminders(userId),
+        getMedicationDoseEvents(userId, { from: subDays(new Date(), 1).toISOString() }),
+        getUserAppointments(userId),
+    ]);
+    return { profile, reminders, doseEvents, appointments };
+};
+
+/**
+ * Keeps the notification service worker's plan in sync with the signed-in user's reminders,
+ * dose log and appointments, and saves "Taken" / "Snooze" taps on dose notifications.
+ * Renders nothing; mounted once in App.
+ */
+const NotificationScheduler: React.FC = () => {
+    const { user, isAuthenticated } = useAuthStore();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+    const userId = isAuthenticated ? user?.$id : undefined;
+
+    const { data, refetch } = useQuery<NotificationSourceData, Error>({
+        queryKey: ['notificationSchedule', userId],
+        queryFn: () => loadNotificationSource(userId),
+        enabled: !!userId && isNotificationSupported(),
+        refetchInterval: REPLAN_INTERVAL_MS,
+    });
+    useOfflineSync(() => { if (userId) refetch(); });
+
+    const preferences = parseNotificationPreferences(data?.profile);
+    const isActive = !!userId && preferences.enabled && getNotificationPermission() === 'granted';
+
+    useEffect(() => {
+        if (!isActive) return;
+        let cancelled = false;
+        registerNotificationServiceWorker().then(reg => { if (!cancelled) setRegistration(reg); });
+        return () => { cancelled = true; };
+    }, [isActive]);
+
+    // Hand the worker a fresh plan whenever the data or preferences change (or clear it on sign-out / opt-out)
+    useEffect(() => {
+        if (!registration) return;
+        if (!isActive || !data) { postToServiceWorker(registration, { type: 'momcare:clear' }); return; }
+        postToServiceWorker(registration, { type: 'momcare:plan', notifications: planNotifications({ ...data, preferences, now: new Date() }) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [registration, isActive, data]);
+
+    useEffect(() => {
+        if (!registration || !isActive) return;
+        const timer = setInterval(() => postToServiceWorker(registration, { type: 'momcare:check' }), CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [registration, isActive]);
+
+    const handleAction = useCallback(async ({ action, dose }: NotificationActionMessage) => {
+        if (!userId) return;
+        try {
+            // A tab opened from a notification may not have loaded yet; the reminder's supply is needed to decrement it
+            const source = data ?? await queryClient.fetchQuery({ queryKey: ['notificationSchedule', userId], queryFn: () => loadNotificationSource(userId) });
+            const reminder = source.reminders.find(r => r.$id === dose.reminderId);
+            const stockChange = reminder ? getDoseStockChange(reminder, source.doseEvents, new Date(dose.scheduledAt), action === 'taken' ? 'taken' : 'snoozed') : 0;
+            await logMedicationDose(userId, {
+                reminderId: dose.reminderId, medicationName: dose.medicationName, scheduledAt: dose.scheduledAt,
+                status: action === 'taken' ? 'taken' : 'snoozed',
+                snoozedUntil: action === 'snooze' ? new Date(Date.now() + DEFAULT_SNOOZE_MINUTES * 60 * 1000).toISOString() : undefined,
+            });
+            if (stockChange !== 0) await adjustMedicationStock(dose.reminderId, stockChange);
+            toast({
+                title: action === 'taken' ? "Dose Logged" : "Dose Snoozed",
+                description: action === 'taken' ? `${dose.medicationName || 'Medication'} marked as taken.` : `We'll remind you again in ${DEFAULT_SNOOZE_MINUTES} minutes.`,
+            });
+            queryClient.invalidateQueries({ queryKey: ['notificationSchedule', userId] });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save the dose.";
+            toast({ title: "Dose Not Saved", description: msg, variant: "destructive" });
+        }
+    }, [userId, data, toast, queryClient]);
+
+    // Actions arrive as a message to an open tab, or as URL parameters when the worker had to open one
+    useEffect(() => {
+        if (!userId) return;
+        const pending = consumeNotificationActionFromUrl();
+        if (pending) handleAction(pending);
+        if (!('serviceWorker' in navigator)) return;
+        const onMessage = (event: MessageEvent) => {
+            if ((event.data as NotificationActionMessage | undefined)?.type === 'momcare:notification-action') handleAction(event.data as NotificationActionMessage);
+        };
+        navigator.serviceWorker.addEventListener('message', onMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+    }, [userId, handleAction]);
+
+    return null;
+};
+
+export default NotificationScheduler;
@@ -0,0 +1,131 @@
+// src/components/notifications/NotificationSettingsCard.tsx
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, BellOff, Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { UserProfile, updateUserProfile } from '@/lib/appwrite';
+import {
+    NotificationPreferences, parseNotificationPreferences, serializeNotificationPreferences,
+    doseLeadOptions, appointmentLeadOptions, getNotificationPermission, requestNotificationPermission,
+} from '@/lib/notifications';
+
+interface NotificationSettingsCardProps {
+    profile: UserProfile | null;
+    onProfileUpdated?: (profile: UserProfile) => void;
+}
+
+/** Profile section for dose and appointment notifications. Preferences follow the user; permission is per browser. */
+const NotificationSettingsCard: React.FC<NotificationSettingsCardProps> = ({ profile, onProfileUpdated }) => {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [preferences, setPreferences] = useState<NotificationPreferences>(() => parseNotificationPreferences(profile));
+    const [permission, setPermission] = useState(getNotificationPermission);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => { setPreferences(parseNotificationPreferences(profile)); }, [profile]);
+
+    const update = (changes: Partial<NotificationPreferences>) => setPreferences(prev => ({ ...prev, ...changes }));
+
+    const handleToggleEnabled = async (enabled: boolean) => {
+        if (enabled && permission !== 'granted') {
+            const result = await requestNotificationPermission();
+            setPermission(result);
+            if (result !== 'granted') {
+                toast({ title: "Notifications Blocked", description: "Allow notifications for this site in your browser settings to turn them on.", variant: "destructive" });
+                return;
+            }
+        }
+        update({ enabled });
+    };
+
+    const toggleAppointmentLead = (minutes: number, checked: boolean) => {
+        update({ appointmentLeadMinutes: checked ? [...preferences.appointmentLeadMinutes, minutes] : preferences.appointmentLeadMinutes.filter(m => m !== minutes) });
+    };
+
+    const handleSave = async () => {
+        if (!profile) return;
+        setIsSaving(true);
+        try {
+            const updated = await updateUserProfile(profile.$id, { notificationPreferences: serializeNotificationPreferences(preferences) });
+            toast({ title: "Notification Settings Saved", description: preferences.enabled ? "Reminders will appear on this device while MomCare is open." : "Notifications are off." });
+            queryClient.invalidateQueries({ queryKey: ['notificationSchedule'] });
+            onProfileUpdated?.(updated);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save notification settings.";
+            toast({ title: "Save Failed", description: msg, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const disabled = isSaving || !profile || permission === 'unsupported';
+
+    return (
+        <Card className="border-momcare-primary/20">
+            <CardHeader>
+                <CardTitle className="flex items-center text-momcare-primary"><Bell className="mr-2 h-5 w-5" />Notifications</CardTitle>
+                <CardDescription>Get reminded about medication doses and upcoming appointments, with quick "Taken" and "Snooze" buttons.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {permission === 'unsupported' && <p className="text-sm text-gray-500 flex items-center"><BellOff className="mr-2 h-4 w-4" />This browser doesn't support notifications.</p>}
+                {permission === 'denied' && <p className="text-sm text-amber-700">Notifications are blocked for this site. Allow them in your browser settings, then turn them on here.</p>}
+                {!profile && <p className="text-sm text-gray-500">Save your profile first to set up notifications.</p>}
+
+                <div className="flex items-center justify-between">
+                    <Label htmlFor="notifications-enabled" className="font-medium">Notifications on this account</Label>
+                    <Switch id="notifications-enabled" checked={preferences.enabled} onCheckedChange={handleToggleEnabled} disabled={disabled} />
+                </div>
+
+                <div className={`space-y-5 ${preferences.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="notifications-medications">Medication doses</Label>
+                            <Switch id="notifications-medications" checked={preferences.medications} onCheckedChange={(checked) => update({ medications: checked })} disabled={disabled} />
+                        </div>
+                        <Select value={String(preferences.doseLeadMinutes)} onValueChange={(v) => update({ doseLeadMinutes: Number(v) })} disabled={disabled || !preferences.medications}>
+                            <SelectTrigger aria-label="When to remind about doses"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {doseLeadOptions.map(option => <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="notifications-appointments">Appointments</Label>
+                            <Switch id="notifications-appointments" checked={preferences.appointments} onCheckedChange={(checked) => update({ appointments: checked })} disabled={disabled} />
+                        </div>
+                        <p className="text-xs text-gray-500">Remind me before each appointment:</p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-2">
+                            {appointmentLeadOptions.map(option => (
+                                <div key={option.minutes} className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id={`appointment-lead-${option.minutes}`}
+                                        checked={preferences.appointmentLeadMinutes.includes(option.minutes)}
+                                        onCheckedChange={(checked) => toggleAppointmentLead(option.minutes, checked === true)}
+                                        disabled={disabled || !preferences.appointments}
+                                    />
+                                    <Label htmlFor={`appointment-lead-${option.minutes}`} className="text-sm font-normal">{option.label}</Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <p className="text-xs text-muted-foreground">Reminders are shown while MomCare is open in a tab (or installed as an app on supported browsers).</p>
+            </CardContent>
+            <CardFooter className="flex justify-end">
+                <Button size="sm" onClick={handleSave} disabled={disabled} className="bg-momcare-primary hover:bg-momcare-dark">
+                    {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}Save notification settings
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+};
+
+export default NotificationSettingsCard;
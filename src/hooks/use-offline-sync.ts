@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { offlineSync } from "@/lib/appwrite"
+import type { SyncStatus } from "@/lib/data"
+
+/**
+ * Current offline sync status (connectivity, outbox size, last sync).
+ * `onDataChanged` runs whenever the local copy of a synced collection changes
+ * (background refresh from the server, outbox replay), so pages can re-read it.
+ */
+export function useOfflineSync(onDataChanged?: () => void): SyncStatus {
+  const [status, setStatus] = React.useState<SyncStatus>(() => offlineSync.getStatus())
+  const onDataChangedRef = React.useRef(onDataChanged)
+  onDataChangedRef.current = onDataChanged
+
+  React.useEffect(() => {
+    return offlineSync.subscribe((event) => {
+      setStatus(event.status)
+      if (event.changedCollectionIds.length > 0) onDataChangedRef.current?.()
+    })
+  }, [])
+
+  return status
+}
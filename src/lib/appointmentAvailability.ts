@@ -0,0 +1,270 @@
+// src/lib/appointmentAvailability.ts
+// Booking rules for appointments: how long each kind of appointment takes, when the practice takes
+// bookings (a provider schedule of working hours, slot length and closed days, set by doctors), which
+// slots on a day are still free, and which existing appointments a booking would overlap.
+import { addDays, format, parseISO } from 'date-fns';
+import type { Appointment } from './appwrite';
+import { RECURRENCE_EXPANSION_DAYS, RecurrenceRule, getOccurrenceDates } from './appointmentRecurrence';
+import { isAppointmentActive } from './appointmentStatus';
+import {
+    formatClockTime,
+    getAppointmentEnd,
+    getAppointmentStart,
+    getDeviceTimeZone,
+    getWallTime,
+    isKnownTimeZone,
+    resolveAppointmentTimes,
+    zonedWallTimeToDate,
+} from './appointmentTime';
+
+// --- Types ---
+
+/** One opening period on a weekday, as 24-hour "HH:mm" in the schedule's zone. */
+export interface WorkingHours {
+    start: string;
+    end: string;
+}
+
+/** When a provider takes bookings. Stored as JSON on the provider's availability document. */
+export interface ProviderSchedule {
+    /** IANA zone the working hours are in; defaults to the device's */
+    timeZone?: string;
+    /** Slots start every this many minutes from the start of each opening period */
+    slotMinutes: number;
+    /** Opening periods per weekday (index 0 = Sunday); a day without periods is closed */
+    workingHours: WorkingHours[][];
+    /** Closed days ("yyyy-MM-dd"), e.g. holidays or leave */
+    blockedDates: string[];
+}
+
+/** A bookable start time on a day. */
+export interface AvailableSlot {
+    /** Clock time in the schedule's zone, e.g. "09:30 AM" (what createAppointment stores) */
+    time: string;
+    start: Date;
+    end: Date;
+}
+
+/** A booking to check for overlaps; `recurrence` checks every occurrence in the expansion window. */
+export interface BookingRequest {
+    /** "yyyy-MM-dd" */
+    date: string;
+    time: string;
+    timeZone?: string;
+    durationMinutes: number;
+    recurrence?: RecurrenceRule | null;
+}
+
+export interface BookingConflict {
+    /** Occurrence day of the booking that overlaps */
+    day: string;
+    appointment: Appointment;
+}
+
+/** Booked time against opening time on one day. */
+export interface ProviderDayLoad {
+    /** "yyyy-MM-dd" in the schedule's zone */
+    day: string;
+    appointmentCount: number;
+    bookedMinutes: number;
+    /** Minutes of working hours; 0 on closed or blocked days */
+    capacityMinutes: number;
+}
+
+// --- Constants ---
+
+/** The practice-wide schedule used for bookings (appointments aren't assigned to a single doctor yet). */
+export const DEFAULT_PROVIDER_ID = 'practice';
+
+const WEEKDAY_HOURS: WorkingHours[] = [{ start: '09:00', end: '17:00' }];
+
+/** Used until a doctor saves a schedule: weekdays 9-5, Saturday mornings, 30-minute slots. */
+export const DEFAULT_PROVIDER_SCHEDULE: ProviderSchedule = {
+    slotMinutes: 30,
+    workingHours: [[], WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, [{ start: '09:00', end: '13:00' }]],
+    blockedDates: [],
+};
+
+/** Typical length of each appointment type, used as the booking form's default. */
+export const appointmentTypeDurations: Record<string, number> = {
+    doctor: 30,
+    lab_test: 15,
+    yoga_class: 60,
+    childbirth_class: 90,
+    fitness_class: 45,
+};
+
+export const APPOINTMENT_DURATION_OPTIONS: ReadonlyArray<number> = [15, 30, 45, 60, 90, 120];
+export const SLOT_LENGTH_OPTIONS: ReadonlyArray<number> = [10, 15, 20, 30, 60];
+
+const HOURS_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+// --- Durations ---
+
+export const getDefaultDurationMinutes = (appointmentType: string | undefined): number =>
+    appointmentTypeDurations[appointmentType || 'doctor'] ?? appointmentTypeDurations.doctor;
+
+/** e.g. 90 -> "1 h 30 min" */
+export const describeDuration = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+// --- Provider Schedule ---
+
+const toMinutes = (hhmm: string): number => parseInt(hhmm.slice(0, 2), 10) * 60 + parseInt(hhmm.slice(3), 10);
+
+/** Problem with a schedule, for showing next to the editor; null when it is usable. */
+export const validateProviderSchedule = (schedule: ProviderSchedule): string | null => {
+    if (!Number.isInteger(schedule.slotMinutes) || schedule.slotMinutes < 5 || schedule.slotMinutes > 240) return 'Slot length must be between 5 and 240 minutes.';
+    if (schedule.timeZone && !isKnownTimeZone(schedule.timeZone)) return `Unknown time zone "${schedule.timeZone}".`;
+    if (!Array.isArray(schedule.workingHours) || schedule.workingHours.length !== 7) return 'Working hours must list all seven weekdays.';
+    for (const periods of schedule.workingHours) {
+        const sorted = [...periods].sort((a, b) => a.start.localeCompare(b.start));
+        for (const [index, period] of sorted.entries()) {
+            if (!HOURS_PATTERN.test(period.start) || !HOURS_PATTERN.test(period.end)) return 'Working hours must be times like 09:00 or 17:30.';
+            if (toMinutes(period.end) <= toMinutes(period.start)) return `Working hours ${period.start}-${period.end} end before they start.`;
+            if (index > 0 && toMinutes(period.start) < toMinutes(sorted[index - 1].end)) return 'Working hours on the same day must not overlap.';
+        }
+    }
+    if (schedule.blockedDates.some(day => !DAY_PATTERN.test(day))) return 'Blocked dates must be yyyy-MM-dd.';
+    return null;
+};
+
+/** Reads a stored schedule; null when the JSON is missing or unusable. */
+export const parseProviderSchedule = (json: string | null | undefined): ProviderSchedule | null => {
+    if (!json) return null;
+    try {
+        const raw = JSON.parse(json);
+        const schedule: ProviderSchedule = {
+            timeZone: typeof raw?.timeZone === 'string' && raw.timeZone ? raw.timeZone : undefined,
+            slotMinutes: Number(raw?.slotMinutes),
+            workingHours: Array.isArray(raw?.workingHours)
+                ? raw.workingHours.map((periods: unknown) => (Array.isArray(periods) ? periods : []).map((p: WorkingHours) => ({ start: String(p?.start), end: String(p?.end) })))
+                : [],
+            blockedDates: Array.isArray(raw?.blockedDates) ? [...new Set<string>(raw.blockedDates.map(String))].sort() : [],
+        };
+        return validateProviderSchedule(schedule) ? null : schedule;
+    } catch {
+        return null;
+    }
+};
+
+/** The stored schedule, or the default one. */
+export const resolveProviderSchedule = (json: string | null | undefined): ProviderSchedule =>
+    parseProviderSchedule(json) ?? DEFAULT_PROVIDER_SCHEDULE;
+
+export const getScheduleTimeZone = (schedule: ProviderSchedule): string =>
+    isKnownTimeZone(schedule.timeZone) ? schedule.timeZone : getDeviceTimeZone();
+
+/** Opening periods on a day ("yyyy-MM-dd"); empty when closed or blocked. */
+export const getWorkingHoursOn = (schedule: ProviderSchedule, day: string): WorkingHours[] =>
+    schedule.blockedDates.includes(day) ? [] : schedule.workingHours[parseISO(day).getDay()] ?? [];
+
+// --- Overlaps ---
+
+/**
+ * Appointments that overlap [start, end). Cancelled and finished appointments don't take up time.
+ * `ignoreIds` matches appointment IDs and series IDs (to skip a whole series).
+ */
+export const findOverlappingAppointments = (start: Date, end: Date, appointments: Appointment[], ignoreIds: string[] = []): Appointment[] =>
+    appointments.filter(app => {
+        if (!isAppointmentActive(app)) return false;
+        if (ignoreIds.includes(app.$id) || (app.occurrenceOf && ignoreIds.includes(app.occurrenceOf))) return false;
+        const appStart = getAppointmentStart(app);
+        const appEnd = getAppointmentEnd(app);
+        return !!appStart && !!appEnd && appStart < end && start < appEnd;
+    });
+
+/** The user's own appointments plus other patients' bookings (see getBookedAppointmentTimes), each once. */
+export const withBookedTimes = (own: Appointment[], booked: Appointment[]): Appointment[] => {
+    const ownIds = new Set(own.map(app => app.$id));
+    return [...own, ...booked.filter(app => !ownIds.has(app.$id))];
+};
+
+/**
+ * Existing appointments a booking would overlap, one entry per clash. Recurring bookings are checked
+ * occurrence by occurrence, as far ahead as series are expanded.
+ */
+export const findBookingConflicts = (
+    booking: BookingRequest,
+    appointments: Appointment[],
+    options: { ignoreIds?: string[]; now?: Date } = {},
+): BookingConflict[] => {
+    const days = booking.recurrence
+        ? getOccurrenceDates(booking.recurrence, booking.date, { to: addDays(options.now ?? new Date(), RECURRENCE_EXPANSION_DAYS) })
+        : [booking.date];
+    const conflicts: BookingConflict[] = [];
+    for (const day of days) {
+        const times = resolveAppointmentTimes(day, booking.time, booking.timeZone, booking.durationMinutes);
+        if (!times) continue;
+        for (const appointment of findOverlappingAppointments(new Date(times.startsAt), new Date(times.endsAt), appointments, options.ignoreIds)) {
+            conflicts.push({ day, appointment });
+        }
+    }
+    return conflicts;
+};
+
+// --- Slots ---
+
+/**
+ * Free start times on a day ("yyyy-MM-dd", in the schedule's zone) for an appointment of `durationMinutes`:
+ * within working hours, not blocked, not started yet and not overlapping `appointments`.
+ */
+export const getAvailableSlots = (
+    schedule: ProviderSchedule,
+    day: string,
+    options: { durationMinutes: number; appointments?: Appointment[]; ignoreIds?: string[]; now?: Date },
+): AvailableSlot[] => {
+    const timeZone = getScheduleTimeZone(schedule);
+    const [year, month, date] = day.split('-').map(Number);
+    const now = options.now ?? new Date();
+    const slots: AvailableSlot[] = [];
+    for (const period of getWorkingHoursOn(schedule, day)) {
+        const close = toMinutes(period.end);
+        for (let minute = toMinutes(period.start); minute + options.durationMinutes <= close; minute += schedule.slotMinutes) {
+            const hours = Math.floor(minute / 60);
+            const start = zonedWallTimeToDate({ year, month, day: date, hours, minutes: minute % 60, seconds: 0 }, timeZone);
+            const end = new Date(start.getTime() + options.durationMinutes * 60000);
+            if (start <= now) continue;
+            if (findOverlappingAppointments(start, end, options.appointments ?? [], options.ignoreIds).length > 0) continue;
+            slots.push({ time: formatClockTime(hours, minute % 60), start, end });
+        }
+    }
+    return slots;
+};
+
+// --- Load ---
+
+/** Booked (not cancelled) against available minutes per day, for the next `days` days from `from` (default: today). */
+export const getProviderLoad = (
+    appointments: Appointment[],
+    schedule: ProviderSchedule,
+    options: { from?: Date; days?: number } = {},
+): ProviderDayLoad[] => {
+    const timeZone = getScheduleTimeZone(schedule);
+    const firstDay = getWallTime(options.from ?? new Date(), timeZone);
+    const start = new Date(firstDay.year, firstDay.month - 1, firstDay.day);
+    const load = new Map<string, ProviderDayLoad>();
+    for (let offset = 0; offset < (options.days ?? 7); offset++) {
+        const day = format(addDays(start, offset), DAY_FORMAT);
+        const capacityMinutes = getWorkingHoursOn(schedule, day).reduce((sum, period) => sum + toMinutes(period.end) - toMinutes(period.start), 0);
+        load.set(day, { day, appointmentCount: 0, bookedMinutes: 0, capacityMinutes });
+    }
+    for (const app of appointments) {
+        if (!isAppointmentActive(app)) continue;
+        const appStart = getAppointmentStart(app);
+        const appEnd = getAppointmentEnd(app);
+        if (!appStart || !appEnd) continue;
+        const wall = getWallTime(appStart, timeZone);
+        const entry = load.get(`${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`);
+        if (!entry) continue;
+        entry.appointmentCount++;
+        entry.bookedMinutes += Math.round((appEnd.getTime() - appStart.getTime()) / 60000);
+    }
+    return [...load.values()];
+};
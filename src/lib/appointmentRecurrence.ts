@@ -0,0 +1,210 @@
+// src/lib/appointmentRecurrence.ts
+// Recurring appointments. A series is one stored appointment (the "master") whose `recurrence` holds an
+// RFC 5545 RRULE subset (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, COUNT or UNTIL, BYDAY for weekly rules)
+// and whose `recurrenceExceptions` lists skipped days. Occurrences changed on their own are stored as
+// ordinary appointments pointing back with `seriesId` / `originalDate` (the RECURRENCE-ID in iCalendar).
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, isValid, parseISO, startOfDay, startOfWeek } from 'date-fns';
+import type { Appointment } from './appwrite';
+import { getAppointmentDurationMinutes, resolveAppointmentTimes } from './appointmentTime';
+
+// --- Types ---
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+/** Which occurrences an edit or delete applies to. */
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    /** Every n days / weeks / months (>= 1) */
+    interval: number;
+    /** Total occurrences, including skipped ones (as in RFC 5545) */
+    count?: number;
+    /** Last possible day, "yyyy-MM-dd" (inclusive) */
+    until?: string;
+    /** Weekly rules only: days of the week (0 = Sunday); defaults to the first occurrence's weekday */
+    byWeekday?: number[];
+}
+
+export interface OccurrenceOptions {
+    /** Days ("yyyy-MM-dd") to leave out */
+    exceptions?: string[];
+    /** Stop after this day (inclusive); needed for rules without COUNT or UNTIL */
+    to?: Date;
+}
+
+// --- Constants ---
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+    daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly',
+};
+export const recurrenceEditScopeLabels: Record<RecurrenceEditScope, string> = {
+    this: 'This appointment',
+    following: 'This and following appointments',
+    all: 'All appointments in the series',
+};
+
+/** Open-ended series are expanded this far ahead of today. */
+export const RECURRENCE_EXPANSION_DAYS = 180;
+/** Hard cap on occurrences generated per series. */
+export const MAX_OCCURRENCES = 500;
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+// --- Parsing & Formatting ---
+
+/** Parses a stored RRULE ("FREQ=WEEKLY;INTERVAL=2;COUNT=6", an "RRULE:" prefix is allowed). Unsupported rules give null. */
+export const parseRecurrenceRule = (value: string | null | undefined): RecurrenceRule | null => {
+    if (!value?.trim()) return null;
+    const parts = new Map(value.trim().replace(/^RRULE:/i, '').split(';').map(part => {
+        const [key, val = ''] = part.split('=');
+        return [key.trim().toUpperCase(), val.trim().toUpperCase()] as const;
+    }));
+    const frequency = RRULE_FREQUENCIES[parts.get('FREQ') ?? ''];
+    if (!frequency) return null;
+    const rule: RecurrenceRule = { frequency, interval: Math.max(1, parseInt(parts.get('INTERVAL') ?? '1', 10) || 1) };
+    const count = parseInt(parts.get('COUNT') ?? '', 10);
+    if (count > 0) rule.count = count;
+    const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+    if (frequency === 'weekly' && parts.get('BYDAY')) {
+        const days = parts.get('BYDAY').split(',').map(day => RRULE_WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0);
+        if (days.length > 0) rule.byWeekday = [...new Set(days)].sort();
+    }
+    return rule;
+};
+
+/** RRULE value for storage (no "RRULE:" prefix). UNTIL is stored as a date; calendar export turns it into a UTC date-time. */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    else if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    if (rule.frequency === 'weekly' && rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+    return parts.join(';');
+};
+
+/** Returns an error message, or null when the rule is usable. */
+export const validateRecurrenceRule = (rule: RecurrenceRule, firstDay?: string): string | null => {
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 99) return 'Repeat interval must be between 1 and 99.';
+    if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_OCCURRENCES)) return `Number of occurrences must be between 1 and ${MAX_OCCURRENCES}.`;
+    if (rule.until) {
+        const until = parseISO(rule.until);
+        if (!isValid(until)) return 'End date is not valid.';
+        if (firstDay && rule.until < firstDay) return 'End date must be on or after the first appointment.';
+    }
+    if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length === 0) return 'Choose at least one day of the week.';
+    return null;
+};
+
+/** e.g. "Every 2 weeks on Tue, Thu · 6 times" */
+export const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+    const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+    let text = rule.interval === 1 ? recurrenceFrequencyLabels[rule.frequency] : `Every ${rule.interval} ${unit}s`;
+    if (rule.frequency === 'weekly' && rule.byWeekday?.length) text += ` on ${rule.byWeekday.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+    if (rule.count) text += ` · ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+    else if (rule.until) text += ` · until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+    return text;
+};
+
+// --- Occurrences ---
+
+/** The calendar day ("yyyy-MM-dd") of an appointment's stored `date` (a day or an ISO datetime). */
+export const getAppointmentDay = (app: Pick<Appointment, 'date'>): string => (app.date ?? '').split('T')[0];
+
+/**
+ * Occurrence days of a series starting on `firstDay`, oldest first. COUNT includes excepted days
+ * (they are generated, then left out), matching RFC 5545.
+ */
+export const getOccurrenceDates = (rule: RecurrenceRule, firstDay: string, options: OccurrenceOptions = {}): string[] => {
+    const start = parseISO(firstDay);
+    if (!isValid(start)) return [];
+    const exceptions = new Set(options.exceptions ?? []);
+    const last = [rule.until ? parseISO(rule.until) : null, options.to ? startOfDay(options.to) : null]
+        .filter((d): d is Date => !!d && isValid(d))
+        .reduce<Date | null>((min, d) => (!min || d < min ? d : min), null);
+    if (!rule.count && !last) return []; // Open-ended rules need a window
+
+    const days: string[] = [];
+    let generated = 0;
+    const accept = (day: Date): boolean => {
+        if (day < start) return true;
+        if ((last && day > last) || (rule.count && generated >= rule.count) || generated >= MAX_OCCURRENCES) return false;
+        generated++;
+        const key = format(day, DAY_FORMAT);
+        if (!exceptions.has(key)) days.push(key);
+        return true;
+    };
+
+    if (rule.frequency === 'daily') {
+        for (let i = 0; accept(addDays(start, i * rule.interval)); i++);
+    } else if (rule.frequency === 'weekly') {
+        const weekdays = rule.byWeekday?.length ? rule.byWeekday : [start.getDay()];
+        const firstWeek = startOfWeek(start);
+        outer: for (let week = 0; ; week += rule.interval) {
+            for (const weekday of weekdays) {
+                if (!accept(addDays(firstWeek, week * 7 + weekday))) break outer;
+            }
+        }
+    } else {
+        const dayOfMonth = start.getDate();
+        for (let i = 0; ; i++) {
+            const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), i * rule.interval);
+            if (dayOfMonth > getDaysInMonth(month)) { // e.g. the 31st in a 30-day month: skipped, as in RFC 5545
+                if (i > MAX_OCCURRENCES) break;
+                continue;
+            }
+            if (!accept(new Date(month.getFullYear(), month.getMonth(), dayOfMonth))) break;
+        }
+    }
+    return days;
+};
+
+/** The series (master appointment) ID an appointment belongs to, if any. */
+export const getSeriesId = (app: Appointment): string | undefined =>
+    app.occurrenceOf ?? app.seriesId ?? (parseRecurrenceRule(app.recurrence) ? app.$id : undefined);
+
+export const isRecurringAppointment = (app: Appointment): boolean => !!getSeriesId(app);
+
+/**
+ * Replaces each recurring master with its occurrences (up to `to`, default RECURRENCE_EXPANSION_DAYS ahead).
+ * Occurrences get an ID of `${masterId}_${yyyyMMdd}`, `occurrenceOf` and `originalDate`; everything else is
+ * copied from the master. Other appointments pass through. The result is sorted by day.
+ */
+export const expandAppointments = (appointments: Appointment[], to: Date = addDays(new Date(), RECURRENCE_EXPANSION_DAYS)): Appointment[] => {
+    const expanded: Appointment[] = [];
+    for (const app of appointments) {
+        const rule = app.occurrenceOf ? null : parseRecurrenceRule(app.recurrence); // Already-expanded occurrences pass through
+        if (!rule) { expanded.push(app); continue; }
+        const firstDay = getAppointmentDay(app);
+        const duration = getAppointmentDurationMinutes(app);
+        for (const day of getOccurrenceDates(rule, firstDay, { exceptions: app.recurrenceExceptions, to })) {
+            // Same wall-clock time every day, so each occurrence gets its own instants (DST changes in between)
+            const times = resolveAppointmentTimes(day, app.time, app.timeZone, duration) ?? {};
+            expanded.push({ ...app, ...times, $id: `${app.$id}_${day.replace(/-/g, '')}`, date: day, occurrenceOf: app.$id, originalDate: day });
+        }
+    }
+    return expanded.sort((a, b) => getAppointmentDay(a).localeCompare(getAppointmentDay(b)));
+};
+
+// --- Splitting ---
+
+/**
+ * Splits a series at `atDay` for "this and following" changes: `before` ends the original series the day
+ * before (null when `atDay` is the first occurrence), `after` continues from `atDay` with the remaining count.
+ */
+export const splitRecurrenceRule = (rule: RecurrenceRule, firstDay: string, atDay: string): { before: RecurrenceRule | null; after: RecurrenceRule } => {
+    if (atDay <= firstDay) return { before: null, after: rule };
+    const dayBefore = format(addDays(parseISO(atDay), -1), DAY_FORMAT);
+    // Count every generated occurrence (skipped ones included) so COUNT stays consistent on both sides
+    const generatedBefore = rule.count ? getOccurrenceDates({ ...rule, until: dayBefore }, firstDay).length : 0;
+    const before: RecurrenceRule = rule.count ? { ...rule, count: Math.max(1, generatedBefore), until: undefined } : { ...rule, until: dayBefore };
+    const after: RecurrenceRule = rule.count ? { ...rule, count: Math.max(1, rule.count - generatedBefore) } : { ...rule };
+    return { before, after };
+};
+
+/** Moves a day by the shift between two other days (used when "all" or "following" edits change the date). */
+export const shiftDay = (day: string, fromDay: string, toDay: string): string =>
+    format(addDays(parseISO(day), differenceInCalendarDays(parseISO(toDay), parseISO(fromDay))), DAY_FORMAT);
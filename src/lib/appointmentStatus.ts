@@ -0,0 +1,135 @@
+// src/lib/appointmentStatus.ts
+// Where an appointment is in its lifecycle. A patient's booking starts as a request that the practice
+// confirms; either side can move or cancel it, and after it starts a doctor records whether it took place.
+// Every change is also logged as an AppointmentStatusEvent, which is what the history view shows.
+import type { Appointment } from './appwrite';
+import { getAppointmentStart } from './appointmentTime';
+
+// --- Types ---
+
+export type AppointmentStatus =
+    | 'requested'
+    | 'confirmed'
+    | 'rescheduled'
+    | 'cancelled_by_patient'
+    | 'cancelled_by_provider'
+    | 'no_show'
+    | 'completed';
+
+/** Who changes a status: the patient who owns the appointment or a doctor ('doctor' label). */
+export type AppointmentActorRole = 'patient' | 'provider';
+
+export interface AppointmentStatusTransition {
+    to: AppointmentStatus;
+    /** Button text, e.g. "Confirm" */
+    action: string;
+    /** Only allowed once the appointment has started (no-show, completed) */
+    afterStart?: boolean;
+}
+
+// --- Constants ---
+
+export const APPOINTMENT_STATUSES: ReadonlyArray<AppointmentStatus> = [
+    'requested', 'confirmed', 'rescheduled', 'cancelled_by_patient', 'cancelled_by_provider', 'no_show', 'completed',
+];
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+    requested: 'Requested',
+    confirmed: 'Confirmed',
+    rescheduled: 'Rescheduled',
+    cancelled_by_patient: 'Cancelled by patient',
+    cancelled_by_provider: 'Cancelled by clinic',
+    no_show: 'No-show',
+    completed: 'Completed',
+};
+
+/** Tailwind classes for status badges. */
+export const appointmentStatusBadgeClasses: Record<AppointmentStatus, string> = {
+    requested: 'bg-amber-100 text-amber-800 border-amber-200',
+    confirmed: 'bg-green-100 text-green-800 border-green-200',
+    rescheduled: 'bg-sky-100 text-sky-800 border-sky-200',
+    cancelled_by_patient: 'bg-gray-100 text-gray-600 border-gray-200',
+    cancelled_by_provider: 'bg-red-100 text-red-700 border-red-200',
+    no_show: 'bg-orange-100 text-orange-800 border-orange-200',
+    completed: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+};
+
+/** Statuses whose appointment still takes up its time (shown as upcoming, blocks slots, gets reminders). */
+const ACTIVE_STATUSES: ReadonlyArray<AppointmentStatus> = ['requested', 'confirmed', 'rescheduled'];
+
+const CANCEL_BY_PATIENT: AppointmentStatusTransition = { to: 'cancelled_by_patient', action: 'Cancel' };
+const CANCEL_BY_PROVIDER: AppointmentStatusTransition = { to: 'cancelled_by_provider', action: 'Cancel' };
+const OUTCOMES: AppointmentStatusTransition[] = [
+    { to: 'completed', action: 'Mark completed', afterStart: true },
+    { to: 'no_show', action: 'Mark no-show', afterStart: true },
+];
+
+/**
+ * Status changes each side can make from each status. Moving an appointment to a new time ('rescheduled')
+ * happens through the edit form rather than a button, so it isn't listed. Cancelled, no-show and completed
+ * are final.
+ */
+const TRANSITIONS: Record<AppointmentActorRole, Partial<Record<AppointmentStatus, AppointmentStatusTransition[]>>> = {
+    patient: {
+        requested: [CANCEL_BY_PATIENT],
+        confirmed: [CANCEL_BY_PATIENT],
+        rescheduled: [CANCEL_BY_PATIENT],
+    },
+    provider: {
+        requested: [{ to: 'confirmed', action: 'Confirm' }, CANCEL_BY_PROVIDER],
+        confirmed: [CANCEL_BY_PROVIDER, ...OUTCOMES],
+        rescheduled: [{ to: 'confirmed', action: 'Confirm new time' }, CANCEL_BY_PROVIDER, ...OUTCOMES],
+    },
+};
+
+// --- Status ---
+
+export const isAppointmentStatus = (value: unknown): value is AppointmentStatus =>
+    typeof value === 'string' && (APPOINTMENT_STATUSES as ReadonlyArray<string>).includes(value);
+
+/**
+ * An appointment's status. Appointments saved before statuses existed were booked without a confirmation
+ * step, so they read as confirmed (or completed when `isCompleted` is set).
+ */
+export const getAppointmentStatus = (app: Pick<Appointment, 'status' | 'isCompleted'> | null | undefined): AppointmentStatus => {
+    if (isAppointmentStatus(app?.status)) return app.status;
+    return app?.isCompleted ? 'completed' : 'confirmed';
+};
+
+export const isActiveAppointmentStatus = (status: AppointmentStatus): boolean => ACTIVE_STATUSES.includes(status);
+
+/** Whether an appointment is still going ahead (not cancelled and no outcome recorded yet). */
+export const isAppointmentActive = (app: Pick<Appointment, 'status' | 'isCompleted'>): boolean =>
+    isActiveAppointmentStatus(getAppointmentStatus(app));
+
+export const isCancelledAppointmentStatus = (status: AppointmentStatus): boolean =>
+    status === 'cancelled_by_patient' || status === 'cancelled_by_provider';
+
+// --- Transitions ---
+
+/** Status changes `role` can make to an appointment now (outcomes only once it has started). */
+export const getAllowedStatusTransitions = (
+    app: Pick<Appointment, 'status' | 'isCompleted' | 'date' | 'time' | 'startsAt' | 'timeZone'>,
+    role: AppointmentActorRole,
+    now: Date = new Date(),
+): AppointmentStatusTransition[] => {
+    const started = (getAppointmentStart(app)?.getTime() ?? Infinity) <= now.getTime();
+    return (TRANSITIONS[role][getAppointmentStatus(app)] ?? []).filter(transition => !transition.afterStart || started);
+};
+
+/** Problem with a status change, for showing to the user; null when it's allowed. */
+export const validateStatusTransition = (
+    app: Pick<Appointment, 'status' | 'isCompleted' | 'date' | 'time' | 'startsAt' | 'timeZone'>,
+    to: AppointmentStatus,
+    role: AppointmentActorRole,
+    now: Date = new Date(),
+): string | null => {
+    const from = getAppointmentStatus(app);
+    if (to === 'rescheduled') {
+        return isActiveAppointmentStatus(from) ? null : `A ${appointmentStatusLabels[from].toLowerCase()} appointment can't be moved.`;
+    }
+    if (getAllowedStatusTransitions(app, role, now).some(transition => transition.to === to)) return null;
+    const outcome = (TRANSITIONS[role][from] ?? []).find(transition => transition.to === to);
+    if (outcome?.afterStart) return `An appointment can only be marked ${appointmentStatusLabels[to].toLowerCase()} once it has started.`;
+    return `${role === 'patient' ? 'Patients' : 'Doctors'} can't change a ${appointmentStatusLabels[from].toLowerCase()} appointment to ${appointmentStatusLabels[to].toLowerCase()}.`;
+};
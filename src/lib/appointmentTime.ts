@@ -0,0 +1,153 @@
+// src/lib/appointmentTime.ts
+// When an appointment happens. Appointments used to be a day (`date`) plus a free-form clock time
+// (`time`, "10:00 AM" or "14:30") without a zone, and every page rebuilt the start on its own (some read
+// the day as UTC midnight, which moved appointments a day early west of Greenwich). The canonical form is
+// now `startsAt` / `endsAt` (UTC instants) plus the IANA `timeZone` the time was booked in. `date` and
+// `time` stay as the wall-clock form that the booking forms edit and recurring series repeat on.
+import type { Appointment } from './appwrite';
+
+// --- Types ---
+
+/** A wall-clock time, read without a zone. Months are 1-12. */
+export interface WallTime {
+    year: number; month: number; day: number; hours: number; minutes: number; seconds: number;
+}
+
+/** The canonical time fields saved with an appointment. */
+export interface AppointmentTimes {
+    /** ISO instant (UTC) */
+    startsAt: string;
+    /** ISO instant (UTC) */
+    endsAt: string;
+    /** IANA zone the wall-clock `date` / `time` are in, e.g. "Asia/Kolkata" */
+    timeZone: string;
+}
+
+// --- Constants ---
+
+/** Length given to appointments that don't say how long they take. */
+export const DEFAULT_APPOINTMENT_DURATION_MINUTES = 30;
+
+const CLOCK_TIME_PATTERN = /(\d{1,2}):(\d{2})\s*(AM|PM)?/i;
+
+// --- Time Zones ---
+
+export const getDeviceTimeZone = (): string => {
+    try { return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'; }
+    catch { return 'UTC'; }
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+const getZoneFormatter = (timeZone: string): Intl.DateTimeFormat | null => {
+    if (!zoneFormatters.has(timeZone)) {
+        try {
+            zoneFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+                timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+            }));
+        } catch {
+            return null; // Not an IANA zone this runtime knows
+        }
+    }
+    return zoneFormatters.get(timeZone);
+};
+
+export const isKnownTimeZone = (timeZone: string | null | undefined): boolean => !!timeZone && !!getZoneFormatter(timeZone);
+
+/** Wall-clock time of an instant in a zone. */
+export const getWallTime = (instant: Date, timeZone: string): WallTime => {
+    const parts = Object.fromEntries(getZoneFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value]));
+    return {
+        year: Number(parts.year), month: Number(parts.month), day: Number(parts.day),
+        hours: Number(parts.hour) % 24, minutes: Number(parts.minute), seconds: Number(parts.second),
+    };
+};
+
+export const wallTimeToUtcMs = (wall: WallTime): number => Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds);
+
+/** UTC offset of a zone at an instant, in minutes (east positive). */
+export const getZoneOffsetMinutes = (instant: Date, timeZone: string): number =>
+    Math.round((wallTimeToUtcMs(getWallTime(instant, timeZone)) - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+
+/** The instant a wall-clock time in a zone refers to (times skipped by a DST change move forward). */
+export const zonedWallTimeToDate = (wall: WallTime, timeZone: string): Date => {
+    const guess = wallTimeToUtcMs(wall);
+    const first = guess - getZoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+    const second = guess - getZoneOffsetMinutes(new Date(first), timeZone) * 60000;
+    return new Date(Math.min(first, second));
+};
+
+// --- Parsing ---
+
+/** "10:30 AM" / "2:30 pm" / "14:30" -> hours (0-23) and minutes; null if it isn't a clock time. */
+export const parseClockTime = (time: string | null | undefined): { hours: number; minutes: number } | null => {
+    const match = time?.match(CLOCK_TIME_PATTERN);
+    if (!match) return null;
+    let hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const period = match[3]?.toUpperCase();
+    if (period) {
+        if (hours < 1 || hours > 12) return null;
+        if (period === 'PM' && hours !== 12) hours += 12;
+        if (period === 'AM' && hours === 12) hours = 0;
+    }
+    return hours > 23 || minutes > 59 ? null : { hours, minutes };
+};
+
+/** Hours (0-23) and minutes -> "09:30 AM", the form the booking forms store. */
+export const formatClockTime = (hours: number, minutes: number): string =>
+    `${String(hours % 12 === 0 ? 12 : hours % 12).padStart(2, '0')}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+
+/** Day ("yyyy-MM-dd", or the date part of an ISO string) + clock time -> wall-clock time. */
+export const getAppointmentWallTime = (day: string | null | undefined, time: string | null | undefined): WallTime | null => {
+    const [year, month, date] = (day ?? '').split('T')[0].split('-').map(Number);
+    const clock = parseClockTime(time);
+    if (!year || !month || !date || !clock) return null;
+    return { year, month, day: date, hours: clock.hours, minutes: clock.minutes, seconds: 0 };
+};
+
+/** Zone an appointment's `date` / `time` are in: its own, or the device's for appointments saved before zones were stored. */
+export const getAppointmentTimeZone = (app: Pick<Appointment, 'timeZone'> | null | undefined): string =>
+    isKnownTimeZone(app?.timeZone) ? app.timeZone : getDeviceTimeZone();
+
+/**
+ * Canonical times for a day and clock time booked in `timeZone` (default: the device's).
+ * Returns null when the day or time can't be read.
+ */
+export const resolveAppointmentTimes = (
+    date: string | null | undefined,
+    time: string | null | undefined,
+    timeZone?: string | null,
+    durationMinutes: number = DEFAULT_APPOINTMENT_DURATION_MINUTES,
+): AppointmentTimes | null => {
+    const zone = isKnownTimeZone(timeZone) ? timeZone : getDeviceTimeZone();
+    const wall = getAppointmentWallTime(date, time);
+    if (!wall) return null;
+    const start = zonedWallTimeToDate(wall, zone);
+    return { startsAt: start.toISOString(), endsAt: new Date(start.getTime() + durationMinutes * 60000).toISOString(), timeZone: zone };
+};
+
+/**
+ * When an appointment starts. Uses `startsAt` when saved, otherwise reads `date` / `time` in the
+ * appointment's zone. Null when neither can be read.
+ */
+export const getAppointmentStart = (app: Pick<Appointment, 'date' | 'time' | 'startsAt' | 'timeZone'> | null | undefined): Date | null => {
+    if (!app) return null;
+    const saved = app.startsAt ? new Date(app.startsAt) : null;
+    if (saved && !isNaN(saved.getTime())) return saved;
+    const wall = getAppointmentWallTime(app.date, app.time);
+    return wall ? zonedWallTimeToDate(wall, getAppointmentTimeZone(app)) : null;
+};
+
+/** When an appointment ends: `endsAt` when saved, otherwise the default length after the start. */
+export const getAppointmentEnd = (app: Pick<Appointment, 'date' | 'time' | 'startsAt' | 'endsAt' | 'timeZone'> | null | undefined): Date | null => {
+    const saved = app?.endsAt ? new Date(app.endsAt) : null;
+    if (saved && !isNaN(saved.getTime())) return saved;
+    const start = getAppointmentStart(app);
+    return start ? new Date(start.getTime() + DEFAULT_APPOINTMENT_DURATION_MINUTES * 60000) : null;
+};
+
+/** Length of an appointment in minutes, from `startsAt` / `endsAt` (default length when they're missing). */
+export const getAppointmentDurationMinutes = (app: Pick<Appointment, 'startsAt' | 'endsAt'> | null | undefined): number => {
+    const minutes = app?.startsAt && app?.endsAt ? Math.round((new Date(app.endsAt).getTime() - new Date(app.startsAt).getTime()) / 60000) : NaN;
+    return minutes > 0 ? minutes : DEFAULT_APPOINTMENT_DURATION_MINUTES;
+};
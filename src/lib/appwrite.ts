@@ -1,49 +1,72 @@
 // src/lib/appwrite.ts
 import {
-    Account,
-    Avatars,
-    Client,
-    Databases,
     ID,
     Query,
-    Storage,
     Models, // Use Models namespace for Document type
     Permission,
     Role,
     AppwriteException,
-    Functions
+    ExecutionMethod,
 } from 'appwrite';
 import { formatDistanceToNow, parseISO } from 'date-fns'; // Import date-fns
 import { ProductRecommendation } from './groqProduct';
+import { createDataBackend, createOfflineSync, resolveDataBackendKind } from './data';
+import {
+    RecurrenceEditScope, expandAppointments, getAppointmentDay, getSeriesId, parseRecurrenceRule, formatRecurrenceRule,
+    splitRecurrenceRule, shiftDay,
+} from './appointmentRecurrence';
+import { getAppointmentDurationMinutes, getAppointmentStart, resolveAppointmentTimes } from './appointmentTime';
+import { DEFAULT_PROVIDER_ID, ProviderSchedule, validateProviderSchedule } from './appointmentAvailability';
+import { AppointmentActorRole, AppointmentStatus, getAppointmentStatus, isAppointmentActive, validateStatusTransition } from './appointmentStatus';
+import { VisitSummaryInput, validateVisitSummaryInput } from './visitSummary';
+
+// --- Data Backend Selection ---
+// 'appwrite' talks to the configured Appwrite project; 'memory' keeps everything in the browser (IndexedDB-backed).
+// Set VITE_PUBLIC_DATA_BACKEND=memory to run the app, demos or tests without a live Appwrite project.
+export const dataBackendKind = resolveDataBackendKind();
+const isMemoryBackend = dataBackendKind === 'memory';
+/** In memory mode unset IDs fall back to readable names; in Appwrite mode they stay unset and fail the config check below. */
+const withMemoryFallback = (value: string | undefined, fallback: string): string => value || (isMemoryBackend ? fallback : value);
 // --- Configuration ---
 // Ensure your .env.local file (or environment variables) has these defined
-const endpoint: string = import.meta.env.VITE_PUBLIC_APPWRITE_ENDPOINT as string;
-const projectId: string = import.meta.env.VITE_PUBLIC_APPWRITE_PROJECT_ID as string;
-const databaseId: string = import.meta.env.VITE_PUBLIC_APPWRITE_BLOG_DATABASE_ID as string; // Main DB ID
+const endpoint: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_ENDPOINT as string, 'memory://local');
+const projectId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_PROJECT_ID as string, 'momcare-local');
+const databaseId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_BLOG_DATABASE_ID as string, 'momcare'); // Main DB ID
 
 // --- Collection IDs ---
 // Using descriptive names matching the purpose. Ensure these IDs exist in your Appwrite project.
-const blogCollectionId: string | undefined = import.meta.env.VITE_PUBLIC_APPWRITE_BLOG_COLLECTION_ID as string | undefined; // Optional
-const profilesCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID as string;
-const medicalDocumentsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_MEDICAL_DOCUMENTS_COLLECTION_ID as string;
-const appointmentsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_APPOINTMENTS_COLLECTION_ID as string;
-const bloodPressureCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_BP_COLLECTION_ID as string;
-const bloodSugarCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_SUGAR_COLLECTION_ID as string;
-const weightCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_WEIGHT_COLLECTION_ID as string;
-const medicationRemindersCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_MEDS_COLLECTION_ID as string;
-const chatHistoryCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_HISTORY_COLLECTION_ID as string;
-const bookmarkedMessagesCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_BOOKMARKS_COLLECTION_ID as string;
-const forumTopicsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_TOPICS_COLLECTION_ID as string;
-const forumPostsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_POSTS_COLLECTION_ID as string;
+const blogCollectionId: string | undefined = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_BLOG_COLLECTION_ID as string | undefined, 'blogs'); // Optional
+const profilesCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID as string, 'profiles');
+const medicalDocumentsCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_MEDICAL_DOCUMENTS_COLLECTION_ID as string, 'medicalDocuments');
+const appointmentsCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_APPOINTMENTS_COLLECTION_ID as string, 'appointments');
+const bloodPressureCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_BP_COLLECTION_ID as string, 'bloodPressure');
+const bloodSugarCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_SUGAR_COLLECTION_ID as string, 'bloodSugar');
+const weightCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_WEIGHT_COLLECTION_ID as string, 'weight');
+const kickCountCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_KICK_COUNT_COLLECTION_ID as string || 'kickCounts';
+const contractionSessionsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_CONTRACTIONS_COLLECTION_ID as string || 'contractionSessions';
+const clinicalThresholdsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_CLINICAL_THRESHOLDS_COLLECTION_ID as string || 'clinicalThresholds';
+const appointmentStatusEventsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_APPOINTMENT_STATUS_EVENTS_COLLECTION_ID as string || 'appointmentStatusEvents';
+const visitSummariesCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_VISIT_SUMMARIES_COLLECTION_ID as string || 'visitSummaries';
+const providerAvailabilityCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_PROVIDER_AVAILABILITY_COLLECTION_ID as string || 'providerAvailability';
+const medicationRemindersCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_MEDS_COLLECTION_ID as string, 'medications');
+const medicationDosesCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_MEDICATION_DOSES_COLLECTION_ID as string || 'medicationDoses';
+const chatHistoryCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_HISTORY_COLLECTION_ID as string, 'chatHistory');
+const bookmarkedMessagesCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_BOOKMARKS_COLLECTION_ID as string, 'bookmarks');
+const forumTopicsCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_TOPICS_COLLECTION_ID as string, 'forumTopics');
+const forumPostsCollectionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_POSTS_COLLECTION_ID as string, 'forumPosts');
 const bookmarkedProductsCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_BOOKMARKED_PRODUCTS_COLLECTION_ID as string || 'bookmarkedProducts';
 const forumVotesCollectionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_VOTES_COLLECTION_ID as string || 'forumVotes';
-const userCountFunctionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_USER_COUNT_FUNCTION_ID as string;
+const userCountFunctionId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_USER_COUNT_FUNCTION_ID as string, 'getUserCount');
+const bookedTimesFunctionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_BOOKED_TIMES_FUNCTION_ID as string || 'appointmentBookedTimes';
+const appointmentStatusFunctionId: string = import.meta.env.VITE_PUBLIC_APPWRITE_APPOINTMENT_STATUS_FUNCTION_ID as string || 'appointmentStatus';
+// Optional: public URL (domain) of the appointmentCalendarFeed function. Unset hides calendar subscriptions
+const calendarFeedUrl: string | undefined = import.meta.env.VITE_PUBLIC_APPWRITE_CALENDAR_FEED_URL as string | undefined;
 // --- Bucket IDs ---
 // Ensure these Storage Buckets exist in your Appwrite project.
-export const profileBucketId: string = import.meta.env.VITE_PUBLIC_APPWRITE_PROFILE_BUCKET_ID as string;
-export const medicalBucketId: string = import.meta.env.VITE_PUBLIC_APPWRITE_MEDICAL_BUCKET_ID as string;
-export const chatImagesBucketId: string = import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_IMAGES_BUCKET_ID as string;
-export const generatedImageBucketId: string = import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_IMAGES_BUCKET_ID as string;
+export const profileBucketId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_PROFILE_BUCKET_ID as string, 'profilePhotos');
+export const medicalBucketId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_MEDICAL_BUCKET_ID as string, 'medicalFiles');
+export const chatImagesBucketId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_IMAGES_BUCKET_ID as string, 'chatImages');
+export const generatedImageBucketId: string = withMemoryFallback(import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_IMAGES_BUCKET_ID as string, 'chatImages');
 // Checks if essential configuration variables are present and not placeholders.
 const requiredConfigs: Record<string, string | undefined> = {
     endpoint,
@@ -78,8 +101,8 @@ const missingConfigs: string[] = Object.entries(requiredConfigs)
     })
     .map(([key]) => key);
 
-if (missingConfigs.length > 0) {
-    const errorMsg = `CRITICAL ERROR: Missing or invalid Appwrite configuration for: ${missingConfigs.join(', ')}. Check your environment variables (e.g., .env.local) and ensure all VITE_PUBLIC_APPWRITE_* variables are correctly set.`;
+if (!isMemoryBackend && missingConfigs.length > 0) {
+    const errorMsg = `CRITICAL ERROR: Missing or invalid Appwrite configuration for: ${missingConfigs.join(', ')}. Check your environment variables (e.g., .env.local) and ensure all VITE_PUBLIC_APPWRITE_* variables are correctly set, or set VITE_PUBLIC_DATA_BACKEND=memory to run without Appwrite.`;
     // console.error(errorMsg);
     // Throwing an error stops the app from potentially running incorrectly
     throw new Error(errorMsg);
@@ -87,17 +110,38 @@ if (missingConfigs.length > 0) {
     // console.log("Appwrite Config Loaded Successfully.");
 }
 
-// --- Appwrite Client Initialization ---
-const client = new Client();
-client.setEndpoint(endpoint).setProject(projectId);
+// --- Backend Initialization ---
+const backend = createDataBackend(dataBackendKind, { endpoint, projectId });
+
+// --- Offline Sync ---
+// Health readings, reminders and appointments are mirrored in IndexedDB with an outbox, so they can be
+// logged and viewed without a connection. Not needed for the memory backend, which is already local.
+export const offlineSync = createOfflineSync(backend.databases, {
+    enabled: !isMemoryBackend,
+    collectionIds: [
+        bloodPressureCollectionId,
+        bloodSugarCollectionId,
+        weightCollectionId,
+        kickCountCollectionId,
+        contractionSessionsCollectionId,
+        medicationRemindersCollectionId,
+        medicationDosesCollectionId,
+        appointmentsCollectionId,
+    ],
+    // A 401 while signed in means the user lacks permission for that document, so the change is rejected
+    hasSession: async () => {
+        try { await backend.account.get(); return true; }
+        catch (error) { if (error instanceof AppwriteException && error.code === 401) return false; throw error; }
+    },
+});
 
 // --- Service Exports ---
-// Instantiated Appwrite services for use throughout the application.
-export const account = new Account(client);
-export const avatars = new Avatars(client);
-export const databases = new Databases(client);
-export const storage = new Storage(client);
-export const functions = new Functions(client);
+// Services of the selected backend (Appwrite SDK or in-memory adapter) for use throughout the application.
+// Database calls go through the offline sync layer, which passes non-synced collections straight through.
+export const account = backend.account;
+export const databases = offlineSync.databases;
+export const storage = backend.storage;
+export const functions = backend.functions;
 
 // --- Type Definitions ---
 
@@ -162,6 +206,31 @@ export interface MedicationReminder extends AppwriteDocument {
     times?: string[]; // Array of times like "HH:MM" (optional)
     notes?: string; // Optional notes
     isActive?: boolean; // Reminder status (default: true)
+    /** JSON of MedicationSchedule (see lib/medicationSchedule.ts); older reminders only have frequency/times */
+    schedule?: string;
+    /** Units (tablets, ml...) left; supply isn't tracked when unset (see lib/medicationSupply.ts) */
+    quantityOnHand?: number;
+    /** Units used per dose (default 1) */
+    dosePerIntake?: number;
+    /** Warn to refill at or below this many units */
+    refillThreshold?: number;
+}
+/**
+ * A dose marked taken, skipped or snoozed. The log is append-only: the latest event
+ * (by `recordedAt`) for a reminder's `scheduledAt` is the dose's current state.
+ */
+export interface MedicationDoseEvent extends AppwriteDocument {
+    userId: string;
+    reminderId: string;
+    /** Snapshot so the log stays readable if the reminder is deleted */
+    medicationName: string;
+    /** ISO Datetime of the scheduled dose; for as-needed doses, when it was taken */
+    scheduledAt: string;
+    status: 'taken' | 'skipped' | 'snoozed';
+    /** ISO Datetime when the event was logged */
+    recordedAt: string;
+    /** ISO Datetime the reminder should come back, for 'snoozed' */
+    snoozedUntil?: string;
 }
 export interface BookmarkedProduct extends AppwriteDocument {
     userId: string;
@@ -192,8 +261,16 @@ export interface UserProfile extends AppwriteDocument {
     age?: number;
     gender?: string;
     address?: string;
-    /** Estimated weeks */
+    /** Estimated weeks as typed by the user. Does not advance on its own; prefer the dates below (see lib/pregnancyTimeline.ts) */
     weeksPregnant?: number;
+    /** ISO date (YYYY-MM-DD) of the first day of the last menstrual period */
+    lastMenstrualPeriod?: string;
+    /** ISO date (YYYY-MM-DD) of the estimated due date, e.g. from a dating scan or fertility clinic. Takes precedence over LMP */
+    estimatedDueDate?: string;
+    /** e.g., 'natural', 'ivf', 'iui', 'other' */
+    conceptionMethod?: 'natural' | 'ivf' | 'iui' | 'other';
+    /** ISO date (YYYY-MM-DD) the baby was born; switches the timeline to postpartum weeks */
+    deliveryDate?: string;
     /** Text description */
     preExistingConditions?: string;
     /** User's email (can be useful for queries, maybe indexed) */
@@ -213,6 +290,15 @@ export interface UserProfile extends AppwriteDocument {
     activityLevel?: string;
     /** Preferred AI chat tone (e.g., 'empathetic', 'direct') */
     chatTonePreference?: string;
+    /** Used with pre-pregnancy weight for the BMI-based weight gain band (see lib/clinicalThresholds.ts) */
+    heightCm?: number;
+    prePregnancyWeightKg?: number;
+    /** Display units as unit codes, e.g. ['lbs', 'mmol/L'] (see lib/units.ts). Unset means kg and mg/dL */
+    preferredUnits?: string[];
+    /** JSON of NotificationPreferences (see lib/notifications.ts). Unset means notifications are off */
+    notificationPreferences?: string;
+    /** Secret in the user's appointment calendar feed URL (see getCalendarFeedUrl). Unset/null means no feed */
+    calendarFeedToken?: string | null;
 }
 
 /**
@@ -260,15 +346,74 @@ export interface MedicalDocument extends AppwriteDocument {
 export interface Appointment extends AppwriteDocument {
     /** Should be indexed */
     userId: string;
-    /** ISO Datetime string (YYYY-MM-DDTHH:mm:ss.sssZ) - Recommended for proper sorting/filtering (should be indexed) */
+    /** Day of the appointment in its `timeZone` ("yyyy-MM-dd"; Appwrite returns it as an ISO datetime at midnight UTC) */
     date: string;
-    /** Time string (e.g., "10:00 AM", "14:30") - Potentially redundant if 'date' includes time, but can be useful for display */
-    time: string; // Kept for compatibility with ChatPage logic, though 'date' should ideally be datetime
+    /** Wall-clock time in `timeZone` (e.g., "10:00 AM", "14:30"); edited together with `date` */
+    time: string;
+    /** Start instant (ISO, UTC), derived from `date` / `time` / `timeZone` on every write (see lib/appointmentTime.ts) */
+    startsAt?: string;
+    /** End instant (ISO, UTC) */
+    endsAt?: string;
+    /** IANA zone the appointment was booked in, e.g. "Asia/Kolkata" */
+    timeZone?: string;
     notes?: string;
     /** Should be indexed if filtering by status */
     isCompleted?: boolean;
     /** e.g., 'doctor', 'yoga_class', 'lab_test' (consider indexing) */
     appointmentType?: string;
+    /** Recurring series only: RRULE (see lib/appointmentRecurrence.ts); `date` is the first occurrence */
+    recurrence?: string;
+    /** Recurring series only: days ("yyyy-MM-dd") without an occurrence, deleted or moved to an override */
+    recurrenceExceptions?: string[];
+    /** Overrides only: the series this occurrence was edited out of */
+    seriesId?: string;
+    /** Overrides and expanded occurrences: the occurrence's day in the series */
+    originalDate?: string;
+    /** Not stored: set on occurrences expanded from a series (their `$id` is synthetic) */
+    occurrenceOf?: string;
+    /** Lifecycle state (see lib/appointmentStatus.ts); missing on appointments saved before statuses existed */
+    status?: AppointmentStatus;
+    /** ISO Datetime of the last status change */
+    statusChangedAt?: string;
+    /** User ID of whoever made the last status change */
+    statusChangedBy?: string;
+}
+/** One status change of an appointment, kept as its history. Readable by the patient and doctors. */
+export interface AppointmentStatusEvent extends AppwriteDocument {
+    /** Document the change was written to (an override or series for occurrences of a recurring series) */
+    appointmentId: string;
+    /** The patient the appointment belongs to */
+    userId: string;
+    /** Occurrence day ("yyyy-MM-dd") the change was made from */
+    appointmentDate: string;
+    status: AppointmentStatus;
+    previousStatus?: AppointmentStatus;
+    actorId: string;
+    actorName?: string;
+    actorRole: AppointmentActorRole;
+    /** ISO Datetime */
+    changedAt: string;
+    /** e.g., a cancellation reason */
+    note?: string;
+}
+/** A doctor's write-up of a completed appointment (one per appointment; see lib/visitSummary.ts). Readable by the patient and doctors. */
+export interface VisitSummary extends AppwriteDocument {
+    /** The appointment's `$id` (for occurrences of a series, its occurrence ID); should be indexed */
+    appointmentId: string;
+    /** The patient (should be indexed) */
+    userId: string;
+    /** ISO Datetime the visit started, for ordering */
+    visitedAt: string;
+    appointmentType?: string;
+    /** JSON of `VisitVitals` from lib/visitSummary.ts */
+    vitals?: string;
+    findings?: string;
+    nextSteps?: string;
+    /** IDs of the patient's MedicalDocument records attached to the visit */
+    documentIds?: string[];
+    /** Doctor who last changed the summary */
+    authorId: string;
+    authorName?: string;
 }
 
 // --- Health Reading Types ---
@@ -282,9 +427,53 @@ interface HealthReadingBase extends AppwriteDocument {
 /** Represents a blood pressure reading document. */
 export interface BloodPressureReading extends HealthReadingBase { systolic: number; diastolic: number; }
 /** Represents a blood sugar reading document. */
+/** `level` is always stored in mg/dL; convert at the edges with lib/units.ts. */
 export interface BloodSugarReading extends HealthReadingBase { level: number; measurementType: 'fasting' | 'post_meal' | 'random'; }
 /** Represents a weight reading document. */
 export interface WeightReading extends HealthReadingBase { weight: number; unit: 'kg' | 'lbs'; }
+/** Represents a fetal kick counting session. `recordedAt` is when the session ended. */
+export interface KickCountReading extends HealthReadingBase {
+    /** Movements felt during the session */
+    kickCount: number;
+    /** Seconds from the start of the session until the last counted movement (or until it was stopped) */
+    durationSeconds: number;
+    /** ISO Datetime string when counting started */
+    startedAt: string;
+}
+/** Represents a finished contraction timing session. `recordedAt` is when timing ended. */
+export interface ContractionSession extends HealthReadingBase {
+    /** ISO Datetime string when timing started */
+    startedAt: string;
+    /** Contractions as ISO 8601 intervals ("start/end"), see lib/contractionTimer.ts */
+    contractions: string[];
+    /** Labor rule used for the session, e.g. '5-1-1' */
+    ruleId: string;
+    /** Whether the contractions matched the rule at some point during the session */
+    ruleMatched: boolean;
+}
+
+/** A doctor's per-patient adjustments to the default clinical thresholds (one document per patient). */
+export interface ClinicalThresholdOverride extends AppwriteDocument {
+    /** Patient's user ID (should be indexed) */
+    userId: string;
+    /** JSON of `ClinicalThresholdOverrides` from lib/clinicalThresholds.ts */
+    overrides: string;
+    /** Doctor who last changed the thresholds */
+    updatedBy: string;
+    updatedByName?: string;
+    notes?: string;
+}
+
+/** When a provider takes bookings (one document per provider; see lib/appointmentAvailability.ts). */
+export interface ProviderAvailability extends AppwriteDocument {
+    /** DEFAULT_PROVIDER_ID for the practice-wide schedule (should be indexed) */
+    providerId: string;
+    /** JSON of `ProviderSchedule` from lib/appointmentAvailability.ts */
+    schedule: string;
+    /** Doctor who last changed the schedule */
+    updatedBy: string;
+    updatedByName?: string;
+}
 
 // --- Chat History & Session Types ---
 /** Represents a single message in the chat history */
@@ -323,12 +512,24 @@ export interface BookmarkedMessage extends AppwriteDocument {
 }
 
 // --- Specific Input Types for Create Functions ---
-export type CreateAppointmentData = Pick<Appointment, 'date' | 'time'> & Partial<Pick<Appointment, 'notes' | 'appointmentType' | 'isCompleted'>>;
-export type CreateBPData = Pick<BloodPressureReading, 'systolic' | 'diastolic'>;
-export type CreateSugarData = Pick<BloodSugarReading, 'level' | 'measurementType'>;
-export type CreateWeightData = Pick<WeightReading, 'weight' | 'unit'>;
-export type CreateMedicationReminderData = Pick<MedicationReminder, 'medicationName' | 'dosage' | 'frequency'> & Partial<Pick<MedicationReminder, 'times' | 'notes' | 'isActive'>>;
+/** `durationMinutes` sets `endsAt` (default: DEFAULT_APPOINTMENT_DURATION_MINUTES). */
+export type CreateAppointmentData = Pick<Appointment, 'date' | 'time'> & Partial<Pick<Appointment, 'timeZone' | 'notes' | 'appointmentType' | 'isCompleted' | 'recurrence' | 'recurrenceExceptions' | 'seriesId' | 'originalDate' | 'status' | 'statusChangedAt' | 'statusChangedBy'>> & { durationMinutes?: number };
+/** Stored fields plus `durationMinutes`, which moves `endsAt` (omit it to keep the current length). */
+export type UpdateAppointmentData = Partial<Pick<Appointment, 'date' | 'time' | 'startsAt' | 'endsAt' | 'timeZone' | 'notes' | 'isCompleted' | 'appointmentType' | 'recurrence' | 'recurrenceExceptions' | 'seriesId' | 'originalDate' | 'status' | 'statusChangedAt' | 'statusChangedBy'>> & { durationMinutes?: number };
+/** Fields an occurrence edit can change; `recurrence` only applies to "following" / "all" edits. */
+export type AppointmentOccurrenceChanges = Partial<Pick<Appointment, 'date' | 'time' | 'notes' | 'appointmentType' | 'recurrence' | 'status' | 'statusChangedAt' | 'statusChangedBy'>> & { durationMinutes?: number };
+/** Optional `recordedAt` on manual readings lets users backdate a reading they forgot to log (defaults to now, never in the future). */
+export type CreateBPData = Pick<BloodPressureReading, 'systolic' | 'diastolic'> & Partial<Pick<BloodPressureReading, 'recordedAt'>>;
+export type CreateSugarData = Pick<BloodSugarReading, 'level' | 'measurementType'> & Partial<Pick<BloodSugarReading, 'recordedAt'>>;
+export type CreateWeightData = Pick<WeightReading, 'weight' | 'unit'> & Partial<Pick<WeightReading, 'recordedAt'>>;
+export type CreateKickCountData = Pick<KickCountReading, 'kickCount' | 'durationSeconds' | 'startedAt'>;
+export type CreateContractionSessionData = Pick<ContractionSession, 'startedAt' | 'contractions' | 'ruleId' | 'ruleMatched'>;
+export type CreateMedicationReminderData = Pick<MedicationReminder, 'medicationName' | 'dosage' | 'frequency'> & Partial<Pick<MedicationReminder, 'times' | 'notes' | 'isActive' | 'schedule' | 'quantityOnHand' | 'dosePerIntake' | 'refillThreshold'>>;
+export type CreateMedicationDoseData = Pick<MedicationDoseEvent, 'reminderId' | 'medicationName' | 'scheduledAt' | 'status'> & Partial<Pick<MedicationDoseEvent, 'snoozedUntil'>>;
 export type CreateBlogPostData = Pick<BlogPost, 'title' | 'slug' | 'content' | 'author'> & Partial<Pick<BlogPost, 'category' | 'tags' | 'publishedAt' | 'imageFileId' | 'imageUrl'>>;
+export type UpdateBPData = Partial<CreateBPData>;
+export type UpdateSugarData = Partial<CreateSugarData>;
+export type UpdateWeightData = Partial<CreateWeightData>;
 export type UpdateBlogPostData = Partial<Pick<BlogPost, 'slug' | 'title' | 'content' | 'category' | 'imageUrl' | 'imageFileId' | 'tags'>>;
 export type CreateBookmarkData = Pick<BookmarkedMessage, 'messageContent'>;
 
@@ -383,6 +584,11 @@ export const getCurrentUser = async (): Promise<Models.User<Models.Preferences>
     try { return await account.get(); }
     catch (error) { if (error instanceof AppwriteException && (error.code === 401 || error.type?.includes('unauthorized'))) return null; handleAppwriteError(error, 'fetching current user', false); return null; }
 };
+/** Short-lived (15 min) token proving the current session to our own backend, e.g. the AI proxy. */
+export const createSessionJwt = async (): Promise<string> => {
+    try { const { jwt } = await account.createJWT(); return jwt; }
+    catch (error) { handleAppwriteError(error, 'creating session token'); throw error; }
+};
 
 
 // --- Blog Post Functions --- (Optional)
@@ -476,33 +682,340 @@ export const getFilePreview = (fileId: string, bucketIdToUse: string): URL | nul
 
 
 // --- Appointment Functions ---
+// On Appwrite, patients and doctors can only read appointments: the appointmentStatus function writes them, so it
+// can check every status change. The memory backend writes them here.
+/** Runs the appointmentStatus function (see functions/appointmentStatus/README.md). Needs a connection. */
+const executeAppointmentWrite = async (request: Record<string, unknown>): Promise<{ appointment?: Appointment }> => {
+    if (!offlineSync.getStatus().online) throw new Error("Saving appointments needs a connection. Try again when you're back online.");
+    const result = await functions.createExecution( appointmentStatusFunctionId, JSON.stringify(request), false, '/', ExecutionMethod.POST, { 'content-type': 'application/json' } );
+    let response: { appointment?: Appointment; error?: string } = {};
+    try { response = JSON.parse(typeof result.responseBody === 'string' && result.responseBody ? result.responseBody : '{}'); } catch { /* Reported below */ }
+    if (result.status !== 'completed' || result.responseStatusCode >= 400) throw new Error(response.error || `Could not save the appointment (status: ${result.status}).`);
+    // The local copy didn't see this write; have the next list fetch the server's
+    offlineSync.invalidate(appointmentsCollectionId);
+    return response;
+};
+/** The stored document an appointment (or an occurrence of a recurring one) lives on, as the function expects it. */
+const getAppointmentTarget = (appointment: Appointment): { appointmentId: string; occurrenceDate?: string } => ({
+    appointmentId: appointment.occurrenceOf ?? appointment.$id,
+    occurrenceDate: appointment.occurrenceOf ? appointment.originalDate ?? getAppointmentDay(appointment) : undefined,
+});
 export const createAppointment = async (userId: string, appointmentData: CreateAppointmentData): Promise<Appointment> => {
      if (!userId || !appointmentsCollectionId || !appointmentData?.date?.trim() || !appointmentData?.time?.trim()) throw new Error("User ID, collection ID, date, and time required.");
-    try { const dataToCreate: Omit<Appointment, keyof AppwriteDocument> = { userId: userId, date: appointmentData.date.trim(), time: appointmentData.time.trim(), isCompleted: appointmentData.isCompleted ?? false, appointmentType: appointmentData.appointmentType?.trim() || 'General', notes: appointmentData.notes?.trim() || undefined, }; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.update(userRole), Permission.delete(userRole) ]; return await databases.createDocument<Appointment>( databaseId, appointmentsCollectionId, ID.unique(), dataToCreate, permissions ); }
+     const times = resolveAppointmentTimes(appointmentData.date.trim(), appointmentData.time.trim(), appointmentData.timeZone, appointmentData.durationMinutes);
+     if (!times) throw new Error("Appointment date must be yyyy-MM-dd and time like \"10:00 AM\" or \"14:30\".");
+    // On Appwrite the appointmentStatus function writes it (always as requested)
+    if (!isMemoryBackend) {
+        const { date, time, durationMinutes, appointmentType, notes, recurrence, recurrenceExceptions, seriesId, originalDate } = appointmentData;
+        try { return (await executeAppointmentWrite({ action: 'create', appointment: { date: date.trim(), time: time.trim(), timeZone: times.timeZone, durationMinutes, appointmentType, notes, recurrence, recurrenceExceptions, seriesId, originalDate } })).appointment; }
+        catch (error) { handleAppwriteError(error, `creating appointment for user ${userId}`); throw error; }
+    }
+    try { const dataToCreate: Omit<Appointment, keyof AppwriteDocument> = { userId: userId, date: appointmentData.date.trim(), time: appointmentData.time.trim(), ...times, isCompleted: appointmentData.isCompleted ?? appointmentData.status === 'completed', status: appointmentData.status ?? 'requested', statusChangedAt: appointmentData.statusChangedAt ?? new Date().toISOString(), statusChangedBy: appointmentData.statusChangedBy ?? userId, appointmentType: appointmentData.appointmentType?.trim() || 'General', notes: appointmentData.notes?.trim() || undefined, recurrence: appointmentData.recurrence || undefined, recurrenceExceptions: appointmentData.recurrence ? appointmentData.recurrenceExceptions ?? [] : undefined, seriesId: appointmentData.seriesId || undefined, originalDate: appointmentData.originalDate || undefined, }; const permissions = [ Permission.read(Role.user(userId)), Permission.read(Role.label('doctor')) ]; return await databases.createDocument<Appointment>( databaseId, appointmentsCollectionId, ID.unique(), dataToCreate, permissions ); }
     catch (error) { handleAppwriteError(error, `creating appointment for user ${userId}`); throw error; }
 };
-export const getUserAppointments = async (userId: string): Promise<Appointment[]> => {
+/** The user's appointments as stored: recurring series are single documents (used for calendar export). */
+export const getUserAppointmentRecords = async (userId: string): Promise<Appointment[]> => {
   if (!userId || !appointmentsCollectionId) { /*console.warn("getUserAppointments: User ID or Collection ID missing.");*/ return []; }
  try { const response = await databases.listDocuments<Appointment>( databaseId, appointmentsCollectionId, [ Query.equal('userId', userId), Query.orderAsc('date'), Query.limit(100) ] ); return response.documents; }
  catch (error) { handleAppwriteError(error, `fetching appointments for user ${userId}`, false); return []; }
 };
-export const updateAppointment = async (appointmentDocumentId: string, appointmentData: Partial<Omit<Appointment, keyof AppwriteDocument | 'userId'>>): Promise<Appointment> => {
+/** The user's appointments, with recurring series expanded into their occurrences (see lib/appointmentRecurrence.ts). */
+export const getUserAppointments = async (userId: string): Promise<Appointment[]> => expandAppointments(await getUserAppointmentRecords(userId));
+/** Writes to one stored appointment (memory backend only; on Appwrite the appointmentStatus function does). */
+const updateAppointment = async (appointmentDocumentId: string, appointmentData: UpdateAppointmentData): Promise<Appointment> => {
      if (!appointmentsCollectionId || !appointmentDocumentId) throw new Error("Collection ID and document ID required for update.");
-    try { const dataToUpdate = { ...appointmentData }; delete (dataToUpdate as any).userId; const filteredUpdateData = Object.fromEntries(Object.entries(dataToUpdate).filter(([_, v]) => v !== undefined)); if (Object.keys(filteredUpdateData).length === 0) { /*console.warn(`updateAppointment called with no data for doc ${appointmentDocumentId}.`);*/ return await databases.getDocument<Appointment>(databaseId, appointmentsCollectionId, appointmentDocumentId); } return await databases.updateDocument<Appointment>( databaseId, appointmentsCollectionId, appointmentDocumentId, filteredUpdateData ); }
+    try { const { durationMinutes, ...dataToUpdate } = appointmentData; delete (dataToUpdate as any).userId; const filteredUpdateData: Partial<Appointment> = Object.fromEntries(Object.entries(dataToUpdate).filter(([_, v]) => v !== undefined)); if (Object.keys(filteredUpdateData).length === 0 && durationMinutes === undefined) { /*console.warn(`updateAppointment called with no data for doc ${appointmentDocumentId}.`);*/ return await databases.getDocument<Appointment>(databaseId, appointmentsCollectionId, appointmentDocumentId); }
+        // A new day, time, zone or length moves the canonical start and end (keeping the length unless given)
+        if (filteredUpdateData.date !== undefined || filteredUpdateData.time !== undefined || filteredUpdateData.timeZone !== undefined || durationMinutes !== undefined) { const current = await databases.getDocument<Appointment>(databaseId, appointmentsCollectionId, appointmentDocumentId); const times = resolveAppointmentTimes(filteredUpdateData.date ?? current.date, filteredUpdateData.time ?? current.time, filteredUpdateData.timeZone ?? current.timeZone, durationMinutes ?? getAppointmentDurationMinutes(current)); if (!times) throw new Error("Appointment date must be yyyy-MM-dd and time like \"10:00 AM\" or \"14:30\"."); Object.assign(filteredUpdateData, times); }
+        // `isCompleted` is kept in step with the status for the completion index and older readers
+        if (filteredUpdateData.status !== undefined) filteredUpdateData.isCompleted = filteredUpdateData.status === 'completed';
+        return await databases.updateDocument<Appointment>( databaseId, appointmentsCollectionId, appointmentDocumentId, filteredUpdateData ); }
     catch (error) { handleAppwriteError(error, `updating appointment ${appointmentDocumentId}`); throw error; }
 };
-export const deleteAppointment = async (appointmentDocumentId: string): Promise<void> => {
+const deleteAppointment = async (appointmentDocumentId: string): Promise<void> => {
      if (!appointmentsCollectionId || !appointmentDocumentId) throw new Error("Collection ID and document ID required for deletion.");
     try { await databases.deleteDocument(databaseId, appointmentsCollectionId, appointmentDocumentId); }
     catch (error) { handleAppwriteError(error, `deleting appointment ${appointmentDocumentId}`); throw error; }
 };
 
+// --- Recurring Appointment Functions ---
+/** Occurrences edited out of a series (stored with its `seriesId`). */
+const getSeriesOverrides = async (seriesId: string): Promise<Appointment[]> => {
+    const response = await databases.listDocuments<Appointment>(databaseId, appointmentsCollectionId, [ Query.equal('seriesId', seriesId), Query.limit(100) ]);
+    return response.documents;
+};
+/** Resolves an appointment to its series master and occurrence day; null for one-off appointments. */
+const resolveSeries = async (appointment: Appointment): Promise<{ master: Appointment; day: string } | null> => {
+    const seriesId = getSeriesId(appointment);
+    if (!seriesId) return null;
+    const master = seriesId === appointment.$id ? appointment : await databases.getDocument<Appointment>(databaseId, appointmentsCollectionId, seriesId);
+    if (!parseRecurrenceRule(master.recurrence)) return null;
+    return { master, day: appointment.originalDate ?? getAppointmentDay(appointment) };
+};
+/**
+ * Applies an edit to one occurrence, this and following occurrences, or the whole series.
+ * "This" stores the occurrence as an override and skips it in the series; "following" ends the series the
+ * day before and starts a new one; "all" updates the series (a changed date shifts every occurrence).
+ * One-off appointments are simply updated. Returns the document the change was written to.
+ */
+export const updateAppointmentOccurrence = async (appointment: Appointment, changes: AppointmentOccurrenceChanges, scope: RecurrenceEditScope): Promise<Appointment> => {
+    if (!appointmentsCollectionId || !appointment?.$id) throw new Error("Collection ID and appointment required for update.");
+    try {
+        if (!isMemoryBackend) {
+            const { status, statusChangedAt: _changedAt, statusChangedBy: _changedBy, ...edits } = changes;
+            return (await executeAppointmentWrite({ action: 'edit', ...getAppointmentTarget(appointment), scope, status, changes: { ...edits, date: edits.date?.split('T')[0] } })).appointment;
+        }
+        const series = await resolveSeries(appointment);
+        if (!series) { const { recurrence: _recurrence, ...rest } = changes; return await updateAppointment(appointment.$id, rest); }
+        const { master, day } = series;
+        const masterDay = getAppointmentDay(master);
+        const newDay = changes.date ? changes.date.split('T')[0] : getAppointmentDay(appointment);
+        const details = {
+            time: changes.time, notes: changes.notes, appointmentType: changes.appointmentType, durationMinutes: changes.durationMinutes,
+            status: changes.status, statusChangedAt: changes.statusChangedAt, statusChangedBy: changes.statusChangedBy,
+        };
+        // New documents carved out of the series start from its status unless the edit changes it
+        const seriesStatus = {
+            status: changes.status ?? master.status, statusChangedAt: changes.statusChangedAt ?? master.statusChangedAt, statusChangedBy: changes.statusChangedBy ?? master.statusChangedBy,
+        };
+        // New documents carved out of the series keep its zone and length unless the edit changes them
+        const seriesTiming = { timeZone: master.timeZone, durationMinutes: changes.durationMinutes ?? getAppointmentDurationMinutes(master) };
+
+        if (scope === 'this') {
+            if (appointment.seriesId) return await updateAppointment(appointment.$id, { ...details, date: newDay });
+            await updateAppointment(master.$id, { recurrenceExceptions: [...new Set([...(master.recurrenceExceptions ?? []), day])] });
+            return await createAppointment(master.userId, {
+                date: newDay, time: changes.time ?? master.time, notes: changes.notes ?? master.notes, appointmentType: changes.appointmentType ?? master.appointmentType,
+                isCompleted: master.isCompleted, seriesId: master.$id, originalDate: day, ...seriesTiming, ...seriesStatus,
+            });
+        }
+
+        if (scope === 'all' || day <= masterDay) {
+            return await updateAppointment(master.$id, { ...details, date: shiftDay(masterDay, day, newDay), recurrence: changes.recurrence });
+        }
+
+        // This and following: end the current series the day before and continue as a new one
+        const rule = parseRecurrenceRule(master.recurrence);
+        const { before, after } = splitRecurrenceRule(rule, masterDay, day);
+        const exceptions = master.recurrenceExceptions ?? [];
+        await updateAppointment(master.$id, { recurrence: formatRecurrenceRule(before), recurrenceExceptions: exceptions.filter(d => d < day) });
+        const next = await createAppointment(master.userId, {
+            date: newDay, time: changes.time ?? master.time, notes: changes.notes ?? master.notes, appointmentType: changes.appointmentType ?? master.appointmentType,
+            recurrence: changes.recurrence ?? formatRecurrenceRule(after),
+            recurrenceExceptions: exceptions.filter(d => d >= day).map(d => shiftDay(d, day, newDay)),
+            ...seriesTiming, ...seriesStatus,
+        });
+        for (const override of await getSeriesOverrides(master.$id)) {
+            if ((override.originalDate ?? '') >= day) await updateAppointment(override.$id, { seriesId: next.$id, originalDate: shiftDay(override.originalDate, day, newDay) });
+        }
+        return next;
+    }
+    catch (error) { handleAppwriteError(error, `updating appointment occurrence ${appointment.$id} (${scope})`); throw error; }
+};
+/** Deletes one occurrence, this and following occurrences, or the whole series (with its overrides). One-off appointments are simply deleted. */
+export const deleteAppointmentOccurrence = async (appointment: Appointment, scope: RecurrenceEditScope): Promise<void> => {
+    if (!appointmentsCollectionId || !appointment?.$id) throw new Error("Collection ID and appointment required for deletion.");
+    try {
+        if (!isMemoryBackend) { await executeAppointmentWrite({ action: 'delete', ...getAppointmentTarget(appointment), scope }); return; }
+        const series = await resolveSeries(appointment);
+        if (!series) { await deleteAppointment(appointment.$id); return; }
+        const { master, day } = series;
+        const masterDay = getAppointmentDay(master);
+
+        if (scope === 'this') {
+            // An override's day is already excepted from the series; otherwise skip the day
+            if (appointment.seriesId) await deleteAppointment(appointment.$id);
+            else await updateAppointment(master.$id, { recurrenceExceptions: [...new Set([...(master.recurrenceExceptions ?? []), day])] });
+            return;
+        }
+
+        const overrides = await getSeriesOverrides(master.$id);
+        if (scope === 'all' || day <= masterDay) {
+            for (const override of overrides) await deleteAppointment(override.$id);
+            await deleteAppointment(master.$id);
+            return;
+        }
+        const { before } = splitRecurrenceRule(parseRecurrenceRule(master.recurrence), masterDay, day);
+        await updateAppointment(master.$id, { recurrence: formatRecurrenceRule(before), recurrenceExceptions: (master.recurrenceExceptions ?? []).filter(d => d < day) });
+        for (const override of overrides) {
+            if ((override.originalDate ?? '') >= day) await deleteAppointment(override.$id);
+        }
+    }
+    catch (error) { handleAppwriteError(error, `deleting appointment occurrence ${appointment.$id} (${scope})`); throw error; }
+};
+
+// --- Appointment Status Functions ---
+// Statuses are changed by the appointmentStatus function, which checks the caller's 'doctor' label and the
+// transition and writes the history.
+/** Who is changing an appointment's status; patients may only change their own appointments. */
+export interface AppointmentActor { $id: string; name?: string; role: AppointmentActorRole }
+/** Adds an entry to an appointment's status history (memory backend only; on Appwrite the function writes it). */
+const logAppointmentStatusEvent = async (appointment: Appointment, actor: AppointmentActor, status: AppointmentStatus, details: { previousStatus?: AppointmentStatus; changedAt?: string; note?: string } = {}): Promise<AppointmentStatusEvent> => {
+    if (!appointment?.$id || !appointment.userId || !actor?.$id || !appointmentStatusEventsCollectionId) throw new Error("Appointment, actor and collection ID required to log a status change.");
+    try { const payload: Omit<AppointmentStatusEvent, keyof AppwriteDocument> = { appointmentId: appointment.$id, userId: appointment.userId, appointmentDate: getAppointmentDay(appointment), status, previousStatus: details.previousStatus, actorId: actor.$id, actorName: actor.name?.trim() || undefined, actorRole: actor.role, changedAt: details.changedAt ?? new Date().toISOString(), note: details.note?.trim() || undefined, }; const permissions = [ Permission.read(Role.user(appointment.userId)), Permission.read(Role.label('doctor')) ]; return await databases.createDocument<AppointmentStatusEvent>( databaseId, appointmentStatusEventsCollectionId, ID.unique(), payload, permissions ); }
+    catch (error) { handleAppwriteError(error, `logging status change for appointment ${appointment.$id}`); throw error; }
+};
+/** Starts a new booking's status history (on Appwrite the function already did when creating it). */
+export const recordAppointmentRequest = async (appointment: Appointment, actor: AppointmentActor): Promise<void> => {
+    if (!isMemoryBackend) return;
+    try { await logAppointmentStatusEvent(appointment, actor, 'requested'); }
+    catch (error) { handleAppwriteError(error, `recording booking ${appointment.$id}`); throw error; }
+};
+/**
+ * Moves an appointment to a new status (see lib/appointmentStatus.ts for who may make which change) and logs
+ * it. `changes` are the patient's own edit made first, e.g. the new day and time when rescheduling. Occurrences
+ * of a recurring series follow the usual edit scopes ('this' by default). Needs a connection.
+ */
+export const changeAppointmentStatus = async (appointment: Appointment, status: AppointmentStatus, actor: AppointmentActor, options: { scope?: RecurrenceEditScope; changes?: AppointmentOccurrenceChanges; note?: string } = {}): Promise<Appointment> => {
+    if (!appointment?.$id || !actor?.$id) throw new Error("Appointment and actor required to change status.");
+    if (actor.role === 'patient' && actor.$id !== appointment.userId) throw new Error("Patients can only change their own appointments.");
+    const problem = validateStatusTransition(appointment, status, actor.role);
+    if (problem) throw new Error(problem);
+    const scope = options.scope ?? 'this';
+    const previousStatus = getAppointmentStatus(appointment);
+    const changedAt = new Date().toISOString();
+    // The memory backend has no functions to run and doesn't enforce permissions, so it writes the change here
+    if (isMemoryBackend) {
+        const written = await updateAppointmentOccurrence(appointment, { ...options.changes, status, statusChangedAt: changedAt, statusChangedBy: actor.$id }, scope);
+        try { await logAppointmentStatusEvent(written, actor, status, { previousStatus, changedAt, note: options.note }); }
+        catch { /* Already reported by logAppointmentStatusEvent */ }
+        return written;
+    }
+    try {
+        // A move ('rescheduled') is saved together with the patient's edit
+        const changes = options.changes && { ...options.changes, date: options.changes.date?.split('T')[0] };
+        const { appointment: written } = await executeAppointmentWrite({ action: changes ? 'edit' : 'status', ...getAppointmentTarget(appointment), status, scope, changes, note: options.note });
+        return written;
+    }
+    catch (error) { handleAppwriteError(error, `changing status of appointment ${appointment.$id} to ${status}`); throw error; }
+};
+/** Status changes for an appointment, newest first, including changes made to the series it belongs to. */
+export const getAppointmentStatusHistory = async (appointment: Appointment): Promise<AppointmentStatusEvent[]> => {
+    if (!appointment?.$id || !appointmentStatusEventsCollectionId) return [];
+    // Expanded occurrences have a synthetic ID; their changes are stored on the series or an override
+    const documentIds = [...new Set([appointment.occurrenceOf ? null : appointment.$id, appointment.occurrenceOf, appointment.seriesId].filter(Boolean))];
+    try { const response = await databases.listDocuments<AppointmentStatusEvent>( databaseId, appointmentStatusEventsCollectionId, [ Query.equal('appointmentId', documentIds), Query.orderDesc('changedAt'), Query.limit(100) ] ); return response.documents; }
+    catch (error) { handleAppwriteError(error, `fetching status history for appointment ${appointment.$id}`, false); return []; }
+};
+
+// --- Visit Summary Functions ---
+/** The summary written for an appointment, or null if there is none yet. */
+export const getVisitSummary = async (appointmentId: string): Promise<VisitSummary | null> => {
+    if (!appointmentId || !visitSummariesCollectionId) return null;
+    try { const response = await databases.listDocuments<VisitSummary>( databaseId, visitSummariesCollectionId, [ Query.equal('appointmentId', appointmentId), Query.limit(1) ] ); return response.documents[0] ?? null; }
+    catch (error) { handleAppwriteError(error, `fetching visit summary for appointment ${appointmentId}`, false); return null; }
+};
+/** A patient's visit summaries, most recent visit first. Readable by the patient and doctors. */
+export const getUserVisitSummaries = async (userId: string, limit: number = 50): Promise<VisitSummary[]> => {
+    if (!userId || !visitSummariesCollectionId) return [];
+    try { const response = await databases.listDocuments<VisitSummary>( databaseId, visitSummariesCollectionId, [ Query.equal('userId', userId), Query.orderDesc('visitedAt'), Query.limit(limit) ] ); return response.documents; }
+    catch (error) { handleAppwriteError(error, `fetching visit summaries for user ${userId}`, false); return []; }
+};
+/** Creates or replaces the summary of a completed appointment. Only users with the 'doctor' label may write them. */
+export const saveVisitSummary = async (appointment: Appointment, doctor: { $id: string; name?: string }, input: VisitSummaryInput): Promise<VisitSummary> => {
+    if (!appointment?.$id || !appointment.userId || !doctor?.$id || !visitSummariesCollectionId) throw new Error("Appointment, doctor and collection ID required to save a visit summary.");
+    if (getAppointmentStatus(appointment) !== 'completed') throw new Error("Mark the appointment completed before writing its summary.");
+    const problem = validateVisitSummaryInput(input);
+    if (problem) throw new Error(problem);
+    const data = {
+        visitedAt: (getAppointmentStart(appointment) ?? parseISO(appointment.date)).toISOString(), appointmentType: appointment.appointmentType || undefined,
+        vitals: JSON.stringify(input.vitals ?? {}), findings: input.findings?.trim() || undefined, nextSteps: input.nextSteps?.trim() || undefined,
+        documentIds: [...new Set(input.documentIds ?? [])], authorId: doctor.$id, authorName: doctor.name?.trim() || undefined,
+    };
+    try {
+        const existing = await getVisitSummary(appointment.$id);
+        if (existing) return await databases.updateDocument<VisitSummary>( databaseId, visitSummariesCollectionId, existing.$id, data );
+        const permissions = [ Permission.read(Role.user(appointment.userId)), Permission.read(Role.label('doctor')), Permission.update(Role.label('doctor')), Permission.delete(Role.label('doctor')) ];
+        return await databases.createDocument<VisitSummary>( databaseId, visitSummariesCollectionId, ID.unique(), { appointmentId: appointment.$id, userId: appointment.userId, ...data }, permissions );
+    }
+    catch (error) { handleAppwriteError(error, `saving visit summary for appointment ${appointment.$id}`); throw error; }
+};
+export const deleteVisitSummary = async (documentId: string): Promise<void> => {
+    if (!visitSummariesCollectionId || !documentId) throw new Error("Collection ID and document ID required for deleting a visit summary.");
+    try { await databases.deleteDocument(databaseId, visitSummariesCollectionId, documentId); }
+    catch (error) { handleAppwriteError(error, `deleting visit summary ${documentId}`); throw error; }
+};
+
+// --- Provider Availability Functions ---
+/** A provider's schedule document, or null if none has been saved (the default schedule applies). Readable by all signed-in users. */
+export const getProviderAvailability = async (providerId: string = DEFAULT_PROVIDER_ID): Promise<ProviderAvailability | null> => {
+    if (!providerId || !providerAvailabilityCollectionId) return null;
+    try { const response = await databases.listDocuments<ProviderAvailability>( databaseId, providerAvailabilityCollectionId, [ Query.equal('providerId', providerId), Query.limit(1) ] ); return response.documents[0] ?? null; }
+    catch (error) { handleAppwriteError(error, `fetching availability for provider ${providerId}`, false); return null; }
+};
+/** Creates or replaces a provider's schedule. Only users with the 'doctor' label may change it. */
+export const saveProviderAvailability = async (schedule: ProviderSchedule, doctor: { $id: string; name?: string }, providerId: string = DEFAULT_PROVIDER_ID): Promise<ProviderAvailability> => {
+    if (!providerId || !doctor?.$id || !providerAvailabilityCollectionId) throw new Error("Provider ID, doctor and collection ID required to save availability.");
+    const problem = validateProviderSchedule(schedule);
+    if (problem) throw new Error(problem);
+    const data = { schedule: JSON.stringify(schedule), updatedBy: doctor.$id, updatedByName: doctor.name?.trim() || undefined };
+    try {
+        const existing = await getProviderAvailability(providerId);
+        if (existing) return await databases.updateDocument<ProviderAvailability>( databaseId, providerAvailabilityCollectionId, existing.$id, data );
+        const permissions = [ Permission.read(Role.users()), Permission.update(Role.label('doctor')), Permission.delete(Role.label('doctor')) ];
+        return await databases.createDocument<ProviderAvailability>( databaseId, providerAvailabilityCollectionId, ID.unique(), { providerId, ...data }, permissions );
+    }
+    catch (error) { handleAppwriteError(error, `saving availability for provider ${providerId}`); throw error; }
+};
+/**
+ * Times other patients have booked, with series expanded, from the appointmentBookedTimes function: only the
+ * timing fields, no user IDs or details. Patients can't read each other's appointments, so this is what keeps
+ * two of them from booking the same slot. Throws when the function can't be reached (e.g. offline).
+ */
+export const getBookedAppointmentTimes = async (): Promise<Appointment[]> => {
+    const context = `executing booked times function (${bookedTimesFunctionId})`;
+    try {
+        const result = await functions.createExecution( bookedTimesFunctionId, '', false, '/', ExecutionMethod.GET );
+        if (result.status !== 'completed' || result.responseStatusCode >= 400) throw new Error(`Could not check which times are already booked (status: ${result.status}).`);
+        const bookings = JSON.parse(typeof result.responseBody === 'string' ? result.responseBody : '{}').bookings;
+        if (!Array.isArray(bookings)) throw new Error("Invalid response format from function.");
+        return expandAppointments(bookings as Appointment[]);
+    }
+    catch (error) { handleAppwriteError(error, context); throw error; }
+};
+
+// --- Calendar Feed Functions ---
+// The appointmentCalendarFeed function serves a user's appointments as an iCalendar feed that calendar apps
+// subscribe to. Calendar apps can't log in, so the feed URL carries a secret token stored on the profile.
+export const isCalendarFeedAvailable = (): boolean => !!calendarFeedUrl && !isMemoryBackend;
+/** Subscription URL for a feed token (webcal:// opens the "subscribe" flow in calendar apps); null when there is no feed. */
+export const getCalendarFeedUrl = (token: string | null | undefined, timeZone: string, protocol: 'https' | 'webcal' = 'https'): string | null => {
+    if (!token || !isCalendarFeedAvailable()) return null;
+    const url = new URL(calendarFeedUrl);
+    url.searchParams.set('token', token);
+    url.searchParams.set('tz', timeZone);
+    return protocol === 'webcal' ? url.toString().replace(/^https?:/, 'webcal:') : url.toString();
+};
+/** Gives the profile a new feed token; any previously shared feed URL stops working. */
+export const rotateCalendarFeedToken = async (profileDocumentId: string): Promise<UserProfile> => {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const token = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return updateUserProfile(profileDocumentId, { calendarFeedToken: token });
+};
+export const disableCalendarFeed = async (profileDocumentId: string): Promise<UserProfile> =>
+    updateUserProfile(profileDocumentId, { calendarFeedToken: null });
+
 
 // --- Health Reading Functions ---
+/** Allowed clock drift between devices when checking that a reading time is not in the future. */
+const RECORDED_AT_FUTURE_TOLERANCE_MS = 60 * 1000;
+/** Normalizes a user-supplied reading time to ISO (defaulting to now) and rejects invalid or future timestamps. */
+const resolveRecordedAt = (recordedAt: string | undefined, collectionName: string): string => {
+    if (recordedAt === undefined || recordedAt === null || String(recordedAt).trim() === '') return new Date().toISOString();
+    const date = new Date(recordedAt);
+    if (isNaN(date.getTime())) throw new Error(`Invalid date/time for ${collectionName} reading.`);
+    if (date.getTime() > Date.now() + RECORDED_AT_FUTURE_TOLERANCE_MS) throw new Error(`${collectionName} reading time cannot be in the future.`);
+    return date.toISOString();
+};
+/** Same numeric checks as on create, applied to whichever fields are present. */
+const validateReadingNumbers = (data: object, collectionName: string): void => {
+    for (const [field, value] of Object.entries(data)) { if (typeof value !== 'number') continue; if (isNaN(value)) throw new Error(`Field '${field}' must be valid number.`); if (value < 0) throw new Error(`Field '${field}' must be non-negative.`); }
+};
 const createHealthReading = async <T extends HealthReadingBase, D extends object>( userId: string, collectionId: string, collectionName: string, data: D, requiredFields: (keyof D)[] ): Promise<T> => {
     if (!userId || !collectionId || !data) throw new Error(`User ID, Collection ID, and data required for ${collectionName}.`);
     for (const field of requiredFields) { const value = (data as any)[field]; if (value === null || value === undefined || String(value).trim() === '') throw new Error(`Field '${String(field)}' required for ${collectionName}.`); if (typeof value === 'number' && isNaN(value)) throw new Error(`Field '${String(field)}' must be valid number.`); if (typeof value === 'number' && value < 0 && !(collectionName === 'Blood Sugar' && field === 'level' && value === 0)) throw new Error(`Field '${String(field)}' must be non-negative.`); }
-    try { const payload = { userId, ...data, recordedAt: new Date().toISOString() } as Omit<T, keyof AppwriteDocument>; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.delete(userRole) ]; return await databases.createDocument<T>(databaseId, collectionId, ID.unique(), payload, permissions); }
+    const recordedAt = resolveRecordedAt((data as { recordedAt?: string }).recordedAt, collectionName);
+    try { const payload = { userId, ...data, recordedAt } as Omit<T, keyof AppwriteDocument>; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.update(userRole), Permission.delete(userRole) ]; return await databases.createDocument<T>(databaseId, collectionId, ID.unique(), payload, permissions); }
     catch (error) { handleAppwriteError(error, `creating ${collectionName} reading for user ${userId}`); throw error; }
 };
 const getHealthReadings = async <T extends HealthReadingBase>( userId: string, collectionId: string, collectionName: string, limit: number = 50 ): Promise<T[]> => {
@@ -510,6 +1023,49 @@ const getHealthReadings = async <T extends HealthReadingBase>( userId: string, c
     try { const response = await databases.listDocuments<T>( databaseId, collectionId, [ Query.equal('userId', userId), Query.orderDesc('recordedAt'), Query.limit(limit) ] ); return response.documents; }
     catch (error) { handleAppwriteError(error, `fetching ${collectionName} readings for user ${userId}`, false); return []; }
 };
+/** Optional inclusive `recordedAt` bounds (ISO strings) for bulk reading fetches. */
+export interface ReadingDateRange { from?: string; to?: string; }
+/**
+ * Fetches every reading in the range, newest first, paging with a cursor so imports/exports
+ * are not capped by the 50-record default used by the dashboard lists.
+ */
+const getAllHealthReadings = async <T extends HealthReadingBase>( userId: string, collectionId: string, collectionName: string, range: ReadingDateRange = {} ): Promise<T[]> => {
+    if (!userId || !collectionId) return [];
+    const batchLimit = 100; // Appwrite max limit per listDocuments call
+    const readings: T[] = [];
+    let cursor: string | undefined = undefined;
+    try {
+        while (true) {
+            const queries: string[] = [ Query.equal('userId', userId), Query.orderDesc('recordedAt'), Query.limit(batchLimit) ];
+            if (range.from) queries.push(Query.greaterThanEqual('recordedAt', range.from));
+            if (range.to) queries.push(Query.lessThanEqual('recordedAt', range.to));
+            if (cursor) queries.push(Query.cursorAfter(cursor));
+            const response = await databases.listDocuments<T>(databaseId, collectionId, queries);
+            readings.push(...response.documents);
+            if (response.documents.length < batchLimit) break;
+            cursor = response.documents[response.documents.length - 1].$id;
+        }
+        return readings;
+    }
+    catch (error) { handleAppwriteError(error, `fetching all ${collectionName} readings for user ${userId}`); throw error; }
+};
+/** Readings saved before editing was added have no update permission for their owner, so the server would refuse a correction. */
+export const canEditHealthReading = (reading: Pick<HealthReadingBase, 'userId' | '$permissions'>): boolean =>
+    !!reading?.userId && (reading.$permissions ?? []).includes(Permission.update(Role.user(reading.userId)));
+/** Corrects the values and/or time of an existing reading. Older readings can't be edited (see canEditHealthReading); delete and re-log them instead. */
+const updateHealthReading = async <T extends HealthReadingBase, D extends object>( documentId: string, collectionId: string, collectionName: string, data: Partial<D> ): Promise<T> => {
+    if (!collectionId || !documentId) throw new Error(`Collection ID and Document ID required for updating ${collectionName}.`);
+    const dataToUpdate: Record<string, unknown> = Object.fromEntries(Object.entries(data ?? {}).filter(([key, v]) => v !== undefined && key !== 'userId'));
+    validateReadingNumbers(dataToUpdate, collectionName);
+    if ('recordedAt' in dataToUpdate) dataToUpdate.recordedAt = resolveRecordedAt(dataToUpdate.recordedAt as string, collectionName);
+    try {
+        const existing = await databases.getDocument<T>(databaseId, collectionId, documentId);
+        if (Object.keys(dataToUpdate).length === 0) return existing;
+        if (!canEditHealthReading(existing)) throw new Error(`This ${collectionName} reading was saved before readings could be edited, so it can't be changed. Delete it and log the corrected value instead.`);
+        return await databases.updateDocument<T>(databaseId, collectionId, documentId, dataToUpdate as Partial<Omit<T, keyof AppwriteDocument>>);
+    }
+    catch (error) { handleAppwriteError(error, `updating ${collectionName} reading ${documentId}`); throw error; }
+};
 const deleteHealthReading = async (documentId: string, collectionId: string, collectionName: string): Promise<void> => {
     if (!collectionId || !documentId) throw new Error(`Collection ID and Document ID required for deleting ${collectionName}.`);
     try { await databases.deleteDocument(databaseId, collectionId, documentId); }
@@ -517,19 +1073,58 @@ const deleteHealthReading = async (documentId: string, collectionId: string, col
 };
 export const createBloodPressureReading = (userId: string, data: CreateBPData): Promise<BloodPressureReading> => createHealthReading<BloodPressureReading, CreateBPData>(userId, bloodPressureCollectionId, 'Blood Pressure', data, ['systolic', 'diastolic']);
 export const getBloodPressureReadings = (userId: string, limit: number = 50): Promise<BloodPressureReading[]> => getHealthReadings<BloodPressureReading>(userId, bloodPressureCollectionId, 'Blood Pressure', limit);
+export const getAllBloodPressureReadings = (userId: string, range?: ReadingDateRange): Promise<BloodPressureReading[]> => getAllHealthReadings<BloodPressureReading>(userId, bloodPressureCollectionId, 'Blood Pressure', range);
+export const updateBloodPressureReading = (documentId: string, data: UpdateBPData): Promise<BloodPressureReading> => updateHealthReading<BloodPressureReading, UpdateBPData>(documentId, bloodPressureCollectionId, 'Blood Pressure', data);
 export const deleteBloodPressureReading = (documentId: string): Promise<void> => deleteHealthReading(documentId, bloodPressureCollectionId, 'Blood Pressure');
 export const createBloodSugarReading = (userId: string, data: CreateSugarData): Promise<BloodSugarReading> => createHealthReading<BloodSugarReading, CreateSugarData>(userId, bloodSugarCollectionId, 'Blood Sugar', data, ['level', 'measurementType']);
 export const getBloodSugarReadings = (userId: string, limit: number = 50): Promise<BloodSugarReading[]> => getHealthReadings<BloodSugarReading>(userId, bloodSugarCollectionId, 'Blood Sugar', limit);
+export const getAllBloodSugarReadings = (userId: string, range?: ReadingDateRange): Promise<BloodSugarReading[]> => getAllHealthReadings<BloodSugarReading>(userId, bloodSugarCollectionId, 'Blood Sugar', range);
+export const updateBloodSugarReading = (documentId: string, data: UpdateSugarData): Promise<BloodSugarReading> => updateHealthReading<BloodSugarReading, UpdateSugarData>(documentId, bloodSugarCollectionId, 'Blood Sugar', data);
 export const deleteBloodSugarReading = (documentId: string): Promise<void> => deleteHealthReading(documentId, bloodSugarCollectionId, 'Blood Sugar');
 export const createWeightReading = (userId: string, data: CreateWeightData): Promise<WeightReading> => createHealthReading<WeightReading, CreateWeightData>(userId, weightCollectionId, 'Weight', data, ['weight', 'unit']);
 export const getWeightReadings = (userId: string, limit: number = 50): Promise<WeightReading[]> => getHealthReadings<WeightReading>(userId, weightCollectionId, 'Weight', limit);
+export const getAllWeightReadings = (userId: string, range?: ReadingDateRange): Promise<WeightReading[]> => getAllHealthReadings<WeightReading>(userId, weightCollectionId, 'Weight', range);
+export const updateWeightReading = (documentId: string, data: UpdateWeightData): Promise<WeightReading> => updateHealthReading<WeightReading, UpdateWeightData>(documentId, weightCollectionId, 'Weight', data);
 export const deleteWeightReading = (documentId: string): Promise<void> => deleteHealthReading(documentId, weightCollectionId, 'Weight');
-
+export const createKickCountReading = (userId: string, data: CreateKickCountData): Promise<KickCountReading> => createHealthReading<KickCountReading, CreateKickCountData>(userId, kickCountCollectionId, 'Kick Count', data, ['kickCount', 'durationSeconds', 'startedAt']);
+export const getKickCountReadings = (userId: string, limit: number = 50): Promise<KickCountReading[]> => getHealthReadings<KickCountReading>(userId, kickCountCollectionId, 'Kick Count', limit);
+export const deleteKickCountReading = (documentId: string): Promise<void> => deleteHealthReading(documentId, kickCountCollectionId, 'Kick Count');
+export const createContractionSession = (userId: string, data: CreateContractionSessionData): Promise<ContractionSession> => createHealthReading<ContractionSession, CreateContractionSessionData>(userId, contractionSessionsCollectionId, 'Contraction Session', data, ['startedAt', 'ruleId']);
+export const getContractionSessions = (userId: string, limit: number = 20): Promise<ContractionSession[]> => getHealthReadings<ContractionSession>(userId, contractionSessionsCollectionId, 'Contraction Session', limit);
+export const deleteContractionSession = (documentId: string): Promise<void> => deleteHealthReading(documentId, contractionSessionsCollectionId, 'Contraction Session');
+
+
+// --- Clinical Threshold Functions ---
+/** The patient's threshold overrides, or null if their doctor hasn't set any. Readable by the patient and doctors. */
+export const getClinicalThresholdOverride = async (userId: string): Promise<ClinicalThresholdOverride | null> => {
+    if (!userId || !clinicalThresholdsCollectionId) return null;
+    try { const response = await databases.listDocuments<ClinicalThresholdOverride>( databaseId, clinicalThresholdsCollectionId, [ Query.equal('userId', userId), Query.limit(1) ] ); return response.documents[0] ?? null; }
+    catch (error) { handleAppwriteError(error, `fetching clinical thresholds for user ${userId}`, false); return null; }
+};
+/** Creates or replaces a patient's threshold overrides. Only users with the 'doctor' label may change them. */
+export const saveClinicalThresholdOverride = async (userId: string, doctor: { $id: string; name?: string }, overrides: string, notes?: string): Promise<ClinicalThresholdOverride> => {
+    if (!userId || !doctor?.$id || !clinicalThresholdsCollectionId) throw new Error("Patient ID, doctor and collection ID required to save clinical thresholds.");
+    try { JSON.parse(overrides); } catch { throw new Error("Clinical threshold overrides must be valid JSON."); }
+    const data = { overrides, updatedBy: doctor.$id, updatedByName: doctor.name?.trim() || undefined, notes: notes?.trim() || undefined };
+    try {
+        const existing = await getClinicalThresholdOverride(userId);
+        if (existing) return await databases.updateDocument<ClinicalThresholdOverride>( databaseId, clinicalThresholdsCollectionId, existing.$id, data );
+        const permissions = [ Permission.read(Role.user(userId)), Permission.read(Role.label('doctor')), Permission.update(Role.label('doctor')), Permission.delete(Role.label('doctor')) ];
+        return await databases.createDocument<ClinicalThresholdOverride>( databaseId, clinicalThresholdsCollectionId, ID.unique(), { userId, ...data }, permissions );
+    }
+    catch (error) { handleAppwriteError(error, `saving clinical thresholds for user ${userId}`); throw error; }
+};
+/** Removes a patient's overrides so the defaults apply again. */
+export const deleteClinicalThresholdOverride = async (documentId: string): Promise<void> => {
+    if (!clinicalThresholdsCollectionId || !documentId) throw new Error("Collection ID and document ID required for deleting clinical thresholds.");
+    try { await databases.deleteDocument(databaseId, clinicalThresholdsCollectionId, documentId); }
+    catch (error) { handleAppwriteError(error, `deleting clinical thresholds ${documentId}`); throw error; }
+};
 
 // --- Medication Reminder Functions ---
 export const createMedicationReminder = async (userId: string, data: CreateMedicationReminderData): Promise<MedicationReminder> => {
     if (!userId || !medicationRemindersCollectionId || !data.medicationName?.trim() || !data.dosage?.trim() || !data.frequency?.trim()) throw new Error("User ID, Collection ID, name, dosage, frequency required.");
-    try { const payload: Omit<MedicationReminder, keyof AppwriteDocument> = { userId, medicationName: data.medicationName.trim(), dosage: data.dosage.trim(), frequency: data.frequency.trim(), times: data.times?.map(t => t.trim()).filter(Boolean) || [], notes: data.notes?.trim() || undefined, isActive: data.isActive ?? true, }; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.update(userRole), Permission.delete(userRole) ]; return await databases.createDocument<MedicationReminder>( databaseId, medicationRemindersCollectionId, ID.unique(), payload, permissions ); }
+    try { const payload: Omit<MedicationReminder, keyof AppwriteDocument> = { userId, medicationName: data.medicationName.trim(), dosage: data.dosage.trim(), frequency: data.frequency.trim(), times: data.times?.map(t => t.trim()).filter(Boolean) || [], notes: data.notes?.trim() || undefined, isActive: data.isActive ?? true, schedule: data.schedule || undefined, quantityOnHand: data.quantityOnHand ?? undefined, dosePerIntake: data.dosePerIntake ?? undefined, refillThreshold: data.refillThreshold ?? undefined, }; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.update(userRole), Permission.delete(userRole), Permission.read(Role.label('doctor')) ]; return await databases.createDocument<MedicationReminder>( databaseId, medicationRemindersCollectionId, ID.unique(), payload, permissions ); }
     catch (error) { handleAppwriteError(error, `creating medication reminder for user ${userId}`); throw error; }
 };
 export const getMedicationReminders = async (userId: string, onlyActive: boolean = true): Promise<MedicationReminder[]> => {
@@ -547,6 +1142,45 @@ export const updateMedicationReminder = async (documentId: string, data: Partial
     try { const dataToUpdate = { ...data }; delete (dataToUpdate as any).userId; const filteredUpdateData = Object.fromEntries(Object.entries(dataToUpdate).filter(([_, v]) => v !== undefined)); if (filteredUpdateData.hasOwnProperty('times')) { if (filteredUpdateData.times === null) filteredUpdateData.times = []; else if (!Array.isArray(filteredUpdateData.times)) { /*console.warn("updateMedicationReminder: 'times' invalid.");*/ filteredUpdateData.times = []; } else { filteredUpdateData.times = filteredUpdateData.times.map(t => String(t ?? '').trim()).filter(Boolean); } } if (Object.keys(filteredUpdateData).length === 0) { /*console.warn(`updateMedicationReminder called with no data for doc ${documentId}.`);*/ return await databases.getDocument<MedicationReminder>(databaseId, medicationRemindersCollectionId, documentId); } return await databases.updateDocument<MedicationReminder>( databaseId, medicationRemindersCollectionId, documentId, filteredUpdateData ); }
     catch (error) { handleAppwriteError(error, `updating medication reminder ${documentId}`); throw error; }
 };
+/** Adds `change` units (negative when a dose is taken) to the stored supply, never going below zero. Untracked reminders are returned as-is. */
+export const adjustMedicationStock = async (documentId: string, change: number): Promise<MedicationReminder> => {
+    if (!medicationRemindersCollectionId || !documentId) throw new Error("Collection ID and Document ID required for stock update.");
+    // Queued as a difference and applied to the stored stock on replay, so quick or offline dose logs don't overwrite each other
+    try { if (!change) return await databases.getDocument<MedicationReminder>(databaseId, medicationRemindersCollectionId, documentId); return await offlineSync.increment<MedicationReminder>( databaseId, medicationRemindersCollectionId, documentId, { quantityOnHand: change }, { min: 0 } ); }
+    catch (error) { handleAppwriteError(error, `updating stock for medication reminder ${documentId}`); throw error; }
+};
+
+// --- Medication Dose Functions ---
+/** Logs a dose as taken, skipped or snoozed. Doctors can read the log to review adherence. */
+export const logMedicationDose = async (userId: string, data: CreateMedicationDoseData): Promise<MedicationDoseEvent> => {
+    if (!userId || !medicationDosesCollectionId || !data.reminderId || !data.scheduledAt || !data.status) throw new Error("User ID, Collection ID, reminder, dose time and status required.");
+    const scheduledAt = new Date(data.scheduledAt);
+    if (isNaN(scheduledAt.getTime())) throw new Error("Invalid dose time.");
+    if (data.status === 'snoozed' && !data.snoozedUntil) throw new Error("Snoozed doses need a time to remind again.");
+    try { const payload: Omit<MedicationDoseEvent, keyof AppwriteDocument> = { userId, reminderId: data.reminderId, medicationName: data.medicationName.trim(), scheduledAt: scheduledAt.toISOString(), status: data.status, recordedAt: new Date().toISOString(), snoozedUntil: data.status === 'snoozed' ? new Date(data.snoozedUntil).toISOString() : undefined, }; const userRole = Role.user(userId); const permissions = [ Permission.read(userRole), Permission.update(userRole), Permission.delete(userRole), Permission.read(Role.label('doctor')) ]; return await databases.createDocument<MedicationDoseEvent>( databaseId, medicationDosesCollectionId, ID.unique(), payload, permissions ); }
+    catch (error) { handleAppwriteError(error, `logging medication dose for user ${userId}`); throw error; }
+};
+/** Dose events with `scheduledAt` in the (inclusive) range, newest first, paged with a cursor. */
+export const getMedicationDoseEvents = async (userId: string, range: ReadingDateRange = {}): Promise<MedicationDoseEvent[]> => {
+    if (!userId || !medicationDosesCollectionId) return [];
+    const batchLimit = 100; // Appwrite max limit per listDocuments call
+    const events: MedicationDoseEvent[] = [];
+    let cursor: string | undefined = undefined;
+    try {
+        while (true) {
+            const queries: string[] = [ Query.equal('userId', userId), Query.orderDesc('scheduledAt'), Query.limit(batchLimit) ];
+            if (range.from) queries.push(Query.greaterThanEqual('scheduledAt', range.from));
+            if (range.to) queries.push(Query.lessThanEqual('scheduledAt', range.to));
+            if (cursor) queries.push(Query.cursorAfter(cursor));
+            const response = await databases.listDocuments<MedicationDoseEvent>(databaseId, medicationDosesCollectionId, queries);
+            events.push(...response.documents);
+            if (response.documents.length < batchLimit) break;
+            cursor = response.documents[response.documents.length - 1].$id;
+        }
+        return events;
+    }
+    catch (error) { handleAppwriteError(error, `fetching medication doses for user ${userId}`, false); return []; }
+};
 
 
 // --- Chat History Functions ---
@@ -1619,26 +2253,66 @@ export const getAllUpcomingAppointments = async (limit: number = 50): Promise<Ap
     }
     // console.log("Fetching all upcoming appointments (Doctor View - Placeholder)");
     try {
-        const now = new Date().toISOString(); // Get current time in ISO format for comparison
-        const response = await databases.listDocuments<Appointment>(
-            databaseId,
-            appointmentsCollectionId,
-            [
-                Query.greaterThanEqual('date', now), // Fetch appointments from now onwards
-                Query.orderAsc('date'),           // Sort by soonest first
-                Query.limit(limit)
-                // TODO: Add Query.equal('doctorId', loggedInDoctorId) in a real implementation
-                // TODO: Add Query.equal('isCompleted', false) if needed
-            ]
-        );
+        const now = new Date();
+        // `date` is the appointment's local day stored at midnight UTC: start a day early so zones ahead of UTC
+        // keep today's appointments, then drop the ones that have started
+        const fromDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 1)).toISOString();
+        const [response, series] = await Promise.all([
+            databases.listDocuments<Appointment>(
+                databaseId,
+                appointmentsCollectionId,
+                [
+                    Query.greaterThanEqual('date', fromDay), // Fetch appointments from yesterday (UTC) onwards
+                    Query.isNull('recurrence'),       // Series are expanded below
+                    Query.orderAsc('date'),           // Sort by soonest first
+                    Query.limit(limit)
+                    // TODO: Add Query.equal('doctorId', loggedInDoctorId) in a real implementation
+                    // TODO: Add Query.equal('isCompleted', false) if needed
+                ]
+            ),
+            // Recurring series may have started in the past but still have upcoming occurrences
+            databases.listDocuments<Appointment>(databaseId, appointmentsCollectionId, [ Query.isNotNull('recurrence'), Query.limit(100) ]),
+        ]);
+        const isUpcoming = (app: Appointment) => (getAppointmentStart(app)?.getTime() ?? 0) >= now.getTime();
+        const occurrences = expandAppointments(series.documents).filter(isUpcoming);
         // console.log(`Fetched ${response.documents.length} upcoming appointments.`);
-        return response.documents;
+        return [...response.documents.filter(isUpcoming), ...occurrences].sort((a, b) => getAppointmentStart(a).getTime() - getAppointmentStart(b).getTime()).slice(0, limit);
     } catch (error) {
         handleAppwriteError(error, `fetching all upcoming appointments (doctor view)`, false);
         return [];
     }
 };
 
+/**
+ * [Doctor Function] Appointments of the last `days` days that have started but have no outcome yet
+ * (still requested, confirmed or rescheduled), oldest first, so a doctor can mark them completed or no-show.
+ * Requires collection-level read permission for the 'doctor' role on the 'appointments' collection.
+ */
+export const getAppointmentsAwaitingOutcome = async (days: number = 7, limit: number = 50): Promise<Appointment[]> => {
+    if (!appointmentsCollectionId) return [];
+    try {
+        const now = new Date();
+        const from = new Date(now.getTime() - days * 86400000);
+        // Same one-day margin as getAllUpcomingAppointments for days stored at midnight UTC
+        const fromDay = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() - 1)).toISOString();
+        const [response, series] = await Promise.all([
+            databases.listDocuments<Appointment>(databaseId, appointmentsCollectionId, [
+                Query.greaterThanEqual('date', fromDay), Query.lessThanEqual('date', now.toISOString()), Query.isNull('recurrence'), Query.orderAsc('date'), Query.limit(100),
+            ]),
+            databases.listDocuments<Appointment>(databaseId, appointmentsCollectionId, [ Query.isNotNull('recurrence'), Query.limit(100) ]),
+        ]);
+        const isAwaitingOutcome = (app: Appointment) => {
+            const start = getAppointmentStart(app);
+            return !!start && start >= from && start <= now && isAppointmentActive(app);
+        };
+        return [...response.documents, ...expandAppointments(series.documents, now)].filter(isAwaitingOutcome)
+            .sort((a, b) => getAppointmentStart(a).getTime() - getAppointmentStart(b).getTime()).slice(0, limit);
+    } catch (error) {
+        handleAppwriteError(error, `fetching appointments awaiting an outcome (doctor view)`, false);
+        return [];
+    }
+};
+
 /**
  * Fetches recent medical documents across all users.
  * Requires collection-level read permission for the 'doctor' role on the 'medicalDocuments' collection.
@@ -0,0 +1,293 @@
+// src/lib/clinicalThresholds.ts
+import { differenceInCalendarDays } from 'date-fns';
+import type { BloodPressureReading, BloodSugarReading, WeightReading, UserProfile } from './appwrite';
+import { getPregnancyTimeline } from './pregnancyTimeline';
+import { GlucoseUnit, getPreferredUnits, weightToKg, weightRateForDisplay, formatGlucose } from './units';
+
+// --- Types ---
+
+/** How concerning a reading is. 'ok' readings are never surfaced as alerts. */
+export type AlertLevel = 'ok' | 'caution' | 'warning' | 'urgent';
+
+export interface ReadingClassification {
+    level: AlertLevel;
+    /** Short label for badges, e.g. "Elevated" */
+    label: string;
+    /** User-facing advice; null for 'ok' readings */
+    message: string | null;
+}
+
+export interface BloodPressureThresholds {
+    /** Systolic at or above this (with normal diastolic) is "elevated" */
+    elevatedSystolic: number;
+    hypertensiveSystolic: number;
+    hypertensiveDiastolic: number;
+    severeSystolic: number;
+    severeDiastolic: number;
+    lowSystolic: number;
+    lowDiastolic: number;
+}
+
+export interface BloodSugarThresholds {
+    /** mg/dL below which a reading is an urgent low */
+    veryLow: number;
+    /** mg/dL below which a reading is low */
+    low: number;
+    /** Upper target (mg/dL) per measurement type */
+    targets: Record<BloodSugarReading['measurementType'], number>;
+    /** mg/dL above which any reading is a warning */
+    veryHigh: number;
+}
+
+export type BmiCategory = 'underweight' | 'normal' | 'overweight' | 'obese';
+
+/** Recommended gain for a BMI category. Weekly rates apply from the second trimester. */
+export interface WeightGainBand {
+    minKgPerWeek: number;
+    maxKgPerWeek: number;
+    totalMinKg: number;
+    totalMaxKg: number;
+}
+
+export interface WeightGainThresholds {
+    bands: Record<BmiCategory, WeightGainBand>;
+    /** Gaining this much in a week is a warning regardless of band (possible fluid retention / preeclampsia) */
+    rapidGainKgPerWeek: number;
+    /** Doctor-set band used instead of the BMI-based one */
+    customBand?: WeightGainBand;
+}
+
+export interface ClinicalThresholds {
+    bloodPressure: BloodPressureThresholds;
+    bloodSugar: BloodSugarThresholds;
+    weightGain: WeightGainThresholds;
+}
+
+/**
+ * Per-patient adjustments set by a doctor. Anything left out falls back to the defaults.
+ * `weightGain.band` replaces the BMI-based band for that patient.
+ */
+export interface ClinicalThresholdOverrides {
+    bloodPressure?: Partial<BloodPressureThresholds>;
+    bloodSugar?: Partial<Omit<BloodSugarThresholds, 'targets'>> & { targets?: Partial<BloodSugarThresholds['targets']> };
+    weightGain?: { rapidGainKgPerWeek?: number; band?: Partial<WeightGainBand> };
+}
+
+export interface WeightGainAssessment extends ReadingClassification {
+    kgPerWeek: number;
+    /** Band the rate was compared against; null when BMI is unknown and no override is set */
+    band: WeightGainBand | null;
+    bmiCategory: BmiCategory | null;
+    /** Days between the two readings used */
+    spanDays: number;
+}
+
+export interface HealthAlert extends ReadingClassification {
+    id: string;
+    metric: 'bp' | 'sugar' | 'weight';
+    title: string;
+    recordedAt: string;
+}
+
+// --- Defaults ---
+// Pregnancy targets commonly used in antenatal care (ACOG hypertension categories, gestational diabetes
+// targets, IOM 2009 weight gain guidance). Doctors can adjust them per patient.
+
+export const DEFAULT_CLINICAL_THRESHOLDS: ClinicalThresholds = {
+    bloodPressure: {
+        elevatedSystolic: 120, hypertensiveSystolic: 140, hypertensiveDiastolic: 90,
+        severeSystolic: 160, severeDiastolic: 110, lowSystolic: 90, lowDiastolic: 60,
+    },
+    bloodSugar: {
+        veryLow: 54, low: 70, veryHigh: 200,
+        targets: { fasting: 95, post_meal: 140, random: 140 },
+    },
+    weightGain: {
+        bands: {
+            underweight: { minKgPerWeek: 0.44, maxKgPerWeek: 0.58, totalMinKg: 12.5, totalMaxKg: 18 },
+            normal: { minKgPerWeek: 0.35, maxKgPerWeek: 0.5, totalMinKg: 11.5, totalMaxKg: 16 },
+            overweight: { minKgPerWeek: 0.23, maxKgPerWeek: 0.33, totalMinKg: 7, totalMaxKg: 11.5 },
+            obese: { minKgPerWeek: 0.17, maxKgPerWeek: 0.27, totalMinKg: 5, totalMaxKg: 9 },
+        },
+        rapidGainKgPerWeek: 2,
+    },
+};
+
+export const alertLevelColors: Record<AlertLevel, string> = { ok: '#22c55e', caution: '#f59e0b', warning: '#f97316', urgent: '#dc2626' };
+export const alertLevelLabels: Record<AlertLevel, string> = { ok: 'Normal', caution: 'Caution', warning: 'Warning', urgent: 'Urgent' };
+const alertLevelRank: Record<AlertLevel, number> = { ok: 0, caution: 1, warning: 2, urgent: 3 };
+
+/** Readings older than this are not raised as dashboard alerts. */
+const ALERT_MAX_AGE_DAYS = 7;
+/** Weight readings this far apart (or more) are needed to estimate a weekly rate... */
+const WEIGHT_MIN_SPAN_DAYS = 7;
+/** ...and only readings within this window before the latest one are considered. */
+const WEIGHT_MAX_SPAN_DAYS = 28;
+/** Weekly gain bands apply from the second trimester. */
+const WEIGHT_BAND_FROM_WEEK = 13;
+
+// --- Thresholds ---
+
+/** Defaults with a doctor's per-patient overrides applied. */
+export const resolveClinicalThresholds = (overrides?: ClinicalThresholdOverrides | null): ClinicalThresholds => {
+    const d = DEFAULT_CLINICAL_THRESHOLDS;
+    if (!overrides) return d;
+    const band = overrides.weightGain?.band;
+    return {
+        bloodPressure: { ...d.bloodPressure, ...overrides.bloodPressure },
+        bloodSugar: { ...d.bloodSugar, ...overrides.bloodSugar, targets: { ...d.bloodSugar.targets, ...overrides.bloodSugar?.targets } },
+        weightGain: {
+            bands: d.weightGain.bands,
+            rapidGainKgPerWeek: overrides.weightGain?.rapidGainKgPerWeek ?? d.weightGain.rapidGainKgPerWeek,
+            // Missing band fields fall back to the normal-BMI band
+            customBand: band ? { ...d.weightGain.bands.normal, ...band } : undefined,
+        },
+    };
+};
+
+/** Parses the JSON stored on a threshold override document; invalid JSON is treated as "no overrides". */
+export const parseClinicalThresholdOverrides = (json: string | null | undefined): ClinicalThresholdOverrides | null => {
+    if (!json) return null;
+    try {
+        const parsed = JSON.parse(json);
+        return parsed && typeof parsed === 'object' ? parsed as ClinicalThresholdOverrides : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Classification ---
+
+export const classifyBloodPressure = (reading: Pick<BloodPressureReading, 'systolic' | 'diastolic'>, thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS): ReadingClassification => {
+    const t = thresholds.bloodPressure;
+    const { systolic, diastolic } = reading;
+    if (systolic >= t.severeSystolic || diastolic >= t.severeDiastolic) {
+        return { level: 'urgent', label: 'Severe range', message: "Severe-range blood pressure. Rest and recheck in 15 minutes; if it's still this high, or you have a headache, vision changes or upper belly pain, get medical care now." };
+    }
+    if (systolic >= t.hypertensiveSystolic || diastolic >= t.hypertensiveDiastolic) {
+        return { level: 'warning', label: 'High', message: 'Blood pressure is in the high range. Contact your doctor or midwife today.' };
+    }
+    if (systolic < t.lowSystolic || diastolic < t.lowDiastolic) {
+        return { level: 'caution', label: 'Low', message: 'Blood pressure is low. Sit or lie down if you feel dizzy, drink some water, and mention it at your next visit.' };
+    }
+    if (systolic >= t.elevatedSystolic) {
+        return { level: 'caution', label: 'Elevated', message: 'Systolic pressure is slightly elevated. Keep checking regularly and share your readings at your next visit.' };
+    }
+    return { level: 'ok', label: 'Normal', message: null };
+};
+
+/** Thresholds and readings are in mg/dL; `unit` only changes how the target is shown in the message. */
+export const classifyBloodSugar = (reading: Pick<BloodSugarReading, 'level' | 'measurementType'>, thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS, unit: GlucoseUnit = 'mg/dL'): ReadingClassification => {
+    const t = thresholds.bloodSugar;
+    const target = t.targets[reading.measurementType] ?? t.targets.random;
+    if (reading.level < t.veryLow) {
+        return { level: 'urgent', label: 'Very low', message: 'Very low blood sugar. Take fast-acting sugar now (juice, glucose tablets), recheck in 15 minutes, and get help if it stays low or you feel unwell.' };
+    }
+    if (reading.level < t.low) {
+        return { level: 'warning', label: 'Low', message: 'Low blood sugar. Have a snack with fast-acting sugar and recheck in 15 minutes.' };
+    }
+    if (reading.level > t.veryHigh) {
+        return { level: 'warning', label: 'Very high', message: 'Blood sugar is well above target. Contact your doctor today.' };
+    }
+    if (reading.level > target) {
+        return { level: 'caution', label: 'Above target', message: `Above the ${reading.measurementType === 'post_meal' ? 'after-meal' : reading.measurementType} target of ${formatGlucose(target, unit)}. If this keeps happening, let your doctor know.` };
+    }
+    return { level: 'ok', label: 'In target', message: null };
+};
+
+// --- Weight Gain ---
+
+/** Pre-pregnancy BMI from the profile; null when height or pre-pregnancy weight is missing. */
+export const getBmi = (profile: Pick<UserProfile, 'heightCm' | 'prePregnancyWeightKg'> | null | undefined): number | null => {
+    if (!profile?.heightCm || !profile?.prePregnancyWeightKg) return null;
+    const meters = profile.heightCm / 100;
+    return Math.round((profile.prePregnancyWeightKg / (meters * meters)) * 10) / 10;
+};
+
+export const getBmiCategory = (bmi: number | null): BmiCategory | null => {
+    if (bmi === null) return null;
+    if (bmi < 18.5) return 'underweight';
+    if (bmi < 25) return 'normal';
+    if (bmi < 30) return 'overweight';
+    return 'obese';
+};
+
+/**
+ * Weekly weight gain from the latest reading and the earliest one 1-4 weeks before it, compared against
+ * the BMI-based band (from the second trimester) and the rapid-gain limit. Null when there is too little data.
+ */
+export const assessWeeklyWeightGain = (
+    readings: WeightReading[],
+    profile: UserProfile | null | undefined,
+    thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS,
+    at: Date = new Date(),
+): WeightGainAssessment | null => {
+    const timeline = getPregnancyTimeline(profile, at);
+    if (timeline.stage !== 'pregnant') return null;
+    const sorted = readings
+        .map(r => ({ date: new Date(r.recordedAt || r.$createdAt), kg: weightToKg(r.weight, r.unit) }))
+        .filter(r => !isNaN(r.date.getTime()) && r.kg > 0)
+        .sort((a, b) => b.date.getTime() - a.date.getTime());
+    const latest = sorted[0];
+    if (!latest) return null;
+    const earlier = sorted
+        .filter(r => { const days = differenceInCalendarDays(latest.date, r.date); return days >= WEIGHT_MIN_SPAN_DAYS && days <= WEIGHT_MAX_SPAN_DAYS; })
+        .pop();
+    if (!earlier) return null;
+
+    const spanDays = differenceInCalendarDays(latest.date, earlier.date);
+    const kgPerWeek = Math.round(((latest.kg - earlier.kg) / spanDays) * 7 * 100) / 100;
+    const bmiCategory = getBmiCategory(getBmi(profile));
+    const band = thresholds.weightGain.customBand ?? (bmiCategory ? thresholds.weightGain.bands[bmiCategory] : null);
+    const base = { kgPerWeek, band, bmiCategory, spanDays };
+    // Messages use the user's weight unit; the assessment itself stays in kg
+    const unit = getPreferredUnits(profile).weight;
+    const rate = (kg: number) => weightRateForDisplay(kg, unit);
+
+    if (kgPerWeek >= thresholds.weightGain.rapidGainKgPerWeek) {
+        return { ...base, level: 'warning', label: 'Rapid gain', message: `You've gained about ${rate(kgPerWeek)} ${unit} per week recently. Sudden weight gain can be a sign of fluid retention - contact your doctor, especially if you also have swelling or headaches.` };
+    }
+    if (!band || (timeline.weeks ?? 0) < WEIGHT_BAND_FROM_WEEK) return { ...base, level: 'ok', label: 'No band', message: null };
+    if (kgPerWeek > band.maxKgPerWeek) {
+        return { ...base, level: 'caution', label: 'Above range', message: `Gaining about ${rate(kgPerWeek)} ${unit}/week, above the suggested ${rate(band.minKgPerWeek)}-${rate(band.maxKgPerWeek)} ${unit}/week for you. Talk to your doctor about diet and activity.` };
+    }
+    if (kgPerWeek < band.minKgPerWeek) {
+        return { ...base, level: 'caution', label: 'Below range', message: `Gaining about ${rate(kgPerWeek)} ${unit}/week, below the suggested ${rate(band.minKgPerWeek)}-${rate(band.maxKgPerWeek)} ${unit}/week for you. Mention it at your next visit.` };
+    }
+    return { ...base, level: 'ok', label: 'In range', message: null };
+};
+
+// --- Alerts ---
+
+const isRecent = (iso: string, at: Date): boolean => {
+    const date = new Date(iso);
+    return !isNaN(date.getTime()) && differenceInCalendarDays(at, date) <= ALERT_MAX_AGE_DAYS;
+};
+const latestOf = <T extends { recordedAt: string; $createdAt: string }>(readings: T[]): T | undefined =>
+    [...readings].sort((a, b) => new Date(b.recordedAt || b.$createdAt).getTime() - new Date(a.recordedAt || a.$createdAt).getTime())[0];
+
+/** Alerts for the latest recent readings and the weight trend, most severe first. */
+export const getHealthAlerts = (
+    data: { bpReadings: BloodPressureReading[]; sugarReadings: BloodSugarReading[]; weightReadings: WeightReading[]; profile: UserProfile | null },
+    thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS,
+    at: Date = new Date(),
+): HealthAlert[] => {
+    const alerts: HealthAlert[] = [];
+    const bp = latestOf(data.bpReadings);
+    if (bp && isRecent(bp.recordedAt || bp.$createdAt, at)) {
+        const result = classifyBloodPressure(bp, thresholds);
+        if (result.level !== 'ok') alerts.push({ ...result, id: `bp-${bp.$id}`, metric: 'bp', title: `Blood pressure ${bp.systolic}/${bp.diastolic} mmHg`, recordedAt: bp.recordedAt });
+    }
+    const sugar = latestOf(data.sugarReadings);
+    if (sugar && isRecent(sugar.recordedAt || sugar.$createdAt, at)) {
+        const glucoseUnit = getPreferredUnits(data.profile).glucose;
+        const result = classifyBloodSugar(sugar, thresholds, glucoseUnit);
+        if (result.level !== 'ok') alerts.push({ ...result, id: `sugar-${sugar.$id}`, metric: 'sugar', title: `Blood sugar ${formatGlucose(sugar.level, glucoseUnit)}`, recordedAt: sugar.recordedAt });
+    }
+    const weight = latestOf(data.weightReadings);
+    if (weight && isRecent(weight.recordedAt || weight.$createdAt, at)) {
+        const result = assessWeeklyWeightGain(data.weightReadings, data.profile, thresholds, at);
+        if (result && result.level !== 'ok') alerts.push({ level: result.level, label: result.label, message: result.message, id: `weight-${weight.$id}`, metric: 'weight', title: 'Weight gain', recordedAt: weight.recordedAt });
+    }
+    return alerts.sort((a, b) => alertLevelRank[b.level] - alertLevelRank[a.level]);
+};
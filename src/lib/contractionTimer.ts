@@ -0,0 +1,188 @@
+// src/lib/contractionTimer.ts
+import { format } from 'date-fns';
+
+// --- Types ---
+
+/** A single contraction. `end` is missing while the contraction is still going. */
+export interface Contraction {
+    /** ISO Datetime string */
+    start: string;
+    /** ISO Datetime string */
+    end?: string;
+}
+
+/**
+ * "Go to hospital" rule of the form interval-duration-sustained, e.g. 5-1-1:
+ * contractions at most 5 minutes apart, lasting at least 1 minute each, for at least 1 hour.
+ */
+export interface LaborRule {
+    id: string;
+    label: string;
+    /** Maximum minutes from the start of one contraction to the start of the next */
+    maxIntervalMinutes: number;
+    /** Minimum average contraction length in seconds */
+    minDurationSeconds: number;
+    /** Minutes the pattern must have been sustained */
+    sustainedMinutes: number;
+}
+
+/** Timing summary over a rolling window. Durations in seconds, intervals in minutes. */
+export interface ContractionStats {
+    /** Completed contractions that started inside the window */
+    count: number;
+    averageDurationSeconds: number | null;
+    averageIntervalMinutes: number | null;
+    /** Contractions per hour within the window */
+    frequencyPerHour: number;
+    lastDurationSeconds: number | null;
+    lastIntervalMinutes: number | null;
+}
+
+/** The timer state kept on the device while a session is running. */
+export interface ActiveContractionSession {
+    startedAt: string;
+    ruleId: string;
+    contractions: Contraction[];
+    /** ISO Datetime string when the contractions first matched the rule */
+    ruleMatchedAt?: string;
+}
+
+// --- Rules ---
+
+export const LABOR_RULES: LaborRule[] = [
+    { id: '5-1-1', label: '5-1-1 (5 min apart, 1 min long, for 1 hour)', maxIntervalMinutes: 5, minDurationSeconds: 60, sustainedMinutes: 60 },
+    { id: '4-1-1', label: '4-1-1 (4 min apart, 1 min long, for 1 hour)', maxIntervalMinutes: 4, minDurationSeconds: 60, sustainedMinutes: 60 },
+    { id: '3-1-1', label: '3-1-1 (3 min apart, 1 min long, for 1 hour)', maxIntervalMinutes: 3, minDurationSeconds: 60, sustainedMinutes: 60 },
+];
+export const DEFAULT_LABOR_RULE_ID = '5-1-1';
+
+export const getLaborRule = (ruleId: string | undefined): LaborRule =>
+    LABOR_RULES.find(rule => rule.id === ruleId) ?? LABOR_RULES.find(rule => rule.id === DEFAULT_LABOR_RULE_ID);
+
+// --- Helpers ---
+
+const toMs = (iso: string): number => new Date(iso).getTime();
+const average = (values: number[]): number | null => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/** Completed contractions, oldest first. */
+export const getCompletedContractions = (contractions: Contraction[]): Required<Contraction>[] =>
+    contractions
+        .filter((c): c is Required<Contraction> => !!c.end && toMs(c.end) >= toMs(c.start))
+        .sort((a, b) => toMs(a.start) - toMs(b.start));
+
+export const getContractionDurationSeconds = (contraction: Required<Contraction>): number =>
+    Math.round((toMs(contraction.end) - toMs(contraction.start)) / 1000);
+
+/** Start-to-start minutes between consecutive contractions (one fewer than the contractions). */
+const getIntervalsMinutes = (completed: Required<Contraction>[]): number[] =>
+    completed.slice(1).map((c, i) => (toMs(c.start) - toMs(completed[i].start)) / 60000);
+
+// --- Stats ---
+
+/** Duration, interval and frequency for contractions that started within the last `windowMinutes`. */
+export const getContractionStats = (contractions: Contraction[], windowMinutes: number = 60, at: Date = new Date()): ContractionStats => {
+    const windowStart = at.getTime() - windowMinutes * 60000;
+    const completed = getCompletedContractions(contractions);
+    const inWindow = completed.filter(c => toMs(c.start) >= windowStart);
+    const durations = inWindow.map(getContractionDurationSeconds);
+    const intervals = getIntervalsMinutes(inWindow);
+    const allIntervals = getIntervalsMinutes(completed);
+    const last = completed[completed.length - 1];
+    return {
+        count: inWindow.length,
+        averageDurationSeconds: average(durations),
+        averageIntervalMinutes: average(intervals),
+        frequencyPerHour: inWindow.length * (60 / windowMinutes),
+        lastDurationSeconds: last ? getContractionDurationSeconds(last) : null,
+        lastIntervalMinutes: allIntervals.length > 0 ? allIntervals[allIntervals.length - 1] : null,
+    };
+};
+
+/**
+ * Whether the contractions match `rule` as of `at`: over the last `sustainedMinutes` every contraction
+ * started within `maxIntervalMinutes` of the previous one (with no gap at either end of the window)
+ * and they lasted `minDurationSeconds` on average.
+ */
+export const matchesLaborRule = (contractions: Contraction[], rule: LaborRule, at: Date = new Date()): boolean => {
+    const maxGapMs = rule.maxIntervalMinutes * 60000;
+    const windowStart = at.getTime() - rule.sustainedMinutes * 60000;
+    const completed = getCompletedContractions(contractions);
+    // Include the contraction just before the window, so a pattern that began earlier still covers its start
+    const firstInWindow = completed.findIndex(c => toMs(c.start) >= windowStart);
+    if (firstInWindow === -1) return false;
+    const relevant = completed.slice(Math.max(0, firstInWindow - 1));
+
+    if (toMs(relevant[0].start) > windowStart + maxGapMs) return false; // Pattern hasn't been going long enough
+    if (at.getTime() - toMs(relevant[relevant.length - 1].start) > maxGapMs) return false; // Contractions have spaced out / stopped
+    if (getIntervalsMinutes(relevant).some(interval => interval > rule.maxIntervalMinutes)) return false;
+
+    const averageDuration = average(relevant.filter(c => toMs(c.start) >= windowStart).map(getContractionDurationSeconds));
+    return averageDuration !== null && averageDuration >= rule.minDurationSeconds;
+};
+
+// --- Formatting ---
+
+/** "1 min 05 s", "48 s" */
+export const formatContractionDuration = (seconds: number | null): string => {
+    if (seconds === null) return '-';
+    const rounded = Math.round(seconds);
+    if (rounded < 60) return `${rounded} s`;
+    return `${Math.floor(rounded / 60)} min ${String(rounded % 60).padStart(2, '0')} s`;
+};
+
+/** "4.5 min" */
+export const formatContractionInterval = (minutes: number | null): string =>
+    minutes === null ? '-' : `${minutes.toFixed(1)} min`;
+
+/** Plain-text summary for sharing with a partner, doula or the hospital. */
+export const formatContractionSummary = (session: ActiveContractionSession, at: Date = new Date()): string => {
+    const rule = getLaborRule(session.ruleId);
+    const stats = getContractionStats(session.contractions, 60, at);
+    const lines = [
+        `Contraction update (${format(at, 'MMM d, HH:mm')})`,
+        `Timing since ${format(new Date(session.startedAt), 'HH:mm')}, ${getCompletedContractions(session.contractions).length} contractions recorded.`,
+        `Last hour: ${stats.count} contractions, avg ${formatContractionInterval(stats.averageIntervalMinutes)} apart, avg ${formatContractionDuration(stats.averageDurationSeconds)} long.`,
+    ];
+    if (matchesLaborRule(session.contractions, rule, at)) lines.push(`This matches the ${rule.id} labor pattern.`);
+    return lines.join('\n');
+};
+
+// --- Device Storage ---
+// The running session is kept in localStorage (per user) so it survives reloads and works offline;
+// finished sessions are saved to the user's history in the database.
+
+const activeSessionKey = (userId: string): string => `momcare-contraction-session:${userId}`;
+
+export const loadActiveContractionSession = (userId: string | undefined): ActiveContractionSession | null => {
+    if (!userId || typeof localStorage === 'undefined') return null;
+    try {
+        const raw = localStorage.getItem(activeSessionKey(userId));
+        if (!raw) return null;
+        const parsed = JSON.parse(raw) as ActiveContractionSession;
+        return parsed && typeof parsed.startedAt === 'string' && Array.isArray(parsed.contractions) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+export const saveActiveContractionSession = (userId: string, session: ActiveContractionSession): void => {
+    try { localStorage.setItem(activeSessionKey(userId), JSON.stringify(session)); }
+    catch { /* Storage full or unavailable; the session still works until the page is closed */ }
+};
+
+export const clearActiveContractionSession = (userId: string): void => {
+    try { localStorage.removeItem(activeSessionKey(userId)); }
+    catch { /* Ignore */ }
+};
+
+// --- Stored Format ---
+// Contractions are stored as ISO 8601 intervals ("start/end") in a string array attribute.
+
+export const serializeContractions = (contractions: Contraction[]): string[] =>
+    getCompletedContractions(contractions).map(c => `${c.start}/${c.end}`);
+
+export const parseContractions = (intervals: string[] | undefined | null): Contraction[] =>
+    (intervals ?? [])
+        .map(interval => interval.split('/'))
+        .filter(([start, end]) => !!start && !!end && !isNaN(toMs(start)) && !isNaN(toMs(end)))
+        .map(([start, end]) => ({ start, end }));
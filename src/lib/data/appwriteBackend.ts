@@ -0,0 +1,25 @@
+// src/lib/data/appwriteBackend.ts
+import { Account, Client, Databases, Functions, Storage } from 'appwrite';
+import type { DataBackend } from './backend';
+
+export interface AppwriteBackendConfig {
+    endpoint: string;
+    projectId: string;
+}
+
+/**
+ * Creates the Appwrite adapter: a single SDK client shared by all services.
+ * Configuration is validated by the caller (src/lib/appwrite.ts) before this runs.
+ */
+export const createAppwriteBackend = ({ endpoint, projectId }: AppwriteBackendConfig): DataBackend => {
+    const client = new Client();
+    client.setEndpoint(endpoint).setProject(projectId);
+
+    return {
+        kind: 'appwrite',
+        account: new Account(client),
+        databases: new Databases(client),
+        storage: new Storage(client),
+        functions: new Functions(client),
+    };
+};
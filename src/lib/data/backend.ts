@@ -0,0 +1,30 @@
+// src/lib/data/backend.ts
+import type { Account, Databases, Functions, Storage } from 'appwrite';
+
+// --- Backend Service Contracts ---
+// Each service is the subset of the Appwrite SDK surface that src/lib/appwrite.ts actually calls.
+// Adapters only need to honour these signatures for every helper in appwrite.ts to work unchanged.
+
+/** Authentication calls used by the auth helpers (signup, login, logout, session lookup, JWTs for the AI proxy). */
+export type AuthService = Pick<Account, 'create' | 'createEmailPasswordSession' | 'deleteSession' | 'get' | 'createJWT'>;
+/** Document CRUD used by every collection helper. Queries are Appwrite `Query.*` strings. */
+export type DatabaseService = Pick<Databases, 'listDocuments' | 'getDocument' | 'createDocument' | 'updateDocument' | 'deleteDocument'>;
+/** File storage used by profile photos, medical documents and chat images. */
+export type StorageService = Pick<Storage, 'createFile' | 'deleteFile' | 'getFileView'>;
+/** Cloud function execution (currently only the user-count function). */
+export type FunctionsService = Pick<Functions, 'createExecution'>;
+
+/** Identifies which adapter backs the data layer. */
+export type DataBackendKind = 'appwrite' | 'memory';
+
+/**
+ * A complete data backend. The Appwrite adapter wraps the real SDK services;
+ * the memory adapter keeps everything in the browser (optionally persisted to IndexedDB).
+ */
+export interface DataBackend {
+    kind: DataBackendKind;
+    account: AuthService;
+    databases: DatabaseService;
+    storage: StorageService;
+    functions: FunctionsService;
+}
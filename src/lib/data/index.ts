@@ -0,0 +1,38 @@
+// src/lib/data/index.ts
+import type { DataBackend, DataBackendKind } from './backend';
+import { createAppwriteBackend, AppwriteBackendConfig } from './appwriteBackend';
+import { createMemoryBackend } from './memoryBackend';
+
+export type { AuthService, DatabaseService, StorageService, FunctionsService, DataBackend, DataBackendKind } from './backend';
+export { createOfflineSync } from './offlineSync';
+export type { OfflineSync, OutboxEntry, SyncEvent, SyncListener, SyncStatus } from './offlineSync';
+
+/** localStorage key that overrides VITE_PUBLIC_DATA_BACKEND for the current browser (handy for demos). */
+export const DATA_BACKEND_OVERRIDE_KEY = 'momcare.dataBackend';
+
+const isBackendKind = (value: unknown): value is DataBackendKind => value === 'appwrite' || value === 'memory';
+
+/**
+ * Decides which adapter backs the data layer. Resolved once at startup:
+ * 1. `localStorage['momcare.dataBackend']` (if set to 'appwrite' or 'memory')
+ * 2. `VITE_PUBLIC_DATA_BACKEND`
+ * 3. 'appwrite'
+ */
+export const resolveDataBackendKind = (): DataBackendKind => {
+    try {
+        const override = typeof localStorage !== 'undefined' ? localStorage.getItem(DATA_BACKEND_OVERRIDE_KEY) : null;
+        if (isBackendKind(override)) return override;
+    } catch {
+        // localStorage can throw in privacy modes; fall through to the env setting
+    }
+    const configured = (import.meta.env.VITE_PUBLIC_DATA_BACKEND as string | undefined)?.trim().toLowerCase();
+    return isBackendKind(configured) ? configured : 'appwrite';
+};
+
+/** Instantiates the selected adapter. The Appwrite config is only read when that adapter is chosen. */
+export const createDataBackend = (kind: DataBackendKind, appwriteConfig: AppwriteBackendConfig): DataBackend => {
+    if (kind === 'memory') {
+        return createMemoryBackend({ persist: import.meta.env.VITE_PUBLIC_MEMORY_PERSIST !== 'false' });
+    }
+    return createAppwriteBackend(appwriteConfig);
+};
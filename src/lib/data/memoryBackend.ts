@@ -0,0 +1,312 @@
+// src/lib/data/memoryBackend.ts
+import { AppwriteException, ID, Models } from 'appwrite';
+import type { AuthService, DataBackend, DatabaseService, FunctionsService, StorageService } from './backend';
+import { runQueries } from './queryEngine';
+import { openSnapshotDatabase, readSnapshot, writeSnapshot } from './snapshotStore';
+
+// --- Types ---
+
+interface StoredUser {
+    user: Models.User<Models.Preferences>;
+    /** SHA-256 hex digest of the password (plain text only where WebCrypto is unavailable) */
+    passwordHash: string;
+}
+
+interface StoredFile {
+    file: Models.File;
+    blob: Blob;
+}
+
+/** Everything the memory backend knows about. Persisted as a single IndexedDB record. */
+interface MemoryState {
+    /** collectionId -> documents in insertion order (mirrors Appwrite's default ordering) */
+    collections: Record<string, Models.Document[]>;
+    users: StoredUser[];
+    sessionUserId: string | null;
+    /** bucketId -> files */
+    files: Record<string, StoredFile[]>;
+}
+
+export interface MemoryBackendOptions {
+    /** Persist state to IndexedDB so data survives reloads. Defaults to true. */
+    persist?: boolean;
+}
+
+// --- Constants ---
+const IDB_NAME = 'momcare-memory-backend';
+
+const emptyState = (): MemoryState => ({ collections: {}, users: [], sessionUserId: null, files: {} });
+
+// --- Helpers ---
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const notFound = (what: string, id: string): AppwriteException =>
+    new AppwriteException(`${what} with the requested ID '${id}' could not be found.`, 404, `${what.toLowerCase()}_not_found`);
+
+const hashPassword = async (password: string): Promise<string> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return password; // Non-secure context; data never leaves this browser
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Cloud functions the app executes, re-implemented against local state. Keyed by the memory-mode function ID. */
+const functionHandlers: Record<string, (state: MemoryState) => unknown> = {
+    getUserCount: (state) => ({ totalUsers: state.users.length }),
+    // Other users' appointments, reduced to their timing fields like the deployed function
+    appointmentBookedTimes: (state) => ({
+        bookings: (state.collections.appointments ?? [])
+            .filter(doc => doc.userId !== state.sessionUserId)
+            .map(({ $id, date, time, startsAt, endsAt, timeZone, status, isCompleted, recurrence, recurrenceExceptions, seriesId, originalDate }) =>
+                ({ $id, date, time, startsAt, endsAt, timeZone, status, isCompleted, recurrence, recurrenceExceptions, seriesId, originalDate })),
+    }),
+};
+
+// --- Factory ---
+
+/**
+ * Creates an in-browser backend that mimics the parts of Appwrite the app uses.
+ * Documents, accounts and files live in memory and, unless `persist` is false,
+ * are snapshotted to IndexedDB after every write and restored on startup.
+ * Permissions are not enforced: the backend is meant for local development, demos and tests.
+ */
+export const createMemoryBackend = ({ persist = true }: MemoryBackendOptions = {}): DataBackend => {
+    let state: MemoryState = emptyState();
+    const objectUrls = new Map<string, string>();
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const dbPromise: Promise<IDBDatabase | null> = persist ? openSnapshotDatabase(IDB_NAME) : Promise.resolve(null);
+    const ready: Promise<void> = dbPromise.then(async (db) => {
+        if (!db) return;
+        const snapshot = await readSnapshot<MemoryState>(db);
+        if (snapshot) state = { ...emptyState(), ...snapshot };
+    });
+
+    const scheduleSave = () => {
+        if (!persist || saveTimer) return;
+        saveTimer = setTimeout(async () => {
+            saveTimer = null;
+            const db = await dbPromise;
+            if (db) await writeSnapshot(db, state);
+        }, 50);
+    };
+
+    const collection = (collectionId: string): Models.Document[] => {
+        if (!state.collections[collectionId]) state.collections[collectionId] = [];
+        return state.collections[collectionId];
+    };
+
+    const bucket = (bucketId: string): StoredFile[] => {
+        if (!state.files[bucketId]) state.files[bucketId] = [];
+        return state.files[bucketId];
+    };
+
+    const currentUser = (): StoredUser | undefined => state.users.find((u) => u.user.$id === state.sessionUserId);
+
+    // --- Databases ---
+    const databases: DatabaseService = {
+        listDocuments: async <Document extends Models.Document>(databaseId: string, collectionId: string, queries?: string[]): Promise<Models.DocumentList<Document>> => {
+            await ready;
+            const { total, documents } = runQueries(collection(collectionId), queries);
+            return { total, documents: clone(documents) as Document[] };
+        },
+        getDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string): Promise<Document> => {
+            await ready;
+            const doc = collection(collectionId).find((d) => d.$id === documentId);
+            if (!doc) throw notFound('Document', documentId);
+            return clone(doc) as Document;
+        },
+        createDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, data: Omit<Document, keyof Models.Document>, permissions?: string[]): Promise<Document> => {
+            await ready;
+            const docs = collection(collectionId);
+            if (docs.some((d) => d.$id === documentId)) {
+                throw new AppwriteException('Document with the requested ID already exists.', 409, 'document_already_exists');
+            }
+            const now = new Date().toISOString();
+            const doc: Models.Document = {
+                ...clone(data),
+                $id: documentId,
+                $collectionId: collectionId,
+                $databaseId: databaseId,
+                $createdAt: now,
+                $updatedAt: now,
+                $permissions: permissions ?? [],
+            };
+            docs.push(doc);
+            scheduleSave();
+            return clone(doc) as Document;
+        },
+        updateDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, data?: Partial<Omit<Document, keyof Models.Document>>, permissions?: string[]): Promise<Document> => {
+            await ready;
+            const docs = collection(collectionId);
+            const index = docs.findIndex((d) => d.$id === documentId);
+            if (index === -1) throw notFound('Document', documentId);
+            const updated: Models.Document = {
+                ...docs[index],
+                ...clone(data ?? {}),
+                $updatedAt: new Date().toISOString(),
+                $permissions: permissions ?? docs[index].$permissions,
+            };
+            docs[index] = updated;
+            scheduleSave();
+            return clone(updated) as Document;
+        },
+        deleteDocument: async (databaseId: string, collectionId: string, documentId: string): Promise<object> => {
+            await ready;
+            const docs = collection(collectionId);
+            const index = docs.findIndex((d) => d.$id === documentId);
+            if (index === -1) throw notFound('Document', documentId);
+            docs.splice(index, 1);
+            scheduleSave();
+            return {};
+        },
+    };
+
+    // --- Storage ---
+    const storage: StorageService = {
+        createFile: async (bucketId: string, fileId: string, file: File, permissions?: string[]): Promise<Models.File> => {
+            await ready;
+            const now = new Date().toISOString();
+            const stored: StoredFile = {
+                blob: file,
+                file: {
+                    $id: fileId,
+                    bucketId,
+                    $createdAt: now,
+                    $updatedAt: now,
+                    $permissions: permissions ?? [],
+                    name: file.name,
+                    signature: '',
+                    mimeType: file.type || 'application/octet-stream',
+                    sizeOriginal: file.size,
+                    chunksTotal: 1,
+                    chunksUploaded: 1,
+                },
+            };
+            bucket(bucketId).push(stored);
+            scheduleSave();
+            return clone(stored.file);
+        },
+        deleteFile: async (bucketId: string, fileId: string): Promise<object> => {
+            await ready;
+            const files = bucket(bucketId);
+            const index = files.findIndex((f) => f.file.$id === fileId);
+            if (index === -1) throw notFound('Storage file', fileId);
+            files.splice(index, 1);
+            const key = `${bucketId}/${fileId}`;
+            const url = objectUrls.get(key);
+            if (url) { URL.revokeObjectURL(url); objectUrls.delete(key); }
+            scheduleSave();
+            return {};
+        },
+        // Synchronous in the SDK, so files restored from IndexedDB are only viewable once `ready` has resolved
+        getFileView: (bucketId: string, fileId: string): string => {
+            const key = `${bucketId}/${fileId}`;
+            const cached = objectUrls.get(key);
+            if (cached) return cached;
+            const stored = bucket(bucketId).find((f) => f.file.$id === fileId);
+            if (!stored) return '';
+            const url = URL.createObjectURL(stored.blob);
+            objectUrls.set(key, url);
+            return url;
+        },
+    };
+
+    // --- Account ---
+    const account: AuthService = {
+        create: async <Preferences extends Models.Preferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>> => {
+            await ready;
+            const normalizedEmail = email.trim().toLowerCase();
+            if (state.users.some((u) => u.user.email === normalizedEmail)) {
+                throw new AppwriteException('A user with the same id, email, or phone already exists in this project.', 409, 'user_already_exists');
+            }
+            if (password.length < 8) {
+                throw new AppwriteException('Invalid `password` param: Password must be between 8 and 265 characters long.', 400, 'general_argument_invalid');
+            }
+            const now = new Date().toISOString();
+            const user: Models.User<Models.Preferences> = {
+                $id: userId === 'unique()' ? ID.unique() : userId,
+                $createdAt: now,
+                $updatedAt: now,
+                name: name ?? '',
+                registration: now,
+                status: true,
+                labels: [],
+                passwordUpdate: now,
+                email: normalizedEmail,
+                phone: '',
+                emailVerification: false,
+                phoneVerification: false,
+                mfa: false,
+                prefs: {},
+                targets: [],
+                accessedAt: now,
+            };
+            state.users.push({ user, passwordHash: await hashPassword(password) });
+            scheduleSave();
+            return clone(user) as Models.User<Preferences>;
+        },
+        createEmailPasswordSession: async (email: string, password: string): Promise<Models.Session> => {
+            await ready;
+            const normalizedEmail = email.trim().toLowerCase();
+            const passwordHash = await hashPassword(password);
+            const stored = state.users.find((u) => u.user.email === normalizedEmail && u.passwordHash === passwordHash);
+            if (!stored) {
+                throw new AppwriteException('Invalid credentials. Please check the email and password.', 401, 'user_invalid_credentials');
+            }
+            state.sessionUserId = stored.user.$id;
+            stored.user.accessedAt = new Date().toISOString();
+            scheduleSave();
+            const now = new Date().toISOString();
+            return {
+                $id: ID.unique(), $createdAt: now, $updatedAt: now, userId: stored.user.$id,
+                expire: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+                provider: 'email', providerUid: normalizedEmail, providerAccessToken: '', providerAccessTokenExpiry: '', providerRefreshToken: '',
+                ip: '127.0.0.1', osCode: '', osName: '', osVersion: '', clientType: 'browser', clientCode: '', clientName: '', clientVersion: '',
+                clientEngine: '', clientEngineVersion: '', deviceName: '', deviceBrand: '', deviceModel: '', countryCode: '', countryName: '',
+                current: true, factors: ['password'], secret: '', mfaUpdatedAt: '',
+            };
+        },
+        deleteSession: async (): Promise<object> => {
+            await ready;
+            if (!state.sessionUserId) throw new AppwriteException('User (role: guests) missing scope (account)', 401, 'general_unauthorized_scope');
+            state.sessionUserId = null;
+            scheduleSave();
+            return {};
+        },
+        get: async <Preferences extends Models.Preferences>(): Promise<Models.User<Preferences>> => {
+            await ready;
+            const stored = currentUser();
+            if (!stored) throw new AppwriteException('User (role: guests) missing scope (account)', 401, 'general_unauthorized_scope');
+            return clone(stored.user) as Models.User<Preferences>;
+        },
+        // Not a real JWT: nothing outside the browser can verify memory-backend users
+        createJWT: async (): Promise<Models.Jwt> => {
+            await ready;
+            if (!state.sessionUserId) throw new AppwriteException('User (role: guests) missing scope (account)', 401, 'general_unauthorized_scope');
+            return { jwt: `memory.${state.sessionUserId}` };
+        },
+    };
+
+    // --- Functions ---
+    const functions: FunctionsService = {
+        createExecution: async (functionId: string, body?: string, async?: boolean, xpath?: string): Promise<Models.Execution> => {
+            await ready;
+            const handler = functionHandlers[functionId];
+            const now = new Date().toISOString();
+            return {
+                $id: ID.unique(), $createdAt: now, $updatedAt: now, $permissions: [],
+                functionId, trigger: 'http',
+                status: handler ? 'completed' : 'failed',
+                requestMethod: 'GET', requestPath: xpath ?? '/', requestHeaders: [],
+                responseStatusCode: handler ? 200 : 404,
+                responseBody: handler ? JSON.stringify(handler(state)) : '',
+                responseHeaders: [], logs: '',
+                errors: handler ? '' : `Function '${functionId}' is not available in the memory backend.`,
+                duration: 0,
+            };
+        },
+    };
+
+    return { kind: 'memory', account, databases, storage, functions };
+};
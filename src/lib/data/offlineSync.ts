@@ -0,0 +1,513 @@
+// src/lib/data/offlineSync.ts
+import { AppwriteException, ID, Models } from 'appwrite';
+import type { DatabaseService } from './backend';
+import { runQueries } from './queryEngine';
+import { openSnapshotDatabase, readSnapshot, writeSnapshot } from './snapshotStore';
+
+// --- Types ---
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+/** A local write that has not reached the server yet. Replayed strictly in queue order. */
+export interface OutboxEntry {
+    id: string;
+    operation: OutboxOperation;
+    databaseId: string;
+    collectionId: string;
+    documentId: string;
+    /** Attributes to create/update (absent for deletes) */
+    data?: Record<string, unknown>;
+    /** Numbers to add to the server's stored values when replayed (see OfflineSync.increment); never folded into */
+    increments?: Record<string, number>;
+    /** Lower bound for incremented values */
+    incrementMin?: number;
+    permissions?: string[];
+    /** `$updatedAt` of the local copy this change was made against (updates/deletes only) */
+    baseUpdatedAt?: string;
+    /** ISO timestamp of the local change; compared with the server's `$updatedAt` to resolve conflicts */
+    queuedAt: string;
+    /** Set when the server permanently refused the change (moved to the rejected list) */
+    error?: string;
+}
+
+export interface SyncStatus {
+    online: boolean;
+    syncing: boolean;
+    /** Changes waiting in the outbox */
+    pending: number;
+    /** Changes the server refused; kept so nothing the user entered is silently lost */
+    rejected: number;
+    lastSyncedAt: string | null;
+}
+
+export interface SyncEvent {
+    status: SyncStatus;
+    /** Synced collections whose local copy changed (empty for status-only updates) */
+    changedCollectionIds: string[];
+}
+
+export type SyncListener = (event: SyncEvent) => void;
+
+/** Persisted local store: cached documents plus the outbox. */
+interface OfflineState {
+    /** collectionId -> cached documents */
+    collections: Record<string, Models.Document[]>;
+    outbox: OutboxEntry[];
+    rejected: OutboxEntry[];
+    /** list query key -> epoch ms of the last successful server refresh */
+    refreshedAt: Record<string, number>;
+    lastSyncedAt: string | null;
+}
+
+export interface OfflineSyncOptions {
+    /** Collections mirrored locally. Everything else passes straight through to the remote service. */
+    collectionIds: string[];
+    /** When false the remote service is used as-is (e.g. the memory backend is already local). */
+    enabled?: boolean;
+    /** Minimum gap between background refreshes of the same list query. Defaults to 30 seconds. */
+    refreshIntervalMs?: number;
+    /**
+     * Whether the user is still signed in. Appwrite answers 401 both for an expired session and for a missing
+     * document permission; only the first is worth retrying. Defaults to assuming the session is valid.
+     */
+    hasSession?: () => Promise<boolean>;
+}
+
+export interface OfflineSync {
+    /** Drop-in DatabaseService: synced collections are served from and written to the local store. */
+    databases: DatabaseService;
+    /** Replays the outbox now (no-op while offline or already syncing). */
+    flush: () => Promise<void>;
+    getStatus: () => SyncStatus;
+    /** True if the document has local changes that have not reached the server. */
+    isPending: (documentId: string) => boolean;
+    subscribe: (listener: SyncListener) => () => void;
+    /**
+     * Adds to numeric attributes (e.g. a medication's stock). The change is queued as a difference and applied to the
+     * server's stored value when replayed, so quick successive changes or a change made offline are not lost to a stale
+     * read. Results are rounded to 2 decimals and kept at or above `min`; attributes that aren't numbers are left alone.
+     */
+    increment: <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, changes: Record<string, number>, options?: { min?: number }) => Promise<Document>;
+    /**
+     * Marks a synced collection's cached lists as out of date after it was written some other way (e.g. by a server
+     * function), so the next list waits for the server instead of serving the local copy.
+     */
+    invalidate: (collectionId: string) => void;
+    /** Forgets the local copy, the outbox and rejected changes (on logout). Unsynced changes are lost, so flush first. */
+    clear: () => Promise<void>;
+}
+
+// --- Constants ---
+const IDB_NAME = 'momcare-offline-store';
+const DEFAULT_REFRESH_INTERVAL_MS = 30 * 1000;
+
+const emptyState = (): OfflineState => ({ collections: {}, outbox: [], rejected: [], refreshedAt: {}, lastSyncedAt: null });
+
+// --- Helpers ---
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const isBrowserOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Network failures surface as TypeErrors from fetch (or code 0); 5xx and 429 are also worth retrying
+ * later. 401 is decided separately (see hasSession). Anything else is a permanent rejection.
+ */
+const isTransientError = (error: unknown): boolean => {
+    if (!(error instanceof AppwriteException)) return !(error instanceof Error) || error instanceof TypeError;
+    return !error.code || error.code >= 500 || error.code === 429;
+};
+
+const isUnauthorized = (error: unknown): boolean => error instanceof AppwriteException && error.code === 401;
+
+const isNotFound = (error: unknown): boolean => error instanceof AppwriteException && error.code === 404;
+
+const toTime = (iso: string | undefined): number => (iso ? new Date(iso).getTime() || 0 : 0);
+
+/**
+ * Last-writer-wins: the server copy beats a queued change only if it was modified after the
+ * version the change was based on AND after the change was made on this device.
+ */
+const serverWins = (remote: Models.Document, entry: OutboxEntry): boolean =>
+    remote.$updatedAt !== entry.baseUpdatedAt && toTime(remote.$updatedAt) > toTime(entry.queuedAt);
+
+const offlineError = (documentId: string): AppwriteException =>
+    new AppwriteException(`Document '${documentId}' is not available offline. Reconnect and try again.`, 0, 'offline_document_unavailable');
+
+/** The attributes of `doc` after adding `changes` to those that are numbers */
+const applyIncrements = (doc: Record<string, unknown>, changes: Record<string, number>, min = -Infinity): Record<string, number> =>
+    Object.fromEntries(Object.entries(changes)
+        .filter(([key]) => typeof doc[key] === 'number')
+        .map(([key, change]) => [key, Math.max(min, Math.round(((doc[key] as number) + change) * 100) / 100)]));
+
+const systemAttributes = new Set(['$id', '$collectionId', '$databaseId', '$createdAt', '$updatedAt', '$permissions']);
+const stripSystemAttributes = (doc: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(doc).filter(([key]) => !systemAttributes.has(key)));
+
+// --- Factory ---
+
+/**
+ * Wraps a remote DatabaseService with a persistent local store and an outbox.
+ *
+ * Reads of synced collections are answered from the local copy (stale-while-revalidate: a list query
+ * that has been fetched before returns instantly and refreshes in the background). Writes are applied
+ * locally, queued, and replayed in order whenever the browser is online. While online a write still waits
+ * for its own replay, so server-side validation errors reach the caller exactly as before; offline, the
+ * local document is returned and the change syncs once connectivity returns. Conflicts are resolved
+ * last-writer-wins on `$updatedAt`.
+ */
+export const createOfflineSync = (remote: DatabaseService, {
+    collectionIds, enabled = true, refreshIntervalMs = DEFAULT_REFRESH_INTERVAL_MS, hasSession = async () => true,
+}: OfflineSyncOptions): OfflineSync => {
+    let state: OfflineState = emptyState();
+    /** Bumped by clear(), so replays and refreshes started before it don't write into the fresh store */
+    let generation = 0;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let flushPromise: Promise<void> | null = null;
+    const listeners = new Set<SyncListener>();
+    const inFlightRefreshes = new Map<string, Promise<boolean>>();
+    /** Errors for outbox entries rejected during this session, so the originating call can rethrow them */
+    const rejectionErrors = new Map<string, unknown>();
+    const synced = new Set(collectionIds);
+
+    const dbPromise: Promise<IDBDatabase | null> = enabled ? openSnapshotDatabase(IDB_NAME) : Promise.resolve(null);
+    const ready: Promise<void> = dbPromise.then(async (db) => {
+        if (!db) return;
+        const snapshot = await readSnapshot<OfflineState>(db);
+        if (snapshot) state = { ...emptyState(), ...snapshot };
+    });
+
+    const scheduleSave = () => {
+        if (saveTimer) return;
+        saveTimer = setTimeout(async () => {
+            saveTimer = null;
+            const db = await dbPromise;
+            if (db) await writeSnapshot(db, state);
+        }, 50);
+    };
+
+    const getStatus = (): SyncStatus => ({
+        online: isBrowserOnline(),
+        syncing: flushPromise !== null,
+        pending: state.outbox.length,
+        rejected: state.rejected.length,
+        lastSyncedAt: state.lastSyncedAt,
+    });
+
+    const notify = (changedCollectionIds: string[] = []) => {
+        const event: SyncEvent = { status: getStatus(), changedCollectionIds };
+        listeners.forEach((listener) => {
+            try { listener(event); } catch { /* A failing listener must not break syncing */ }
+        });
+    };
+
+    // --- Local Store ---
+    const collection = (collectionId: string): Models.Document[] => {
+        if (!state.collections[collectionId]) state.collections[collectionId] = [];
+        return state.collections[collectionId];
+    };
+    const findLocal = (collectionId: string, documentId: string): Models.Document | undefined =>
+        collection(collectionId).find((d) => d.$id === documentId);
+    const putLocal = (doc: Models.Document) => {
+        const docs = collection(doc.$collectionId);
+        const index = docs.findIndex((d) => d.$id === doc.$id);
+        if (index === -1) docs.push(clone(doc)); else docs[index] = clone(doc);
+    };
+    const removeLocal = (collectionId: string, documentId: string) => {
+        const docs = collection(collectionId);
+        const index = docs.findIndex((d) => d.$id === documentId);
+        if (index !== -1) docs.splice(index, 1);
+    };
+    const hasPendingChanges = (documentId: string): boolean => state.outbox.some((entry) => entry.documentId === documentId);
+    /** The head of the outbox may already be on its way to the server and must not be edited. */
+    const isInFlight = (entry: OutboxEntry): boolean => flushPromise !== null && entry === state.outbox[0];
+
+    // --- Outbox Replay ---
+    /**
+     * Sends one entry to the server and reconciles the local copy with the outcome.
+     * Resolves with the server's copy of the document, or null if it no longer exists there.
+     */
+    const replayEntry = async (entry: OutboxEntry): Promise<Models.Document | null> => {
+        const { databaseId, collectionId, documentId } = entry;
+        let result: Models.Document;
+        if (entry.operation === 'create') {
+            try {
+                result = await remote.createDocument(databaseId, collectionId, documentId, entry.data ?? {}, entry.permissions);
+            } catch (error) {
+                // 409: an earlier replay reached the server but its response was lost; apply as an update instead
+                if (!(error instanceof AppwriteException && error.code === 409)) throw error;
+                result = await remote.updateDocument(databaseId, collectionId, documentId, entry.data ?? {});
+            }
+            putLocal(result);
+            return result;
+        }
+
+        let current: Models.Document;
+        try {
+            current = await remote.getDocument(databaseId, collectionId, documentId);
+        } catch (error) {
+            if (!isNotFound(error)) throw error;
+            removeLocal(collectionId, documentId); // Deleted on the server: nothing left to update or delete
+            return null;
+        }
+        if (entry.increments) {
+            // Applied to whatever the server holds now, so changes made elsewhere in the meantime are kept
+            result = await remote.updateDocument(databaseId, collectionId, documentId, applyIncrements(current, entry.increments, entry.incrementMin));
+            putLocal(result);
+            return result;
+        }
+        if (serverWins(current, entry)) {
+            putLocal(current);
+            return current;
+        }
+        if (entry.operation === 'delete') {
+            await remote.deleteDocument(databaseId, collectionId, documentId);
+            return null;
+        }
+        result = await remote.updateDocument(databaseId, collectionId, documentId, entry.data ?? {});
+        putLocal(result);
+        return result;
+    };
+
+    /** A 401 is only retried when the session is gone (the change can go through after signing in again). */
+    const shouldRetry = async (error: unknown): Promise<boolean> => {
+        if (!isUnauthorized(error)) return isTransientError(error);
+        try { return !(await hasSession()); }
+        catch { return true; } // Couldn't tell (e.g. the connection dropped); try again later
+    };
+
+    const runFlush = async (): Promise<void> => {
+        await ready;
+        const startedIn = generation;
+        const changed = new Set<string>();
+        while (state.outbox.length > 0 && isBrowserOnline()) {
+            const entry = state.outbox[0];
+            try {
+                const serverCopy = await replayEntry(entry);
+                if (generation !== startedIn) break;
+                // Later changes to the same document were made on top of this one, so they are based on the server's version now
+                if (serverCopy) {
+                    state.outbox.forEach((queued) => { if (queued !== entry && queued.documentId === entry.documentId) queued.baseUpdatedAt = serverCopy.$updatedAt; });
+                }
+            } catch (error) {
+                if (await shouldRetry(error) || generation !== startedIn) break; // Keep the entry (and everything after it) for the next attempt
+                rejectionErrors.set(entry.id, error);
+                state.rejected.push({ ...entry, error: error instanceof Error ? error.message : String(error) });
+                // Roll the local copy back to what the server has
+                try { putLocal(await remote.getDocument(entry.databaseId, entry.collectionId, entry.documentId)); }
+                catch { if (entry.operation === 'create') removeLocal(entry.collectionId, entry.documentId); }
+            }
+            state.outbox = state.outbox.filter((queued) => queued !== entry);
+            changed.add(entry.collectionId);
+            if (state.outbox.length === 0) state.lastSyncedAt = new Date().toISOString();
+            scheduleSave();
+        }
+        flushPromise = null;
+        notify([...changed]);
+    };
+
+    const flush = (): Promise<void> => {
+        if (!enabled || !isBrowserOnline()) return Promise.resolve();
+        if (!flushPromise) {
+            flushPromise = runFlush();
+            notify();
+        }
+        return flushPromise;
+    };
+
+    /** Queues a change and, when online, waits for it to be replayed so server errors surface to the caller. */
+    const enqueue = async (entry: OutboxEntry): Promise<void> => {
+        state.outbox.push(entry);
+        scheduleSave();
+        notify([entry.collectionId]);
+        if (!isBrowserOnline()) return;
+        // A flush already in progress may have started before this entry was queued
+        while (state.outbox.some((queued) => queued.id === entry.id) && isBrowserOnline()) {
+            const before = state.outbox.length;
+            await flush();
+            if (state.outbox.length >= before) break; // No progress (network trouble); leave it queued
+        }
+        const rejection = rejectionErrors.get(entry.id);
+        if (rejection) { rejectionErrors.delete(entry.id); throw rejection; }
+    };
+
+    // --- Server Refresh ---
+    /** Pulls a list query from the server into the local store. Resolves true if anything changed locally. */
+    const refreshList = (databaseId: string, collectionId: string, queries: string[] = []): Promise<boolean> => {
+        const key = `${collectionId}:${JSON.stringify(queries)}`;
+        const existing = inFlightRefreshes.get(key);
+        if (existing) return existing;
+
+        const refresh = (async () => {
+            const startedIn = generation;
+            const response = await remote.listDocuments(databaseId, collectionId, queries);
+            if (generation !== startedIn) return false;
+            let changed = false;
+            const remoteIds = new Set(response.documents.map((doc) => doc.$id));
+            for (const doc of response.documents) {
+                if (hasPendingChanges(doc.$id)) continue; // Local edits win until they are replayed
+                const local = findLocal(collectionId, doc.$id);
+                if (!local || local.$updatedAt !== doc.$updatedAt) { putLocal(doc); changed = true; }
+            }
+            // Anything the same query returns locally but the server no longer has was deleted elsewhere
+            for (const doc of runQueries(collection(collectionId), queries).documents) {
+                if (!remoteIds.has(doc.$id) && !hasPendingChanges(doc.$id)) { removeLocal(collectionId, doc.$id); changed = true; }
+            }
+            state.refreshedAt[key] = Date.now();
+            scheduleSave();
+            return changed;
+        })().finally(() => inFlightRefreshes.delete(key));
+
+        inFlightRefreshes.set(key, refresh);
+        return refresh;
+    };
+
+    const backgroundRefresh = (databaseId: string, collectionId: string, queries: string[] = []) => {
+        refreshList(databaseId, collectionId, queries)
+            .then((changed) => { if (changed) notify([collectionId]); })
+            .catch(() => { /* Offline or server unavailable: keep serving the local copy */ });
+    };
+
+    // --- DatabaseService ---
+    const databases: DatabaseService = {
+        listDocuments: async <Document extends Models.Document>(databaseId: string, collectionId: string, queries?: string[]): Promise<Models.DocumentList<Document>> => {
+            if (!enabled || !synced.has(collectionId)) return remote.listDocuments<Document>(databaseId, collectionId, queries);
+            await ready;
+            const key = `${collectionId}:${JSON.stringify(queries ?? [])}`;
+            const lastRefresh = state.refreshedAt[key];
+            if (lastRefresh === undefined && isBrowserOnline()) {
+                // Never fetched on this device: wait for the server so the first render is not empty
+                try { await refreshList(databaseId, collectionId, queries); }
+                catch (error) { if (!isTransientError(error) && !isUnauthorized(error)) throw error; } // Signed out: serve the local copy
+            } else if (isBrowserOnline() && Date.now() - lastRefresh > refreshIntervalMs) {
+                backgroundRefresh(databaseId, collectionId, queries);
+            }
+            const { total, documents } = runQueries(collection(collectionId), queries);
+            return { total, documents: clone(documents) as Document[] };
+        },
+        getDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string): Promise<Document> => {
+            if (!enabled || !synced.has(collectionId)) return remote.getDocument<Document>(databaseId, collectionId, documentId);
+            await ready;
+            const local = findLocal(collectionId, documentId);
+            if (local) return clone(local) as Document;
+            if (!isBrowserOnline()) throw offlineError(documentId);
+            const doc = await remote.getDocument<Document>(databaseId, collectionId, documentId);
+            putLocal(doc);
+            scheduleSave();
+            return doc;
+        },
+        createDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, data: Omit<Document, keyof Models.Document>, permissions?: string[]): Promise<Document> => {
+            if (!enabled || !synced.has(collectionId)) return remote.createDocument<Document>(databaseId, collectionId, documentId, data, permissions);
+            await ready;
+            const now = new Date().toISOString();
+            const $id = documentId === 'unique()' ? ID.unique() : documentId; // The ID must be fixed before the server sees it
+            putLocal({ ...clone(data), $id, $collectionId: collectionId, $databaseId: databaseId, $createdAt: now, $updatedAt: now, $permissions: permissions ?? [] });
+            await enqueue({ id: ID.unique(), operation: 'create', databaseId, collectionId, documentId: $id, data: clone(data) as Record<string, unknown>, permissions, queuedAt: now });
+            return clone(findLocal(collectionId, $id)) as Document;
+        },
+        updateDocument: async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, data?: Partial<Omit<Document, keyof Models.Document>>, permissions?: string[]): Promise<Document> => {
+            if (!enabled || !synced.has(collectionId)) return remote.updateDocument<Document>(databaseId, collectionId, documentId, data, permissions);
+            await ready;
+            const local = findLocal(collectionId, documentId);
+            if (!local) {
+                if (!isBrowserOnline()) throw offlineError(documentId);
+                const updated = await remote.updateDocument<Document>(databaseId, collectionId, documentId, data, permissions);
+                putLocal(updated);
+                scheduleSave();
+                return updated;
+            }
+            const now = new Date().toISOString();
+            const changes = stripSystemAttributes(clone(data ?? {}) as Record<string, unknown>);
+            putLocal({ ...local, ...changes, $updatedAt: now, $permissions: permissions ?? local.$permissions });
+            // Fold into the document's latest queued create/update so replays stay minimal (never past a queued increment)
+            const queued = [...state.outbox].reverse().find((entry) => entry.documentId === documentId);
+            if (queued && queued.operation !== 'delete' && !queued.increments && !isInFlight(queued)) {
+                queued.data = { ...queued.data, ...changes };
+                queued.queuedAt = now;
+                scheduleSave();
+                notify([collectionId]);
+                if (isBrowserOnline()) await flush();
+            } else {
+                await enqueue({ id: ID.unique(), operation: 'update', databaseId, collectionId, documentId, data: changes, baseUpdatedAt: local.$updatedAt, queuedAt: now });
+            }
+            return clone(findLocal(collectionId, documentId)) as Document;
+        },
+        deleteDocument: async (databaseId: string, collectionId: string, documentId: string): Promise<object> => {
+            if (!enabled || !synced.has(collectionId)) return remote.deleteDocument(databaseId, collectionId, documentId);
+            await ready;
+            const local = findLocal(collectionId, documentId);
+            if (!local) {
+                if (!isBrowserOnline()) throw offlineError(documentId);
+                return remote.deleteDocument(databaseId, collectionId, documentId);
+            }
+            removeLocal(collectionId, documentId);
+            const neverSynced = state.outbox.some((entry) => entry.documentId === documentId && entry.operation === 'create' && !isInFlight(entry));
+            if (neverSynced) {
+                // The server never saw this document: dropping its queued changes is the whole delete
+                state.outbox = state.outbox.filter((entry) => entry.documentId !== documentId);
+                scheduleSave();
+                notify([collectionId]);
+                return {};
+            }
+            await enqueue({ id: ID.unique(), operation: 'delete', databaseId, collectionId, documentId, baseUpdatedAt: local.$updatedAt, queuedAt: new Date().toISOString() });
+            return {};
+        },
+    };
+
+    if (enabled && typeof window !== 'undefined') {
+        window.addEventListener('online', () => { notify(); flush(); });
+        window.addEventListener('offline', () => notify());
+        ready.then(() => { if (state.outbox.length > 0) flush(); });
+    }
+
+    const increment = async <Document extends Models.Document>(databaseId: string, collectionId: string, documentId: string, changes: Record<string, number>, { min }: { min?: number } = {}): Promise<Document> => {
+        if (!enabled || !synced.has(collectionId)) {
+            const current = await remote.getDocument<Document>(databaseId, collectionId, documentId);
+            const updates = applyIncrements(current, changes, min);
+            if (Object.keys(updates).length === 0) return current;
+            return remote.updateDocument<Document>(databaseId, collectionId, documentId, updates as Partial<Omit<Document, keyof Models.Document>>);
+        }
+        await ready;
+        let local = findLocal(collectionId, documentId);
+        if (!local) {
+            if (!isBrowserOnline()) throw offlineError(documentId);
+            local = await remote.getDocument(databaseId, collectionId, documentId);
+            putLocal(local);
+        }
+        const updates = applyIncrements(local, changes, min);
+        if (Object.keys(updates).length === 0) return clone(local) as Document;
+        const now = new Date().toISOString();
+        putLocal({ ...local, ...updates, $updatedAt: now });
+        await enqueue({ id: ID.unique(), operation: 'update', databaseId, collectionId, documentId, increments: { ...changes }, incrementMin: min, baseUpdatedAt: local.$updatedAt, queuedAt: now });
+        return clone(findLocal(collectionId, documentId)) as Document;
+    };
+
+    const invalidate = (collectionId: string) => {
+        Object.keys(state.refreshedAt).forEach((key) => { if (key.startsWith(`${collectionId}:`)) delete state.refreshedAt[key]; });
+        scheduleSave();
+        notify([collectionId]);
+    };
+
+    const clear = async (): Promise<void> => {
+        await ready;
+        generation++;
+        state = emptyState();
+        rejectionErrors.clear();
+        inFlightRefreshes.clear();
+        if (saveTimer) { clearTimeout(saveTimer); saveTimer = null; }
+        const db = await dbPromise;
+        if (db) await writeSnapshot(db, state);
+        notify([...synced]);
+    };
+
+    return {
+        databases,
+        flush,
+        getStatus,
+        isPending: hasPendingChanges,
+        subscribe: (listener) => { listeners.add(listener); return () => { listeners.delete(listener); }; },
+        increment,
+        invalidate,
+        clear,
+    };
+};
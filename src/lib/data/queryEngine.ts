@@ -0,0 +1,96 @@
+// src/lib/data/queryEngine.ts
+// Evaluates Appwrite `Query.*` strings against plain document arrays. Shared by the adapters
+// that answer listDocuments locally (the memory backend and the offline sync store).
+import type { Models } from 'appwrite';
+
+/** A decoded `Query.*` string. */
+interface ParsedQuery {
+    method: string;
+    attribute?: string;
+    values?: unknown[];
+}
+
+/** Appwrite's default page size when no Query.limit is given. */
+const DEFAULT_LIST_LIMIT = 25;
+
+// --- Query Evaluation ---
+
+const parseQueries = (queries: string[] = []): ParsedQuery[] => queries.map((query) => JSON.parse(query) as ParsedQuery);
+
+const compareValues = (a: unknown, b: unknown): number => {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    return (a as number | string) < (b as number | string) ? -1 : 1;
+};
+
+const matchesQuery = (doc: Models.Document, query: ParsedQuery): boolean => {
+    const values = query.values ?? [];
+    if (query.method === 'or') return (values as ParsedQuery[]).some((inner) => matchesQuery(doc, inner));
+    if (query.method === 'and') return (values as ParsedQuery[]).every((inner) => matchesQuery(doc, inner));
+
+    const value = query.attribute ? doc[query.attribute] : undefined;
+    switch (query.method) {
+        case 'equal':
+            return Array.isArray(value) ? values.some((v) => value.includes(v)) : values.some((v) => v === value);
+        case 'notEqual':
+            return !values.some((v) => v === value);
+        case 'lessThan': return value !== undefined && value !== null && compareValues(value, values[0]) < 0;
+        case 'lessThanEqual': return value !== undefined && value !== null && compareValues(value, values[0]) <= 0;
+        case 'greaterThan': return value !== undefined && value !== null && compareValues(value, values[0]) > 0;
+        case 'greaterThanEqual': return value !== undefined && value !== null && compareValues(value, values[0]) >= 0;
+        case 'between': return value !== undefined && value !== null && compareValues(value, values[0]) >= 0 && compareValues(value, values[1]) <= 0;
+        case 'isNull': return value === undefined || value === null;
+        case 'isNotNull': return value !== undefined && value !== null;
+        case 'startsWith': return typeof value === 'string' && value.startsWith(String(values[0]));
+        case 'endsWith': return typeof value === 'string' && value.endsWith(String(values[0]));
+        case 'contains':
+            if (Array.isArray(value)) return values.some((v) => value.includes(v));
+            return typeof value === 'string' && values.some((v) => value.includes(String(v)));
+        case 'search': {
+            // Rough approximation of Appwrite's full-text search: any term matches, case-insensitive
+            if (typeof value !== 'string') return false;
+            const haystack = value.toLowerCase();
+            const terms = String(values[0] ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+            return terms.length === 0 || terms.some((term) => haystack.includes(term));
+        }
+        default:
+            return true; // Non-filter queries (order, limit, cursor, select) are handled elsewhere
+    }
+};
+
+const FILTER_METHODS = new Set(['equal', 'notEqual', 'lessThan', 'lessThanEqual', 'greaterThan', 'greaterThanEqual', 'between', 'isNull', 'isNotNull', 'startsWith', 'endsWith', 'contains', 'search', 'or', 'and']);
+
+/** Applies filters, ordering, cursors, offset and limit the way Appwrite does for listDocuments. */
+export const runQueries = (documents: Models.Document[], queries: string[] = []): { total: number; documents: Models.Document[] } => {
+    const parsed = parseQueries(queries);
+    const filters = parsed.filter((q) => FILTER_METHODS.has(q.method));
+    const orders = parsed.filter((q) => q.method === 'orderAsc' || q.method === 'orderDesc');
+
+    let result = documents.filter((doc) => filters.every((q) => matchesQuery(doc, q)));
+    if (orders.length > 0) {
+        result = [...result].sort((a, b) => {
+            for (const order of orders) {
+                const diff = compareValues(a[order.attribute as string], b[order.attribute as string]);
+                if (diff !== 0) return order.method === 'orderAsc' ? diff : -diff;
+            }
+            return 0;
+        });
+    }
+    const total = result.length;
+
+    const limit = Number(parsed.find((q) => q.method === 'limit')?.values?.[0] ?? DEFAULT_LIST_LIMIT);
+    const offset = Number(parsed.find((q) => q.method === 'offset')?.values?.[0] ?? 0);
+    const cursorAfter = parsed.find((q) => q.method === 'cursorAfter')?.values?.[0];
+    const cursorBefore = parsed.find((q) => q.method === 'cursorBefore')?.values?.[0];
+
+    if (cursorAfter !== undefined) {
+        const index = result.findIndex((doc) => doc.$id === cursorAfter);
+        result = index === -1 ? [] : result.slice(index + 1);
+    }
+    if (cursorBefore !== undefined) {
+        const index = result.findIndex((doc) => doc.$id === cursorBefore);
+        result = index === -1 ? [] : result.slice(Math.max(0, index - limit), index);
+    }
+    return { total, documents: result.slice(offset, offset + limit) };
+};
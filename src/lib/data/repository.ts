@@ -0,0 +1,207 @@
+// src/lib/data/repository.ts
+import * as api from '../appwrite';
+
+/**
+ * Domain-grouped view of the data layer. Every member is one of the helpers exported by
+ * src/lib/appwrite.ts, which in turn run against whichever backend adapter was selected at
+ * startup (see ./index.ts). Code that wants to stay backend-agnostic (demos, tests, new
+ * features) can depend on this interface instead of importing helpers one by one.
+ */
+export interface DataRepository {
+    auth: {
+        createAccount: typeof api.createAccount;
+        login: typeof api.login;
+        logout: typeof api.logout;
+        getCurrentUser: typeof api.getCurrentUser;
+    };
+    profiles: {
+        create: typeof api.createUserProfile;
+        get: typeof api.getUserProfile;
+        update: typeof api.updateUserProfile;
+        uploadPhoto: typeof api.uploadProfilePhoto;
+        search: typeof api.searchUserProfiles;
+        getByIds: typeof api.getUserProfilesByIds;
+        getRecent: typeof api.getRecentUserProfiles;
+    };
+    appointments: {
+        create: typeof api.createAppointment;
+        listForUser: typeof api.getUserAppointments;
+        listRecordsForUser: typeof api.getUserAppointmentRecords;
+        listUpcoming: typeof api.getAllUpcomingAppointments;
+        listAwaitingOutcome: typeof api.getAppointmentsAwaitingOutcome;
+        updateOccurrence: typeof api.updateAppointmentOccurrence;
+        removeOccurrence: typeof api.deleteAppointmentOccurrence;
+        changeStatus: typeof api.changeAppointmentStatus;
+        statusHistory: typeof api.getAppointmentStatusHistory;
+        recordRequest: typeof api.recordAppointmentRequest;
+        getVisitSummary: typeof api.getVisitSummary;
+        listVisitSummaries: typeof api.getUserVisitSummaries;
+        saveVisitSummary: typeof api.saveVisitSummary;
+        removeVisitSummary: typeof api.deleteVisitSummary;
+        getAvailability: typeof api.getProviderAvailability;
+        saveAvailability: typeof api.saveProviderAvailability;
+        getBookedTimes: typeof api.getBookedAppointmentTimes;
+    };
+    readings: {
+        createBloodPressure: typeof api.createBloodPressureReading;
+        listBloodPressure: typeof api.getBloodPressureReadings;
+        listAllBloodPressure: typeof api.getAllBloodPressureReadings;
+        updateBloodPressure: typeof api.updateBloodPressureReading;
+        removeBloodPressure: typeof api.deleteBloodPressureReading;
+        createBloodSugar: typeof api.createBloodSugarReading;
+        listBloodSugar: typeof api.getBloodSugarReadings;
+        listAllBloodSugar: typeof api.getAllBloodSugarReadings;
+        updateBloodSugar: typeof api.updateBloodSugarReading;
+        removeBloodSugar: typeof api.deleteBloodSugarReading;
+        createWeight: typeof api.createWeightReading;
+        listWeight: typeof api.getWeightReadings;
+        listAllWeight: typeof api.getAllWeightReadings;
+        updateWeight: typeof api.updateWeightReading;
+        removeWeight: typeof api.deleteWeightReading;
+    };
+    reminders: {
+        create: typeof api.createMedicationReminder;
+        list: typeof api.getMedicationReminders;
+        update: typeof api.updateMedicationReminder;
+        remove: typeof api.deleteMedicationReminder;
+        logDose: typeof api.logMedicationDose;
+        listDoses: typeof api.getMedicationDoseEvents;
+    };
+    chat: {
+        saveMessage: typeof api.saveChatMessage;
+        getSessionHistory: typeof api.getUserChatHistoryForSession;
+        listSessions: typeof api.getChatSessionsList;
+        deleteSession: typeof api.deleteChatSessionHistory;
+        uploadImage: typeof api.uploadChatImage;
+    };
+    forum: {
+        createTopic: typeof api.createForumTopic;
+        listTopics: typeof api.getForumTopics;
+        getTopic: typeof api.getForumTopic;
+        updateTopic: typeof api.updateForumTopic;
+        deleteTopic: typeof api.deleteForumTopicAndPosts;
+        createPost: typeof api.createForumPost;
+        listPosts: typeof api.getForumPosts;
+        updatePost: typeof api.updateForumPost;
+        deletePost: typeof api.deleteForumPost;
+        castVote: typeof api.castForumVote;
+        getUserVote: typeof api.getUserVoteStatus;
+        getVoteCounts: typeof api.getTargetVoteCounts;
+    };
+    bookmarks: {
+        addMessage: typeof api.addBookmark;
+        listMessages: typeof api.getBookmarks;
+        removeMessage: typeof api.deleteBookmark;
+        addProduct: typeof api.addProductBookmark;
+        listProducts: typeof api.getUserProductBookmarks;
+        findProduct: typeof api.findProductBookmarkByProductId;
+        removeProduct: typeof api.removeProductBookmarkById;
+    };
+    documents: {
+        upload: typeof api.uploadMedicalDocument;
+        listForUser: typeof api.getUserMedicalDocuments;
+        listRecent: typeof api.getAllRecentMedicalDocuments;
+        remove: typeof api.deleteMedicalDocument;
+        getFilePreview: typeof api.getFilePreview;
+    };
+}
+
+/** The data repository bound to the backend chosen at startup. */
+export const dataRepository: DataRepository = {
+    auth: {
+        createAccount: api.createAccount,
+        login: api.login,
+        logout: api.logout,
+        getCurrentUser: api.getCurrentUser,
+    },
+    profiles: {
+        create: api.createUserProfile,
+        get: api.getUserProfile,
+        update: api.updateUserProfile,
+        uploadPhoto: api.uploadProfilePhoto,
+        search: api.searchUserProfiles,
+        getByIds: api.getUserProfilesByIds,
+        getRecent: api.getRecentUserProfiles,
+    },
+    appointments: {
+        create: api.createAppointment,
+        listForUser: api.getUserAppointments,
+        listRecordsForUser: api.getUserAppointmentRecords,
+        listUpcoming: api.getAllUpcomingAppointments,
+        listAwaitingOutcome: api.getAppointmentsAwaitingOutcome,
+        updateOccurrence: api.updateAppointmentOccurrence,
+        removeOccurrence: api.deleteAppointmentOccurrence,
+        changeStatus: api.changeAppointmentStatus,
+        statusHistory: api.getAppointmentStatusHistory,
+        recordRequest: api.recordAppointmentRequest,
+        getVisitSummary: api.getVisitSummary,
+        listVisitSummaries: api.getUserVisitSummaries,
+        saveVisitSummary: api.saveVisitSummary,
+        removeVisitSummary: api.deleteVisitSummary,
+        getAvailability: api.getProviderAvailability,
+        saveAvailability: api.saveProviderAvailability,
+        getBookedTimes: api.getBookedAppointmentTimes,
+    },
+    readings: {
+        createBloodPressure: api.createBloodPressureReading,
+        listBloodPressure: api.getBloodPressureReadings,
+        listAllBloodPressure: api.getAllBloodPressureReadings,
+        updateBloodPressure: api.updateBloodPressureReading,
+        removeBloodPressure: api.deleteBloodPressureReading,
+        createBloodSugar: api.createBloodSugarReading,
+        listBloodSugar: api.getBloodSugarReadings,
+        listAllBloodSugar: api.getAllBloodSugarReadings,
+        updateBloodSugar: api.updateBloodSugarReading,
+        removeBloodSugar: api.deleteBloodSugarReading,
+        createWeight: api.createWeightReading,
+        listWeight: api.getWeightReadings,
+        listAllWeight: api.getAllWeightReadings,
+        updateWeight: api.updateWeightReading,
+        removeWeight: api.deleteWeightReading,
+    },
+    reminders: {
+        create: api.createMedicationReminder,
+        list: api.getMedicationReminders,
+        update: api.updateMedicationReminder,
+        remove: api.deleteMedicationReminder,
+        logDose: api.logMedicationDose,
+        listDoses: api.getMedicationDoseEvents,
+    },
+    chat: {
+        saveMessage: api.saveChatMessage,
+        getSessionHistory: api.getUserChatHistoryForSession,
+        listSessions: api.getChatSessionsList,
+        deleteSession: api.deleteChatSessionHistory,
+        uploadImage: api.uploadChatImage,
+    },
+    forum: {
+        createTopic: api.createForumTopic,
+        listTopics: api.getForumTopics,
+        getTopic: api.getForumTopic,
+        updateTopic: api.updateForumTopic,
+        deleteTopic: api.deleteForumTopicAndPosts,
+        createPost: api.createForumPost,
+        listPosts: api.getForumPosts,
+        updatePost: api.updateForumPost,
+        deletePost: api.deleteForumPost,
+        castVote: api.castForumVote,
+        getUserVote: api.getUserVoteStatus,
+        getVoteCounts: api.getTargetVoteCounts,
+    },
+    bookmarks: {
+        addMessage: api.addBookmark,
+        listMessages: api.getBookmarks,
+        removeMessage: api.deleteBookmark,
+        addProduct: api.addProductBookmark,
+        listProducts: api.getUserProductBookmarks,
+        findProduct: api.findProductBookmarkByProductId,
+        removeProduct: api.removeProductBookmarkById,
+    },
+    documents: {
+        upload: api.uploadMedicalDocument,
+        listForUser: api.getUserMedicalDocuments,
+        listRecent: api.getAllRecentMedicalDocuments,
+        remove: api.deleteMedicalDocument,
+        getFilePreview: api.getFilePreview,
+    },
+};
@@ -0,0 +1,31 @@
+// src/lib/data/snapshotStore.ts
+// Minimal IndexedDB helpers for adapters that persist their whole state as one record.
+
+const SNAPSHOT_STORE = 'state';
+const SNAPSHOT_KEY = 'snapshot';
+
+/** Opens (creating if needed) a single-store database. Resolves null when IndexedDB is unavailable or blocked. */
+export const openSnapshotDatabase = (name: string): Promise<IDBDatabase | null> => new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return; }
+    try {
+        const request = indexedDB.open(name, 1);
+        request.onupgradeneeded = () => { request.result.createObjectStore(SNAPSHOT_STORE); };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+    } catch {
+        resolve(null);
+    }
+});
+
+export const readSnapshot = <T>(db: IDBDatabase): Promise<T | null> => new Promise((resolve) => {
+    const request = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).get(SNAPSHOT_KEY);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => resolve(null);
+});
+
+export const writeSnapshot = <T>(db: IDBDatabase, state: T): Promise<void> => new Promise((resolve) => {
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOT_STORE).put(state, SNAPSHOT_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve(); // Persistence is best-effort; the in-memory copy stays authoritative
+});
@@ -0,0 +1,151 @@
+// src/lib/drugSafety.ts
+// Matches medication reminders against the bundled reference (lib/drugSafetyData.ts) and produces
+// non-diagnostic notes: how a medicine is commonly regarded in pregnancy or breastfeeding, and known
+// interactions between active reminders. Notes only ever suggest talking to a doctor or pharmacist.
+import type { MedicationReminder } from './appwrite';
+import type { PregnancyTimeline } from './pregnancyTimeline';
+import { DrugSafetyEntry, DrugInteraction, drugSafetyReference } from './drugSafetyData';
+
+// --- Types ---
+
+export type DrugSafetyFindingKind = 'pregnancy' | 'lactation' | 'interaction';
+/** 'info' notes are reassuring or low-impact; only 'caution' and 'warning' are shown as banners on the list. */
+export type DrugSafetySeverity = 'info' | 'caution' | 'warning';
+
+export interface DrugSafetyFinding {
+    /** Stable across checks, so the same note from two reminders is shown once */
+    id: string;
+    kind: DrugSafetyFindingKind;
+    severity: DrugSafetySeverity;
+    /** Reminder medication names the note is about, as the user typed them */
+    medicationNames: string[];
+    title: string;
+    message: string;
+}
+
+/** Which notes apply: pregnancy notes while pregnant (or when the stage is unknown), breastfeeding notes after delivery. */
+export interface DrugSafetyContext {
+    stage: PregnancyTimeline['stage'];
+}
+
+// --- Constants ---
+
+export const DRUG_SAFETY_REFERENCE_VERSION = drugSafetyReference.version;
+export const DRUG_SAFETY_DISCLAIMER = "General information only, not medical advice. Ask your doctor or pharmacist before starting, stopping or changing any medicine.";
+
+const severityRank: Record<DrugSafetySeverity, number> = { warning: 0, caution: 1, info: 2 };
+
+// --- Matching ---
+
+const normalize = (value: string): string =>
+    ` ${value.toLowerCase().replace(/[’'.]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const drugsById = new Map(drugSafetyReference.drugs.map(drug => [drug.id, drug]));
+const aliasIndex = drugSafetyReference.drugs.map(drug => ({ drug, aliases: drug.aliases.map(normalize) }));
+
+/** Reference entries a medication name refers to (whole-word alias match), plus what a combination product contains. */
+export const matchDrugs = (medicationName: string): DrugSafetyEntry[] => {
+    const name = normalize(medicationName ?? '');
+    if (!name.trim()) return [];
+    const matched = new Map<string, DrugSafetyEntry>();
+    for (const { drug, aliases } of aliasIndex) {
+        if (!aliases.some(alias => name.includes(alias))) continue;
+        matched.set(drug.id, drug);
+        for (const id of drug.contains ?? []) {
+            const part = drugsById.get(id);
+            if (part) matched.set(part.id, part);
+        }
+    }
+    return [...matched.values()];
+};
+
+const matchesSide = (drug: DrugSafetyEntry, side: string[]): boolean =>
+    side.some(ref => ref.startsWith('class:') ? drug.classes?.includes(ref.slice(6)) : ref === drug.id);
+
+/** Interaction rules between two (distinct) reference entries, in either order. */
+const findInteractions = (a: DrugSafetyEntry, b: DrugSafetyEntry): DrugInteraction[] =>
+    a.id === b.id ? [] : drugSafetyReference.interactions.filter(rule =>
+        (matchesSide(a, rule.between[0]) && matchesSide(b, rule.between[1])) || (matchesSide(b, rule.between[0]) && matchesSide(a, rule.between[1])));
+
+// --- Findings ---
+
+const pregnancySeverity = { avoid: 'warning', caution: 'caution', generally_used: 'info' } as const;
+const lactationSeverity = { avoid: 'warning', caution: 'caution', generally_compatible: 'info' } as const;
+const interactionSeverity = { major: 'warning', moderate: 'caution', minor: 'info' } as const;
+
+const stageFinding = (drug: DrugSafetyEntry, medicationName: string, context: DrugSafetyContext): DrugSafetyFinding => {
+    if (context.stage === 'postpartum') {
+        return {
+            id: `lactation:${drug.id}`, kind: 'lactation', severity: lactationSeverity[drug.lactation.level], medicationNames: [medicationName],
+            title: `${drug.name} while breastfeeding`, message: drug.lactation.note,
+        };
+    }
+    const category = drug.pregnancy.category ? ` (former FDA category ${drug.pregnancy.category})` : '';
+    return {
+        id: `pregnancy:${drug.id}`, kind: 'pregnancy', severity: pregnancySeverity[drug.pregnancy.level], medicationNames: [medicationName],
+        title: `${drug.name} in pregnancy${category}`, message: drug.pregnancy.note,
+    };
+};
+
+const interactionFinding = (rule: DrugInteraction, a: { drug: DrugSafetyEntry; name: string }, b: { drug: DrugSafetyEntry; name: string }): DrugSafetyFinding => {
+    // Keyed by the reminders rather than the entries, so a combination product reaching one rule through several components is one note
+    const [first, second] = a.name.localeCompare(b.name) <= 0 ? [a, b] : [b, a];
+    return {
+        id: `interaction:${rule.id}:${normalize(first.name).trim()}:${normalize(second.name).trim()}`, kind: 'interaction', severity: interactionSeverity[rule.severity],
+        medicationNames: [first.name, second.name],
+        title: `${first.name} + ${second.name}`, message: `${rule.summary} ${rule.advice}`,
+    };
+};
+
+/** Merges duplicate findings (same note reached through several reminders) and sorts the most serious first. */
+const collectFindings = (findings: DrugSafetyFinding[]): DrugSafetyFinding[] => {
+    const merged = new Map<string, DrugSafetyFinding>();
+    for (const finding of findings) {
+        const existing = merged.get(finding.id);
+        if (existing) existing.medicationNames = [...new Set([...existing.medicationNames, ...finding.medicationNames])];
+        else merged.set(finding.id, { ...finding, medicationNames: [...finding.medicationNames] });
+    }
+    return [...merged.values()].sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || a.title.localeCompare(b.title));
+};
+
+const activeOnly = (reminders: MedicationReminder[]) => reminders.filter(reminder => reminder.isActive !== false && reminder.medicationName);
+
+/** Notes for a medication about to be added, including interactions with the user's other active reminders. */
+export const checkMedication = (medicationName: string, otherReminders: MedicationReminder[], context: DrugSafetyContext): DrugSafetyFinding[] => {
+    const drugs = matchDrugs(medicationName);
+    if (drugs.length === 0) return [];
+    const findings = drugs.map(drug => stageFinding(drug, medicationName, context));
+    for (const other of activeOnly(otherReminders)) {
+        for (const otherDrug of matchDrugs(other.medicationName)) {
+            for (const drug of drugs) {
+                for (const rule of findInteractions(drug, otherDrug)) {
+                    findings.push(interactionFinding(rule, { drug, name: medicationName }, { drug: otherDrug, name: other.medicationName }));
+                }
+            }
+        }
+    }
+    return collectFindings(findings);
+};
+
+/** Notes for the user's whole active list: each medicine's pregnancy/breastfeeding note and every interacting pair. */
+export const checkMedicationList = (reminders: MedicationReminder[], context: DrugSafetyContext): DrugSafetyFinding[] => {
+    const matched = activeOnly(reminders).map(reminder => ({ reminder, drugs: matchDrugs(reminder.medicationName) }));
+    const findings: DrugSafetyFinding[] = [];
+    matched.forEach(({ reminder, drugs }, index) => {
+        for (const drug of drugs) {
+            findings.push(stageFinding(drug, reminder.medicationName, context));
+            for (const other of matched.slice(index + 1)) {
+                for (const otherDrug of other.drugs) {
+                    for (const rule of findInteractions(drug, otherDrug)) {
+                        findings.push(interactionFinding(rule, { drug, name: reminder.medicationName }, { drug: otherDrug, name: other.reminder.medicationName }));
+                    }
+                }
+            }
+        }
+    });
+    return collectFindings(findings);
+};
+
+/** Findings worth interrupting the user for (banners, the save confirmation). */
+export const needsAttention = (findings: DrugSafetyFinding[]): DrugSafetyFinding[] =>
+    findings.filter(finding => finding.severity !== 'info');
@@ -0,0 +1,256 @@
+// src/lib/drugSafetyData.ts
+// Bundled drug-safety reference used by lib/drugSafety.ts. General, non-diagnostic summaries of
+// widely published guidance (FDA labeling and PLLR summaries, ACOG, NIH LactMed). It is NOT a complete
+// drug database: unknown medications simply produce no notes. Bump the version whenever entries change.
+
+// --- Types ---
+
+/** How a medicine is commonly regarded in pregnancy. Always relative to "ask your doctor". */
+export type PregnancySafetyLevel = 'generally_used' | 'caution' | 'avoid';
+export type LactationSafetyLevel = 'generally_compatible' | 'caution' | 'avoid';
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+/** Former FDA letter category (retired in 2015 but still widely quoted). */
+export type LegacyPregnancyCategory = 'A' | 'B' | 'C' | 'D' | 'X';
+
+export interface DrugSafetyEntry {
+    id: string;
+    name: string;
+    /** Generic and brand names matched against the reminder's medication name (case-insensitive, whole words) */
+    aliases: string[];
+    /** Drug classes usable in interaction rules, e.g. 'nsaid' */
+    classes?: string[];
+    /** Other entries a combination product contains (e.g. a prenatal vitamin contains iron), so their interactions apply */
+    contains?: string[];
+    pregnancy: { level: PregnancySafetyLevel; category?: LegacyPregnancyCategory; note: string };
+    lactation: { level: LactationSafetyLevel; note: string };
+}
+
+export interface DrugInteraction {
+    id: string;
+    /** Entry IDs or `class:<name>`; the rule applies when one side matches each list */
+    between: [string[], string[]];
+    severity: InteractionSeverity;
+    summary: string;
+    advice: string;
+}
+
+export interface DrugSafetyReference {
+    version: string;
+    reviewed: string;
+    drugs: DrugSafetyEntry[];
+    interactions: DrugInteraction[];
+}
+
+// --- Data ---
+
+export const drugSafetyReference: DrugSafetyReference = {
+    version: '2026.10.1',
+    reviewed: '2026-10-01',
+    drugs: [
+        // Pain & fever
+        { id: 'acetaminophen', name: 'Acetaminophen (paracetamol)', aliases: ['acetaminophen', 'paracetamol', 'tylenol', 'panadol', 'calpol'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "The usual first choice for pain and fever in pregnancy, at the lowest effective dose for the shortest time." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'ibuprofen', name: 'Ibuprofen', aliases: ['ibuprofen', 'advil', 'motrin', 'nurofen'], classes: ['nsaid'],
+            pregnancy: { level: 'avoid', category: 'C', note: "NSAIDs are generally avoided from about 20 weeks (risk to the baby's kidneys and amniotic fluid) and in the third trimester." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'naproxen', name: 'Naproxen', aliases: ['naproxen', 'aleve', 'naprosyn'], classes: ['nsaid'],
+            pregnancy: { level: 'avoid', category: 'C', note: "NSAIDs are generally avoided from about 20 weeks (risk to the baby's kidneys and amniotic fluid) and in the third trimester." },
+            lactation: { level: 'caution', note: "Occasional use is usually acceptable; shorter-acting options are often preferred for regular use." } },
+        { id: 'aspirin', name: 'Aspirin', aliases: ['aspirin', 'acetylsalicylic acid', 'ecotrin', 'disprin'], classes: ['antiplatelet'],
+            pregnancy: { level: 'caution', category: 'D', note: "Low-dose aspirin is often prescribed to lower preeclampsia risk, but pain-relief doses are usually avoided. Only take it as your doctor directed." },
+            lactation: { level: 'caution', note: "Low doses are generally acceptable; regular higher doses are usually avoided." } },
+        { id: 'codeine', name: 'Codeine', aliases: ['codeine', 'tylenol 3', 'co-codamol'], classes: ['opioid', 'sedating'],
+            pregnancy: { level: 'caution', category: 'C', note: "Opioids are used only when clearly needed; regular use near delivery can cause withdrawal in the newborn." },
+            lactation: { level: 'avoid', note: "Not recommended while breastfeeding because some people convert it to morphine very quickly." } },
+        { id: 'tramadol', name: 'Tramadol', aliases: ['tramadol', 'ultram'], classes: ['opioid', 'serotonergic', 'sedating'],
+            pregnancy: { level: 'caution', category: 'C', note: "Opioids are used only when clearly needed; regular use near delivery can cause withdrawal in the newborn." },
+            lactation: { level: 'avoid', note: "Not recommended while breastfeeding (risk of breathing problems in the baby)." } },
+
+        // Vitamins & supplements
+        { id: 'prenatal-vitamin', name: 'Prenatal vitamin', aliases: ['prenatal', 'prenatal vitamin', 'prenatal vitamins', 'pregnacare', 'prenate'], contains: ['iron', 'calcium', 'folic-acid'],
+            pregnancy: { level: 'generally_used', note: "Recommended before and during pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Often continued while breastfeeding." } },
+        { id: 'folic-acid', name: 'Folic acid', aliases: ['folic acid', 'folate', 'methylfolate'],
+            pregnancy: { level: 'generally_used', category: 'A', note: "Recommended before and during early pregnancy to help prevent neural tube defects." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'iron', name: 'Iron', aliases: ['iron', 'ferrous sulfate', 'ferrous sulphate', 'ferrous fumarate', 'ferrous gluconate', 'feosol'], classes: ['polyvalent-cation'],
+            pregnancy: { level: 'generally_used', category: 'A', note: "Commonly recommended for iron deficiency in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'calcium', name: 'Calcium', aliases: ['calcium', 'calcium carbonate', 'calcium citrate', 'tums', 'caltrate'], classes: ['polyvalent-cation'],
+            pregnancy: { level: 'generally_used', note: "Commonly used as a supplement or antacid in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'vitamin-a', name: 'Vitamin A (high dose)', aliases: ['vitamin a', 'retinol', 'retinyl palmitate'],
+            pregnancy: { level: 'caution', category: 'X', note: "High-dose vitamin A (retinol) supplements can cause birth defects; prenatal vitamins use safe amounts or beta-carotene." },
+            lactation: { level: 'caution', note: "Stay within recommended daily amounts." } },
+        { id: 'st-johns-wort', name: "St John's wort", aliases: ["st john's wort", 'st johns wort', 'st. john\'s wort', 'hypericum'], classes: ['serotonergic'],
+            pregnancy: { level: 'caution', note: "Herbal products aren't well studied in pregnancy and this one interacts with many medicines." },
+            lactation: { level: 'caution', note: "Limited information; ask before using while breastfeeding." } },
+
+        // Nausea, heartburn & allergy
+        { id: 'doxylamine-pyridoxine', name: 'Doxylamine-pyridoxine', aliases: ['diclegis', 'bonjesta', 'diclectin', 'doxylamine', 'unisom'], classes: ['sedating'],
+            pregnancy: { level: 'generally_used', category: 'A', note: "A first-line option for nausea and vomiting of pregnancy." },
+            lactation: { level: 'caution', note: "May cause drowsiness in the baby; ask before using while breastfeeding." } },
+        { id: 'vitamin-b6', name: 'Vitamin B6', aliases: ['vitamin b6', 'pyridoxine'],
+            pregnancy: { level: 'generally_used', category: 'A', note: "Often recommended for pregnancy nausea." },
+            lactation: { level: 'generally_compatible', note: "Compatible at usual doses." } },
+        { id: 'ondansetron', name: 'Ondansetron', aliases: ['ondansetron', 'zofran'], classes: ['serotonergic'],
+            pregnancy: { level: 'caution', category: 'B', note: "Used for severe nausea, usually when first-line options haven't helped; some studies suggest a small first-trimester risk." },
+            lactation: { level: 'generally_compatible', note: "Generally considered acceptable while breastfeeding." } },
+        { id: 'omeprazole', name: 'Omeprazole', aliases: ['omeprazole', 'prilosec', 'losec'],
+            pregnancy: { level: 'generally_used', category: 'C', note: "Generally used for heartburn in pregnancy when antacids aren't enough." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'diphenhydramine', name: 'Diphenhydramine', aliases: ['diphenhydramine', 'benadryl'], classes: ['sedating'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "Generally used short-term for allergies or sleep in pregnancy." },
+            lactation: { level: 'caution', note: "Can make the baby drowsy and may reduce milk supply; occasional use is usually preferred." } },
+        { id: 'loratadine', name: 'Loratadine', aliases: ['loratadine', 'claritin'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "A commonly used non-drowsy antihistamine in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'cetirizine', name: 'Cetirizine', aliases: ['cetirizine', 'zyrtec'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "A commonly used antihistamine in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally acceptable; occasional drowsiness in the baby has been reported." } },
+        { id: 'pseudoephedrine', name: 'Pseudoephedrine', aliases: ['pseudoephedrine', 'sudafed'],
+            pregnancy: { level: 'caution', category: 'C', note: "Usually avoided in the first trimester and with high blood pressure." },
+            lactation: { level: 'caution', note: "Can reduce milk supply." } },
+
+        // Blood pressure, blood sugar & clotting
+        { id: 'labetalol', name: 'Labetalol', aliases: ['labetalol', 'trandate'], classes: ['antihypertensive'],
+            pregnancy: { level: 'generally_used', category: 'C', note: "A first-line medicine for high blood pressure in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'nifedipine', name: 'Nifedipine', aliases: ['nifedipine', 'procardia', 'adalat'], classes: ['antihypertensive'],
+            pregnancy: { level: 'generally_used', category: 'C', note: "Commonly used for high blood pressure in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'methyldopa', name: 'Methyldopa', aliases: ['methyldopa', 'aldomet'], classes: ['antihypertensive'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "Long used for high blood pressure in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally compatible; may be switched after delivery because of low mood as a side effect." } },
+        { id: 'ace-inhibitor', name: 'ACE inhibitor', aliases: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'perindopril', 'zestril', 'prinivil', 'vasotec'], classes: ['antihypertensive', 'raas'],
+            pregnancy: { level: 'avoid', category: 'D', note: "ACE inhibitors can harm the baby's kidneys in the second and third trimesters and are usually switched when pregnancy is planned or confirmed." },
+            lactation: { level: 'caution', note: "Enalapril and captopril are often preferred while breastfeeding; ask about the one you take." } },
+        { id: 'arb', name: 'Angiotensin receptor blocker', aliases: ['losartan', 'valsartan', 'irbesartan', 'candesartan', 'telmisartan', 'olmesartan', 'cozaar', 'diovan'], classes: ['antihypertensive', 'raas'],
+            pregnancy: { level: 'avoid', category: 'D', note: "ARBs can harm the baby's kidneys in the second and third trimesters and are usually switched when pregnancy is planned or confirmed." },
+            lactation: { level: 'caution', note: "Little information in breastfeeding; other options are often preferred." } },
+        { id: 'metformin', name: 'Metformin', aliases: ['metformin', 'glucophage'], classes: ['glucose-lowering'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "Used for gestational and type 2 diabetes in pregnancy under medical supervision." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'insulin', name: 'Insulin', aliases: ['insulin', 'novolog', 'humalog', 'lantus', 'levemir', 'novorapid', 'humulin'], classes: ['glucose-lowering'],
+            pregnancy: { level: 'generally_used', note: "The standard treatment for diabetes in pregnancy; doses often change as pregnancy progresses." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'enoxaparin', name: 'Enoxaparin (heparin)', aliases: ['enoxaparin', 'lovenox', 'clexane', 'heparin', 'dalteparin', 'fragmin'], classes: ['anticoagulant'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "The usual blood thinner when one is needed in pregnancy; it doesn't cross the placenta." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'warfarin', name: 'Warfarin', aliases: ['warfarin', 'coumadin', 'jantoven'], classes: ['anticoagulant'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Can cause birth defects and bleeding in the baby; usually switched to heparin in pregnancy except in special cases." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'levothyroxine', name: 'Levothyroxine', aliases: ['levothyroxine', 'synthroid', 'levoxyl', 'euthyrox', 'eltroxin', 'thyroxine'],
+            pregnancy: { level: 'generally_used', category: 'A', note: "Should be continued in pregnancy; the dose often needs increasing, so ask about thyroid checks." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'statin', name: 'Statin', aliases: ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lipitor', 'crestor', 'zocor'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Usually stopped during pregnancy as cholesterol treatment can wait until after delivery." },
+            lactation: { level: 'avoid', note: "Usually not recommended while breastfeeding." } },
+        { id: 'prednisone', name: 'Prednisone', aliases: ['prednisone', 'prednisolone'],
+            pregnancy: { level: 'caution', category: 'C', note: "Used when needed for conditions like asthma or autoimmune disease; the benefit usually outweighs the risk." },
+            lactation: { level: 'generally_compatible', note: "Generally compatible; with high doses, timing feeds may be suggested." } },
+
+        // Antibiotics & antifungals
+        { id: 'amoxicillin', name: 'Amoxicillin', aliases: ['amoxicillin', 'amoxil', 'augmentin', 'co-amoxiclav'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "Penicillins are commonly used in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Compatible with breastfeeding." } },
+        { id: 'azithromycin', name: 'Azithromycin', aliases: ['azithromycin', 'zithromax', 'z-pak'],
+            pregnancy: { level: 'generally_used', category: 'B', note: "Commonly used in pregnancy." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'nitrofurantoin', name: 'Nitrofurantoin', aliases: ['nitrofurantoin', 'macrobid', 'macrodantin'],
+            pregnancy: { level: 'caution', category: 'B', note: "Used for urinary infections, but usually avoided near term and, when alternatives exist, in the first trimester." },
+            lactation: { level: 'caution', note: "Usually avoided when the baby is under a month old or has G6PD deficiency." } },
+        { id: 'tmp-smx', name: 'Trimethoprim-sulfamethoxazole', aliases: ['trimethoprim', 'sulfamethoxazole', 'bactrim', 'septra', 'co-trimoxazole'], classes: ['folate-antagonist'],
+            pregnancy: { level: 'avoid', category: 'D', note: "Usually avoided in the first trimester (it works against folate) and near delivery." },
+            lactation: { level: 'caution', note: "Usually avoided with premature, jaundiced or G6PD-deficient babies." } },
+        { id: 'tetracycline', name: 'Tetracycline antibiotic', aliases: ['doxycycline', 'tetracycline', 'minocycline', 'vibramycin'], classes: ['tetracycline'],
+            pregnancy: { level: 'avoid', category: 'D', note: "Usually avoided after about 15 weeks because it can stain the baby's teeth and affect bone growth." },
+            lactation: { level: 'caution', note: "Short courses are generally acceptable; long-term use is usually avoided." } },
+        { id: 'fluconazole', name: 'Fluconazole', aliases: ['fluconazole', 'diflucan'],
+            pregnancy: { level: 'caution', category: 'D', note: "Topical treatments are usually preferred for yeast infections in pregnancy; high or repeated doses are avoided." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+
+        // Mental health & neurology
+        { id: 'sertraline', name: 'Sertraline', aliases: ['sertraline', 'zoloft'], classes: ['ssri', 'serotonergic'],
+            pregnancy: { level: 'caution', category: 'C', note: "Often continued in pregnancy because untreated depression also carries risks. Don't stop suddenly." },
+            lactation: { level: 'generally_compatible', note: "One of the preferred antidepressants while breastfeeding." } },
+        { id: 'fluoxetine', name: 'Fluoxetine', aliases: ['fluoxetine', 'prozac'], classes: ['ssri', 'serotonergic'],
+            pregnancy: { level: 'caution', category: 'C', note: "Often continued in pregnancy because untreated depression also carries risks. Don't stop suddenly." },
+            lactation: { level: 'caution', note: "Can build up in the baby; other antidepressants are sometimes preferred." } },
+        { id: 'paroxetine', name: 'Paroxetine', aliases: ['paroxetine', 'paxil', 'seroxat'], classes: ['ssri', 'serotonergic'],
+            pregnancy: { level: 'avoid', category: 'D', note: "Linked to heart defects when taken in early pregnancy; often switched when pregnancy is planned. Don't stop suddenly." },
+            lactation: { level: 'generally_compatible', note: "Generally considered compatible with breastfeeding." } },
+        { id: 'lithium', name: 'Lithium', aliases: ['lithium', 'lithobid'],
+            pregnancy: { level: 'caution', category: 'D', note: "Sometimes continued with close monitoring; levels change during pregnancy and after delivery." },
+            lactation: { level: 'avoid', note: "Usually not recommended while breastfeeding unless the baby can be monitored." } },
+        { id: 'valproate', name: 'Valproate', aliases: ['valproate', 'valproic acid', 'divalproex', 'depakote', 'depakene', 'epilim'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Carries a high risk of birth defects and developmental problems. Don't stop it on your own: seizures are also dangerous in pregnancy." },
+            lactation: { level: 'caution', note: "Generally compatible, with monitoring of the baby." } },
+        { id: 'topiramate', name: 'Topiramate', aliases: ['topiramate', 'topamax'],
+            pregnancy: { level: 'avoid', category: 'D', note: "Linked to cleft lip and palate; alternatives are often considered. Don't stop it suddenly." },
+            lactation: { level: 'caution', note: "Watch the baby for drowsiness or diarrhea." } },
+
+        // Other
+        { id: 'isotretinoin', name: 'Isotretinoin', aliases: ['isotretinoin', 'accutane', 'absorica', 'claravis', 'roaccutane'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Causes severe birth defects and must not be taken in pregnancy." },
+            lactation: { level: 'avoid', note: "Not recommended while breastfeeding." } },
+        { id: 'methotrexate', name: 'Methotrexate', aliases: ['methotrexate', 'trexall', 'otrexup'], classes: ['folate-antagonist'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Causes miscarriage and birth defects and must not be taken in pregnancy." },
+            lactation: { level: 'avoid', note: "Not recommended while breastfeeding." } },
+        { id: 'misoprostol', name: 'Misoprostol', aliases: ['misoprostol', 'cytotec'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Can cause miscarriage or early labor; only used in pregnancy for specific obstetric reasons under medical care." },
+            lactation: { level: 'caution', note: "Generally acceptable in short courses after delivery." } },
+        { id: 'phentermine', name: 'Phentermine', aliases: ['phentermine', 'adipex', 'qsymia'],
+            pregnancy: { level: 'avoid', category: 'X', note: "Weight-loss medicines are not used in pregnancy." },
+            lactation: { level: 'avoid', note: "Not recommended while breastfeeding." } },
+    ],
+    interactions: [
+        { id: 'thyroid-cations', between: [['levothyroxine'], ['class:polyvalent-cation', 'prenatal-vitamin', 'omeprazole']], severity: 'moderate',
+            summary: "Can reduce how much levothyroxine is absorbed.",
+            advice: "Levothyroxine is usually taken on an empty stomach, about 4 hours apart from iron, calcium or prenatal vitamins." },
+        { id: 'iron-calcium', between: [['iron'], ['calcium']], severity: 'minor',
+            summary: "Calcium can reduce iron absorption.",
+            advice: "Taking them a couple of hours apart may help; ask what timing suits you." },
+        { id: 'iron-ppi', between: [['iron'], ['omeprazole']], severity: 'minor',
+            summary: "Reducing stomach acid can lower iron absorption.",
+            advice: "Mention it if your iron levels aren't improving." },
+        { id: 'tetracycline-cations', between: [['class:tetracycline'], ['class:polyvalent-cation', 'prenatal-vitamin']], severity: 'moderate',
+            summary: "Iron and calcium bind to these antibiotics and stop them working as well.",
+            advice: "They are usually taken a few hours apart." },
+        { id: 'anticoagulant-bleeding', between: [['class:anticoagulant'], ['class:nsaid', 'class:antiplatelet']], severity: 'major',
+            summary: "Increases the risk of bleeding.",
+            advice: "Check with your doctor before combining these, even for a short time." },
+        { id: 'warfarin-fluconazole', between: [['warfarin'], ['fluconazole']], severity: 'major',
+            summary: "Fluconazole can raise warfarin levels and the risk of bleeding.",
+            advice: "Your doctor may want to check your INR more often." },
+        { id: 'nsaid-duplicate', between: [['class:nsaid'], ['class:nsaid', 'aspirin']], severity: 'moderate',
+            summary: "Taking more than one anti-inflammatory adds side effects (stomach bleeding, kidney strain) without much extra benefit, and ibuprofen can blunt low-dose aspirin.",
+            advice: "Ask which single pain reliever is right for you." },
+        { id: 'ssri-bleeding', between: [['class:ssri'], ['class:nsaid', 'class:antiplatelet', 'class:anticoagulant']], severity: 'moderate',
+            summary: "Together they can increase the risk of bleeding.",
+            advice: "Ask your doctor whether this combination is right for you." },
+        { id: 'serotonin-syndrome', between: [['class:serotonergic'], ['class:serotonergic']], severity: 'major',
+            summary: "Combining medicines that raise serotonin can cause serotonin syndrome (agitation, fast heartbeat, fever, muscle twitching).",
+            advice: "Check with your doctor or pharmacist before taking these together." },
+        { id: 'opioid-sedation', between: [['class:opioid'], ['class:opioid', 'class:sedating']], severity: 'major',
+            summary: "Adds up to stronger drowsiness and slowed breathing.",
+            advice: "Avoid combining without your doctor's advice." },
+        { id: 'methotrexate-folate-antagonist', between: [['methotrexate'], ['tmp-smx']], severity: 'major',
+            summary: "Can cause serious methotrexate toxicity.",
+            advice: "Your doctor should review this combination." },
+        { id: 'lithium-levels', between: [['lithium'], ['class:nsaid', 'class:raas']], severity: 'major',
+            summary: "Can raise lithium to toxic levels.",
+            advice: "Your doctor may need to check lithium levels or choose a different medicine." },
+        { id: 'raas-duplicate', between: [['class:raas'], ['class:raas']], severity: 'major',
+            summary: "Combining ACE inhibitors and ARBs raises the risk of kidney problems and high potassium.",
+            advice: "Ask your doctor to review these medicines." },
+        { id: 'antihypertensive-combination', between: [['class:antihypertensive'], ['class:antihypertensive']], severity: 'minor',
+            summary: "Blood pressure medicines add together and can make you dizzy or lightheaded.",
+            advice: "Often prescribed together on purpose; mention dizziness or fainting to your doctor." },
+        { id: 'glucose-lowering-combination', between: [['class:glucose-lowering'], ['class:glucose-lowering']], severity: 'minor',
+            summary: "Together they raise the chance of low blood sugar.",
+            advice: "Often prescribed together on purpose; know the signs of a low and check your sugar as advised." },
+    ],
+};
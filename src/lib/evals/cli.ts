@@ -0,0 +1,160 @@
+// src/lib/evals/cli.ts
+// Command-line entry for the prompt evaluation harness, loaded by scripts/eval-prompts.mjs (`npm run eval:prompts`).
+import { readFile, writeFile } from 'node:fs/promises';
+import { createLLMProvider, getLLMProvider, LLMProviderKind } from '../llm';
+import { EVAL_CASES } from './cases';
+import {
+    createProviderResponder, createRecordedResponder, createRecordingResponder, EvalCaseResult, EvalRecordings, EvalReport,
+    EvalResponder, findRegressions, runEvaluation,
+} from './harness';
+import { APP_PROMPTS } from './prompts';
+import { EVAL_RULES } from './rules';
+
+const USAGE = `Usage: npm run eval:prompts -- [options]
+
+Runs the fixture cases in src/lib/evals/cases.ts through each registered prompt and checks the answers.
+
+Options:
+  --provider <kind>     groq, openai (any OpenAI-compatible server, e.g. a local model), proxy or fixture.
+                        Defaults to each prompt's configured provider (see README, "Choosing AI models").
+  --recordings <file>   Replay answers saved with --record instead of calling a provider
+  --record <file>       Save the provider's answers to <file> (added to any already there)
+  --prompt <id[@ver]>   Only run this prompt (repeatable); the newest version unless @ver is given
+  --out <file>          Write the full report as JSON
+  --baseline <file>     Compare with an earlier --out report; only cases that passed there and fail now
+                        count as failures
+  --verbose             Print the answer of every failing case
+  --help                Show this message`;
+
+const PROVIDER_KINDS: LLMProviderKind[] = ['groq', 'openai', 'proxy', 'fixture'];
+
+interface CliOptions {
+    provider?: LLMProviderKind;
+    recordings?: string;
+    record?: string;
+    prompts: string[];
+    out?: string;
+    baseline?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+    const options: CliOptions = { prompts: [], verbose: false, help: false };
+    const valueOf = (index: number, flag: string): string => {
+        const value = argv[index + 1];
+        if (!value || value.startsWith('--')) throw new Error(`${flag} needs a value.`);
+        return value;
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const flag = argv[i];
+        switch (flag) {
+            case '--provider': {
+                const kind = valueOf(i++, flag) as LLMProviderKind;
+                if (!PROVIDER_KINDS.includes(kind)) throw new Error(`--provider must be one of: ${PROVIDER_KINDS.join(', ')}.`);
+                options.provider = kind;
+                break;
+            }
+            case '--recordings': options.recordings = valueOf(i++, flag); break;
+            case '--record': options.record = valueOf(i++, flag); break;
+            case '--prompt': options.prompts.push(valueOf(i++, flag)); break;
+            case '--out': options.out = valueOf(i++, flag); break;
+            case '--baseline': options.baseline = valueOf(i++, flag); break;
+            case '--verbose': options.verbose = true; break;
+            case '--help': options.help = true; break;
+            default: throw new Error(`Unknown option "${flag}".`);
+        }
+    }
+    if (options.recordings && (options.provider || options.record)) {
+        throw new Error('--recordings replays saved answers; it cannot be combined with --provider or --record.');
+    }
+    return options;
+};
+
+const readJson = async <T>(path: string): Promise<T> => JSON.parse(await readFile(path, 'utf8')) as T;
+
+const readJsonIfExists = async <T>(path: string, fallback: T): Promise<T> => {
+    try {
+        return await readJson<T>(path);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+        throw error;
+    }
+};
+
+const formatResult = (result: EvalCaseResult): string => {
+    const name = `${result.promptId}@${result.promptVersion} ${result.caseId}`;
+    if (result.error) return `ERROR ${name}: ${result.error}`;
+    if (result.passed) return `PASS  ${name}`;
+    const failures = result.checks.filter(check => !check.passed).map(check => `${check.ruleId}: ${check.detail}`);
+    return `FAIL  ${name}\n      ${failures.join('\n      ')}`;
+};
+
+/** Runs the harness for `argv` (without the node and script paths) and returns the process exit code. */
+export const runEvalCli = async (argv: string[]): Promise<number> => {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return 2;
+    }
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    let responder: EvalResponder;
+    let recordings: EvalRecordings | null = null;
+    if (options.recordings) {
+        responder = createRecordedResponder(await readJson<EvalRecordings>(options.recordings));
+    } else {
+        const label = options.provider ?? 'configured provider';
+        responder = createProviderResponder(
+            prompt => (options.provider ? createLLMProvider(prompt.feature, options.provider) : getLLMProvider(prompt.feature)),
+            label,
+        );
+        if (options.record) {
+            recordings = await readJsonIfExists<EvalRecordings>(options.record, {});
+            responder = createRecordingResponder(responder, recordings);
+        }
+    }
+
+    let report: EvalReport;
+    try {
+        report = await runEvaluation({
+            registry: APP_PROMPTS, cases: EVAL_CASES, rules: EVAL_RULES, responder, prompts: options.prompts,
+            onResult: result => {
+                console.log(formatResult(result));
+                if (options.verbose && !result.passed && result.output !== null) console.log(`      --- answer ---\n${result.output}\n      --------------`);
+            },
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        return 2;
+    }
+
+    const { cases, passed, failed } = report.summary;
+    console.log(`\n${cases} cases: ${passed} passed, ${failed} failed (responder: ${report.responder})`);
+
+    if (recordings && options.record) {
+        await writeFile(options.record, `${JSON.stringify(recordings, null, 2)}\n`);
+        console.log(`Recorded answers saved to ${options.record}`);
+    }
+    if (options.out) {
+        await writeFile(options.out, `${JSON.stringify(report, null, 2)}\n`);
+        console.log(`Report written to ${options.out}`);
+    }
+
+    if (options.baseline) {
+        const regressions = findRegressions(report, await readJson<EvalReport>(options.baseline));
+        if (regressions.length === 0) {
+            console.log(`No regressions against ${options.baseline}.`);
+            return 0;
+        }
+        console.log(`${regressions.length} regression(s) against ${options.baseline}:`);
+        regressions.forEach(result => console.log(`  ${result.promptId}@${result.promptVersion} ${result.caseId}`));
+        return 1;
+    }
+    return failed === 0 ? 0 : 1;
+};
@@ -0,0 +1,142 @@
+// src/lib/evals/harness.ts
+import { getPromptKey, LLMMessage, LLMProvider, PromptDefinition, PromptRegistry } from '../llm';
+import type { EvalCase } from './cases';
+import type { EvalRule } from './rules';
+
+// --- Types ---
+
+/** Produces the answer for one case; backed by a live provider or by recorded responses. */
+export interface EvalResponder {
+    /** Shown in reports, e.g. "groq (llama3-70b-8192)" or "recorded" */
+    label: string;
+    respond(messages: LLMMessage[], prompt: PromptDefinition, evalCase: EvalCase): Promise<string>;
+}
+
+/** Answers keyed by getRecordingKey, so a prompt's new version can't silently reuse its old answers. */
+export type EvalRecordings = Record<string, string>;
+
+export interface EvalCheckResult {
+    ruleId: string;
+    passed: boolean;
+    detail?: string;
+}
+
+export interface EvalCaseResult {
+    promptId: string;
+    promptVersion: number;
+    caseId: string;
+    description: string;
+    output: string | null;
+    /** Set when no answer could be produced; the case counts as failed */
+    error?: string;
+    checks: EvalCheckResult[];
+    passed: boolean;
+}
+
+export interface EvalReport {
+    startedAt: string;
+    responder: string;
+    results: EvalCaseResult[];
+    summary: { cases: number; passed: number; failed: number };
+}
+
+export interface EvalRunOptions {
+    registry: PromptRegistry;
+    cases: EvalCase[];
+    rules: EvalRule[];
+    responder: EvalResponder;
+    /** Prompts to run, as 'id' (newest version) or 'id@version'; all registered prompts when empty */
+    prompts?: string[];
+    /** Called after each case, e.g. to print progress */
+    onResult?: (result: EvalCaseResult) => void;
+}
+
+// --- Responders ---
+
+/** `symptomChecker@1:routine-nausea` */
+export const getRecordingKey = (prompt: PromptDefinition, evalCase: EvalCase): string => `${getPromptKey(prompt)}:${evalCase.id}`;
+
+/** Sends each case to a live provider (Groq, a local OpenAI-compatible model, the fixture provider...). */
+export const createProviderResponder = (getProvider: (prompt: PromptDefinition) => LLMProvider, label: string): EvalResponder => ({
+    label,
+    async respond(messages, prompt) {
+        const { content } = await getProvider(prompt).chat({ messages, temperature: 0.2 });
+        return content ?? '';
+    },
+});
+
+/** Replays answers saved by a previous run (see createRecordingResponder). */
+export const createRecordedResponder = (recordings: EvalRecordings): EvalResponder => ({
+    label: 'recorded',
+    async respond(_messages, prompt, evalCase) {
+        const key = getRecordingKey(prompt, evalCase);
+        if (!Object.prototype.hasOwnProperty.call(recordings, key)) {
+            throw new Error(`No recorded response for ${key}. Record one by running against a live provider with --record.`);
+        }
+        return recordings[key];
+    },
+});
+
+/** Passes answers through from `inner`, saving each into `recordings`. */
+export const createRecordingResponder = (inner: EvalResponder, recordings: EvalRecordings): EvalResponder => ({
+    label: inner.label,
+    async respond(messages, prompt, evalCase) {
+        const output = await inner.respond(messages, prompt, evalCase);
+        recordings[getRecordingKey(prompt, evalCase)] = output;
+        return output;
+    },
+});
+
+// --- Running ---
+
+const selectPrompts = (registry: PromptRegistry, selectors: string[] = []): PromptDefinition[] => {
+    if (selectors.length === 0) return registry.list();
+    return selectors.map(selector => {
+        const [id, version] = selector.split('@');
+        const prompt = registry.get(id, version ? Number(version) : undefined);
+        if (!prompt) {
+            const known = registry.versions(id);
+            throw new Error(known.length ? `Prompt ${id} has no version ${version} (registered: ${known.join(', ')}).` : `Unknown prompt "${id}".`);
+        }
+        return prompt;
+    });
+};
+
+/** Runs every case for the selected prompts through the responder and scores each answer against the rules. */
+export const runEvaluation = async (options: EvalRunOptions): Promise<EvalReport> => {
+    const { registry, cases, rules, responder, onResult } = options;
+    const startedAt = new Date().toISOString();
+    const results: EvalCaseResult[] = [];
+
+    for (const prompt of selectPrompts(registry, options.prompts)) {
+        for (const evalCase of cases.filter(c => c.promptId === prompt.id)) {
+            const messages = prompt.messages(evalCase.input);
+            const base = { promptId: prompt.id, promptVersion: prompt.version, caseId: evalCase.id, description: evalCase.description };
+            let result: EvalCaseResult;
+            try {
+                const output = await responder.respond(messages, prompt, evalCase);
+                const checks = rules.filter(rule => rule.appliesTo(evalCase)).map((rule): EvalCheckResult => {
+                    const failure = rule.check(output, { evalCase, messages });
+                    return failure ? { ruleId: rule.id, passed: false, detail: failure } : { ruleId: rule.id, passed: true };
+                });
+                result = { ...base, output, checks, passed: checks.every(check => check.passed) };
+            } catch (error) {
+                result = { ...base, output: null, error: error instanceof Error ? error.message : String(error), checks: [], passed: false };
+            }
+            results.push(result);
+            onResult?.(result);
+        }
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    return { startedAt, responder: responder.label, results, summary: { cases: results.length, passed, failed: results.length - passed } };
+};
+
+/**
+ * Cases that passed in `baseline` and fail in `report`, e.g. after rewording a prompt. Cases are matched by
+ * prompt ID and case ID, so a new prompt version is compared with the old one.
+ */
+export const findRegressions = (report: EvalReport, baseline: EvalReport): EvalCaseResult[] => {
+    const passedBefore = new Set(baseline.results.filter(result => result.passed).map(result => `${result.promptId}:${result.caseId}`));
+    return report.results.filter(result => !result.passed && passedBefore.has(`${result.promptId}:${result.caseId}`));
+};
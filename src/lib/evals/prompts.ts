@@ -0,0 +1,13 @@
+// src/lib/evals/prompts.ts
+// Every prompt the harness evaluates. When rewording a prompt, bump its version; to compare against the old
+// wording, keep the previous definition registered here alongside the new one.
+import { createPromptRegistry } from '../llm';
+import { chatSystemPrompt } from '../groq';
+import { dashboardFeedPrompt } from '../groqDash';
+import { symptomCheckerPrompt } from '../groqSym';
+
+export const APP_PROMPTS = createPromptRegistry([
+    symptomCheckerPrompt,
+    chatSystemPrompt,
+    dashboardFeedPrompt,
+]);
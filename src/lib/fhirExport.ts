@@ -0,0 +1,331 @@
+// src/lib/fhirExport.ts
+// Converts a patient's MomCare record into a FHIR R4 Bundle (type "collection") for import into an EHR.
+// Only the FHIR elements we emit are typed here; see https://hl7.org/fhir/R4/ for the full resources.
+import { format } from 'date-fns';
+import type {
+    UserProfile, Appointment, MedicationReminder, MedicalDocument,
+    BloodPressureReading, BloodSugarReading, WeightReading,
+} from './appwrite';
+import { getPregnancyTimeline } from './pregnancyTimeline';
+import { getAppointmentEnd, getAppointmentStart } from './appointmentTime';
+import { AppointmentStatus, getAppointmentStatus } from './appointmentStatus';
+
+// --- FHIR Types ---
+
+export interface FhirCoding { system: string; code: string; display?: string; }
+export interface FhirCodeableConcept { coding?: FhirCoding[]; text?: string; }
+export interface FhirQuantity { value: number; unit: string; system: string; code: string; }
+export interface FhirReference { reference: string; display?: string; }
+export interface FhirIdentifier { system: string; value: string; }
+
+interface FhirResourceBase {
+    resourceType: string;
+    id: string;
+    identifier?: FhirIdentifier[];
+}
+
+export interface FhirPatient extends FhirResourceBase {
+    resourceType: 'Patient';
+    name?: { text: string }[];
+    gender?: 'male' | 'female' | 'other' | 'unknown';
+    telecom?: { system: 'phone' | 'email'; value: string }[];
+    address?: { text: string }[];
+}
+
+export interface FhirObservation extends FhirResourceBase {
+    resourceType: 'Observation';
+    status: 'final';
+    category: FhirCodeableConcept[];
+    code: FhirCodeableConcept;
+    subject: FhirReference;
+    effectiveDateTime: string;
+    valueQuantity?: FhirQuantity;
+    valueDateTime?: string;
+    valueCodeableConcept?: FhirCodeableConcept;
+    component?: { code: FhirCodeableConcept; valueQuantity: FhirQuantity }[];
+}
+
+export interface FhirAppointment extends FhirResourceBase {
+    resourceType: 'Appointment';
+    status: 'proposed' | 'pending' | 'booked' | 'fulfilled' | 'cancelled' | 'noshow';
+    serviceType?: FhirCodeableConcept[];
+    description?: string;
+    start: string;
+    end?: string;
+    comment?: string;
+    participant: { actor: FhirReference; status: 'accepted' }[];
+}
+
+export interface FhirEncounter extends FhirResourceBase {
+    resourceType: 'Encounter';
+    status: 'finished';
+    class: FhirCoding;
+    type?: FhirCodeableConcept[];
+    subject: FhirReference;
+    period: { start: string };
+    appointment?: FhirReference[];
+}
+
+export interface FhirMedicationStatement extends FhirResourceBase {
+    resourceType: 'MedicationStatement';
+    status: 'active' | 'stopped';
+    medicationCodeableConcept: FhirCodeableConcept;
+    subject: FhirReference;
+    dateAsserted: string;
+    dosage: { text: string; timing?: { repeat: { timeOfDay: string[] } } }[];
+    note?: { text: string }[];
+}
+
+export interface FhirDocumentReference extends FhirResourceBase {
+    resourceType: 'DocumentReference';
+    status: 'current';
+    type?: FhirCodeableConcept;
+    subject: FhirReference;
+    date: string;
+    description?: string;
+    content: { attachment: { contentType?: string; url?: string; title: string; creation: string } }[];
+}
+
+export type FhirResource = FhirPatient | FhirObservation | FhirAppointment | FhirEncounter | FhirMedicationStatement | FhirDocumentReference;
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    type: 'collection';
+    timestamp: string;
+    identifier: FhirIdentifier;
+    entry: { resource: FhirResource }[];
+}
+
+// --- Code Systems ---
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+/** Identifier namespace for MomCare record IDs (profile-derived observations add a suffix), so re-exports can be matched to earlier ones. */
+const MOMCARE_ID_SYSTEM = 'urn:momcare:document-id';
+
+/** LOINC codes used by the exporter. */
+export const LOINC_CODES = {
+    bloodPressurePanel: { code: '85354-9', display: 'Blood pressure panel with all children optional' },
+    systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+    diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+    glucoseCapillary: { code: '41653-7', display: 'Glucose [Mass/volume] in Capillary blood by Glucometer' },
+    fastingGlucoseCapillary: { code: '41604-9', display: 'Fasting glucose [Mass/volume] in Capillary blood' },
+    bodyWeight: { code: '29463-7', display: 'Body weight' },
+    prePregnancyWeight: { code: '56077-1', display: 'Body weight --pre current pregnancy' },
+    bodyHeight: { code: '8302-2', display: 'Body height' },
+    pregnancyStatus: { code: '82810-3', display: 'Pregnancy status' },
+    estimatedDeliveryDate: { code: '11778-8', display: 'Delivery date Estimated' },
+    lastMenstrualPeriod: { code: '8665-2', display: 'Last menstrual period start date' },
+    gestationalAge: { code: '49051-6', display: 'Gestational age in weeks' },
+} as const;
+
+const loinc = (entry: { code: string; display: string }, text?: string): FhirCodeableConcept => ({
+    coding: [{ system: LOINC, code: entry.code, display: entry.display }],
+    text: text ?? entry.display,
+});
+const category = (code: 'vital-signs' | 'laboratory' | 'social-history' | 'exam'): FhirCodeableConcept[] => [{
+    coding: [{ system: OBSERVATION_CATEGORY, code }],
+}];
+const quantity = (value: number, unit: string, code: string = unit): FhirQuantity => ({ value, unit, system: UCUM, code });
+const identifier = (id: string): FhirIdentifier[] => [{ system: MOMCARE_ID_SYSTEM, value: id }];
+/** FHIR ids allow [A-Za-z0-9-.]{1,64}; Appwrite IDs already fit, derived ids are trimmed to be safe. */
+const fhirId = (...parts: string[]): string => parts.join('-').replace(/[^A-Za-z0-9.-]/g, '-').slice(0, 64);
+/** `date` values are YYYY-MM-DD; profile dates are stored that way already. */
+const toFhirDate = (value: string | Date): string => format(typeof value === 'string' ? new Date(`${value.slice(0, 10)}T00:00`) : value, 'yyyy-MM-dd');
+
+// --- Resource Builders ---
+
+const toPatient = (userId: string, profile: UserProfile | null): FhirPatient => {
+    const gender = profile?.gender?.toLowerCase();
+    const telecom: FhirPatient['telecom'] = [];
+    if (profile?.phoneNumber) telecom.push({ system: 'phone', value: profile.phoneNumber });
+    if (profile?.email) telecom.push({ system: 'email', value: profile.email });
+    return {
+        resourceType: 'Patient',
+        id: fhirId(userId),
+        identifier: identifier(userId),
+        ...(profile?.name && { name: [{ text: profile.name }] }),
+        ...(gender && { gender: gender === 'female' || gender === 'male' || gender === 'other' ? gender : 'unknown' }),
+        ...(telecom.length > 0 && { telecom }),
+        ...(profile?.address && { address: [{ text: profile.address }] }),
+    };
+};
+
+const observation = (id: string, subject: FhirReference, code: FhirCodeableConcept, cat: FhirCodeableConcept[], effective: string, value: Partial<FhirObservation>): FhirObservation => ({
+    resourceType: 'Observation', id: fhirId(id), identifier: identifier(id), status: 'final', category: cat, code, subject, effectiveDateTime: effective, ...value,
+});
+
+/** Pregnancy dating and pre-pregnancy measurements recorded on the profile. */
+const toProfileObservations = (profile: UserProfile, subject: FhirReference, at: Date): FhirObservation[] => {
+    const observations: FhirObservation[] = [];
+    const effective = profile.$updatedAt || at.toISOString();
+    const timeline = getPregnancyTimeline(profile, at);
+    if (timeline.stage === 'pregnant') {
+        observations.push(observation(`${profile.$id}-pregnancy-status`, subject, loinc(LOINC_CODES.pregnancyStatus), category('social-history'), at.toISOString(), {
+            valueCodeableConcept: { coding: [{ system: SNOMED, code: '77386006', display: 'Pregnant' }], text: 'Pregnant' },
+        }));
+    }
+    if (timeline.dueDate) {
+        observations.push(observation(`${profile.$id}-edd`, subject, loinc(LOINC_CODES.estimatedDeliveryDate), category('exam'), effective, { valueDateTime: toFhirDate(timeline.dueDate) }));
+    }
+    if (profile.lastMenstrualPeriod) {
+        observations.push(observation(`${profile.$id}-lmp`, subject, loinc(LOINC_CODES.lastMenstrualPeriod), category('exam'), effective, { valueDateTime: toFhirDate(profile.lastMenstrualPeriod) }));
+    }
+    if (timeline.stage === 'pregnant' && timeline.gestationalAgeDays !== null) {
+        observations.push(observation(`${profile.$id}-gestational-age`, subject, loinc(LOINC_CODES.gestationalAge), category('exam'), at.toISOString(), {
+            valueQuantity: quantity(Math.round((timeline.gestationalAgeDays / 7) * 10) / 10, 'wk'),
+        }));
+    }
+    if (profile.heightCm) {
+        observations.push(observation(`${profile.$id}-height`, subject, loinc(LOINC_CODES.bodyHeight), category('vital-signs'), effective, { valueQuantity: quantity(profile.heightCm, 'cm') }));
+    }
+    if (profile.prePregnancyWeightKg) {
+        observations.push(observation(`${profile.$id}-prepregnancy-weight`, subject, loinc(LOINC_CODES.prePregnancyWeight), category('vital-signs'), effective, { valueQuantity: quantity(profile.prePregnancyWeightKg, 'kg') }));
+    }
+    return observations;
+};
+
+const readingTime = (reading: { recordedAt?: string; $createdAt: string }): string => reading.recordedAt || reading.$createdAt;
+
+const toBloodPressureObservation = (reading: BloodPressureReading, subject: FhirReference): FhirObservation =>
+    observation(reading.$id, subject, loinc(LOINC_CODES.bloodPressurePanel, 'Blood pressure'), category('vital-signs'), readingTime(reading), {
+        component: [
+            { code: loinc(LOINC_CODES.systolic), valueQuantity: quantity(reading.systolic, 'mmHg', 'mm[Hg]') },
+            { code: loinc(LOINC_CODES.diastolic), valueQuantity: quantity(reading.diastolic, 'mmHg', 'mm[Hg]') },
+        ],
+    });
+
+const sugarText: Record<BloodSugarReading['measurementType'], string> = {
+    fasting: 'Blood glucose (fasting)',
+    post_meal: 'Blood glucose (after meal)',
+    random: 'Blood glucose (random)',
+};
+
+/** Home meter readings are capillary; fasting readings get the fasting-specific code. */
+const toBloodSugarObservation = (reading: BloodSugarReading, subject: FhirReference): FhirObservation =>
+    observation(reading.$id, subject,
+        loinc(reading.measurementType === 'fasting' ? LOINC_CODES.fastingGlucoseCapillary : LOINC_CODES.glucoseCapillary, sugarText[reading.measurementType] ?? sugarText.random),
+        category('laboratory'), readingTime(reading), { valueQuantity: quantity(reading.level, 'mg/dL', 'mg/dL') });
+
+const toWeightObservation = (reading: WeightReading, subject: FhirReference): FhirObservation =>
+    observation(reading.$id, subject, loinc(LOINC_CODES.bodyWeight), category('vital-signs'), readingTime(reading), {
+        valueQuantity: reading.unit === 'lbs' ? quantity(reading.weight, 'lbs', '[lb_av]') : quantity(reading.weight, 'kg'),
+    });
+
+/** FHIR Appointment.status for each lifecycle status. */
+const FHIR_APPOINTMENT_STATUS: Record<AppointmentStatus, FhirAppointment['status']> = {
+    requested: 'proposed',
+    confirmed: 'booked',
+    rescheduled: 'pending',
+    cancelled_by_patient: 'cancelled',
+    cancelled_by_provider: 'cancelled',
+    no_show: 'noshow',
+    completed: 'fulfilled',
+};
+
+/**
+ * Completed appointments become a fulfilled Appointment plus the Encounter that took place;
+ * the others are Appointments only, with their lifecycle status.
+ */
+const toAppointmentResources = (appointment: Appointment, subject: FhirReference): FhirResource[] => {
+    const type = appointment.appointmentType ? [{ text: appointment.appointmentType.replace(/_/g, ' ') }] : undefined;
+    const status = getAppointmentStatus(appointment);
+    const fhirAppointment: FhirAppointment = {
+        resourceType: 'Appointment',
+        id: fhirId(appointment.$id),
+        identifier: identifier(appointment.$id),
+        status: FHIR_APPOINTMENT_STATUS[status],
+        ...(type && { serviceType: type }),
+        start: (getAppointmentStart(appointment) ?? new Date(appointment.date)).toISOString(),
+        ...(getAppointmentEnd(appointment) && { end: getAppointmentEnd(appointment).toISOString() }),
+        ...(appointment.notes && { comment: appointment.notes }),
+        participant: [{ actor: subject, status: 'accepted' }],
+    };
+    if (status !== 'completed') return [fhirAppointment];
+    const encounter: FhirEncounter = {
+        resourceType: 'Encounter',
+        id: fhirId(appointment.$id, 'encounter'),
+        identifier: identifier(appointment.$id),
+        status: 'finished',
+        class: { system: ACT_CODE, code: 'AMB', display: 'ambulatory' },
+        ...(type && { type }),
+        subject,
+        period: { start: fhirAppointment.start },
+        appointment: [{ reference: `Appointment/${fhirAppointment.id}` }],
+    };
+    return [fhirAppointment, encounter];
+};
+
+const toMedicationStatement = (reminder: MedicationReminder, subject: FhirReference): FhirMedicationStatement => ({
+    resourceType: 'MedicationStatement',
+    id: fhirId(reminder.$id),
+    identifier: identifier(reminder.$id),
+    status: reminder.isActive === false ? 'stopped' : 'active',
+    medicationCodeableConcept: { text: reminder.medicationName },
+    subject,
+    dateAsserted: reminder.$updatedAt || reminder.$createdAt,
+    dosage: [{
+        text: [reminder.dosage, reminder.frequency].filter(Boolean).join(', '),
+        ...(reminder.times && reminder.times.length > 0 && { timing: { repeat: { timeOfDay: reminder.times.map(t => `${t.padStart(5, '0')}:00`) } } }),
+    }],
+    ...(reminder.notes && { note: [{ text: reminder.notes }] }),
+});
+
+const toDocumentReference = (document: MedicalDocument, subject: FhirReference, url?: string): FhirDocumentReference => ({
+    resourceType: 'DocumentReference',
+    id: fhirId(document.$id),
+    identifier: identifier(document.$id),
+    status: 'current',
+    subject,
+    date: document.$createdAt,
+    ...(document.description && { description: document.description }),
+    content: [{
+        attachment: {
+            ...(document.documentType && { contentType: document.documentType }),
+            ...(url && { url }),
+            title: document.fileName,
+            creation: document.$createdAt,
+        },
+    }],
+});
+
+// --- Bundle ---
+
+export interface FhirExportInput {
+    userId: string;
+    profile: UserProfile | null;
+    bloodPressure: BloodPressureReading[];
+    bloodSugar: BloodSugarReading[];
+    weight: WeightReading[];
+    appointments: Appointment[];
+    medications: MedicationReminder[];
+    documents: MedicalDocument[];
+    /** Link to each stored file. Appwrite file URLs still require the viewer to be signed in */
+    getDocumentUrl?: (document: MedicalDocument) => string | undefined;
+}
+
+/** Builds the FHIR R4 collection Bundle. All resources reference the Patient by relative id. */
+export const buildFhirBundle = (input: FhirExportInput, at: Date = new Date()): FhirBundle => {
+    const patient = toPatient(input.userId, input.profile);
+    const subject: FhirReference = { reference: `Patient/${patient.id}`, ...(input.profile?.name && { display: input.profile.name }) };
+    const resources: FhirResource[] = [
+        patient,
+        ...(input.profile ? toProfileObservations(input.profile, subject, at) : []),
+        ...input.bloodPressure.map(r => toBloodPressureObservation(r, subject)),
+        ...input.bloodSugar.map(r => toBloodSugarObservation(r, subject)),
+        ...input.weight.map(r => toWeightObservation(r, subject)),
+        ...input.appointments.flatMap(a => toAppointmentResources(a, subject)),
+        ...input.medications.map(m => toMedicationStatement(m, subject)),
+        ...input.documents.map(d => toDocumentReference(d, subject, input.getDocumentUrl?.(d))),
+    ];
+    return {
+        resourceType: 'Bundle',
+        type: 'collection',
+        timestamp: at.toISOString(),
+        identifier: { system: MOMCARE_ID_SYSTEM, value: fhirId('export', input.userId, String(at.getTime())) },
+        entry: resources.map(resource => ({ resource })),
+    };
+};
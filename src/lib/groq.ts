@@ -1,27 +1,21 @@
-import Groq from 'groq-sdk';
 import { format, parseISO } from 'date-fns';
 
-// --- *** SDK Type Definitions *** ---
-// Import base response/chunk types via namespace (these usually work)
-type ChatCompletionMessageParam = Groq.Chat.Completions.ChatCompletionMessageParam;
-type ChatCompletionContentPart = Groq.Chat.Completions.ChatCompletionContentPart;
-type ImageContentPart = Groq.Chat.Completions.ChatCompletionContentPartImage; // Correct type for image part
-type ChatCompletion = Groq.Chat.Completions.ChatCompletion;
-type ChatCompletionChunk = Groq.Chat.Completions.ChatCompletionChunk;
-
-// CORRECTED AGGRESSIVE FIX: Import specific param types directly with correct names
-// Adjust the path '/resources/' if your node_modules structure differs slightly (e.g., '/dist/resources/')
+// --- LLM Provider Types ---
+// Chat messages use the provider-neutral types from src/lib/llm; the old SDK-style names are kept for callers.
 import {
-    ChatCompletionCreateParamsNonStreaming, // Correct Name
-    ChatCompletionCreateParamsStreaming,  // Correct Name
-    ChatCompletionCreateParamsBase      // Correct Name
-} from 'groq-sdk/resources/chat/completions'; // <--- Direct import path
-
-// CORRECTED AGGRESSIVE FIX: Create local union type for params using correct names
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
-
-// Import Stream class for the type assertion fix
-import { Stream } from 'groq-sdk/lib/streaming';
+    definePrompt,
+    getLLMProvider,
+    LLMChatRequest,
+    LLMContentPart,
+    LLMImageContentPart,
+    LLMMessage,
+    LLMProviderError,
+    LLMTextContentPart
+} from './llm';
+type ChatCompletionMessageParam = LLMMessage;
+type ChatCompletionContentPart = LLMContentPart;
+type ChatCompletionContentPartText = LLMTextContentPart;
+type ImageContentPart = LLMImageContentPart;
 
 
 // --- *** IMPORT Appwrite types *** ---
@@ -30,8 +24,13 @@ import {
     BloodPressureReading,
     BloodSugarReading,
     WeightReading,
-    Appointment
+    Appointment,
+    VisitSummary
 } from "./appwrite"; // Adjust path if needed
+import { formatGestationalAge, formatPregnancyStageForContext, getPregnancyTimeline, PregnancyDates } from './pregnancyTimeline';
+import { PreferredUnits, DEFAULT_UNITS, getPreferredUnits, formatBloodSugarReading, formatWeightReading } from './units';
+import { getAppointmentStart } from './appointmentTime';
+import { formatVisitVitals, parseVisitVitals } from './visitSummary';
 
 // --- Type Definitions Specific to Interaction ---
 export interface UserPreferences {
@@ -47,21 +46,13 @@ export interface AdditionalChatContext {
     latestWeight: WeightReading | null;
     upcomingAppointments: (Appointment & { dateTime?: Date | null })[];
     previousConcerns: string[];
+    /** The doctor's summary of the most recent completed visit */
+    latestVisitSummary?: VisitSummary | null;
 }
 
 // --- Configuration ---
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-// Use the correctly imported Base type to correctly type the model property
-// Ensure this model supports vision and doesn't have the system prompt restriction, or handle as done in ChatPage.
-const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "meta-llama/llama-4-maverick-17b-128e-instruct";
-
-
-if (!API_KEY) {
-    // console.error("CRITICAL: VITE_PUBLIC_GROQ_API_KEY environment variable is not set. Groq service will be unavailable.");
-}
-
-// --- Initialization ---
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
+// Provider and model are configured for the 'chat' feature in src/lib/llm/index.ts. The default model supports
+// images but not together with a system prompt; ChatPage drops the system message when an image is attached.
 
 // --- Generation Configuration ---
 const generationConfig = {
@@ -86,7 +77,8 @@ const formatDateSafe = (dateString: string | undefined | null): string => {
     }
 };
 
-const formatReadingForContext = (reading: BloodPressureReading | BloodSugarReading | WeightReading | null, type: 'BP' | 'Sugar' | 'Weight'): string => {
+// Values are given in the user's preferred units so the AI answers in the units they know
+const formatReadingForContext = (reading: BloodPressureReading | BloodSugarReading | WeightReading | null, type: 'BP' | 'Sugar' | 'Weight', units: PreferredUnits = DEFAULT_UNITS): string => {
     if (!reading) return `No recent ${type} reading available.`;
     const dateStr = formatDateSafe(reading?.recordedAt); // Use optional chaining
 
@@ -95,9 +87,9 @@ const formatReadingForContext = (reading: BloodPressureReading | BloodSugarReadi
     if (type === 'BP' && reading && 'systolic' in reading && 'diastolic' in reading) {
         readingStr = `BP: ${reading.systolic ?? 'N/A'}/${reading.diastolic ?? 'N/A'} mmHg`;
     } else if (type === 'Sugar' && reading && 'level' in reading) {
-        readingStr = `Blood Sugar: ${reading.level ?? 'N/A'} mg/dL (${reading.measurementType || 'unspecified'})`;
+        readingStr = `Blood Sugar: ${reading.level != null ? formatBloodSugarReading(reading as BloodSugarReading, units) : 'N/A'} (${reading.measurementType || 'unspecified'})`;
     } else if (type === 'Weight' && reading && 'weight' in reading) {
-        readingStr = `Weight: ${reading.weight ?? 'N/A'} ${reading.unit || 'units'}`;
+        readingStr = `Weight: ${reading.weight != null ? formatWeightReading(reading as WeightReading, units) : 'N/A'}`;
     } else {
         // Handle cases where reading exists but doesn't match expected structure for the type
         return `Recent ${type} reading data is incomplete or unavailable.`;
@@ -116,19 +108,40 @@ const formatAppointmentsForContext = (appointments: (Appointment & { dateTime?:
     return `Upcoming Appointments:\n${appointments.map(app => {
         const type = app.appointmentType?.replace(/_/g, ' ') || 'General appointment';
         // Format dateTime if available and valid, otherwise fallback to date/time fields
-        const dateTimeFormatted = app.dateTime && !isNaN(app.dateTime.getTime())
-            ? format(app.dateTime, 'MMM d, yyyy h:mm a')
+        const start = app.dateTime && !isNaN(app.dateTime.getTime()) ? app.dateTime : getAppointmentStart(app);
+        const dateTimeFormatted = start
+            ? format(start, 'MMM d, yyyy h:mm a')
             : `${formatDateSafe(app.date)}${app.time ? ` at ${app.time}` : ''}`;
         return `- ${type} on ${dateTimeFormatted}`;
     }).join('\n')}`;
 };
 
+// Findings and next steps are the doctor's own words; the AI may refer to them but must not reinterpret them
+const formatVisitSummaryForContext = (summary: VisitSummary | null | undefined, units: PreferredUnits = DEFAULT_UNITS): string => {
+    if (!summary) return 'No visit summaries from their doctor yet.';
+    const type = summary.appointmentType?.replace(/_/g, ' ') || 'General appointment';
+    const lines = [`Last Visit: ${type} on ${formatDateSafe(summary.visitedAt)}`];
+    const vitals = formatVisitVitals(parseVisitVitals(summary.vitals), units);
+    if (vitals.length > 0) lines.push(`- Vitals: ${vitals.join('; ')}`);
+    if (summary.findings) lines.push(`- Doctor's Findings: ${summary.findings.substring(0, 600)}`);
+    if (summary.nextSteps) lines.push(`- Next Steps Advised by Doctor: ${summary.nextSteps.substring(0, 600)}`);
+    return lines.join('\n');
+};
+
 const formatPreviousConcernsForContext = (concerns: string[]): string => {
     if (!concerns || concerns.length === 0) return 'No specific recent concerns noted in chat history.';
     // Limit the number and length of concerns shown
     return `Recent Topics/Concerns (Memory Aid):\n${concerns.slice(-3).map(c => `- "${c.substring(0, 100)}${c.length > 100 ? '...' : ''}"`).join('\n')}`;
 };
 
+// A week count typed into the pre-chat form overrides the profile's dates for this chat,
+// unless it is just the profile's own current week (pre-filled into the form)
+const getChatPregnancyDates = (userPrefs: UserPreferences, profileData: UserProfile | null): PregnancyDates | null => {
+    const weeks = userPrefs.weeksPregnant;
+    if (weeks === undefined || weeks === null || weeks === getPregnancyTimeline(profileData).weeks) return profileData;
+    return { weeksPregnant: weeks, conceptionMethod: profileData?.conceptionMethod };
+};
+
 // Function to create the system prompt
 export const createSystemPrompt = (
     userPrefs: UserPreferences,
@@ -137,13 +150,13 @@ export const createSystemPrompt = (
 ): string => {
     const name = profileData?.name || 'User';
     const age = userPrefs.age ?? profileData?.age;
-    const weeks = userPrefs.weeksPregnant ?? profileData?.weeksPregnant;
+    const pregnancyStage = formatPregnancyStageForContext(getChatPregnancyDates(userPrefs, profileData));
 
     // Build Context String
     let contextString = "[User Context]\n";
     contextString += `- Name: ${name}\n`;
     if (age) contextString += `- Age: ${age}\n`;
-    if (weeks !== undefined && weeks !== null) contextString += `- Weeks Pregnant: ${weeks}\n`;
+    if (pregnancyStage !== 'Unknown') contextString += `- Pregnancy Stage: ${pregnancyStage}\n`;
     if (userPrefs.feeling) contextString += `- Current Feeling: ${userPrefs.feeling}\n`;
     const conditions = userPrefs.preExistingConditions ?? profileData?.preExistingConditions;
     if (conditions && conditions.toLowerCase() !== 'none') contextString += `- Pre-existing Conditions: ${conditions}\n`;
@@ -151,14 +164,19 @@ export const createSystemPrompt = (
 
     // Add Health Readings
     contextString += "\n[Recent Health Readings (Context Only - DO NOT Interpret Medically)]\n";
+    const units = getPreferredUnits(profileData);
     contextString += `${formatReadingForContext(additionalContext.latestBp, 'BP')}\n`;
-    contextString += `${formatReadingForContext(additionalContext.latestSugar, 'Sugar')}\n`;
-    contextString += `${formatReadingForContext(additionalContext.latestWeight, 'Weight')}\n`;
+    contextString += `${formatReadingForContext(additionalContext.latestSugar, 'Sugar', units)}\n`;
+    contextString += `${formatReadingForContext(additionalContext.latestWeight, 'Weight', units)}\n`;
 
     // Add Appointments
     contextString += "\n[Upcoming Schedule Context]\n";
     contextString += `${formatAppointmentsForContext(additionalContext.upcomingAppointments)}\n`;
 
+    // Add the Latest Visit Summary
+    contextString += "\n[Latest Visit Summary (Written by Their Doctor - Do Not Reinterpret)]\n";
+    contextString += `${formatVisitSummaryForContext(additionalContext.latestVisitSummary, units)}\n`;
+
     // Add Previous Concerns
     contextString += "\n[Recent Chat Context (Memory Aid)]\n";
     contextString += `${formatPreviousConcernsForContext(additionalContext.previousConcerns)}\n`;
@@ -195,8 +213,28 @@ Your absolute priority is to **READ and TRANSCRIBE ALL text that is VISIBLE in t
     return `${personaInstructions}\n\n${contextString}\n\n${safetyRules}`;
 };
 
+export interface ChatPromptInput {
+    userPrefs: UserPreferences;
+    profileData: UserProfile | null;
+    additionalContext: AdditionalChatContext;
+    /** The user's message answered under the system prompt */
+    message: string;
+}
+
+// Registered for the prompt evaluation harness (src/lib/evals); bump the version whenever createSystemPrompt's text changes
+export const chatSystemPrompt = definePrompt({
+    id: 'chatSystem',
+    version: 1,
+    feature: 'chat',
+    description: "Chat system prompt (user context, transcription rules, disclaimer, emergency protocol) followed by one user message.",
+    messages: ({ userPrefs, profileData, additionalContext, message }: ChatPromptInput): ChatCompletionMessageParam[] => [
+        { role: 'system', content: createSystemPrompt(userPrefs, profileData, additionalContext) },
+        { role: 'user', content: message },
+    ],
+});
 
-// Function to convert a File object to the Groq API's image part format
+
+// Function to convert a File object to the chat API's image part format
 export const fileToApiImagePart = async (file: File): Promise<ImageContentPart> => {
     // Validate file type again just before processing
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
@@ -256,12 +294,12 @@ export const startChat = (
     profileData: UserProfile | null,
     additionalContext: AdditionalChatContext
 ): ChatCompletionMessageParam[] => {
-    if (!groq) {
+    if (!getLLMProvider('chat').isAvailable) {
         // This case should ideally be handled earlier (e.g., disable chat feature if API key missing)
-        // console.error("Groq service not initialized in startChat.");
+        // console.error("AI provider not configured in startChat.");
         // Return a minimal history or throw, depending on desired behavior
         // Throwing might be better to signal a configuration issue clearly.
-        throw new Error('Groq service not initialized. Cannot start chat.');
+        throw new Error('AI service not configured. Cannot start chat.');
     }
     try {
         // 1. Create the system prompt
@@ -271,15 +309,17 @@ export const startChat = (
         // 2. Create the initial user message based on pre-chat info
         const name = profileData?.name || 'User';
         const feeling = userPrefs.feeling || 'reaching out';
-        const weeksPregnant = userPrefs.weeksPregnant ?? profileData?.weeksPregnant; // Use provided or profile weeks
-        const weekMention = (weeksPregnant !== undefined && weeksPregnant !== null) ? ` at ${weeksPregnant} weeks pregnant` : '';
+        const timeline = getPregnancyTimeline(getChatPregnancyDates(userPrefs, profileData)); // Use provided weeks or profile dates
+        const weekMention = timeline.stage === 'postpartum'
+            ? `, ${timeline.postpartumWeek} week${timeline.postpartumWeek === 1 ? '' : 's'} after giving birth`
+            : timeline.weeks !== null ? ` at ${formatGestationalAge(timeline)} pregnant` : '';
         const concernMention = userPrefs.specificConcerns ? ` I also wanted to mention I have some concerns about: ${userPrefs.specificConcerns}.` : '';
         const initialUserText = `Hi, I'm ${name}. I'm feeling ${feeling}${weekMention}.${concernMention} What should I know or do right now?`;
         const userMessage: ChatCompletionMessageParam = { role: "user", content: initialUserText };
 
         // 3. Create a plausible initial assistant response acknowledging the user
         const concernAck = concernMention ? ' and have noted your specific concerns' : '';
-        const initialAssistantText = `Hello ${name}! Thanks for reaching out. I understand you're feeling ${feeling}${weekMention}${concernAck}. I've noted the context you provided (like age${weeksPregnant !== undefined ? ', weeks pregnant,' : ','} etc.). Remember, I'm here for general information and support, not medical advice. Always talk to your doctor about any health questions or symptoms. How can I assist you today?`;
+        const initialAssistantText = `Hello ${name}! Thanks for reaching out. I understand you're feeling ${feeling}${weekMention}${concernAck}. I've noted the context you provided (like age${timeline.stage !== 'unknown' ? ', pregnancy stage,' : ','} etc.). Remember, I'm here for general information and support, not medical advice. Always talk to your doctor about any health questions or symptoms. How can I assist you today?`;
         const assistantMessage: ChatCompletionMessageParam = { role: "assistant", content: initialAssistantText };
 
         // Return the initial sequence: System -> User -> Assistant
@@ -289,7 +329,7 @@ export const startChat = (
         // console.error('Error preparing initial Groq messages:', error);
         // Check for specific API key errors if possible, otherwise throw a generic error
         if (error instanceof Error && (error.message.includes('API key') || error.message.includes('authentication'))) {
-            throw new Error('Failed to start chat: Invalid or missing Groq API Key.');
+            throw new Error('Failed to start chat: Invalid or missing AI API Key.');
         }
         throw new Error('Failed to prepare initial chat messages due to an internal error.');
     }
@@ -300,7 +340,8 @@ export const startChat = (
 export const sendMessage = async (
     messages: ChatCompletionMessageParam[]
 ): Promise<string> => {
-    if (!groq) throw new Error("Groq service not available. Check API Key.");
+    const llm = getLLMProvider('chat');
+    if (!llm.isAvailable) throw new Error("AI service not available. Check API Key.");
     if (!messages?.length) {
         // console.warn("sendMessage called with empty history.");
         return "[No message history provided]";
@@ -320,22 +361,15 @@ export const sendMessage = async (
     // console.log(`Sending ${messagesToSend.length} messages to Groq (non-streaming). Image in history: ${historyContainsImage}`);
 
     try {
-        // Use the CORRECTLY DEFINED local ChatCompletionCreateParams type
-        const params: ChatCompletionCreateParams = {
+        const request: LLMChatRequest = {
             messages: messagesToSend, // Send potentially filtered messages
-            model: MODEL_NAME,
             temperature: generationConfig.temperature,
-            max_tokens: generationConfig.max_tokens,
-            top_p: generationConfig.top_p,
+            maxTokens: generationConfig.max_tokens,
+            topP: generationConfig.top_p,
             stop: generationConfig.stop,
-            stream: false, // Explicitly non-streaming
         };
 
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-
-        const responseChoice = chatCompletion.choices[0];
-        const responseContent = responseChoice?.message?.content;
-        const finishReason = responseChoice?.finish_reason;
+        const { content: responseContent, finishReason } = await llm.chat(request);
 
         // console.log(`Groq non-streaming response received. Finish Reason: ${finishReason}`);
 
@@ -359,12 +393,12 @@ export const sendMessage = async (
 
     } catch (error: unknown) {
         //  console.error('Error sending non-streaming message to Groq:', error);
-         if (error instanceof Groq.APIError) {
+         if (error instanceof LLMProviderError) {
              // Provide more specific error messages based on status
-             if (error.status === 400) throw new Error(`Groq API Error (400): Bad Request. ${error.message}. Check input format/content.`);
-             if (error.status === 401) throw new Error(`Groq API Error (401): Authentication Failed. Check API Key.`);
-             if (error.status === 429) throw new Error(`Groq API Error (429): Rate Limit Exceeded.`);
-             throw new Error(`Groq API Error: ${error.message} (Status: ${error.status})`);
+             if (error.status === 400) throw new Error(`AI API Error (400): Bad Request. ${error.message}. Check input format/content.`);
+             if (error.status === 401) throw new Error(`AI API Error (401): Authentication Failed. Check API Key.`);
+             if (error.status === 429) throw new Error(`AI API Error (429): Rate Limit Exceeded.`);
+             throw new Error(`AI API Error: ${error.message} (Status: ${error.status ?? 'N/A'})`);
          } else if (error instanceof Error) {
              // Handle network or other client-side errors
              throw new Error(`Failed to get non-streaming response: ${error.message}`);
@@ -382,7 +416,8 @@ export const sendMessageStream = async (
     onError: (error: Error) => void,
     onComplete: () => void
 ): Promise<void> => {
-    if (!groq) { onError(new Error("Groq service not initialized. Check API Key.")); return; }
+    const llm = getLLMProvider('chat');
+    if (!llm.isAvailable) { onError(new Error("AI service not configured. Check API Key.")); return; }
     // Allow sending even if history only contains system message + user message (start of chat)
     if (!messages?.length) { onError(new Error("Cannot send empty message history for streaming.")); return; }
 
@@ -397,31 +432,24 @@ export const sendMessageStream = async (
     let streamClosedNormally = false; // Track if 'stop' reason was received
 
     try {
-        // Use the CORRECTLY DEFINED local ChatCompletionCreateParams type
-        const params: ChatCompletionCreateParams = {
+        const request: LLMChatRequest = {
             messages: messages, // Send the prepared history
-            model: MODEL_NAME,
             temperature: generationConfig.temperature,
-            max_tokens: generationConfig.max_tokens,
-            top_p: generationConfig.top_p,
+            maxTokens: generationConfig.max_tokens,
+            topP: generationConfig.top_p,
             stop: generationConfig.stop,
-            stream: true, // Explicitly streaming
         };
 
-        // Type assertion needed because the SDK's default create signature might not guarantee Stream<Chunk>
-        const stream = await groq.chat.completions.create(params) as unknown as Stream<ChatCompletionChunk>;
-
         // Process the stream chunk by chunk
-        for await (const chunk of stream) {
-             // Extract text content from the chunk's delta
-             const chunkText = chunk.choices[0]?.delta?.content;
+        for await (const chunk of llm.stream(request)) {
+             const chunkText = chunk.text;
              if (chunkText) {
                  accumulatedText += chunkText;
                  onChunk(chunkText); // Pass the chunk to the UI callback
              }
 
              // Check for finish reason in the chunk (often in the last chunk for a choice)
-             const chunkFinishReason = chunk.choices[0]?.finish_reason;
+             const chunkFinishReason = chunk.finishReason;
              if (chunkFinishReason) {
                 //   console.log(`Groq stream chunk finished choice with reason: ${chunkFinishReason}`);
                   streamClosedNormally = (chunkFinishReason === 'stop'); // 'stop' is the normal successful completion
@@ -470,8 +498,8 @@ export const sendMessageStream = async (
          errorOccurred = true; // Ensure error state is set
          let userFriendlyError: Error;
 
-         // Handle specific Groq API errors
-         if (error instanceof Groq.APIError) {
+         // Handle specific API errors
+         if (error instanceof LLMProviderError) {
              const errorMessage = error.message || "Unknown API Error";
              if (error.status === 400) {
                  // Check if the error message indicates the known incompatibility
@@ -483,8 +511,8 @@ export const sendMessageStream = async (
              }
              else if (error.status === 401) userFriendlyError = new Error('Authentication error during streaming (401). Check API key.');
              else if (error.status === 429) userFriendlyError = new Error('API rate limit reached during streaming (429).');
-             else if (error.status === 500) userFriendlyError = new Error('Groq server error during streaming (500). Please try again later.');
-             else userFriendlyError = new Error(`Groq API Error (Stream): ${errorMessage} (Status: ${error.status})`);
+             else if (error.status === 500) userFriendlyError = new Error('AI server error during streaming (500). Please try again later.');
+             else userFriendlyError = new Error(`AI API Error (Stream): ${errorMessage} (Status: ${error.status ?? 'N/A'})`);
          }
          // Handle potential client-side/network errors
          else if (error instanceof Error) {
@@ -512,6 +540,7 @@ const groqService = {
     sendMessageStream,
     fileToApiImagePart,
     createSystemPrompt, // Export if needed elsewhere, e.g., for debugging
+    chatSystemPrompt,
 };
 
 export default groqService;
@@ -521,11 +550,6 @@ export default groqService;
 export type {
     ChatCompletionMessageParam,
     ChatCompletionContentPart,
-    ImageContentPart,
-    ChatCompletion,
-    ChatCompletionChunk,
-    ChatCompletionCreateParams // Export the local union type
+    ChatCompletionContentPartText,
+    ImageContentPart
 };
-
-// Re-export Groq namespace if needed for other type access
-export { Groq };
\ No newline at end of file
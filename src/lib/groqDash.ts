@@ -6,30 +6,24 @@ import {
     Appointment,
     BloodPressureReading,
     BloodSugarReading,
-    WeightReading
+    WeightReading,
+    MedicationReminder
 } from "./appwrite"; // Adjust path if necessary
+import { formatPregnancyStageForContext } from './pregnancyTimeline';
+import { getAppointmentStart } from './appointmentTime';
+import { PreferredUnits, DEFAULT_UNITS, formatBloodSugarReading, formatWeightReading, getPreferredUnits } from './units';
+import { getRefillWarnings, describeSupply } from './medicationSupply';
+import { aiResponseCache, CachedRequestOptions, definePrompt } from './llm';
 
 // --- Import Groq types and potentially the service for API calls ---
 // If groq.ts handles the actual API call, import it. Otherwise, initialize Groq here.
-import groqService, { ChatCompletionMessageParam, ChatCompletionCreateParams, Groq } from './groq';
-
-// --- Helper: Get Trimester Info ---
-const getTrimesterInfo = (weeks: number | string | undefined | null): string => {
-    const numWeeks = parseInt(String(weeks), 10);
-    if (isNaN(numWeeks) || numWeeks < 1) return "Pregnancy stage unknown";
-    if (numWeeks <= 13) return "First trimester";
-    if (numWeeks <= 27) return "Second trimester";
-    if (numWeeks <= 42) return "Third trimester";
-    return "Post-term or invalid weeks";
-};
+import groqService, { ChatCompletionMessageParam } from './groq';
 
 // --- Helper: Format Profile Data for Feed Context ---
 const formatProfileForFeed = (profile: UserProfile | null): string => {
     if (!profile) return "User Profile: Not available.";
-    const weeks = profile.weeksPregnant;
-    const trimester = getTrimesterInfo(weeks);
     let context = "[User Profile Summary]\n";
-    context += `- Stage: ${weeks !== undefined && weeks !== null ? `${weeks} weeks (${trimester})` : 'Unknown'}\n`;
+    context += `- Stage: ${formatPregnancyStageForContext(profile)}\n`;
     if (profile.activityLevel) context += `- Activity Level: ${profile.activityLevel}\n`;
     if (profile.dietaryPreferences?.length) context += `- Dietary Preferences: ${profile.dietaryPreferences.join(', ')}\n`;
     if (profile.preExistingConditions && profile.preExistingConditions.toLowerCase() !== 'none') {
@@ -43,7 +37,8 @@ const formatProfileForFeed = (profile: UserProfile | null): string => {
 const formatReadingsForFeed = (
     bp: BloodPressureReading | null,
     sugar: BloodSugarReading | null,
-    weight: WeightReading | null
+    weight: WeightReading | null,
+    units: PreferredUnits = DEFAULT_UNITS // Shown in the user's units so the feed uses them too
 ): string => {
     let context = "[Recent Health Readings (Context Only)]\n";
     let hasReadings = false;
@@ -53,11 +48,11 @@ const formatReadingsForFeed = (
         hasReadings = true;
     }
     if (sugar) {
-        context += `- Latest Sugar: ${sugar.level} mg/dL (${sugar.measurementType}) (Recorded: ${formatDateSafe(sugar.recordedAt)})\n`;
+        context += `- Latest Sugar: ${formatBloodSugarReading(sugar, units)} (${sugar.measurementType}) (Recorded: ${formatDateSafe(sugar.recordedAt)})\n`;
         hasReadings = true;
     }
     if (weight) {
-        context += `- Latest Weight: ${weight.weight} ${weight.unit} (Recorded: ${formatDateSafe(weight.recordedAt)})\n`;
+        context += `- Latest Weight: ${formatWeightReading(weight, units)} (Recorded: ${formatDateSafe(weight.recordedAt)})\n`;
         hasReadings = true;
     }
 
@@ -68,31 +63,36 @@ const formatReadingsForFeed = (
 };
 
 // --- Helper: Format Upcoming Appointments for Feed Context ---
-const formatAppointmentsForFeed = (appointments: (Appointment & { dateTime?: Date | null })[]): string => {
+const formatAppointmentsForFeed = (appointments: Appointment[]): string => {
     if (!appointments || appointments.length === 0) return "[Upcoming Appointments]\n- None scheduled in the near future.\n";
 
-    // Sort appointments by date (ensure dateTime is parsed correctly before calling)
+    // Sort by start (appointments whose date/time can't be read are left out)
     const sortedApps = appointments
-        .filter(app => app.dateTime instanceof Date && !isNaN(app.dateTime.getTime())) // Ensure dateTime is a valid Date
-        .sort((a, b) => {
-            // Since we filtered for valid Dates, we can safely use getTime()
-            // Added explicit type assertion for clarity, though filter should guarantee it.
-            const timeA = (a.dateTime as Date).getTime();
-            const timeB = (b.dateTime as Date).getTime();
-            return timeA - timeB;
-        });
+        .map(app => ({ app, start: getAppointmentStart(app) }))
+        .filter((entry): entry is { app: Appointment; start: Date } => entry.start !== null)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
 
     let context = "[Upcoming Appointments]\n";
     // Show only the next 1-2 appointments for brevity
-    sortedApps.slice(0, 2).forEach(app => {
+    sortedApps.slice(0, 2).forEach(({ app, start }) => {
         const type = app.appointmentType?.replace(/_/g, ' ') || 'Appointment';
-        // We know dateTime is a valid Date here due to the filter
-        const dateStr = format(app.dateTime as Date, 'MMM d, yyyy h:mm a');
+        const dateStr = format(start, 'MMM d, yyyy h:mm a');
         context += `- ${type} on ${dateStr}\n`;
     });
     return context;
 };
 
+// --- Helper: Format Medication Supply for Feed Context ---
+const formatMedicationSupplyForFeed = (reminders: MedicationReminder[]): string => {
+    const warnings = getRefillWarnings(reminders);
+    if (warnings.length === 0) return "";
+    let context = "[Medication Supply - Refill Soon]\n";
+    warnings.forEach(({ reminder, forecast }) => {
+        context += `- ${reminder.medicationName}: ${describeSupply(forecast)}\n`;
+    });
+    return context;
+};
+
 // --- Helper: Date Formatting ---
 const formatDateSafe = (dateString: string | undefined | null): string => {
     if (!dateString) return 'unknown date';
@@ -115,7 +115,8 @@ const formatDateSafe = (dateString: string | undefined | null): string => {
  * @param bp - Latest BP reading.
  * @param sugar - Latest Sugar reading.
  * @param weight - Latest Weight reading.
- * @param appointments - Array of upcoming appointments (already parsed with dateTime).
+ * @param appointments - Array of upcoming appointments (start times are read with getAppointmentStart).
+ * @param reminders - Medication reminders; any running low are listed for a refill reminder.
  * @returns The system prompt string.
  */
 const createDashboardFeedPrompt = (
@@ -123,24 +124,27 @@ const createDashboardFeedPrompt = (
     bp: BloodPressureReading | null,
     sugar: BloodSugarReading | null,
     weight: WeightReading | null,
-    appointments: (Appointment & { dateTime?: Date | null })[]
+    appointments: Appointment[],
+    reminders: MedicationReminder[] = []
 ): string => {
 
     const profileContext = formatProfileForFeed(profile);
-    const readingsContext = formatReadingsForFeed(bp, sugar, weight);
+    const readingsContext = formatReadingsForFeed(bp, sugar, weight, getPreferredUnits(profile));
     // Pass the original appointments array, formatAppointmentsForFeed handles filtering/sorting
     const appointmentsContext = formatAppointmentsForFeed(appointments);
+    const supplyContext = formatMedicationSupplyForFeed(reminders);
 
     const personaAndInstructions = `
 [AI Persona & Role]
 You are MomCare AI, a supportive and informative companion for pregnancy. Your goal for this task is to generate a short, personalized, and encouraging message for the user's dashboard feed based on their current context. Focus on being positive, relevant, and providing gentle reminders or insights. You are NOT a medical professional.
 
 [Instructions & Guidelines]
-1.  **Review Context:** Analyze the provided User Profile, Recent Health Readings, and Upcoming Appointments.
+1.  **Review Context:** Analyze the provided User Profile, Recent Health Readings, Upcoming Appointments and, if present, Medication Supply.
 2.  **Generate Content:** Create 1-3 short items (max 2-3 sentences each) for the feed. Mix and match from the following types:
     *   **Personalized Tip:** Offer a brief, relevant tip based on the pregnancy stage, activity level, diet preference, or upcoming appointments (e.g., "Since you're in the second trimester, consider incorporating gentle stretching like prenatal yoga.").
     *   **Affirmation/Encouragement:** Provide a positive affirmation related to pregnancy or self-care (e.g., "You're doing great nurturing your baby and yourself!").
     *   **Contextual Summary/Reminder:** Briefly summarize a key piece of context or provide a gentle reminder (e.g., "Remember your doctor's appointment on [Date]!" or "Staying hydrated is especially important during the third trimester.").
+    *   **Refill Reminder:** If the Medication Supply section lists anything, always include a gentle reminder to refill it in time (e.g., "Your prenatal vitamins are running low - a good time to arrange a refill."). Don't comment on the medicines themselves.
     *   **Reading Acknowledgment (Neutral):** If recent readings are available, neutrally acknowledge them without interpretation (e.g., "Your latest BP reading was logged on [Date]. Keep up the monitoring!"). **DO NOT interpret readings.**
 3.  **Tone:** Maintain a warm, supportive, encouraging, and empathetic tone.
 4.  **Safety First:**
@@ -166,19 +170,48 @@ You are MomCare AI, a supportive and informative companion for pregnancy. Your g
 `;
 
     // Combine all parts
-    return `${personaAndInstructions}\n\n${profileContext}\n${readingsContext}\n${appointmentsContext}\n\n[AI Dashboard Feed Response (Markdown Format)]:\n`;
+    return `${personaAndInstructions}\n\n${profileContext}\n${readingsContext}\n${appointmentsContext}${supplyContext ? `\n${supplyContext}` : ''}\n\n[AI Dashboard Feed Response (Markdown Format)]:\n`;
 };
 
 
+export interface DashboardFeedPromptInput {
+    profile: UserProfile | null;
+    bp: BloodPressureReading | null;
+    sugar: BloodSugarReading | null;
+    weight: WeightReading | null;
+    appointments: Appointment[];
+    reminders?: MedicationReminder[];
+}
+
+// Registered for the prompt evaluation harness (src/lib/evals); bump the version whenever the prompt text changes
+export const dashboardFeedPrompt = definePrompt({
+    id: 'dashboardFeed',
+    version: 1,
+    feature: 'chat',
+    description: "Short personalised dashboard feed with tips, reminders and the closing disclaimer.",
+    messages: ({ profile, bp, sugar, weight, appointments, reminders = [] }: DashboardFeedPromptInput): ChatCompletionMessageParam[] => [
+        { role: 'system', content: createDashboardFeedPrompt(profile, bp, sugar, weight, appointments, reminders) },
+        // A simple user message to trigger the response based on the system prompt
+        { role: 'user', content: "What's a helpful insight for my dashboard today?" }
+    ],
+});
+
+
+// A feed is reused until its inputs change (new reading, appointment, profile edit) or it is this old
+const DASHBOARD_FEED_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
 // --- Public API Function ---
 /**
  * Generates personalized dashboard feed content using Groq.
+ * The feed is cached per prompt version and inputs (see aiResponseCache); identical calls share one request.
  *
  * @param profile - User's profile.
  * @param bp - Latest BP reading.
  * @param sugar - Latest Sugar reading.
  * @param weight - Latest Weight reading.
- * @param appointments - Array of upcoming appointments (already parsed with dateTime).
+ * @param appointments - Array of upcoming appointments (start times are read with getAppointmentStart).
+ * @param reminders - Medication reminders, for refill reminders in the feed.
+ * @param options - `refresh: true` generates a new feed even if one is cached.
  * @returns A Promise resolving to the generated Markdown string.
  * @throws Error if the Groq service is unavailable or the API call fails.
  */
@@ -187,7 +220,9 @@ export const generateDashboardFeed = async (
     bp: BloodPressureReading | null,
     sugar: BloodSugarReading | null,
     weight: WeightReading | null,
-    appointments: (Appointment & { dateTime?: Date | null })[]
+    appointments: Appointment[],
+    reminders: MedicationReminder[] = [],
+    options: CachedRequestOptions = {}
 ): Promise<string> => {
 
     // Ensure Groq service and sendMessage function are available
@@ -196,19 +231,16 @@ export const generateDashboardFeed = async (
         throw new Error("AI service configuration error.");
     }
 
-    const systemPrompt = createDashboardFeedPrompt(profile, bp, sugar, weight, appointments);
-    const messages: ChatCompletionMessageParam[] = [
-        { role: 'system', content: systemPrompt },
-        // A simple user message to trigger the response based on the system prompt
-        { role: 'user', content: "What's a helpful insight for my dashboard today?" }
-    ];
+    const messages = dashboardFeedPrompt.messages({ profile, bp, sugar, weight, appointments, reminders });
 
     try {
-        // Use the existing sendMessage function from groq.ts
-        console.log("Requesting dashboard feed from Groq...");
-        const response = await groqService.sendMessage(messages);
-        console.log("Received dashboard feed response.");
-        return response; // Return the generated Markdown string
+        return await aiResponseCache.getOrGenerate(dashboardFeedPrompt, messages, DASHBOARD_FEED_CACHE_TTL_MS, async () => {
+            // Use the existing sendMessage function from groq.ts
+            console.log("Requesting dashboard feed from Groq...");
+            const response = await groqService.sendMessage(messages);
+            console.log("Received dashboard feed response.");
+            return response; // The generated Markdown string
+        }, options);
     } catch (error) {
         console.error("Error generating dashboard feed:", error);
         // Re-throw the error to be handled by the calling component
@@ -219,6 +251,7 @@ export const generateDashboardFeed = async (
 // --- Service Object Export ---
 export const groqDashboardService = {
     generateDashboardFeed,
+    dashboardFeedPrompt,
     // Export the prompt function if needed for debugging/testing elsewhere
     // createDashboardFeedPrompt
 };
\ No newline at end of file
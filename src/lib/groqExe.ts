@@ -1,18 +1,12 @@
 // src/lib/groqExe.ts
 
-import Groq from 'groq-sdk';
-
-// --- SDK Type Imports ---
-import {
-    ChatCompletionCreateParamsNonStreaming,
-    ChatCompletionCreateParamsStreaming,
-    ChatCompletionCreateParamsBase,
-    ChatCompletionMessageParam,
-    ChatCompletion
-} from 'groq-sdk/resources/chat/completions';
+// --- LLM Provider ---
+import { z } from 'zod';
+import { chatForStructuredOutput, choiceOf, getLLMProvider, LLMChatRequest, LLMProviderError, optionalText, requiredText } from './llm';
 
 // --- Appwrite Type Imports ---
 import { UserProfile } from './appwrite'; // Adjust path if necessary
+import { formatPregnancyStageForContext } from './pregnancyTimeline';
 
 // --- Constants for Type Validation ---
 
@@ -59,26 +53,8 @@ export interface ExerciseGenerationOptions {
   customPreference?: string;
 }
 
-// --- Internal Types ---
-/** Local union type for Groq Chat Completion Create parameters */
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
-
 // --- Configuration ---
-/** Groq API Key loaded from environment variables. */
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-/** Specifies the Groq AI model to use for generation. */
-const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-70b-8192";
-
-// Validate API Key presence
-if (!API_KEY) {
-    // In a production environment, you might throw an Error here
-    // to prevent the application module from loading incorrectly.
-    // throw new Error("Groq API Key is missing. Cannot initialize groqExeService.");
-    console.error("CRITICAL ERROR: VITE_PUBLIC_GROQ_API_KEY is missing. Exercise generation will be unavailable.");
-}
-
-/** Initialized Groq SDK client instance, or null if API key is missing. */
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
+// Provider and model are configured per feature in src/lib/llm/index.ts
 
 /** Configuration settings for the AI generation process. */
 const generationConfig = {
@@ -89,20 +65,6 @@ const generationConfig = {
 
 // --- Helper Functions ---
 
-/**
- * Helper to get basic trimester info based on weeks pregnant.
- * @param weeks - Weeks pregnant (number or string). Can be undefined/null/NaN.
- * @returns A descriptive string about the trimester or status.
- */
-const getTrimesterInfo = (weeks: number | string | undefined | null): string => {
-    const numWeeks = parseInt(String(weeks), 10); // Attempt to parse whatever is given
-    if (isNaN(numWeeks) || numWeeks < 1) return "Pregnancy stage unknown"; // Handle invalid or zero weeks
-    if (numWeeks <= 13) return "First trimester";
-    if (numWeeks <= 27) return "Second trimester";
-    if (numWeeks <= 42) return "Third trimester"; // Allow slightly beyond 40
-    return "Post-term or invalid weeks"; // Handle cases beyond typical range
-};
-
 /**
  * Creates the detailed prompt for the Groq API based on user profile and options,
  * focused solely on generating exercise suggestions. Includes context, safety guidelines,
@@ -117,7 +79,7 @@ const createExercisePersonalizationPrompt = (profile: UserProfile, options: Exer
     const { count = 3, customPreference } = options;
 
     // Safely extract profile data with fallbacks
-    const weeks = profile.weeksPregnant ?? 'unknown';
+    const stage = formatPregnancyStageForContext(profile);
     const activity = profile.activityLevel ?? 'unspecified';
     const conditions = profile.preExistingConditions?.trim() || 'none specified';
     // Dietary preferences are less relevant for exercise, but can be included for context if desired
@@ -125,7 +87,7 @@ const createExercisePersonalizationPrompt = (profile: UserProfile, options: Exer
 
     // Build context string
     let context = `**User Context:**\n`;
-    context += `- Pregnancy Stage: ${weeks} weeks (Implications: ${getTrimesterInfo(weeks)})\n`;
+    context += `- Pregnancy Stage: ${stage}\n`;
     context += `- Stated Activity Level: ${activity}\n`;
     // context += `- Stated Dietary Preferences: ${diet}\n`; // Optional: include if it might influence energy levels/exercise choice
     if (conditions !== 'none specified') {
@@ -135,7 +97,7 @@ const createExercisePersonalizationPrompt = (profile: UserProfile, options: Exer
         context += `- User's Current Exercise Request/Focus: "${customPreference.trim()}"\n`;
     }
     // Add guidance for minimal context
-    if (weeks === 'unknown' && activity === 'unspecified' && conditions === 'none specified') {
+    if (stage === 'Unknown' && activity === 'unspecified' && conditions === 'none specified') {
         context += `- Note: User profile context is minimal. Provide generally safe and helpful pregnancy exercise suggestions (Gentle/Light intensity).\n`;
     }
 
@@ -200,93 +162,32 @@ ${outputFormatInstructions}
 };
 
 
-/**
- * Parses and validates the AI's JSON response for exercise suggestions.
- * Filters out invalid exercise items within the array but preserves valid ones.
- *
- * @param responseText - Raw API response text.
- * @returns Validated PersonalizedExerciseContent object.
- * @throws Error if JSON is invalid or missing the required top-level "exercises" key.
- */
-const parseAndValidateExerciseContent = (responseText: string): PersonalizedExerciseContent => {
-    let cleanedJsonString = responseText.trim();
-    const jsonStartIndex = cleanedJsonString.indexOf('{');
-    const jsonEndIndex = cleanedJsonString.lastIndexOf('}');
-
-    if (jsonStartIndex === -1 || jsonEndIndex === -1 || jsonEndIndex < jsonStartIndex) {
-        throw new Error("AI response did not contain a recognizable JSON object.");
-    }
-    cleanedJsonString = cleanedJsonString.substring(jsonStartIndex, jsonEndIndex + 1);
-
-    let parsedData: unknown;
-    try {
-        parsedData = JSON.parse(cleanedJsonString);
-    } catch (parseError: unknown) {
-        throw new Error(`Failed to parse AI suggestions. Invalid JSON format. ${parseError instanceof Error ? `Details: ${parseError.message}` : ''}`);
-    }
-
-    if (typeof parsedData !== 'object' || parsedData === null) {
-        throw new Error("Validation Error: AI response is not a JSON object.");
-    }
-
-    const potentialContent = parsedData as Record<string, unknown>;
-    const validatedOutput: PersonalizedExerciseContent = { exercises: [] };
+// --- Response Schema ---
 
-    // --- Validate Exercises ---
-    if (!potentialContent.hasOwnProperty('exercises') || !Array.isArray(potentialContent.exercises)) {
-        throw new Error("Validation Error: AI response missing required 'exercises' array.");
-    }
+/** One exercise as the model returns it. Safety notes are mandatory; `id` may be left out. */
+const exerciseSuggestionSchema = z.object({
+    id: optionalText(),
+    name: requiredText(),
+    description: requiredText(),
+    intensity: choiceOf(VALID_EXERCISE_INTENSITIES, "Gentle"),
+    durationReps: optionalText(),
+    focusArea: optionalText(),
+    safetyNotes: requiredText(),
+    reasoning: optionalText(),
+});
 
-    // Process exercises
-    validatedOutput.exercises = potentialContent.exercises
-        .map((item: unknown, index: number): ExerciseSuggestion | null => {
-            if (typeof item !== 'object' || item === null) { return null; }
-            const ex = item as Record<string, unknown>;
-
-            // Required fields check
-            if (typeof ex.id !== 'string' || !ex.id.trim()) { return null; } // Added ID check
-            if (typeof ex.name !== 'string' || !ex.name.trim()) { return null; }
-            if (typeof ex.description !== 'string' || !ex.description.trim()) { return null; }
-            if (typeof ex.intensity !== 'string' || !ex.intensity.trim()) { return null; }
-            if (typeof ex.safetyNotes !== 'string' || !ex.safetyNotes.trim()) { return null; } // Mandatory
-
-            // Optional Fields Validation & Cleaning
-            const durationReps = (typeof ex.durationReps === 'string' && ex.durationReps.trim()) ? ex.durationReps.trim() : undefined;
-            const focusArea = (typeof ex.focusArea === 'string' && ex.focusArea.trim()) ? ex.focusArea.trim() : undefined;
-            const reasoning = (typeof ex.reasoning === 'string' && ex.reasoning.trim()) ? ex.reasoning.trim() : undefined;
-
-            // Validate intensity against allowed values, default to Gentle if invalid
-            const finalIntensity = VALID_EXERCISE_INTENSITIES.includes(ex.intensity as ExerciseIntensity) ? ex.intensity : "Gentle";
-
-            // Re-assign a client-side ID for robustness if needed, or trust AI's ID if validated
-            const finalId = ex.id.trim(); // Use the validated ID from AI
-
-            return {
-                id: finalId,
-                name: ex.name.trim(),
-                description: ex.description.trim(),
-                intensity: finalIntensity,
-                durationReps,
-                focusArea,
-                safetyNotes: ex.safetyNotes.trim(),
-                reasoning,
-            };
-        })
-        .filter((item): item is ExerciseSuggestion => item !== null);
-
-     if (validatedOutput.exercises.length === 0 && potentialContent.exercises.length > 0) {
-       // No valid items found, though the array existed.
-       console.warn("Validation Warning: AI 'exercises' array contained items, but none passed validation.");
-    }
-
-    return validatedOutput;
-};
+/** The whole answer: `{ "exercises": [...] }`. */
+const personalizedExerciseContentSchema: z.ZodType<PersonalizedExerciseContent, z.ZodTypeDef, unknown> = z.object({
+    exercises: z.array(exerciseSuggestionSchema),
+}).transform(({ exercises }) => ({
+    exercises: exercises.map((exercise, index) => ({ ...exercise, id: exercise.id ?? `ex-${index + 1}` }) as ExerciseSuggestion),
+}));
 
 
 // --- Public API Function ---
 
 /**
- * Fetches personalized exercise suggestions from Groq.
+ * Fetches personalized exercise suggestions from the configured AI provider.
  * Handles API communication, response processing, and validation.
  * Matches the function name expected by the frontend code.
  *
@@ -300,59 +201,30 @@ export const generateExerciseSuggestions = async (
     profile: UserProfile,
     options: ExerciseGenerationOptions = {}
 ): Promise<PersonalizedExerciseContent> => {
-    if (!groq) {
-        throw new Error("Exercise suggestion service unavailable (Groq client not initialized). Check API Key.");
+    const llm = getLLMProvider('exercises');
+    if (!llm.isAvailable) {
+        throw new Error("Exercise suggestion service unavailable (AI provider not configured). Check API Key.");
     }
 
     const prompt = createExercisePersonalizationPrompt(profile, options);
-    const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
-    const params: ChatCompletionCreateParams = {
-        messages, model: MODEL_NAME, temperature: generationConfig.temperature,
-        max_tokens: generationConfig.max_tokens, top_p: generationConfig.top_p, stream: false,
-        // Ensure JSON mode if the model supports it, otherwise rely on prompt instructions
-        // response_format: { type: "json_object" }, // Uncomment if using a model version that explicitly supports this
+    const request: LLMChatRequest = {
+        messages: [{ role: 'user', content: prompt }], temperature: generationConfig.temperature,
+        maxTokens: generationConfig.max_tokens, topP: generationConfig.top_p, json: true,
     };
 
     try {
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-
-        const choice = chatCompletion.choices?.[0];
-        const responseText = choice?.message?.content;
-        const finishReason = choice?.finish_reason;
-
-        if (finishReason !== 'stop' && finishReason !== 'length') {
-            if (typeof finishReason === 'string' && finishReason.toLowerCase().includes('filter')) {
-                throw new Error(`AI generation blocked for safety/content reasons (${finishReason}).`);
-            }
-            throw new Error(`AI generation stopped unexpectedly (Reason: ${finishReason || 'unknown'}).`);
-        }
-
-        if (!responseText && finishReason !== 'stop') {
-             if (finishReason === 'length') { console.warn("AI response content empty/null, reason 'length'. Attempting parse (may fail)."); }
-             else { throw new Error(`AI returned unexpected empty content (Reason: ${finishReason}).`); }
-        }
-
-        if (responseText === "" && finishReason === 'stop') {
-             console.warn("AI returned empty string response. Returning empty suggestions.");
-             return { exercises: [] };
-        }
-
-        if (finishReason === 'length') { console.warn("AI response may be truncated. JSON/Suggestions might be incomplete."); }
-
-        if (responseText === null || responseText === undefined) {
-             throw new Error("AI response content was unexpectedly null or undefined.");
-        }
-
-        return parseAndValidateExerciseContent(responseText);
+        const { data, finishReason } = await chatForStructuredOutput(llm, request, personalizedExerciseContentSchema, { label: 'exercise suggestions' });
+        if (finishReason === 'length') { console.warn("AI response may be truncated. Suggestions might be incomplete."); }
+        return data;
 
     } catch (error: unknown) {
-        console.error(`Error during Groq exercise personalization fetch/parse:`, error);
-        if (error instanceof Groq.APIError) {
+        console.error(`Error during AI exercise personalization fetch/parse:`, error);
+        if (error instanceof LLMProviderError) {
             const status = error.status ?? 'N/A';
             const message = error.message || 'Unknown API error.';
             throw new Error(`Exercise personalization service API error (Status: ${status}): ${message}`);
         } else if (error instanceof Error) {
-            // Re-throw validation errors or other specific errors
+            // Re-throw StructuredOutputError (which lists what was wrong with the answer) and other specific errors
             throw error;
         } else {
             throw new Error("An unexpected error occurred while fetching personalized exercise content.");
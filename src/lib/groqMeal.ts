@@ -1,18 +1,15 @@
 // src/lib/groqMeal.ts
 
-import Groq from 'groq-sdk';
-
-// --- SDK Type Imports ---
+// --- LLM Provider ---
+import { z } from 'zod';
 import {
-    ChatCompletionCreateParamsNonStreaming,
-    ChatCompletionCreateParamsStreaming,
-    ChatCompletionCreateParamsBase,
-    ChatCompletionMessageParam,
-    ChatCompletion
-} from 'groq-sdk/resources/chat/completions';
+    aiResponseCache, CachedRequestOptions, chatForStructuredOutput, choiceOf, definePrompt, getLLMProvider, LLMChatRequest, LLMMessage,
+    LLMProviderError, optionalText, requiredText, textList,
+} from './llm';
 
 // --- Appwrite Type Imports ---
 import { UserProfile } from './appwrite'; // Adjust path if necessary
+import { formatPregnancyStageForContext } from './pregnancyTimeline';
 
 // --- Constants for Type Validation ---
 
@@ -75,26 +72,8 @@ export interface MealGenerationOptions {
   customPreference?: string;
 }
 
-// --- Internal Types ---
-/** Local union type for Groq Chat Completion Create parameters */
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
-
 // --- Configuration ---
-/** Groq API Key loaded from environment variables. */
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-/** Specifies the Groq AI model to use for generation. */
-const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-70b-8192";
-
-// Validate API Key presence
-if (!API_KEY) {
-    // In a production environment, you might throw an Error here
-    // to prevent the application module from loading incorrectly.
-    // throw new Error("Groq API Key is missing. Cannot initialize groqMealService.");
-    console.error("CRITICAL ERROR: VITE_PUBLIC_GROQ_API_KEY is missing. Meal generation will be unavailable.");
-}
-
-/** Initialized Groq SDK client instance, or null if API key is missing. */
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
+// Provider and model are configured per feature in src/lib/llm/index.ts
 
 /** Configuration settings for the AI generation process. */
 const generationConfig = {
@@ -105,20 +84,6 @@ const generationConfig = {
 
 // --- Helper Functions ---
 
-/**
- * Helper to get basic trimester info based on weeks pregnant.
- * @param weeks - Weeks pregnant (number or string). Can be undefined/null/NaN.
- * @returns A descriptive string about the trimester or status.
- */
-const getTrimesterInfo = (weeks: number | string | undefined | null): string => {
-    const numWeeks = parseInt(String(weeks), 10); // Attempt to parse whatever is given
-    if (isNaN(numWeeks) || numWeeks < 1) return "Pregnancy stage unknown"; // Handle invalid or zero weeks
-    if (numWeeks <= 13) return "First trimester";
-    if (numWeeks <= 27) return "Second trimester";
-    if (numWeeks <= 42) return "Third trimester"; // Allow slightly beyond 40
-    return "Post-term or invalid weeks"; // Handle cases beyond typical range
-};
-
 /**
  * Creates the detailed prompt for the Groq API based on user profile and options,
  * focused solely on generating meal ideas. Includes context, safety guidelines,
@@ -133,14 +98,14 @@ const createMealPersonalizationPrompt = (profile: UserProfile, options: MealGene
     const { count = 3, customPreference } = options;
 
     // Safely extract profile data with fallbacks
-    const weeks = profile.weeksPregnant ?? 'unknown';
+    const stage = formatPregnancyStageForContext(profile);
     const activity = profile.activityLevel ?? 'unspecified';
     const conditions = profile.preExistingConditions?.trim() || 'none specified';
     const diet = profile.dietaryPreferences?.length ? profile.dietaryPreferences.join(', ') : 'none specified';
 
     // Build context string
     let context = `**User Context:**\n`;
-    context += `- Pregnancy Stage: ${weeks} weeks (Implications: ${getTrimesterInfo(weeks)})\n`;
+    context += `- Pregnancy Stage: ${stage}\n`;
     context += `- Stated Activity Level: ${activity}\n`;
     context += `- Stated Dietary Preferences: ${diet}\n`;
     if (conditions !== 'none specified') {
@@ -150,7 +115,7 @@ const createMealPersonalizationPrompt = (profile: UserProfile, options: MealGene
         context += `- User's Current Meal Request/Focus: "${customPreference.trim()}"\n`;
     }
     // Add guidance for minimal context
-    if (weeks === 'unknown' && activity === 'unspecified' && diet === 'none specified' && conditions === 'none specified') {
+    if (stage === 'Unknown' && activity === 'unspecified' && diet === 'none specified' && conditions === 'none specified') {
         context += `- Note: User profile context is minimal. Provide generally safe and helpful pregnancy meal suggestions.\n`;
     }
 
@@ -231,165 +196,96 @@ ${outputFormatInstructions}
 `;
 };
 
+export interface MealSuggestionsPromptInput {
+  profile: UserProfile;
+  options?: MealGenerationOptions;
+}
 
-/**
- * Parses and validates the AI's JSON response for meal ideas.
- * Filters out invalid meal items within the array but preserves valid ones.
- *
- * @param responseText - Raw API response text.
- * @returns Validated PersonalizedMealContent object.
- * @throws Error if JSON is invalid or missing the required top-level "meals" key.
- */
-const parseAndValidateMealContent = (responseText: string): PersonalizedMealContent => {
-    let cleanedJsonString = responseText.trim();
-    const jsonStartIndex = cleanedJsonString.indexOf('{');
-    const jsonEndIndex = cleanedJsonString.lastIndexOf('}');
-
-    if (jsonStartIndex === -1 || jsonEndIndex === -1 || jsonEndIndex < jsonStartIndex) {
-        throw new Error("AI response did not contain a recognizable JSON object.");
-    }
-    cleanedJsonString = cleanedJsonString.substring(jsonStartIndex, jsonEndIndex + 1);
-
-    let parsedData: unknown;
-    try {
-        parsedData = JSON.parse(cleanedJsonString);
-    } catch (parseError: unknown) {
-        throw new Error(`Failed to parse AI suggestions. Invalid JSON format. ${parseError instanceof Error ? `Details: ${parseError.message}` : ''}`);
-    }
-
-    if (typeof parsedData !== 'object' || parsedData === null) {
-        throw new Error("Validation Error: AI response is not a JSON object.");
-    }
-
-    const potentialContent = parsedData as Record<string, unknown>;
-    const validatedOutput: PersonalizedMealContent = { meals: [] };
-
-    // --- Validate Meals ---
-    if (!potentialContent.hasOwnProperty('meals') || !Array.isArray(potentialContent.meals)) {
-        throw new Error("Validation Error: AI response missing required 'meals' array.");
-    }
-
-    // Process meals
-    validatedOutput.meals = potentialContent.meals
-        .map((item: unknown, index: number): MealIdea | null => {
-            if (typeof item !== 'object' || item === null) { return null; }
-            const meal = item as Record<string, unknown>;
-
-            // Required fields check
-            if (typeof meal.id !== 'string' || !meal.id.trim()) { return null; } // Added ID check
-            if (typeof meal.name !== 'string' || !meal.name.trim()) { return null; }
-            if (typeof meal.description !== 'string' || !meal.description.trim()) { return null; }
-            if (typeof meal.mealType !== 'string' || !meal.mealType.trim()) { return null; }
-            if (!Array.isArray(meal.preparationSteps)) { return null; }
-
-            // Optional & New Fields Validation & Cleaning
-            const keyIngredients = Array.isArray(meal.keyIngredients) ? meal.keyIngredients.filter((k): k is string => typeof k === 'string' && !!k.trim()).map(k => k.trim()) : [];
-            const dietaryNotes = Array.isArray(meal.dietaryNotes) ? meal.dietaryNotes.filter((n): n is string => typeof n === 'string' && !!n.trim()).map(n => n.trim()) : [];
-            const prepTime = (typeof meal.prepTime === 'string' && meal.prepTime.trim()) ? meal.prepTime.trim() : undefined;
-            const cookingTime = (typeof meal.cookingTime === 'string' && meal.cookingTime.trim()) ? meal.cookingTime.trim() : undefined;
-            const servingSize = (typeof meal.servingSize === 'string' && meal.servingSize.trim()) ? meal.servingSize.trim() : undefined;
-            const macros = (typeof meal.macros === 'string' && meal.macros.trim()) ? meal.macros.trim() : undefined;
-            // Ensure preparationSteps contains only non-empty strings
-            const preparationSteps = meal.preparationSteps.filter((s): s is string => typeof s === 'string' && !!s.trim()).map(s => s.trim());
-            const reasoning = (typeof meal.reasoning === 'string' && meal.reasoning.trim()) ? meal.reasoning.trim() : undefined;
-
-            let recipeComplexityValue: string | undefined = (typeof meal.recipeComplexity === 'string' && meal.recipeComplexity.trim()) ? meal.recipeComplexity.trim() : undefined;
-            const finalComplexity = (recipeComplexityValue && VALID_RECIPE_COMPLEXITY.includes(recipeComplexityValue as RecipeComplexity)) ? recipeComplexityValue : "Easy"; // Default to Easy
-            const finalMealType = VALID_MEAL_TYPES.includes(meal.mealType as MealType) ? meal.mealType : "Snack"; // Default to Snack
-
-            // Re-assign a client-side ID for robustness if needed, or trust AI's ID if validated
-            const finalId = meal.id.trim(); // Use the validated ID from AI
-
-            return {
-                id: finalId,
-                name: meal.name.trim(),
-                description: meal.description.trim(),
-                mealType: finalMealType,
-                keyIngredients, dietaryNotes, prepTime, cookingTime, recipeComplexity: finalComplexity,
-                servingSize, macros, preparationSteps, reasoning,
-            };
-        })
-        .filter((item): item is MealIdea => item !== null);
-
-    if (validatedOutput.meals.length === 0 && potentialContent.meals.length > 0) {
-       // No valid items found, though the array existed. This might indicate format issues.
-       // Consider logging or throwing an error depending on strictness required.
-       console.warn("Validation Warning: AI 'meals' array contained items, but none passed validation.");
-    }
-
-    return validatedOutput;
-};
+// Cached suggestions are keyed on this version, so bump it whenever the prompt text changes
+export const mealSuggestionsPrompt = definePrompt({
+    id: 'mealSuggestions',
+    version: 1,
+    feature: 'meals',
+    description: "Personalised meal ideas as a JSON object with a \"meals\" array.",
+    messages: ({ profile, options }: MealSuggestionsPromptInput): LLMMessage[] => [
+        { role: 'user', content: createMealPersonalizationPrompt(profile, options) },
+    ],
+});
+
+/** Suggestions for the same profile and request are reused for this long unless the user asks for new ones. */
+const MEAL_SUGGESTIONS_CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+
+
+// --- Response Schema ---
+
+/** One meal idea as the model returns it. `id` may be left out; the list schema numbers those. */
+const mealIdeaSchema = z.object({
+    id: optionalText(),
+    name: requiredText(),
+    description: requiredText(),
+    mealType: choiceOf(VALID_MEAL_TYPES, "Snack"),
+    keyIngredients: textList(),
+    dietaryNotes: textList(),
+    prepTime: optionalText(),
+    cookingTime: optionalText(),
+    recipeComplexity: choiceOf(VALID_RECIPE_COMPLEXITY, "Easy").optional().transform(value => value ?? "Easy"),
+    servingSize: optionalText(),
+    macros: optionalText(),
+    preparationSteps: textList().refine(steps => steps.length > 0, 'must list at least one step'),
+    reasoning: optionalText(),
+});
+
+/** The whole answer: `{ "meals": [...] }`. */
+const personalizedMealContentSchema: z.ZodType<PersonalizedMealContent, z.ZodTypeDef, unknown> = z.object({
+    meals: z.array(mealIdeaSchema),
+}).transform(({ meals }) => ({ meals: meals.map((meal, index) => ({ ...meal, id: meal.id ?? `meal-${index + 1}` }) as MealIdea) }));
 
 
 // --- Public API Function ---
 
 /**
- * Fetches personalized meal suggestions from Groq.
- * Handles API communication, response processing, and validation.
+ * Fetches personalized meal suggestions from the configured AI provider.
+ * Handles API communication, response processing, and validation. Results are cached per profile context and
+ * request (see aiResponseCache), so reopening the page shows the same suggestions.
  *
  * @async
  * @param {UserProfile} profile - The user's profile data.
  * @param {MealGenerationOptions} [options={}] - Options to customize the meal request.
+ * @param {CachedRequestOptions} [cacheOptions={}] - `refresh: true` generates new suggestions even if some are cached.
  * @returns {Promise<PersonalizedMealContent>} A Promise resolving to validated meal suggestions.
  * @throws {Error} If service unavailable, API call fails, or validation fails critically.
  */
 export const generatePersonalizedMeals = async (
     profile: UserProfile,
-    options: MealGenerationOptions = {}
+    options: MealGenerationOptions = {},
+    cacheOptions: CachedRequestOptions = {}
 ): Promise<PersonalizedMealContent> => {
-    if (!groq) {
-        throw new Error("Meal suggestion service unavailable (Groq client not initialized). Check API Key.");
+    const llm = getLLMProvider('meals');
+    if (!llm.isAvailable) {
+        throw new Error("Meal suggestion service unavailable (AI provider not configured). Check API Key.");
     }
 
-    const prompt = createMealPersonalizationPrompt(profile, options);
-    const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
-    const params: ChatCompletionCreateParams = {
-        messages, model: MODEL_NAME, temperature: generationConfig.temperature,
-        max_tokens: generationConfig.max_tokens, top_p: generationConfig.top_p, stream: false,
-        // Ensure JSON mode if the model supports it, otherwise rely on prompt instructions
-        // response_format: { type: "json_object" }, // Uncomment if using a model version that explicitly supports this
+    const messages = mealSuggestionsPrompt.messages({ profile, options });
+    const request: LLMChatRequest = {
+        messages, temperature: generationConfig.temperature,
+        maxTokens: generationConfig.max_tokens, topP: generationConfig.top_p, json: true,
     };
 
     try {
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-
-        const choice = chatCompletion.choices?.[0];
-        const responseText = choice?.message?.content;
-        const finishReason = choice?.finish_reason;
-
-        if (finishReason !== 'stop' && finishReason !== 'length') {
-            if (typeof finishReason === 'string' && finishReason.toLowerCase().includes('filter')) {
-                throw new Error(`AI generation blocked for safety/content reasons (${finishReason}).`);
-            }
-            throw new Error(`AI generation stopped unexpectedly (Reason: ${finishReason || 'unknown'}).`);
-        }
-
-        if (!responseText && finishReason !== 'stop') {
-             if (finishReason === 'length') { console.warn("AI response content empty/null, reason 'length'. Attempting parse (may fail)."); }
-             else { throw new Error(`AI returned unexpected empty content (Reason: ${finishReason}).`); }
-        }
-
-        if (responseText === "" && finishReason === 'stop') {
-             console.warn("AI returned empty string response. Returning empty suggestions.");
-             return { meals: [] };
-        }
-
-        if (finishReason === 'length') { console.warn("AI response may be truncated. JSON/Suggestions might be incomplete."); }
-
-        if (responseText === null || responseText === undefined) {
-             throw new Error("AI response content was unexpectedly null or undefined.");
-        }
-
-        return parseAndValidateMealContent(responseText);
+        return await aiResponseCache.getOrGenerate(mealSuggestionsPrompt, messages, MEAL_SUGGESTIONS_CACHE_TTL_MS, async () => {
+            const { data, finishReason } = await chatForStructuredOutput(llm, request, personalizedMealContentSchema, { label: 'meal suggestions' });
+            if (finishReason === 'length') { console.warn("AI response may be truncated. Suggestions might be incomplete."); }
+            return data;
+        }, cacheOptions);
 
     } catch (error: unknown) {
-        console.error(`Error during Groq meal personalization fetch/parse:`, error);
-        if (error instanceof Groq.APIError) {
+        console.error(`Error during AI meal personalization fetch/parse:`, error);
+        if (error instanceof LLMProviderError) {
             const status = error.status ?? 'N/A';
             const message = error.message || 'Unknown API error.';
             throw new Error(`Meal personalization service API error (Status: ${status}): ${message}`);
         } else if (error instanceof Error) {
-            // Re-throw validation errors or other specific errors
+            // Re-throw StructuredOutputError (which lists what was wrong with the answer) and other specific errors
             throw error;
         } else {
             throw new Error("An unexpected error occurred while fetching personalized meal content.");
@@ -400,4 +296,5 @@ export const generatePersonalizedMeals = async (
 // --- Service Object Export ---
 export const groqMealService = {
     generatePersonalizedMeals,
+    mealSuggestionsPrompt,
 };
\ No newline at end of file
@@ -1,15 +1,7 @@
 // src/lib/groqMod.ts
 
-import Groq from 'groq-sdk';
-
-// --- SDK Type Imports ---
-import {
-    ChatCompletionCreateParamsNonStreaming,
-    ChatCompletionCreateParamsStreaming,
-    ChatCompletionCreateParamsBase,
-    ChatCompletionMessageParam,
-    ChatCompletion
-} from 'groq-sdk/resources/chat/completions'; // Adjust path if needed
+import { z } from 'zod';
+import { chatForStructuredOutput, getLLMProvider, LLMChatRequest, LLMProviderError, optionalText, StructuredOutputError } from './llm';
 
 // --- Local Type Definitions ---
 
@@ -50,23 +42,6 @@ export interface ModerationOptions {
     contentType?: 'forum_title' | 'forum_post' | 'general_text';
 }
 
-// Local union type for Groq Chat Completion Create parameters
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
-
-// --- Configuration ---
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-// Using 70b model might offer better nuance and reduce false positives compared to 8b
-const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-70b-8192";
-// const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-8b-8192"; // Faster alternative
-
-// --- Initialization Check ---
-if (!API_KEY) {
-    // console.error("CRITICAL ERROR: VITE_PUBLIC_GROQ_API_KEY is missing. Content moderation service will be unavailable.");
-}
-
-// --- Groq Client Initialization ---
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
-
 // --- Moderation Generation Configuration ---
 const moderationGenConfig = {
     temperature: 0.1, // Keep low for consistency
@@ -172,88 +147,40 @@ ${contentToModerate}
 `;
 };
 
-// --- Helper Function: Parse and Validate API Response (No changes needed here) ---
-const parseAndValidateModerationResult = (responseText: string | null | undefined, originalContent: string): ModerationResult => {
-    const defaultErrorResult: ModerationResult = {
-        decision: ModerationDecision.ERROR,
-        reason: "Failed to get a valid response from the moderation service.",
-        flags: [],
-        originalContent: originalContent,
-    };
-
-    if (!responseText?.trim()) {
-        // console.error("Moderation Error: Received empty or null response from Groq.");
-        return { ...defaultErrorResult, reason: "Received empty response from AI." };
-    }
-
-    let cleanedJsonString = responseText.trim();
-    if (cleanedJsonString.startsWith("```json") && cleanedJsonString.endsWith("```")) {
-        cleanedJsonString = cleanedJsonString.substring(7, cleanedJsonString.length - 3).trim();
-    } else if (cleanedJsonString.startsWith("`") && cleanedJsonString.endsWith("`")) {
-         cleanedJsonString = cleanedJsonString.substring(1, cleanedJsonString.length - 1).trim();
-    }
-
-    let parsedData: unknown;
-    try {
-        parsedData = JSON.parse(cleanedJsonString);
-    } catch (parseError: unknown) {
-        // console.error("Moderation Error: Failed to parse AI JSON response:", parseError);
-        // console.error("Received text:", responseText);
-        return { ...defaultErrorResult, reason: `Invalid JSON format received from AI. ${parseError instanceof Error ? `Details: ${parseError.message}` : ''}` };
-    }
-
-    if (typeof parsedData !== 'object' || parsedData === null) {
-        // console.error("Moderation Error: Parsed data is not an object.");
-        return { ...defaultErrorResult, reason: "AI response was not a valid JSON object." };
-    }
-
-    const result = parsedData as Partial<ModerationResult>;
-
-    const decision = result.decision;
-    if (!decision || !Object.values(ModerationDecision).includes(decision as ModerationDecision)) {
-        // console.error(`Moderation Error: Invalid or missing 'decision' field. Received: ${decision}`);
-        return { ...defaultErrorResult, reason: `Invalid decision value received: ${decision}` };
-    }
-
-    const reason = typeof result.reason === 'string' ? result.reason.trim() : undefined;
-    if (decision !== ModerationDecision.ALLOW && !reason) {
-        // console.warn(`Moderation Warning: Decision is ${decision} but 'reason' field is missing or empty.`);
-    }
-
-    let flags: ModerationFlag[] = [];
-    if (!Array.isArray(result.flags)) {
-        if (decision !== ModerationDecision.ALLOW) { /*console.warn(`Moderation Warning: Decision is ${decision} but 'flags' field is missing or not an array.`);*/ }
-        flags = [];
-    } else {
-        flags = result.flags.filter((flag: any): flag is ModerationFlag =>
-            typeof flag === 'string' && Object.values(ModerationFlag).includes(flag as ModerationFlag)
-        );
-        if (flags.length < result.flags.length) { /*console.warn(`Moderation Warning: Filtered out invalid flag values.`);*/ }
-    }
-
-    if (decision === ModerationDecision.ALLOW && flags.length > 0) { /*console.warn(`Moderation Warning: Decision is ALLOW but flags array is not empty. Clearing flags.`);*/ flags = []; }
-    // Allow FLAG decision even without flags/reason, although not ideal
-    // if (decision !== ModerationDecision.ALLOW && flags.length === 0 && !reason) { console.warn(`Moderation Warning: Decision is ${decision} but both flags and reason are missing/empty.`); }
-
-    const validatedResult: ModerationResult = {
-        decision: decision as ModerationDecision,
+// --- Response Schema ---
+
+const MODEL_DECISIONS = [ModerationDecision.ALLOW, ModerationDecision.FLAG, ModerationDecision.DENY] as const;
+const KNOWN_FLAGS = Object.values(ModerationFlag) as string[];
+
+/**
+ * The model's verdict (everything in ModerationResult except `originalContent`). Decisions are matched
+ * case-insensitively; a flag outside ModerationFlag is reported as OTHER, and ALLOW never carries flags.
+ */
+const moderationResultSchema: z.ZodType<Omit<ModerationResult, 'originalContent'>, z.ZodTypeDef, unknown> = z.object({
+    decision: z.preprocess(value => (typeof value === 'string' ? value.trim().toUpperCase() : value), z.enum(MODEL_DECISIONS)),
+    reason: optionalText(),
+    flags: z.array(z.string()).nullish(),
+}).transform(({ decision, reason, flags }) => {
+    const normalisedFlags = decision === ModerationDecision.ALLOW ? [] : Array.from(new Set((flags ?? []).map(flag => {
+        const upper = flag.trim().toUpperCase();
+        return (KNOWN_FLAGS.includes(upper) ? upper : ModerationFlag.OTHER) as ModerationFlag;
+    })));
+    return {
+        decision,
         reason: reason || (decision === ModerationDecision.ALLOW ? "No issues found." : "No specific reason provided."),
-        flags: flags,
-        originalContent: originalContent,
+        flags: normalisedFlags,
     };
-
-    // console.log("Moderation Result:", validatedResult);
-    return validatedResult;
-};
+});
 
 
-// --- Public API Function (No changes needed here) ---
+// --- Public API Function ---
 export const moderateContent = async (
     contentToModerate: string,
     options?: ModerationOptions
 ): Promise<ModerationResult> => {
-    if (!groq) {
-        // console.error("Groq AI client (moderation) is not initialized.");
+    const llm = getLLMProvider('moderation'); // Provider and model are configured in src/lib/llm/index.ts
+    if (!llm.isAvailable) {
+        // console.error("LLM provider (moderation) is not configured.");
         return { decision: ModerationDecision.ERROR, reason: "Moderation service not configured.", flags: [], originalContent: contentToModerate };
     }
 
@@ -263,46 +190,32 @@ export const moderateContent = async (
     }
 
     const prompt = createModerationPrompt(trimmedContent, options);
-    const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
-    const params: ChatCompletionCreateParams = {
-        messages: messages, model: MODEL_NAME, temperature: moderationGenConfig.temperature,
-        max_tokens: moderationGenConfig.max_tokens, top_p: moderationGenConfig.top_p, stream: false,
+    const request: LLMChatRequest = {
+        messages: [{ role: 'user', content: prompt }], temperature: moderationGenConfig.temperature,
+        maxTokens: moderationGenConfig.max_tokens, topP: moderationGenConfig.top_p, json: true,
     };
 
     try {
-        // console.log(`Sending moderation request to Groq model: ${MODEL_NAME}...`);
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-        // console.log("Received moderation response from Groq.");
-        const choice = chatCompletion.choices?.[0];
-        const responseText = choice?.message?.content;
-        const finishReason = choice?.finish_reason;
-        // console.log(`Groq moderation finished. Reason: ${finishReason}. Content received: ${!!responseText}`);
-
-        if (finishReason !== 'stop' && finishReason !== 'length') {
-             if (typeof finishReason === 'string' && finishReason.toLowerCase().includes('filter')) {
-                //  console.warn(`Moderation Blocked by Content Filter: Finish reason: ${finishReason}. Flagging content.`);
-                 return { decision: ModerationDecision.FLAG, reason: "Content potentially blocked by AI safety filters.", flags: [ModerationFlag.OTHER], originalContent: trimmedContent };
-             } else {
-                //  console.error(`Groq Moderation Error: Unexpected finish reason: ${finishReason}`);
-                 return { decision: ModerationDecision.ERROR, reason: `Moderation stopped unexpectedly. Reason: ${finishReason}.`, flags: [], originalContent: trimmedContent };
-             }
-        }
-         if (finishReason === 'length') {
-            //  console.warn("Groq Moderation Warning: Output potentially truncated.");
-         }
-
-        return parseAndValidateModerationResult(responseText, trimmedContent);
+        // console.log(`Sending moderation request to ${llm.kind} model: ${llm.model}...`);
+        const { data } = await chatForStructuredOutput(llm, request, moderationResultSchema, { label: 'moderation result' });
+        return { ...data, originalContent: trimmedContent };
 
     } catch (error: unknown) {
         // console.error('Error during Groq moderation API call:', error);
         let reason = "An unexpected error occurred during content moderation.";
-        if (error instanceof Groq.APIError) {
+        if (error instanceof StructuredOutputError) {
+            if (error.failure === 'filtered') {
+                //  console.warn(`Moderation Blocked by Content Filter: Finish reason: ${error.finishReason}. Flagging content.`);
+                return { decision: ModerationDecision.FLAG, reason: "Content potentially blocked by AI safety filters.", flags: [ModerationFlag.OTHER], originalContent: trimmedContent };
+            }
+            reason = error.failure === 'stopped' ? `Moderation stopped unexpectedly. Reason: ${error.finishReason}.` : error.message;
+        } else if (error instanceof LLMProviderError) {
             const status = error.status ?? 'N/A'; const errMessage = error.message ?? 'No message provided.';
             reason = `API Error (${status}): ${errMessage}.`;
             if (status === 401 || status === 403) reason += " Check API key.";
             if (status === 429) reason = "Moderation service busy (rate limit). Please try again shortly.";
             if (status === 400) reason = `API Bad Request (400): ${errMessage}. Check model/input.`;
-            if (status >= 500) reason = `API Server Error (${status}). Please try again later.`;
+            if (typeof status === 'number' && status >= 500) reason = `API Server Error (${status}). Please try again later.`;
         } else if (error instanceof Error) { reason = `Moderation failed: ${error.message}`; }
         return { decision: ModerationDecision.ERROR, reason: reason, flags: [], originalContent: trimmedContent };
     }
@@ -1,18 +1,15 @@
 // src/lib/groqProduct.ts
 
-import Groq from 'groq-sdk';
-
-// --- SDK Type Imports ---
+// --- LLM Provider ---
+import { z } from 'zod';
 import {
-    ChatCompletionCreateParamsNonStreaming,
-    ChatCompletionCreateParamsStreaming,
-    ChatCompletionCreateParamsBase,
-    ChatCompletionMessageParam,
-    ChatCompletion
-} from 'groq-sdk/resources/chat/completions';
+    aiResponseCache, CachedRequestOptions, chatForStructuredOutput, definePrompt, getLLMProvider, LLMChatRequest, LLMMessage,
+    LLMProviderError, optionalText, PromptDefinition, requiredText,
+} from './llm';
 
 // --- Appwrite Type Imports ---
 import { UserProfile } from '../../momcare-backend/src/lib/appwrite'; // Adjust path if necessary
+import { formatPregnancyStageForContext } from './pregnancyTimeline';
 
 // --- Local Type Definitions ---
 
@@ -34,19 +31,9 @@ export interface ProductRecommendation {
   reasoning?: string; // Optional field for AI explanation
 }
 
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
-
 // --- Configuration ---
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-const COMPLEX_MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-70b-8192"; // For personalized/prompt-based
-const SIMPLER_MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-8b-8192";  // For general
-
-if (!API_KEY) {
-    // console.error("CRITICAL ERROR: VITE_PUBLIC_GROQ_API_KEY missing.");
-    // In a real app, you might want to throw an error or disable features relying on this.
-}
-
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
+// Personalized and prompt-based requests use the 'products' feature; general ones use 'productsGeneral',
+// which defaults to a smaller model. Both are configured in src/lib/llm/index.ts.
 
 const generationConfig = {
     temperature: 0.5,
@@ -89,14 +76,14 @@ Provide the response STRICTLY as a valid JSON array string. Each object must hav
  * @returns The prompt string.
  */
 const createPersonalizedPrompt = (profile: UserProfile, categoryFocus?: ProductCategory | string): string => {
-    const weeks = profile.weeksPregnant ?? 'unknown';
+    const stage = formatPregnancyStageForContext(profile);
     const activity = profile.activityLevel ?? 'unspecified';
     const conditions = profile.preExistingConditions?.trim() || 'none specified';
     const deliveryPref = profile.deliveryPreference ?? 'undecided';
     const diet = profile.dietaryPreferences?.join(', ') || 'none specified';
 
     let context = `User Profile Context:\n`;
-    context += `- Pregnancy Stage: Approximately ${weeks} weeks\n`;
+    context += `- Pregnancy Stage: ${stage}\n`;
     context += `- Activity Level: ${activity}\n`;
     context += `- Pre-existing Conditions: ${conditions}\n`;
     context += `- Delivery Preference: ${deliveryPref}\n`;
@@ -160,136 +147,102 @@ ${BASE_JSON_INSTRUCTIONS}
 };
 
 
-// --- Helper Function: Parse and Validate JSON ---
+// --- Prompt Definitions ---
+// Cached recommendations are keyed on these versions, so bump one whenever its prompt text changes
+
+export const personalizedProductsPrompt = definePrompt({
+    id: 'personalizedProducts',
+    version: 1,
+    feature: 'products',
+    description: "Up to 25 products for the user's pregnancy context, as a JSON array with reasoning.",
+    messages: ({ profile, categoryFocus }: { profile: UserProfile; categoryFocus?: ProductCategory | string }): LLMMessage[] => [
+        { role: 'user', content: createPersonalizedPrompt(profile, categoryFocus) },
+    ],
+});
+
+export const generalProductsPrompt = definePrompt({
+    id: 'generalProducts',
+    version: 1,
+    feature: 'productsGeneral',
+    description: "Up to 25 generally useful pregnancy products, as a JSON array.",
+    messages: ({ categoryFocus }: { categoryFocus?: ProductCategory | string }): LLMMessage[] => [
+        { role: 'user', content: createGeneralPrompt(categoryFocus) },
+    ],
+});
+
+export const promptBasedProductsPrompt = definePrompt({
+    id: 'promptBasedProducts',
+    version: 1,
+    feature: 'products',
+    description: "Up to 25 products answering the user's own request, as a JSON array with reasoning.",
+    messages: ({ userPrompt, categoryFocus }: { userPrompt: string; categoryFocus?: ProductCategory | string }): LLMMessage[] => [
+        { role: 'user', content: createPromptBasedPrompt(userPrompt, categoryFocus) },
+    ],
+});
+
+/** Recommendations for the same context and focus are reused this long unless the user refreshes them. */
+const PRODUCT_RECOMMENDATIONS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+
+// --- Response Schema ---
+
 /**
- * Parses the AI response string and validates the structure.
- * @param responseText - The raw text response from the AI.
- * @param context - String indicating the type of request for logging.
- * @returns An array of validated ProductRecommendation objects.
- * @throws An error if parsing or validation fails.
+ * One recommendation as the model returns it (IDs are assigned per request). A category outside
+ * VALID_PRODUCT_CATEGORIES is kept as written; keywords sent as a list are joined.
  */
-const parseAndValidateRecommendations = (responseText: string, context: string): ProductRecommendation[] => {
-    let cleanedJsonString = responseText.trim();
-    const jsonStartIndex = cleanedJsonString.indexOf('[');
-    const jsonEndIndex = cleanedJsonString.lastIndexOf(']');
-
-    if (jsonStartIndex === -1 || jsonEndIndex === -1 || jsonEndIndex < jsonStartIndex) {
-        // console.error(`[${context}] Could not find valid JSON array structure in response:`, responseText);
-        throw new Error(`AI response for ${context} recommendations did not contain a recognizable JSON array.`);
-    }
-    cleanedJsonString = cleanedJsonString.substring(jsonStartIndex, jsonEndIndex + 1);
-
-    try {
-        const parsedData: unknown = JSON.parse(cleanedJsonString);
-        if (!Array.isArray(parsedData)) {
-            // console.error(`[${context}] Parsed Groq response is not an array:`, parsedData);
-            throw new Error(`AI response for ${context} recommendations was not in the expected JSON array format after cleaning.`);
-        }
-
-        const validatedRecommendations: ProductRecommendation[] = parsedData
-            .map((item: unknown, index: number): ProductRecommendation | null => {
-                if (typeof item !== 'object' || item === null) {
-                    // console.warn(`[${context}] Recommendation item ${index} is not an object:`, item);
-                    return null;
-                }
-                const record = item as Record<string, unknown>;
-                const name = record.name;
-                const description = record.description;
-                if (typeof name !== 'string' || !name.trim()) {
-                    // console.warn(`[${context}] Item ${index} missing or invalid 'name':`, item); 
-                    return null;
-                }
-                if (typeof description !== 'string' || !description.trim()) {
-                    // console.warn(`[${context}] Item ${index} missing or invalid 'description':`, item); 
-                    return null;
-                }
-
-                // Handle optional fields safely
-                const category = record.category;
-                const searchKeywords = record.searchKeywords;
-                const reasoning = record.reasoning; // Extract optional reasoning
-
-                const finalCategory = (typeof category === 'string' && category.trim()) ? category.trim() : undefined;
-                const finalKeywords = (typeof searchKeywords === 'string' && searchKeywords.trim()) ? searchKeywords.trim() : undefined;
-                const finalReasoning = (typeof reasoning === 'string' && reasoning.trim()) ? reasoning.trim() : undefined; // Validate reasoning
-
-                if (finalCategory && !VALID_PRODUCT_CATEGORIES.includes(finalCategory as ProductCategory)) {
-                    //  console.warn(`[${context}] Item ${index} has unexpected category '${finalCategory}':`, item);
-                }
-
-                return {
-                    id: `${context.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}-${index}`,
-                    name: name.trim(),
-                    description: description.trim(),
-                    category: finalCategory,
-                    searchKeywords: finalKeywords,
-                    reasoning: finalReasoning, // Add validated reasoning
-                };
-            })
-            .filter((item): item is ProductRecommendation => item !== null);
-
-        if (validatedRecommendations.length === 0 && parsedData.length > 0) {
-            throw new Error(`AI response items for ${context} recommendations lacked required fields or had invalid types.`);
-        }
-        // console.log(`Successfully parsed ${validatedRecommendations.length} valid ${context} recommendations.`);
-        return validatedRecommendations;
-
-    } catch (parseError: unknown) {
-        // console.error(`Failed to parse ${context} Groq JSON response:`, parseError);
-        // console.error(`Cleaned ${context} JSON string attempt:`, cleanedJsonString);
-        // console.error(`Original ${context} response text received:`, responseText);
-        throw new Error(`Failed to parse AI recommendations (${context}). ${parseError instanceof Error ? `Error: ${parseError.message}` : 'Invalid format received.'}`);
-    }
-};
+const productRecommendationSchema = z.object({
+    name: requiredText(),
+    description: requiredText(),
+    category: optionalText().transform(category =>
+        VALID_PRODUCT_CATEGORIES.find(valid => valid.toLowerCase() === category?.toLowerCase()) ?? category),
+    searchKeywords: z.preprocess(
+        keywords => (Array.isArray(keywords) ? keywords.filter(k => typeof k === 'string').join(', ') : keywords),
+        optionalText(),
+    ),
+    reasoning: optionalText(),
+});
+
+/** The whole answer: a JSON array of recommendations. */
+const productRecommendationsSchema = z.array(productRecommendationSchema);
 
 
 // --- Private Helper: Core Fetch Logic ---
 /**
- * Internal function to handle the actual API call and parsing.
+ * Internal function to handle the actual API call and parsing. Results are cached per prompt version and input
+ * (see aiResponseCache) unless `cacheOptions.refresh` is set.
  */
-const _fetchAndParseGroqRecommendations = async (
-    prompt: string,
-    modelName: string,
-    contextLabel: string
+const _fetchAndParseRecommendations = async <Input>(
+    prompt: PromptDefinition<Input>,
+    input: Input,
+    contextLabel: string,
+    cacheOptions: CachedRequestOptions = {}
 ): Promise<ProductRecommendation[]> => {
-     if (!groq) {
+    const llm = getLLMProvider(prompt.feature);
+    if (!llm.isAvailable) {
         throw new Error(`Product recommendation service (${contextLabel}) is not available. Check API Key.`);
     }
-    const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
-    const params: ChatCompletionCreateParams = {
-        messages: messages,
-        model: modelName,
+    const messages = prompt.messages(input);
+    const request: LLMChatRequest = {
+        messages,
         temperature: generationConfig.temperature,
-        max_tokens: generationConfig.max_tokens,
-        top_p: generationConfig.top_p,
-        stream: false,
-        // response_format: { type: "json_object" }, // Keep commented unless support confirmed
+        maxTokens: generationConfig.max_tokens,
+        topP: generationConfig.top_p,
+        // No JSON mode: it only allows an object, and the prompts ask for an array
     };
 
      try {
-        // console.log(`Sending ${contextLabel} recommendation request to Groq model: ${modelName}...`);
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-        // console.log(`Received ${contextLabel} recommendation response.`);
-        const choice = chatCompletion.choices?.[0];
-        const responseText = choice?.message?.content;
-        const finishReason = choice?.finish_reason;
-        // console.log(`Groq ${contextLabel} recommendations finished. Reason: ${finishReason}.`);
-
-        if (finishReason !== 'stop' && finishReason !== 'length') {
-             if (typeof finishReason === 'string' && finishReason.toLowerCase().includes('filter')) {
-                 throw new Error(`AI generation blocked (${contextLabel}) due to content filtering (${finishReason}).`);
-             }
-            throw new Error(`AI generation stopped unexpectedly (${contextLabel}, ${finishReason}).`);
-        }
-        if (!responseText) {
-            throw new Error(`AI returned empty content for ${contextLabel} recommendations.`);
-        }
-        // Use the updated helper function for parsing and validation
-        return parseAndValidateRecommendations(responseText, contextLabel);
+        return await aiResponseCache.getOrGenerate(prompt, messages, PRODUCT_RECOMMENDATIONS_CACHE_TTL_MS, async () => {
+            // console.log(`Sending ${contextLabel} recommendation request to ${llm.kind} model: ${llm.model}...`);
+            const { data } = await chatForStructuredOutput(llm, request, productRecommendationsSchema, {
+                label: `${contextLabel} product recommendations`, shape: 'array',
+            });
+            const idPrefix = `${contextLabel.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`;
+            return data.map((item, index) => ({ id: `${idPrefix}-${index}`, ...item }) as ProductRecommendation);
+        }, cacheOptions);
 
     } catch (error: unknown) {
         // console.error(`Error during ${contextLabel} Groq fetch/parse:`, error);
-        if (error instanceof Groq.APIError) {
+        if (error instanceof LLMProviderError) {
             if (error.status === 429) {
                  throw new Error(`Product recommendation service (${contextLabel}) is temporarily unavailable due to rate limits (Code: ${error.status}). Please try again shortly.`);
             }
@@ -309,41 +262,42 @@ const _fetchAndParseGroqRecommendations = async (
 
 /**
  * Fetches PERSONALIZED product recommendations based on user profile.
+ * Pass `{ refresh: true }` to generate new ones instead of reusing cached recommendations.
  */
 export const getPersonalizedRecommendations = async (
     profile: UserProfile, // Changed to non-null, as personalization requires a profile
-    categoryFocus?: ProductCategory | string
+    categoryFocus?: ProductCategory | string,
+    cacheOptions: CachedRequestOptions = {}
 ): Promise<ProductRecommendation[]> => {
     // Add a check if needed, although TypeScript enforces it now
     if (!profile) {
         throw new Error("User profile is required for personalized recommendations.");
     }
-    const prompt = createPersonalizedPrompt(profile, categoryFocus);
-    return _fetchAndParseGroqRecommendations(prompt, COMPLEX_MODEL_NAME, 'personalized');
+    return _fetchAndParseRecommendations(personalizedProductsPrompt, { profile, categoryFocus }, 'personalized', cacheOptions);
 };
 
 /**
- * Fetches GENERAL product recommendations (not profile-specific).
+ * Fetches GENERAL product recommendations (not profile-specific). Cached like personalized ones.
  */
 export const getGeneralRecommendations = async (
-    categoryFocus?: ProductCategory | string
+    categoryFocus?: ProductCategory | string,
+    cacheOptions: CachedRequestOptions = {}
 ): Promise<ProductRecommendation[]> => {
-    const prompt = createGeneralPrompt(categoryFocus);
-    return _fetchAndParseGroqRecommendations(prompt, SIMPLER_MODEL_NAME, 'general');
+    return _fetchAndParseRecommendations(generalProductsPrompt, { categoryFocus }, 'general', cacheOptions);
 };
 
 /**
- * Fetches product recommendations based on a specific USER PROMPT.
+ * Fetches product recommendations based on a specific USER PROMPT. Cached like personalized ones.
  */
 export const getPromptBasedRecommendations = async (
     userPrompt: string,
-    categoryFocus?: ProductCategory | string
+    categoryFocus?: ProductCategory | string,
+    cacheOptions: CachedRequestOptions = {}
 ): Promise<ProductRecommendation[]> => {
      if (!userPrompt?.trim()) {
         throw new Error("User prompt cannot be empty for recommendations.");
     }
-    const prompt = createPromptBasedPrompt(userPrompt.trim(), categoryFocus);
-    return _fetchAndParseGroqRecommendations(prompt, COMPLEX_MODEL_NAME, 'prompt-based');
+    return _fetchAndParseRecommendations(promptBasedProductsPrompt, { userPrompt: userPrompt.trim(), categoryFocus }, 'prompt-based', cacheOptions);
 };
 
 
@@ -352,4 +306,7 @@ export const groqProductService = {
     getPersonalizedRecommendations,
     getGeneralRecommendations,
     getPromptBasedRecommendations,
+    personalizedProductsPrompt,
+    generalProductsPrompt,
+    promptBasedProductsPrompt,
 };
\ No newline at end of file
@@ -1,31 +1,8 @@
 // src/lib/groqSym.ts
 
 import { UserProfile } from "./appwrite"; // Import UserProfile type
-
-// --- Helper Function: Get Trimester Info ---
-/**
- * Calculates the trimester based on the week of pregnancy.
- * @param weeks - The number of weeks pregnant (can be number, string, undefined, or null).
- * @returns A string describing the trimester or stage.
- */
-const getTrimesterInfo = (weeks: number | string | undefined | null): string => {
-    // Attempt to parse the input into a number
-    const numWeeks = parseInt(String(weeks), 10);
-
-    // Handle invalid or non-positive week numbers
-    if (isNaN(numWeeks) || numWeeks < 1) {
-        return "Pregnancy stage unknown";
-    }
-
-    // Determine trimester based on standard ranges
-    if (numWeeks <= 13) return "First trimester";
-    if (numWeeks <= 27) return "Second trimester";
-    // Allow slightly beyond 40 weeks for post-term calculation
-    if (numWeeks <= 42) return "Third trimester";
-
-    // Handle cases significantly beyond the typical range
-    return "Post-term or invalid weeks";
-};
+import { formatPregnancyStageForContext } from "./pregnancyTimeline";
+import { definePrompt } from "./llm";
 
 // --- Helper: Format ALL profile details for context ---
 /**
@@ -61,15 +38,9 @@ const formatProfileContext = (profile: UserProfile | null): string => {
     context += `- ${formatOptional(profile.age, 'Age')}\n`;
     context += `- ${formatOptional(profile.gender, 'Gender')}\n`;
 
-    // Special handling for weeksPregnant to include trimester info
-    const weeks = profile.weeksPregnant;
-    if (weeks !== undefined && weeks !== null && weeks >= 0) {
-        // Display week and calculated trimester
-        context += `- Weeks Pregnant: ${weeks} (${getTrimesterInfo(weeks)})\n`;
-    } else {
-        // Indicate if weeks pregnant is not available
-        context += `- Weeks Pregnant: N/A\n`;
-    }
+    // Pregnancy stage is computed from the due date / last period, so it stays current
+    const stage = formatPregnancyStageForContext(profile);
+    context += `- Pregnancy Stage: ${stage === 'Unknown' ? 'N/A' : stage}\n`;
 
     // Include other relevant profile fields
     context += `- ${formatOptional(profile.preExistingConditions, 'Pre-existing Conditions')}\n`;
@@ -138,10 +109,30 @@ You are MomCare AI, an informational assistant. Your role for this specific requ
     return `${personaAndRules}\n\n${profileContext}\n${symptomsSection}\n\n[AI Response - General Information & Disclaimer Only Following Rules Above]:`;
 };
 
+// --- Prompt Definition ---
+
+export interface SymptomCheckerPromptInput {
+    symptoms: string;
+    profile: UserProfile | null;
+}
+
+/**
+ * The symptom checker request: the prompt above as the only (system) message. Registered for the prompt
+ * evaluation harness (src/lib/evals); bump the version whenever the prompt text changes.
+ */
+export const symptomCheckerPrompt = definePrompt({
+    id: 'symptomChecker',
+    version: 1,
+    feature: 'chat',
+    description: "General information about reported symptoms, ending in the mandatory disclaimer or the emergency instruction.",
+    messages: ({ symptoms, profile }: SymptomCheckerPromptInput) => [{ role: 'system', content: createSymptomCheckerPrompt(symptoms, profile) }],
+});
+
 // --- Service Object Export ---
 // Encapsulates the symptom-checker-specific Groq logic for cleaner imports elsewhere.
 export const groqSymptomService = {
     createSymptomCheckerPrompt,
+    symptomCheckerPrompt,
     // NOTE: The actual API call (`groqService.sendMessage`) remains in `groq.ts`
     // This service only provides the specialized prompt generation logic.
 };
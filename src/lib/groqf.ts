@@ -1,40 +1,9 @@
 // src/lib/groqf.ts
 
-import Groq from 'groq-sdk';
-// Import necessary types from the SDK
-import {
-    ChatCompletionCreateParamsNonStreaming,
-    ChatCompletionCreateParamsStreaming,
-    ChatCompletionCreateParamsBase,
-    ChatCompletionMessageParam,
-    ChatCompletion
-} from 'groq-sdk/resources/chat/completions';
-
-// Define a local union type for ChatCompletionCreateParams for convenience
-type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming;
+import { getLLMProvider, LLMChatRequest, LLMProviderError } from './llm';
 
 // --- Configuration ---
-// Retrieve the Groq API key from environment variables
-const API_KEY: string | undefined = import.meta.env.VITE_PUBLIC_GROQ_API_KEY;
-
-// --- Model Selection ---
-// Consider using a more capable model like Llama 3 70b for potentially better instruction following and formatting nuance.
-// Keep 8b as a faster/cheaper option if needed.
-const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-70b-8192"; // Recommended for better formatting
-// const MODEL_NAME: ChatCompletionCreateParamsBase['model'] = "llama3-8b-8192"; // Faster/cheaper alternative
-
-// Check if the API key is configured
-if (!API_KEY) {
-    // console.error("CRITICAL: VITE_PUBLIC_GROQ_API_KEY environment variable is not set. Groq formatting service will be unavailable.");
-    // Depending on application requirements, you might throw an error here to halt execution
-    // or allow the application to continue with degraded functionality.
-    // throw new Error("Groq API Key is missing. Formatting feature disabled.");
-}
-
-// --- Initialization ---
-// Initialize the Groq client only if the API key is available.
-// dangerouslyAllowBrowser: true is necessary for client-side usage but ensure security implications are understood.
-const groq: Groq | null = API_KEY ? new Groq({ apiKey: API_KEY, dangerouslyAllowBrowser: true }) : null;
+// Provider and model are configured for the 'formatting' feature in src/lib/llm/index.ts.
 
 // Standard generation configuration for the model.
 // Lower temperature promotes consistency and predictability in formatting tasks.
@@ -128,10 +97,11 @@ Formatted Markdown Output:
  */
 export const formatContentWithGroq = async (rawText: string): Promise<string> => {
     // 1. Check Initialization and Input
-    if (!groq) {
-        // console.error("Groq AI client is not initialized. Formatting unavailable.");
+    const llm = getLLMProvider('formatting');
+    if (!llm.isAvailable) {
+        // console.error("AI provider is not configured. Formatting unavailable.");
         // Throwing an error here is appropriate as the function cannot proceed.
-        throw new Error("Groq AI client is not initialized. Check API Key.");
+        throw new Error("AI formatting provider is not configured. Check API Key.");
     }
     // Use optional chaining and trim for robust input checking
     const trimmedInput = rawText?.trim();
@@ -143,35 +113,22 @@ export const formatContentWithGroq = async (rawText: string): Promise<string> =>
 
     // 2. Prepare Prompt and API Request
     const prompt = createFormattingPrompt(trimmedInput);
-    const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
-
-    const params: ChatCompletionCreateParams = {
-        messages: messages,
-        model: MODEL_NAME,
+    const request: LLMChatRequest = {
+        messages: [{ role: 'user', content: prompt }],
         temperature: generationConfig.temperature,
-        max_tokens: generationConfig.max_tokens,
-        top_p: generationConfig.top_p,
-        stream: false, // Formatting is typically a non-streaming task
+        maxTokens: generationConfig.max_tokens,
+        topP: generationConfig.top_p,
         // 'stop' sequences are usually not needed if max_tokens is sufficient and prompt is clear
     };
 
     // 3. Execute API Call and Handle Response
     try {
-        // console.log(`Sending formatting request to Groq model: ${MODEL_NAME}...`);
-        const chatCompletion: ChatCompletion = await groq.chat.completions.create(params);
-        // console.log("Received formatting response from Groq.");
-
-        // Validate the response structure
-        const choice = chatCompletion.choices?.[0]; // Use optional chaining
-
-        if (!choice) {
-            // console.error("Groq Formatting Error: No choices array or first choice missing in the response.", chatCompletion);
-            throw new Error("AI formatter returned an invalid response structure (no choices).");
-        }
+        // console.log(`Sending formatting request to ${llm.kind} model: ${llm.model}...`);
+        const choice = await llm.chat(request);
+        // console.log("Received formatting response.");
 
-        const finishReason = choice.finish_reason;
-        // Use optional chaining for message and content access
-        const formattedText = choice.message?.content;
+        const finishReason = choice.finishReason;
+        const formattedText = choice.content;
 
         // console.log(`Groq formatting finished. Reason: ${finishReason}. Content received: ${formattedText !== null && formattedText !== undefined}`);
 
@@ -226,8 +183,8 @@ export const formatContentWithGroq = async (rawText: string): Promise<string> =>
         // console.error('Error during Groq formatting API call:', error);
 
         // Type checking for specific error types
-        if (error instanceof Groq.APIError) {
-            // Handle specific Groq API errors more granularly
+        if (error instanceof LLMProviderError) {
+            // Handle specific API errors more granularly
             const status = error.status ?? 'N/A'; // Use nullish coalescing for potentially undefined status
             const errName = error.name ?? 'Unknown API Error';
             const errMessage = error.message ?? 'No message provided.';
@@ -240,7 +197,7 @@ export const formatContentWithGroq = async (rawText: string): Promise<string> =>
                 throw new Error('Groq Formatting Failed: API Rate Limit Reached. Please try again later.');
             } else if (status === 400) {
                 throw new Error(`Groq Formatting Failed: Bad Request (400). Check model name or input data. Details: ${errMessage}`);
-            } else if (status >= 500) {
+            } else if (typeof status === 'number' && status >= 500) {
                 throw new Error(`Groq Formatting Failed: Server Error (${status}) on Groq's end. Please try again later.`);
             }
             // General API error catch-all
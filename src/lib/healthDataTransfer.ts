@@ -0,0 +1,365 @@
+// src/lib/healthDataTransfer.ts
+// CSV/JSON import and export for manual health readings (blood pressure, blood sugar, weight).
+import { format, isValid, parse } from 'date-fns';
+import type {
+    BloodPressureReading, BloodSugarReading, WeightReading,
+    CreateBPData, CreateSugarData, CreateWeightData, ReadingDateRange,
+} from './appwrite';
+import { GlucoseUnit, glucoseForStorage } from './units';
+
+export type TransferReadingType = 'bp' | 'sugar' | 'weight';
+
+export const transferReadingTypeLabels: Record<TransferReadingType, string> = {
+    bp: 'Blood Pressure',
+    sugar: 'Blood Sugar',
+    weight: 'Weight',
+};
+
+// --- CSV Primitives ---
+
+/**
+ * Parses CSV text (RFC 4180 quoting, CRLF or LF line endings, optional BOM). Blank lines are dropped.
+ * Semicolon-separated files, as saved by spreadsheets in decimal-comma locales, are detected from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+    const firstLine = input.split(/\r?\n/, 1)[0];
+    const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            rows.push(row); row = [];
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+    return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(cell => cell !== ''));
+};
+
+const escapeCsvCell = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+    rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// --- Column Mapping ---
+
+export type ImportField =
+    | 'recordedAt' | 'time' | 'type'
+    | 'systolic' | 'diastolic'
+    | 'level' | 'measurementType' | 'sugarUnit'
+    | 'weight' | 'weightUnit';
+
+export interface ImportFieldDefinition {
+    field: ImportField;
+    label: string;
+    required: boolean;
+    /** Lower-cased header fragments used to guess the column */
+    aliases: string[];
+}
+
+const dateField: ImportFieldDefinition = { field: 'recordedAt', label: 'Date / time', required: true, aliases: ['recordedat', 'date', 'datetime', 'timestamp', 'measured', 'taken'] };
+const timeField: ImportFieldDefinition = { field: 'time', label: 'Time (if separate)', required: false, aliases: ['time'] };
+const typeField: ImportFieldDefinition = { field: 'type', label: 'Reading type column', required: false, aliases: ['type'] };
+
+/** Fields each reading type can map, in display order. */
+export const importFieldDefinitions: Record<TransferReadingType, ImportFieldDefinition[]> = {
+    bp: [
+        dateField, timeField,
+        { field: 'systolic', label: 'Systolic (mmHg)', required: true, aliases: ['systolic', 'sys', 'sbp', 'upper'] },
+        { field: 'diastolic', label: 'Diastolic (mmHg)', required: true, aliases: ['diastolic', 'dia', 'dbp', 'lower'] },
+        typeField,
+    ],
+    sugar: [
+        dateField, timeField,
+        { field: 'level', label: 'Glucose level', required: true, aliases: ['level', 'glucose', 'sugar', 'bg', 'value', 'reading', 'result'] },
+        { field: 'measurementType', label: 'Measurement (fasting/after meal)', required: false, aliases: ['measurementtype', 'meal', 'tag', 'context', 'when'] },
+        { field: 'sugarUnit', label: 'Unit (mg/dL or mmol/L)', required: false, aliases: ['unit', 'units'] },
+        typeField,
+    ],
+    weight: [
+        dateField, timeField,
+        { field: 'weight', label: 'Weight', required: true, aliases: ['weight', 'mass', 'kg', 'lbs', 'value'] },
+        { field: 'weightUnit', label: 'Unit (kg or lbs)', required: false, aliases: ['unit', 'units'] },
+        typeField,
+    ],
+};
+
+/** Column index per field; fields without a column are omitted. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/** Guesses which column holds each field from the header row. Exact matches win over partial ones. */
+export const guessColumnMapping = (type: TransferReadingType, headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const mapping: ColumnMapping = {};
+    const used = new Set<number>();
+    for (const def of importFieldDefinitions[type]) {
+        let index = normalized.findIndex((h, i) => !used.has(i) && def.aliases.includes(h));
+        if (index === -1 && def.field !== 'time' && def.field !== 'type') {
+            index = normalized.findIndex((h, i) => !used.has(i) && def.aliases.some(alias => alias.length > 2 && h.includes(alias)));
+        }
+        if (index !== -1) { mapping[def.field] = index; used.add(index); }
+    }
+    return mapping;
+};
+
+/** Picks the most likely reading type for a file from its headers (defaults to blood pressure). */
+export const guessReadingType = (headers: string[]): TransferReadingType => {
+    const text = headers.map(normalizeHeader).join(' ');
+    if (/systolic|diastolic|sys|dia/.test(text)) return 'bp';
+    if (/glucose|sugar|mmol|mgdl/.test(text)) return 'sugar';
+    if (/weight|lbs/.test(text)) return 'weight';
+    return 'bp';
+};
+
+export const getMissingRequiredFields = (type: TransferReadingType, mapping: ColumnMapping): ImportFieldDefinition[] =>
+    importFieldDefinitions[type].filter(def => def.required && mapping[def.field] === undefined);
+
+// --- Value Parsing ---
+
+/** How to read ambiguous slash dates such as 03/04/2024. */
+export type DateOrder = 'mdy' | 'dmy';
+
+const dateFormats: Record<DateOrder, string[]> = {
+    mdy: ['M/d/yyyy H:mm', 'M/d/yyyy H:mm:ss', 'M/d/yyyy h:mm a', 'M/d/yyyy h:mm:ss a', 'M/d/yyyy', 'M/d/yy H:mm', 'M/d/yy'],
+    dmy: ['d/M/yyyy H:mm', 'd/M/yyyy H:mm:ss', 'd/M/yyyy h:mm a', 'd/M/yyyy h:mm:ss a', 'd/M/yyyy', 'd/M/yy H:mm', 'd/M/yy'],
+};
+const unambiguousFormats = [
+    'yyyy-MM-dd H:mm', 'yyyy-MM-dd H:mm:ss', 'yyyy-MM-dd h:mm a', 'yyyy-MM-dd',
+    'yyyy/MM/dd H:mm', 'yyyy/MM/dd', 'd.M.yyyy H:mm', 'd.M.yyyy',
+    'MMM d, yyyy H:mm', 'MMM d, yyyy h:mm a', 'MMM d, yyyy', 'd MMM yyyy H:mm', 'd MMM yyyy',
+];
+
+/** Parses a spreadsheet date (plus an optional separate time cell). Returns null when unreadable. */
+export const parseImportDate = (dateValue: string, timeValue: string | undefined, dateOrder: DateOrder): Date | null => {
+    const value = [dateValue, timeValue].filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+    if (!value) return null;
+    // ISO strings (including our own exports) carry their own timezone
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        const iso = new Date(value);
+        return isValid(iso) ? iso : null;
+    }
+    for (const fmt of [...unambiguousFormats, ...dateFormats[dateOrder]]) {
+        const parsed = parse(value, fmt, new Date());
+        if (isValid(parsed)) return parsed;
+    }
+    return null;
+};
+
+const parseNumber = (value: string | undefined): number => {
+    if (value === undefined || value.trim() === '') return NaN;
+    // Accept decimal commas ("5,4") from European spreadsheets
+    return Number(value.trim().replace(/\s/g, '').replace(/^(\d+),(\d+)$/, '$1.$2'));
+};
+
+const normalizeMeasurementType = (value: string | undefined): BloodSugarReading['measurementType'] => {
+    const text = (value || '').toLowerCase();
+    if (/fast|before breakfast|wake|morning/.test(text)) return 'fasting';
+    if (/before|pre/.test(text)) return 'random';
+    if (/post|after|pp|meal/.test(text)) return 'post_meal';
+    return 'random';
+};
+
+const normalizeWeightUnit = (value: string | undefined, header: string): WeightReading['unit'] | null => {
+    const text = (value || header).toLowerCase();
+    if (/lb|pound/.test(text)) return 'lbs';
+    if (/kg|kilo/.test(text) || !value) return 'kg';
+    return null;
+};
+
+/** Matches the `type` column of a combined export ("Blood Pressure", "bp", ...) to a reading type. */
+const matchesReadingType = (value: string, type: TransferReadingType): boolean => {
+    const text = normalizeHeader(value);
+    if (!text) return true;
+    return text === type || text === normalizeHeader(transferReadingTypeLabels[type]);
+};
+
+// --- Import Preview ---
+
+export type ImportReadingData = CreateBPData | CreateSugarData | CreateWeightData;
+
+export interface ImportPreviewRow {
+    /** 1-based row number in the file, counting the header (blank lines are not counted) */
+    rowNumber: number;
+    cells: string[];
+    data: ImportReadingData | null;
+    recordedAt: string | null;
+    /** Why the row can't be imported; null when valid */
+    error: string | null;
+    /** A reading already exists at the same minute (or an earlier row in the file has it) */
+    duplicate: boolean;
+    /** Row belongs to another reading type in a combined export and is ignored */
+    skipped: boolean;
+}
+
+export interface ImportPreviewOptions {
+    dateOrder: DateOrder;
+    /** `recordedAt` of readings already saved, for duplicate detection */
+    existingRecordedAt: string[];
+    /** Glucose unit assumed when neither a unit column nor the level header names one (the user's preferred unit) */
+    defaultGlucoseUnit?: GlucoseUnit;
+    now?: Date;
+}
+
+/** Readings are compared at minute precision, the precision of manual entry. */
+export const toDuplicateKey = (recordedAt: string | Date): string => {
+    const date = typeof recordedAt === 'string' ? new Date(recordedAt) : recordedAt;
+    return isValid(date) ? format(date, 'yyyy-MM-dd HH:mm') : '';
+};
+
+/** Allowed clock drift, matching the API's future-time check. */
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+/** Validates and converts data rows (header excluded) for the preview step. Nothing is saved here. */
+export const buildImportPreview = (
+    type: TransferReadingType,
+    headers: string[],
+    rows: string[][],
+    mapping: ColumnMapping,
+    options: ImportPreviewOptions,
+): ImportPreviewRow[] => {
+    const now = options.now ?? new Date();
+    const seen = new Set(options.existingRecordedAt.map(toDuplicateKey));
+    const cell = (cells: string[], field: ImportField): string | undefined => {
+        const index = mapping[field];
+        return index === undefined ? undefined : cells[index];
+    };
+
+    return rows.map((cells, i) => {
+        const row: ImportPreviewRow = { rowNumber: i + 2, cells, data: null, recordedAt: null, error: null, duplicate: false, skipped: false };
+        const typeValue = cell(cells, 'type');
+        if (typeValue !== undefined && !matchesReadingType(typeValue, type)) { row.skipped = true; return row; }
+
+        const date = parseImportDate(cell(cells, 'recordedAt') ?? '', cell(cells, 'time'), options.dateOrder);
+        if (!date) { row.error = 'Unreadable date/time'; return row; }
+        if (date.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) { row.error = 'Date is in the future'; return row; }
+        const recordedAt = date.toISOString();
+        row.recordedAt = recordedAt;
+
+        if (type === 'bp') {
+            const systolic = parseNumber(cell(cells, 'systolic'));
+            const diastolic = parseNumber(cell(cells, 'diastolic'));
+            if (!Number.isInteger(systolic) || !Number.isInteger(diastolic) || systolic <= 0 || diastolic <= 0) { row.error = 'Systolic and diastolic must be whole positive numbers'; return row; }
+            if (systolic <= diastolic) { row.error = 'Systolic must be higher than diastolic'; return row; }
+            if (systolic > 300 || diastolic > 200) { row.error = 'Blood pressure value out of range'; return row; }
+            row.data = { systolic, diastolic, recordedAt };
+        } else if (type === 'sugar') {
+            let level = parseNumber(cell(cells, 'level'));
+            if (isNaN(level) || level <= 0) { row.error = 'Glucose level must be a positive number'; return row; }
+            const unitText = `${cell(cells, 'sugarUnit') ?? ''} ${mapping.level !== undefined ? headers[mapping.level] ?? '' : ''}`.toLowerCase();
+            const sourceUnit: GlucoseUnit = unitText.includes('mmol') ? 'mmol/L' : unitText.includes('mg') ? 'mg/dL' : options.defaultGlucoseUnit ?? 'mg/dL';
+            level = glucoseForStorage(level, sourceUnit); // Stored in mg/dL
+            if (level > 1000) { row.error = 'Glucose level out of range'; return row; }
+            row.data = { level, measurementType: normalizeMeasurementType(cell(cells, 'measurementType')), recordedAt };
+        } else {
+            const weight = parseNumber(cell(cells, 'weight'));
+            if (isNaN(weight) || weight <= 0) { row.error = 'Weight must be a positive number'; return row; }
+            const unit = normalizeWeightUnit(cell(cells, 'weightUnit'), mapping.weight !== undefined ? headers[mapping.weight] ?? '' : '');
+            if (!unit) { row.error = 'Unit must be kg or lbs'; return row; }
+            if ((unit === 'kg' && weight > 300) || (unit === 'lbs' && weight > 660)) { row.error = 'Weight out of range'; return row; }
+            row.data = { weight, unit, recordedAt };
+        }
+
+        const key = toDuplicateKey(recordedAt);
+        row.duplicate = seen.has(key);
+        seen.add(key);
+        return row;
+    });
+};
+
+// --- Export ---
+
+export interface HealthReadingsExport {
+    exportedAt: string;
+    range: ReadingDateRange;
+    bloodPressure: (Pick<BloodPressureReading, 'systolic' | 'diastolic'> & { recordedAt: string })[];
+    bloodSugar: (Pick<BloodSugarReading, 'level' | 'measurementType'> & { recordedAt: string; unit: 'mg/dL' })[];
+    weight: (Pick<WeightReading, 'weight' | 'unit'> & { recordedAt: string })[];
+}
+
+export interface ExportReadingsInput {
+    bloodPressure: BloodPressureReading[];
+    bloodSugar: BloodSugarReading[];
+    weight: WeightReading[];
+}
+
+const readingTime = (reading: { recordedAt?: string; $createdAt: string }): string => reading.recordedAt || reading.$createdAt;
+const byTimeAsc = <T extends { recordedAt: string }>(a: T, b: T) => a.recordedAt.localeCompare(b.recordedAt);
+
+/** Strips Appwrite metadata and sorts oldest first. Readings are assumed to be already filtered to `range`. */
+export const buildHealthReadingsExport = (input: ExportReadingsInput, range: ReadingDateRange, now: Date = new Date()): HealthReadingsExport => ({
+    exportedAt: now.toISOString(),
+    range,
+    bloodPressure: input.bloodPressure.map(r => ({ recordedAt: readingTime(r), systolic: r.systolic, diastolic: r.diastolic })).sort(byTimeAsc),
+    bloodSugar: input.bloodSugar.map(r => ({ recordedAt: readingTime(r), level: r.level, measurementType: r.measurementType, unit: 'mg/dL' as const })).sort(byTimeAsc),
+    weight: input.weight.map(r => ({ recordedAt: readingTime(r), weight: r.weight, unit: r.unit })).sort(byTimeAsc),
+});
+
+export const exportHeaders = ['type', 'recordedAt', 'systolic', 'diastolic', 'level', 'measurementType', 'weight', 'unit'];
+
+/** One CSV holding all reading types; the `type` column lets the importer read it back per type. */
+export const healthReadingsExportToCsv = (data: HealthReadingsExport): string => toCsv([
+    exportHeaders,
+    ...data.bloodPressure.map(r => [transferReadingTypeLabels.bp, r.recordedAt, r.systolic, r.diastolic, '', '', '', 'mmHg']),
+    ...data.bloodSugar.map(r => [transferReadingTypeLabels.sugar, r.recordedAt, '', '', r.level, r.measurementType, '', r.unit]),
+    ...data.weight.map(r => [transferReadingTypeLabels.weight, r.recordedAt, '', '', '', '', r.weight, r.unit]),
+]);
+
+export const healthReadingsExportToJson = (data: HealthReadingsExport): string => JSON.stringify(data, null, 2);
+
+/**
+ * Reads an import file into rows (header first). Accepts CSV, or a JSON file produced by
+ * `healthReadingsExportToJson`, which goes through the same mapping/preview as its CSV form.
+ */
+export const parseImportFile = (fileName: string, text: string): string[][] => {
+    const trimmed = text.trim();
+    if (!fileName.toLowerCase().endsWith('.json') && !trimmed.startsWith('{')) return parseCsv(text);
+    let data: Partial<HealthReadingsExport>;
+    try { data = JSON.parse(trimmed); }
+    catch { throw new Error('The file is not valid JSON.'); }
+    if (!Array.isArray(data.bloodPressure) && !Array.isArray(data.bloodSugar) && !Array.isArray(data.weight)) throw new Error('The JSON file is not a MomCare readings export.');
+    return parseCsv(healthReadingsExportToCsv({
+        exportedAt: data.exportedAt ?? '', range: data.range ?? {},
+        bloodPressure: data.bloodPressure ?? [], bloodSugar: data.bloodSugar ?? [], weight: data.weight ?? [],
+    }));
+};
+
+/** e.g. "momcare-readings_2024-01-01_to_2024-03-31.csv" */
+export const getExportFileName = (range: ReadingDateRange, extension: 'csv' | 'json', prefix = 'momcare-readings'): string => {
+    const part = (value: string | undefined, fallback: string) => value ? format(new Date(value), 'yyyy-MM-dd') : fallback;
+    return `${prefix}_${part(range.from, 'start')}_to_${part(range.to, 'today')}.${extension}`;
+};
+
+/** Triggers a browser download of generated text. */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,11 +1,8 @@
 // src/lib/healthTips.ts
+import { getPregnancyTimeline, PregnancyDates, PregnancyTimeline, Trimester } from './pregnancyTimeline';
 
-/**
- * Defines the possible stages of pregnancy for health tips.
- * N/A is used when conception date isn't set.
- * Error is used if calculation fails.
- */
-export type Trimester = "Pre-conception" | "First" | "Second" | "Third" | "Post-term" | "N/A" | "Error";
+// The stage type lives with the timeline engine; re-exported for existing imports.
+export type { Trimester } from './pregnancyTimeline';
 
 /**
  * Defines the structure for a single health tip.
@@ -80,9 +77,18 @@ const healthTipsData: Map<Trimester, HealthTip[]> = new Map([
         { id: 'pt-rest', title: "Rest and Wait", description: "Continue to rest, stay hydrated, and watch for signs of labor.", category: 'Wellbeing' },
     ]],
 
+    // --- Postpartum (after delivery) ---
+    ["Postpartum", [
+        { id: 'pp-w1-rest', title: "Rest and Recover", description: "Your body needs time to heal. Rest when the baby sleeps, accept help, and watch for heavy bleeding, fever, or severe pain.", category: 'Symptoms', weeks: { start: 1, end: 2 } },
+        { id: 'pp-w2-mood', title: "Check In With Your Mood", description: "Baby blues are common in the first two weeks. If sadness, anxiety, or hopelessness lasts longer or feels overwhelming, talk to your provider.", category: 'Wellbeing', weeks: { start: 2, end: 12 } },
+        { id: 'pp-w6-checkup', title: "Postpartum Check-up", description: "Schedule your postpartum visit (usually within 6 weeks) to discuss recovery, contraception, and how you're feeling.", category: 'Provider', weeks: { start: 4, end: 8 } },
+        { id: 'pp-nutrition', title: "Nourish Yourself", description: "Keep eating balanced meals and staying hydrated, especially if breastfeeding. Continuing your prenatal vitamin is often recommended.", category: 'Nutrition' },
+        { id: 'pp-movement', title: "Ease Back Into Movement", description: "Gentle walks are usually fine early on. Wait for your provider's go-ahead before returning to more strenuous exercise.", category: 'Exercise' },
+    ]],
+
     // --- N/A or Error ---
     ["N/A", [
-        { id: 'na-profile', title: "Update Your Profile", description: "Add your estimated month of conception or current weeks pregnant to your profile to receive personalized tips and track your journey.", category: 'General' }, // Updated description slightly
+        { id: 'na-profile', title: "Update Your Profile", description: "Add your last period date or due date to your profile to receive personalized tips and track your journey.", category: 'General' }, // Updated description slightly
         { id: 'na-general', title: "General Wellness", description: "Focus on overall health: eat nutritious foods, stay hydrated, get adequate rest, and consult your provider for personalized advice.", category: 'General' },
     ]],
     ["Error", [
@@ -144,4 +150,15 @@ export const selectHealthTip = (trimester: Trimester, week: number = 0): HealthT
     //    fall back to the first tip listed under that trimester (could be N/A's first tip)
     //    or the absolute default if the list was somehow empty after the initial get.
     return potentialTips[0] ?? defaultHealthTip;
-};
\ No newline at end of file
+};
+
+/**
+ * Selects the health tip for a pregnancy timeline (see lib/pregnancyTimeline.ts).
+ * Postpartum tips are matched on the week since delivery; pregnancy tips on the gestational week.
+ */
+export const selectHealthTipForTimeline = (timeline: PregnancyTimeline): HealthTip =>
+    selectHealthTip(timeline.trimester, timeline.stage === 'postpartum' ? timeline.postpartumWeek ?? 0 : timeline.weeks ?? 0);
+
+/** Convenience wrapper: selects the tip for a profile's pregnancy dates as of `at` (today by default). */
+export const selectHealthTipForProfile = (dates: PregnancyDates | null | undefined, at: Date = new Date()): HealthTip =>
+    selectHealthTipForTimeline(getPregnancyTimeline(dates, at));
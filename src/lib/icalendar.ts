@@ -0,0 +1,539 @@
+// src/lib/icalendar.ts
+// iCalendar (RFC 5545) export and import for appointments. Appointments keep a day plus a wall-clock time
+// in their own zone (see lib/appointmentTime.ts); exports write that time with a TZID (and a matching
+// VTIMEZONE), imports convert event times from their own zone (TZID, UTC or floating) to the user's.
+// Recurring series map to RRULE / EXDATE, edited occurrences to RECURRENCE-ID (see lib/appointmentRecurrence.ts).
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Appointment, CreateAppointmentData } from './appwrite';
+import { RecurrenceRule, formatRecurrenceRule, getAppointmentDay, parseRecurrenceRule } from './appointmentRecurrence';
+import { AppointmentStatus, getAppointmentStatus } from './appointmentStatus';
+import {
+    WallTime,
+    getAppointmentDurationMinutes,
+    getAppointmentTimeZone,
+    getAppointmentWallTime,
+    getDeviceTimeZone,
+    getWallTime,
+    getZoneOffsetMinutes,
+    isKnownTimeZone,
+    wallTimeToUtcMs,
+    zonedWallTimeToDate,
+} from './appointmentTime';
+
+// --- Types ---
+
+export interface ICalendarExportOptions {
+    /** Calendar name shown by calendar apps (X-WR-CALNAME) */
+    name?: string;
+    /** IANA zone to write event times in; defaults to the appointments' own zone */
+    timeZone?: string;
+    now?: Date;
+}
+
+export interface ICalendarImportOptions {
+    /** IANA zone to convert event times into; defaults to the device's zone */
+    timeZone?: string;
+}
+
+/** One event from an imported calendar, ready to save with createAppointment. */
+export interface ImportedAppointment {
+    uid: string;
+    summary: string;
+    data: CreateAppointmentData;
+    /** All-day events have no time; they get DEFAULT_ALL_DAY_TIME */
+    allDay: boolean;
+    /** Edited occurrence (RECURRENCE-ID) of the series with this UID in the same file */
+    recurrenceOf?: string;
+    /** Things that could not be carried over, e.g. an unsupported repeat rule */
+    warnings: string[];
+}
+
+export interface ICalendarImport {
+    appointments: ImportedAppointment[];
+    /** Cancelled events and events without a usable start */
+    skipped: number;
+}
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+interface CalendarComponent {
+    name: string;
+    lines: ContentLine[];
+    children: CalendarComponent[];
+}
+
+// --- Constants ---
+
+export const ICALENDAR_MIME_TYPE = 'text/calendar';
+/** Time given to imported all-day events (appointments need a time). */
+export const DEFAULT_ALL_DAY_TIME = '09:00 AM';
+
+/** appointmentType <-> CATEGORIES */
+export const appointmentTypeCategories: Record<string, string> = {
+    doctor: 'Doctor Visit',
+    lab_test: 'Lab Test',
+    yoga_class: 'Yoga Class',
+    childbirth_class: 'Childbirth Class',
+    fitness_class: 'Fitness Class',
+};
+
+/** Fallback when an imported event's categories don't name a type: keywords in categories or summary. */
+const APPOINTMENT_TYPE_KEYWORDS: Array<[RegExp, string]> = [
+    [/\blab\b|blood (test|work)|urine test|glucose (test|tolerance)/i, 'lab_test'],
+    [/\byoga\b/i, 'yoga_class'],
+    [/childbirth|birth(ing)? class|antenatal class|prenatal class|lamaze|hypnobirth/i, 'childbirth_class'],
+    [/fitness|exercise|pilates|aqua|swim/i, 'fitness_class'],
+];
+
+const PRODUCT_ID = '-//MomCare AI//Appointments//EN';
+const UID_DOMAIN = 'momcare';
+const MAX_LINE_OCTETS = 75;
+const NOTES_MAX_LENGTH = 500;
+const SUPPORTED_RRULE_PARTS = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST']);
+/** VEVENT STATUS for each lifecycle status; calendars strike through cancelled events. */
+const ICALENDAR_STATUS: Record<AppointmentStatus, string> = {
+    requested: 'TENTATIVE',
+    confirmed: 'CONFIRMED',
+    rescheduled: 'TENTATIVE',
+    cancelled_by_patient: 'CANCELLED',
+    cancelled_by_provider: 'CANCELLED',
+    no_show: 'CONFIRMED',
+    completed: 'CONFIRMED',
+};
+
+// --- Time Zones ---
+
+const formatOffset = (minutes: number): string => {
+    const sign = minutes < 0 ? '-' : '+';
+    const abs = Math.abs(minutes);
+    return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+const parseOffset = (value: string): number | null => {
+    const match = value?.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+    if (!match) return null;
+    return (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10));
+};
+
+/** Offset changes of a zone during a year, found day by day and narrowed down to the minute. */
+const getZoneTransitions = (timeZone: string, year: number): Array<{ at: Date; from: number; to: number }> => {
+    const transitions: Array<{ at: Date; from: number; to: number }> = [];
+    let previous = new Date(Date.UTC(year, 0, 1));
+    let previousOffset = getZoneOffsetMinutes(previous, timeZone);
+    for (let day = 1; day <= 366; day++) {
+        const next = new Date(Date.UTC(year, 0, 1 + day));
+        const nextOffset = getZoneOffsetMinutes(next, timeZone);
+        if (nextOffset !== previousOffset) {
+            let low = previous.getTime();
+            let high = next.getTime();
+            while (high - low > 60000) {
+                const mid = low + Math.floor((high - low) / 120000) * 60000;
+                if (getZoneOffsetMinutes(new Date(mid), timeZone) === previousOffset) low = mid; else high = mid;
+            }
+            transitions.push({ at: new Date(high), from: previousOffset, to: nextOffset });
+        }
+        previous = next;
+        previousOffset = nextOffset;
+    }
+    return transitions;
+};
+
+// --- Writing ---
+
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const textEncoder = new TextEncoder();
+
+/** Folds a content line to 75 octets, without splitting multi-byte characters. */
+const foldLine = (line: string): string => {
+    if (textEncoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = textEncoder.encode(char).length;
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1; // Continuation lines start with a space
+        if (octets + size > limit) { chunks.push(chunk); chunk = ''; octets = 0; }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+};
+
+const formatWallTime = (wall: WallTime): string =>
+    `${wall.year}${String(wall.month).padStart(2, '0')}${String(wall.day).padStart(2, '0')}T` +
+    `${String(wall.hours).padStart(2, '0')}${String(wall.minutes).padStart(2, '0')}${String(wall.seconds).padStart(2, '0')}`;
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const addMinutesToWallTime = (wall: WallTime, minutes: number): WallTime => {
+    const date = new Date(wallTimeToUtcMs(wall) + minutes * 60000);
+    return {
+        year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(),
+        hours: date.getUTCHours(), minutes: date.getUTCMinutes(), seconds: date.getUTCSeconds(),
+    };
+};
+
+/** CATEGORIES value for an appointment type, e.g. 'lab_test' -> "Lab Test". */
+export const getAppointmentTypeCategory = (appointmentType: string | undefined): string => {
+    const type = appointmentType || 'doctor';
+    return appointmentTypeCategories[type] ?? type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+};
+
+const createTimeZoneComponent = (timeZone: string, years: number[]): string[] => {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+    const firstYear = Math.min(...years);
+    // The observance in force at the start of the first year, then every change up to the last year
+    const initialOffset = getZoneOffsetMinutes(new Date(Date.UTC(firstYear, 0, 1)), timeZone);
+    const transitions: Array<{ at: Date; from: number; to: number }> = [];
+    for (let year = firstYear; year <= Math.max(...years); year++) transitions.push(...getZoneTransitions(timeZone, year));
+    const observance = (kind: 'STANDARD' | 'DAYLIGHT', start: string, from: number, to: number) =>
+        lines.push(`BEGIN:${kind}`, `DTSTART:${start}`, `TZOFFSETFROM:${formatOffset(from)}`, `TZOFFSETTO:${formatOffset(to)}`, `END:${kind}`);
+    const initialIsDaylight = transitions.length > 0 && transitions[0].to < initialOffset;
+    observance(initialIsDaylight ? 'DAYLIGHT' : 'STANDARD', `${firstYear}0101T000000`, initialOffset, initialOffset);
+    for (const transition of transitions) {
+        // DTSTART is the local time of the change as read on the clock before it
+        const localStart = new Date(transition.at.getTime() + transition.from * 60000);
+        observance(transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD', formatUtc(localStart).replace('Z', ''), transition.from, transition.to);
+    }
+    lines.push('END:VTIMEZONE');
+    return lines;
+};
+
+/** An appointment's day and time (in its own zone) as read on a clock in `timeZone`. */
+const toCalendarWallTime = (app: Appointment, day: string, time: string | undefined, timeZone: string): WallTime | null => {
+    const wall = getAppointmentWallTime(day, time);
+    const appZone = getAppointmentTimeZone(app);
+    return wall && appZone !== timeZone ? getWallTime(zonedWallTimeToDate(wall, appZone), timeZone) : wall;
+};
+
+const createEvent = (
+    app: Appointment,
+    options: { timeZone: string; stamp: string; uid: string; recurrence?: RecurrenceRule | null; exceptions?: string[]; recurrenceIdDay?: string; series?: Appointment },
+): string[] | null => {
+    const start = toCalendarWallTime(app, getAppointmentDay(app), app.time, options.timeZone);
+    if (!start) return null;
+    const tz = `TZID=${options.timeZone}`;
+    const category = getAppointmentTypeCategory(app.appointmentType);
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${options.uid}`,
+        `DTSTAMP:${options.stamp}`,
+        `DTSTART;${tz}:${formatWallTime(start)}`,
+        `DTEND;${tz}:${formatWallTime(addMinutesToWallTime(start, getAppointmentDurationMinutes(app)))}`,
+        `SUMMARY:${escapeText(category)}`,
+        `CATEGORIES:${escapeText(category)}`,
+        `STATUS:${ICALENDAR_STATUS[getAppointmentStatus(app)]}`,
+    ];
+    if (app.notes?.trim()) lines.push(`DESCRIPTION:${escapeText(app.notes.trim())}`);
+    if (options.recurrence) {
+        // UNTIL must be a UTC date-time when DTSTART has a time: the end of the last day in the appointment's zone
+        const { until, ...rule } = options.recurrence;
+        const [year, month, day] = (until ?? '').split('-').map(Number);
+        const untilUtc = until ? formatUtc(zonedWallTimeToDate({ year, month, day, hours: 23, minutes: 59, seconds: 59 }, getAppointmentTimeZone(app))) : null;
+        lines.push(`RRULE:${formatRecurrenceRule(rule)}${untilUtc && !rule.count ? `;UNTIL=${untilUtc}` : ''}`);
+        for (const day of options.exceptions ?? []) {
+            const excluded = toCalendarWallTime(app, day, app.time, options.timeZone);
+            if (excluded) lines.push(`EXDATE;${tz}:${formatWallTime(excluded)}`);
+        }
+    }
+    if (options.recurrenceIdDay) {
+        const series = options.series ?? app;
+        const original = toCalendarWallTime(series, options.recurrenceIdDay, series.time, options.timeZone);
+        if (original) lines.push(`RECURRENCE-ID;${tz}:${formatWallTime(original)}`);
+    }
+    if (app.$createdAt) lines.push(`CREATED:${formatUtc(new Date(app.$createdAt))}`);
+    if (app.$updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(app.$updatedAt))}`);
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+/**
+ * A VCALENDAR for appointments. Pass stored documents (getUserAppointmentRecords) to export series with
+ * their rules; expanded occurrences (from getUserAppointments) are written as single events.
+ */
+export const createAppointmentsCalendar = (appointments: Appointment[], options: ICalendarExportOptions = {}): string => {
+    const timeZone = [options.timeZone, ...appointments.map(app => app.timeZone)].find(isKnownTimeZone) ?? getDeviceTimeZone();
+    const stamp = formatUtc(options.now ?? new Date());
+    const masters = new Map(appointments.filter(app => !app.occurrenceOf && parseRecurrenceRule(app.recurrence)).map(app => [app.$id, app]));
+    const overriddenDays = new Map<string, Set<string>>();
+    for (const app of appointments) {
+        if (app.seriesId && app.originalDate && masters.has(app.seriesId)) {
+            if (!overriddenDays.has(app.seriesId)) overriddenDays.set(app.seriesId, new Set());
+            overriddenDays.get(app.seriesId).add(app.originalDate);
+        }
+    }
+
+    const events: string[][] = [];
+    for (const app of appointments) {
+        let event: string[] | null;
+        const master = app.seriesId ? masters.get(app.seriesId) : undefined;
+        if (masters.has(app.$id)) {
+            // Days with an edited occurrence are replaced by its RECURRENCE-ID event, not excluded
+            const overridden = overriddenDays.get(app.$id) ?? new Set<string>();
+            event = createEvent(app, {
+                timeZone, stamp, uid: `${app.$id}@${UID_DOMAIN}`,
+                recurrence: parseRecurrenceRule(app.recurrence),
+                exceptions: (app.recurrenceExceptions ?? []).filter(day => !overridden.has(day)),
+            });
+        } else if (master && app.originalDate) {
+            event = createEvent(app, { timeZone, stamp, uid: `${master.$id}@${UID_DOMAIN}`, recurrenceIdDay: app.originalDate, series: master });
+        } else {
+            event = createEvent(app, { timeZone, stamp, uid: `${app.$id}@${UID_DOMAIN}` });
+        }
+        if (event) events.push(event);
+    }
+
+    const years = appointments.map(app => parseInt(getAppointmentDay(app).slice(0, 4), 10)).filter(year => year > 1900);
+    if (masters.size > 0 && years.length > 0) years.push(Math.max(...years) + 1); // Series run on past their first year
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(options.name ?? 'MomCare Appointments')}`,
+        `X-WR-TIMEZONE:${timeZone}`,
+        ...(events.length > 0 ? createTimeZoneComponent(timeZone, years.length > 0 ? years : [new Date().getFullYear()]) : []),
+        ...events.flat(),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/** A calendar file with one appointment (or one occurrence of a series). */
+export const createAppointmentICalendar = (appointment: Appointment, options: ICalendarExportOptions = {}): string =>
+    createAppointmentsCalendar([appointment], { name: getAppointmentTypeCategory(appointment.appointmentType), ...options });
+
+/** e.g. "momcare-doctor-visit_2024-05-03.ics" */
+export const getAppointmentICalendarFileName = (appointment?: Appointment): string =>
+    appointment
+        ? `momcare-${getAppointmentTypeCategory(appointment.appointmentType).toLowerCase().replace(/[^a-z0-9]+/g, '-')}_${getAppointmentDay(appointment)}.ics`
+        : `momcare-appointments_${format(new Date(), 'yyyy-MM-dd')}.ics`;
+
+// --- Reading ---
+
+const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const parseContentLine = (line: string): ContentLine | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+    }
+    if (colon <= 0) return null;
+    const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf('=');
+        if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/** Parses calendar text into its component tree (unfolding continuation lines). */
+const parseComponents = (text: string): CalendarComponent[] => {
+    const root: CalendarComponent = { name: 'ROOT', lines: [], children: [] };
+    const stack = [root];
+    for (const raw of text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+        const line = parseContentLine(raw.trimEnd());
+        if (!line) continue;
+        if (line.name === 'BEGIN') {
+            const component: CalendarComponent = { name: line.value.trim().toUpperCase(), lines: [], children: [] };
+            stack[stack.length - 1].children.push(component);
+            stack.push(component);
+        } else if (line.name === 'END') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            stack[stack.length - 1].lines.push(line);
+        }
+    }
+    return root.children;
+};
+
+const getLine = (component: CalendarComponent, name: string): ContentLine | undefined => component.lines.find(line => line.name === name);
+const getLines = (component: CalendarComponent, name: string): ContentLine[] => component.lines.filter(line => line.name === name);
+
+const parseWallTime = (value: string): (WallTime & { utc: boolean; dateOnly: boolean }) | null => {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    return {
+        year: Number(match[1]), month: Number(match[2]), day: Number(match[3]),
+        hours: Number(match[4] ?? 0), minutes: Number(match[5] ?? 0), seconds: Number(match[6] ?? 0),
+        utc: !!match[7], dateOnly: !match[4],
+    };
+};
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, nth: number): number => {
+    if (nth > 0) {
+        const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+        return 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+    }
+    const lastDay = new Date(Date.UTC(year, month, 0));
+    return lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7) + (nth + 1) * 7;
+};
+
+/**
+ * Offset of a custom VTIMEZONE (one whose TZID isn't an IANA name, e.g. Outlook's "Eastern Standard Time")
+ * at a local time: the observance whose latest start, from DTSTART or its yearly RRULE, precedes it.
+ */
+const getVTimeZoneOffset = (vtimezone: CalendarComponent, wall: WallTime): number | null => {
+    const local = wallTimeToUtcMs(wall);
+    let best: { start: number; offset: number } | null = null;
+    let latest: { start: number; offset: number } | null = null;
+    for (const observance of vtimezone.children.filter(child => child.name === 'STANDARD' || child.name === 'DAYLIGHT')) {
+        const offset = parseOffset(getLine(observance, 'TZOFFSETTO')?.value);
+        const dtstart = parseWallTime(getLine(observance, 'DTSTART')?.value ?? '');
+        if (offset === null || !dtstart) continue;
+        const starts = [wallTimeToUtcMs(dtstart)];
+        const rule = getLine(observance, 'RRULE')?.value.toUpperCase() ?? '';
+        const month = Number(rule.match(/BYMONTH=(\d+)/)?.[1]);
+        const byDay = rule.match(/BYDAY=([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)/);
+        if (rule.includes('FREQ=YEARLY') && month && byDay) {
+            const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'].indexOf(byDay[2]);
+            for (const year of [wall.year - 1, wall.year]) {
+                if (year < dtstart.year) continue;
+                const day = nthWeekdayOfMonth(year, month, weekday, Number(byDay[1] ?? 1));
+                starts.push(wallTimeToUtcMs({ ...dtstart, year, month, day }));
+            }
+        }
+        for (const start of starts) {
+            if (start <= local && (!best || start > best.start)) best = { start, offset };
+            if (!latest || start > latest.start) latest = { start, offset };
+        }
+    }
+    return (best ?? latest)?.offset ?? null;
+};
+
+/** Resolves a DTSTART-like property to an instant. Times without a zone ("floating") are read in the target zone. */
+const resolveDateTime = (line: ContentLine | undefined, timeZones: Map<string, CalendarComponent>, targetZone: string): { instant: Date; dateOnly: boolean } | null => {
+    if (!line) return null;
+    const wall = parseWallTime(line.value.split(',')[0]);
+    if (!wall) return null;
+    if (wall.dateOnly || line.params.VALUE === 'DATE') return { instant: new Date(wallTimeToUtcMs(wall)), dateOnly: true };
+    if (wall.utc) return { instant: new Date(wallTimeToUtcMs(wall)), dateOnly: false };
+    const tzid = line.params.TZID;
+    if (tzid) {
+        // Prefer an IANA name, including ones behind a vendor prefix like "/mozilla.org/20050126_1/Europe/Paris"
+        const iana = [tzid, tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/)?.[1]].find(zone => zone && isKnownTimeZone(zone));
+        if (iana) return { instant: zonedWallTimeToDate(wall, iana), dateOnly: false };
+        const vtimezone = timeZones.get(tzid);
+        const offset = vtimezone ? getVTimeZoneOffset(vtimezone, wall) : null;
+        if (offset !== null) return { instant: new Date(wallTimeToUtcMs(wall) - offset * 60000), dateOnly: false };
+    }
+    return { instant: zonedWallTimeToDate(wall, targetZone), dateOnly: false }; // Floating time
+};
+
+/** Day ("yyyy-MM-dd") and appointment time ("hh:mm a") of an instant in the target zone. */
+const toAppointmentSlot = (resolved: { instant: Date; dateOnly: boolean }, targetZone: string): { day: string; time: string } => {
+    if (resolved.dateOnly) return { day: resolved.instant.toISOString().slice(0, 10), time: DEFAULT_ALL_DAY_TIME };
+    const wall = getWallTime(resolved.instant, targetZone);
+    const day = `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+    return { day, time: format(new Date(2000, 0, 1, wall.hours, wall.minutes), 'hh:mm a') };
+};
+
+/** appointmentType for imported CATEGORIES (matching our own labels or type keys), else from keywords. */
+export const getAppointmentTypeFromCategories = (categories: string[], summary = ''): string => {
+    for (const category of categories.map(c => c.trim().toLowerCase()).filter(Boolean)) {
+        const type = Object.entries(appointmentTypeCategories).find(([key, label]) => key === category || label.toLowerCase() === category)?.[0];
+        if (type) return type;
+    }
+    const text = [...categories, summary].join(' ');
+    return APPOINTMENT_TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? 'doctor';
+};
+
+/** Returns the rule when every part of the RRULE is one we can repeat faithfully. */
+const parseSupportedRule = (value: string): RecurrenceRule | null => {
+    const parts = value.replace(/^RRULE:/i, '').split(';').map(part => part.split('=')[0].trim().toUpperCase()).filter(Boolean);
+    if (parts.some(part => !SUPPORTED_RRULE_PARTS.has(part))) return null;
+    if (/BYDAY=[^;]*\d/i.test(value)) return null; // "2nd Tuesday" style rules
+    const rule = parseRecurrenceRule(value);
+    if (rule && /BYDAY=/i.test(value) && rule.frequency !== 'weekly') return null;
+    return rule;
+};
+
+/**
+ * Reads appointments from an .ics file. Times are converted to `timeZone`; repeat rules the app supports
+ * (daily / weekly / monthly with a count or end date) are kept, others import the first occurrence only.
+ * Throws when the text isn't a calendar.
+ */
+export const parseAppointmentsICalendar = (text: string, options: ICalendarImportOptions = {}): ICalendarImport => {
+    const calendars = parseComponents(text).filter(component => component.name === 'VCALENDAR');
+    if (calendars.length === 0) throw new Error('The file is not an iCalendar (.ics) file.');
+    const targetZone = options.timeZone && isKnownTimeZone(options.timeZone) ? options.timeZone : getDeviceTimeZone();
+
+    const appointments: ImportedAppointment[] = [];
+    let skipped = 0;
+    for (const calendar of calendars) {
+        const timeZones = new Map(calendar.children.filter(c => c.name === 'VTIMEZONE').map(c => [getLine(c, 'TZID')?.value ?? '', c] as const));
+        const cancelledCalendar = getLine(calendar, 'METHOD')?.value.trim().toUpperCase() === 'CANCEL';
+
+        for (const event of calendar.children.filter(c => c.name === 'VEVENT')) {
+            const start = resolveDateTime(getLine(event, 'DTSTART'), timeZones, targetZone);
+            if (!start || cancelledCalendar || getLine(event, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') { skipped++; continue; }
+            const warnings: string[] = [];
+            const { day, time } = toAppointmentSlot(start, targetZone);
+            const summary = unescapeText(getLine(event, 'SUMMARY')?.value ?? '').trim();
+            const categories = getLines(event, 'CATEGORIES').flatMap(line => line.value.split(/(?<!\\),/).map(unescapeText));
+            const appointmentType = getAppointmentTypeFromCategories(categories, summary);
+            const location = unescapeText(getLine(event, 'LOCATION')?.value ?? '').trim();
+            const description = unescapeText(getLine(event, 'DESCRIPTION')?.value ?? '').trim();
+            let notes = [
+                summary && summary.toLowerCase() !== getAppointmentTypeCategory(appointmentType).toLowerCase() ? summary : '',
+                location ? `Location: ${location}` : '',
+                description,
+            ].filter(Boolean).join('\n');
+            if (notes.length > NOTES_MAX_LENGTH) { notes = `${notes.slice(0, NOTES_MAX_LENGTH - 1)}…`; warnings.push('Notes were shortened.'); }
+            if (start.dateOnly) warnings.push(`All-day event; set for ${DEFAULT_ALL_DAY_TIME}.`);
+
+            // Invites come from the clinic, so they're already confirmed unless marked tentative
+            const status = getLine(event, 'STATUS')?.value.trim().toUpperCase() === 'TENTATIVE' ? 'requested' : 'confirmed';
+            const data: CreateAppointmentData = { date: day, time, timeZone: targetZone, appointmentType, notes: notes || undefined, status };
+            const rrule = getLine(event, 'RRULE')?.value;
+            if (rrule) {
+                const rule = parseSupportedRule(rrule);
+                if (rule) {
+                    // Converting the start to another zone can move it to the previous or next day; move the rule with it
+                    const raw = getLine(event, 'DTSTART').value.trim();
+                    const shift = start.dateOnly ? 0 : differenceInCalendarDays(parseISO(day), parseISO(`${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}`));
+                    if (shift && rule.byWeekday) rule.byWeekday = rule.byWeekday.map(weekday => (weekday + shift + 7) % 7).sort();
+                    if (shift && rule.until) rule.until = format(addDays(parseISO(rule.until), shift), 'yyyy-MM-dd');
+                    data.recurrence = formatRecurrenceRule(rule);
+                    data.recurrenceExceptions = getLines(event, 'EXDATE')
+                        .flatMap(line => line.value.split(',').map(value => resolveDateTime({ ...line, value }, timeZones, targetZone)))
+                        .filter(Boolean)
+                        .map(resolved => toAppointmentSlot(resolved, targetZone).day);
+                } else {
+                    warnings.push('Repeat rule not supported; only the first occurrence was imported.');
+                }
+            }
+
+            const uid = getLine(event, 'UID')?.value.trim() || `import-${appointments.length}`;
+            const imported: ImportedAppointment = { uid, summary: summary || getAppointmentTypeCategory(appointmentType), data, allDay: start.dateOnly, warnings };
+            const recurrenceId = resolveDateTime(getLine(event, 'RECURRENCE-ID'), timeZones, targetZone);
+            if (recurrenceId) {
+                imported.recurrenceOf = uid;
+                data.originalDate = toAppointmentSlot(recurrenceId, targetZone).day;
+                delete data.recurrence; // An edited occurrence doesn't repeat on its own
+                delete data.recurrenceExceptions;
+            }
+            appointments.push(imported);
+        }
+    }
+
+    // Edited occurrences replace their day in the series; without the series in the file they stand alone
+    for (const app of appointments.filter(a => a.recurrenceOf)) {
+        const master = appointments.find(a => a.uid === app.recurrenceOf && !a.recurrenceOf && a.data.recurrence);
+        if (!master) { delete app.recurrenceOf; delete app.data.originalDate; continue; }
+        master.data.recurrenceExceptions = [...new Set([...(master.data.recurrenceExceptions ?? []), app.data.originalDate])];
+    }
+    return { appointments, skipped };
+};
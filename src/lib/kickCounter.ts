@@ -0,0 +1,134 @@
+// src/lib/kickCounter.ts
+import { format, parseISO, startOfDay } from 'date-fns';
+import type { KickCountReading } from './appwrite';
+
+// --- Constants ---
+/** Movements to count per session ("count to 10"). */
+export const KICK_TARGET = 10;
+/** Fewer than KICK_TARGET movements within this time is a reason to contact a provider regardless of baseline. */
+export const KICK_SESSION_LIMIT_SECONDS = 2 * 60 * 60;
+/** Completed sessions needed before a personal baseline is used. */
+const MIN_BASELINE_SESSIONS = 3;
+/** Only the most recent sessions count towards the baseline, so it follows the baby's changing pattern. */
+const BASELINE_WINDOW = 14;
+/** A session is "notably longer" when it takes this many times the baseline... */
+const SLOW_FACTOR = 1.5;
+/** ...and at least this many seconds more (avoids warnings when the baseline is only a few minutes). */
+const SLOW_MIN_EXTRA_SECONDS = 15 * 60;
+
+// --- Types ---
+
+export interface KickSessionResult {
+    kickCount: number;
+    durationSeconds: number;
+}
+
+export type KickSessionStatus = 'normal' | 'slow' | 'incomplete' | 'no-baseline';
+
+export interface KickSessionAssessment {
+    status: KickSessionStatus;
+    /** Median seconds to reach KICK_TARGET over recent sessions, null until there is enough history */
+    baselineSeconds: number | null;
+    /** User-facing explanation; null when there is nothing to flag */
+    message: string | null;
+}
+
+/** One point per calendar day for the history chart. */
+export interface KickCountDay {
+    /** ISO string of the start of the day (used as the chart's `recordedAt`) */
+    recordedAt: string;
+    dayLabel: string;
+    sessions: number;
+    totalKicks: number;
+    /** Average minutes to reach KICK_TARGET for the day's completed sessions; null if none completed */
+    minutesToTarget: number | null;
+}
+
+// --- Helpers ---
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const byRecordedAtDesc = (a: KickCountReading, b: KickCountReading): number =>
+    new Date(b.recordedAt || b.$createdAt).getTime() - new Date(a.recordedAt || a.$createdAt).getTime();
+
+export const isCompletedKickSession = (session: KickSessionResult): boolean => session.kickCount >= KICK_TARGET;
+
+/** "12 min", "1 h 05 min", "45 s" */
+export const formatKickDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.round(seconds)} s`;
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+// --- Baseline & Assessment ---
+
+/**
+ * The user's own baseline: median time to KICK_TARGET over their recent completed sessions.
+ * `excludeId` leaves out the session being assessed. Returns null until enough sessions exist.
+ */
+export const getKickBaseline = (history: KickCountReading[], excludeId?: string): number | null => {
+    const durations = [...history]
+        .filter(s => s.$id !== excludeId && isCompletedKickSession(s) && s.durationSeconds > 0)
+        .sort(byRecordedAtDesc)
+        .slice(0, BASELINE_WINDOW)
+        .map(s => s.durationSeconds);
+    return durations.length >= MIN_BASELINE_SESSIONS ? median(durations) : null;
+};
+
+/** Compares a session against the baseline. Sessions that never reach the target within the limit are always flagged. */
+export const assessKickSession = (session: KickSessionResult, baselineSeconds: number | null): KickSessionAssessment => {
+    if (!isCompletedKickSession(session)) {
+        if (session.durationSeconds < KICK_SESSION_LIMIT_SECONDS) return { status: 'incomplete', baselineSeconds, message: null };
+        return {
+            status: 'incomplete', baselineSeconds,
+            message: `Only ${session.kickCount} movement${session.kickCount === 1 ? '' : 's'} in ${formatKickDuration(session.durationSeconds)}. Contact your doctor or maternity unit now - don't wait until tomorrow.`,
+        };
+    }
+    if (baselineSeconds === null) return { status: 'no-baseline', baselineSeconds, message: null };
+    const isSlow = session.durationSeconds >= baselineSeconds * SLOW_FACTOR
+        && session.durationSeconds - baselineSeconds >= SLOW_MIN_EXTRA_SECONDS;
+    if (!isSlow) return { status: 'normal', baselineSeconds, message: null };
+    return {
+        status: 'slow', baselineSeconds,
+        message: `It took ${formatKickDuration(session.durationSeconds)} to feel ${KICK_TARGET} movements, much longer than your usual ${formatKickDuration(baselineSeconds)}. A change in your baby's movements can be a warning sign - contact your doctor or maternity unit today.`,
+    };
+};
+
+/** Assessment of the most recent session against the sessions before it; null when there is no history. */
+export const assessLatestKickSession = (history: KickCountReading[]): KickSessionAssessment | null => {
+    const latest = [...history].sort(byRecordedAtDesc)[0];
+    if (!latest) return null;
+    return assessKickSession(latest, getKickBaseline(history, latest.$id));
+};
+
+// --- History ---
+
+/** Groups sessions per calendar day (oldest first) for charting. */
+export const groupKickSessionsByDay = (history: KickCountReading[]): KickCountDay[] => {
+    const days = new Map<string, KickCountReading[]>();
+    for (const session of history) {
+        const recorded = parseISO(session.recordedAt || session.$createdAt);
+        if (isNaN(recorded.getTime())) continue;
+        const key = startOfDay(recorded).toISOString();
+        days.set(key, [...(days.get(key) ?? []), session]);
+    }
+    return [...days.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([recordedAt, sessions]) => {
+            const completed = sessions.filter(isCompletedKickSession);
+            return {
+                recordedAt,
+                dayLabel: format(parseISO(recordedAt), 'MMM d'),
+                sessions: sessions.length,
+                totalKicks: sessions.reduce((sum, s) => sum + s.kickCount, 0),
+                minutesToTarget: completed.length > 0
+                    ? Math.round(completed.reduce((sum, s) => sum + s.durationSeconds, 0) / completed.length / 60)
+                    : null,
+            };
+        });
+};
@@ -0,0 +1,68 @@
+// src/lib/llm/fixtureProvider.ts
+import { LLMChatRequest, LLMCompletion, LLMCompletionChunk, LLMProvider, LLMProviderError, getMessageText } from './provider';
+
+/** A canned answer, replayed for requests it matches. */
+export interface LLMFixture {
+    /** Only answer requests whose last user message contains this text (or matches this pattern); omit to answer anything */
+    match?: string | RegExp;
+    /** The answer, or a function building it from the request (e.g. to echo the input back) */
+    response: string | ((request: LLMChatRequest) => string);
+    /** Defaults to 'stop' */
+    finishReason?: string;
+}
+
+export interface FixtureProviderConfig {
+    /** Checked in order; the first match answers */
+    fixtures: LLMFixture[];
+    /** Reported as the provider's model; defaults to 'fixture' */
+    model?: string;
+    /** Words per streamed chunk (default 4) */
+    wordsPerChunk?: number;
+}
+
+const lastUserText = (request: LLMChatRequest): string => {
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+    return lastUser ? getMessageText(lastUser) : '';
+};
+
+const fixtureMatches = (fixture: LLMFixture, text: string): boolean => {
+    if (fixture.match === undefined) return true;
+    return typeof fixture.match === 'string' ? text.includes(fixture.match) : fixture.match.test(text);
+};
+
+/**
+ * Replays fixtures instead of calling a model, for tests and offline development. The same request always gets
+ * the same answer, streamed in the same chunks, and nothing leaves the browser. A request no fixture matches
+ * fails like a server error would, so a missing fixture shows up rather than passing silently.
+ */
+export const createFixtureProvider = (config: FixtureProviderConfig): LLMProvider => {
+    const wordsPerChunk = Math.max(1, config.wordsPerChunk ?? 4);
+
+    const answer = (request: LLMChatRequest): LLMCompletion => {
+        const text = lastUserText(request);
+        const fixture = config.fixtures.find(candidate => fixtureMatches(candidate, text));
+        if (!fixture) throw new LLMProviderError('fixture', `No fixture matches the request: "${text.slice(0, 80)}"`);
+        const content = typeof fixture.response === 'function' ? fixture.response(request) : fixture.response;
+        return { content, finishReason: fixture.finishReason ?? 'stop' };
+    };
+
+    return {
+        kind: 'fixture',
+        model: config.model ?? 'fixture',
+        isAvailable: true,
+
+        async chat(request: LLMChatRequest): Promise<LLMCompletion> {
+            return answer(request);
+        },
+
+        async *stream(request: LLMChatRequest): AsyncIterable<LLMCompletionChunk> {
+            const { content, finishReason } = answer(request);
+            // Split after whitespace so the chunks join back to exactly the original text
+            const words = (content ?? '').match(/\S+\s*|\s+/g) ?? [];
+            for (let i = 0; i < words.length; i += wordsPerChunk) {
+                yield { text: words.slice(i, i + wordsPerChunk).join(''), finishReason: null };
+            }
+            yield { text: '', finishReason };
+        },
+    };
+};
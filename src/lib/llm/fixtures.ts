@@ -0,0 +1,75 @@
+// src/lib/llm/fixtures.ts
+// Answers the fixture provider gives when no others are supplied: one plausible, well-formed reply per feature,
+// shaped to pass that feature's parser, so every AI screen works offline.
+import type { LLMFixture } from './fixtureProvider';
+import type { LLMChatRequest, LLMFeature } from './provider';
+import { getMessageText } from './provider';
+
+// The formatting prompt wraps the user's text between two '---' lines; echo it back unchanged
+const echoFormattingInput = (request: LLMChatRequest): string => {
+    const prompt = getMessageText(request.messages[request.messages.length - 1]);
+    const sections = prompt.split(/\n---\n/);
+    return sections.length >= 3 ? sections[sections.length - 2].trim() : prompt.trim();
+};
+
+export const DEFAULT_LLM_FIXTURES: Record<LLMFeature, LLMFixture[]> = {
+    chat: [{
+        response: "This is a sample reply from the offline fixture provider, so no model was called.\n\n" +
+            "- Switch `VITE_PUBLIC_LLM_CHAT_PROVIDER` to `groq` or `openai` for real answers.\n" +
+            "- For anything urgent, please contact your doctor.",
+    }],
+    moderation: [{
+        response: JSON.stringify({ decision: "ALLOW", reason: "No issues found.", flags: [] }),
+    }],
+    meals: [{
+        response: JSON.stringify({
+            meals: [{
+                id: "fixture-meal-1",
+                name: "Spinach & Chickpea Omelette",
+                description: "A quick, iron- and protein-rich breakfast.",
+                mealType: "Breakfast",
+                keyIngredients: ["Eggs", "Spinach", "Chickpeas"],
+                dietaryNotes: ["Vegetarian", "Gluten-Free"],
+                prepTime: "Approx. 5 mins",
+                cookingTime: "Approx. 10 mins",
+                recipeComplexity: "Easy",
+                servingSize: "Serves 1",
+                macros: "P: 22g, C: 18g, F: 14g",
+                preparationSteps: ["Whisk the eggs.", "Wilt the spinach with the chickpeas.", "Add the eggs and cook through until fully set."],
+                reasoning: "Sample suggestion from the offline fixture provider.",
+            }],
+        }),
+    }],
+    exercises: [{
+        response: JSON.stringify({
+            exercises: [{
+                id: "fixture-exercise-1",
+                name: "Pelvic Tilts",
+                description: "On hands and knees, gently tuck and release the pelvis to ease lower back tension.",
+                intensity: "Gentle",
+                durationReps: "2 sets of 10",
+                focusArea: "Back Pain Relief",
+                safetyNotes: "Stop if you feel pain, dizziness or shortness of breath, and check with your doctor first.",
+                reasoning: "Sample suggestion from the offline fixture provider.",
+            }],
+        }),
+    }],
+    products: [{
+        response: JSON.stringify([{
+            name: "Pregnancy Support Pillow",
+            description: "A full-length pillow that supports the bump and back while sleeping on your side.",
+            category: "Comfort",
+            searchKeywords: "pregnancy pillow full body",
+            reasoning: "Sample recommendation from the offline fixture provider.",
+        }]),
+    }],
+    productsGeneral: [{
+        response: JSON.stringify([{
+            name: "Prenatal Vitamin",
+            description: "A daily supplement with folic acid, iron and iodine. Ask your doctor which one suits you.",
+            category: "Nutrition",
+            searchKeywords: "prenatal vitamin folic acid",
+        }]),
+    }],
+    formatting: [{ response: echoFormattingInput }],
+};
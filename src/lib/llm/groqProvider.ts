@@ -0,0 +1,67 @@
+// src/lib/llm/groqProvider.ts
+import Groq from 'groq-sdk';
+import type { ChatCompletionCreateParamsBase, ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import { LLMChatRequest, LLMCompletion, LLMCompletionChunk, LLMProvider, LLMProviderError } from './provider';
+
+export interface GroqProviderConfig {
+    apiKey?: string;
+    model: string;
+}
+
+/**
+ * Adapter for Groq's hosted models. The key is used from the browser (the SDK needs
+ * dangerouslyAllowBrowser for that); without one the provider reports itself unavailable.
+ */
+export const createGroqProvider = (config: GroqProviderConfig): LLMProvider => {
+    const client = config.apiKey ? new Groq({ apiKey: config.apiKey, dangerouslyAllowBrowser: true }) : null;
+
+    const toParams = (request: LLMChatRequest): ChatCompletionCreateParamsBase => ({
+        model: config.model,
+        messages: request.messages as ChatCompletionMessageParam[],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        stop: request.stop ?? null,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    const toProviderError = (error: unknown): unknown => {
+        if (error instanceof Groq.APIError) return new LLMProviderError('groq', error.message, error.status);
+        return error;
+    };
+
+    const requireClient = (): Groq => {
+        if (!client) throw new LLMProviderError('groq', "Groq API key is missing (VITE_PUBLIC_GROQ_API_KEY).");
+        return client;
+    };
+
+    return {
+        kind: 'groq',
+        model: config.model,
+        isAvailable: !!client,
+
+        async chat(request: LLMChatRequest): Promise<LLMCompletion> {
+            const groq = requireClient();
+            try {
+                const completion = await groq.chat.completions.create({ ...toParams(request), stream: false });
+                const choice = completion.choices?.[0];
+                return { content: choice?.message?.content ?? null, finishReason: choice?.finish_reason ?? null };
+            } catch (error) {
+                throw toProviderError(error);
+            }
+        },
+
+        async *stream(request: LLMChatRequest): AsyncIterable<LLMCompletionChunk> {
+            const groq = requireClient();
+            try {
+                const stream = await groq.chat.completions.create({ ...toParams(request), stream: true });
+                for await (const chunk of stream) {
+                    const choice = chunk.choices?.[0];
+                    yield { text: choice?.delta?.content ?? '', finishReason: choice?.finish_reason ?? null };
+                }
+            } catch (error) {
+                throw toProviderError(error);
+            }
+        },
+    };
+};
@@ -0,0 +1,170 @@
+// src/lib/llm/index.ts
+import { LLMProviderError } from './provider';
+import type { LLMFeature, LLMProvider, LLMProviderKind } from './provider';
+import { createGroqProvider } from './groqProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createFixtureProvider, LLMFixture } from './fixtureProvider';
+import { createProxyProvider, createSessionTokenSource } from './proxyProvider';
+import { DEFAULT_LLM_FIXTURES } from './fixtures';
+import { createResponseCache } from './responseCache';
+import { createSessionJwt, dataBackendKind } from '../appwrite';
+
+export type {
+    LLMChatRequest, LLMCompletion, LLMCompletionChunk, LLMContentPart, LLMFeature, LLMFinishReason,
+    LLMImageContentPart, LLMMessage, LLMProvider, LLMProviderKind, LLMTextContentPart,
+} from './provider';
+export { LLMProviderError, getMessageText } from './provider';
+export { createGroqProvider, createOpenAICompatibleProvider, createProxyProvider, createFixtureProvider, DEFAULT_LLM_FIXTURES };
+export type { LLMFixture };
+export {
+    StructuredOutputError, chatForStructuredOutput, parseStructuredOutput, extractJson,
+    requiredText, optionalText, textList, choiceOf,
+} from './structuredOutput';
+export { createPromptRegistry, definePrompt, getPromptKey } from './promptRegistry';
+export type { PromptDefinition, PromptRegistry } from './promptRegistry';
+export { createResponseCache, getResponseCacheKey } from './responseCache';
+export type { CachedRequestOptions, ResponseCache, ResponseCacheConfig } from './responseCache';
+export type { StructuredOutput, StructuredOutputFailure, StructuredOutputOptions, StructuredOutputShape, StructuredParseResult } from './structuredOutput';
+
+/** localStorage key that sends every feature to one provider for the current browser (e.g. 'fixture' for a demo). */
+export const LLM_PROVIDER_OVERRIDE_KEY = 'momcare.llmProvider';
+
+/** Groq model each feature uses unless VITE_PUBLIC_LLM_<FEATURE>_MODEL says otherwise. */
+export const DEFAULT_GROQ_MODELS: Record<LLMFeature, string> = {
+    chat: "meta-llama/llama-4-maverick-17b-128e-instruct",
+    moderation: "llama3-70b-8192", // 70b gives fewer false positives than 8b
+    meals: "llama3-70b-8192",
+    exercises: "llama3-70b-8192",
+    products: "llama3-70b-8192",
+    productsGeneral: "llama3-8b-8192", // General picks don't need the larger model
+    formatting: "llama3-70b-8192",
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const isProviderKind = (value: unknown): value is LLMProviderKind =>
+    value === 'groq' || value === 'openai' || value === 'proxy' || value === 'fixture';
+
+// 'productsGeneral' -> 'PRODUCTS_GENERAL'
+const envSuffix = (feature: LLMFeature): string => feature.replace(/([A-Z])/g, '_$1').toUpperCase();
+
+/**
+ * Settings read by name. Each variable is spelled out so Vite inlines only these; indexing `import.meta.env`
+ * would bundle every VITE_PUBLIC_* value. The Groq and OpenAI-compatible adapters call the model straight
+ * from the browser with a bundled key, so their settings (and per-feature models) only exist in development.
+ */
+const LLM_ENV: Record<string, string | undefined> = {
+    VITE_PUBLIC_AI_PROXY_URL: import.meta.env.VITE_PUBLIC_AI_PROXY_URL,
+    VITE_PUBLIC_LLM_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_PROVIDER,
+    VITE_PUBLIC_LLM_CHAT_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_CHAT_PROVIDER,
+    VITE_PUBLIC_LLM_MODERATION_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_MODERATION_PROVIDER,
+    VITE_PUBLIC_LLM_MEALS_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_MEALS_PROVIDER,
+    VITE_PUBLIC_LLM_EXERCISES_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_EXERCISES_PROVIDER,
+    VITE_PUBLIC_LLM_PRODUCTS_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_PRODUCTS_PROVIDER,
+    VITE_PUBLIC_LLM_PRODUCTS_GENERAL_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_PRODUCTS_GENERAL_PROVIDER,
+    VITE_PUBLIC_LLM_FORMATTING_PROVIDER: import.meta.env.VITE_PUBLIC_LLM_FORMATTING_PROVIDER,
+    ...(import.meta.env.DEV ? {
+        VITE_PUBLIC_GROQ_API_KEY: import.meta.env.VITE_PUBLIC_GROQ_API_KEY,
+        VITE_PUBLIC_LLM_OPENAI_BASE_URL: import.meta.env.VITE_PUBLIC_LLM_OPENAI_BASE_URL,
+        VITE_PUBLIC_LLM_OPENAI_API_KEY: import.meta.env.VITE_PUBLIC_LLM_OPENAI_API_KEY,
+        VITE_PUBLIC_LLM_OPENAI_MODEL: import.meta.env.VITE_PUBLIC_LLM_OPENAI_MODEL,
+        VITE_PUBLIC_LLM_CHAT_MODEL: import.meta.env.VITE_PUBLIC_LLM_CHAT_MODEL,
+        VITE_PUBLIC_LLM_MODERATION_MODEL: import.meta.env.VITE_PUBLIC_LLM_MODERATION_MODEL,
+        VITE_PUBLIC_LLM_MEALS_MODEL: import.meta.env.VITE_PUBLIC_LLM_MEALS_MODEL,
+        VITE_PUBLIC_LLM_EXERCISES_MODEL: import.meta.env.VITE_PUBLIC_LLM_EXERCISES_MODEL,
+        VITE_PUBLIC_LLM_PRODUCTS_MODEL: import.meta.env.VITE_PUBLIC_LLM_PRODUCTS_MODEL,
+        VITE_PUBLIC_LLM_PRODUCTS_GENERAL_MODEL: import.meta.env.VITE_PUBLIC_LLM_PRODUCTS_GENERAL_MODEL,
+        VITE_PUBLIC_LLM_FORMATTING_MODEL: import.meta.env.VITE_PUBLIC_LLM_FORMATTING_MODEL,
+    } : {}),
+};
+
+const readEnv = (name: string): string | undefined => LLM_ENV[name]?.trim() || undefined;
+
+/** Whether a provider can be used in this build: the browser-side Groq and OpenAI adapters only in development. */
+const isProviderAvailable = (kind: LLMProviderKind): boolean => import.meta.env.DEV || (kind !== 'groq' && kind !== 'openai');
+
+/**
+ * Decides which provider answers a feature. Resolved once per feature:
+ * 1. `localStorage['momcare.llmProvider']` (if set to 'groq', 'openai', 'proxy' or 'fixture')
+ * 2. `VITE_PUBLIC_LLM_<FEATURE>_PROVIDER`, e.g. VITE_PUBLIC_LLM_MODERATION_PROVIDER
+ * 3. `VITE_PUBLIC_LLM_PROVIDER`
+ * 4. 'fixture' on the in-memory data backend (its sessions can't sign in to the proxy), otherwise 'proxy'
+ * 'groq' and 'openai' are skipped outside development builds.
+ */
+export const resolveLLMProviderKind = (feature: LLMFeature): LLMProviderKind => {
+    try {
+        const override = typeof localStorage !== 'undefined' ? localStorage.getItem(LLM_PROVIDER_OVERRIDE_KEY) : null;
+        if (isProviderKind(override) && isProviderAvailable(override)) return override;
+    } catch {
+        // localStorage can throw in privacy modes; fall through to the env settings
+    }
+    const configured = (readEnv(`VITE_PUBLIC_LLM_${envSuffix(feature)}_PROVIDER`) ?? readEnv('VITE_PUBLIC_LLM_PROVIDER'))?.toLowerCase();
+    if (isProviderKind(configured) && isProviderAvailable(configured)) return configured;
+    return dataBackendKind === 'memory' ? 'fixture' : 'proxy';
+};
+
+// One Appwrite JWT is shared by every feature using the proxy
+const sessionTokens = createSessionTokenSource(() => createSessionJwt());
+
+/** Instantiates a provider for a feature. Only the selected provider's settings are read. */
+export const createLLMProvider = (feature: LLMFeature, kind: LLMProviderKind): LLMProvider => {
+    if (!isProviderAvailable(kind)) {
+        throw new LLMProviderError(kind, `The ${kind} provider calls the model from the browser and is only available in development; use the AI proxy.`);
+    }
+    const modelOverride = readEnv(`VITE_PUBLIC_LLM_${envSuffix(feature)}_MODEL`);
+    if (kind === 'fixture') {
+        return createFixtureProvider({ fixtures: DEFAULT_LLM_FIXTURES[feature] });
+    }
+    if (kind === 'proxy') {
+        const baseUrl = readEnv('VITE_PUBLIC_AI_PROXY_URL');
+        // Unset in development: the Vite dev server forwards /ai to the backend (see vite.config.ts)
+        if (!baseUrl && !(import.meta.env.DEV && typeof window !== 'undefined')) {
+            throw new LLMProviderError(kind, 'The AI proxy address is not configured; set VITE_PUBLIC_AI_PROXY_URL to the momcare-backend URL.');
+        }
+        if (dataBackendKind === 'memory') {
+            throw new LLMProviderError(kind, "The AI proxy needs Appwrite sign-in and can't be used with the in-memory data backend; use the fixture provider.");
+        }
+        return createProxyProvider({ baseUrl: baseUrl ?? '', feature, tokens: sessionTokens });
+    }
+    if (kind === 'openai') {
+        return createOpenAICompatibleProvider({
+            baseUrl: readEnv('VITE_PUBLIC_LLM_OPENAI_BASE_URL') ?? DEFAULT_OPENAI_BASE_URL,
+            apiKey: readEnv('VITE_PUBLIC_LLM_OPENAI_API_KEY'),
+            model: modelOverride ?? readEnv('VITE_PUBLIC_LLM_OPENAI_MODEL') ?? DEFAULT_OPENAI_MODEL,
+        });
+    }
+    return createGroqProvider({ apiKey: readEnv('VITE_PUBLIC_GROQ_API_KEY'), model: modelOverride ?? DEFAULT_GROQ_MODELS[feature] });
+};
+
+const providers = new Map<LLMFeature, LLMProvider>();
+
+/** The provider for a feature, created on first use. */
+export const getLLMProvider = (feature: LLMFeature): LLMProvider => {
+    let provider = providers.get(feature);
+    if (!provider) {
+        provider = createLLMProvider(feature, resolveLLMProviderKind(feature));
+        providers.set(feature, provider);
+    }
+    return provider;
+};
+
+/** Replaces a feature's provider (e.g. with a fixture provider in a test); pass null to go back to the configured one. */
+export const setLLMProvider = (feature: LLMFeature, provider: LLMProvider | null): void => {
+    if (provider) providers.set(feature, provider);
+    else providers.delete(feature);
+};
+
+const browserStorage = (): Storage | undefined => {
+    try {
+        return typeof localStorage !== 'undefined' ? localStorage : undefined;
+    } catch {
+        return undefined; // Blocked in some privacy modes; the cache then only lives for the page
+    }
+};
+
+/**
+ * Generated content reused across visits and reloads (dashboard feed, meal ideas, product picks). Each feature
+ * picks its own TTL; cleared on logout so the next account on the device doesn't see it.
+ */
+export const aiResponseCache = createResponseCache({ storage: browserStorage() });
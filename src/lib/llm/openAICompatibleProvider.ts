@@ -0,0 +1,128 @@
+// src/lib/llm/openAICompatibleProvider.ts
+import { LLMChatRequest, LLMCompletion, LLMCompletionChunk, LLMProvider, LLMProviderError, LLMProviderKind } from './provider';
+
+export interface OpenAICompatibleProviderConfig {
+    /** Server root including the version, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp) */
+    baseUrl: string;
+    /** Sent as a bearer token when set; local servers usually don't need one */
+    apiKey?: string;
+    model: string;
+    /** Reported as the provider kind (and on its errors); defaults to 'openai' */
+    kind?: LLMProviderKind;
+    /** Extra headers per request, e.g. a fresh auth token */
+    getHeaders?: () => Promise<Record<string, string>>;
+    /** Extra fields sent with every request body */
+    extraBody?: Record<string, unknown>;
+}
+
+// The parts of an OpenAI chat completion response that we read
+interface CompletionResponse {
+    choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+}
+interface CompletionChunkResponse {
+    choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+// OpenAI-style servers answer errors with `{ error: { message } }`; fall back to the raw text
+const readErrorMessage = async (response: Response): Promise<string> => {
+    const detail = (await response.text().catch(() => '')).trim();
+    try {
+        const message = JSON.parse(detail)?.error?.message;
+        if (typeof message === 'string' && message) return message;
+    } catch {
+        // Not JSON
+    }
+    return detail || response.statusText || 'Request failed.';
+};
+
+// A web page means the URL points at a site (e.g. the app's own index.html), not a model server
+const isWebPage = (response: Response): boolean => (response.headers.get('Content-Type') ?? '').includes('text/html');
+
+/**
+ * Adapter for any server speaking the OpenAI `/chat/completions` API: a local llama.cpp server, Ollama,
+ * LM Studio or vLLM. Uses fetch directly so no SDK is bundled; streaming reads the server-sent events.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleProviderConfig): LLMProvider => {
+    const kind = config.kind ?? 'openai';
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const post = async (request: LLMChatRequest, stream: boolean): Promise<Response> => {
+        const body = {
+            model: config.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            top_p: request.topP,
+            stop: request.stop ?? undefined,
+            stream,
+            ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+            ...config.extraBody,
+        };
+        const extraHeaders = config.getHeaders ? await config.getHeaders() : {};
+        let response: Response;
+        try {
+            response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}), ...extraHeaders },
+                body: JSON.stringify(body),
+            });
+        } catch (error) {
+            throw new LLMProviderError(kind, `Could not reach the model server at ${config.baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (isWebPage(response)) {
+            throw new LLMProviderError(kind, `${endpoint} answered with a web page instead of a chat completion; check the ${kind === 'proxy' ? 'AI proxy' : 'model server'} address.`, response.ok ? undefined : response.status);
+        }
+        if (!response.ok) {
+            throw new LLMProviderError(kind, await readErrorMessage(response), response.status);
+        }
+        return response;
+    };
+
+    return {
+        kind,
+        model: config.model,
+        isAvailable: !!config.baseUrl,
+
+        async chat(request: LLMChatRequest): Promise<LLMCompletion> {
+            const response = await post(request, false);
+            let data: CompletionResponse;
+            try {
+                data = await response.json();
+            } catch {
+                throw new LLMProviderError(kind, `${endpoint} did not answer with JSON; check the ${kind === 'proxy' ? 'AI proxy' : 'model server'} address.`);
+            }
+            const choice = data.choices?.[0];
+            return { content: choice?.message?.content ?? null, finishReason: choice?.finish_reason ?? null };
+        },
+
+        async *stream(request: LLMChatRequest): AsyncIterable<LLMCompletionChunk> {
+            const response = await post(request, true);
+            if (!response.body) throw new LLMProviderError(kind, "The model server returned no stream.");
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffered += decoder.decode(value, { stream: true });
+                    // Events are separated by newlines; keep any partial line for the next read
+                    const lines = buffered.split('\n');
+                    buffered = lines.pop() ?? '';
+                    for (const line of lines) {
+                        const data = line.trim();
+                        if (!data.startsWith('data:')) continue;
+                        const payload = data.slice(5).trim();
+                        if (payload === '[DONE]') return;
+                        let chunk: CompletionChunkResponse;
+                        try { chunk = JSON.parse(payload); } catch { continue; }
+                        const choice = chunk.choices?.[0];
+                        yield { text: choice?.delta?.content ?? '', finishReason: choice?.finish_reason ?? null };
+                    }
+                }
+            } finally {
+                reader.releaseLock();
+            }
+        },
+    };
+};
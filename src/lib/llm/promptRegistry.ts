@@ -0,0 +1,60 @@
+// src/lib/llm/promptRegistry.ts
+import type { LLMFeature, LLMMessage } from './provider';
+
+// --- Types ---
+
+/**
+ * A prompt the app sends, under a stable ID and a version. Bump `version` whenever the wording changes, so
+ * evaluation reports and recorded responses (see src/lib/evals) stay tied to the text they were made with.
+ */
+export interface PromptDefinition<Input = unknown> {
+    /** Stable name, e.g. 'symptomChecker' */
+    id: string;
+    version: number;
+    /** Feature whose provider and model answer the prompt */
+    feature: LLMFeature;
+    description: string;
+    /** The messages sent to the model for `input`, exactly as the app sends them */
+    messages(input: Input): LLMMessage[];
+}
+
+export interface PromptRegistry {
+    /** The newest version of every prompt */
+    list(): PromptDefinition[];
+    /** A prompt by ID; the newest version unless `version` is given */
+    get(id: string, version?: number): PromptDefinition | undefined;
+    /** Registered versions of a prompt, oldest first */
+    versions(id: string): number[];
+}
+
+// --- Helpers ---
+
+/** Declares a prompt; only exists so `Input` is inferred from `messages`. */
+export const definePrompt = <Input>(definition: PromptDefinition<Input>): PromptDefinition<Input> => definition;
+
+/** `symptomChecker@2` */
+export const getPromptKey = (prompt: Pick<PromptDefinition, 'id' | 'version'>): string => `${prompt.id}@${prompt.version}`;
+
+/**
+ * Collects prompt definitions. Older versions can stay registered next to a new one so both can be evaluated.
+ * @throws {Error} When the same ID and version is registered twice.
+ */
+export const createPromptRegistry = (definitions: PromptDefinition[]): PromptRegistry => {
+    const byId = new Map<string, PromptDefinition[]>();
+    definitions.forEach(definition => {
+        const versions = byId.get(definition.id) ?? [];
+        if (versions.some(existing => existing.version === definition.version)) {
+            throw new Error(`Prompt ${getPromptKey(definition)} is registered twice.`);
+        }
+        byId.set(definition.id, [...versions, definition].sort((a, b) => a.version - b.version));
+    });
+
+    return {
+        list: () => Array.from(byId.values(), versions => versions[versions.length - 1]),
+        get: (id, version) => {
+            const versions = byId.get(id) ?? [];
+            return version === undefined ? versions[versions.length - 1] : versions.find(definition => definition.version === version);
+        },
+        versions: id => (byId.get(id) ?? []).map(definition => definition.version),
+    };
+};
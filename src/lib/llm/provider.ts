@@ -0,0 +1,86 @@
+// src/lib/llm/provider.ts
+
+// --- Message Types ---
+// The OpenAI chat format, which Groq, llama.cpp and Ollama all accept. Kept to the parts the app sends.
+
+export interface LLMTextContentPart { type: 'text'; text: string }
+export interface LLMImageContentPart { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } }
+export type LLMContentPart = LLMTextContentPart | LLMImageContentPart;
+
+export type LLMMessage =
+    | { role: 'system'; content: string }
+    | { role: 'user'; content: string | LLMContentPart[] }
+    | { role: 'assistant'; content: string | null };
+
+// --- Request & Response Types ---
+
+export interface LLMChatRequest {
+    messages: LLMMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+    stop?: string | string[] | null;
+    /** JSON mode: the model must answer with one JSON object (the prompt should still describe it) */
+    json?: boolean;
+}
+
+/**
+ * Why generation stopped: 'stop' (finished), 'length' (hit maxTokens), 'content_filter', 'tool_calls', or
+ * whatever else the server reports. null when it didn't say.
+ */
+export type LLMFinishReason = string | null;
+
+export interface LLMCompletion {
+    content: string | null;
+    finishReason: LLMFinishReason;
+}
+
+/** One piece of a streamed answer. `finishReason` is set on the last chunk. */
+export interface LLMCompletionChunk {
+    text: string;
+    finishReason: LLMFinishReason;
+}
+
+// --- Provider Contract ---
+
+/** Identifies which adapter answers a feature's requests. */
+export type LLMProviderKind = 'groq' | 'openai' | 'proxy' | 'fixture';
+
+/** The app's uses of a model; each can run on its own provider and model (see index.ts). */
+export type LLMFeature = 'chat' | 'moderation' | 'meals' | 'exercises' | 'products' | 'productsGeneral' | 'formatting';
+
+/**
+ * A chat model behind one of the adapters. `chat` returns the whole answer; `stream` yields it as it is
+ * generated. Both throw LLMProviderError for failed requests, so callers can handle every adapter alike.
+ */
+export interface LLMProvider {
+    kind: LLMProviderKind;
+    /** Model every request goes to */
+    model: string;
+    /** False when the adapter is missing its configuration (e.g. no API key); requests then throw */
+    isAvailable: boolean;
+    chat(request: LLMChatRequest): Promise<LLMCompletion>;
+    stream(request: LLMChatRequest): AsyncIterable<LLMCompletionChunk>;
+}
+
+/** A failed model request. `status` is the HTTP status when the server answered, e.g. 401 or 429. */
+export class LLMProviderError extends Error {
+    readonly provider: LLMProviderKind;
+    readonly status?: number;
+
+    constructor(provider: LLMProviderKind, message: string, status?: number) {
+        super(message);
+        this.name = 'LLMProviderError';
+        this.provider = provider;
+        this.status = status;
+    }
+}
+
+// --- Helpers ---
+
+/** The text of a message, without any images. */
+export const getMessageText = (message: LLMMessage): string => {
+    if (typeof message.content === 'string') return message.content;
+    if (!message.content) return '';
+    return message.content.filter((part): part is LLMTextContentPart => part.type === 'text').map(part => part.text).join('\n');
+};
@@ -0,0 +1,85 @@
+// src/lib/llm/proxyProvider.ts
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMChatRequest, LLMCompletionChunk, LLMFeature, LLMProvider, LLMProviderError } from './provider';
+
+/** Caches the session token between requests; `clear` forces a fresh one (e.g. after a 401). */
+export interface SessionTokenSource {
+    get(): Promise<string>;
+    clear(): void;
+}
+
+export interface ProxyProviderConfig {
+    /** Root of the momcare-backend server, e.g. http://localhost:3001 */
+    baseUrl: string;
+    feature: LLMFeature;
+    tokens: SessionTokenSource;
+}
+
+/**
+ * Wraps a token factory (Appwrite JWTs live 15 minutes) so one token serves every feature until shortly
+ * before it expires.
+ */
+export const createSessionTokenSource = (createToken: () => Promise<string>, ttlMs: number = 10 * 60 * 1000): SessionTokenSource => {
+    let cached: { token: string; expiresAt: number } | null = null;
+    let pending: Promise<string> | null = null;
+    return {
+        async get() {
+            if (cached && cached.expiresAt > Date.now()) return cached.token;
+            // Concurrent requests (e.g. moderating a title and a post) share one token request
+            pending ??= createToken()
+                .then(token => { cached = { token, expiresAt: Date.now() + ttlMs }; return token; })
+                .finally(() => { pending = null; });
+            return pending;
+        },
+        clear() {
+            cached = null;
+        },
+    };
+};
+
+/**
+ * Sends a feature's requests through the backend AI proxy (momcare-backend/src/lib/aiProxy.ts), which holds
+ * the provider API key, checks the user's session and applies rate limits. The server picks the model for the
+ * feature, so `model` here is only a label.
+ */
+export const createProxyProvider = (config: ProxyProviderConfig): LLMProvider => {
+    const getHeaders = async (): Promise<Record<string, string>> => {
+        try {
+            return { Authorization: `Bearer ${await config.tokens.get()}` };
+        } catch {
+            throw new LLMProviderError('proxy', "Sign in to use AI features.", 401);
+        }
+    };
+
+    const inner = createOpenAICompatibleProvider({
+        kind: 'proxy',
+        baseUrl: `${config.baseUrl.replace(/\/+$/, '')}/ai`,
+        model: `server:${config.feature}`,
+        getHeaders,
+        extraBody: { feature: config.feature },
+    });
+
+    // A rejected token may just be stale (e.g. after signing in again); fetch a new one next time
+    const forgetTokenOn401 = (error: unknown) => {
+        if (error instanceof LLMProviderError && error.status === 401) config.tokens.clear();
+        return error;
+    };
+
+    return {
+        ...inner,
+        async chat(request: LLMChatRequest) {
+            try {
+                return await inner.chat(request);
+            } catch (error) {
+                throw forgetTokenOn401(error);
+            }
+        },
+        async *stream(request: LLMChatRequest): AsyncIterable<LLMCompletionChunk> {
+            try {
+                yield* inner.stream(request);
+            } catch (error) {
+                throw forgetTokenOn401(error);
+            }
+        },
+    };
+};
@@ -0,0 +1,151 @@
+// src/lib/llm/responseCache.ts
+import { getPromptKey, PromptDefinition } from './promptRegistry';
+import { getMessageText, LLMMessage } from './provider';
+
+// --- Types ---
+
+export interface CachedRequestOptions {
+    /** Skip any cached answer and store the new one (the "refresh" buttons) */
+    refresh?: boolean;
+}
+
+/**
+ * Remembers generated answers per prompt version and input, so revisiting a page shows the same content
+ * instead of paying for a new generation. Identical requests made while one is running share its result.
+ */
+export interface ResponseCache {
+    /**
+     * The cached answer for `prompt` sent as `messages`, or the result of `generate` (stored for `ttlMs`).
+     * Failed generations are not stored.
+     */
+    getOrGenerate<T>(
+        prompt: Pick<PromptDefinition, 'id' | 'version'>,
+        messages: LLMMessage[],
+        ttlMs: number,
+        generate: () => Promise<T>,
+        options?: CachedRequestOptions
+    ): Promise<T>;
+    /** Forgets every answer, e.g. on logout; requests still running are not stored or shared */
+    clear(): void;
+}
+
+export interface ResponseCacheConfig {
+    /** Where answers persist across reloads; memory only when omitted or unusable (e.g. privacy modes) */
+    storage?: Storage;
+    /** Key of the storage item holding every entry */
+    storageKey?: string;
+    /** Oldest entries are dropped beyond this, to stay well inside the storage quota */
+    maxEntries?: number;
+    now?: () => number;
+}
+
+interface CacheEntry {
+    value: unknown;
+    storedAt: number;
+    expiresAt: number;
+}
+
+// --- Keys ---
+
+// 53-bit string hash (cyrb53); short keys without pulling in a crypto API that isn't synchronous in browsers
+const hashText = (text: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * `mealSuggestions@1:<hash>`. The rendered messages stand in for the inputs: they hold exactly the fields that
+ * shape the answer, already normalised by the prompt builders (e.g. the pregnancy stage rather than raw dates),
+ * so unrelated profile edits keep the entry and any relevant change, or a new prompt version, misses it.
+ */
+export const getResponseCacheKey = (prompt: Pick<PromptDefinition, 'id' | 'version'>, messages: LLMMessage[]): string => {
+    const normalised = messages.map(message => `${message.role}:${getMessageText(message).replace(/\s+/g, ' ').trim()}`).join('\n');
+    return `${getPromptKey(prompt)}:${hashText(normalised)}`;
+};
+
+// --- Cache ---
+
+export const createResponseCache = (config: ResponseCacheConfig = {}): ResponseCache => {
+    const { storage, storageKey = 'momcare.aiResponseCache', maxEntries = 50, now = Date.now } = config;
+    const inFlight = new Map<string, Promise<unknown>>();
+    let entries: Record<string, CacheEntry> | null = null;
+    // Bumped by clear(); generations started before it don't write their answers back
+    let generation = 0;
+
+    const load = (): Record<string, CacheEntry> => {
+        if (entries) return entries;
+        entries = {};
+        try {
+            const stored = storage?.getItem(storageKey);
+            if (stored) entries = JSON.parse(stored) as Record<string, CacheEntry>;
+        } catch {
+            // Unreadable or corrupt; start empty
+        }
+        return entries;
+    };
+
+    const save = () => {
+        if (!storage || !entries) return;
+        const time = now();
+        const kept = Object.entries(entries)
+            .filter(([, entry]) => entry.expiresAt > time)
+            .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+            .slice(0, maxEntries);
+        entries = Object.fromEntries(kept);
+        try {
+            storage.setItem(storageKey, JSON.stringify(entries));
+        } catch {
+            // Quota exceeded or storage disabled; the entries still live in memory for this page
+        }
+    };
+
+    return {
+        getOrGenerate<T>(
+            prompt: Pick<PromptDefinition, 'id' | 'version'>,
+            messages: LLMMessage[],
+            ttlMs: number,
+            generate: () => Promise<T>,
+            options: CachedRequestOptions = {}
+        ): Promise<T> {
+            const key = getResponseCacheKey(prompt, messages);
+            // A refresh joins a running request too: its answer is just as new
+            const running = inFlight.get(key);
+            if (running) return running as Promise<T>;
+
+            const cached = load()[key];
+            if (!options.refresh && cached && cached.expiresAt > now()) return Promise.resolve(cached.value as T);
+
+            const startedIn = generation;
+            const request = generate()
+                .then(value => {
+                    if (startedIn !== generation) return value;
+                    const storedAt = now();
+                    load()[key] = { value, storedAt, expiresAt: storedAt + ttlMs };
+                    save();
+                    return value;
+                })
+                .finally(() => { if (inFlight.get(key) === request) inFlight.delete(key); });
+            inFlight.set(key, request);
+            return request;
+        },
+
+        clear() {
+            generation++;
+            inFlight.clear();
+            entries = {};
+            try {
+                storage?.removeItem(storageKey);
+            } catch {
+                // Storage unavailable; nothing persisted
+            }
+        },
+    };
+};
@@ -0,0 +1,166 @@
+// src/lib/llm/structuredOutput.ts
+import { z } from 'zod';
+import { LLMChatRequest, LLMFinishReason, LLMMessage, LLMProvider } from './provider';
+
+// --- Types ---
+
+/** Top-level JSON value a prompt asks for. */
+export type StructuredOutputShape = 'object' | 'array';
+
+/**
+ * Why structured generation failed: 'filtered' (blocked by the provider's safety filter), 'stopped' (any
+ * other explicit finish reason; a missing one counts as 'stop') or 'invalid' (the answer still didn't match
+ * the schema after repairs).
+ */
+export type StructuredOutputFailure = 'filtered' | 'stopped' | 'invalid';
+
+/** A model answer that couldn't be turned into the expected data. `issues` lists each problem found. */
+export class StructuredOutputError extends Error {
+    readonly failure: StructuredOutputFailure;
+    readonly issues: string[];
+    readonly finishReason: LLMFinishReason;
+
+    constructor(failure: StructuredOutputFailure, message: string, issues: string[] = [], finishReason: LLMFinishReason = null) {
+        super(message);
+        this.name = 'StructuredOutputError';
+        this.failure = failure;
+        this.issues = issues;
+        this.finishReason = finishReason;
+    }
+}
+
+export type StructuredParseResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+export interface StructuredOutputOptions {
+    /** Names the data in errors and logs, e.g. "meal suggestions" */
+    label: string;
+    /** Defaults to 'object' */
+    shape?: StructuredOutputShape;
+    /** Follow-up requests asking the model to fix an invalid answer. Defaults to 1. */
+    repairAttempts?: number;
+}
+
+export interface StructuredOutput<T> {
+    data: T;
+    finishReason: LLMFinishReason;
+    /** Requests made, including repairs */
+    attempts: number;
+}
+
+// --- Schema Building Blocks ---
+// Models drift in small ways (stray whitespace, "breakfast" for "Breakfast", a blank optional field); these
+// normalise that instead of rejecting the answer.
+
+/** A string that must not be blank; trimmed. */
+export const requiredText = () => z.string().trim().min(1, 'must not be empty');
+
+/** An optional string; blank or non-string values become undefined. */
+export const optionalText = () =>
+    z.preprocess(value => (typeof value === 'string' && value.trim() ? value.trim() : undefined), z.string().optional());
+
+/** A list of strings with blank entries removed; a missing list becomes []. */
+export const textList = () =>
+    z.preprocess(
+        value => (value == null ? [] : Array.isArray(value) ? value.filter(item => typeof item !== 'string' || item.trim()).map(item => (typeof item === 'string' ? item.trim() : item)) : value),
+        z.array(z.string()),
+    );
+
+/** One of a fixed set of labels, matched case-insensitively; anything else becomes `fallback`. */
+export const choiceOf = <T extends string>(values: readonly T[], fallback: T) =>
+    z.string().transform((value): T => values.find(v => v.toLowerCase() === value.trim().toLowerCase()) ?? fallback);
+
+// --- Parsing ---
+
+/** `meals[1].name: Required` */
+const formatIssues = (error: z.ZodError): string[] =>
+    error.issues.map(issue => {
+        const path = issue.path.reduce<string>((text, key) => (typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${key}` : key), '');
+        return `${path || 'response'}: ${issue.message}`;
+    });
+
+/**
+ * Pulls the JSON value out of a model answer, repairing the usual slips: markdown fences, text around the
+ * JSON and trailing commas. Returns the parsed value or a description of what was wrong.
+ */
+export const extractJson = (text: string, shape: StructuredOutputShape = 'object'): StructuredParseResult<unknown> => {
+    const [open, close] = shape === 'array' ? ['[', ']'] : ['{', '}'];
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const start = unfenced.indexOf(open);
+    const end = unfenced.lastIndexOf(close);
+    if (start === -1 || end < start) {
+        return { success: false, issues: [`response: expected a JSON ${shape}, but none was found`] };
+    }
+    const candidate = unfenced.substring(start, end + 1);
+    try {
+        return { success: true, data: JSON.parse(candidate) };
+    } catch {
+        // Retry without trailing commas before reporting the original error
+    }
+    try {
+        return { success: true, data: JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1')) };
+    } catch (error) {
+        return { success: false, issues: [`response: invalid JSON (${error instanceof Error ? error.message : String(error)})`] };
+    }
+};
+
+/** Extracts and validates a model answer against `schema`. */
+export const parseStructuredOutput = <T>(
+    text: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    shape: StructuredOutputShape = 'object'
+): StructuredParseResult<T> => {
+    const json = extractJson(text, shape);
+    if (json.success === false) return json;
+    const result = schema.safeParse(json.data);
+    return result.success ? { success: true, data: result.data } : { success: false, issues: formatIssues(result.error) };
+};
+
+// --- Generation ---
+
+const createRepairMessage = (issues: string[], shape: StructuredOutputShape): LLMMessage => ({
+    role: 'user',
+    content: `Your previous answer could not be used:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n` +
+        `Reply again with the complete corrected JSON ${shape} only, following the original format instructions. No other text.`,
+});
+
+/**
+ * Sends `request` and returns the answer validated against `schema`. When the answer isn't valid JSON or
+ * doesn't match, the model is shown its answer with the problems listed and asked to fix it, up to
+ * `repairAttempts` times.
+ *
+ * @throws {StructuredOutputError} When generation stops early or the answer is still invalid.
+ * @throws {LLMProviderError} When a request fails.
+ */
+export const chatForStructuredOutput = async <T>(
+    llm: LLMProvider,
+    request: LLMChatRequest,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: StructuredOutputOptions
+): Promise<StructuredOutput<T>> => {
+    const { label, shape = 'object', repairAttempts = 1 } = options;
+    const messages = [...request.messages];
+    let issues: string[] = [];
+    let finishReason: LLMFinishReason = null;
+
+    for (let attempt = 1; attempt <= repairAttempts + 1; attempt++) {
+        const completion = await llm.chat({ ...request, messages });
+        finishReason = completion.finishReason;
+        // Some servers leave the reason out; only an explicit other reason (content_filter, tool_calls, ...) is a failure
+        if (finishReason && finishReason !== 'stop' && finishReason !== 'length') {
+            if (typeof finishReason === 'string' && finishReason.toLowerCase().includes('filter')) {
+                throw new StructuredOutputError('filtered', `AI generation blocked for safety/content reasons (${finishReason}).`, [], finishReason);
+            }
+            throw new StructuredOutputError('stopped', `AI generation stopped unexpectedly (Reason: ${finishReason}).`, [], finishReason);
+        }
+
+        const parsed = parseStructuredOutput(completion.content ?? '', schema, shape);
+        if (parsed.success === true) return { data: parsed.data, finishReason, attempts: attempt };
+
+        issues = finishReason === 'length' ? [...parsed.issues, 'response: the answer was cut off; keep it shorter'] : parsed.issues;
+        messages.push({ role: 'assistant', content: completion.content ?? '' }, createRepairMessage(issues, shape));
+    }
+
+    const shown = issues.slice(0, 3).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    throw new StructuredOutputError('invalid', `Couldn't read the AI's ${label}: ${shown}${more}. Please try again.`, issues, finishReason);
+};
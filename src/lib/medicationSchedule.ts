@@ -0,0 +1,261 @@
+// src/lib/medicationSchedule.ts
+import { addDays, addMinutes, differenceInCalendarDays, format, isValid, parseISO, startOfDay, subDays } from 'date-fns';
+import type { MedicationReminder, MedicationDoseEvent } from './appwrite';
+
+// --- Types ---
+
+export type MedicationScheduleType = 'daily' | 'interval' | 'weekdays' | 'as_needed';
+
+/**
+ * When doses are due. Stored as JSON in `MedicationReminder.schedule`; `frequency` and `times`
+ * are still written (as a description and the dose times) for older clients, the AI context and exports.
+ */
+export interface MedicationSchedule {
+    type: MedicationScheduleType;
+    /** "HH:mm" dose times for 'daily' and 'weekdays'; for 'interval' the first dose of the course */
+    times: string[];
+    /** 'interval' only: hours between doses */
+    everyHours?: number;
+    /** 'weekdays' only: 0 = Sunday ... 6 = Saturday */
+    weekdays?: number[];
+    /** 'as_needed' only: optional daily limit shown to the user */
+    maxDosesPerDay?: number;
+    /** First day of the course (yyyy-MM-dd, local time) */
+    startDate?: string;
+    /** Last day of the course, inclusive; open-ended when missing */
+    endDate?: string;
+}
+
+export type DoseStatus = MedicationDoseEvent['status'] | 'upcoming' | 'due' | 'missed';
+
+/** One scheduled dose and what happened to it. */
+export interface DoseSlot {
+    scheduledAt: Date;
+    /** Matches `toDoseKey(event.scheduledAt)` */
+    key: string;
+    status: DoseStatus;
+    /** Latest event logged for this dose */
+    event?: MedicationDoseEvent;
+}
+
+export interface AdherenceSummary {
+    /** Doses that were due in the window */
+    scheduled: number;
+    taken: number;
+    skipped: number;
+    missed: number;
+    /** Due but still within the grace period (or snoozed); not counted either way yet */
+    pending: number;
+    /** Taken / (taken + skipped + missed) as 0-100; null for as-needed medications or when nothing was due */
+    percent: number | null;
+    /** As-needed doses logged in the window */
+    asNeededTaken: number;
+}
+
+// --- Constants ---
+
+export const medicationScheduleTypeLabels: Record<MedicationScheduleType, string> = {
+    daily: 'Every day',
+    interval: 'Every few hours',
+    weekdays: 'Specific days',
+    as_needed: 'As needed',
+};
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const doseStatusLabels: Record<DoseStatus, string> = {
+    taken: 'Taken', skipped: 'Skipped', snoozed: 'Snoozed', upcoming: 'Upcoming', due: 'Due', missed: 'Missed',
+};
+
+/** A dose with no event this long after it was due (or after a snooze ran out) counts as missed. */
+export const DOSE_GRACE_MINUTES = 120;
+export const DEFAULT_SNOOZE_MINUTES = 30;
+/** Windows used for the adherence percentages shown to patients and doctors. */
+export const ADHERENCE_WINDOWS_DAYS = [7, 30];
+/** Upper bound on a generated window, so a bad range can't loop for years. */
+const MAX_SCHEDULE_DAYS = 366;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// --- Parsing ---
+
+/** Schedules implied by the fixed frequency options offered before structured schedules existed. */
+const legacyFrequencySchedules: Record<string, Pick<MedicationSchedule, 'type' | 'times' | 'everyHours'>> = {
+    'daily': { type: 'daily', times: ['09:00'] },
+    'twice daily': { type: 'daily', times: ['09:00', '21:00'] },
+    'three times daily': { type: 'daily', times: ['08:00', '14:00', '20:00'] },
+    'every other day': { type: 'interval', times: ['09:00'], everyHours: 48 },
+    'weekly': { type: 'weekdays', times: ['09:00'] },
+    'as needed': { type: 'as_needed', times: [] },
+};
+
+const normalizeTimes = (times: string[] | undefined): string[] =>
+    [...new Set((times ?? []).map(t => t.trim()).filter(t => TIME_PATTERN.test(t)).map(t => t.padStart(5, '0')))].sort();
+
+/**
+ * The reminder's schedule. Reminders saved before `schedule` existed are read from their
+ * `frequency` and `times`, starting on the day they were created.
+ */
+export const parseMedicationSchedule = (reminder: Pick<MedicationReminder, 'schedule' | 'frequency' | 'times' | '$createdAt'>): MedicationSchedule => {
+    if (reminder.schedule) {
+        try {
+            const parsed = JSON.parse(reminder.schedule) as MedicationSchedule;
+            if (parsed && typeof parsed === 'object' && parsed.type in medicationScheduleTypeLabels) return { ...parsed, times: normalizeTimes(parsed.times) };
+        } catch {
+            // Fall through to the legacy fields
+        }
+    }
+    const createdAt = reminder.$createdAt ? parseISO(reminder.$createdAt) : null;
+    const startDate = createdAt && isValid(createdAt) ? format(createdAt, 'yyyy-MM-dd') : undefined;
+    const times = normalizeTimes(reminder.times);
+    const legacy = legacyFrequencySchedules[reminder.frequency?.trim().toLowerCase() ?? ''];
+    if (!legacy) return times.length > 0 ? { type: 'daily', times, startDate } : { type: 'as_needed', times: [], startDate };
+    const schedule: MedicationSchedule = { ...legacy, times: times.length > 0 && legacy.type !== 'as_needed' ? times : legacy.times, startDate };
+    if (schedule.type === 'weekdays') schedule.weekdays = [createdAt && isValid(createdAt) ? createdAt.getDay() : 1];
+    if (schedule.type === 'interval') schedule.times = schedule.times.slice(0, 1);
+    return schedule;
+};
+
+export const serializeMedicationSchedule = (schedule: MedicationSchedule): string => JSON.stringify({ ...schedule, times: normalizeTimes(schedule.times) });
+
+/** Problem with a schedule entered by the user, or null if it can be saved. */
+export const validateMedicationSchedule = (schedule: MedicationSchedule): string | null => {
+    const times = normalizeTimes(schedule.times);
+    if ((schedule.type === 'daily' || schedule.type === 'weekdays') && times.length === 0) return "Add at least one dose time.";
+    if (schedule.type === 'weekdays' && !schedule.weekdays?.length) return "Choose at least one day of the week.";
+    if (schedule.type === 'interval') {
+        if (!schedule.everyHours || schedule.everyHours < 1 || schedule.everyHours > 168) return "Hours between doses must be between 1 and 168.";
+        if (times.length === 0) return "Set the time of the first dose.";
+        if (!schedule.startDate) return "Set the start date for an every-few-hours schedule.";
+    }
+    if (schedule.maxDosesPerDay !== undefined && (schedule.maxDosesPerDay < 1 || !Number.isInteger(schedule.maxDosesPerDay))) return "Daily limit must be a whole number of doses.";
+    if (schedule.startDate && schedule.endDate && schedule.endDate < schedule.startDate) return "The end date can't be before the start date.";
+    return null;
+};
+
+/** Short human-readable schedule, also saved as the reminder's `frequency`. */
+export const describeMedicationSchedule = (schedule: MedicationSchedule): string => {
+    const times = normalizeTimes(schedule.times).join(', ');
+    let text: string;
+    switch (schedule.type) {
+        case 'interval': text = `Every ${schedule.everyHours} hours${times ? ` from ${times}` : ''}`; break;
+        case 'weekdays': text = `${[...(schedule.weekdays ?? [])].sort().map(d => weekdayLabels[d]).join(', ')} at ${times}`; break;
+        case 'as_needed': text = `As needed${schedule.maxDosesPerDay ? ` (max ${schedule.maxDosesPerDay}/day)` : ''}`; break;
+        default: text = `Daily at ${times}`;
+    }
+    if (schedule.endDate) text += ` until ${format(parseISO(schedule.endDate), 'MMM d')}`;
+    return text;
+};
+
+// --- Dose Times ---
+
+const atTime = (day: Date, time: string): Date => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = startOfDay(day);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+};
+
+/** Dose identity within a reminder: the scheduled time to the minute (UTC ISO prefix). */
+export const toDoseKey = (date: Date | string): string => (typeof date === 'string' ? parseISO(date) : date).toISOString().slice(0, 16);
+
+/** Scheduled dose times in [from, to), oldest first, within the course's start/end dates. As-needed schedules have none. */
+export const getScheduledDoseTimes = (schedule: MedicationSchedule, from: Date, to: Date): Date[] => {
+    const times = normalizeTimes(schedule.times);
+    if (schedule.type === 'as_needed' || times.length === 0 || to <= from) return [];
+    const courseStart = schedule.startDate ? parseISO(schedule.startDate) : null;
+    const courseEnd = schedule.endDate ? addDays(parseISO(schedule.endDate), 1) : null; // Exclusive
+    const windowStart = courseStart && courseStart > from ? courseStart : from;
+    const windowEnd = courseEnd && courseEnd < to ? courseEnd : to;
+    if (windowEnd <= windowStart || differenceInCalendarDays(windowEnd, windowStart) > MAX_SCHEDULE_DAYS) return [];
+
+    const doses: Date[] = [];
+    if (schedule.type === 'interval') {
+        if (!courseStart || !schedule.everyHours || schedule.everyHours <= 0) return [];
+        const stepMs = schedule.everyHours * 60 * 60 * 1000;
+        const anchor = atTime(courseStart, times[0]).getTime();
+        const firstIndex = Math.max(0, Math.ceil((windowStart.getTime() - anchor) / stepMs));
+        for (let t = anchor + firstIndex * stepMs; t < windowEnd.getTime(); t += stepMs) doses.push(new Date(t));
+        return doses;
+    }
+    for (let day = startOfDay(windowStart); day < windowEnd; day = addDays(day, 1)) {
+        if (schedule.type === 'weekdays' && !schedule.weekdays?.includes(day.getDay())) continue;
+        for (const time of times) {
+            const dose = atTime(day, time);
+            if (dose >= windowStart && dose < windowEnd) doses.push(dose);
+        }
+    }
+    return doses;
+};
+
+// --- Dose Status ---
+
+/** Latest event per dose key (events are append-only, so a later "taken" replaces an earlier "snoozed"). */
+const latestEventsByDose = (events: MedicationDoseEvent[], reminderId: string): Map<string, MedicationDoseEvent> => {
+    const byKey = new Map<string, MedicationDoseEvent>();
+    for (const event of events) {
+        if (event.reminderId !== reminderId) continue;
+        const key = toDoseKey(event.scheduledAt);
+        const current = byKey.get(key);
+        if (!current || event.recordedAt > current.recordedAt) byKey.set(key, event);
+    }
+    return byKey;
+};
+
+/** The current event (if any) for one dose of a reminder. */
+export const getLatestDoseEvent = (events: MedicationDoseEvent[], reminderId: string, scheduledAt: Date | string): MedicationDoseEvent | undefined =>
+    latestEventsByDose(events, reminderId).get(toDoseKey(scheduledAt));
+
+const resolveDoseStatus = (scheduledAt: Date, event: MedicationDoseEvent | undefined, now: Date): DoseStatus => {
+    if (event?.status === 'taken' || event?.status === 'skipped') return event.status;
+    const snoozedUntil = event?.status === 'snoozed' && event.snoozedUntil ? parseISO(event.snoozedUntil) : null;
+    if (snoozedUntil && snoozedUntil > now) return 'snoozed';
+    if (scheduledAt > now) return 'upcoming';
+    const dueFrom = snoozedUntil && snoozedUntil > scheduledAt ? snoozedUntil : scheduledAt;
+    return addMinutes(dueFrom, DOSE_GRACE_MINUTES) < now ? 'missed' : 'due';
+};
+
+/** Doses of one reminder in [from, to) with their status at `now`. */
+export const getDoseSlots = (reminder: Pick<MedicationReminder, '$id' | 'schedule' | 'frequency' | 'times' | '$createdAt'>, events: MedicationDoseEvent[], from: Date, to: Date, now: Date = new Date()): DoseSlot[] => {
+    const byKey = latestEventsByDose(events, reminder.$id);
+    return getScheduledDoseTimes(parseMedicationSchedule(reminder), from, to).map(scheduledAt => {
+        const key = toDoseKey(scheduledAt);
+        const event = byKey.get(key);
+        return { scheduledAt, key, status: resolveDoseStatus(scheduledAt, event, now), event };
+    });
+};
+
+/** Today's doses (local day) for the dashboard checklist. */
+export const getTodaysDoseSlots = (reminder: MedicationReminder, events: MedicationDoseEvent[], now: Date = new Date()): DoseSlot[] =>
+    getDoseSlots(reminder, events, startOfDay(now), addDays(startOfDay(now), 1), now);
+
+// --- Adherence ---
+
+/**
+ * Adherence over the last `days` days up to `now`. Doses scheduled before the reminder was added
+ * are ignored, and skipped doses count against adherence just like missed ones.
+ */
+export const calculateAdherence = (reminder: MedicationReminder, events: MedicationDoseEvent[], days: number, now: Date = new Date()): AdherenceSummary => {
+    const createdAt = reminder.$createdAt ? parseISO(reminder.$createdAt) : null;
+    const windowStart = subDays(now, days);
+    const from = createdAt && isValid(createdAt) && createdAt > windowStart ? createdAt : windowStart;
+    const slots = getDoseSlots(reminder, events, from, now, now);
+    const count = (status: DoseStatus) => slots.filter(s => s.status === status).length;
+    const taken = count('taken'), skipped = count('skipped'), missed = count('missed');
+    const counted = taken + skipped + missed;
+    const isAsNeeded = parseMedicationSchedule(reminder).type === 'as_needed';
+    const asNeededTaken = isAsNeeded
+        ? events.filter(e => e.reminderId === reminder.$id && e.status === 'taken' && parseISO(e.scheduledAt) >= windowStart && parseISO(e.scheduledAt) <= now).length
+        : 0;
+    return {
+        scheduled: slots.length, taken, skipped, missed,
+        pending: slots.length - counted,
+        percent: isAsNeeded || counted === 0 ? null : Math.round((taken / counted) * 100),
+        asNeededTaken,
+    };
+};
+
+/** Color class for an adherence percentage (>= 90% good, >= 70% fair). */
+export const adherenceColorClass = (percent: number | null): string => {
+    if (percent === null) return 'text-gray-500';
+    if (percent >= 90) return 'text-green-600';
+    if (percent >= 70) return 'text-amber-600';
+    return 'text-red-600';
+};
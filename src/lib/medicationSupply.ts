@@ -0,0 +1,97 @@
+// src/lib/medicationSupply.ts
+// Refill tracking for medication reminders. `quantityOnHand` is decremented by `dosePerIntake` as doses
+// are logged taken (and given back when a "taken" is undone); the run-out date is predicted by walking
+// the reminder's upcoming scheduled doses. Reminders without a quantity aren't tracked.
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import type { MedicationReminder, MedicationDoseEvent } from './appwrite';
+import { getDoseSlots, getLatestDoseEvent, parseMedicationSchedule } from './medicationSchedule';
+
+// --- Types ---
+
+export type SupplyStatus = 'ok' | 'low' | 'out';
+
+export interface SupplyForecast {
+    quantityOnHand: number;
+    dosePerIntake: number;
+    /** Whole doses the remaining supply covers */
+    dosesLeft: number;
+    /** When the first dose that can't be covered is due; null for as-needed medicines, or when the course ends first */
+    runOutAt: Date | null;
+    daysLeft: number | null;
+    status: SupplyStatus;
+}
+
+export interface RefillWarning {
+    reminder: MedicationReminder;
+    forecast: SupplyForecast;
+}
+
+// --- Constants ---
+
+/** Without a refill threshold, warn when the predicted run-out is this close. */
+export const REFILL_WARNING_DAYS = 7;
+/** How far ahead the run-out date is predicted. */
+const SUPPLY_FORECAST_DAYS = 180;
+
+// --- Stock Changes ---
+
+export const isSupplyTracked = (reminder: Pick<MedicationReminder, 'quantityOnHand'>): boolean =>
+    typeof reminder.quantityOnHand === 'number' && reminder.quantityOnHand >= 0;
+
+const getDosePerIntake = (reminder: Pick<MedicationReminder, 'dosePerIntake'>): number =>
+    typeof reminder.dosePerIntake === 'number' && reminder.dosePerIntake > 0 ? reminder.dosePerIntake : 1;
+
+/**
+ * Units to add to the supply when a dose is logged with `status`: minus one intake when it becomes taken,
+ * plus one when a "taken" is undone, nothing otherwise. Compares against the dose's current event in `events`.
+ */
+export const getDoseStockChange = (reminder: MedicationReminder, events: MedicationDoseEvent[], scheduledAt: Date, status: MedicationDoseEvent['status']): number => {
+    if (!isSupplyTracked(reminder)) return 0;
+    const wasTaken = getLatestDoseEvent(events, reminder.$id, scheduledAt)?.status === 'taken';
+    const isTaken = status === 'taken';
+    if (isTaken === wasTaken) return 0;
+    return isTaken ? -getDosePerIntake(reminder) : getDosePerIntake(reminder);
+};
+
+// --- Forecast ---
+
+/** Remaining supply and predicted run-out for a tracked reminder; null when supply isn't tracked. */
+export const getSupplyForecast = (reminder: MedicationReminder, events: MedicationDoseEvent[] = [], now: Date = new Date()): SupplyForecast | null => {
+    if (!isSupplyTracked(reminder)) return null;
+    const quantityOnHand = reminder.quantityOnHand as number;
+    const dosePerIntake = getDosePerIntake(reminder);
+    const dosesLeft = Math.floor(quantityOnHand / dosePerIntake + 1e-9);
+
+    let runOutAt: Date | null = null;
+    if (parseMedicationSchedule(reminder).type !== 'as_needed') {
+        // Doses already taken or skipped early have been accounted for
+        const upcoming = getDoseSlots(reminder, events, now, addDays(now, SUPPLY_FORECAST_DAYS), now)
+            .filter(slot => slot.status !== 'taken' && slot.status !== 'skipped');
+        runOutAt = upcoming[dosesLeft]?.scheduledAt ?? null;
+    }
+    const daysLeft = runOutAt ? differenceInCalendarDays(runOutAt, now) : null;
+
+    const belowThreshold = typeof reminder.refillThreshold === 'number' && quantityOnHand <= reminder.refillThreshold;
+    const status: SupplyStatus = dosesLeft === 0 ? 'out'
+        : belowThreshold || (daysLeft !== null && daysLeft <= REFILL_WARNING_DAYS) ? 'low'
+        : 'ok';
+    return { quantityOnHand, dosePerIntake, dosesLeft, runOutAt, daysLeft, status };
+};
+
+/** Active reminders that are low or out, soonest run-out first. */
+export const getRefillWarnings = (reminders: MedicationReminder[], events: MedicationDoseEvent[] = [], now: Date = new Date()): RefillWarning[] =>
+    reminders
+        .filter(reminder => reminder.isActive !== false)
+        .map(reminder => ({ reminder, forecast: getSupplyForecast(reminder, events, now) }))
+        .filter((warning): warning is RefillWarning => !!warning.forecast && warning.forecast.status !== 'ok')
+        .sort((a, b) => (a.forecast.daysLeft ?? a.forecast.dosesLeft) - (b.forecast.daysLeft ?? b.forecast.dosesLeft));
+
+/** Short supply summary, e.g. "12 left (6 doses) · runs out around Oct 30". */
+export const describeSupply = (forecast: SupplyForecast): string => {
+    if (forecast.status === 'out') return 'Out of stock';
+    const doses = forecast.dosePerIntake !== 1 ? ` (${forecast.dosesLeft} dose${forecast.dosesLeft === 1 ? '' : 's'})` : '';
+    const runOut = !forecast.runOutAt ? ''
+        : forecast.daysLeft !== null && forecast.daysLeft <= 1 ? ` · runs out ${forecast.daysLeft <= 0 ? 'today' : 'tomorrow'}`
+        : ` · runs out around ${format(forecast.runOutAt, 'MMM d')}`;
+    return `${forecast.quantityOnHand} left${doses}${runOut}`;
+};
@@ -0,0 +1,211 @@
+// src/lib/notifications.ts
+// Local notifications for medication doses and appointments. The app plans what to show over the
+// next day and hands the plan to the service worker (public/sw.js), which shows each notification
+// when it is due and routes the "Taken" / "Snooze" actions back to a tab to be saved.
+// There is no push server: notifications fire while a MomCare tab is open, or from periodic
+// background sync where the browser supports it (installed Chromium apps).
+import { addMinutes, format, parseISO, subMinutes } from 'date-fns';
+import type { Appointment, MedicationReminder, MedicationDoseEvent, UserProfile } from './appwrite';
+import { DOSE_GRACE_MINUTES, getDoseSlots } from './medicationSchedule';
+import { getAppointmentStart } from './appointmentTime';
+import { isAppointmentActive } from './appointmentStatus';
+
+// --- Types ---
+
+export interface NotificationPreferences {
+    /** Master switch for this user (the browser permission is granted per device) */
+    enabled: boolean;
+    medications: boolean;
+    /** Minutes before a scheduled dose to notify; 0 = at the dose time */
+    doseLeadMinutes: number;
+    appointments: boolean;
+    /** One notification per entry, this many minutes before the appointment */
+    appointmentLeadMinutes: number[];
+}
+
+export type NotificationAction = 'taken' | 'snooze';
+
+/** The dose a notification is about, for its Taken / Snooze actions. */
+export interface NotificationDose {
+    reminderId: string;
+    medicationName: string;
+    /** ISO Datetime of the scheduled dose */
+    scheduledAt: string;
+}
+
+export interface PlannedNotification {
+    /** Stable identity, used as the notification tag so re-planning never shows one twice */
+    tag: string;
+    /** ISO Datetime to show it */
+    showAt: string;
+    title: string;
+    body: string;
+    /** Page opened when the notification itself is clicked */
+    url: string;
+    dose?: NotificationDose;
+}
+
+export interface NotificationPlanInput {
+    reminders: MedicationReminder[];
+    doseEvents: MedicationDoseEvent[];
+    appointments: Appointment[];
+    preferences: NotificationPreferences;
+    now?: Date;
+}
+
+// --- Constants ---
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    enabled: false, medications: true, doseLeadMinutes: 0, appointments: true, appointmentLeadMinutes: [60, 24 * 60],
+};
+
+export const doseLeadOptions: { minutes: number; label: string }[] = [
+    { minutes: 0, label: 'At dose time' }, { minutes: 5, label: '5 minutes before' },
+    { minutes: 15, label: '15 minutes before' }, { minutes: 30, label: '30 minutes before' },
+];
+export const appointmentLeadOptions: { minutes: number; label: string }[] = [
+    { minutes: 15, label: '15 minutes' }, { minutes: 60, label: '1 hour' }, { minutes: 120, label: '2 hours' },
+    { minutes: 24 * 60, label: '1 day' }, { minutes: 2 * 24 * 60, label: '2 days' },
+];
+
+/** How far ahead each plan reaches; the app re-plans well before it runs out. */
+export const NOTIFICATION_HORIZON_HOURS = 24;
+/** A notification this late (e.g. the app was closed at the time) is dropped rather than shown. */
+export const NOTIFICATION_STALE_MINUTES = 15;
+/** Periodic background sync tag registered with the service worker. */
+export const NOTIFICATION_SYNC_TAG = 'momcare-notifications';
+const SERVICE_WORKER_URL = '/sw.js';
+
+/** Messages exchanged with public/sw.js (keep the `type` strings in sync with it). */
+export type ServiceWorkerMessage =
+    | { type: 'momcare:plan'; notifications: PlannedNotification[] }
+    | { type: 'momcare:check' }
+    | { type: 'momcare:clear' };
+export interface NotificationActionMessage {
+    type: 'momcare:notification-action';
+    action: NotificationAction;
+    dose: NotificationDose;
+}
+
+// --- Preferences ---
+
+/** `UserProfile.notificationPreferences` (JSON) merged over the defaults. */
+export const parseNotificationPreferences = (profile: Pick<UserProfile, 'notificationPreferences'> | null | undefined): NotificationPreferences => {
+    if (!profile?.notificationPreferences) return DEFAULT_NOTIFICATION_PREFERENCES;
+    try {
+        const parsed = JSON.parse(profile.notificationPreferences) as Partial<NotificationPreferences>;
+        return parsed && typeof parsed === 'object' ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...parsed } : DEFAULT_NOTIFICATION_PREFERENCES;
+    } catch {
+        return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+};
+
+export const serializeNotificationPreferences = (preferences: NotificationPreferences): string =>
+    JSON.stringify({ ...preferences, appointmentLeadMinutes: [...new Set(preferences.appointmentLeadMinutes)].sort((a, b) => a - b) });
+
+const formatLead = (minutes: number): string => {
+    if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day${minutes === 24 * 60 ? '' : 's'}`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+    return `${minutes} minutes`;
+};
+
+// --- Planning ---
+
+/** Notifications due between a little before `now` and the planning horizon, soonest first. */
+export const planNotifications = ({ reminders, doseEvents, appointments, preferences, now = new Date() }: NotificationPlanInput): PlannedNotification[] => {
+    if (!preferences.enabled) return [];
+    const earliest = subMinutes(now, NOTIFICATION_STALE_MINUTES);
+    const horizon = addMinutes(now, NOTIFICATION_HORIZON_HOURS * 60);
+    const inWindow = (at: Date) => at >= earliest && at <= horizon;
+    const planned: PlannedNotification[] = [];
+
+    if (preferences.medications) {
+        const lead = preferences.doseLeadMinutes;
+        for (const reminder of reminders) {
+            if (reminder.isActive === false) continue;
+            const slots = getDoseSlots(reminder, doseEvents, subMinutes(now, DOSE_GRACE_MINUTES), addMinutes(horizon, lead), now);
+            for (const slot of slots) {
+                const dose: NotificationDose = { reminderId: reminder.$id, medicationName: reminder.medicationName, scheduledAt: slot.scheduledAt.toISOString() };
+                const body = `${reminder.dosage} · due at ${format(slot.scheduledAt, 'HH:mm')}`;
+                if (slot.status === 'snoozed' && slot.event?.snoozedUntil) {
+                    const at = parseISO(slot.event.snoozedUntil);
+                    if (inWindow(at)) planned.push({ tag: `dose:${reminder.$id}:${slot.key}:${slot.event.snoozedUntil}`, showAt: at.toISOString(), title: `Time for ${reminder.medicationName}`, body: `${body} (snoozed)`, url: '/dashboard', dose });
+                } else if (slot.status === 'upcoming' || slot.status === 'due') {
+                    const at = subMinutes(slot.scheduledAt, lead);
+                    const title = lead > 0 && at < slot.scheduledAt ? `${reminder.medicationName} in ${formatLead(lead)}` : `Time for ${reminder.medicationName}`;
+                    if (inWindow(at)) planned.push({ tag: `dose:${reminder.$id}:${slot.key}`, showAt: at.toISOString(), title, body, url: '/dashboard', dose });
+                }
+            }
+        }
+    }
+
+    if (preferences.appointments) {
+        for (const app of appointments) {
+            if (!isAppointmentActive(app)) continue; // Cancelled or already done
+            const start = getAppointmentStart(app);
+            if (!start || start <= now) continue;
+            for (const lead of preferences.appointmentLeadMinutes) {
+                const at = subMinutes(start, lead);
+                if (!inWindow(at)) continue;
+                const type = app.appointmentType ? app.appointmentType.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase()) : null;
+                planned.push({
+                    tag: `appointment:${app.$id}:${lead}`, showAt: at.toISOString(),
+                    title: `Appointment in ${formatLead(lead)}`,
+                    body: `${type ? `${type} · ` : ''}${format(start, 'EEE, MMM d')} at ${format(start, 'HH:mm')}${app.notes ? ` · ${app.notes.slice(0, 80)}` : ''}`,
+                    url: '/appointment',
+                });
+            }
+        }
+    }
+
+    return planned.sort((a, b) => a.showAt.localeCompare(b.showAt));
+};
+
+// --- Browser Integration ---
+
+export const isNotificationSupported = (): boolean =>
+    typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+    isNotificationSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+    isNotificationSupported() ? await Notification.requestPermission() : 'unsupported';
+
+/** Registers (or returns the existing) notification service worker and, where supported, periodic background sync. */
+export const registerNotificationServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!isNotificationSupported()) return null;
+    try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        await navigator.serviceWorker.ready;
+        const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> } }).periodicSync;
+        if (periodicSync && Notification.permission === 'granted') {
+            await periodicSync.register(NOTIFICATION_SYNC_TAG, { minInterval: NOTIFICATION_STALE_MINUTES * 60 * 1000 }).catch(() => undefined); // Only allowed for installed apps
+        }
+        return registration;
+    } catch {
+        // Registration failed (e.g. insecure origin or blocked by the browser); the scheduler then shows no notifications
+        return null;
+    }
+};
+
+export const postToServiceWorker = (registration: ServiceWorkerRegistration | null, message: ServiceWorkerMessage): void => {
+    (registration?.active ?? navigator.serviceWorker?.controller)?.postMessage(message);
+};
+
+/** Query parameters used when a notification action has to open a new tab (see public/sw.js). */
+export const NOTIFICATION_ACTION_PARAM = 'notificationAction';
+
+/** Reads (and strips from the URL) a notification action passed to a freshly opened tab. */
+export const consumeNotificationActionFromUrl = (): NotificationActionMessage | null => {
+    if (typeof window === 'undefined') return null;
+    const url = new URL(window.location.href);
+    const action = url.searchParams.get(NOTIFICATION_ACTION_PARAM);
+    const reminderId = url.searchParams.get('reminderId');
+    const scheduledAt = url.searchParams.get('scheduledAt');
+    if ((action !== 'taken' && action !== 'snooze') || !reminderId || !scheduledAt) return null;
+    const medicationName = url.searchParams.get('medicationName') ?? '';
+    for (const param of [NOTIFICATION_ACTION_PARAM, 'reminderId', 'scheduledAt', 'medicationName']) url.searchParams.delete(param);
+    window.history.replaceState(window.history.state, '', url.pathname + url.search + url.hash);
+    return { type: 'momcare:notification-action', action, dose: { reminderId, medicationName, scheduledAt } };
+};
@@ -0,0 +1,182 @@
+// src/lib/pregnancyTimeline.ts
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import type { UserProfile } from './appwrite';
+
+// --- Types ---
+
+/**
+ * Stage of pregnancy used for tips, prompts and the dashboard.
+ * N/A is used when no dating information is available; Error when the dates are inconsistent
+ * (e.g. a last period in the future).
+ */
+export type Trimester = "Pre-conception" | "First" | "Second" | "Third" | "Post-term" | "Postpartum" | "N/A" | "Error";
+
+/** How the pregnancy was conceived. IVF/IUI pregnancies are usually dated by the clinic's due date. */
+export type ConceptionMethod = NonNullable<UserProfile['conceptionMethod']>;
+
+/** Which profile field the timeline was derived from, most reliable first. */
+export type PregnancyDatingSource = 'deliveryDate' | 'estimatedDueDate' | 'lastMenstrualPeriod' | 'weeksPregnant' | 'none';
+
+/** The profile fields the timeline reads. Any object with these (all optional) fields works. */
+export type PregnancyDates = Partial<Pick<UserProfile, 'lastMenstrualPeriod' | 'estimatedDueDate' | 'deliveryDate' | 'conceptionMethod' | 'weeksPregnant'>>;
+
+export interface PregnancyTimeline {
+    source: PregnancyDatingSource;
+    stage: 'pregnant' | 'postpartum' | 'unknown';
+    trimester: Trimester;
+    /** Gestational age in days (null when unknown or after delivery) */
+    gestationalAgeDays: number | null;
+    /** Completed weeks of gestation */
+    weeks: number | null;
+    /** Days past the completed week (0-6); null when only a whole week count is known */
+    days: number | null;
+    /** Estimated due date, when it can be derived from a date */
+    dueDate: Date | null;
+    /** Days until the due date (negative once past it) */
+    daysToGo: number | null;
+    /** 1-based week since delivery */
+    postpartumWeek: number | null;
+}
+
+// --- Constants ---
+/** Naegele's rule: 280 days (40 weeks) from the first day of the last menstrual period. */
+export const PREGNANCY_LENGTH_DAYS = 280;
+/** Beyond this gestational age without a recorded delivery date the baby is assumed to have arrived around the due date. */
+const ASSUMED_DELIVERY_AFTER_DAYS = 44 * 7;
+
+export const conceptionMethodLabels: Record<ConceptionMethod, string> = {
+    natural: 'Natural conception',
+    ivf: 'IVF',
+    iui: 'IUI',
+    other: 'Other / assisted',
+};
+
+// --- Helpers ---
+
+// Appwrite returns datetimes as UTC midnight ISO strings; only the calendar date is meaningful here,
+// so the time part is dropped to keep the day stable across time zones.
+const parseDate = (value: string | null | undefined): Date | null => {
+    if (!value) return null;
+    const parsed = parseISO(value.slice(0, 10));
+    return isValid(parsed) ? startOfDay(parsed) : null;
+};
+
+/** Estimated due date from the first day of the last menstrual period. */
+export const dueDateFromLmp = (lmp: Date): Date => addDays(startOfDay(lmp), PREGNANCY_LENGTH_DAYS);
+/** The LMP-equivalent date for a known due date (what gestational age is counted from). */
+export const lmpFromDueDate = (dueDate: Date): Date => addDays(startOfDay(dueDate), -PREGNANCY_LENGTH_DAYS);
+
+/** Trimester for a number of completed weeks: 1-13 first, 14-27 second, 28-40 third, 41+ post-term. */
+export const getTrimester = (weeks: number | null | undefined): Trimester => {
+    if (weeks === null || weeks === undefined || isNaN(weeks)) return "N/A";
+    if (weeks < 0) return "Error";
+    if (weeks < 1) return "Pre-conception";
+    if (weeks <= 13) return "First";
+    if (weeks <= 27) return "Second";
+    if (weeks <= 40) return "Third";
+    return "Post-term";
+};
+
+const unknownTimeline = (trimester: Trimester = "N/A"): PregnancyTimeline => ({
+    source: 'none', stage: 'unknown', trimester,
+    gestationalAgeDays: null, weeks: null, days: null, dueDate: null, daysToGo: null, postpartumWeek: null,
+});
+
+const postpartumTimeline = (source: PregnancyDatingSource, birth: Date, dueDate: Date | null, today: Date): PregnancyTimeline => ({
+    source, stage: 'postpartum', trimester: "Postpartum",
+    gestationalAgeDays: null, weeks: null, days: null,
+    dueDate, daysToGo: dueDate ? differenceInCalendarDays(dueDate, today) : null,
+    postpartumWeek: Math.floor(differenceInCalendarDays(today, birth) / 7) + 1,
+});
+
+// --- Timeline ---
+
+/**
+ * Computes where a pregnancy stands on a given date (today by default).
+ * Dating priority: delivery date (postpartum) > estimated due date > last menstrual period > the
+ * manually entered `weeksPregnant`, which cannot advance on its own and is only a fallback.
+ */
+export const getPregnancyTimeline = (dates: PregnancyDates | null | undefined, at: Date = new Date()): PregnancyTimeline => {
+    if (!dates) return unknownTimeline();
+    const today = startOfDay(at);
+
+    const deliveryDate = parseDate(dates.deliveryDate);
+    const estimatedDueDate = parseDate(dates.estimatedDueDate);
+    const lmp = parseDate(dates.lastMenstrualPeriod);
+    const dueDate = estimatedDueDate ?? (lmp ? dueDateFromLmp(lmp) : null);
+
+    if (deliveryDate && deliveryDate <= today) return postpartumTimeline('deliveryDate', deliveryDate, dueDate, today);
+
+    if (dueDate) {
+        const source: PregnancyDatingSource = estimatedDueDate ? 'estimatedDueDate' : 'lastMenstrualPeriod';
+        const gestationalAgeDays = differenceInCalendarDays(today, lmpFromDueDate(dueDate));
+        if (gestationalAgeDays < 0) return { ...unknownTimeline("Error"), source, dueDate };
+        if (gestationalAgeDays > ASSUMED_DELIVERY_AFTER_DAYS) return postpartumTimeline(source, dueDate, dueDate, today);
+        const weeks = Math.floor(gestationalAgeDays / 7);
+        return {
+            source, stage: 'pregnant', trimester: getTrimester(weeks),
+            gestationalAgeDays, weeks, days: gestationalAgeDays % 7,
+            dueDate, daysToGo: differenceInCalendarDays(dueDate, today), postpartumWeek: null,
+        };
+    }
+
+    const weeks = typeof dates.weeksPregnant === 'number' && !isNaN(dates.weeksPregnant) ? dates.weeksPregnant : null;
+    if (weeks === null) return unknownTimeline();
+    return {
+        source: 'weeksPregnant', stage: 'pregnant', trimester: getTrimester(weeks),
+        gestationalAgeDays: weeks * 7, weeks, days: null,
+        dueDate: null, daysToGo: PREGNANCY_LENGTH_DAYS - weeks * 7, postpartumWeek: null,
+    };
+};
+
+/** Week count for places that only need an integer (charts, milestones, legacy fields). 0 when unknown. */
+export const getCurrentWeek = (timeline: PregnancyTimeline): number => timeline.weeks ?? 0;
+
+// --- Formatting ---
+
+/** e.g. "24 weeks 3 days", "24 weeks" (when only the week is known), "Postpartum week 2". */
+export const formatGestationalAge = (timeline: PregnancyTimeline): string => {
+    if (timeline.stage === 'postpartum') return `Postpartum week ${timeline.postpartumWeek}`;
+    if (timeline.weeks === null) return 'Unknown';
+    const weekPart = `${timeline.weeks} week${timeline.weeks === 1 ? '' : 's'}`;
+    if (timeline.days === null || timeline.days === 0) return weekPart;
+    return `${weekPart} ${timeline.days} day${timeline.days === 1 ? '' : 's'}`;
+};
+
+/** Human-readable stage: "Second trimester", "Post-term", "Postpartum (week 2)", "Pregnancy stage unknown". */
+export const describePregnancyStage = (timeline: PregnancyTimeline): string => {
+    switch (timeline.trimester) {
+        case "First": case "Second": case "Third": return `${timeline.trimester} trimester`;
+        case "Post-term": return "Post-term";
+        case "Pre-conception": return "Pre-conception / very early pregnancy";
+        case "Postpartum": return `Postpartum (week ${timeline.postpartumWeek})`;
+        case "Error": return "Pregnancy dates look inconsistent";
+        default: return "Pregnancy stage unknown";
+    }
+};
+
+/** "110 days to go", "Due today", "5 days past due date"; null when there is no due date estimate. */
+export const formatDaysToGo = (timeline: PregnancyTimeline): string | null => {
+    if (timeline.daysToGo === null || timeline.stage !== 'pregnant') return null;
+    if (timeline.daysToGo === 0) return 'Due today';
+    const count = Math.abs(timeline.daysToGo);
+    return timeline.daysToGo > 0 ? `${count} day${count === 1 ? '' : 's'} to go` : `${count} day${count === 1 ? '' : 's'} past due date`;
+};
+
+/**
+ * One-line pregnancy stage for AI prompt context, e.g.
+ * "24 weeks 3 days (Second trimester); due Mar 3, 2027, 110 days to go; conceived via IVF".
+ * Returns "Unknown" when the profile has no dating information.
+ */
+export const formatPregnancyStageForContext = (dates: PregnancyDates | null | undefined, at: Date = new Date()): string => {
+    const timeline = getPregnancyTimeline(dates, at);
+    if (timeline.stage === 'unknown') return timeline.trimester === "Error" ? describePregnancyStage(timeline) : 'Unknown';
+
+    const parts: string[] = timeline.stage === 'postpartum'
+        ? [`Postpartum, week ${timeline.postpartumWeek} after birth`]
+        : [`${formatGestationalAge(timeline)} (${describePregnancyStage(timeline)})`];
+    if (timeline.stage === 'pregnant' && timeline.dueDate) parts.push(`due ${format(timeline.dueDate, 'MMM d, yyyy')}, ${formatDaysToGo(timeline)}`);
+    if (timeline.source === 'weeksPregnant') parts.push('self-reported week count, may be out of date');
+    if (dates?.conceptionMethod && dates.conceptionMethod !== 'natural') parts.push(`conceived via ${conceptionMethodLabels[dates.conceptionMethod] ?? dates.conceptionMethod}`);
+    return parts.join('; ');
+};
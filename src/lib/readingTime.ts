@@ -0,0 +1,28 @@
+// src/lib/readingTime.ts
+import { format } from 'date-fns';
+
+/** Value for an `<input type="datetime-local">` (local time, minute precision). */
+export const toDateTimeInputValue = (date: Date | string = new Date()): string => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return isNaN(d.getTime()) ? '' : format(d, "yyyy-MM-dd'T'HH:mm");
+};
+
+export interface ParsedReadingTime {
+    /** ISO Datetime string, or undefined when left blank ("now") */
+    recordedAt: string | undefined;
+    /** User-facing validation message, null when valid */
+    error: string | null;
+}
+
+/**
+ * Parses a datetime-local value entered for a health reading.
+ * Blank means "now"; invalid and future times are rejected (the API enforces the same rule).
+ */
+export const parseReadingTimeInput = (value: string): ParsedReadingTime => {
+    if (!value || !value.trim()) return { recordedAt: undefined, error: null };
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return { recordedAt: undefined, error: "Please enter a valid date and time." };
+    // The input has minute precision, so "now" is allowed up to the end of the current minute
+    if (date.getTime() > Date.now() + 60 * 1000) return { recordedAt: undefined, error: "The reading time can't be in the future." };
+    return { recordedAt: date.toISOString(), error: null };
+};
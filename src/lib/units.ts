@@ -0,0 +1,103 @@
+// src/lib/units.ts
+// Unit conversion and display for weight and blood glucose.
+// Storage units: glucose is always saved in mg/dL; weight keeps the unit it was entered in (WeightReading.unit).
+// Everything shown to the user (or sent to the AI) goes through here to appear in their preferred units.
+import type { BloodSugarReading, WeightReading, UserProfile } from './appwrite';
+
+// --- Types & Constants ---
+
+export type WeightUnit = WeightReading['unit'];
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export interface PreferredUnits {
+    weight: WeightUnit;
+    glucose: GlucoseUnit;
+}
+
+export const DEFAULT_UNITS: PreferredUnits = { weight: 'kg', glucose: 'mg/dL' };
+
+export const weightUnitLabels: Record<WeightUnit, string> = { kg: 'kg', lbs: 'lbs' };
+export const glucoseUnitLabels: Record<GlucoseUnit, string> = { 'mg/dL': 'mg/dL', 'mmol/L': 'mmol/L' };
+
+export const KG_PER_LB = 0.45359237;
+/** Glucose molar mass conversion (180.16 g/mol) */
+export const MG_DL_PER_MMOL_L = 18.0182;
+
+// --- Preferences ---
+
+/**
+ * Reads `UserProfile.preferredUnits`, stored as a list of unit codes (e.g. ['lbs', 'mmol/L']).
+ * Missing or unknown entries fall back to the defaults.
+ */
+export const getPreferredUnits = (profile: Pick<UserProfile, 'preferredUnits'> | null | undefined): PreferredUnits => {
+    const codes = Array.isArray(profile?.preferredUnits) ? profile.preferredUnits : [];
+    return {
+        weight: codes.includes('lbs') ? 'lbs' : codes.includes('kg') ? 'kg' : DEFAULT_UNITS.weight,
+        glucose: codes.includes('mmol/L') ? 'mmol/L' : codes.includes('mg/dL') ? 'mg/dL' : DEFAULT_UNITS.glucose,
+    };
+};
+
+/** Inverse of getPreferredUnits, for saving to the profile. */
+export const toPreferredUnitsField = (units: PreferredUnits): string[] => [units.weight, units.glucose];
+
+// --- Conversion ---
+
+const round = (value: number, decimals: number): number => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+export const convertWeight = (value: number, from: WeightUnit, to: WeightUnit): number => {
+    if (from === to) return value;
+    return from === 'lbs' ? value * KG_PER_LB : value / KG_PER_LB;
+};
+
+export const weightToKg = (value: number, unit: WeightUnit): number => convertWeight(value, unit, 'kg');
+
+export const convertGlucose = (value: number, from: GlucoseUnit, to: GlucoseUnit): number => {
+    if (from === to) return value;
+    return from === 'mmol/L' ? value * MG_DL_PER_MMOL_L : value / MG_DL_PER_MMOL_L;
+};
+
+/** Decimal places conventionally shown for each unit */
+const glucoseDecimals: Record<GlucoseUnit, number> = { 'mg/dL': 0, 'mmol/L': 1 };
+const WEIGHT_DECIMALS = 1;
+
+/** A stored (mg/dL) glucose level in the display unit, rounded for display. */
+export const glucoseForDisplay = (levelMgDl: number, unit: GlucoseUnit): number =>
+    round(convertGlucose(levelMgDl, 'mg/dL', unit), glucoseDecimals[unit]);
+
+/** Glucose typed in the display unit, converted to mg/dL for storage. */
+export const glucoseForStorage = (value: number, unit: GlucoseUnit): number =>
+    round(convertGlucose(value, unit, 'mg/dL'), 1);
+
+export const weightForDisplay = (value: number, from: WeightUnit, to: WeightUnit): number =>
+    round(convertWeight(value, from, to), WEIGHT_DECIMALS);
+
+/** Weekly gain (stored in kg) in the display unit. */
+export const weightRateForDisplay = (kgPerWeek: number, unit: WeightUnit): number =>
+    round(convertWeight(kgPerWeek, 'kg', unit), 2);
+
+// --- Formatting ---
+
+export const formatGlucose = (levelMgDl: number, unit: GlucoseUnit): string =>
+    `${glucoseForDisplay(levelMgDl, unit)} ${glucoseUnitLabels[unit]}`;
+
+export const formatWeight = (value: number, from: WeightUnit, to: WeightUnit): string =>
+    `${weightForDisplay(value, from, to)} ${weightUnitLabels[to]}`;
+
+export const formatBloodSugarReading = (reading: Pick<BloodSugarReading, 'level'>, units: PreferredUnits): string =>
+    formatGlucose(reading.level, units.glucose);
+
+export const formatWeightReading = (reading: Pick<WeightReading, 'weight' | 'unit'>, units: PreferredUnits): string =>
+    formatWeight(reading.weight, reading.unit || 'kg', units.weight);
+
+// --- Charting ---
+
+/** Weight readings with `weight` rewritten in one unit, so mixed kg/lbs histories plot on the same scale. */
+export const normalizeWeightReadings = <T extends Pick<WeightReading, 'weight' | 'unit'>>(readings: T[], unit: WeightUnit): T[] =>
+    readings.map(r => ({ ...r, weight: weightForDisplay(r.weight, r.unit || 'kg', unit), unit }));
+
+/** Blood sugar readings with `level` in the display unit, for charts only (never save these back). */
+export const normalizeBloodSugarReadings = <T extends Pick<BloodSugarReading, 'level'>>(readings: T[], unit: GlucoseUnit): T[] =>
+    unit === 'mg/dL' ? readings : readings.map(r => ({ ...r, level: glucoseForDisplay(r.level, unit) }));
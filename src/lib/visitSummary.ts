@@ -0,0 +1,108 @@
+// src/lib/visitSummary.ts
+// What happened at a completed appointment, written up by a doctor: the vitals taken, findings, next steps and
+// any of the patient's medical documents that belong to the visit. Patients see it on the appointment, and the
+// latest one is given to the chat assistant as context.
+import type { VisitSummary } from './appwrite';
+import { PreferredUnits, DEFAULT_UNITS, formatWeight } from './units';
+
+// --- Types ---
+
+/** Measurements taken at the visit. Weight is always stored in kg; convert at the edges with lib/units.ts. */
+export interface VisitVitals {
+    systolic?: number;
+    diastolic?: number;
+    weightKg?: number;
+    /** Beats per minute */
+    fetalHeartRate?: number;
+    fundalHeightCm?: number;
+    temperatureC?: number;
+}
+
+/** What a doctor enters for a visit (see saveVisitSummary). */
+export interface VisitSummaryInput {
+    vitals?: VisitVitals;
+    findings?: string;
+    nextSteps?: string;
+    /** IDs of the patient's MedicalDocument records */
+    documentIds?: string[];
+}
+
+export interface VisitVitalField {
+    key: keyof VisitVitals;
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+}
+
+// --- Constants ---
+
+/** Vitals in form order, with the range accepted for each (anything outside is almost certainly a typo). */
+export const VISIT_VITAL_FIELDS: ReadonlyArray<VisitVitalField> = [
+    { key: 'systolic', label: 'Systolic', unit: 'mmHg', min: 50, max: 260 },
+    { key: 'diastolic', label: 'Diastolic', unit: 'mmHg', min: 30, max: 180 },
+    { key: 'weightKg', label: 'Weight', unit: 'kg', min: 25, max: 250 },
+    { key: 'fetalHeartRate', label: 'Fetal heart rate', unit: 'bpm', min: 60, max: 240 },
+    { key: 'fundalHeightCm', label: 'Fundal height', unit: 'cm', min: 5, max: 50 },
+    { key: 'temperatureC', label: 'Temperature', unit: '°C', min: 33, max: 43 },
+];
+
+export const VISIT_SUMMARY_TEXT_MAX_LENGTH = 4000;
+
+// --- Parsing & Validation ---
+
+/** Vitals stored on a summary; unknown keys and non-numbers are dropped. */
+export const parseVisitVitals = (json: string | null | undefined): VisitVitals => {
+    if (!json) return {};
+    try {
+        const parsed = JSON.parse(json);
+        if (!parsed || typeof parsed !== 'object') return {};
+        const vitals: VisitVitals = {};
+        for (const field of VISIT_VITAL_FIELDS) {
+            const value = parsed[field.key];
+            if (typeof value === 'number' && Number.isFinite(value)) vitals[field.key] = value;
+        }
+        return vitals;
+    } catch {
+        return {};
+    }
+};
+
+/** Problem with a summary, for showing to the doctor; null when it can be saved. */
+export const validateVisitSummaryInput = (input: VisitSummaryInput): string | null => {
+    const vitals = input.vitals ?? {};
+    for (const field of VISIT_VITAL_FIELDS) {
+        const value = vitals[field.key];
+        if (value === undefined) continue;
+        if (!Number.isFinite(value) || value < field.min || value > field.max) {
+            return `${field.label} must be between ${field.min} and ${field.max} ${field.unit}.`;
+        }
+    }
+    if ((vitals.systolic === undefined) !== (vitals.diastolic === undefined)) return "Enter both systolic and diastolic blood pressure.";
+    if (vitals.systolic !== undefined && vitals.systolic <= vitals.diastolic) return "Systolic pressure must be above diastolic.";
+    if ((input.findings?.length ?? 0) > VISIT_SUMMARY_TEXT_MAX_LENGTH || (input.nextSteps?.length ?? 0) > VISIT_SUMMARY_TEXT_MAX_LENGTH) {
+        return `Findings and next steps can be at most ${VISIT_SUMMARY_TEXT_MAX_LENGTH} characters each.`;
+    }
+    const hasVitals = Object.values(vitals).some(value => value !== undefined);
+    if (!hasVitals && !input.findings?.trim() && !input.nextSteps?.trim() && !input.documentIds?.length) {
+        return "Add vitals, findings, next steps or a document before saving.";
+    }
+    return null;
+};
+
+// --- Formatting ---
+
+/** One line per recorded vital, e.g. "Blood pressure 118/76 mmHg"; weight in the viewer's units. */
+export const formatVisitVitals = (vitals: VisitVitals, units: PreferredUnits = DEFAULT_UNITS): string[] => {
+    const lines: string[] = [];
+    if (vitals.systolic !== undefined && vitals.diastolic !== undefined) lines.push(`Blood pressure ${vitals.systolic}/${vitals.diastolic} mmHg`);
+    if (vitals.weightKg !== undefined) lines.push(`Weight ${formatWeight(vitals.weightKg, 'kg', units.weight)}`);
+    if (vitals.fetalHeartRate !== undefined) lines.push(`Fetal heart rate ${vitals.fetalHeartRate} bpm`);
+    if (vitals.fundalHeightCm !== undefined) lines.push(`Fundal height ${vitals.fundalHeightCm} cm`);
+    if (vitals.temperatureC !== undefined) lines.push(`Temperature ${vitals.temperatureC} °C`);
+    return lines;
+};
+
+/** Summaries keyed by the appointment they describe. */
+export const indexVisitSummaries = (summaries: VisitSummary[] | null | undefined): Map<string, VisitSummary> =>
+    new Map((summaries ?? []).map(summary => [summary.appointmentId, summary]));
@@ -1,6 +1,6 @@
 // src/pages/AppointmentPage.tsx
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import MainLayout from '@/components/layout/MainLayout'; // Adjust path if needed
 import { useAuthStore } from '@/store/authStore'; // Adjust path if needed
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -8,9 +8,9 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast'; // Adjust path if needed
+import { useOfflineSync } from '@/hooks/use-offline-sync';
 import {
   Calendar as CalendarIcon,
-  Clock,
   Loader2,
   ListChecks,
   Edit,
@@ -19,15 +19,24 @@ import {
   Inbox, // For empty state icon
   AlertTriangle, // For error state icon
   PlusCircle, // For booking button icon
+  ClipboardList, // Past visits
 } from 'lucide-react';
 import { format, isAfter, parseISO, compareAsc, startOfDay } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar'; // Adjust path if needed
 import {
   createAppointment,
   getUserAppointments,
-  deleteAppointment,
+  getProviderAvailability,
+  getBookedAppointmentTimes,
+  deleteAppointmentOccurrence,
+  changeAppointmentStatus,
+  recordAppointmentRequest,
+  getUserVisitSummaries,
+  getUserMedicalDocuments,
+  getUserProfile,
   Appointment,
-  updateAppointment, // Keep import for EditAppointmentModal if it uses it
+  VisitSummary,
+  MedicalDocument,
 } from '@/lib/appwrite'; // Adjust path if needed
 import {
   Popover,
@@ -43,6 +52,38 @@ import {
 } from '@/components/ui/select'; // Adjust path if needed
 import AppointmentItem from '@/components/appointments/AppointmentItem'; // Adjust path if needed
 import EditAppointmentModal from '@/components/appointments/EditAppointmentModal'; // Adjust path if needed
+import RecurrenceFields from '@/components/appointments/RecurrenceFields';
+import RecurrenceScopeChoice from '@/components/appointments/RecurrenceScopeChoice';
+import CalendarSyncCard from '@/components/appointments/CalendarSyncCard';
+import AppointmentTimeFields from '@/components/appointments/AppointmentTimeFields';
+import CancelAppointmentDialog from '@/components/appointments/CancelAppointmentDialog';
+import AppointmentStatusHistoryDialog from '@/components/appointments/AppointmentStatusHistoryDialog';
+import { ICALENDAR_MIME_TYPE, createAppointmentICalendar, getAppointmentICalendarFileName } from '@/lib/icalendar';
+import { downloadTextFile } from '@/lib/healthDataTransfer';
+import {
+  RecurrenceEditScope,
+  RecurrenceRule,
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  isRecurringAppointment,
+  validateRecurrenceRule,
+} from '@/lib/appointmentRecurrence';
+import { getAppointmentStart } from '@/lib/appointmentTime';
+import {
+  DEFAULT_PROVIDER_SCHEDULE,
+  ProviderSchedule,
+  describeDuration,
+  findBookingConflicts,
+  getAvailableSlots,
+  getDefaultDurationMinutes,
+  getScheduleTimeZone,
+  getWorkingHoursOn,
+  resolveProviderSchedule,
+  withBookedTimes,
+} from '@/lib/appointmentAvailability';
+import { getAppointmentStatus, isAppointmentActive, isCancelledAppointmentStatus } from '@/lib/appointmentStatus';
+import { indexVisitSummaries } from '@/lib/visitSummary';
+import { PreferredUnits, getPreferredUnits } from '@/lib/units';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -54,39 +95,6 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"; // Adjust path if needed
 
-// --- Helper Function to parse appointment date/time ---
-// Returns a Date object or null if parsing fails
-const parseAppointmentDateTime = (app: Appointment): Date | null => {
-    if (!app || !app.date || !app.time) {
-        // console.error('parseAppointmentDateTime: Invalid appointment data received', app);
-        return null;
-    }
-    try {
-        const appDate = parseISO(app.date);
-        if (isNaN(appDate.getTime())) {
-            // console.error('parseAppointmentDateTime: Invalid date format:', app.date);
-            return null;
-        }
-        const timeParts = app.time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-        if (!timeParts) {
-            // console.error('parseAppointmentDateTime: Invalid time format:', app.time);
-            return null;
-        }
-        let hours = parseInt(timeParts[1], 10); const minutes = parseInt(timeParts[2], 10);
-        const period = timeParts[3]?.toUpperCase();
-        if (isNaN(hours) || isNaN(minutes) || minutes < 0 || minutes > 59) {
-            //  console.error('parseAppointmentDateTime: Invalid hours or minutes:', app.time);
-             return null;
-        }
-        if (period) { if (hours < 1 || hours > 12) return null; if (period === 'PM' && hours !== 12) hours += 12; else if (period === 'AM' && hours === 12) hours = 0; }
-        else { if (hours < 0 || hours > 23) return null; }
-        return new Date(appDate.getFullYear(), appDate.getMonth(), appDate.getDate(), hours, minutes);
-    } catch (err) {
-        // console.error('parseAppointmentDateTime: Unexpected error parsing:', err, app);
-        return null;
-    }
-};
-
 // --- Helper Function to format date/time for display ---
 // FIX for Line 521: Define this helper within the component scope or import it
 const formatApptDateTime = (dateStr: string, timeStr: string): string => {
@@ -107,9 +115,18 @@ const AppointmentPage: React.FC = () => {
   const [time, setTime] = useState<string | undefined>(undefined);
   const [notes, setNotes] = useState<string>('');
   const [appointmentType, setAppointmentType] = useState<string>('doctor'); // Default type
+  const [durationMinutes, setDurationMinutes] = useState<number>(getDefaultDurationMinutes('doctor'));
+  const [schedule, setSchedule] = useState<ProviderSchedule>(DEFAULT_PROVIDER_SCHEDULE);
+  // Other patients' bookings (times only); empty while offline
+  const [bookedTimes, setBookedTimes] = useState<Appointment[]>([]);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
   const [isBookingLoading, setIsBookingLoading] = useState<boolean>(false);
 
   const [upcomingAppointments, setUpcomingAppointments] = useState<Appointment[]>([]);
+  const [pastVisits, setPastVisits] = useState<Appointment[]>([]);
+  const [visitSummaries, setVisitSummaries] = useState<Map<string, VisitSummary>>(new Map());
+  const [medicalDocuments, setMedicalDocuments] = useState<MedicalDocument[]>([]);
+  const [units, setUnits] = useState<PreferredUnits | undefined>(undefined);
   const [isLoadingAppointments, setIsLoadingAppointments] = useState<boolean>(true);
   const [errorAppointments, setErrorAppointments] = useState<string | null>(null);
 
@@ -118,16 +135,19 @@ const AppointmentPage: React.FC = () => {
   const [deletingAppointmentId, setDeletingAppointmentId] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState<boolean>(false);
   const [appointmentToDelete, setAppointmentToDelete] = useState<string | null>(null);
+  const [deleteScope, setDeleteScope] = useState<RecurrenceEditScope>('this');
+  const [appointmentToCancel, setAppointmentToCancel] = useState<Appointment | null>(null);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const [historyAppointment, setHistoryAppointment] = useState<Appointment | null>(null);
 
   const { user, isAuthenticated } = useAuthStore();
   const { toast } = useToast();
 
-  // Available time slots
-  const timeSlots: ReadonlyArray<string> = [
-    '09:00 AM', '09:30 AM', '10:00 AM', '10:30 AM', '11:00 AM', '11:30 AM',
-    '12:00 PM', '12:30 PM', '01:00 PM', '01:30 PM', '02:00 PM', '02:30 PM',
-    '03:00 PM', '03:30 PM', '04:00 PM', '04:30 PM'
-  ];
+  // Free slots on the picked day: within the practice's hours and clear of every booking
+  const availableSlots = useMemo(
+    () => date ? getAvailableSlots(schedule, format(date, 'yyyy-MM-dd'), { durationMinutes, appointments: withBookedTimes(upcomingAppointments, bookedTimes) }) : null,
+    [date, schedule, durationMinutes, upcomingAppointments, bookedTimes],
+  );
 
   // Appointment type options
   const appointmentTypes: ReadonlyArray<{ value: string; label: string }> = [
@@ -140,31 +160,48 @@ const AppointmentPage: React.FC = () => {
   ];
 
   // --- Function to fetch appointments ---
-  const fetchAppointments = useCallback(async () => {
+  // Reads come from the offline store; `silent` skips the loading state for background re-reads.
+  const fetchAppointments = useCallback(async (options: { silent?: boolean } = {}) => {
     if (!isAuthenticated || !user?.$id) {
       setIsLoadingAppointments(false);
       setUpcomingAppointments([]);
+      setPastVisits([]);
       setErrorAppointments(null);
       return;
     }
-    setIsLoadingAppointments(true);
+    if (!options.silent) setIsLoadingAppointments(true);
     setErrorAppointments(null);
     try {
-      const allAppointments = await getUserAppointments(user.$id);
+      const [allAppointments, summaries, documents, profile] = await Promise.all([
+        getUserAppointments(user.$id),
+        getUserVisitSummaries(user.$id),
+        getUserMedicalDocuments(user.$id),
+        getUserProfile(user.$id),
+      ]);
       const now = new Date();
       const upcoming = allAppointments
-        .map(app => ({ ...app, dateTime: parseAppointmentDateTime(app) }))
-        .filter(app => app.dateTime && isAfter(app.dateTime, now) && !app.isCompleted)
+        .map(app => ({ ...app, dateTime: getAppointmentStart(app) }))
+        // Cancelled ones stay listed so the patient sees when the clinic cancelled
+        .filter(app => app.dateTime && isAfter(app.dateTime, now) && (isAppointmentActive(app) || isCancelledAppointmentStatus(getAppointmentStatus(app))))
         .sort((a, b) => {
             if (!a.dateTime) return 1; if (!b.dateTime) return -1;
             return compareAsc(a.dateTime, b.dateTime);
         });
       setUpcomingAppointments(upcoming);
+      // Completed visits, most recent first, with the doctor's summary when there is one
+      setPastVisits(allAppointments
+        .filter(app => getAppointmentStatus(app) === 'completed')
+        .sort((a, b) => (getAppointmentStart(b)?.getTime() ?? 0) - (getAppointmentStart(a)?.getTime() ?? 0))
+        .slice(0, 10));
+      setVisitSummaries(indexVisitSummaries(summaries));
+      setMedicalDocuments(documents);
+      setUnits(getPreferredUnits(profile));
     } catch (error: any) {
       // console.error('AppointmentPage: Error fetching appointments:', error);
       const errorMessage = error.message || 'Failed to load appointments. Please try refreshing.';
       setErrorAppointments(errorMessage);
       setUpcomingAppointments([]);
+      setPastVisits([]);
       toast({ title: "Loading Error", description: errorMessage, variant: "destructive" });
     } finally {
       setIsLoadingAppointments(false);
@@ -174,9 +211,31 @@ const AppointmentPage: React.FC = () => {
   // Fetch appointments effect
   useEffect(() => {
     if (isAuthenticated && user) { fetchAppointments(); }
-    else { setIsLoadingAppointments(false); setUpcomingAppointments([]); setErrorAppointments(null); }
+    else { setIsLoadingAppointments(false); setUpcomingAppointments([]); setPastVisits([]); setErrorAppointments(null); }
   }, [user, isAuthenticated, fetchAppointments]);
 
+  // Practice hours (falls back to the default schedule until a doctor saves one)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+    getProviderAvailability().then(doc => { if (!cancelled && doc) setSchedule(resolveProviderSchedule(doc.schedule)); });
+    getBookedAppointmentTimes().then(booked => { if (!cancelled) setBookedTimes(booked); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [isAuthenticated]);
+
+  // A picked time may no longer be free after changing the day or length
+  useEffect(() => {
+    if (time && !availableSlots?.some(slot => slot.time === time)) setTime(undefined);
+  }, [availableSlots, time]);
+
+  const handleTypeChange = (value: string) => {
+    setAppointmentType(value);
+    setDurationMinutes(getDefaultDurationMinutes(value));
+  };
+
+  // Re-read when the local store changes (server refresh, offline changes synced after reconnecting)
+  const { online } = useOfflineSync(() => fetchAppointments({ silent: true }));
+
   // --- Booking Handler ---
   const handleBookAppointment = async () => {
     if (!isAuthenticated || !user?.$id) {
@@ -185,17 +244,55 @@ const AppointmentPage: React.FC = () => {
     if (!date || !time) {
       toast({ title: "Missing Info", description: "Please select date and time.", variant: "destructive" }); return;
     }
+    const formattedDate = format(date, 'yyyy-MM-dd');
+    const ruleError = recurrenceRule ? validateRecurrenceRule(recurrenceRule, formattedDate) : null;
+    if (ruleError) {
+      toast({ title: "Invalid Repeat", description: ruleError, variant: "destructive" }); return;
+    }
     setIsBookingLoading(true);
     try {
-      const formattedDate = format(date, 'yyyy-MM-dd');
-      await createAppointment(user.$id, { date: formattedDate, time, notes: notes || undefined, appointmentType: appointmentType || 'doctor' });
+      // Someone else may have taken the slot since the page loaded. Offline bookings skip this; they stay
+      // requested until the clinic confirms them.
+      let booked = bookedTimes;
+      if (online) {
+        booked = await getBookedAppointmentTimes();
+        setBookedTimes(booked);
+      }
+      const timeZone = getScheduleTimeZone(schedule);
+      const conflicts = findBookingConflicts(
+        { date: formattedDate, time, timeZone, durationMinutes, recurrence: recurrenceRule },
+        withBookedTimes(upcomingAppointments, booked),
+      );
+      if (conflicts.length > 0) {
+        const first = conflicts[0];
+        const own = conflicts.find(conflict => conflict.appointment.userId === user.$id);
+        toast({
+          title: "Time Not Available",
+          description: own
+            ? `This overlaps your ${own.appointment.appointmentType?.replace(/_/g, ' ') || 'appointment'} on ${formatApptDateTime(own.day, own.appointment.time)}`
+              + (conflicts.length > 1 ? ` and ${conflicts.length - 1} more.` : '.')
+            : `${formatApptDateTime(first.day, time)} has already been booked. Please pick another time.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const created = await createAppointment(user.$id, {
+        date: formattedDate, time, notes: notes || undefined, appointmentType: appointmentType || 'doctor',
+        recurrence: recurrenceRule ? formatRecurrenceRule(recurrenceRule) : undefined,
+        timeZone, durationMinutes,
+      });
+      // Start of the status history; the booking stands even if this can't be written
+      if (online) recordAppointmentRequest(created, { $id: user.$id, name: user.name, role: 'patient' }).catch(() => {});
+      const repeats = recurrenceRule ? ` Repeats: ${describeRecurrenceRule(recurrenceRule)}.` : '';
       toast({
-        title: "Appointment Booked!",
-        description: `Scheduled for ${format(date, 'PPP')} at ${time}.`,
+        title: online ? "Appointment Requested!" : "Appointment Saved Offline",
+        description: online
+          ? `Requested for ${format(date, 'PPP')} at ${time} (${describeDuration(durationMinutes)}).${repeats} The clinic will confirm it.`
+          : `Scheduled for ${format(date, 'PPP')} at ${time} (${describeDuration(durationMinutes)}).${repeats} It will sync when you're back online.`,
         // FIX for Line 230: Use 'default' variant if 'success' is not defined
         variant: "default",
       });
-      setDate(undefined); setTime(undefined); setNotes(''); setAppointmentType('doctor');
+      setDate(undefined); setTime(undefined); setNotes(''); setAppointmentType('doctor'); setDurationMinutes(getDefaultDurationMinutes('doctor')); setRecurrenceRule(null);
       fetchAppointments(); // Refresh list
     } catch (error: any) {
       // console.error('Error booking appointment:', error);
@@ -211,19 +308,46 @@ const AppointmentPage: React.FC = () => {
     setIsEditModalOpen(true);
   };
 
+  // Single appointment as an .ics the phone's calendar app can open
+  const handleExport = (appointment: Appointment): void => {
+    downloadTextFile(createAppointmentICalendar(appointment), getAppointmentICalendarFileName(appointment), ICALENDAR_MIME_TYPE);
+  };
+
+  const confirmCancel = async (reason: string, scope: RecurrenceEditScope): Promise<void> => {
+    if (!appointmentToCancel || !user?.$id) return;
+    setIsCancelling(true);
+    try {
+      await changeAppointmentStatus(appointmentToCancel, 'cancelled_by_patient', { $id: user.$id, name: user.name, role: 'patient' }, { scope, note: reason });
+      toast({ title: "Appointment Cancelled", description: "The clinic has been notified.", variant: "default" });
+      setAppointmentToCancel(null);
+      fetchAppointments();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Could not cancel appointment.";
+      toast({ title: "Cancellation Failed", description: msg, variant: "destructive" });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const handleDeleteClick = (appointmentId: string): void => {
     setAppointmentToDelete(appointmentId);
+    setDeleteScope('this');
     setIsDeleteDialogOpen(true);
   };
 
+  const appointmentPendingDelete = appointmentToDelete ? [...upcomingAppointments, ...pastVisits].find(a => a.$id === appointmentToDelete) : undefined;
+  const isDeletingFromSeries = !!appointmentPendingDelete && isRecurringAppointment(appointmentPendingDelete);
+
   const confirmDelete = async (): Promise<void> => {
-    if (!appointmentToDelete) return;
+    if (!appointmentToDelete || !appointmentPendingDelete) return;
     setDeletingAppointmentId(appointmentToDelete);
     try {
-      await deleteAppointment(appointmentToDelete);
+      await deleteAppointmentOccurrence(appointmentPendingDelete, deleteScope);
       toast({
           title: "Appointment Deleted",
-          description: "Successfully removed.",
+          description: isDeletingFromSeries && deleteScope !== 'this'
+            ? `Removed ${deleteScope === 'all' ? 'the whole series' : 'this and following appointments'}.`
+            : "Successfully removed.",
           // FIX for Line 269: Use 'default' variant if 'success' is not defined
           variant: "default"
       });
@@ -269,7 +393,7 @@ const AppointmentPage: React.FC = () => {
                    {/* Appointment Type Selector */}
                    <div className="space-y-1.5">
                         <Label htmlFor="appointment-type-select" className="text-sm font-medium text-gray-700">Type of Appointment *</Label>
-                        <Select value={appointmentType} onValueChange={setAppointmentType}>
+                        <Select value={appointmentType} onValueChange={handleTypeChange}>
                             <SelectTrigger id="appointment-type-select" className="w-full" aria-label="Select appointment type">
                                 <SelectValue placeholder="Select appointment type" />
                             </SelectTrigger>
@@ -303,31 +427,24 @@ const AppointmentPage: React.FC = () => {
                            mode="single"
                            selected={date}
                            onSelect={setDate}
-                           disabled={(day) => day < startOfDay(new Date())}
+                           // Past days and days the practice is closed
+                           disabled={(day) => day < startOfDay(new Date()) || getWorkingHoursOn(schedule, format(day, 'yyyy-MM-dd')).length === 0}
                            initialFocus
                          />
                        </PopoverContent>
                      </Popover>
                    </div>
 
-                   {/* Time Selector */}
-                   <div className="space-y-1.5">
-                     <Label htmlFor="time-select" className="text-sm font-medium text-gray-700">Select Time *</Label>
-                     <Select value={time} onValueChange={setTime}>
-                       <SelectTrigger id="time-select" className="w-full" aria-label="Select appointment time">
-                         <SelectValue placeholder="Select a time slot" />
-                       </SelectTrigger>
-                       <SelectContent>
-                         {timeSlots.map((slot) => (
-                           <SelectItem key={slot} value={slot}>
-                             <div className="flex items-center text-sm">
-                               <Clock className="mr-2 h-4 w-4 opacity-70" /> {slot}
-                             </div>
-                           </SelectItem>
-                         ))}
-                       </SelectContent>
-                     </Select>
-                   </div>
+                   {/* Length & Time */}
+                   <AppointmentTimeFields
+                     slots={availableSlots}
+                     time={time}
+                     onTimeChange={setTime}
+                     durationMinutes={durationMinutes}
+                     onDurationChange={setDurationMinutes}
+                     idPrefix="book"
+                     disabled={isBookingLoading}
+                   />
 
                    {/* Notes */}
                    <div className="space-y-1.5">
@@ -344,6 +461,15 @@ const AppointmentPage: React.FC = () => {
                      <p className="text-xs text-gray-500 text-right" aria-live="polite">{notes.length}/500</p>
                    </div>
 
+                   {/* Repeat */}
+                   <RecurrenceFields
+                     value={recurrenceRule}
+                     onChange={setRecurrenceRule}
+                     startDate={date}
+                     idPrefix="book-recurrence"
+                     disabled={isBookingLoading}
+                   />
+
                    {/* Booking Button */}
                    <Button
                      onClick={handleBookAppointment}
@@ -381,6 +507,11 @@ const AppointmentPage: React.FC = () => {
                       </ul>
                   </CardContent>
                </Card>
+
+               {/* Calendar Sync Card */}
+               {user?.$id && (
+                 <CalendarSyncCard userId={user.$id} onAppointmentsImported={() => fetchAppointments()} />
+               )}
             </div>
 
             {/* Column 2: Upcoming Appointments List Card */}
@@ -410,7 +541,7 @@ const AppointmentPage: React.FC = () => {
                        <AlertTriangle className="h-10 w-10 text-red-500 mb-3" />
                        <p className="text-red-700 font-semibold mb-1">Oops! Something went wrong.</p>
                        <p className="text-red-600 text-sm">{errorAppointments}</p>
-                       <Button variant="outline" size="sm" onClick={fetchAppointments} className="mt-4">
+                       <Button variant="outline" size="sm" onClick={() => fetchAppointments()} className="mt-4">
                            Try Again
                        </Button>
                     </div>
@@ -435,6 +566,9 @@ const AppointmentPage: React.FC = () => {
                           appointment={app}
                           onEdit={handleEdit}
                           onDelete={handleDeleteClick}
+                          onExport={handleExport}
+                          onCancel={setAppointmentToCancel}
+                          onShowHistory={setHistoryAppointment}
                           isDeleting={deletingAppointmentId === app.$id}
                           // Pass type for styling in AppointmentItem
                           type={app.appointmentType}
@@ -444,6 +578,39 @@ const AppointmentPage: React.FC = () => {
                   )}
                 </CardContent>
               </Card>
+
+              {/* Past Visits Card (completed appointments and their summaries) */}
+              {!isLoadingAppointments && pastVisits.length > 0 && (
+                <Card className="mt-8 shadow-sm border border-gray-200 rounded-lg overflow-hidden bg-white">
+                  <CardHeader className="p-5 border-b border-gray-200">
+                    <CardTitle className="flex items-center text-lg font-semibold text-momcare-primary">
+                      <ClipboardList className="mr-2.5 h-5 w-5" />
+                      Past Visits
+                    </CardTitle>
+                    <CardDescription className="text-sm text-gray-500 mt-1">
+                      Your recent completed visits, with your doctor's notes once they are written up.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-4 md:p-6">
+                    <div className="space-y-3">
+                      {pastVisits.map((app) => (
+                        <AppointmentItem
+                          key={app.$id}
+                          appointment={app}
+                          onEdit={handleEdit}
+                          onDelete={handleDeleteClick}
+                          onShowHistory={setHistoryAppointment}
+                          visitSummary={visitSummaries.get(app.$id)}
+                          summaryDocuments={medicalDocuments}
+                          units={units}
+                          isDeleting={deletingAppointmentId === app.$id}
+                          type={app.appointmentType}
+                        />
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </div> {/* End Grid */}
         </div> {/* End Container */}
@@ -468,6 +635,21 @@ const AppointmentPage: React.FC = () => {
           />
       )}
 
+      {/* Cancel (keeps the appointment, marked as cancelled) */}
+      <CancelAppointmentDialog
+        appointment={appointmentToCancel}
+        isOpen={!!appointmentToCancel}
+        onClose={() => setAppointmentToCancel(null)}
+        onConfirm={confirmCancel}
+        isCancelling={isCancelling}
+      />
+
+      <AppointmentStatusHistoryDialog
+        appointment={historyAppointment}
+        isOpen={!!historyAppointment}
+        onClose={() => setHistoryAppointment(null)}
+      />
+
        {/* Delete Confirmation Dialog */}
        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
          <AlertDialogContent>
@@ -476,15 +658,15 @@ const AppointmentPage: React.FC = () => {
              <AlertDialogDescription>
                Are you sure you want to delete the appointment scheduled for{' '}
                {/* Find the appointment details for better context */}
-               {appointmentToDelete && upcomingAppointments.find(a => a.$id === appointmentToDelete)
-                 ? formatApptDateTime( // Use the helper function defined above
-                     upcomingAppointments.find(a => a.$id === appointmentToDelete)!.date,
-                     upcomingAppointments.find(a => a.$id === appointmentToDelete)!.time
-                   )
+               {appointmentPendingDelete
+                 ? formatApptDateTime(appointmentPendingDelete.date, appointmentPendingDelete.time) // Use the helper function defined above
                  : 'this appointment'
                }? This action cannot be undone.
              </AlertDialogDescription>
            </AlertDialogHeader>
+           {isDeletingFromSeries && (
+             <RecurrenceScopeChoice value={deleteScope} onChange={setDeleteScope} idPrefix="delete-scope" disabled={!!deletingAppointmentId} />
+           )}
            <AlertDialogFooter>
              <AlertDialogCancel onClick={() => setAppointmentToDelete(null)}>Cancel</AlertDialogCancel>
              <AlertDialogAction
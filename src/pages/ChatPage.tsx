@@ -10,7 +10,8 @@ import React, {
   ElementType, // Added for icon type in starters
 } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { format, isAfter, parseISO } from 'date-fns';
+import { format, isAfter } from 'date-fns';
+import { getAppointmentStart } from '@/lib/appointmentTime';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { jsPDF } from "jspdf";
@@ -39,20 +40,21 @@ import {
 import {
   getUserProfile, UserProfile, getBloodPressureReadings, getBloodSugarReadings,
   getWeightReadings, getUserAppointments, BloodPressureReading, BloodSugarReading,
-  WeightReading, Appointment,
+  WeightReading, Appointment, getUserVisitSummaries, VisitSummary,
   saveChatMessage, getUserChatHistoryForSession, ChatHistoryMessage, // Assume ChatHistoryMessage has role: 'user' | 'model' | 'system' or similar
   addBookmark, // Removed CreateBookmarkData if not explicitly used
   deleteChatSessionHistory,
   getChatSessionsList, // Assume this returns ChatSessionInfo[] or similar
 } from '@/lib/appwrite'; // Ensure paths are correct
+import { getPregnancyTimeline, getTrimester } from '@/lib/pregnancyTimeline';
 
 // --- Groq Imports ---
 import groqService, {
   UserPreferences, AdditionalChatContext,
   ChatCompletionMessageParam,
   ChatCompletionContentPart,
+  ChatCompletionContentPartText,
   ImageContentPart,
-  Groq // Import Groq namespace for types like Groq.Chat.Completions...
 } from '@/lib/groq'; // Ensure path is correct
 import { useAuthStore } from '@/store/authStore';
 
@@ -116,64 +118,6 @@ export interface ChatUIMessage {
 
 // --- Helper Functions (Defined Before Component) ---
 
-const parseAppointmentDateTime = (app: Appointment): Date | null => {
-    if (!app?.date) return null;
-    try {
-      let parsedDate = parseISO(app.date);
-      if (!isNaN(parsedDate.getTime())) {
-          // If date string already includes time (ISO format), use it directly
-          if (app.date.includes('T')) return parsedDate;
-      } else {
-          // If date is just YYYY-MM-DD, try parsing as such (assuming UTC)
-          const dateString = `${app.date}T00:00:00Z`;
-          parsedDate = parseISO(dateString);
-          if (isNaN(parsedDate.getTime())) return null; // Invalid date format
-      }
-
-      // If time field exists, try to parse and combine it (assuming local time related to the date)
-      if (app.time) {
-          // More robust time parsing (HH:mm, h:mm AM/PM)
-          const timeMatch = app.time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-          if (timeMatch) {
-              let h = parseInt(timeMatch[1], 10);
-              const m = parseInt(timeMatch[2], 10);
-              const p = timeMatch[3]?.toUpperCase();
-              if (!isNaN(h) && !isNaN(m) && m >= 0 && m <= 59) {
-                  let validHour = false;
-                  if (p) { // AM/PM format
-                      if (h >= 1 && h <= 12) {
-                          if (p === 'PM' && h !== 12) h += 12;
-                          if (p === 'AM' && h === 12) h = 0; // Midnight case
-                          validHour = true;
-                      }
-                  } else if (h >= 0 && h <= 23) { // 24-hour format
-                      validHour = true;
-                  }
-
-                  if (validHour) {
-                      // Combine the parsed date (UTC midnight) with the parsed time (local)
-                      // This assumes the time is relative to the date's day in the *local* timezone
-                      // For consistency, it might be better to store combined ISO strings in Appwrite
-                      const combined = new Date(
-                          parsedDate.getUTCFullYear(),
-                          parsedDate.getUTCMonth(),
-                          parsedDate.getUTCDate(),
-                          h, m
-                      );
-                      // Check if the combined date is valid
-                      if (!isNaN(combined.getTime())) return combined;
-                  }
-              }
-          }
-      }
-      // If only date was valid, return it (represents start of the day UTC)
-      return parsedDate;
-    } catch (error) {
-      // console.error('Appt parse error:', app.date, app.time, error);
-      return null; // Return null on any parsing error
-    }
-};
-
 // Extracts recent user messages as potential context
 const extractCommonConcerns = (chatHistory: ChatHistoryMessage[]): string[] => {
   if (!chatHistory) return [];
@@ -185,15 +129,21 @@ const extractCommonConcerns = (chatHistory: ChatHistoryMessage[]): string[] => {
       .filter(content => content.length > 10); // Filter out very short messages
 };
 
-// Calculates trimester based on weeks pregnant
+// Calculates trimester based on weeks pregnant (shared ranges from lib/pregnancyTimeline)
 const calculateTrimester = (weeks: number | undefined | null): 1 | 2 | 3 | null => {
-  if (weeks === undefined || weeks === null || isNaN(weeks) || weeks < 0) return null;
-  if (weeks <= 13) return 1;
-  if (weeks <= 27) return 2;
-  if (weeks <= 45) return 3; // Allow up to 45 for buffer
-  return null; // Weeks outside expected range
+  if (weeks !== undefined && weeks !== null && weeks > 40 && weeks <= 45) return 3; // Allow up to 45 for buffer
+  switch (getTrimester(weeks)) {
+    case "Pre-conception": case "First": return 1;
+    case "Second": return 2;
+    case "Third": return 3;
+    default: return null; // Weeks outside expected range
+  }
 };
 
+// Current week from the profile's due date / last period (falls back to the stored week count)
+const getProfileWeeks = (profile: UserProfile | null | undefined): number | undefined =>
+  getPregnancyTimeline(profile).weeks ?? undefined;
+
 // Formats Appwrite history (ChatHistoryMessage[]) for Groq API (ChatCompletionMessageParam[])
 const formatHistoryForGroq = (history: ChatHistoryMessage[]): ChatCompletionMessageParam[] => {
     return history.map(msg => {
@@ -297,7 +247,7 @@ const getTextContentFromMessage = (msg: ChatCompletionMessageParam): string | nu
     } else if (Array.isArray(msg.content)) {
       // Extract text parts
       const textParts = msg.content
-        .filter((part): part is Groq.Chat.Completions.ChatCompletionContentPartText => part.type === 'text')
+        .filter((part): part is ChatCompletionContentPartText => part.type === 'text')
         .map(part => part.text)
         .join(' ');
       // Create placeholders for image parts
@@ -343,6 +293,7 @@ const ChatPage: React.FC = () => {
   const [latestSugar, setLatestSugar] = useState<BloodSugarReading | null>(null);
   const [latestWeight, setLatestWeight] = useState<WeightReading | null>(null);
   const [upcomingAppointments, setUpcomingAppointments] = useState<(Appointment & { dateTime?: Date | null })[]>([]);
+  const [latestVisitSummary, setLatestVisitSummary] = useState<VisitSummary | null>(null);
   const [pregnancyTrimester, setPregnancyTrimester] = useState<1 | 2 | 3 | null>(null); // Derived from weeksPregnant
   const [chatStartWeeksPregnant, setChatStartWeeksPregnant] = useState<number | undefined>(undefined); // Weeks pregnant at the start of the current session
 
@@ -373,16 +324,17 @@ const ChatPage: React.FC = () => {
     setIsContextLoading(true);
     setError(null); // Clear previous errors
     // Reset context state before fetching
-    setUserProfile(null); setLatestBp(null); setLatestSugar(null); setLatestWeight(null); setUpcomingAppointments([]); setPregnancyTrimester(null); setAge(''); setWeeksPregnant(''); setPreExistingConditions('');
+    setUserProfile(null); setLatestBp(null); setLatestSugar(null); setLatestWeight(null); setUpcomingAppointments([]); setLatestVisitSummary(null); setPregnancyTrimester(null); setAge(''); setWeeksPregnant(''); setPreExistingConditions('');
 
     try {
       // Fetch user data concurrently
-      const [profile, bpReadings, sugarReadings, weightReadings, appointments] = await Promise.all([
+      const [profile, bpReadings, sugarReadings, weightReadings, appointments, visitSummaries] = await Promise.all([
         getUserProfile(user.$id),
         getBloodPressureReadings(user.$id, 1), // Fetch latest 1 reading
         getBloodSugarReadings(user.$id, 1),
         getWeightReadings(user.$id, 1),
-        getUserAppointments(user.$id)
+        getUserAppointments(user.$id),
+        getUserVisitSummaries(user.$id, 1) // Latest doctor's visit summary
       ]);
 
       // Update state with fetched data
@@ -390,23 +342,24 @@ const ChatPage: React.FC = () => {
       setLatestBp(bpReadings?.[0] || null);
       setLatestSugar(sugarReadings?.[0] || null);
       setLatestWeight(weightReadings?.[0] || null);
+      setLatestVisitSummary(visitSummaries?.[0] || null);
 
       // Process appointments: parse dates, filter future, sort upcoming
       const now = new Date();
       const processedAppointments = appointments
-        .map(app => ({ ...app, dateTime: parseAppointmentDateTime(app) })) // Add parsed dateTime
+        .map(app => ({ ...app, dateTime: getAppointmentStart(app) })) // Add parsed dateTime
         .filter((app): app is Appointment & { dateTime: Date } => // Type guard for valid future dates
             app.dateTime instanceof Date && !isNaN(app.dateTime.getTime()) && isAfter(app.dateTime, now)
         )
         .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime()); // Sort by date ascending
 
       setUpcomingAppointments(processedAppointments.slice(0, 3)); // Keep top 3 upcoming
-      setPregnancyTrimester(calculateTrimester(profile?.weeksPregnant));
+      setPregnancyTrimester(calculateTrimester(getProfileWeeks(profile)));
 
       // Pre-fill form fields from profile if available
       if (profile?.age) setAge(String(profile.age));
       // Only set weeksPregnant if it wasn't manually entered in the form yet for this session attempt
-      if (profile?.weeksPregnant !== undefined && !weeksPregnant) setWeeksPregnant(String(profile.weeksPregnant));
+      if (getProfileWeeks(profile) !== undefined && !weeksPregnant) setWeeksPregnant(String(getProfileWeeks(profile)));
       if (profile?.preExistingConditions) setPreExistingConditions(profile.preExistingConditions);
 
     } catch (error: unknown) {
@@ -415,7 +368,7 @@ const ChatPage: React.FC = () => {
       setError(errorMsg); // Set error state for potential display
       toast({ title: "Context Error", description: errorMsg, variant: "destructive" });
       // Ensure state is reset on error
-      setUserProfile(null); setLatestBp(null); setLatestSugar(null); setLatestWeight(null); setUpcomingAppointments([]); setPregnancyTrimester(null);
+      setUserProfile(null); setLatestBp(null); setLatestSugar(null); setLatestWeight(null); setUpcomingAppointments([]); setLatestVisitSummary(null); setPregnancyTrimester(null);
     } finally {
       setIsContextLoading(false); // Ensure loading state is turned off
     }
@@ -504,7 +457,7 @@ const ChatPage: React.FC = () => {
     setCurrentSessionId(newSessionId);
 
     // Determine effective weeks pregnant for this chat session (form input overrides profile)
-    const effectiveWeeks = !isNaN(formWeeksNum as number) ? formWeeksNum : userProfile?.weeksPregnant;
+    const effectiveWeeks = !isNaN(formWeeksNum as number) ? formWeeksNum : getProfileWeeks(userProfile);
     setChatStartWeeksPregnant(effectiveWeeks); // Store the weeks used at the start of this chat
     setPregnancyTrimester(calculateTrimester(effectiveWeeks)); // Update trimester based on start weeks
 
@@ -522,7 +475,8 @@ const ChatPage: React.FC = () => {
         latestSugar: latestSugar,
         latestWeight: latestWeight,
         upcomingAppointments: upcomingAppointments,
-        previousConcerns: [] // No previous concerns for a new chat session
+        previousConcerns: [], // No previous concerns for a new chat session
+        latestVisitSummary: latestVisitSummary
       };
 
       // Get initial messages (system prompt + initial user/assistant exchange) from Groq service
@@ -572,7 +526,7 @@ const ChatPage: React.FC = () => {
   }, [
       feeling, age, weeksPregnant, preExistingConditions, specificConcerns, // Form inputs
       user?.$id, userProfile, // User context
-      latestBp, latestSugar, latestWeight, upcomingAppointments, // Health context
+      latestBp, latestSugar, latestWeight, upcomingAppointments, latestVisitSummary, // Health context
       toast, navigate // Utilities
       // State setters (setIsStartingChat, setError, etc.) are implicitly dependencies
   ]);
@@ -807,14 +761,15 @@ const ChatPage: React.FC = () => {
       // 3. Regenerate System Prompt using current context + loaded history hints
       const currentPrefs: UserPreferences = {
         // Use profile data as baseline for context, as pre-chat form isn't relevant here
-        age: currentProfile?.age, weeksPregnant: currentProfile?.weeksPregnant,
+        age: currentProfile?.age, weeksPregnant: getProfileWeeks(currentProfile),
         preExistingConditions: currentProfile?.preExistingConditions,
         // Feeling/concerns are session-specific, extract from history instead
       };
       const currentContext: AdditionalChatContext = {
         latestBp: latestBp, latestSugar: latestSugar, latestWeight: latestWeight,
         upcomingAppointments: upcomingAppointments,
-        previousConcerns: extractCommonConcerns(appwriteHistory) // Extract from loaded history
+        previousConcerns: extractCommonConcerns(appwriteHistory), // Extract from loaded history
+        latestVisitSummary: latestVisitSummary
       };
 
       const systemPromptText = groqService.createSystemPrompt(currentPrefs, currentProfile, currentContext);
@@ -855,7 +810,7 @@ const ChatPage: React.FC = () => {
           }
       }
       // Fallback to current profile weeks if not found in early messages
-      startWeeks = startWeeks === undefined ? currentProfile?.weeksPregnant : startWeeks;
+      startWeeks = startWeeks === undefined ? getProfileWeeks(currentProfile) : startWeeks;
       setChatStartWeeksPregnant(startWeeks); // Set session-specific start weeks
       setPregnancyTrimester(calculateTrimester(startWeeks)); // Update trimester display
       // console.log(`Determined start weeks for loaded session context: ${startWeeks}, Trimester: ${calculateTrimester(startWeeks)}`);
@@ -878,7 +833,7 @@ const ChatPage: React.FC = () => {
   }, [
       user?.$id, isLoading, isStartingChat, currentSessionId, // Control state
       toast, // Utilities
-      userProfile, latestBp, latestSugar, latestWeight, upcomingAppointments, isContextLoading, fetchInitialContext // Context data and fetcher
+      userProfile, latestBp, latestSugar, latestWeight, upcomingAppointments, latestVisitSummary, isContextLoading, fetchInitialContext // Context data and fetcher
       // State setters implicitly included
   ]);
 
@@ -898,12 +853,12 @@ const ChatPage: React.FC = () => {
       setPendingImageFile(null);
       setStreamingResponse('');
       // Reset context display based on current profile (not session-specific anymore)
-      setPregnancyTrimester(calculateTrimester(userProfile?.weeksPregnant));
+      setPregnancyTrimester(calculateTrimester(getProfileWeeks(userProfile)));
       setChatStartWeeksPregnant(undefined); // Clear session-specific start weeks
       // Optionally reset pre-chat form fields to profile defaults or empty
       setFeeling(''); // Reset feeling dropdown
       setAge(userProfile?.age ? String(userProfile.age) : '');
-      setWeeksPregnant(userProfile?.weeksPregnant ? String(userProfile.weeksPregnant) : '');
+      setWeeksPregnant(getProfileWeeks(userProfile) ? String(getProfileWeeks(userProfile)) : '');
       setPreExistingConditions(userProfile?.preExistingConditions || '');
       setSpecificConcerns('');
     }
@@ -1118,13 +1073,13 @@ const ChatPage: React.FC = () => {
     setPendingImageFile(null);
 
     // Reset pregnancy context display based on current profile
-    setPregnancyTrimester(calculateTrimester(userProfile?.weeksPregnant));
+    setPregnancyTrimester(calculateTrimester(getProfileWeeks(userProfile)));
     setChatStartWeeksPregnant(undefined); // Clear session-specific start weeks
 
     // Reset pre-chat form fields to profile defaults or empty
     setFeeling(''); // Reset feeling dropdown
     setAge(userProfile?.age ? String(userProfile.age) : '');
-    setWeeksPregnant(userProfile?.weeksPregnant ? String(userProfile.weeksPregnant) : '');
+    setWeeksPregnant(getProfileWeeks(userProfile) ? String(getProfileWeeks(userProfile)) : '');
     setPreExistingConditions(userProfile?.preExistingConditions || '');
     setSpecificConcerns('');
 
@@ -1437,8 +1392,8 @@ const ChatPage: React.FC = () => {
               onChange={(e) => setWeeksPregnant(e.target.value)}
               // Display profile value in placeholder if available and form field is empty
               placeholder={
-                userProfile?.weeksPregnant !== undefined && !weeksPregnant
-                  ? `Current in profile: ${userProfile.weeksPregnant}`
+                getProfileWeeks(userProfile) !== undefined && !weeksPregnant
+                  ? `Current in profile: ${getProfileWeeks(userProfile)}`
                   : "e.g., 12"
               }
               min="0"
@@ -0,0 +1,289 @@
+// src/pages/ContractionTimerPage.tsx
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import LaborHandoffAlert from '@/components/contractions/LaborHandoffAlert';
+import { Timer, Play, Square, Undo2, Save, X, Loader2, History, Trash2, Activity, CheckCircle2 } from 'lucide-react';
+import {
+    createContractionSession, getContractionSessions, deleteContractionSession, ContractionSession, offlineSync,
+} from '@/lib/appwrite';
+import {
+    ActiveContractionSession, Contraction, LABOR_RULES, DEFAULT_LABOR_RULE_ID, getLaborRule,
+    getCompletedContractions, getContractionDurationSeconds, getContractionStats, matchesLaborRule,
+    formatContractionDuration, formatContractionInterval,
+    loadActiveContractionSession, saveActiveContractionSession, clearActiveContractionSession,
+    serializeContractions, parseContractions,
+} from '@/lib/contractionTimer';
+
+// Elapsed time as m:ss for the running contraction
+const formatElapsed = (totalSeconds: number): string =>
+    `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+
+// --- Helper Component: Stat tile ---
+const StatTile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+    <div className="rounded-lg border bg-gray-50 p-3 text-center">
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className="text-lg font-semibold text-gray-800">{value}</p>
+        {hint && <p className="text-[11px] text-gray-400">{hint}</p>}
+    </div>
+);
+
+const ContractionTimerPage: React.FC = () => {
+    const { user } = useAuthStore();
+    const { toast } = useToast();
+    const [session, setSession] = useState<ActiveContractionSession | null>(null);
+    const [selectedRuleId, setSelectedRuleId] = useState<string>(DEFAULT_LABOR_RULE_ID);
+    const [now, setNow] = useState(() => new Date());
+    const [isSaving, setIsSaving] = useState(false);
+    const [history, setHistory] = useState<ContractionSession[]>([]);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+    const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null);
+
+    // --- Load the running session (device) and past sessions (database) ---
+    useEffect(() => {
+        const stored = loadActiveContractionSession(user?.$id);
+        setSession(stored);
+        if (stored) setSelectedRuleId(stored.ruleId);
+    }, [user?.$id]);
+
+    const fetchHistory = useCallback(async () => {
+        if (!user?.$id) { setHistory([]); setIsLoadingHistory(false); return; }
+        setIsLoadingHistory(true);
+        try { setHistory(await getContractionSessions(user.$id)); }
+        finally { setIsLoadingHistory(false); }
+    }, [user?.$id]);
+
+    useEffect(() => { fetchHistory(); }, [fetchHistory]);
+
+    // Tick once a second while a session is running (timer display and rolling windows)
+    useEffect(() => {
+        if (!session) return;
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, [session]);
+
+    // Every change to the running session is written through to the device
+    const updateSession = useCallback((next: ActiveContractionSession | null) => {
+        if (!user?.$id) return;
+        setSession(next);
+        if (next) saveActiveContractionSession(user.$id, next);
+        else clearActiveContractionSession(user.$id);
+    }, [user?.$id]);
+
+    // --- Derived Values ---
+    const rule = getLaborRule(session?.ruleId ?? selectedRuleId);
+    const contractions = useMemo(() => session?.contractions ?? [], [session]);
+    const current: Contraction | undefined = contractions.find(c => !c.end);
+    const completed = useMemo(() => getCompletedContractions(contractions), [contractions]);
+    const stats30 = getContractionStats(contractions, 30, now);
+    const stats60 = getContractionStats(contractions, 60, now);
+    const isRuleMatched = matchesLaborRule(contractions, rule, now);
+    const currentSeconds = current ? Math.max(0, Math.floor((now.getTime() - new Date(current.start).getTime()) / 1000)) : 0;
+
+    // Remember the first time the pattern matched, so the saved session records it
+    useEffect(() => {
+        if (session && isRuleMatched && !session.ruleMatchedAt) updateSession({ ...session, ruleMatchedAt: new Date().toISOString() });
+    }, [session, isRuleMatched, updateSession]);
+
+    // --- Handlers ---
+    const handleToggleContraction = () => {
+        const at = new Date().toISOString();
+        if (!session) {
+            updateSession({ startedAt: at, ruleId: selectedRuleId, contractions: [{ start: at }] });
+        } else if (current) {
+            updateSession({ ...session, contractions: session.contractions.map(c => c === current ? { ...c, end: at } : c) });
+        } else {
+            updateSession({ ...session, contractions: [...session.contractions, { start: at }] });
+        }
+        setNow(new Date());
+    };
+
+    const handleUndo = () => {
+        if (!session || session.contractions.length === 0) return;
+        const contractionsLeft = session.contractions.slice(0, -1);
+        updateSession(contractionsLeft.length > 0 ? { ...session, contractions: contractionsLeft } : null);
+    };
+
+    const handleRuleChange = (ruleId: string) => {
+        setSelectedRuleId(ruleId);
+        if (session) updateSession({ ...session, ruleId, ruleMatchedAt: undefined });
+    };
+
+    const handleDiscard = () => {
+        if (!session) return;
+        if (!window.confirm('Discard this session? The timed contractions will not be saved.')) return;
+        updateSession(null);
+    };
+
+    const handleEndSession = async () => {
+        if (!session || !user?.$id) return;
+        if (completed.length === 0) { updateSession(null); return; }
+        setIsSaving(true);
+        try {
+            await createContractionSession(user.$id, {
+                startedAt: session.startedAt,
+                contractions: serializeContractions(session.contractions),
+                ruleId: session.ruleId,
+                ruleMatched: !!session.ruleMatchedAt,
+            });
+            updateSession(null);
+            toast({ title: "Session Saved", description: `${completed.length} contraction${completed.length === 1 ? '' : 's'} saved to your history.${offlineSync.getStatus().online ? '' : " It will sync when you're back online."}` });
+            fetchHistory();
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save the session.";
+            toast({ title: "Save Failed", description: `${msg} Your timings are still kept on this device.`, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteHistory = async (sessionId: string) => {
+        setDeletingSessionId(sessionId);
+        try {
+            await deleteContractionSession(sessionId);
+            setHistory(prev => prev.filter(s => s.$id !== sessionId));
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not delete the session.";
+            toast({ title: "Deletion Failed", description: msg, variant: "destructive" });
+        } finally {
+            setDeletingSessionId(null);
+        }
+    };
+
+    // --- Render ---
+    return (
+        <MainLayout requireAuth={true}>
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12 space-y-6">
+                <div className="text-center">
+                    <h1 className="text-3xl font-bold text-momcare-primary flex items-center justify-center"><Timer className="mr-2 h-7 w-7" />Contraction Timer</h1>
+                    <p className="mt-2 text-gray-600">Tap when a contraction starts and again when it ends. Timings are kept on this device until you end the session.</p>
+                </div>
+
+                {session && isRuleMatched && <LaborHandoffAlert session={session} />}
+
+                <Card className="border border-momcare-primary/30 shadow-sm">
+                    <CardContent className="p-6 space-y-5">
+                        <div className="text-center">
+                            <p className="text-sm text-gray-500">{current ? 'Contraction in progress' : session ? `Last contraction ${completed.length > 0 ? formatDistanceToNow(new Date(completed[completed.length - 1].end), { addSuffix: true }) : ''}` : 'Not timing'}</p>
+                            <p className="text-5xl font-bold tabular-nums text-gray-800 my-2">{current ? formatElapsed(currentSeconds) : '0:00'}</p>
+                        </div>
+                        <Button
+                            type="button"
+                            onClick={handleToggleContraction}
+                            disabled={isSaving}
+                            className={`w-full h-20 text-lg text-white ${current ? 'bg-red-600 hover:bg-red-700' : 'bg-momcare-primary hover:bg-momcare-dark'}`}
+                        >
+                            {current ? <><Square className="mr-2 h-6 w-6" />Contraction ended</> : <><Play className="mr-2 h-6 w-6" />Contraction started</>}
+                        </Button>
+                        <div className="flex flex-wrap gap-2 justify-center">
+                            <Button type="button" variant="outline" size="sm" onClick={handleUndo} disabled={!session || isSaving}><Undo2 className="mr-1.5 h-4 w-4" />Undo last</Button>
+                            <Button type="button" variant="outline" size="sm" onClick={handleEndSession} disabled={!session || !!current || isSaving}>
+                                {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}End &amp; save session
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={handleDiscard} disabled={!session || isSaving}><X className="mr-1.5 h-4 w-4" />Discard</Button>
+                        </div>
+                        <div className="space-y-1.5 max-w-sm mx-auto">
+                            <Label htmlFor="laborRule">Alert me when contractions match</Label>
+                            <Select value={rule.id} onValueChange={handleRuleChange}>
+                                <SelectTrigger id="laborRule"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {LABOR_RULES.map(r => (<SelectItem key={r.id} value={r.id}>{r.label}</SelectItem>))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-gray-500">Use the rule your provider gave you.</p>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {session && (
+                    <Card className="shadow-sm">
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-lg flex items-center"><Activity className="mr-2 h-5 w-5 text-momcare-primary" />Pattern</CardTitle>
+                            <CardDescription>Intervals are measured from the start of one contraction to the start of the next.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                <StatTile label="Last duration" value={formatContractionDuration(stats60.lastDurationSeconds)} />
+                                <StatTile label="Last interval" value={formatContractionInterval(stats60.lastIntervalMinutes)} />
+                                <StatTile label="Avg. duration" value={formatContractionDuration(stats30.averageDurationSeconds)} hint="last 30 min" />
+                                <StatTile label="Avg. interval" value={formatContractionInterval(stats30.averageIntervalMinutes)} hint="last 30 min" />
+                                <StatTile label="Avg. duration" value={formatContractionDuration(stats60.averageDurationSeconds)} hint="last hour" />
+                                <StatTile label="Avg. interval" value={formatContractionInterval(stats60.averageIntervalMinutes)} hint="last hour" />
+                                <StatTile label="Frequency" value={`${stats30.frequencyPerHour}/h`} hint="last 30 min" />
+                                <StatTile label="Frequency" value={`${stats60.frequencyPerHour}/h`} hint="last hour" />
+                            </div>
+                            {completed.length > 0 && (
+                                <div className="max-h-64 overflow-y-auto border rounded-md">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-gray-50 text-gray-500 text-xs sticky top-0">
+                                            <tr><th className="text-left p-2">Started</th><th className="text-left p-2">Duration</th><th className="text-left p-2">Interval</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {[...completed].reverse().map((c, i, list) => {
+                                                const previous = list[i + 1];
+                                                const interval = previous ? (new Date(c.start).getTime() - new Date(previous.start).getTime()) / 60000 : null;
+                                                return (
+                                                    <tr key={c.start} className="border-t">
+                                                        <td className="p-2">{format(new Date(c.start), 'HH:mm:ss')}</td>
+                                                        <td className="p-2">{formatContractionDuration(getContractionDurationSeconds(c))}</td>
+                                                        <td className="p-2">{formatContractionInterval(interval)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
+                <Card className="shadow-sm">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-lg flex items-center"><History className="mr-2 h-5 w-5 text-momcare-primary" />Past Sessions</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoadingHistory ? (
+                            <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-momcare-primary" /></div>
+                        ) : history.length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-4">No saved sessions yet.</p>
+                        ) : (
+                            <ul className="divide-y">
+                                {history.map(s => {
+                                    const sessionContractions = parseContractions(s.contractions);
+                                    const sessionStats = getContractionStats(sessionContractions, 60, new Date(s.recordedAt));
+                                    return (
+                                        <li key={s.$id} className="py-3 flex items-center justify-between gap-2 text-sm">
+                                            <div>
+                                                <p className="font-medium text-gray-800">
+                                                    {format(new Date(s.startedAt), 'MMM d, HH:mm')} - {format(new Date(s.recordedAt), 'HH:mm')}
+                                                    {s.ruleMatched && <span className="ml-2 inline-flex items-center text-xs text-red-600"><CheckCircle2 className="mr-1 h-3.5 w-3.5" />Matched {s.ruleId}</span>}
+                                                </p>
+                                                <p className="text-xs text-gray-500">
+                                                    {sessionContractions.length} contractions · final hour avg {formatContractionInterval(sessionStats.averageIntervalMinutes)} apart, {formatContractionDuration(sessionStats.averageDurationSeconds)} long
+                                                </p>
+                                            </div>
+                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-500 hover:bg-red-100 hover:text-red-700" onClick={() => handleDeleteHistory(s.$id)} disabled={deletingSessionId === s.$id} aria-label="Delete session">
+                                                {deletingSessionId === s.$id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                            </Button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <p className="text-xs text-gray-500 text-center">This timer is a guide only. Follow your provider's instructions and call 102 if you think you or your baby need urgent help.</p>
+            </div>
+        </MainLayout>
+    );
+};
+
+export default ContractionTimerPage;
@@ -1,7 +1,7 @@
 // src/pages/DashboardPage.tsx
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { format, compareAsc, parseISO } from 'date-fns';
+import { format, compareAsc, parseISO, subDays } from 'date-fns';
 import ReactMarkdown from 'react-markdown'; // <-- Import ReactMarkdown
 import remarkGfm from 'remark-gfm';       // <-- Import remarkGfm
 import rehypeRaw from 'rehype-raw';         // <-- Import rehypeRaw
@@ -9,7 +9,7 @@ import {
     Calendar, Clock, Baby, Activity, FilePlus, MessageSquare, ArrowRight,
     AlertTriangle, Heart, Stethoscope, Salad, User, Edit, Trash2, Loader2, ListChecks,
     Bike, GraduationCap, Inbox, Pill, PlusCircle, BarChart3, Utensils, Dumbbell,
-    BookOpen, CheckSquare, Sparkles, RefreshCw // <-- Added Sparkles & RefreshCw
+    BookOpen, CheckSquare, Sparkles, RefreshCw, Lightbulb // <-- Added Sparkles & RefreshCw
 } from 'lucide-react';
 
 // --- UI Components ---
@@ -25,30 +25,47 @@ import {
 } from "@/components/ui/alert-dialog";
 import AppointmentItem from '@/components/appointments/AppointmentItem';
 import EditAppointmentModal from '@/components/appointments/EditAppointmentModal';
+import RecurrenceScopeChoice from '@/components/appointments/RecurrenceScopeChoice';
 import MedCharts from '@/components/dashboard/MedCharts';
+import KickCounter from '@/components/dashboard/KickCounter';
+import HealthAlerts from '@/components/dashboard/HealthAlerts';
 import MedReminder from '@/components/dashboard/MedReminder';
 import AddMedReminderModal from '@/components/dashboard/AddMedReminderModal';
 
 // --- State Management & Hooks ---
 import { useAuthStore } from '@/store/authStore';
 import { useToast } from '@/hooks/use-toast';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
 
 // --- Appwrite SDK & Types ---
 import {
     UserProfile, getUserProfile,
-    Appointment, getUserAppointments, updateAppointment, deleteAppointment,
+    Appointment, getUserAppointments, deleteAppointmentOccurrence,
     BloodPressureReading, BloodSugarReading, WeightReading,
     getBloodPressureReadings, getBloodSugarReadings, getWeightReadings,
+    KickCountReading, getKickCountReadings,
+    ClinicalThresholdOverride, getClinicalThresholdOverride,
     MedicationReminder, CreateMedicationReminderData,
     getMedicationReminders, createMedicationReminder, deleteMedicationReminder,
+    MedicationDoseEvent, getMedicationDoseEvents, logMedicationDose, adjustMedicationStock, updateMedicationReminder,
 } from '@/lib/appwrite';
 
 // --- Custom Health Utilities ---
-import { Trimester, HealthTip, selectHealthTip, defaultHealthTip } from '@/lib/healthTips';
+import { selectHealthTipForTimeline } from '@/lib/healthTips';
+import { getPregnancyTimeline, getCurrentWeek, formatGestationalAge, formatDaysToGo, PREGNANCY_LENGTH_DAYS } from '@/lib/pregnancyTimeline';
+import { resolveClinicalThresholds, parseClinicalThresholdOverrides, getHealthAlerts } from '@/lib/clinicalThresholds';
+import { RecurrenceEditScope, isRecurringAppointment } from '@/lib/appointmentRecurrence';
+import { getAppointmentStart } from '@/lib/appointmentTime';
+import { isAppointmentActive } from '@/lib/appointmentStatus';
+import { ADHERENCE_WINDOWS_DAYS, DEFAULT_SNOOZE_MINUTES, toDoseKey } from '@/lib/medicationSchedule';
+import { getDoseStockChange, getSupplyForecast, describeSupply } from '@/lib/medicationSupply';
 
 // --- NEW: Import Groq Dashboard Service ---
 import { generateDashboardFeed } from '@/lib/groqDash'; // <-- Import the new service
 
+/** Dose log needed for the longest adherence window shown on the reminders card. */
+const doseLogRange = () => ({ from: subDays(new Date(), Math.max(...ADHERENCE_WINDOWS_DAYS) + 1).toISOString() });
+
 // --- Helper Component: User Stats (Keep existing component) ---
 const UserStatsCards: React.FC<{ profile: UserProfile | null; appointmentsCount: number }> = ({ profile, appointmentsCount }) => {
     const profileCompleteness = useMemo(() => {
@@ -61,7 +78,9 @@ const UserStatsCards: React.FC<{ profile: UserProfile | null; appointmentsCount:
         ];
         const completedEssential = essentialFields.filter(field => {
             const value = profile[field];
-            if (field === 'weeksPregnant' || field === 'age' || field === 'previousPregnancies') {
+            // Any dating source (due date, last period, delivery or weeks) counts for the pregnancy stage
+            if (field === 'weeksPregnant') return getPregnancyTimeline(profile).stage !== 'unknown';
+            if (field === 'age' || field === 'previousPregnancies') {
                 return typeof value === 'number' && value >= 0;
             }
             return value !== null && value !== undefined && String(value).trim() !== '';
@@ -84,7 +103,7 @@ const UserStatsCards: React.FC<{ profile: UserProfile | null; appointmentsCount:
         if (!profile.name || String(profile.name).trim() === '') essential.push('Full Name');
         if (profile.age === null || profile.age === undefined || (typeof profile.age === 'number' && profile.age < 0)) essential.push('Age');
         if (!profile.gender || String(profile.gender).trim() === '') essential.push('Gender');
-        if (profile.weeksPregnant === null || profile.weeksPregnant === undefined || (typeof profile.weeksPregnant === 'number' && profile.weeksPregnant < 0)) essential.push('Current Weeks Pregnant');
+        if (getPregnancyTimeline(profile).stage === 'unknown') essential.push('Due Date or Last Period');
         if (!profile.phoneNumber || String(profile.phoneNumber).trim() === '') essential.push('Phone Number');
         if (!profile.address || String(profile.address).trim() === '') extended.push('Address');
         if (!profile.preExistingConditions || String(profile.preExistingConditions).trim() === '') extended.push('Pre-existing Medical Conditions');
@@ -98,7 +117,7 @@ const UserStatsCards: React.FC<{ profile: UserProfile | null; appointmentsCount:
         return { essential, extended };
     }, [profile]);
 
-    const essentialFieldNames: string[] = useMemo(() => ['Full Name', 'Age', 'Gender', 'Current Weeks Pregnant', 'Phone Number'], []);
+    const essentialFieldNames: string[] = useMemo(() => ['Full Name', 'Age', 'Gender', 'Due Date or Last Period', 'Phone Number'], []);
 
     return (
         <Card className="border border-gray-200 bg-white mt-4 shadow-sm dark:bg-gray-800 dark:border-gray-700">
@@ -146,33 +165,6 @@ const UserStatsCards: React.FC<{ profile: UserProfile | null; appointmentsCount:
 };
 
 
-// --- Helper Function: Parse Appointment DateTime (Keep existing function) ---
-const parseAppointmentDateTime = (app: Appointment): Date | null => {
-    if (!app?.date || !app?.time) return null;
-    try {
-        const datePart = app.date.split('T')[0];
-        const baseDate = parseISO(`${datePart}T00:00:00`);
-        if (isNaN(baseDate.getTime())) return null;
-        const timeMatch = app.time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-        if (!timeMatch) return null;
-        let hours = parseInt(timeMatch[1], 10);
-        const minutes = parseInt(timeMatch[2], 10);
-        const period = timeMatch[3]?.toUpperCase();
-        if (isNaN(hours) || isNaN(minutes) || minutes < 0 || minutes > 59) return null;
-        if (period) {
-            if (hours < 1 || hours > 12) return null;
-            if (period === 'PM' && hours !== 12) hours += 12;
-            if (period === 'AM' && hours === 12) hours = 0;
-        } else {
-            if (hours < 0 || hours > 23) return null;
-        }
-        const combinedDate = new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate(), hours, minutes);
-        return isNaN(combinedDate.getTime()) ? null : combinedDate;
-    } catch (error) {
-        return null;
-    }
-};
-
 // --- Main Dashboard Component ---
 const DashboardPage: React.FC = () => {
     // --- Existing State ---
@@ -182,7 +174,10 @@ const DashboardPage: React.FC = () => {
     const [bpReadings, setBpReadings] = useState<BloodPressureReading[]>([]);
     const [sugarReadings, setSugarReadings] = useState<BloodSugarReading[]>([]);
     const [weightReadings, setWeightReadings] = useState<WeightReading[]>([]);
+    const [kickReadings, setKickReadings] = useState<KickCountReading[]>([]);
+    const [thresholdOverride, setThresholdOverride] = useState<ClinicalThresholdOverride | null>(null);
     const [medReminders, setMedReminders] = useState<MedicationReminder[]>([]);
+    const [medDoseEvents, setMedDoseEvents] = useState<MedicationDoseEvent[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [isLoadingProfile, setIsLoadingProfile] = useState<boolean>(true);
     const [isLoadingAppointments, setIsLoadingAppointments] = useState<boolean>(true);
@@ -193,10 +188,12 @@ const DashboardPage: React.FC = () => {
     const [deletingAppointmentId, setDeletingAppointmentId] = useState<string | null>(null);
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState<boolean>(false);
     const [appointmentToDelete, setAppointmentToDelete] = useState<string | null>(null);
+    const [deleteScope, setDeleteScope] = useState<RecurrenceEditScope>('this');
     const [isMedModalOpen, setIsMedModalOpen] = useState<boolean>(false);
     const [deletingMedReminderId, setDeletingMedReminderId] = useState<string | null>(null);
     const [isDeleteMedReminderDialogOpen, setIsDeleteMedReminderDialogOpen] = useState<boolean>(false);
     const [medReminderToDelete, setMedReminderToDelete] = useState<string | null>(null);
+    const [loggingDoseKey, setLoggingDoseKey] = useState<string | null>(null);
 
     // --- NEW State for Dashboard Feed ---
     const [dashboardFeedContent, setDashboardFeedContent] = useState<string | null>(null);
@@ -219,7 +216,7 @@ const DashboardPage: React.FC = () => {
             setIsLoading(false); setIsLoadingProfile(false); setIsLoadingAppointments(false);
             setIsLoadingHealthData(false); setIsLoadingMedReminders(false); setIsLoadingFeed(false);
             setProfile(null); setUpcomingDoctorAppointments([]); setUpcomingClassAppointments([]);
-            setBpReadings([]); setSugarReadings([]); setWeightReadings([]); setMedReminders([]);
+            setBpReadings([]); setSugarReadings([]); setWeightReadings([]); setKickReadings([]); setThresholdOverride(null); setMedReminders([]); setMedDoseEvents([]);
             setDashboardFeedContent(null); setFeedError(null);
             return;
         }
@@ -254,6 +251,9 @@ const DashboardPage: React.FC = () => {
                 getBloodSugarReadings(currentUserId, 50),    // Fetch more readings for the chart
                 getWeightReadings(currentUserId, 50),       // Fetch more readings for the chart
                 getMedicationReminders(currentUserId),
+                getKickCountReadings(currentUserId, 50),
+                getClinicalThresholdOverride(currentUserId),
+                getMedicationDoseEvents(currentUserId, doseLogRange()),
             ]);
 
             // --- Process Core Data Results ---
@@ -269,8 +269,8 @@ const DashboardPage: React.FC = () => {
                 fetchedAppointments = coreDataResults[1].value as Appointment[] ?? [];
                 const now = new Date();
                 const allUpcoming = fetchedAppointments
-                    .map(app => ({ ...app, dateTime: parseAppointmentDateTime(app) }))
-                    .filter((app): app is Appointment & { dateTime: Date } => app.dateTime !== null && app.dateTime > now && !app.isCompleted)
+                    .map(app => ({ ...app, dateTime: getAppointmentStart(app) }))
+                    .filter((app): app is Appointment & { dateTime: Date } => app.dateTime !== null && app.dateTime > now && isAppointmentActive(app))
                     .sort((a, b) => compareAsc(a.dateTime, b.dateTime));
                 setUpcomingDoctorAppointments(allUpcoming.filter(app => doctorTypes.includes(app.appointmentType)));
                 setUpcomingClassAppointments(allUpcoming.filter(app => app.appointmentType && classTypes.includes(app.appointmentType as ClassAppointmentType)));
@@ -287,6 +287,8 @@ const DashboardPage: React.FC = () => {
             setBpReadings(fetchedBp);
             setSugarReadings(fetchedSugar);
             setWeightReadings(fetchedWeight); // This will now contain up to 50 readings
+            if (coreDataResults[6].status === 'fulfilled') setKickReadings(coreDataResults[6].value as KickCountReading[] ?? []); else console.error('Error fetching Kick Counts:', coreDataResults[6].reason);
+            setThresholdOverride(coreDataResults[7].status === 'fulfilled' ? coreDataResults[7].value as ClinicalThresholdOverride | null : null);
             setIsLoadingHealthData(false);
 
             // Medication Reminders
@@ -294,6 +296,7 @@ const DashboardPage: React.FC = () => {
                 fetchedReminders = coreDataResults[5].value as MedicationReminder[] ?? [];
                 setMedReminders(fetchedReminders);
             } else { console.error('Error fetching Reminders:', coreDataResults[5].reason); setMedReminders([]); toast({ title: "Reminders Load Failed", variant: "destructive" }); }
+            setMedDoseEvents(coreDataResults[8].status === 'fulfilled' ? coreDataResults[8].value as MedicationDoseEvent[] ?? [] : []);
             setIsLoadingMedReminders(false);
 
             // --- Fetch Dashboard Feed Data (if profile loaded or forcing refresh) ---
@@ -312,7 +315,9 @@ const DashboardPage: React.FC = () => {
                         // Pass the calculated upcoming appointments
                         [...upcomingDoctorAppointments, ...upcomingClassAppointments]
                             .filter((app): app is Appointment & { dateTime: Date } => app.dateTime != null)
-                            .sort((a, b) => compareAsc(a.dateTime, b.dateTime))
+                            .sort((a, b) => compareAsc(a.dateTime, b.dateTime)),
+                        fetchedReminders, // For refill reminders
+                        { refresh: options.forceFeedRefresh } // The refresh button skips the cached feed
                     );
                     setDashboardFeedContent(feedContent);
                 } catch (feedGenError) {
@@ -335,7 +340,7 @@ const DashboardPage: React.FC = () => {
             toast({ title: "Dashboard Load Failed", description: `${errorMessage}. Please refresh.`, variant: "destructive" });
             // Reset all states on critical failure
             setProfile(null); setUpcomingDoctorAppointments([]); setUpcomingClassAppointments([]);
-            setBpReadings([]); setSugarReadings([]); setWeightReadings([]); setMedReminders([]);
+            setBpReadings([]); setSugarReadings([]); setWeightReadings([]); setKickReadings([]); setMedReminders([]); setMedDoseEvents([]);
             setDashboardFeedContent(null); setFeedError(null);
             setIsLoadingProfile(false); setIsLoadingAppointments(false); setIsLoadingHealthData(false);
             setIsLoadingMedReminders(false); setIsLoadingFeed(false);
@@ -350,14 +355,74 @@ const DashboardPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [user, isAuthenticated]); // Run only when user/auth changes
 
+    // --- Offline Sync ---
+    // Readings, reminders and appointments are served from the local store. When it changes underneath us
+    // (server refresh, queued changes replayed after reconnecting) re-read them without regenerating the AI feed.
+    const reloadSyncedData = useCallback(async () => {
+        if (!isAuthenticated || !user?.$id) return;
+        const currentUserId = user.$id;
+        const [appointments, bp, sugar, weight, reminders, kicks, doseEvents] = await Promise.all([
+            getUserAppointments(currentUserId),
+            getBloodPressureReadings(currentUserId, 50),
+            getBloodSugarReadings(currentUserId, 50),
+            getWeightReadings(currentUserId, 50),
+            getMedicationReminders(currentUserId),
+            getKickCountReadings(currentUserId, 50),
+            getMedicationDoseEvents(currentUserId, doseLogRange()),
+        ]);
+        const now = new Date();
+        const allUpcoming = appointments
+            .map(app => ({ ...app, dateTime: getAppointmentStart(app) }))
+            .filter((app): app is Appointment & { dateTime: Date } => app.dateTime !== null && app.dateTime > now && isAppointmentActive(app))
+            .sort((a, b) => compareAsc(a.dateTime, b.dateTime));
+        setUpcomingDoctorAppointments(allUpcoming.filter(app => doctorTypes.includes(app.appointmentType)));
+        setUpcomingClassAppointments(allUpcoming.filter(app => app.appointmentType && classTypes.includes(app.appointmentType as ClassAppointmentType)));
+        setBpReadings(bp); setSugarReadings(sugar); setWeightReadings(weight); setKickReadings(kicks); setMedReminders(reminders); setMedDoseEvents(doseEvents);
+    }, [user, isAuthenticated, doctorTypes, classTypes]);
+    useOfflineSync(reloadSyncedData);
+
     // --- Appointment Handlers (Keep existing) ---
     const handleEditAppointment = useCallback((appointment: Appointment) => { /* ... */ setEditingAppointment(appointment); setIsEditModalOpen(true); }, []);
-    const handleDeleteAppointmentClick = useCallback((appointmentId: string) => { /* ... */ setAppointmentToDelete(appointmentId); setIsDeleteDialogOpen(true); }, []);
-    const confirmDeleteAppointment = useCallback(async () => { /* ... */ if (!appointmentToDelete) return; setDeletingAppointmentId(appointmentToDelete); try { await deleteAppointment(appointmentToDelete); toast({ title: "Appointment Deleted" }); await fetchData(); } catch (error) { const msg = error instanceof Error ? error.message : "Could not delete."; toast({ title: "Deletion Failed", description: msg, variant: "destructive" }); } finally { setDeletingAppointmentId(null); setAppointmentToDelete(null); setIsDeleteDialogOpen(false); } }, [appointmentToDelete, fetchData, toast]);
+    const handleDeleteAppointmentClick = useCallback((appointmentId: string) => { /* ... */ setAppointmentToDelete(appointmentId); setDeleteScope('this'); setIsDeleteDialogOpen(true); }, []);
+    const appointmentPendingDelete = useMemo(() => appointmentToDelete ? [...upcomingDoctorAppointments, ...upcomingClassAppointments].find(app => app.$id === appointmentToDelete) : undefined, [appointmentToDelete, upcomingDoctorAppointments, upcomingClassAppointments]);
+    const confirmDeleteAppointment = useCallback(async () => { /* ... */ if (!appointmentToDelete || !appointmentPendingDelete) return; setDeletingAppointmentId(appointmentToDelete); try { await deleteAppointmentOccurrence(appointmentPendingDelete, deleteScope); toast({ title: "Appointment Deleted" }); await fetchData(); } catch (error) { const msg = error instanceof Error ? error.message : "Could not delete."; toast({ title: "Deletion Failed", description: msg, variant: "destructive" }); } finally { setDeletingAppointmentId(null); setAppointmentToDelete(null); setIsDeleteDialogOpen(false); } }, [appointmentToDelete, appointmentPendingDelete, deleteScope, fetchData, toast]);
 
     // --- Medication Reminder Handlers (Keep existing) ---
     const handleAddReminderClick = useCallback(() => { /* ... */ setIsMedModalOpen(true); }, []);
     const handleSaveReminder = useCallback(async (data: CreateMedicationReminderData) => { /* ... */ if (!user?.$id) { toast({ title: "Error", description: "User not found.", variant: "destructive" }); return; } try { await createMedicationReminder(user.$id, data); toast({ title: "Reminder Added" }); await fetchData(); } catch (error) { const msg = error instanceof Error ? error.message : "Could not save."; toast({ title: "Save Failed", description: msg, variant: "destructive" }); throw error; } }, [user?.$id, fetchData, toast]);
+    const handleLogDose = useCallback(async (reminder: MedicationReminder, scheduledAt: Date, status: MedicationDoseEvent['status']) => {
+        if (!user?.$id) return;
+        setLoggingDoseKey(`${reminder.$id}:${toDoseKey(scheduledAt)}`);
+        try {
+            const snoozedUntil = status === 'snoozed' ? new Date(Date.now() + DEFAULT_SNOOZE_MINUTES * 60 * 1000).toISOString() : undefined;
+            const stockChange = getDoseStockChange(reminder, medDoseEvents, scheduledAt, status);
+            const event = await logMedicationDose(user.$id, { reminderId: reminder.$id, medicationName: reminder.medicationName, scheduledAt: scheduledAt.toISOString(), status, snoozedUntil });
+            setMedDoseEvents(prev => [event, ...prev]);
+            if (status === 'snoozed') toast({ title: "Dose Snoozed", description: `${reminder.medicationName} will show as due again in ${DEFAULT_SNOOZE_MINUTES} minutes.` });
+            if (stockChange !== 0) {
+                const updated = await adjustMedicationStock(reminder.$id, stockChange);
+                setMedReminders(prev => prev.map(r => r.$id === updated.$id ? updated : r));
+                const before = getSupplyForecast(reminder)?.status, after = getSupplyForecast(updated);
+                if (after && after.status !== 'ok' && after.status !== before) toast({ title: "Time to Refill", description: `${updated.medicationName}: ${describeSupply(after)}.` });
+            }
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not save the dose.";
+            toast({ title: "Dose Not Saved", description: msg, variant: "destructive" });
+        } finally {
+            setLoggingDoseKey(null);
+        }
+    }, [user?.$id, medDoseEvents, toast]);
+    const handleUpdateStock = useCallback(async (reminder: MedicationReminder, quantityOnHand: number) => {
+        try {
+            const updated = await updateMedicationReminder(reminder.$id, { quantityOnHand });
+            setMedReminders(prev => prev.map(r => r.$id === updated.$id ? updated : r));
+            toast({ title: "Supply Updated", description: `${updated.medicationName}: ${quantityOnHand} on hand.` });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : "Could not update the supply.";
+            toast({ title: "Update Failed", description: msg, variant: "destructive" });
+            throw error;
+        }
+    }, [toast]);
     const handleDeleteReminderClick = useCallback((reminderId: string) => { /* ... */ setMedReminderToDelete(reminderId); setIsDeleteMedReminderDialogOpen(true); }, []);
     const confirmDeleteReminder = useCallback(async () => { /* ... */ if (!medReminderToDelete) return; setDeletingMedReminderId(medReminderToDelete); try { await deleteMedicationReminder(medReminderToDelete); toast({ title: "Reminder Deleted" }); await fetchData(); } catch (error) { const msg = error instanceof Error ? error.message : "Could not delete."; toast({ title: "Deletion Failed", description: msg, variant: "destructive" }); } finally { setDeletingMedReminderId(null); setMedReminderToDelete(null); setIsDeleteMedReminderDialogOpen(false); } }, [medReminderToDelete, fetchData, toast]);
 
@@ -365,12 +430,17 @@ const DashboardPage: React.FC = () => {
     const getMilestone = useCallback((week: number): string => { /* ... keep existing logic ... */ const milestones: { [key: number]: string } = { 1: "Pregnancy begins...", 4: "Implantation occurs...", /* ... all other milestones ... */ 42: "Considered 'post term'..."}; if (week <= 0) return "Planning..."; if (week > 42) return "Anticipating arrival..."; const relevantWeeks = Object.keys(milestones).map(Number).filter(w => w <= week); const currentMilestoneWeek = relevantWeeks.length > 0 ? Math.max(...relevantWeeks) : 0; return currentMilestoneWeek > 0 ? `${milestones[currentMilestoneWeek]}` : "Early development stages."; }, []);
 
     // --- Formatting Helper (Keep existing) ---
-    const formatAppointmentDate = useCallback((dateString: string | undefined, time: string | undefined): string => { /* ... keep existing logic ... */ if (!dateString || !time) return "Date/Time not set"; const appStub = { date: dateString, time: time } as Appointment; try { const dt = parseAppointmentDateTime(appStub); if (!dt) throw new Error("Invalid date/time"); return format(dt, "EEE, MMM d, yyyy 'at' h:mm a"); } catch { const dp = dateString.split('T')[0] || dateString; return `${dp} at ${time}`; } }, []);
+    const formatAppointmentDate = useCallback((app: Appointment | null | undefined): string => { if (!app?.date || !app?.time) return "Date/Time not set"; const dt = getAppointmentStart(app); if (!dt) { const dp = app.date.split('T')[0] || app.date; return `${dp} at ${app.time}`; } return format(dt, "EEE, MMM d, yyyy 'at' h:mm a"); }, []);
 
     // --- Derived Values (Keep existing) ---
-    const currentWeek = useMemo(() => profile?.weeksPregnant ?? 0, [profile?.weeksPregnant]);
-    const pregnancyTrimester: Trimester = useMemo(() => { /* ... keep existing logic ... */ const week = currentWeek; if (week >= 1 && week <= 13) return "First"; if (week >= 14 && week <= 27) return "Second"; if (week >= 28 && week <= 40) return "Third"; if (week > 40) return "Post-term"; if (week === 0 && profile?.weeksPregnant !== undefined) return "Pre-conception"; return "N/A"; }, [currentWeek, profile?.weeksPregnant]);
-    const pregnancyProgress = useMemo(() => { /* ... keep existing logic ... */ const effectiveWeek = Math.max(0, Math.min(currentWeek, 40)); return effectiveWeek > 0 ? Math.round((effectiveWeek / 40) * 100) : 0; }, [currentWeek]);
+    const pregnancyTimeline = useMemo(() => getPregnancyTimeline(profile), [profile]);
+    const currentWeek = getCurrentWeek(pregnancyTimeline);
+    const pregnancyTrimester = pregnancyTimeline.trimester;
+    const pregnancyProgress = useMemo(() => { const days = Math.max(0, Math.min(pregnancyTimeline.gestationalAgeDays ?? 0, PREGNANCY_LENGTH_DAYS)); return Math.round((days / PREGNANCY_LENGTH_DAYS) * 100); }, [pregnancyTimeline]);
+    const healthTip = useMemo(() => selectHealthTipForTimeline(pregnancyTimeline), [pregnancyTimeline]);
+    const drugSafetyContext = useMemo(() => ({ stage: pregnancyTimeline.stage }), [pregnancyTimeline.stage]);
+    const clinicalThresholds = useMemo(() => resolveClinicalThresholds(parseClinicalThresholdOverrides(thresholdOverride?.overrides)), [thresholdOverride]);
+    const healthAlerts = useMemo(() => getHealthAlerts({ bpReadings, sugarReadings, weightReadings, profile }, clinicalThresholds), [bpReadings, sugarReadings, weightReadings, profile, clinicalThresholds]);
     const nextDoctorAppointment = useMemo(() => upcomingDoctorAppointments[0] || null, [upcomingDoctorAppointments]);
     const nextClassAppointment = useMemo(() => upcomingClassAppointments[0] || null, [upcomingClassAppointments]);
     const totalUpcomingAppointments = useMemo(() => upcomingDoctorAppointments.length + upcomingClassAppointments.length, [upcomingDoctorAppointments, upcomingClassAppointments]);
@@ -472,28 +542,45 @@ const DashboardPage: React.FC = () => {
                                     </CardHeader>
                                     <CardContent className="pt-6 px-5 space-y-5">
                                         {isLoadingProfile ? ( <div className="flex justify-center items-center py-6"><Loader2 className="h-6 w-6 animate-spin text-momcare-primary" /></div> )
-                                        : profile?.weeksPregnant !== undefined && profile.weeksPregnant >= 0 ? (
+                                        : pregnancyTimeline.stage !== 'unknown' ? (
                                             <>
-                                                {/* Progress Bar & Milestone */}
-                                                <div>
-                                                    <div className="flex justify-between items-baseline mb-2 text-sm">
-                                                        <span className="font-semibold text-gray-800 dark:text-gray-200">Week {currentWeek}</span>
-                                                        <span className="text-gray-600 dark:text-gray-400">{pregnancyTrimester} Trimester</span>
-                                                    </div>
-                                                    <Progress value={pregnancyProgress} className="h-2.5 [&>*]:bg-gradient-to-r [&>*]:from-momcare-primary [&>*]:to-momcare-secondary dark:[&>*]:from-momcare-accent dark:[&>*]:to-pink-500" aria-label={`Pregnancy progress: ${pregnancyProgress}%`} />
-                                                    <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                                        <span>{pregnancyProgress}% Complete</span>
-                                                        <span>{currentWeek < 40 && currentWeek >= 0 ? `Approx. ${40 - currentWeek} weeks left` : currentWeek === 0 ? "Starting soon!" : "Due date!"}</span>
+                                                {pregnancyTimeline.stage === 'pregnant' ? (
+                                                    <>
+                                                        {/* Progress Bar & Milestone */}
+                                                        <div>
+                                                            <div className="flex justify-between items-baseline mb-2 text-sm">
+                                                                <span className="font-semibold text-gray-800 dark:text-gray-200">{formatGestationalAge(pregnancyTimeline)}</span>
+                                                                <span className="text-gray-600 dark:text-gray-400">{pregnancyTrimester === 'Post-term' || pregnancyTrimester === 'Pre-conception' ? pregnancyTrimester : `${pregnancyTrimester} Trimester`}</span>
+                                                            </div>
+                                                            <Progress value={pregnancyProgress} className="h-2.5 [&>*]:bg-gradient-to-r [&>*]:from-momcare-primary [&>*]:to-momcare-secondary dark:[&>*]:from-momcare-accent dark:[&>*]:to-pink-500" aria-label={`Pregnancy progress: ${pregnancyProgress}%`} />
+                                                            <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                                                <span>{pregnancyProgress}% Complete</span>
+                                                                <span>{formatDaysToGo(pregnancyTimeline) ?? (currentWeek === 0 ? "Starting soon!" : "Due date!")}</span>
+                                                            </div>
+                                                            {pregnancyTimeline.dueDate && (
+                                                                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Estimated due date: <span className="font-medium text-gray-700 dark:text-gray-300">{format(pregnancyTimeline.dueDate, 'MMM d, yyyy')}</span></p>
+                                                            )}
+                                                        </div>
+                                                        <div className="bg-momcare-light/40 dark:bg-gray-700/50 p-3 rounded-lg border border-momcare-primary/10 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300">
+                                                            <p><span className="font-medium text-momcare-dark dark:text-momcare-light">Milestone (Week {currentWeek}): </span>{getMilestone(currentWeek)}</p>
+                                                        </div>
+                                                    </>
+                                                ) : (
+                                                    <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                                                        <p className="font-semibold text-gray-800 dark:text-gray-200">{formatGestationalAge(pregnancyTimeline)}</p>
+                                                        <p className="text-xs text-gray-500 dark:text-gray-400">Congratulations! Remember to book your postpartum check-up.</p>
                                                     </div>
-                                                </div>
-                                                <div className="bg-momcare-light/40 dark:bg-gray-700/50 p-3 rounded-lg border border-momcare-primary/10 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300">
-                                                    <p><span className="font-medium text-momcare-dark dark:text-momcare-light">Milestone (Week {currentWeek}): </span>{getMilestone(currentWeek)}</p>
+                                                )}
+                                                {/* Health Tip for the current week / stage */}
+                                                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900 dark:bg-amber-900/20 dark:border-amber-800/50 dark:text-amber-200">
+                                                    <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                                    <p><span className="font-medium">{healthTip.title}: </span>{healthTip.description}</p>
                                                 </div>
                                             </>
                                         ) : (
                                             <div className="text-center py-6 flex flex-col items-center">
                                                 <Baby className="h-12 w-12 text-gray-400 dark:text-gray-500 mb-3" />
-                                                <p className="text-gray-500 dark:text-gray-400 mb-4 text-sm">Update profile with current weeks pregnant to track progress.</p>
+                                                <p className="text-gray-500 dark:text-gray-400 mb-4 text-sm">{pregnancyTrimester === 'Error' ? "Your pregnancy dates look inconsistent. Please check them in your profile." : "Add your due date or last period to your profile to track progress."}</p>
                                                 <Button asChild variant="outline" size="sm" className="text-momcare-primary border-momcare-primary/50 hover:bg-momcare-primary/5 dark:text-momcare-accent dark:border-momcare-accent/50 dark:hover:bg-momcare-accent/10">
                                                     <a href="/profile">Go to Profile</a>
                                                 </Button>
@@ -516,7 +603,7 @@ const DashboardPage: React.FC = () => {
                                                     <div className="flex items-start space-x-3">
                                                         <div className="mt-1 h-10 w-10 bg-momcare-primary/10 text-momcare-primary rounded-full flex items-center justify-center flex-shrink-0 dark:bg-momcare-light/10 dark:text-momcare-light"><Calendar className="h-5 w-5" /></div>
                                                         <div>
-                                                            <p className="font-semibold text-gray-800 dark:text-gray-200 text-sm">{formatAppointmentDate(nextDoctorAppointment.date, nextDoctorAppointment.time)}</p>
+                                                            <p className="font-semibold text-gray-800 dark:text-gray-200 text-sm">{formatAppointmentDate(nextDoctorAppointment)}</p>
                                                             <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 capitalize">{nextDoctorAppointment.appointmentType?.replace(/_/g, ' ') || 'Check-up/Consultation'}</p>
                                                         </div>
                                                     </div>
@@ -546,7 +633,7 @@ const DashboardPage: React.FC = () => {
                                                     <div className="flex items-start space-x-3">
                                                         <div className="mt-1 h-10 w-10 bg-momcare-secondary/10 text-momcare-secondary rounded-full flex items-center justify-center flex-shrink-0 dark:bg-blue-500/10 dark:text-blue-400"><Bike className="h-5 w-5" /></div>
                                                         <div>
-                                                            <p className="font-semibold text-gray-800 dark:text-gray-200 text-sm">{formatAppointmentDate(nextClassAppointment.date, nextClassAppointment.time)}</p>
+                                                            <p className="font-semibold text-gray-800 dark:text-gray-200 text-sm">{formatAppointmentDate(nextClassAppointment)}</p>
                                                             <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 capitalize">{nextClassAppointment.appointmentType?.replace(/_/g, ' ') || 'Class/Activity'}</p>
                                                         </div>
                                                     </div>
@@ -602,8 +689,18 @@ const DashboardPage: React.FC = () => {
                                 onAddReminder={handleAddReminderClick}
                                 onDeleteReminder={handleDeleteReminderClick}
                                 deletingReminderId={deletingMedReminderId}
+                                doseEvents={medDoseEvents}
+                                onLogDose={handleLogDose}
+                                loggingDoseKey={loggingDoseKey}
+                                onUpdateStock={handleUpdateStock}
+                                safetyContext={drugSafetyContext}
                             />
 
+                            {/* Kick Counter (during pregnancy only) */}
+                            {pregnancyTimeline.stage === 'pregnant' && (
+                                <KickCounter userId={user?.$id} history={kickReadings} onSessionSaved={reloadSyncedData} />
+                            )}
+
                             {/* Health Readings Section */}
                             <div className="space-y-3">
                                 <div className="flex justify-between items-center">
@@ -614,10 +711,14 @@ const DashboardPage: React.FC = () => {
                                          <a href="/profile">Add/Edit Readings</a>
                                      </Button>
                                 </div>
+                                {!isLoadingHealthData && <HealthAlerts alerts={healthAlerts} adjustedBy={thresholdOverride ? (thresholdOverride.updatedByName || 'your doctor') : null} />}
                                 <MedCharts
                                     bpReadings={bpReadings}
                                     sugarReadings={sugarReadings}
                                     weightReadings={weightReadings}
+                                    kickReadings={kickReadings}
+                                    profile={profile}
+                                    thresholds={clinicalThresholds}
                                     isLoading={isLoadingHealthData}
                                     onDataRefreshNeeded={() => fetchData()} // Allow chart refresh if needed
                                 />
@@ -720,9 +821,9 @@ const DashboardPage: React.FC = () => {
             {/* --- Modals & Dialogs (Keep existing) --- */}
             {editingAppointment && ( <EditAppointmentModal appointment={editingAppointment} isOpen={isEditModalOpen} onClose={() => { setIsEditModalOpen(false); setEditingAppointment(null); }} onAppointmentUpdated={async () => { setIsEditModalOpen(false); setEditingAppointment(null); await fetchData(); }} /> )}
             <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}> {/* ... existing delete dialog ... */}
-                 <AlertDialogContent> <AlertDialogHeader> <AlertDialogTitle>Confirm Appointment Deletion</AlertDialogTitle> <AlertDialogDescription>Are you sure? This action cannot be undone.</AlertDialogDescription> </AlertDialogHeader> <AlertDialogFooter> <AlertDialogCancel onClick={() => setAppointmentToDelete(null)}>Cancel</AlertDialogCancel> <AlertDialogAction onClick={confirmDeleteAppointment} className="bg-red-600 hover:bg-red-700" disabled={!!deletingAppointmentId} > {deletingAppointmentId === appointmentToDelete ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</> : "Delete Appointment"} </AlertDialogAction> </AlertDialogFooter> </AlertDialogContent>
+                 <AlertDialogContent> <AlertDialogHeader> <AlertDialogTitle>Confirm Appointment Deletion</AlertDialogTitle> <AlertDialogDescription>Are you sure? This action cannot be undone.</AlertDialogDescription> </AlertDialogHeader> {appointmentPendingDelete && isRecurringAppointment(appointmentPendingDelete) && <RecurrenceScopeChoice value={deleteScope} onChange={setDeleteScope} idPrefix="dashboard-delete-scope" disabled={!!deletingAppointmentId} />} <AlertDialogFooter> <AlertDialogCancel onClick={() => setAppointmentToDelete(null)}>Cancel</AlertDialogCancel> <AlertDialogAction onClick={confirmDeleteAppointment} className="bg-red-600 hover:bg-red-700" disabled={!!deletingAppointmentId} > {deletingAppointmentId === appointmentToDelete ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</> : "Delete Appointment"} </AlertDialogAction> </AlertDialogFooter> </AlertDialogContent>
             </AlertDialog>
-            <AddMedReminderModal isOpen={isMedModalOpen} onClose={() => setIsMedModalOpen(false)} onSubmit={handleSaveReminder} />
+            <AddMedReminderModal isOpen={isMedModalOpen} onClose={() => setIsMedModalOpen(false)} onSubmit={handleSaveReminder} activeReminders={medReminders} safetyContext={drugSafetyContext} />
             <AlertDialog open={isDeleteMedReminderDialogOpen} onOpenChange={setIsDeleteMedReminderDialogOpen}> {/* ... existing reminder delete dialog ... */}
                  <AlertDialogContent> <AlertDialogHeader> <AlertDialogTitle>Confirm Reminder Deletion</AlertDialogTitle> <AlertDialogDescription>Are you sure? This action cannot be undone.</AlertDialogDescription> </AlertDialogHeader> <AlertDialogFooter> <AlertDialogCancel onClick={() => setMedReminderToDelete(null)}>Cancel</AlertDialogCancel> <AlertDialogAction onClick={confirmDeleteReminder} className="bg-red-600 hover:bg-red-700" disabled={!!deletingMedReminderId} > {deletingMedReminderId === medReminderToDelete ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</> : "Delete Reminder"} </AlertDialogAction> </AlertDialogFooter> </AlertDialogContent>
             </AlertDialog>
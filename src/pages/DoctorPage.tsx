@@ -14,6 +14,7 @@ import { Loader2, UserCheck, Ban, Home } from 'lucide-react';
 import PatientSearchCard from '@/components/doctor/PatientSearchCard';
 import DoctorAppointmentsCard from '@/components/doctor/DoctorAppointmentsCard';
 import PendingReviewsCard from '@/components/doctor/PendingReviewsCard';
+import ProviderAvailabilityCard from '@/components/doctor/ProviderAvailabilityCard';
 
 const REQUIRED_LABEL = 'doctor';
 
@@ -120,6 +121,11 @@ const DoctorPage: React.FC = () => {
                         <PendingReviewsCard />
                     </div>
 
+                    {/* Booking Hours Card */}
+                    <div className="lg:col-span-1">
+                        <ProviderAvailabilityCard />
+                    </div>
+
                 </div>
             </div>
         </MainLayout>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -11,8 +12,14 @@ import {
   AlertTriangle, Phone, MapPin, Loader2, Hospital, RefreshCw, Navigation,
   HeartPulse, Siren, SearchX, MapPinned, Info, WifiOff, KeyRound, Ban,
   BriefcaseMedical, ClipboardList, LifeBuoy, Clock, Globe, PhoneCall, Route,
-  Search
+  Search, Timer
 } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import LaborHandoffAlert from '@/components/contractions/LaborHandoffAlert';
+import {
+  ActiveContractionSession, getLaborRule, getContractionStats, matchesLaborRule,
+  formatContractionDuration, formatContractionInterval, loadActiveContractionSession
+} from '@/lib/contractionTimer';
 
 // --- Constants ---
 const GEOLOCATION_TIMEOUT = 20000; // Slightly reduced timeout
@@ -85,6 +92,13 @@ const Emergency = () => {
   const googleMapsApiKey = import.meta.env.VITE_PUBLIC_GOOGLE_MAPS_API_KEY as string;
   const mapsApiLoaded = useRef(false);
   const mapsLoadInitiated = useRef(false); // Track if script load has been started
+  const { user } = useAuthStore();
+  const [laborSession, setLaborSession] = useState<ActiveContractionSession | null>(null);
+
+  // --- Labor Progress (running contraction timer session on this device, if any) ---
+  useEffect(() => {
+    setLaborSession(loadActiveContractionSession(user?.$id));
+  }, [user?.$id]);
 
   // --- Lifecycle and API Key Check / Initial Maps Load ---
   useEffect(() => {
@@ -557,6 +571,38 @@ const Emergency = () => {
       }
   };
 
+  // --- Render Labor Progress Card ---
+  const renderLaborProgress = (session: ActiveContractionSession) => {
+    const rule = getLaborRule(session.ruleId);
+    const stats = getContractionStats(session.contractions, 60);
+    const isMatched = matchesLaborRule(session.contractions, rule);
+    return (
+      <div className="mb-12 space-y-4">
+        {isMatched && <LaborHandoffAlert session={session} showHospitalLink={false} />}
+        <Card className="border border-momcare-primary/30 shadow-lg rounded-lg overflow-hidden">
+          <CardHeader className="bg-momcare-light/50 p-5">
+            <CardTitle className="flex items-center justify-between text-xl font-semibold text-momcare-primary">
+              <span className="flex items-center"><Timer className="mr-3 h-6 w-6" />Labor Progress</span>
+              {isMatched ? <Badge variant="destructive">Matches {rule.id}</Badge> : <Badge variant="outline">Watching for {rule.id}</Badge>}
+            </CardTitle>
+            <CardDescription>From the contraction timer running on this device (last hour).</CardDescription>
+          </CardHeader>
+          <CardContent className="p-5 grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+            <div><p className="text-xs text-gray-500">Contractions</p><p className="text-lg font-semibold text-gray-800">{stats.count}</p></div>
+            <div><p className="text-xs text-gray-500">Avg. interval</p><p className="text-lg font-semibold text-gray-800">{formatContractionInterval(stats.averageIntervalMinutes)}</p></div>
+            <div><p className="text-xs text-gray-500">Avg. duration</p><p className="text-lg font-semibold text-gray-800">{formatContractionDuration(stats.averageDurationSeconds)}</p></div>
+            <div><p className="text-xs text-gray-500">Last interval</p><p className="text-lg font-semibold text-gray-800">{formatContractionInterval(stats.lastIntervalMinutes)}</p></div>
+          </CardContent>
+          <CardFooter className="p-5 pt-0">
+            <Button asChild variant="outline" size="sm" className="border-momcare-primary text-momcare-primary hover:bg-momcare-light hover:text-momcare-primary">
+              <Link to="/contractions"><Timer className="mr-1.5 h-4 w-4" /> Open contraction timer</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  };
+
   // --- JSX Structure (Main component render) ---
   // No changes needed in the main JSX structure below this line
   return (
@@ -579,6 +625,9 @@ const Emergency = () => {
           </div>
         </Alert>
 
+        {/* Labor Progress (only while a contraction timer session is running) */}
+        {laborSession && renderLaborProgress(laborSession)}
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12 items-start">
           {/* Column 1: Contacts & What to Do */}
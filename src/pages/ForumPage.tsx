@@ -530,7 +530,7 @@ const ForumPage: React.FC = () => {
             const combinedFlags = [...new Set([...titleModeration.flags, ...contentModeration.flags])]; let finalDecision = ModerationDecision.ALLOW; let rejectionReason = "";
             if (titleModeration.decision === ModerationDecision.DENY || contentModeration.decision === ModerationDecision.DENY) { finalDecision = ModerationDecision.DENY; rejectionReason = titleModeration.decision === ModerationDecision.DENY ? titleModeration.reason || "Title violates guidelines" : contentModeration.reason || "Content violates guidelines"; }
             else if (titleModeration.decision === ModerationDecision.FLAG || contentModeration.decision === ModerationDecision.FLAG) { finalDecision = ModerationDecision.FLAG; rejectionReason = contentModeration.decision === ModerationDecision.FLAG ? contentModeration.reason || "Content flagged" : titleModeration.reason || "Title flagged"; }
-            else if (titleModeration.decision === ModerationDecision.ERROR || contentModeration.decision === ModerationDecision.ERROR) { finalDecision = ModerationDecision.ERROR; rejectionReason = "Moderation check failed."; }
+            else if (titleModeration.decision === ModerationDecision.ERROR || contentModeration.decision === ModerationDecision.ERROR) { finalDecision = ModerationDecision.ERROR; rejectionReason = (titleModeration.decision === ModerationDecision.ERROR ? titleModeration.reason : contentModeration.reason) || "Moderation check failed."; }
             setIsModerating(false);
             if (finalDecision === ModerationDecision.DENY) { toast({ title: "Topic Rejected", description: rejectionReason, variant: "destructive" }); setIsCreatingTopic(false); return; }
             if (finalDecision === ModerationDecision.ERROR) { toast({ title: "Moderation Error", description: rejectionReason + " Please try again.", variant: "destructive" }); setIsCreatingTopic(false); return; }
@@ -42,6 +42,7 @@ import ReactMarkdown, { Options as ReactMarkdownOptions } from 'react-markdown';
 
 // Appwrite & AI Service Imports
 import { getUserProfile, UserProfile } from '@/lib/appwrite';
+import { getPregnancyTimeline } from '@/lib/pregnancyTimeline';
 // --- Import specialized meal service types/functions ---
 import { groqMealService, MealIdea, MealGenerationOptions } from '@/lib/groqMeal';
 // --- Import specialized exercise service types/functions ---
@@ -54,7 +55,7 @@ const isProfileComplete = (profile: UserProfile | null): boolean => {
   }
   // Basic check - adjust required fields as needed
   const isAgePresent = typeof profile.age === 'number' && profile.age > 0;
-  const isWeeksPregnantPresent = typeof profile.weeksPregnant === 'number' && profile.weeksPregnant >= 0;
+  const isWeeksPregnantPresent = getPregnancyTimeline(profile).stage !== 'unknown';
   const isActivityLevelPresent = typeof profile.activityLevel === 'string' && profile.activityLevel.trim() !== '';
   return isAgePresent && isWeeksPregnantPresent && isActivityLevelPresent;
 };
@@ -225,8 +226,9 @@ const MealPage: FC = () => {
             throw new Error("Meal suggestion service is unavailable.");
         }
 
-        // Call the correct specialized function
-        const content = await groqMealService.generatePersonalizedMeals(userProfile, options);
+        // Call the correct specialized function. The first generation on a visit may reuse cached suggestions;
+        // "Regenerate Meals" asks for new ones.
+        const content = await groqMealService.generatePersonalizedMeals(userProfile, options, { refresh: mealSuggestions !== null });
 
         if (isMounted.current) {
             setMealSuggestions(content.meals || []); // Update only meal suggestions
@@ -247,7 +249,7 @@ const MealPage: FC = () => {
         if (isMounted.current) setIsLoadingMeals(false);
         isGeneratingMeals.current = false;
     }
-  }, [canGenerate, userProfile, suggestionCount, customPreference, toast]);
+  }, [canGenerate, userProfile, suggestionCount, customPreference, mealSuggestions, toast]);
 
   // Generate Exercise Suggestions
   const generateExerciseSuggestions = useCallback(async () => {
@@ -61,18 +61,14 @@ const ProductCardSkeleton: React.FC = () => (
     </Card>
 );
 
-// --- Caching Configuration ---
-const CACHE_DURATION_MS = 15 * 60 * 1000; // Cache profile for 15 minutes
-const PROFILE_CACHE_KEY_PREFIX = 'userProfile_';
-const PROFILE_TIMESTAMP_KEY_PREFIX = 'userProfileTimestamp_';
-const PROFILE_USER_UPDATED_AT_KEY_PREFIX = 'userProfileUserUpdatedAt_';
-
 // --- Main Component ---
 const ProductPage: React.FC = () => {
     // --- Hooks ---
     const { user, isAuthenticated } = useAuthStore();
     const { toast } = useToast();
     const isMounted = useRef(false); // To track initial mount
+    const profileLoadedForUpdatedAt = useRef<string | null>(null); // user.$updatedAt the profile was loaded for
+    const refreshNextFetch = useRef(false); // Set by "Refresh Data" so cached recommendations are skipped once
 
     // --- State ---
     const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -96,20 +92,6 @@ const ProductPage: React.FC = () => {
     const [togglingBookmarkId, setTogglingBookmarkId] = useState<string | null>(null);
     const [showOnlyBookmarked, setShowOnlyBookmarked] = useState<boolean>(false); // Toggle bookmark view
 
-    // --- Caching Helper Functions ---
-    const clearProfileCache = useCallback((userId?: string) => {
-        const id = userId || user?.$id;
-        if (!id) return;
-        // console.log(`Clearing profile cache for user: ${id}`);
-        try {
-            sessionStorage.removeItem(PROFILE_CACHE_KEY_PREFIX + id);
-            sessionStorage.removeItem(PROFILE_TIMESTAMP_KEY_PREFIX + id);
-            sessionStorage.removeItem(PROFILE_USER_UPDATED_AT_KEY_PREFIX + id);
-        } catch (error) {
-            //  console.error("Error clearing profile cache:", error);
-        }
-    }, [user?.$id]);
-
     // --- Data Fetching Callbacks ---
 
     // Fetch Bookmarks
@@ -151,20 +133,23 @@ const ProductPage: React.FC = () => {
         let fetchFn: () => Promise<ProductRecommendation[]>;
         let fetchLabel: 'personalized' | 'general' | 'prompt-based';
         const categoryArg = selectedCategory || undefined;
+        // Recommendations are cached per profile context and search; "Refresh Data" asks for new ones
+        const cacheOptions = { refresh: refreshNextFetch.current };
+        refreshNextFetch.current = false;
 
         if (activeSearchPrompt) {
             fetchLabel = 'prompt-based';
             // console.log(`Fetching ${fetchLabel} recommendations for prompt: "${activeSearchPrompt}", category: ${categoryArg || 'All'}`);
-            fetchFn = () => getPromptBasedRecommendations(activeSearchPrompt, categoryArg);
+            fetchFn = () => getPromptBasedRecommendations(activeSearchPrompt, categoryArg, cacheOptions);
         } else if (profile) {
             fetchLabel = 'personalized';
             // console.log(`Fetching ${fetchLabel} recommendations for profile, category: ${categoryArg || 'All'}`);
-            fetchFn = () => getPersonalizedRecommendations(profile, categoryArg);
+            fetchFn = () => getPersonalizedRecommendations(profile, categoryArg, cacheOptions);
             setPersonalizedFetchAttempted(true);
         } else {
             fetchLabel = 'general';
             // console.log(`Fetching ${fetchLabel} recommendations, category: ${categoryArg || 'All'}`);
-            fetchFn = () => getGeneralRecommendations(categoryArg);
+            fetchFn = () => getGeneralRecommendations(categoryArg, cacheOptions);
         }
 
         setLoadingRecommendations(true);
@@ -196,8 +181,8 @@ const ProductPage: React.FC = () => {
         }
     }, [isAuthenticated, profile, activeSearchPrompt, selectedCategory, toast]);
 
-    // Fetch User Profile with Caching
-    const fetchProfile = useCallback(async (forceRefresh: boolean = false): Promise<UserProfile | null> => {
+    // Fetch User Profile
+    const fetchProfile = useCallback(async (): Promise<UserProfile | null> => {
         if (!isAuthenticated || !user?.$id || !user?.$updatedAt) {
             if (isMounted.current) {
                 setLoadingProfile(false);
@@ -209,54 +194,7 @@ const ProductPage: React.FC = () => {
 
         const userId = user.$id;
         const currentUserUpdatedAt = user.$updatedAt;
-        const cacheKey = PROFILE_CACHE_KEY_PREFIX + userId;
-        const timestampKey = PROFILE_TIMESTAMP_KEY_PREFIX + userId;
-        const userUpdatedAtKey = PROFILE_USER_UPDATED_AT_KEY_PREFIX + userId;
-
-        // --- Cache Check ---
-        if (!forceRefresh) {
-            try {
-                const cachedProfileJSON = sessionStorage.getItem(cacheKey);
-                const cachedTimestampStr = sessionStorage.getItem(timestampKey);
-                const cachedUserUpdatedAt = sessionStorage.getItem(userUpdatedAtKey);
-
-                if (cachedProfileJSON && cachedTimestampStr && cachedUserUpdatedAt) {
-                    const cachedTimestamp = parseInt(cachedTimestampStr, 10);
-                    const now = Date.now();
-
-                    if (
-                        !isNaN(cachedTimestamp) &&
-                        now - cachedTimestamp < CACHE_DURATION_MS &&
-                        cachedUserUpdatedAt === currentUserUpdatedAt
-                    ) {
-                        // console.log(`Using cached profile for user: ${userId}`);
-                        const cachedProfile = JSON.parse(cachedProfileJSON) as UserProfile;
-                         if (isMounted.current) {
-                            setProfile(cachedProfile);
-                            setLoadingProfile(false);
-                            setError(null);
-                            setPersonalizedFetchAttempted(true);
-                         }
-                        return cachedProfile;
-                    } else {
-                        // console.log(`Cache invalid for user ${userId}. Reason:`, {
-                        //     expired: now - cachedTimestamp >= CACHE_DURATION_MS,
-                        //     userUpdated: cachedUserUpdatedAt !== currentUserUpdatedAt,
-                        //     invalidTimestamp: isNaN(cachedTimestamp)
-                        // });
-                        clearProfileCache(userId);
-                    }
-                }
-            } catch (error) {
-                // console.error("Error reading profile cache:", error);
-                clearProfileCache(userId);
-            }
-        } else {
-            //  console.log(`Forcing profile refresh for user: ${userId}`);
-             clearProfileCache(userId);
-        }
 
-        // --- Fetch from API ---
         // console.log("Fetching user profile from API...");
         if (isMounted.current) {
              setLoadingProfile(true);
@@ -268,18 +206,7 @@ const ProductPage: React.FC = () => {
             const userProfile = await getUserProfile(userId);
             if (isMounted.current) {
                 setProfile(userProfile);
-
-                // --- Store in Cache ---
-                try {
-                    sessionStorage.setItem(cacheKey, JSON.stringify(userProfile));
-                    sessionStorage.setItem(timestampKey, Date.now().toString());
-                    sessionStorage.setItem(userUpdatedAtKey, currentUserUpdatedAt);
-                    // console.log(`Profile cached for user: ${userId}`);
-                } catch (cacheError) {
-                    // console.error("Error writing profile cache:", cacheError);
-                    // Clear cache just in case it was partially written or caused the error
-                    clearProfileCache(userId);
-                }
+                profileLoadedForUpdatedAt.current = currentUserUpdatedAt;
             }
             return userProfile;
         } catch (err: unknown) {
@@ -297,7 +224,7 @@ const ProductPage: React.FC = () => {
                 setLoadingProfile(false);
             }
         }
-    }, [user?.$id, user?.$updatedAt, isAuthenticated, toast, clearProfileCache]);
+    }, [user?.$id, user?.$updatedAt, isAuthenticated, toast]);
 
     // --- Effects ---
 
@@ -307,7 +234,7 @@ const ProductPage: React.FC = () => {
         // console.log("Component Mounted. Auth State:", isAuthenticated);
 
         if (isAuthenticated === true && user?.$id) {
-            fetchProfile(); // Initial fetch (uses cache if valid)
+            fetchProfile(); // Initial fetch
             fetchBookmarks();
         } else if (isAuthenticated === false) {
             // Clear state if not authenticated on mount
@@ -325,9 +252,6 @@ const ProductPage: React.FC = () => {
             setActiveSearchPrompt('');
             setUserPrompt('');
             setSelectedCategory('');
-            if (user?.$id) { // Attempt cache clear even if user object exists briefly before state updates
-                clearProfileCache(user.$id);
-            }
         }
 
         // Cleanup on unmount
@@ -336,31 +260,19 @@ const ProductPage: React.FC = () => {
             isMounted.current = false;
         };
         // Run only on mount and when auth state/user ID changes fundamentally
-    }, [isAuthenticated, user?.$id]); // Removed fetchProfile, fetchBookmarks, clearProfileCache from deps - called internally
+    }, [isAuthenticated, user?.$id]); // Removed fetchProfile, fetchBookmarks from deps - called internally
 
-    // Re-fetch profile or clear cache based on external user changes (e.g., profile update in another tab)
+    // Re-fetch profile when the user object changes externally (e.g., profile update in another tab)
     useEffect(() => {
         // Only run if authenticated and mounted
         if (!isAuthenticated || !user?.$id || !user?.$updatedAt || !isMounted.current) {
             return;
         }
-
-        const userId = user.$id;
-        const currentUserUpdatedAt = user.$updatedAt;
-        const userUpdatedAtKey = PROFILE_USER_UPDATED_AT_KEY_PREFIX + userId;
-
-        try {
-            const cachedUserUpdatedAt = sessionStorage.getItem(userUpdatedAtKey);
-            // If we have a cached timestamp and it *doesn't* match the current user's updatedAt,
-            // it means the user object was updated externally (e.g., profile edit). Force refresh.
-            if (cachedUserUpdatedAt && cachedUserUpdatedAt !== currentUserUpdatedAt) {
-                // console.log("User object updated externally. Forcing profile refresh.");
-                fetchProfile(true); // Force refresh
-            }
-        } catch (error) {
-            //  console.error("Error checking cached user update timestamp:", error);
+        // Only once a profile was loaded; the mount effect handles the first load
+        if (profileLoadedForUpdatedAt.current && profileLoadedForUpdatedAt.current !== user.$updatedAt) {
+            // console.log("User object updated externally. Re-fetching profile.");
+            fetchProfile();
         }
-
     }, [user?.$updatedAt, user?.$id, isAuthenticated, fetchProfile]); // Depend on user.$updatedAt
 
     // Trigger Recommendation Fetch after Profile Load/Update or Search/Filter Change
@@ -434,8 +346,9 @@ const ProductPage: React.FC = () => {
     const handleManualRefresh = (): void => {
         if (loadingRecommendations || loadingProfile) return;
         // console.log("Manual refresh triggered.");
-        // Force profile re-fetch (clears cache inside fetchProfile)
-        fetchProfile(true);
+        // Re-fetch the profile and generate new recommendations instead of reusing cached ones
+        refreshNextFetch.current = true;
+        fetchProfile();
         // Force recommendation refetch as well, in case profile data is identical but recommendations failed before
         setFetchCycleId(id => id + 1);
     };
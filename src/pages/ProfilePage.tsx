@@ -31,6 +31,12 @@ import {
     WeightReading,
     AppwriteDocument // Ensure AppwriteDocument is imported
 } from '@/lib/appwrite';
+import { getPregnancyTimeline, dueDateFromLmp, formatGestationalAge, describePregnancyStage, formatDaysToGo, conceptionMethodLabels, ConceptionMethod, PREGNANCY_LENGTH_DAYS } from '@/lib/pregnancyTimeline';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { toDateTimeInputValue, parseReadingTimeInput } from '@/lib/readingTime';
+import HealthDataTransferCard from '@/components/dashboard/HealthDataTransferCard';
+import NotificationSettingsCard from '@/components/notifications/NotificationSettingsCard';
+import { WeightUnit, GlucoseUnit, getPreferredUnits, toPreferredUnitsField, glucoseForStorage } from '@/lib/units';
 import { User as AuthUserIcon, UploadCloud, Save, Loader2, HeartPulse, Info, Settings, HeartHandshake, Briefcase, Utensils, Activity, MessageCircle } from 'lucide-react'; // Added more icons
 
 const ProfilePage = () => {
@@ -52,17 +58,25 @@ const ProfilePage = () => {
     const [gender, setGender] = useState('');
     const [address, setAddress] = useState('');
     const [weeksPregnant, setWeeksPregnant] = useState('');
+    const [lastMenstrualPeriod, setLastMenstrualPeriod] = useState(''); // yyyy-MM-dd from <input type="date">
+    const [estimatedDueDate, setEstimatedDueDate] = useState('');
+    const [conceptionMethod, setConceptionMethod] = useState('');
+    const [deliveryDate, setDeliveryDate] = useState('');
     const [preExistingConditions, setPreExistingConditions] = useState('');
     const [phoneNumber, setPhoneNumber] = useState('');
 
     // --- Profile Form State (NEW FIELDS) ---
     const [previousPregnancies, setPreviousPregnancies] = useState(''); // Stored as number, input as string
+    const [heightCm, setHeightCm] = useState(''); // For the BMI-based weight gain range
+    const [prePregnancyWeightKg, setPrePregnancyWeightKg] = useState('');
     const [deliveryPreference, setDeliveryPreference] = useState('');
     const [partnerSupport, setPartnerSupport] = useState(''); // Sensitive field
     const [workSituation, setWorkSituation] = useState('');
     const [dietaryPreferences, setDietaryPreferences] = useState(''); // Input as comma-separated string
     const [activityLevel, setActivityLevel] = useState('');
     const [chatTonePreference, setChatTonePreference] = useState('');
+    const [preferredWeightUnit, setPreferredWeightUnit] = useState<WeightUnit>('kg');
+    const [preferredGlucoseUnit, setPreferredGlucoseUnit] = useState<GlucoseUnit>('mg/dL');
 
     // --- Health Input State (remains unchanged) ---
     const [isSavingHealthData, setIsSavingHealthData] = useState<'bp' | 'sugar' | 'weight' | null>(null);
@@ -72,6 +86,7 @@ const ProfilePage = () => {
     const [sugarType, setSugarType] = useState<'fasting' | 'post_meal' | 'random'>('fasting');
     const [weight, setWeight] = useState('');
     const [weightUnit, setWeightUnit] = useState<'kg' | 'lbs'>('kg');
+    const [readingTime, setReadingTime] = useState(''); // Blank = now; set to backdate a reading
 
     // --- Combined Fetch Function (Updated) ---
     const fetchData = useCallback(async () => {
@@ -101,11 +116,17 @@ const ProfilePage = () => {
                 setGender(profileData.gender || '');
                 setAddress(profileData.address || '');
                 setWeeksPregnant(profileData.weeksPregnant?.toString() || '');
+                setLastMenstrualPeriod(profileData.lastMenstrualPeriod?.slice(0, 10) || '');
+                setEstimatedDueDate(profileData.estimatedDueDate?.slice(0, 10) || '');
+                setConceptionMethod(profileData.conceptionMethod || '');
+                setDeliveryDate(profileData.deliveryDate?.slice(0, 10) || '');
                 setPreExistingConditions(profileData.preExistingConditions || '');
                 setPhoneNumber(profileData.phoneNumber || '');
 
                 // NEW fields
                 setPreviousPregnancies(profileData.previousPregnancies?.toString() || ''); // Convert number to string for input
+                setHeightCm(profileData.heightCm?.toString() || '');
+                setPrePregnancyWeightKg(profileData.prePregnancyWeightKg?.toString() || '');
                 setDeliveryPreference(profileData.deliveryPreference || '');
                 setPartnerSupport(profileData.partnerSupport || '');
                 setWorkSituation(profileData.workSituation || '');
@@ -113,6 +134,10 @@ const ProfilePage = () => {
                 setActivityLevel(profileData.activityLevel || '');
                 setChatTonePreference(profileData.chatTonePreference || '');
                 setLanguagePreference(profileData.languagePreference || 'en');
+                const units = getPreferredUnits(profileData);
+                setPreferredWeightUnit(units.weight);
+                setPreferredGlucoseUnit(units.glucose);
+                setWeightUnit(units.weight); // New weight readings default to the preferred unit
 
                 // Photo
                 if (profileData.profilePhotoId) {
@@ -130,9 +155,10 @@ const ProfilePage = () => {
                 // Reset form fields if no profile exists
                 setName(user.name || '');
                 setAge(''); setGender(''); setAddress(''); setWeeksPregnant('');
+                setLastMenstrualPeriod(''); setEstimatedDueDate(''); setConceptionMethod(''); setDeliveryDate('');
                 setPreExistingConditions(''); setPhoneNumber('');
                 // NEW fields reset
-                setPreviousPregnancies(''); setDeliveryPreference(''); setPartnerSupport('');
+                setPreviousPregnancies(''); setHeightCm(''); setPrePregnancyWeightKg(''); setDeliveryPreference(''); setPartnerSupport('');
                 setWorkSituation(''); setDietaryPreferences(''); setActivityLevel('');
                 setChatTonePreference('');
                 setLanguagePreference('en');
@@ -234,6 +260,12 @@ const ProfilePage = () => {
         }
     };
 
+    // --- Pregnancy timeline preview for the dates currently in the form ---
+    const formTimeline = getPregnancyTimeline({
+        lastMenstrualPeriod, estimatedDueDate, deliveryDate,
+        weeksPregnant: weeksPregnant ? parseInt(weeksPregnant, 10) : undefined,
+    });
+
     // --- Profile Save Handler (Updated) ---
     const handleSaveProfile = async () => {
         if (!user) return;
@@ -245,6 +277,22 @@ const ProfilePage = () => {
                  toast({ title: "Invalid Input", description: "Please enter a valid number of weeks (0-45).", variant: "destructive" });
                  setIsSaving(false); return;
             }
+            const today = startOfDay(new Date());
+            if (lastMenstrualPeriod && parseISO(lastMenstrualPeriod) > today) {
+                 toast({ title: "Invalid Input", description: "The first day of your last period can't be in the future.", variant: "destructive" });
+                 setIsSaving(false); return;
+            }
+            if (estimatedDueDate && parseISO(estimatedDueDate) > addDays(today, PREGNANCY_LENGTH_DAYS)) {
+                 toast({ title: "Invalid Input", description: "The due date must be within about 40 weeks from today.", variant: "destructive" });
+                 setIsSaving(false); return;
+            }
+            if (deliveryDate && parseISO(deliveryDate) > today) {
+                 toast({ title: "Invalid Input", description: "The delivery date can't be in the future.", variant: "destructive" });
+                 setIsSaving(false); return;
+            }
+            // Keep the stored week count in step with the dates for screens that still read it directly
+            const datedTimeline = getPregnancyTimeline({ lastMenstrualPeriod, estimatedDueDate, deliveryDate });
+            const weeksToSave = datedTimeline.stage === 'pregnant' ? datedTimeline.weeks : weeksNum;
             const ageNum = age ? parseInt(age, 10) : undefined;
              if (age && (isNaN(ageNum) || ageNum < 15 || ageNum > 99)) {
                  toast({ title: "Invalid Input", description: "Please enter a valid age (15-99).", variant: "destructive" });
@@ -255,6 +303,16 @@ const ProfilePage = () => {
                  toast({ title: "Invalid Input", description: "Please enter a valid number of previous pregnancies (0-20).", variant: "destructive" });
                  setIsSaving(false); return;
             }
+            const heightNum = heightCm ? parseFloat(heightCm) : undefined;
+            if (heightCm && (isNaN(heightNum) || heightNum < 100 || heightNum > 250)) {
+                 toast({ title: "Invalid Input", description: "Please enter your height in cm (100-250).", variant: "destructive" });
+                 setIsSaving(false); return;
+            }
+            const prePregWeightNum = prePregnancyWeightKg ? parseFloat(prePregnancyWeightKg) : undefined;
+            if (prePregnancyWeightKg && (isNaN(prePregWeightNum) || prePregWeightNum < 25 || prePregWeightNum > 300)) {
+                 toast({ title: "Invalid Input", description: "Please enter your pre-pregnancy weight in kg (25-300).", variant: "destructive" });
+                 setIsSaving(false); return;
+            }
 
             // --- Prepare Data ---
             // Handle dietary preferences string array
@@ -269,12 +327,19 @@ const ProfilePage = () => {
                     age: ageNum,
                     gender: gender, // Allow empty string
                     address: address, // Allow empty string
-                    weeksPregnant: weeksNum,
+                    weeksPregnant: weeksToSave,
+                    // Cleared dates are sent as null so they are removed from the stored profile
+                    lastMenstrualPeriod: lastMenstrualPeriod || null,
+                    estimatedDueDate: estimatedDueDate || null,
+                    conceptionMethod: (conceptionMethod as ConceptionMethod) || null,
+                    deliveryDate: deliveryDate || null,
                     preExistingConditions: preExistingConditions, // Allow empty string
                     phoneNumber: phoneNumber, // Allow empty string
                 
                     // NEW fields
                     previousPregnancies: prevPregNum,
+                    heightCm: heightNum ?? null,
+                    prePregnancyWeightKg: prePregWeightNum ?? null,
                     deliveryPreference: deliveryPreference, // Allow empty string
                     partnerSupport: partnerSupport, // Allow empty string
                     workSituation: workSituation, // Allow empty string
@@ -282,6 +347,7 @@ const ProfilePage = () => {
                     activityLevel: activityLevel, // Allow empty string
                     chatTonePreference: chatTonePreference, // Allow empty string
                     languagePreference: languagePreference || 'en',
+                    preferredUnits: toPreferredUnitsField({ weight: preferredWeightUnit, glucose: preferredGlucoseUnit }),
                 };
 
             // --- Save Logic ---
@@ -317,37 +383,46 @@ const ProfilePage = () => {
     };
 
     // --- Health Data Save Handlers (Keep existing) ---
+    // Validates the optional "Taken at" time; shows a toast and returns null when it is invalid
+    const getReadingTime = (): { recordedAt: string | undefined } | null => {
+        const { recordedAt, error } = parseReadingTimeInput(readingTime);
+        if (error) { toast({ title: "Invalid Time", description: error, variant: "destructive" }); return null; }
+        return { recordedAt };
+    };
     const handleSaveBP = async () => {
         if (!user?.$id || !systolic || !diastolic) { toast({ title: "Missing Information", description: "Please enter both Systolic and Diastolic values.", variant: "destructive" }); return; }
         const sysNum = parseInt(systolic, 10); const diaNum = parseInt(diastolic, 10);
         if (isNaN(sysNum) || isNaN(diaNum) || sysNum <= 0 || diaNum <= 0) { toast({ title: "Invalid Input", description: "Please enter valid positive numbers for BP.", variant: "destructive" }); return; }
+        const time = getReadingTime(); if (!time) return;
         setIsSavingHealthData('bp');
         try {
-            await createBloodPressureReading(user.$id, { systolic: sysNum, diastolic: diaNum });
+            await createBloodPressureReading(user.$id, { systolic: sysNum, diastolic: diaNum, ...time });
             toast({ title: "BP Reading Saved" }); setSystolic(''); setDiastolic('');
-        } catch (error) { /*console.error("Error saving BP:", error);*/ toast({ title: "Save Failed", description: "Could not save BP reading.", variant: "destructive" }); }
+        } catch (error) { /*console.error("Error saving BP:", error);*/ toast({ title: "Save Failed", description: error instanceof Error ? error.message : "Could not save BP reading.", variant: "destructive" }); }
         finally { setIsSavingHealthData(null); }
     };
     const handleSaveSugar = async () => {
         if (!user?.$id || !sugarLevel) { toast({ title: "Missing Information", description: "Please enter the Blood Sugar level.", variant: "destructive" }); return; }
         const levelNum = parseFloat(sugarLevel);
          if (isNaN(levelNum) || levelNum <= 0) { toast({ title: "Invalid Input", description: "Please enter a valid positive number for blood sugar.", variant: "destructive" }); return; }
+        const time = getReadingTime(); if (!time) return;
         setIsSavingHealthData('sugar');
         try {
-            await createBloodSugarReading(user.$id, { level: levelNum, measurementType: sugarType });
+            await createBloodSugarReading(user.$id, { level: glucoseForStorage(levelNum, preferredGlucoseUnit), measurementType: sugarType, ...time }); // Stored in mg/dL
             toast({ title: "Blood Sugar Reading Saved" }); setSugarLevel('');
-        } catch (error) { /*console.error("Error saving Sugar:", error);*/ toast({ title: "Save Failed", description: "Could not save Blood Sugar reading.", variant: "destructive" }); }
+        } catch (error) { /*console.error("Error saving Sugar:", error);*/ toast({ title: "Save Failed", description: error instanceof Error ? error.message : "Could not save Blood Sugar reading.", variant: "destructive" }); }
         finally { setIsSavingHealthData(null); }
     };
     const handleSaveWeight = async () => {
         if (!user?.$id || !weight) { toast({ title: "Missing Information", description: "Please enter your weight.", variant: "destructive" }); return; }
          const weightNum = parseFloat(weight);
          if (isNaN(weightNum) || weightNum <= 0) { toast({ title: "Invalid Input", description: "Please enter a valid positive number for weight.", variant: "destructive" }); return; }
+        const time = getReadingTime(); if (!time) return;
         setIsSavingHealthData('weight');
         try {
-            await createWeightReading(user.$id, { weight: weightNum, unit: weightUnit });
+            await createWeightReading(user.$id, { weight: weightNum, unit: weightUnit, ...time });
             toast({ title: "Weight Reading Saved" }); setWeight('');
-        } catch (error) { /*console.error("Error saving Weight:", error);*/ toast({ title: "Save Failed", description: "Could not save Weight reading.", variant: "destructive" }); }
+        } catch (error) { /*console.error("Error saving Weight:", error);*/ toast({ title: "Save Failed", description: error instanceof Error ? error.message : "Could not save Weight reading.", variant: "destructive" }); }
         finally { setIsSavingHealthData(null); }
     };
 
@@ -438,11 +513,40 @@ const ProfilePage = () => {
                                         <div className="pt-6 border-t">
                                             <h3 className="text-lg font-medium text-gray-800 mb-4 flex items-center"><HeartPulse className="mr-2 h-5 w-5 text-momcare-secondary" /> Pregnancy Details</h3>
                                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                {/* Last Menstrual Period */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="lastMenstrualPeriod">First Day of Last Period</Label>
+                                                    <Input id="lastMenstrualPeriod" type="date" value={lastMenstrualPeriod} onChange={(e) => setLastMenstrualPeriod(e.target.value)} max={format(new Date(), 'yyyy-MM-dd')} />
+                                                    <p className="text-xs text-gray-500">{lastMenstrualPeriod && !estimatedDueDate ? `Estimated due date: ${format(dueDateFromLmp(parseISO(lastMenstrualPeriod)), 'MMM d, yyyy')}` : 'Used to estimate your due date.'}</p>
+                                                </div>
+                                                {/* Estimated Due Date */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="estimatedDueDate">Estimated Due Date</Label>
+                                                    <Input id="estimatedDueDate" type="date" value={estimatedDueDate} onChange={(e) => setEstimatedDueDate(e.target.value)} />
+                                                    <p className="text-xs text-gray-500">From your doctor or clinic, if known. Takes priority over your last period.</p>
+                                                </div>
+                                                {/* Conception Method */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="conceptionMethod">Conception Method</Label>
+                                                    <Select value={conceptionMethod} onValueChange={setConceptionMethod}>
+                                                        <SelectTrigger id="conceptionMethod"><SelectValue placeholder="Select method (optional)" /></SelectTrigger>
+                                                        <SelectContent>
+                                                            {Object.entries(conceptionMethodLabels).map(([value, label]) => (<SelectItem key={value} value={value}>{label}</SelectItem>))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <p className="text-xs text-gray-500">For IVF/IUI, enter the due date from your clinic.</p>
+                                                </div>
+                                                {/* Delivery Date */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="deliveryDate">Delivery Date</Label>
+                                                    <Input id="deliveryDate" type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} max={format(new Date(), 'yyyy-MM-dd')} />
+                                                    <p className="text-xs text-gray-500">Fill in once your baby has arrived to switch to postpartum tracking.</p>
+                                                </div>
                                                 {/* Weeks Pregnant */}
                                                 <div className="space-y-1.5">
                                                   <Label htmlFor="weeksPregnant">Current Weeks Pregnant</Label>
-                                                  <Input id="weeksPregnant" type="number" value={weeksPregnant} onChange={(e) => setWeeksPregnant(e.target.value)} placeholder="e.g., 16" min="0" max="45" />
-                                                  <p className="text-xs text-gray-500">Estimated week (0-45).</p>
+                                                  <Input id="weeksPregnant" type="number" value={weeksPregnant} onChange={(e) => setWeeksPregnant(e.target.value)} placeholder="e.g., 16" min="0" max="45" disabled={!!(lastMenstrualPeriod || estimatedDueDate || deliveryDate)} />
+                                                  <p className="text-xs text-gray-500">{lastMenstrualPeriod || estimatedDueDate || deliveryDate ? 'Calculated from your dates.' : 'Estimated week (0-45). Only used if no dates are set.'}</p>
                                                 </div>
                                                 {/* Previous Pregnancies */}
                                                 <div className="space-y-1.5">
@@ -450,6 +554,16 @@ const ProfilePage = () => {
                                                     <Input id="previousPregnancies" type="number" value={previousPregnancies} onChange={(e) => setPreviousPregnancies(e.target.value)} placeholder="e.g., 0, 1, 2" min="0" max="20" />
                                                     <p className="text-xs text-gray-500">Enter 0 if this is your first.</p>
                                                 </div>
+                                                {/* Height & Pre-pregnancy Weight */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="heightCm">Height (cm)</Label>
+                                                    <Input id="heightCm" type="number" value={heightCm} onChange={(e) => setHeightCm(e.target.value)} placeholder="e.g., 162" min="100" max="250" step="0.1" />
+                                                </div>
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="prePregnancyWeightKg">Pre-pregnancy Weight (kg)</Label>
+                                                    <Input id="prePregnancyWeightKg" type="number" value={prePregnancyWeightKg} onChange={(e) => setPrePregnancyWeightKg(e.target.value)} placeholder="e.g., 58" min="25" max="300" step="0.1" />
+                                                    <p className="text-xs text-gray-500">Used with your height to suggest a healthy weight gain range.</p>
+                                                </div>
                                                 {/* Delivery Preference */}
                                                 <div className="space-y-1.5">
                                                     <Label htmlFor="deliveryPreference">Delivery Preference</Label>
@@ -464,6 +578,10 @@ const ProfilePage = () => {
                                                     </Select>
                                                 </div>
                                             </div>
+                                            {/* Computed timeline summary */}
+                                            {formTimeline.stage !== 'unknown' && (
+                                                <p className="mt-4 text-sm text-gray-600 flex items-center"><Info className="mr-1.5 h-4 w-4 text-momcare-primary" />{formTimeline.stage === 'pregnant' ? `${formatGestationalAge(formTimeline)} · ${describePregnancyStage(formTimeline)}${formatDaysToGo(formTimeline) ? ` · ${formatDaysToGo(formTimeline)}` : ''}` : describePregnancyStage(formTimeline)}</p>
+                                            )}
                                             {/* Pre-existing Conditions */}
                                             <div className="mt-4 space-y-1.5">
                                                 <Label htmlFor="conditions">Pre-existing Medical Conditions</Label>
@@ -567,6 +685,28 @@ const ProfilePage = () => {
                                                 </Select>
                                                 <p className="text-xs text-gray-500">Select your preferred language for the interface.</p>
                                             </div>
+                                                {/* Display Units */}
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="preferredWeightUnit">Weight Unit</Label>
+                                                    <Select value={preferredWeightUnit} onValueChange={(v) => setPreferredWeightUnit(v as WeightUnit)}>
+                                                        <SelectTrigger id="preferredWeightUnit"><SelectValue /></SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="kg">Kilograms (kg)</SelectItem>
+                                                            <SelectItem value="lbs">Pounds (lbs)</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                <div className="space-y-1.5">
+                                                    <Label htmlFor="preferredGlucoseUnit">Blood Sugar Unit</Label>
+                                                    <Select value={preferredGlucoseUnit} onValueChange={(v) => setPreferredGlucoseUnit(v as GlucoseUnit)}>
+                                                        <SelectTrigger id="preferredGlucoseUnit"><SelectValue /></SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="mg/dL">mg/dL</SelectItem>
+                                                            <SelectItem value="mmol/L">mmol/L</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <p className="text-xs text-gray-500">Charts, alerts and the AI assistant use these units.</p>
+                                                </div>
                                             </div>
                                             {/* Dietary Preferences */}
                                             <div className="mt-4 space-y-1.5">
@@ -601,6 +741,16 @@ const ProfilePage = () => {
                                     <CardDescription>Enter your latest BP, Blood Sugar, or Weight readings.</CardDescription>
                                 </CardHeader>
                                 <CardContent className="pt-6 space-y-6">
+                                    {/* Reading Time (shared by the three inputs) */}
+                                    <div className="space-y-1.5">
+                                        <Label htmlFor="readingTime">Taken at</Label>
+                                        <div className="flex gap-2">
+                                            <Input id="readingTime" type="datetime-local" value={readingTime} max={toDateTimeInputValue()} onChange={e => setReadingTime(e.target.value)} disabled={!!isSavingHealthData} />
+                                            {readingTime && <Button type="button" variant="ghost" size="sm" onClick={() => setReadingTime('')} disabled={!!isSavingHealthData}>Now</Button>}
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">Leave blank to use the current time, or pick an earlier time for a reading you forgot to log.</p>
+                                    </div>
+
                                     {/* BP Input */}
                                     <div className="space-y-3 p-4 border rounded-md bg-red-50/30 border-red-100">
                                         <Label className="font-semibold text-red-700">Blood Pressure (mmHg)</Label>
@@ -615,9 +765,9 @@ const ProfilePage = () => {
 
                                     {/* Sugar Input */}
                                     <div className="space-y-3 p-4 border rounded-md bg-blue-50/30 border-blue-100">
-                                        <Label className="font-semibold text-blue-700">Blood Sugar (mg/dL)</Label>
+                                        <Label className="font-semibold text-blue-700">Blood Sugar ({preferredGlucoseUnit})</Label>
                                         <div className="grid grid-cols-2 gap-3">
-                                            <Input type="number" placeholder="Level (e.g., 95)" value={sugarLevel} onChange={e => setSugarLevel(e.target.value)} disabled={isSavingHealthData === 'sugar'} />
+                                            <Input type="number" step="any" placeholder={preferredGlucoseUnit === 'mmol/L' ? "Level (e.g., 5.3)" : "Level (e.g., 95)"} value={sugarLevel} onChange={e => setSugarLevel(e.target.value)} disabled={isSavingHealthData === 'sugar'} />
                                             <Select value={sugarType} onValueChange={(v) => setSugarType(v as any)} disabled={isSavingHealthData === 'sugar'}>
                                                 <SelectTrigger><SelectValue /></SelectTrigger>
                                                 <SelectContent>
@@ -651,6 +801,10 @@ const ProfilePage = () => {
                                     </div>
                                 </CardContent>
                             </Card>
+
+                            {/* Bring readings in from spreadsheets/meter apps, or take them out */}
+                            {user?.$id && <HealthDataTransferCard userId={user.$id} units={{ weight: preferredWeightUnit, glucose: preferredGlucoseUnit }} />}
+                            <NotificationSettingsCard profile={profile} onProfileUpdated={setProfile} />
                         </div>
 
                     </div>
@@ -15,10 +15,11 @@ import { Loader2, AlertTriangle, Sparkles, Info } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
 import { useToast } from '@/hooks/use-toast';
 import { UserProfile, getUserProfile } from '@/lib/appwrite';
+import { getPregnancyTimeline, formatGestationalAge } from '@/lib/pregnancyTimeline';
 // --- Import general Groq service for the API call ---
 import groqService, { ChatCompletionMessageParam } from '@/lib/groq';
 // --- Import the specific prompt function from the new file ---
-import { createSymptomCheckerPrompt } from '@/lib/groqSym'; // <--- UPDATED IMPORT
+import { symptomCheckerPrompt } from '@/lib/groqSym'; // Versioned prompt (see src/lib/evals)
 
 const SymptomCheckerPage: React.FC = () => {
     const { user, isAuthenticated } = useAuthStore();
@@ -69,9 +70,9 @@ const SymptomCheckerPage: React.FC = () => {
              return;
         }
         // Check if the specific prompt function was imported correctly
-        if (typeof createSymptomCheckerPrompt !== 'function') {
+        if (typeof symptomCheckerPrompt?.messages !== 'function') {
              setError("Symptom checker prompt generation failed. Please contact support.");
-             console.error("createSymptomCheckerPrompt function not available.");
+             console.error("symptomCheckerPrompt not available.");
              return;
         }
 
@@ -81,12 +82,8 @@ const SymptomCheckerPage: React.FC = () => {
         setAiResponse(null);
 
         try {
-            // --- Use the imported prompt function ---
-            const systemPrompt = createSymptomCheckerPrompt(symptomsInput, profile); // <--- USE IMPORTED FUNCTION
-
-            const messages: ChatCompletionMessageParam[] = [
-                { role: 'system', content: systemPrompt },
-            ];
+            // --- Use the registered prompt, so the page sends exactly what the evaluation harness checks ---
+            const messages: ChatCompletionMessageParam[] = symptomCheckerPrompt.messages({ symptoms: symptomsInput, profile });
 
             // Use the sendMessage function from the main groqService
             const response = await groqService.sendMessage(messages);
@@ -146,12 +143,12 @@ const SymptomCheckerPage: React.FC = () => {
                         )}
                          {!isLoadingProfile && (
                              <>
-                                {profile && (profile.weeksPregnant !== undefined || profile.preExistingConditions) && (
+                                {profile && (getPregnancyTimeline(profile).stage !== 'unknown' || profile.preExistingConditions) && (
                                     <Alert variant="default" className="bg-blue-50 border-blue-200 text-blue-800 dark:bg-blue-900/30 dark:border-blue-700 dark:text-blue-300">
                                         <Info className="h-4 w-4 text-blue-600 dark:text-blue-400" />
                                         <AlertDescription className="text-xs">
                                             Context from your profile is being used:
-                                            {profile.weeksPregnant !== undefined && ` ${profile.weeksPregnant} weeks pregnant`}
+                                            {getPregnancyTimeline(profile).stage !== 'unknown' && ` ${formatGestationalAge(getPregnancyTimeline(profile))}${getPregnancyTimeline(profile).stage === 'pregnant' ? ' pregnant' : ''}`}
                                             {profile.preExistingConditions && profile.preExistingConditions.toLowerCase() !== 'none' && ` (Conditions noted: ${profile.preExistingConditions.substring(0,50)}...)`}.
                                             <a href="/profile" className="ml-1 underline font-medium">Edit Profile</a>
                                         </AlertDescription>
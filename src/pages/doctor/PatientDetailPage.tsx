@@ -1,7 +1,7 @@
 // src/pages/doctor/PatientDetailPage.tsx
-import React, { useEffect } from 'react'; // *** Added useEffect import ***
+import React, { useEffect, useState } from 'react'; // *** Added useEffect import ***
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { format, parseISO, formatDistanceToNow } from 'date-fns'; // Added formatDistanceToNow
 import MainLayout from '@/components/layout/MainLayout';
 import {
@@ -12,13 +12,37 @@ import {
     medicalBucketId,
     UserProfile,
     Appointment,
-    MedicalDocument
+    MedicalDocument,
+    getBloodPressureReadings,
+    getBloodSugarReadings,
+    getWeightReadings,
+    getClinicalThresholdOverride,
+    getUserVisitSummaries,
+    VisitSummary,
+    BloodPressureReading,
+    BloodSugarReading,
+    WeightReading,
+    ClinicalThresholdOverride
 } from '@/lib/appwrite';
-import { Loader2, AlertTriangle, ArrowLeft, User, Mail, CalendarDays, HeartPulse, FileText, Download, Info, Activity, Weight, Droplets, BriefcaseMedical } from 'lucide-react'; // Added BriefcaseMedical
+import { getPregnancyTimeline, formatGestationalAge, describePregnancyStage, conceptionMethodLabels } from '@/lib/pregnancyTimeline';
+import { getAppointmentStart } from '@/lib/appointmentTime';
+import { getAppointmentStatus } from '@/lib/appointmentStatus';
+import { indexVisitSummaries } from '@/lib/visitSummary';
+import AppointmentStatusBadge from '@/components/appointments/AppointmentStatusBadge';
+import VisitSummaryDetails from '@/components/appointments/VisitSummaryDetails';
+import VisitSummaryDialog from '@/components/doctor/VisitSummaryDialog';
+import {
+    ReadingClassification, alertLevelColors, resolveClinicalThresholds, parseClinicalThresholdOverrides,
+    classifyBloodPressure, classifyBloodSugar, assessWeeklyWeightGain, getBmi, getBmiCategory
+} from '@/lib/clinicalThresholds';
+import ClinicalThresholdsCard from '@/components/doctor/ClinicalThresholdsCard';
+import MedicationAdherenceCard from '@/components/doctor/MedicationAdherenceCard';
+import { getPreferredUnits, formatBloodSugarReading, weightRateForDisplay } from '@/lib/units';
+import HealthDataTransferCard from '@/components/dashboard/HealthDataTransferCard';
+import { Loader2, AlertTriangle, ArrowLeft, User, Mail, CalendarDays, HeartPulse, FileText, Download, Activity, Weight, Droplets, BriefcaseMedical, ClipboardList } from 'lucide-react'; // Added BriefcaseMedical
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'; // <-- Import Alert components
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
@@ -43,6 +67,19 @@ const DetailItem: React.FC<{ label: string; value?: string | number | null | str
 );
 
 
+const ReadingSummaryRow: React.FC<{ label: string; icon: React.ElementType; iconClassName: string; value: string | null; recordedAt?: string; result?: ReadingClassification | null; flaggedCount?: number }> = ({ label, icon: Icon, iconClassName, value, recordedAt, result, flaggedCount }) => (
+    <div className="flex items-start justify-between gap-3 py-2">
+        <div>
+            <p className="text-sm font-medium text-gray-800 dark:text-gray-200 flex items-center gap-1.5"><Icon className={`h-4 w-4 ${iconClassName}`} />{label}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                {value ?? 'No readings'}{recordedAt && ` · ${formatDistanceToNow(parseISO(recordedAt), { addSuffix: true })}`}
+                {!!flaggedCount && ` · ${flaggedCount} flagged of recent readings`}
+            </p>
+        </div>
+        {result && <Badge variant="outline" className="text-xs flex-shrink-0" style={{ borderColor: alertLevelColors[result.level], color: alertLevelColors[result.level] }}>{result.label}</Badge>}
+    </div>
+);
+
 const SectionLoadingSkeleton: React.FC<{ itemCount?: number }> = ({ itemCount = 3 }) => (
     <div className="space-y-4 p-4 border dark:border-gray-700 rounded-md">
         {[...Array(itemCount)].map((_, i) => (
@@ -61,6 +98,8 @@ const PatientDetailPage: React.FC = () => {
     const { toast } = useToast();
     const navigate = useNavigate();
     const { user: doctorUser, isAuthenticated } = useAuthStore(); // Get the logged-in doctor's info
+    const queryClient = useQueryClient();
+    const [summaryAppointment, setSummaryAppointment] = useState<Appointment | null>(null);
 
     // Authorization Check
     useEffect(() => {
@@ -108,6 +147,28 @@ const PatientDetailPage: React.FC = () => {
         enabled: !!userId && isAuthenticated // Only run if userId exists and user is authenticated
     });
 
+    // --- Fetch Patient Health Readings & Thresholds ---
+    const { data: healthData, isLoading: isLoadingReadings } = useQuery<{ bp: BloodPressureReading[]; sugar: BloodSugarReading[]; weight: WeightReading[] }, Error>({
+        queryKey: ['patientHealthReadings', userId],
+        queryFn: async () => {
+            const [bp, sugar, weight] = await Promise.all([getBloodPressureReadings(userId, 50), getBloodSugarReadings(userId, 50), getWeightReadings(userId, 50)]);
+            return { bp, sugar, weight };
+        },
+        enabled: !!userId && isAuthenticated
+    });
+    const { data: thresholdOverride } = useQuery<ClinicalThresholdOverride | null, Error>({
+        queryKey: ['patientClinicalThresholds', userId],
+        queryFn: () => getClinicalThresholdOverride(userId),
+        enabled: !!userId && isAuthenticated
+    });
+
+    // --- Fetch Visit Summaries (shown under completed appointments) ---
+    const { data: visitSummaries } = useQuery<VisitSummary[], Error>({
+        queryKey: ['patientVisitSummaries', userId],
+        queryFn: () => getUserVisitSummaries(userId),
+        enabled: !!userId && isAuthenticated
+    });
+
     // --- Derived State ---
     // Show main loading indicator only while profile is loading initially
     const showInitialLoading = isLoadingProfile && !patientProfile;
@@ -184,6 +245,15 @@ const PatientDetailPage: React.FC = () => {
 
     // --- Render Patient Details Page (Profile must exist here) ---
     // Now we can safely assume patientProfile is UserProfile
+    const pregnancyTimeline = getPregnancyTimeline(patientProfile);
+    const thresholds = resolveClinicalThresholds(parseClinicalThresholdOverrides(thresholdOverride?.overrides));
+    const latestBp = healthData?.bp[0];
+    const latestSugar = healthData?.sugar[0];
+    const weightGain = healthData ? assessWeeklyWeightGain(healthData.weight, patientProfile, thresholds) : null;
+    const bmi = getBmi(patientProfile);
+    const units = getPreferredUnits(patientProfile); // Shown in the patient's units, as on their dashboard
+    const rate = (kgPerWeek: number) => weightRateForDisplay(kgPerWeek, units.weight);
+    const summariesByAppointment = indexVisitSummaries(visitSummaries);
     return (
         <MainLayout>
             <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
@@ -205,7 +275,7 @@ const PatientDetailPage: React.FC = () => {
                         </p>
                         <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
                             {patientProfile.age && <Badge variant="secondary">Age: {patientProfile.age}</Badge>}
-                            {patientProfile.weeksPregnant !== null && patientProfile.weeksPregnant !== undefined && <Badge variant="secondary">Weeks: {patientProfile.weeksPregnant}</Badge>}
+                            {pregnancyTimeline.stage !== 'unknown' && <Badge variant="secondary">{formatGestationalAge(pregnancyTimeline)}</Badge>}
                             <Badge variant="outline">Patient ID: {userId.substring(0, 8)}...</Badge>
                         </div>
                     </div>
@@ -238,7 +308,12 @@ const PatientDetailPage: React.FC = () => {
                             </CardHeader>
                              <CardContent className="divide-y dark:divide-gray-700 px-0">
                                 <div className="px-6 pt-2 pb-1">
-                                    <DetailItem label="Weeks Pregnant" value={patientProfile.weeksPregnant} icon={CalendarDays} />
+                                    <DetailItem label="Gestational Age" value={pregnancyTimeline.stage === 'pregnant' ? formatGestationalAge(pregnancyTimeline) : null} icon={CalendarDays} />
+                                    <DetailItem label="Stage" value={describePregnancyStage(pregnancyTimeline)} />
+                                    <DetailItem label="Estimated Due Date" value={pregnancyTimeline.dueDate ? format(pregnancyTimeline.dueDate, 'MMM d, yyyy') : null} />
+                                    <DetailItem label="Last Menstrual Period" value={patientProfile.lastMenstrualPeriod ? format(parseISO(patientProfile.lastMenstrualPeriod.slice(0, 10)), 'MMM d, yyyy') : null} />
+                                    <DetailItem label="Conception Method" value={patientProfile.conceptionMethod ? conceptionMethodLabels[patientProfile.conceptionMethod] : null} />
+                                    <DetailItem label="Delivery Date" value={patientProfile.deliveryDate ? format(parseISO(patientProfile.deliveryDate.slice(0, 10)), 'MMM d, yyyy') : null} />
                                     <DetailItem label="Pre-existing Conditions" value={patientProfile.preExistingConditions} />
                                     <DetailItem label="Previous Pregnancies" value={patientProfile.previousPregnancies} />
                                     <DetailItem label="Delivery Preference" value={patientProfile.deliveryPreference} />
@@ -264,16 +339,22 @@ const PatientDetailPage: React.FC = () => {
                                  !appointments || appointments.length === 0 ? <p className="text-sm text-gray-500 dark:text-gray-400">No appointments found for this patient.</p> :
                                  <ul className="space-y-3 max-h-80 overflow-y-auto pr-2 -mr-2"> {/* Add negative margin to offset scrollbar */}
                                      {/* Sort appointments, newest first */}
-                                     {[...appointments].sort((a,b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()).map(app => (
+                                     {[...appointments].sort((a,b) => (getAppointmentStart(b) ?? parseISO(b.date)).getTime() - (getAppointmentStart(a) ?? parseISO(a.date)).getTime()).map(app => (
                                          <li key={app.$id} className="p-3 border dark:border-gray-600/50 rounded-md bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors">
                                              <div className="flex justify-between items-center mb-1">
-                                                 <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{format(parseISO(app.date), 'eee, MMM d, yyyy - h:mm a')}</span>
-                                                 <Badge variant={app.isCompleted ? "secondary" : "outline"} className={`text-xs ${app.isCompleted ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 border-green-300' : 'border-blue-300 dark:border-blue-600'}`}>
-                                                    {app.isCompleted ? "Completed" : "Upcoming"}
-                                                 </Badge>
+                                                 <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{format(getAppointmentStart(app) ?? parseISO(app.date), 'eee, MMM d, yyyy - h:mm a')}</span>
+                                                 <AppointmentStatusBadge appointment={app} />
                                              </div>
                                              <p className="text-xs text-gray-600 dark:text-gray-400">Type: {app.appointmentType || 'General'}</p>
                                              {app.notes && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 italic">Notes: {app.notes}</p>}
+                                             {getAppointmentStatus(app) === 'completed' && (
+                                                 <div className="mt-2 pt-2 border-t dark:border-gray-700 space-y-2">
+                                                     {summariesByAppointment.has(app.$id) && <VisitSummaryDetails summary={summariesByAppointment.get(app.$id)} documents={documents} />}
+                                                     <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setSummaryAppointment(app)}>
+                                                         <ClipboardList className="mr-1 h-3.5 w-3.5" />{summariesByAppointment.has(app.$id) ? 'Edit summary' : 'Write summary'}
+                                                     </Button>
+                                                 </div>
+                                             )}
                                          </li>
                                      ))}
                                  </ul>
@@ -311,32 +392,62 @@ const PatientDetailPage: React.FC = () => {
                             </CardContent>
                         </Card>
 
-                         {/* Placeholder for other health data */}
+                         {/* Health Readings (classified against this patient's thresholds) */}
                          <Card className="shadow border dark:border-gray-700">
                             <CardHeader>
                                 <CardTitle className="text-lg font-semibold flex items-center gap-2"><Activity className="h-5 w-5 text-green-600"/>Health Readings</CardTitle>
+                                <CardDescription>Latest readings against {thresholdOverride ? 'the adjusted' : 'the default'} thresholds.{bmi !== null && ` Pre-pregnancy BMI ${bmi} (${getBmiCategory(bmi)}).`}</CardDescription>
                             </CardHeader>
-                            <CardContent>
-                                {/* TODO: Fetch and display BP, Sugar, Weight readings using useQuery similar to appointments/docs */}
-                                <p className="text-sm text-gray-500 dark:text-gray-400">Health reading data (BP, Sugar, Weight) will be displayed here.</p>
-                                <div className="flex gap-4 mt-4">
-                                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-300"><HeartPulse className="h-4 w-4 mr-1 text-red-500"/> BP</div>
-                                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-300"><Droplets className="h-4 w-4 mr-1 text-blue-500"/> Sugar</div>
-                                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-300"><Weight className="h-4 w-4 mr-1 text-green-500"/> Weight</div>
-                                </div>
-                                 {/* Add a note that this section is under development */}
-                                 <Alert variant="default" className="mt-4 text-xs bg-yellow-50 border-yellow-200 text-yellow-800 dark:bg-yellow-900/30 dark:border-yellow-700/50 dark:text-yellow-300">
-                                    <Info className="h-4 w-4" />
-                                    <AlertTitle>Coming Soon</AlertTitle>
-                                    <AlertDescription>
-                                        Detailed health readings will be available in a future update.
-                                    </AlertDescription>
-                                </Alert>
+                            <CardContent className="divide-y dark:divide-gray-700">
+                                {isLoadingReadings ? <SectionLoadingSkeleton /> : (
+                                    <>
+                                        <ReadingSummaryRow
+                                            label="Blood Pressure" icon={HeartPulse} iconClassName="text-red-500"
+                                            value={latestBp ? `${latestBp.systolic}/${latestBp.diastolic} mmHg` : null} recordedAt={latestBp?.recordedAt}
+                                            result={latestBp ? classifyBloodPressure(latestBp, thresholds) : null}
+                                            flaggedCount={healthData?.bp.filter(r => classifyBloodPressure(r, thresholds).level !== 'ok').length}
+                                        />
+                                        <ReadingSummaryRow
+                                            label="Blood Sugar" icon={Droplets} iconClassName="text-blue-500"
+                                            value={latestSugar ? `${formatBloodSugarReading(latestSugar, units)} (${latestSugar.measurementType})` : null} recordedAt={latestSugar?.recordedAt}
+                                            result={latestSugar ? classifyBloodSugar(latestSugar, thresholds, units.glucose) : null}
+                                            flaggedCount={healthData?.sugar.filter(r => classifyBloodSugar(r, thresholds).level !== 'ok').length}
+                                        />
+                                        <ReadingSummaryRow
+                                            label="Weight Gain" icon={Weight} iconClassName="text-green-500"
+                                            value={weightGain ? `${rate(weightGain.kgPerWeek)} ${units.weight}/week over ${weightGain.spanDays} days${weightGain.band ? ` (range ${rate(weightGain.band.minKgPerWeek)}-${rate(weightGain.band.maxKgPerWeek)})` : ''}` : healthData?.weight.length ? 'Not enough readings for a weekly rate' : null}
+                                            recordedAt={healthData?.weight[0]?.recordedAt}
+                                            result={weightGain}
+                                        />
+                                    </>
+                                )}
                             </CardContent>
                         </Card>
+
+                        <ClinicalThresholdsCard patientId={userId} />
+
+                        <MedicationAdherenceCard patientId={userId} />
+
+                        <HealthDataTransferCard
+                            userId={userId}
+                            allowImport={false}
+                            fileNamePrefix={`momcare-${(patientProfile.name || 'patient').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`}
+                        />
                     </div>
                 </div>
             </div>
+
+            <VisitSummaryDialog
+                appointment={summaryAppointment}
+                summary={summaryAppointment ? summariesByAppointment.get(summaryAppointment.$id) : null}
+                documents={documents}
+                isOpen={!!summaryAppointment}
+                onClose={() => setSummaryAppointment(null)}
+                onSaved={() => {
+                    setSummaryAppointment(null);
+                    queryClient.invalidateQueries({ queryKey: ['patientVisitSummaries', userId] });
+                }}
+            />
         </MainLayout>
     );
 };
@@ -2,7 +2,8 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { getCurrentUser, login, logout, createAccount } from '@/lib/appwrite';
+import { getCurrentUser, login, logout, createAccount, offlineSync } from '@/lib/appwrite';
+import { aiResponseCache } from '@/lib/llm';
 import { Models } from 'appwrite'; // Import Models for the full User type definition
 
 /**
@@ -130,6 +131,11 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: async () => {
+        // Health data mirrored for offline use and cached AI content (feed, meals, products) are personal; don't leave
+        // them for the next account on this device. Queued changes are sent first while the session is still valid.
+        await offlineSync.flush();
+        await offlineSync.clear();
+        aiResponseCache.clear();
         try {
           set({ isLoading: true }); // Indicate loading state
           await logout(); // Call the Appwrite logout function
@@ -158,6 +164,12 @@ export const useAuthStore = create<AuthState>()(
         // This helps avoid race conditions on initial load if called multiple times.
         // We check isLoading specifically because the initial state is isLoading: true.
         if (get().isLoading || get().user === null) {
+            // Offline: keep the persisted user so locally cached data stays reachable.
+            // The session is verified again on the next check while online.
+            if (typeof navigator !== 'undefined' && !navigator.onLine && get().user) {
+                set({ isAuthenticated: true, isLoading: false });
+                return;
+            }
             //  console.log("Running checkAuth..."); // Debug log
              try {
                 // Fetch the current user from Appwrite
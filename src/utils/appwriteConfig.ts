@@ -23,7 +23,14 @@ export const appwriteEnvConfig = {
   bpCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_BP_COLLECTION_ID || 'bloodPressure', // Example ID
   sugarCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_SUGAR_COLLECTION_ID || 'bloodSugar', // Example ID
   weightCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_WEIGHT_COLLECTION_ID || 'weight', // Example ID
+  kickCountCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_KICK_COUNT_COLLECTION_ID || 'kickCounts', // Example ID
+  contractionsCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_CONTRACTIONS_COLLECTION_ID || 'contractionSessions', // Example ID
+  clinicalThresholdsCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_CLINICAL_THRESHOLDS_COLLECTION_ID || 'clinicalThresholds', // Example ID
+  appointmentStatusEventsCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_APPOINTMENT_STATUS_EVENTS_COLLECTION_ID || 'appointmentStatusEvents', // Example ID
+  visitSummariesCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_VISIT_SUMMARIES_COLLECTION_ID || 'visitSummaries', // Example ID
+  providerAvailabilityCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_PROVIDER_AVAILABILITY_COLLECTION_ID || 'providerAvailability', // Example ID
   medsCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_MEDS_COLLECTION_ID || 'medications', // Example ID
+  medicationDosesCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_MEDICATION_DOSES_COLLECTION_ID || 'medicationDoses', // Example ID
   chatHistoryCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_CHAT_HISTORY_COLLECTION_ID || 'chatHistory', // Example ID
   bookmarksCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_BOOKMARKS_COLLECTION_ID || 'bookmarks', // Example ID
   forumTopicsCollectionId: import.meta.env.VITE_PUBLIC_APPWRITE_FORUM_TOPICS_COLLECTION_ID || 'forumTopics', // << REPLACE/VERIFY ID
@@ -55,6 +62,10 @@ export const appwriteSchemaConfig = {
         { key: 'phoneNumber', type: 'string', required: false, size: 50, array: false, description: 'User phone number (optional)' },
         { key: 'profilePhotoId', type: 'string', required: false, size: 255, array: false, description: 'File ID from Profile Photos bucket' },
         { key: 'weeksPregnant', type: 'integer', required: false, min: 0, max: 45, array: false, description: 'Estimated weeks of pregnancy' },
+        { key: 'lastMenstrualPeriod', type: 'datetime', required: false, array: false, description: 'First day of last menstrual period (pregnancy dating)' },
+        { key: 'estimatedDueDate', type: 'datetime', required: false, array: false, description: 'Estimated due date; preferred over LMP for dating' },
+        { key: 'conceptionMethod', type: 'string', required: false, size: 20, array: false, description: 'e.g., natural, ivf, iui, other' },
+        { key: 'deliveryDate', type: 'datetime', required: false, array: false, description: 'Date of birth of the baby (postpartum tracking)' },
         { key: 'preExistingConditions', type: 'string', required: false, size: 2000, array: false, description: 'List of pre-existing conditions' },
         { key: 'previousPregnancies', type: 'integer', required: false, min: 0, max: 20, array: false, description: 'Number of previous pregnancies' },
         { key: 'deliveryPreference', type: 'string', required: false, size: 50, array: false, description: 'e.g., vaginal, c-section, undecided' },
@@ -63,10 +74,16 @@ export const appwriteSchemaConfig = {
         { key: 'dietaryPreferences', type: 'string', required: false, size: 100, array: true, description: 'List of dietary needs/prefs (e.g., vegetarian)' },
         { key: 'activityLevel', type: 'string', required: false, size: 50, array: false, description: 'e.g., sedentary, light, moderate, active' },
         { key: 'chatTonePreference', type: 'string', required: false, size: 50, array: false, description: 'Preferred AI chat tone (e.g., empathetic, direct)' },
+        { key: 'heightCm', type: 'float', required: false, min: 100, max: 250, array: false, description: 'Height in cm (for pre-pregnancy BMI)' },
+        { key: 'prePregnancyWeightKg', type: 'float', required: false, min: 25, max: 300, array: false, description: 'Weight before pregnancy in kg (for pre-pregnancy BMI)' },
+        { key: 'preferredUnits', type: 'string', required: false, size: 10, array: true, description: "Display unit codes, e.g. ['lbs', 'mmol/L']" },
+        { key: 'notificationPreferences', type: 'string', required: false, size: 1000, array: false, description: 'JSON of NotificationPreferences (doses, appointments, lead times)' },
+        { key: 'calendarFeedToken', type: 'string', required: false, size: 64, array: false, description: 'Secret token in the appointment calendar feed URL (null = feed off)' },
         { key: 'languagePreference', type: 'string', required: false, size: 10, array: false, default: 'en', description: 'User preferred language code (e.g., en, hi, es)' },
       ],
       indexes: [
         { key: 'userId_unique', type: 'unique', attributes: ['userId'], orders: ['ASC'], description: 'Ensure only one profile per user' },
+        { key: 'calendarFeedToken_idx', type: 'key', attributes: ['calendarFeedToken'], orders: ['ASC'], description: 'Look up a profile by calendar feed token (appointmentCalendarFeed function)' },
       ],
     },
     
@@ -76,15 +93,71 @@ export const appwriteSchemaConfig = {
       name: 'User Appointments',
       attributes: [
         { key: 'userId', type: 'string', required: true, size: 255, array: false, description: 'Appwrite User ID ($id)' },
-        { key: 'date', type: 'datetime', required: true, array: false, description: 'Full date and time of appointment (ISO 8601 recommended)' },
-        // 'time' attribute removed as 'date' should store full datetime
+        { key: 'date', type: 'datetime', required: true, array: false, description: 'Day of the appointment in its timeZone (yyyy-MM-dd, stored at midnight UTC)' },
+        { key: 'time', type: 'string', required: true, size: 20, array: false, description: 'Wall-clock time in timeZone (e.g., 10:00 AM, 14:30)' },
+        { key: 'startsAt', type: 'datetime', required: false, array: false, description: 'Start instant (UTC), derived from date/time/timeZone on every write; backfilled for older documents' },
+        { key: 'endsAt', type: 'datetime', required: false, array: false, description: 'End instant (UTC)' },
+        { key: 'timeZone', type: 'string', required: false, size: 64, array: false, description: 'IANA zone the appointment was booked in (e.g., Asia/Kolkata)' },
         { key: 'appointmentType', type: 'string', required: false, size: 100, array: false, default: 'General', description: 'Type of appointment (e.g., Doctor, Lab, Scan)' },
         { key: 'notes', type: 'string', required: false, size: 2000, array: false, description: 'User notes about the appointment' },
         { key: 'isCompleted', type: 'boolean', required: false, default: false, array: false, description: 'Whether the appointment has occurred' },
+        { key: 'recurrence', type: 'string', required: false, size: 255, array: false, description: 'RRULE of a recurring series (FREQ, INTERVAL, COUNT/UNTIL, BYDAY); date is the first occurrence' },
+        { key: 'recurrenceExceptions', type: 'string', required: false, size: 10, array: true, description: 'Days (yyyy-MM-dd) skipped in the series' },
+        { key: 'seriesId', type: 'string', required: false, size: 255, array: false, description: 'Series an edited occurrence (override) belongs to' },
+        { key: 'originalDate', type: 'string', required: false, size: 10, array: false, description: 'Original day (yyyy-MM-dd) of an overridden occurrence' },
+        { key: 'status', type: 'string', required: false, size: 30, array: false, description: 'requested | confirmed | rescheduled | cancelled_by_patient | cancelled_by_provider | no_show | completed (missing = confirmed, or completed if isCompleted)' },
+        { key: 'statusChangedAt', type: 'datetime', required: false, array: false, description: 'When the status last changed' },
+        { key: 'statusChangedBy', type: 'string', required: false, size: 255, array: false, description: 'User ID of whoever last changed the status' },
       ],
       indexes: [
         { key: 'userId_date_idx', type: 'key', attributes: ['userId', 'date'], orders: ['ASC', 'ASC'], description: 'Query appointments by user, sorted by date' },
+        { key: 'userId_startsAt_idx', type: 'key', attributes: ['userId', 'startsAt'], orders: ['ASC', 'ASC'], description: 'Query appointments by user, sorted by start instant' },
         { key: 'userId_isCompleted_idx', type: 'key', attributes: ['userId', 'isCompleted'], orders: ['ASC', 'ASC'], description: 'Query appointments by user and completion status' },
+        { key: 'seriesId_idx', type: 'key', attributes: ['seriesId'], orders: ['ASC'], description: 'Find overrides of a recurring series' },
+        { key: 'status_date_idx', type: 'key', attributes: ['status', 'date'], orders: ['ASC', 'ASC'], description: 'Doctor view: appointments waiting for confirmation' },
+      ],
+      // Doctors change statuses: new documents grant label:doctor read/update; older ones need collection-level update for label:doctor
+    },
+    // --- Appointment Status History ---
+    appointmentStatusEvents: {
+      id: appwriteEnvConfig.appointmentStatusEventsCollectionId,
+      name: 'Appointment Status Events',
+      attributes: [
+        { key: 'appointmentId', type: 'string', required: true, size: 255, array: false, description: 'Appointment document the change was written to (series or override for recurring appointments)' },
+        { key: 'userId', type: 'string', required: true, size: 255, array: false, description: 'Patient the appointment belongs to' },
+        { key: 'appointmentDate', type: 'string', required: true, size: 10, array: false, description: 'Occurrence day (yyyy-MM-dd)' },
+        { key: 'status', type: 'string', required: true, size: 30, array: false },
+        { key: 'previousStatus', type: 'string', required: false, size: 30, array: false },
+        { key: 'actorId', type: 'string', required: true, size: 255, array: false, description: 'User ID of the patient or doctor who made the change' },
+        { key: 'actorName', type: 'string', required: false, size: 255, array: false },
+        { key: 'actorRole', type: 'string', required: true, size: 20, array: false, description: 'patient | provider' },
+        { key: 'changedAt', type: 'datetime', required: true, array: false },
+        { key: 'note', type: 'string', required: false, size: 1000, array: false, description: 'e.g., cancellation reason' },
+      ],
+      indexes: [
+        { key: 'appointmentId_changedAt_idx', type: 'key', attributes: ['appointmentId', 'changedAt'], orders: ['ASC', 'DESC'], description: 'History of one appointment, newest first' },
+        { key: 'userId_idx', type: 'key', attributes: ['userId'], orders: ['ASC'] },
+      ],
+    },
+    // --- Visit Summaries (written by doctors after completed appointments) ---
+    visitSummaries: {
+      id: appwriteEnvConfig.visitSummariesCollectionId,
+      name: 'Visit Summaries',
+      attributes: [
+        { key: 'appointmentId', type: 'string', required: true, size: 255, array: false, description: 'Appointment the summary belongs to (occurrence ID for recurring appointments)' },
+        { key: 'userId', type: 'string', required: true, size: 255, array: false, description: 'Patient user ID' },
+        { key: 'visitedAt', type: 'datetime', required: true, array: false, description: 'When the visit started' },
+        { key: 'appointmentType', type: 'string', required: false, size: 100, array: false },
+        { key: 'vitals', type: 'string', required: false, size: 1000, array: false, description: 'JSON of VisitVitals (blood pressure, weight in kg, fetal heart rate, fundal height, temperature)' },
+        { key: 'findings', type: 'string', required: false, size: 4000, array: false },
+        { key: 'nextSteps', type: 'string', required: false, size: 4000, array: false },
+        { key: 'documentIds', type: 'string', required: false, size: 255, array: true, description: 'Attached medicalDocuments IDs' },
+        { key: 'authorId', type: 'string', required: true, size: 255, array: false, description: 'Doctor user ID' },
+        { key: 'authorName', type: 'string', required: false, size: 255, array: false },
+      ],
+      indexes: [
+        { key: 'appointmentId_unique', type: 'unique', attributes: ['appointmentId'], orders: ['ASC'], description: 'One summary per appointment' },
+        { key: 'userId_visitedAt_idx', type: 'key', attributes: ['userId', 'visitedAt'], orders: ['ASC', 'DESC'] },
       ],
     },
     // --- Medical Documents ---
@@ -167,6 +240,66 @@ export const appwriteSchemaConfig = {
         { key: 'userId_recordedAt_idx', type: 'key', attributes: ['userId', 'recordedAt'], orders: ['ASC', 'DESC'] },
       ],
     },
+    // --- Fetal Kick Count Sessions ---
+    kickCounts: {
+      id: appwriteEnvConfig.kickCountCollectionId,
+      name: 'Kick Count Sessions',
+      attributes: [
+        { key: 'userId', type: 'string', required: true, size: 255, array: false },
+        { key: 'kickCount', type: 'integer', required: true, min: 0, max: 1000, array: false },
+        { key: 'durationSeconds', type: 'integer', required: true, min: 0, max: 86400, array: false, description: 'Seconds from session start to the last counted movement' },
+        { key: 'startedAt', type: 'datetime', required: true, array: false },
+        { key: 'recordedAt', type: 'datetime', required: true, array: false, description: 'When the session ended' },
+      ],
+      indexes: [
+        { key: 'userId_recordedAt_idx', type: 'key', attributes: ['userId', 'recordedAt'], orders: ['ASC', 'DESC'] },
+      ],
+    },
+    // --- Contraction Timing Sessions ---
+    contractionSessions: {
+      id: appwriteEnvConfig.contractionsCollectionId,
+      name: 'Contraction Sessions',
+      attributes: [
+        { key: 'userId', type: 'string', required: true, size: 255, array: false },
+        { key: 'startedAt', type: 'datetime', required: true, array: false },
+        { key: 'contractions', type: 'string', required: false, size: 64, array: true, description: 'ISO 8601 intervals, start/end' },
+        { key: 'ruleId', type: 'string', required: true, size: 20, array: false, description: 'e.g., 5-1-1' },
+        { key: 'ruleMatched', type: 'boolean', required: false, default: false, array: false },
+        { key: 'recordedAt', type: 'datetime', required: true, array: false, description: 'When timing ended' },
+      ],
+      indexes: [
+        { key: 'userId_recordedAt_idx', type: 'key', attributes: ['userId', 'recordedAt'], orders: ['ASC', 'DESC'] },
+      ],
+    },
+    // --- Clinical Threshold Overrides (set per patient by doctors) ---
+    clinicalThresholds: {
+      id: appwriteEnvConfig.clinicalThresholdsCollectionId,
+      name: 'Clinical Threshold Overrides',
+      attributes: [
+        { key: 'userId', type: 'string', required: true, size: 255, array: false, description: 'Patient user ID' },
+        { key: 'overrides', type: 'string', required: true, size: 5000, array: false, description: 'JSON of ClinicalThresholdOverrides' },
+        { key: 'updatedBy', type: 'string', required: true, size: 255, array: false, description: 'Doctor user ID' },
+        { key: 'updatedByName', type: 'string', required: false, size: 255, array: false },
+        { key: 'notes', type: 'string', required: false, size: 2000, array: false },
+      ],
+      indexes: [
+        { key: 'userId_unique', type: 'unique', attributes: ['userId'], orders: ['ASC'], description: 'One override document per patient' },
+      ],
+    },
+    // --- Provider Availability ---
+    providerAvailability: {
+      id: appwriteEnvConfig.providerAvailabilityCollectionId,
+      name: 'Provider Availability',
+      attributes: [
+        { key: 'providerId', type: 'string', required: true, size: 255, array: false, description: "Provider the schedule belongs to ('practice' for the practice-wide schedule)" },
+        { key: 'schedule', type: 'string', required: true, size: 5000, array: false, description: 'JSON of ProviderSchedule (working hours, slot length, blocked dates, time zone)' },
+        { key: 'updatedBy', type: 'string', required: true, size: 255, array: false, description: 'Doctor user ID' },
+        { key: 'updatedByName', type: 'string', required: false, size: 255, array: false },
+      ],
+      indexes: [
+        { key: 'providerId_unique', type: 'unique', attributes: ['providerId'], orders: ['ASC'], description: 'One schedule per provider' },
+      ],
+    },
     // --- Medication Reminders ---
     medications: {
       id: appwriteEnvConfig.medsCollectionId,
@@ -179,11 +312,32 @@ export const appwriteSchemaConfig = {
         { key: 'times', type: 'string', required: false, size: 20, array: true, description: 'Array of times like HH:MM' },
         { key: 'notes', type: 'string', required: false, size: 1000, array: false },
         { key: 'isActive', type: 'boolean', required: false, default: true, array: false },
+        { key: 'schedule', type: 'string', required: false, size: 1000, array: false, description: 'JSON of MedicationSchedule (type, times, everyHours, weekdays, start/end dates)' },
+        { key: 'quantityOnHand', type: 'float', required: false, min: 0, max: 100000, array: false, description: 'Units (tablets, ml...) left; decremented as doses are logged taken' },
+        { key: 'dosePerIntake', type: 'float', required: false, min: 0, max: 1000, array: false, description: 'Units used per dose (default 1)' },
+        { key: 'refillThreshold', type: 'float', required: false, min: 0, max: 100000, array: false, description: 'Warn to refill at or below this many units' },
       ],
       indexes: [
         { key: 'userId_isActive_idx', type: 'key', attributes: ['userId', 'isActive'], orders: ['ASC', 'ASC'] },
       ],
     },
+    // --- Medication Dose Log (taken / skipped / snoozed) ---
+    medicationDoses: {
+      id: appwriteEnvConfig.medicationDosesCollectionId,
+      name: 'Medication Doses',
+      attributes: [
+        { key: 'userId', type: 'string', required: true, size: 255, array: false },
+        { key: 'reminderId', type: 'string', required: true, size: 255, array: false, description: 'Medication reminder document ID' },
+        { key: 'medicationName', type: 'string', required: true, size: 255, array: false },
+        { key: 'scheduledAt', type: 'datetime', required: true, array: false, description: 'Scheduled dose time (when taken, for as-needed doses)' },
+        { key: 'status', type: 'string', required: true, size: 20, array: false, description: 'taken | skipped | snoozed' },
+        { key: 'recordedAt', type: 'datetime', required: true, array: false, description: 'When the event was logged; latest per dose wins' },
+        { key: 'snoozedUntil', type: 'datetime', required: false, array: false },
+      ],
+      indexes: [
+        { key: 'userId_scheduledAt_idx', type: 'key', attributes: ['userId', 'scheduledAt'], orders: ['ASC', 'DESC'] },
+      ],
+    },
     forumTopics: {
       id: appwriteEnvConfig.forumTopicsCollectionId, // Collection ID from Appwrite
       name: 'Forum Topics',
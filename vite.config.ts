@@ -7,6 +7,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // The AI proxy in momcare-backend, used when VITE_PUBLIC_AI_PROXY_URL is unset
+    proxy: {
+      "/ai": { target: "http://localhost:3001", changeOrigin: true },
+    },
   },
   plugins: [
     react(),